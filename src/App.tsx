@@ -4,21 +4,24 @@ import type { FC } from 'react';
 import AddPromptForm from './components/AddPromptForm';
 import { AnalyticsTab } from './components/analytics';
 import CategoryManager from './components/CategoryManager';
+import ChainManager from './components/ChainManager';
 import EditPromptForm from './components/EditPromptForm';
 import LibraryView from './components/LibraryView';
 import SettingsView from './components/SettingsView';
 import StorageWarning from './components/StorageWarning';
 import ToastContainer from './components/ToastContainer';
+import VaultUnlockScreen from './components/VaultUnlockScreen';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { useCategories } from './hooks/useCategories';
 import { useClipboard } from './hooks/useClipboard';
 import { usePrompts } from './hooks/usePrompts';
 import { useSearchWithDebounce } from './hooks/useSearchWithDebounce';
 import { useToast } from './hooks/useToast';
-import type { Prompt, AppError, ViewType } from './types';
-import { Logger, toError } from './utils';
+import { useUndo } from './hooks/useUndo';
+import type { Prompt, PromptFormData, CategoryFormData, CategoryDeleteStrategy, AppError, ViewType } from './types';
+import { Logger, getCategoryNamesInSubtree, toError } from './utils';
 
-type ExtendedViewType = ViewType | 'categories' | 'settings' | 'analytics';
+type ExtendedViewType = ViewType | 'categories' | 'chains' | 'settings' | 'analytics';
 
 interface AppProps {
   context?: 'popup' | 'sidepanel';
@@ -44,6 +47,10 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     createPrompt,
     updatePrompt,
     deletePrompt,
+    setPromptPinned,
+    movePrompts,
+    updatePromptsTags,
+    deletePrompts,
     refreshPrompts
   } = usePrompts();
 
@@ -59,14 +66,20 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     createCategory,
     updateCategory,
     deleteCategory,
+    moveCategory,
     refreshCategories
   } = useCategories();
 
   const { copyToClipboard } = useClipboard();
   const { toasts, showToast, hideToast, queueLength, settings, updateSettings } = useToast();
 
+  const refreshAfterUndo = useCallback(async () => {
+    await Promise.all([refreshPrompts(), refreshCategories()]);
+  }, [refreshPrompts, refreshCategories]);
+  const { withUndo } = useUndo({ showToast, onRestored: refreshAfterUndo });
+
   // Initialize search with debounce functionality using optimistic prompts
-  const searchWithDebounce = useSearchWithDebounce(optimisticPrompts);
+  const searchWithDebounce = useSearchWithDebounce(optimisticPrompts, categories);
 
   const handleAddNew = () => {
     setCurrentView('add');
@@ -86,13 +99,12 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     });
 
     try {
-      await deletePrompt(id);
+      await withUndo({ promptIds: [id] }, 'Prompt deleted successfully', () => deletePrompt(id));
       Logger.info('Prompt deleted successfully', {
         component: 'App',
         promptId: id,
         operation: 'deletePrompt'
       });
-      showToast('Prompt deleted successfully', 'success');
     } catch (err) {
       Logger.error('Failed to delete prompt', toError(err), {
         component: 'App',
@@ -122,6 +134,63 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     }
   };
 
+  const handleTogglePin = async (prompt: Prompt) => {
+    const pinned = prompt.pinned !== true;
+    try {
+      await setPromptPinned(prompt.id, pinned);
+      showToast(pinned ? 'Prompt pinned' : 'Prompt unpinned', 'success');
+    } catch (err) {
+      Logger.error('Failed to update pinned state', toError(err), {
+        component: 'App',
+        promptId: prompt.id,
+        operation: 'togglePin'
+      });
+      showToast('Failed to update pinned state', 'error');
+    }
+  };
+
+  const pluralizePrompts = (count: number) => `${String(count)} prompt${count !== 1 ? 's' : ''}`;
+
+  const handleBulkMove = async (ids: string[], category: string) => {
+    try {
+      await withUndo({ promptIds: ids }, `Moved ${pluralizePrompts(ids.length)} to ${category}`, () => movePrompts(ids, category));
+    } catch (err) {
+      Logger.error('Failed to move prompts', toError(err), {
+        component: 'App',
+        count: ids.length,
+        operation: 'bulkMove'
+      });
+      showToast('Failed to move prompts', 'error');
+    }
+  };
+
+  const handleBulkEditTags = async (ids: string[], changes: { add?: string[]; remove?: string[] }) => {
+    try {
+      await updatePromptsTags(ids, changes);
+      showToast(`Updated tags on ${pluralizePrompts(ids.length)}`, 'success');
+    } catch (err) {
+      Logger.error('Failed to update tags', toError(err), {
+        component: 'App',
+        count: ids.length,
+        operation: 'bulkEditTags'
+      });
+      showToast('Failed to update tags', 'error');
+    }
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    try {
+      await withUndo({ promptIds: ids }, `Deleted ${pluralizePrompts(ids.length)}`, () => deletePrompts(ids));
+    } catch (err) {
+      Logger.error('Failed to delete prompts', toError(err), {
+        component: 'App',
+        count: ids.length,
+        operation: 'bulkDelete'
+      });
+      showToast('Failed to delete prompts', 'error');
+    }
+  };
+
   const handleCopyPrompt = async (content: string) => {
     const success = await copyToClipboard(content);
     if (success) {
@@ -131,7 +200,7 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     }
   };
 
-  const handleFormSubmit = async (data: { title: string; content: string; category: string }) => {
+  const handleFormSubmit = async (data: PromptFormData) => {
     try {
       if (currentView === 'add') {
         await createPrompt(data);
@@ -175,7 +244,7 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     setSelectedPrompt(null);
   };
 
-  const handleCreateCategory = async (categoryData: { name: string; color?: string }) => {
+  const handleCreateCategory = async (categoryData: CategoryFormData) => {
     try {
       await createCategory(categoryData);
       showToast('Category created successfully', 'success');
@@ -204,23 +273,42 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
     }
   };
 
-  const handleDeleteCategory = async (id: string) => {
+  const handleDeleteCategory = async (id: string, strategy?: CategoryDeleteStrategy) => {
+    // Prompts of the whole subtree may be moved, so capture all of them for undo
+    const category = categories.find(c => c.id === id);
+    const affectedNames = category ? getCategoryNamesInSubtree(categories, category.name) : new Set<string>();
+    const affectedPromptIds = prompts.filter(p => affectedNames.has(p.category)).map(p => p.id);
+
     try {
-      await deleteCategory(id);
-      // Refresh prompts to show them as Uncategorized after category deletion
-      await refreshPrompts();
-      showToast('Category deleted successfully', 'success');
+      await withUndo({ promptIds: affectedPromptIds, categories: true }, 'Category deleted successfully', async () => {
+        await deleteCategory(id, strategy);
+        // Refresh prompts to show them as Uncategorized after category deletion
+        await refreshPrompts();
+      });
     } catch (error) {
       showToast('Failed to delete category', 'error');
       throw error;
     }
   };
 
+  const handleMoveCategory = async (id: string, parentId: string | null, beforeId?: string) => {
+    try {
+      await moveCategory(id, parentId, beforeId);
+    } catch (error) {
+      showToast(toError(error).message || 'Failed to move category', 'error');
+      throw error;
+    }
+  };
+
   // Memoized callbacks to prevent unnecessary re-renders
   const handleManageCategories = useCallback(() => {
     setCurrentView('categories');
   }, []);
 
+  const handleManageChains = useCallback(() => {
+    setCurrentView('chains');
+  }, []);
+
   const handleSettings = useCallback(() => {
     setCurrentView('settings');
   }, []);
@@ -251,6 +339,14 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
 
   const loading = promptsLoading || categoriesLoading;
 
+  if (promptsError?.type === 'VAULT_LOCKED') {
+    return (
+      <ThemeProvider>
+        <VaultUnlockScreen onUnlocked={refreshAfterUndo} />
+      </ThemeProvider>
+    );
+  }
+
   if (promptsError) {
     return (
       <ThemeProvider>
@@ -277,9 +373,14 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
           onEditPrompt={handleEditPrompt}
           onDeletePrompt={(id: string) => { void handleDeletePrompt(id); }}
           onCopyPrompt={(content: string) => { void handleCopyPrompt(content); }}
+          onTogglePin={(prompt: Prompt) => { void handleTogglePin(prompt); }}
+          onBulkMove={handleBulkMove}
+          onBulkEditTags={handleBulkEditTags}
+          onBulkDelete={handleBulkDelete}
           showToast={showToast}
           onCategoryChange={setSelectedCategory}
           onManageCategories={handleManageCategories}
+          onManageChains={handleManageChains}
           onSettings={handleSettings}
           onAnalytics={handleAnalytics}
           loading={loading}
@@ -310,15 +411,25 @@ const App: FC<AppProps> = ({ context = 'popup' }) => {
           onCreateCategory={handleCreateCategory}
           onUpdateCategory={handleUpdateCategory}
           onDeleteCategory={handleDeleteCategory}
+          onMoveCategory={handleMoveCategory}
           isOpen={true}
           onClose={handleBackToLibrary}
         />
       )}
 
+      {currentView === 'chains' && (
+        <ChainManager
+          prompts={optimisticPrompts}
+          onClose={handleBackToLibrary}
+          showToast={showToast}
+        />
+      )}
+
       {currentView === 'settings' && (
         <SettingsView
           onBack={handleBackToLibraryWithRefresh}
           showToast={showToast}
+          withUndo={withUndo}
           toastSettings={settings}
           onToastSettingsChange={updateSettings}
         />
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+import { BackupSnapshotManager } from '../../services/backupSnapshots';
+import { BACKUP_SNAPSHOT_ALARM } from '../../types';
+import '../background';
+
+type AlarmListener = (alarm: chrome.alarms.Alarm) => void;
+
+// Captured at import time, before any mock state is reset between tests
+const onAlarm = (chrome.alarms.onAlarm.addListener as Mock).mock.calls[0][0] as AlarmListener;
+
+describe('backup snapshot alarm', () => {
+  it('saves a snapshot when the backup alarm fires', async () => {
+    const createSnapshot = vi.spyOn(BackupSnapshotManager.prototype, 'createSnapshot').mockResolvedValue(null);
+
+    onAlarm({ name: BACKUP_SNAPSHOT_ALARM, scheduledTime: Date.now() });
+
+    await vi.waitFor(() => {
+      expect(createSnapshot).toHaveBeenCalledWith();
+    });
+  });
+
+  it('ignores other alarms', () => {
+    const createSnapshot = vi.spyOn(BackupSnapshotManager.prototype, 'createSnapshot').mockResolvedValue(null);
+
+    onAlarm({ name: 'something-else', scheduledTime: Date.now() });
+
+    expect(createSnapshot).not.toHaveBeenCalled();
+  });
+});
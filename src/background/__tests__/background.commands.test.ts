@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+import { getChromeMock } from '../../test/mocks';
+import { ContentScriptInjector } from '../background';
+
+type CommandListener = (command: string, tab?: chrome.tabs.Tab) => void;
+
+// Captured at import time, before any mock state is reset between tests
+const onCommand = (chrome.commands.onCommand.addListener as Mock).mock.calls[0][0] as CommandListener;
+
+describe('keyboard shortcut commands', () => {
+  it('forwards the picker shortcut to the content script of the tab', async () => {
+    const chromeMock = getChromeMock() as any;
+
+    onCommand('open-prompt-picker', { id: 7 } as chrome.tabs.Tab);
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(7, { action: 'openPromptPicker' });
+    });
+  });
+
+  it('falls back to the active tab when none is provided', async () => {
+    const chromeMock = getChromeMock() as any;
+    chromeMock.tabs.query.mockResolvedValue([{ id: 3 }]);
+
+    onCommand('insert-last-prompt');
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(3, { action: 'insertLastPrompt' });
+    });
+  });
+
+  it('injects the content script and retries when nothing is listening', async () => {
+    const chromeMock = getChromeMock() as any;
+    const injectSpy = vi.spyOn(ContentScriptInjector.prototype, 'injectIfNeeded').mockResolvedValue(undefined);
+    chromeMock.tabs.sendMessage
+      .mockRejectedValueOnce(new Error('Receiving end does not exist'))
+      .mockResolvedValueOnce({ success: true });
+
+    onCommand('insert-last-prompt', { id: 5 } as chrome.tabs.Tab);
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledTimes(2);
+    });
+    expect(injectSpy).toHaveBeenCalledWith(5);
+    injectSpy.mockRestore();
+  });
+
+  it('ignores unknown commands', async () => {
+    const chromeMock = getChromeMock() as any;
+
+    onCommand('unknown-command', { id: 7 } as chrome.tabs.Tab);
+    await Promise.resolve();
+
+    expect(chromeMock.tabs.sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+import { StorageManager } from '../../services/storage';
+import { getChromeMock } from '../../test/mocks';
+import type { Prompt } from '../../types';
+import { ContentScriptInjector } from '../background';
+
+type InstalledListener = (details: chrome.runtime.InstalledDetails) => void;
+type ClickListener = (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) => void;
+
+// Captured at import time, before any mock state is reset between tests
+const onInstalled = (chrome.runtime.onInstalled.addListener as Mock).mock.calls[0][0] as InstalledListener;
+const onClicked = (chrome.contextMenus.onClicked.addListener as Mock).mock.calls[0][0] as ClickListener;
+
+const createPrompt = (id: string, overrides: Partial<Prompt> = {}): Prompt => ({
+  id,
+  title: `Prompt ${id}`,
+  content: `Content ${id}`,
+  category: 'Uncategorized',
+  createdAt: 1000,
+  updatedAt: 1000,
+  usageCount: 0,
+  lastUsedAt: 1000,
+  ...overrides
+});
+
+const getCreatedItems = () =>
+  ((getChromeMock() as any).contextMenus.create as Mock).mock.calls.map(
+    call => call[0] as chrome.contextMenus.CreateProperties
+  );
+
+describe('context menus', () => {
+  it('builds the save and insert menus with most used and recent prompts', async () => {
+    await chrome.storage.local.set({
+      prompts: [
+        createPrompt('a', { usageCount: 3 }),
+        createPrompt('b', { usageCount: 7 }),
+        createPrompt('c', { lastUsedAt: 5000 }),
+        createPrompt('d', { title: 'Q&A' })
+      ]
+    });
+
+    onInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(() => {
+      expect(getCreatedItems().map(item => item.id)).toContain('insert-prompt:d');
+    });
+
+    const items = getCreatedItems();
+    expect(items[0]).toMatchObject({ id: 'save-selection-as-prompt', contexts: ['selection'] });
+    expect(items.find(item => item.id === 'insert-prompt')).toMatchObject({
+      contexts: ['editable'],
+      documentUrlPatterns: expect.arrayContaining(['*://claude.ai/*'])
+    });
+    expect(items.filter(item => item.id?.startsWith('insert-prompt:')).map(item => item.id)).toEqual([
+      'insert-prompt:b',
+      'insert-prompt:a',
+      'insert-prompt:c',
+      'insert-prompt:d'
+    ]);
+    expect(items.find(item => item.id === 'insert-prompt:d')?.title).toBe('Q&&A');
+  });
+
+  it('lists pinned prompts in their own group before the others', async () => {
+    await chrome.storage.local.set({
+      prompts: [
+        createPrompt('a', { usageCount: 9 }),
+        createPrompt('b', { title: 'Zeta', pinned: true }),
+        createPrompt('c', { title: 'Alpha', pinned: true, usageCount: 20 })
+      ]
+    });
+
+    onInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(() => {
+      expect(getCreatedItems().map(item => item.id)).toContain('insert-prompt:a');
+    });
+
+    const items = getCreatedItems();
+    expect(items.filter(item => item.enabled === false).map(item => item.title)[0]).toBe('Pinned');
+    expect(items.filter(item => item.id?.startsWith('insert-prompt:')).map(item => item.id)).toEqual([
+      'insert-prompt:c',
+      'insert-prompt:b',
+      'insert-prompt:a'
+    ]);
+  });
+
+  it('shows a placeholder when there are no prompts', async () => {
+    onInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(() => {
+      expect(getCreatedItems().find(item => item.id === 'insert-prompt-empty')).toMatchObject({ enabled: false });
+    });
+  });
+
+  it('shows a locked placeholder while the vault is locked', async () => {
+    await chrome.storage.local.set({
+      prompts: [createPrompt('a', { content: 'vault:v1:aaaa:bbbb' })],
+      promptVault: { version: 1, salt: '', iterations: 1, check: '' }
+    });
+
+    onInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(() => {
+      expect(getCreatedItems().find(item => item.id === 'insert-prompt-locked')).toMatchObject({
+        parentId: 'insert-prompt',
+        title: 'Prompt library is locked',
+        enabled: false
+      });
+    });
+    expect(getCreatedItems().map(item => item.id)).not.toContain('insert-prompt:a');
+  });
+
+  it('lists saved prompt chains in a run submenu', async () => {
+    await chrome.storage.local.set({
+      prompts: [createPrompt('a'), createPrompt('b')],
+      promptChains: [
+        { id: 'review', title: 'Review', promptIds: ['a', 'b'], createdAt: 1000, updatedAt: 1000 },
+        { id: 'draft', title: 'Draft & refine', promptIds: ['b', 'a'], createdAt: 1000, updatedAt: 1000 }
+      ]
+    });
+
+    onInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(() => {
+      expect(getCreatedItems().map(item => item.id)).toContain('run-chain:review');
+    });
+
+    const items = getCreatedItems();
+    expect(items.find(item => item.id === 'run-chain')).toMatchObject({
+      title: 'Run prompt chain',
+      contexts: ['editable'],
+      documentUrlPatterns: expect.arrayContaining(['*://claude.ai/*'])
+    });
+    expect(items.filter(item => item.parentId === 'run-chain').map(item => item.title)).toEqual(['Draft && refine', 'Review']);
+  });
+
+  it('asks the content script to run the clicked chain', async () => {
+    const chromeMock = getChromeMock() as any;
+
+    onClicked({ menuItemId: 'run-chain:review' } as chrome.contextMenus.OnClickData, { id: 9 } as chrome.tabs.Tab);
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(9, { action: 'runChain', chainId: 'review' });
+    });
+  });
+
+  it('saves the page selection as a new prompt with a generated title', async () => {
+    const chromeMock = getChromeMock() as any;
+    chromeMock.scripting.executeScript.mockResolvedValue([{ result: 'Line one\nLine two' }]);
+    const storageManager = StorageManager.getInstance();
+
+    onClicked(
+      { menuItemId: 'save-selection-as-prompt', selectionText: 'Line one Line two', frameId: 0 } as chrome.contextMenus.OnClickData,
+      { id: 4 } as chrome.tabs.Tab
+    );
+
+    await vi.waitFor(async () => {
+      const prompts = await storageManager.getPrompts();
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]).toMatchObject({
+        title: 'Line one Line two',
+        content: 'Line one\nLine two',
+        category: 'Uncategorized'
+      });
+    });
+  });
+
+  it('tells the page why the selection was not saved while the vault is locked', async () => {
+    const chromeMock = getChromeMock() as any;
+    chromeMock.scripting.executeScript.mockResolvedValue([{ result: 'Selected words' }]);
+    await chrome.storage.local.set({ promptVault: { version: 1, salt: '', iterations: 1, check: '' } });
+
+    onClicked(
+      { menuItemId: 'save-selection-as-prompt', selectionText: 'Selected words', frameId: 0 } as chrome.contextMenus.OnClickData,
+      { id: 4 } as chrome.tabs.Tab
+    );
+
+    await vi.waitFor(() => {
+      expect(chromeMock.scripting.executeScript).toHaveBeenCalledWith(expect.objectContaining({
+        target: { tabId: 4 },
+        args: [expect.stringContaining('the prompt library is locked'), expect.any(Number)]
+      }));
+    });
+    expect(await chrome.storage.local.get('prompts')).toEqual({});
+  });
+
+  it('falls back to the menu selection text when the page cannot be scripted', async () => {
+    const chromeMock = getChromeMock() as any;
+    chromeMock.scripting.executeScript.mockRejectedValue(new Error('Cannot access contents of the page'));
+    const storageManager = StorageManager.getInstance();
+
+    onClicked(
+      { menuItemId: 'save-selection-as-prompt', selectionText: 'Selected words' } as chrome.contextMenus.OnClickData,
+      { id: 4 } as chrome.tabs.Tab
+    );
+
+    await vi.waitFor(async () => {
+      const prompts = await storageManager.getPrompts();
+      expect(prompts.map(prompt => prompt.content)).toEqual(['Selected words']);
+    });
+  });
+
+  it('asks the content script to insert the clicked prompt', async () => {
+    const chromeMock = getChromeMock() as any;
+
+    onClicked({ menuItemId: 'insert-prompt:abc' } as chrome.contextMenus.OnClickData, { id: 9 } as chrome.tabs.Tab);
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledWith(9, { action: 'insertPrompt', promptId: 'abc' });
+    });
+  });
+
+  it('injects the content script and retries the insertion when nothing is listening', async () => {
+    const chromeMock = getChromeMock() as any;
+    const injectSpy = vi.spyOn(ContentScriptInjector.prototype, 'injectIfNeeded').mockResolvedValue(undefined);
+    chromeMock.tabs.sendMessage
+      .mockRejectedValueOnce(new Error('Receiving end does not exist'))
+      .mockResolvedValueOnce({ success: true });
+
+    onClicked({ menuItemId: 'insert-prompt:abc' } as chrome.contextMenus.OnClickData, { id: 9 } as chrome.tabs.Tab);
+
+    await vi.waitFor(() => {
+      expect(chromeMock.tabs.sendMessage).toHaveBeenCalledTimes(2);
+    });
+    expect(injectSpy).toHaveBeenCalledWith(9);
+    injectSpy.mockRestore();
+  });
+});
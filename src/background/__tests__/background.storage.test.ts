@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+import { DEFAULT_CATEGORY } from '../../constants';
+import { StorageManager } from '../../services/storage';
+import { buildPrompt } from '../../test/builders';
+import '../background';
+
+type InstalledListener = (details: chrome.runtime.InstalledDetails) => void;
+type MessageListener = (message: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response?: unknown) => void) => boolean;
+
+// Captured at import time, before any mock state is reset between tests
+const onInstalled = (chrome.runtime.onInstalled.addListener as Mock).mock.calls[0][0] as InstalledListener;
+const onMessage = (chrome.runtime.onMessage.addListener as Mock).mock.calls[0][0] as MessageListener;
+
+describe('prompt storage layout', () => {
+  it('migrates prompt storage to IndexedDB when the extension is updated', async () => {
+    await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'p1', content: 'Body' })] });
+
+    onInstalled({ reason: 'update', previousVersion: '1.0.0' } as chrome.runtime.InstalledDetails);
+
+    await vi.waitFor(async () => {
+      const stored = await chrome.storage.local.get(['prompts', 'storageLayout']);
+      expect(stored.storageLayout).toBe('indexeddb');
+      expect((stored.prompts as Array<Record<string, unknown>>)[0]).not.toHaveProperty('content');
+    });
+  });
+
+  it('sends the full prompt list to content scripts', async () => {
+    const prompts = [buildPrompt({ id: 'p1', content: 'Body' })];
+    await chrome.storage.local.set({ prompts });
+    const sendResponse = vi.fn();
+
+    expect(onMessage({ type: 'GET_PROMPTS' }, {}, sendResponse)).toBe(true);
+
+    await vi.waitFor(() => {
+      expect(sendResponse).toHaveBeenCalledWith({ success: true, prompts });
+    });
+  });
+});
+
+describe('saving responses captured on the page', () => {
+  it('saves a response as a new prompt in the default category', async () => {
+    await chrome.storage.local.set({ prompts: [], categories: [{ id: 'default', name: DEFAULT_CATEGORY }] });
+    const sendResponse = vi.fn();
+
+    onMessage({ type: 'SAVE_RESPONSE_AS_PROMPT', data: { content: 'Summarize the meeting notes below' } }, {}, sendResponse);
+
+    await vi.waitFor(() => {
+      expect(sendResponse).toHaveBeenCalledWith({ success: true, promptId: expect.any(String) });
+    });
+    const [prompt] = await StorageManager.getInstance().getPrompts();
+    expect(prompt).toMatchObject({ content: 'Summarize the meeting notes below', category: DEFAULT_CATEGORY });
+  });
+
+  it('attaches a response to its prompt as an example output', async () => {
+    await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'p1' })] });
+    const sendResponse = vi.fn();
+
+    onMessage({ type: 'SAVE_EXAMPLE_OUTPUT', data: { promptId: 'p1', platform: 'claude', content: 'Here is the summary' } }, {}, sendResponse);
+
+    await vi.waitFor(() => {
+      expect(sendResponse).toHaveBeenCalledWith({ success: true });
+    });
+    expect(await StorageManager.getInstance().getPromptExampleOutputs('p1')).toMatchObject([
+      { content: 'Here is the summary', platform: 'claude' }
+    ]);
+
+    const rejected = vi.fn();
+    onMessage({ type: 'SAVE_EXAMPLE_OUTPUT', data: { promptId: 'p1', platform: 'claude' } }, {}, rejected);
+    expect(rejected).toHaveBeenCalledWith({ success: false, error: 'Prompt ID, platform and response are required' });
+  });
+});
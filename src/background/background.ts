@@ -7,9 +7,21 @@ import {
   getDefaultEnabledPlatforms,
   getAllHostnamePatterns,
 } from "../config/platforms";
+import {
+  BACKUP_SNAPSHOT_ALARM,
+  BACKUP_SNAPSHOT_LIMITS,
+  DEFAULT_CATEGORY,
+  PROMPT_CHAINS_STORAGE_KEY,
+  PROMPT_SYNC_ALARM,
+  PROMPT_VAULT_SESSION_KEY,
+  PROMPT_SYNC_LIMITS,
+} from "../constants";
+import { BackupSnapshotManager } from "../services/backupSnapshots";
+import { PromptManager } from "../services/promptManager";
 import { StorageManager } from "../services/storage";
+import { SyncEngine } from "../services/syncEngine";
 import { UsageTracker } from "../services/UsageTracker";
-import type { ElementFingerprint, PlatformType } from "../types";
+import type { AppError, ElementFingerprint, PlatformType, Prompt, PromptVariableValues } from "../types";
 import { Logger, toError, getErrorMessage } from "../utils";
 
 // Track active element picker sessions
@@ -23,6 +35,33 @@ const storageManager = StorageManager.getInstance();
 // Configuration constants
 const ORPHANED_TAB_DETECTION_WINDOW_MS = 10000; // 10 seconds after extension start
 
+/**
+ * Hostnames the prompt library is enabled on: built-in platforms from the
+ * site settings plus enabled custom sites
+ */
+async function getEnabledHostnames(): Promise<string[]> {
+  const settings = await chrome.storage.local.get(["promptLibrarySettings"]);
+  const promptLibrarySettings = settings.promptLibrarySettings as
+    | {
+        enabledSites?: string[];
+        customSites?: Array<{ hostname: string; enabled: boolean }>;
+      }
+    | undefined;
+
+  if (!promptLibrarySettings) {
+    return getDefaultEnabledPlatforms();
+  }
+
+  const enabledSites =
+    promptLibrarySettings.enabledSites || getDefaultEnabledPlatforms();
+  const customSites = promptLibrarySettings.customSites || [];
+
+  return [
+    ...enabledSites,
+    ...customSites.filter((site) => site.enabled).map((site) => site.hostname),
+  ];
+}
+
 /**
  * Content script injection controller
  * Handles programmatic injection of content scripts based on site enablement
@@ -158,39 +197,8 @@ export class ContentScriptInjector {
         return false;
       }
 
-      const settings = await chrome.storage.local.get([
-        "promptLibrarySettings",
-      ]);
-      const promptLibrarySettings = settings.promptLibrarySettings as
-        | {
-            enabledSites?: string[];
-            customSites?: Array<{ hostname: string; enabled: boolean }>;
-          }
-        | undefined;
-
-      if (!promptLibrarySettings) {
-        return getDefaultEnabledPlatforms().includes(hostname);
-      }
-
-      // Get enabled sites and custom sites from settings
-      const enabledSites =
-        promptLibrarySettings.enabledSites || getDefaultEnabledPlatforms();
-      const customSites = promptLibrarySettings.customSites || [];
-
-      // Check default enabled sites
-      if (enabledSites.includes(hostname)) {
-        return true;
-      }
-
-      // Check custom sites
-      const customSite = customSites.find(
-        (site) => site.hostname === hostname && site.enabled,
-      );
-      if (customSite) {
-        return true;
-      }
-
-      return false;
+      const enabledHostnames = await getEnabledHostnames();
+      return enabledHostnames.includes(hostname);
     } catch (error) {
       Logger.error("Error checking site enablement", toError(error), {
         component: "ContentScriptInjector",
@@ -713,6 +721,448 @@ chrome.action.onClicked.addListener((tab) => {
   }
 });
 
+// ===============================
+// KEYBOARD SHORTCUTS
+// ===============================
+
+// Content script actions for the commands declared in manifest.json
+const COMMAND_ACTIONS: Record<string, string> = {
+  "open-prompt-picker": "openPromptPicker",
+  "insert-last-prompt": "insertLastPrompt",
+};
+
+/**
+ * Forward a keyboard shortcut to the content script of the given (or active) tab
+ */
+async function handleCommand(
+  command: string,
+  tab: chrome.tabs.Tab | undefined,
+): Promise<void> {
+  const action = COMMAND_ACTIONS[command];
+  if (!action) {
+    return;
+  }
+
+  let tabId = tab?.id;
+  if (tabId === undefined) {
+    const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+    tabId = tabs[0]?.id;
+  }
+  if (tabId === undefined) {
+    return;
+  }
+
+  await sendToContentScript(tabId, { action });
+}
+
+/**
+ * Send a message to the content script of a tab, injecting it first if
+ * nothing is listening yet
+ */
+async function sendToContentScript(
+  tabId: number,
+  message: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await chrome.tabs.sendMessage(tabId, message);
+  } catch {
+    // No content script listening yet - inject it and try once more
+    await injector.injectIfNeeded(tabId);
+    await chrome.tabs.sendMessage(tabId, message);
+  }
+}
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  void (async () => {
+    try {
+      await handleCommand(command, tab);
+    } catch (error) {
+      Logger.error("Failed to handle keyboard shortcut", toError(error), {
+        component: "Background",
+        command,
+        tabId: tab?.id,
+      });
+    }
+  })();
+});
+
+// ===============================
+// CONTEXT MENUS
+// ===============================
+
+const CONTEXT_MENU_IDS = {
+  SAVE_SELECTION: "save-selection-as-prompt",
+  INSERT_PROMPT: "insert-prompt",
+  RUN_CHAIN: "run-chain",
+} as const;
+
+// Submenu items carry the prompt ID after this prefix
+const INSERT_PROMPT_ITEM_PREFIX = "insert-prompt:";
+
+// Chain submenu items carry the chain ID after this prefix
+const RUN_CHAIN_ITEM_PREFIX = "run-chain:";
+
+// Number of prompts listed in each group of the insert submenu
+const CONTEXT_MENU_GROUP_SIZE = 5;
+const CONTEXT_MENU_PINNED_LIMIT = 10;
+
+// How long the notice shown on the page by showPageNotice stays visible
+const PAGE_NOTICE_DURATION_MS = 4000;
+
+// Rebuilds are chained so removeAll/create pairs never interleave
+let contextMenuUpdate: Promise<void> = Promise.resolve();
+
+function createContextMenuItem(
+  properties: chrome.contextMenus.CreateProperties,
+): void {
+  chrome.contextMenus.create(properties, () => {
+    if (chrome.runtime.lastError) {
+      Logger.warn("Failed to create context menu item", {
+        component: "Background",
+        menuItemId: properties.id,
+        error: chrome.runtime.lastError.message,
+      });
+    }
+  });
+}
+
+/**
+ * Pinned prompts first, then the most used and recently used ones that are
+ * not already listed
+ */
+function getContextMenuPromptGroups(prompts: Prompt[]): {
+  pinned: Prompt[];
+  mostUsed: Prompt[];
+  recent: Prompt[];
+} {
+  const pinned = prompts
+    .filter((prompt) => prompt.pinned === true)
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .slice(0, CONTEXT_MENU_PINNED_LIMIT);
+
+  const unpinned = prompts.filter((prompt) => prompt.pinned !== true);
+  const mostUsed = unpinned
+    .filter((prompt) => (prompt.usageCount ?? 0) > 0)
+    .sort((a, b) => (b.usageCount ?? 0) - (a.usageCount ?? 0))
+    .slice(0, CONTEXT_MENU_GROUP_SIZE);
+
+  const listed = new Set(mostUsed.map((prompt) => prompt.id));
+  const recent = unpinned
+    .filter((prompt) => !listed.has(prompt.id))
+    .sort(
+      (a, b) =>
+        (b.lastUsedAt ?? b.updatedAt) - (a.lastUsedAt ?? a.updatedAt),
+    )
+    .slice(0, CONTEXT_MENU_GROUP_SIZE);
+
+  return { pinned, mostUsed, recent };
+}
+
+async function rebuildContextMenus(): Promise<void> {
+  await chrome.contextMenus.removeAll();
+
+  createContextMenuItem({
+    id: CONTEXT_MENU_IDS.SAVE_SELECTION,
+    title: "Save selection as prompt",
+    contexts: ["selection"],
+  });
+
+  // Only offer insertion where the content script can run
+  const hostnames = await getEnabledHostnames();
+  if (hostnames.length === 0) {
+    return;
+  }
+
+  const documentUrlPatterns = hostnames.map((hostname) => `*://${hostname}/*`);
+  createContextMenuItem({
+    id: CONTEXT_MENU_IDS.INSERT_PROMPT,
+    title: "Insert prompt",
+    contexts: ["editable"],
+    documentUrlPatterns,
+  });
+
+  const chains = await storageManager.getPromptChains();
+  if (chains.length > 0) {
+    createContextMenuItem({
+      id: CONTEXT_MENU_IDS.RUN_CHAIN,
+      title: "Run prompt chain",
+      contexts: ["editable"],
+      documentUrlPatterns,
+    });
+    for (const chain of [...chains].sort((a, b) => a.title.localeCompare(b.title))) {
+      createContextMenuItem({
+        id: `${RUN_CHAIN_ITEM_PREFIX}${chain.id}`,
+        parentId: CONTEXT_MENU_IDS.RUN_CHAIN,
+        title: chain.title.replace(/&/g, "&&"),
+        contexts: ["editable"],
+      });
+    }
+  }
+
+  let prompts: Prompt[];
+  try {
+    prompts = await storageManager.getPrompts();
+  } catch (error) {
+    if (!isVaultLocked(error)) {
+      throw error;
+    }
+    // Rebuilt when the vault is unlocked (see the storage change listener)
+    createContextMenuItem({
+      id: `${CONTEXT_MENU_IDS.INSERT_PROMPT}-locked`,
+      parentId: CONTEXT_MENU_IDS.INSERT_PROMPT,
+      title: "Prompt library is locked",
+      contexts: ["editable"],
+      enabled: false,
+    });
+    return;
+  }
+
+  const { pinned, mostUsed, recent } = getContextMenuPromptGroups(prompts);
+
+  if (pinned.length === 0 && mostUsed.length === 0 && recent.length === 0) {
+    createContextMenuItem({
+      id: `${CONTEXT_MENU_IDS.INSERT_PROMPT}-empty`,
+      parentId: CONTEXT_MENU_IDS.INSERT_PROMPT,
+      title: "No prompts yet",
+      contexts: ["editable"],
+      enabled: false,
+    });
+    return;
+  }
+
+  const groups = [
+    { key: "pinned", title: "Pinned", prompts: pinned },
+    { key: "most-used", title: "Most used", prompts: mostUsed },
+    { key: "recent", title: "Recent", prompts: recent },
+  ].filter((group) => group.prompts.length > 0);
+
+  groups.forEach((group, index) => {
+    if (index > 0) {
+      createContextMenuItem({
+        id: `${CONTEXT_MENU_IDS.INSERT_PROMPT}-separator-${group.key}`,
+        parentId: CONTEXT_MENU_IDS.INSERT_PROMPT,
+        type: "separator",
+        contexts: ["editable"],
+      });
+    }
+
+    createContextMenuItem({
+      id: `${CONTEXT_MENU_IDS.INSERT_PROMPT}-heading-${group.key}`,
+      parentId: CONTEXT_MENU_IDS.INSERT_PROMPT,
+      title: group.title,
+      contexts: ["editable"],
+      enabled: false,
+    });
+
+    for (const prompt of group.prompts) {
+      createContextMenuItem({
+        id: `${INSERT_PROMPT_ITEM_PREFIX}${prompt.id}`,
+        parentId: CONTEXT_MENU_IDS.INSERT_PROMPT,
+        // "&" marks an access key in menu titles
+        title: prompt.title.replace(/&/g, "&&"),
+        contexts: ["editable"],
+      });
+    }
+  });
+}
+
+/**
+ * Rebuild the context menus, e.g. after prompts or enabled sites change
+ */
+function refreshContextMenus(): void {
+  contextMenuUpdate = contextMenuUpdate
+    .then(rebuildContextMenus)
+    .catch((error: unknown) => {
+      Logger.error("Error updating context menus", toError(error), {
+        component: "Background",
+      });
+    });
+}
+
+function isVaultLocked(error: unknown): boolean {
+  return (error as Partial<AppError> | null)?.type === "VAULT_LOCKED";
+}
+
+/**
+ * Show a short message at the top of a page, for menu actions that have no
+ * other place to report back (pages the extension cannot script are skipped)
+ */
+async function showPageNotice(tabId: number, message: string): Promise<void> {
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: (text: string, duration: number) => {
+        const notice = document.createElement("div");
+        notice.setAttribute("role", "alert");
+        notice.textContent = text;
+        notice.style.cssText =
+          "position:fixed;top:16px;left:50%;transform:translateX(-50%);z-index:2147483647;" +
+          "padding:8px 14px;border-radius:8px;background:#1f2937;color:#fff;" +
+          "font:13px/1.4 system-ui,sans-serif;box-shadow:0 4px 12px rgba(0,0,0,.25)";
+        document.body.appendChild(notice);
+        setTimeout(() => {
+          notice.remove();
+        }, duration);
+      },
+      args: [message, PAGE_NOTICE_DURATION_MS],
+    });
+  } catch (error) {
+    Logger.warn("Could not show notice on the page", {
+      component: "Background",
+      tabId,
+      error: getErrorMessage(error),
+    });
+  }
+}
+
+/**
+ * Read the selection from the page so line breaks survive; the selectionText
+ * passed to the menu handler has its whitespace collapsed
+ */
+async function getSelectedText(
+  info: chrome.contextMenus.OnClickData,
+  tabId: number | undefined,
+): Promise<string> {
+  const fallback = info.selectionText ?? "";
+  if (tabId === undefined) {
+    return fallback;
+  }
+
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId, frameIds: [info.frameId ?? 0] },
+      func: () => window.getSelection()?.toString() ?? "",
+    });
+    const selected: unknown = injection?.result;
+    // Selections inside text fields are not part of the document selection
+    return typeof selected === "string" && selected.trim() ? selected : fallback;
+  } catch {
+    // Restricted pages cannot be scripted
+    return fallback;
+  }
+}
+
+async function handleContextMenuClick(
+  info: chrome.contextMenus.OnClickData,
+  tab: chrome.tabs.Tab | undefined,
+): Promise<void> {
+  const menuItemId = String(info.menuItemId);
+
+  if (menuItemId === CONTEXT_MENU_IDS.SAVE_SELECTION) {
+    const content = await getSelectedText(info, tab?.id);
+    if (!content.trim()) {
+      return;
+    }
+
+    const promptManager = PromptManager.getInstance();
+    try {
+      await promptManager.createPrompt(
+        promptManager.generateTitle(content),
+        content,
+        DEFAULT_CATEGORY,
+      );
+    } catch (error) {
+      if (!isVaultLocked(error) || tab?.id === undefined) {
+        throw error;
+      }
+      await showPageNotice(
+        tab.id,
+        "Prompt not saved: the prompt library is locked. Unlock it in My Prompt Manager first.",
+      );
+    }
+    return;
+  }
+
+  if (menuItemId.startsWith(INSERT_PROMPT_ITEM_PREFIX) && tab?.id !== undefined) {
+    await sendToContentScript(tab.id, {
+      action: "insertPrompt",
+      promptId: menuItemId.slice(INSERT_PROMPT_ITEM_PREFIX.length),
+    });
+    return;
+  }
+
+  if (menuItemId.startsWith(RUN_CHAIN_ITEM_PREFIX) && tab?.id !== undefined) {
+    await sendToContentScript(tab.id, {
+      action: "runChain",
+      chainId: menuItemId.slice(RUN_CHAIN_ITEM_PREFIX.length),
+    });
+  }
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  void (async () => {
+    try {
+      await handleContextMenuClick(info, tab);
+    } catch (error) {
+      Logger.error("Failed to handle context menu click", toError(error), {
+        component: "Background",
+        menuItemId: info.menuItemId,
+        tabId: tab?.id,
+      });
+    }
+  })();
+});
+
+// Scheduled backup snapshots, kept in IndexedDB outside the storage quota.
+// Alarms persist across service worker restarts, so only a missing one is created.
+async function ensureBackupSnapshotAlarm(): Promise<void> {
+  const existing = await chrome.alarms.get(BACKUP_SNAPSHOT_ALARM);
+  if (!existing) {
+    await chrome.alarms.create(BACKUP_SNAPSHOT_ALARM, {
+      delayInMinutes: 1,
+      periodInMinutes: BACKUP_SNAPSHOT_LIMITS.INTERVAL_MINUTES,
+    });
+  }
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name !== BACKUP_SNAPSHOT_ALARM) {
+    return;
+  }
+  void (async () => {
+    try {
+      await BackupSnapshotManager.getInstance().createSnapshot();
+    } catch (error) {
+      Logger.error("Error saving backup snapshot", toError(error), {
+        component: "Background",
+        alarm: alarm.name,
+      });
+    }
+  })();
+});
+
+/**
+ * Keep the periodic sync alarm while sync is on (alarms may not survive a browser restart)
+ */
+async function ensurePromptSyncAlarm(): Promise<void> {
+  const { enabled } = await SyncEngine.getInstance().getStatus();
+  if (enabled && !(await chrome.alarms.get(PROMPT_SYNC_ALARM))) {
+    await chrome.alarms.create(PROMPT_SYNC_ALARM, {
+      delayInMinutes: 1,
+      periodInMinutes: PROMPT_SYNC_LIMITS.INTERVAL_MINUTES,
+    });
+  }
+}
+
+function syncPrompts(trigger: string): void {
+  void (async () => {
+    try {
+      await SyncEngine.getInstance().sync();
+    } catch (error) {
+      Logger.error("Error syncing prompts", toError(error), {
+        component: "Background",
+        trigger,
+      });
+    }
+  })();
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === PROMPT_SYNC_ALARM) {
+    syncPrompts("alarm");
+  }
+});
+
 // Initialize the extension on service worker start
 void (async () => {
   try {
@@ -727,6 +1177,30 @@ void (async () => {
   }
 })();
 
+void (async () => {
+  try {
+    await ensureBackupSnapshotAlarm();
+  } catch (error) {
+    Logger.error("Error scheduling backup snapshots", toError(error), {
+      component: "Background",
+      phase: "initialization",
+      action: "ensureBackupSnapshotAlarm",
+    });
+  }
+})();
+
+void (async () => {
+  try {
+    await ensurePromptSyncAlarm();
+  } catch (error) {
+    Logger.error("Error scheduling prompt sync", toError(error), {
+      component: "Background",
+      phase: "initialization",
+      action: "ensurePromptSyncAlarm",
+    });
+  }
+})();
+
 // Track the picker window
 let pickerWindowId: number | null = null;
 let originalTabId: number | null = null;
@@ -743,7 +1217,11 @@ interface BackgroundMessage {
     | "REQUEST_INJECTION"
     | "SETTINGS_UPDATED"
     | "REQUEST_PERMISSION"
-    | "PROMPT_USAGE_INCREMENT";
+    | "PROMPT_USAGE_INCREMENT"
+    | "GET_PROMPTS"
+    | "SAVE_RESPONSE_AS_PROMPT"
+    | "SAVE_EXAMPLE_OUTPUT"
+    | "SAVE_VARIABLE_VALUES";
   data?: {
     fingerprint?: ElementFingerprint; // Element fingerprint for robust identification
     selector?: string;
@@ -754,6 +1232,9 @@ interface BackgroundMessage {
     origins?: string[];
     settings?: unknown;
     promptId?: string;
+    platform?: PlatformType;
+    content?: string;
+    values?: PromptVariableValues;
   };
 }
 
@@ -802,6 +1283,22 @@ chrome.runtime.onMessage.addListener(
         void handlePromptUsageIncrement(message.data, sendResponse);
         break;
 
+      case "GET_PROMPTS":
+        void handleGetPrompts(sendResponse);
+        break;
+
+      case "SAVE_RESPONSE_AS_PROMPT":
+        void handleSaveResponseAsPrompt(message.data?.content, sendResponse);
+        break;
+
+      case "SAVE_EXAMPLE_OUTPUT":
+        void handleSaveExampleOutput(message.data, sendResponse);
+        break;
+
+      case "SAVE_VARIABLE_VALUES":
+        void handleSaveVariableValues(message.data, sendResponse);
+        break;
+
       default:
         break;
     }
@@ -811,6 +1308,29 @@ chrome.runtime.onMessage.addListener(
   },
 );
 
+/**
+ * Send the full prompt list to a content script; once prompt bodies are
+ * stored in IndexedDB, chrome.storage.local only holds their metadata, and
+ * while the vault is on only the worker can decrypt them (fails while locked)
+ */
+async function handleGetPrompts(
+  sendResponse: (response?: {
+    success: boolean;
+    prompts?: Prompt[];
+    error?: string;
+  }) => void,
+) {
+  try {
+    const prompts = await storageManager.getPrompts();
+    sendResponse({ success: true, prompts });
+  } catch (error) {
+    Logger.error("Failed to read prompts for content script", toError(error), {
+      component: "Background",
+    });
+    sendResponse({ success: false, error: getErrorMessage(error) });
+  }
+}
+
 /**
  * Handle manual injection requests from popup/side panel
  */
@@ -992,10 +1512,111 @@ async function handlePromptUsageIncrement(
 }
 
 /**
- * Handle extension updates by re-injecting content scripts
+ * Save an AI response captured on the page as a new prompt in the default category
+ */
+async function handleSaveResponseAsPrompt(
+  content: string | undefined,
+  sendResponse: (response?: { success: boolean; promptId?: string; error?: string }) => void,
+) {
+  if (!content?.trim()) {
+    sendResponse({ success: false, error: "Response is empty" });
+    return;
+  }
+
+  try {
+    const promptManager = PromptManager.getInstance();
+    const prompt = await promptManager.createPrompt(
+      promptManager.generateTitle(content),
+      content,
+      DEFAULT_CATEGORY,
+    );
+    sendResponse({ success: true, promptId: prompt.id });
+  } catch (error) {
+    Logger.error("Failed to save response as prompt", toError(error), {
+      component: "Background",
+    });
+    sendResponse({ success: false, error: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Attach an AI response captured on the page to the prompt that produced it
+ */
+async function handleSaveExampleOutput(
+  data: { promptId?: string; platform?: PlatformType; content?: string } | undefined,
+  sendResponse: (response?: { success: boolean; error?: string }) => void,
+) {
+  const promptId = data?.promptId;
+  if (!promptId || !data.content || !data.platform) {
+    sendResponse({ success: false, error: "Prompt ID, platform and response are required" });
+    return;
+  }
+
+  try {
+    await storageManager.savePromptExampleOutput(promptId, {
+      content: data.content,
+      platform: data.platform,
+    });
+    sendResponse({ success: true });
+  } catch (error) {
+    Logger.error("Failed to save example output", toError(error), {
+      component: "Background",
+      promptId,
+    });
+    sendResponse({ success: false, error: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Remember the variable values a content script filled in for a prompt
+ */
+async function handleSaveVariableValues(
+  data: { promptId?: string; values?: PromptVariableValues } | undefined,
+  sendResponse: (response?: { success: boolean; error?: string }) => void,
+) {
+  const promptId = data?.promptId;
+  if (!promptId || !data.values) {
+    sendResponse({ success: false, error: "Prompt ID and values are required" });
+    return;
+  }
+
+  try {
+    await storageManager.savePromptVariableValues(promptId, data.values);
+    sendResponse({ success: true });
+  } catch (error) {
+    Logger.error("Failed to save variable values", toError(error), {
+      component: "Background",
+      promptId,
+    });
+    sendResponse({ success: false, error: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Move prompt bodies and revision history to IndexedDB (no-op once done)
+ */
+async function migrateStorageLayout(): Promise<void> {
+  try {
+    if (await storageManager.migrateToIndexedDb()) {
+      Logger.info("Migrated prompt storage to IndexedDB", {
+        component: "Background",
+      });
+    }
+  } catch (error) {
+    // The old layout stays usable; the migration is retried on the next update
+    Logger.error("Failed to migrate prompt storage", toError(error), {
+      component: "Background",
+    });
+  }
+}
+
+/**
+ * Handle extension updates by migrating storage and re-injecting content scripts
  * This method gracefully handles existing tabs that may have orphaned content scripts
  */
 async function handleExtensionUpdate(): Promise<void> {
+  await migrateStorageLayout();
+
   try {
     const settings = await chrome.storage.local.get(["promptLibrarySettings"]);
     const promptLibrarySettings = settings.promptLibrarySettings as
@@ -1432,11 +2053,16 @@ chrome.runtime.onConnect.addListener((port) => {
 
 // Initialize interface mode on extension startup and handle updates
 chrome.runtime.onInstalled.addListener((details) => {
+  refreshContextMenus();
   void (async () => {
     try {
       const mode = await getInterfaceMode();
       await updateActionBehavior(mode);
 
+      if (details.reason === "install") {
+        await migrateStorageLayout();
+      }
+
       // Re-inject content scripts after extension updates
       if (details.reason === "update") {
         // Extension updated, re-injecting content scripts
@@ -1454,6 +2080,7 @@ chrome.runtime.onInstalled.addListener((details) => {
 
 // Initialize interface mode on browser startup
 chrome.runtime.onStartup.addListener(() => {
+  refreshContextMenus();
   void (async () => {
     try {
       const mode = await getInterfaceMode();
@@ -1485,8 +2112,35 @@ chrome.action.onClicked.addListener((tab) => {
   }
 });
 
-// Listen for storage changes to update interface mode
+// Listen for storage changes to update interface mode and context menus
 chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (
+    areaName === "local" &&
+    ("prompts" in changes ||
+      "promptLibrarySettings" in changes ||
+      PROMPT_CHAINS_STORAGE_KEY in changes)
+  ) {
+    refreshContextMenus();
+  }
+  // Prompts can only be listed while the vault is unlocked
+  if (areaName === "session" && PROMPT_VAULT_SESSION_KEY in changes) {
+    refreshContextMenus();
+  }
+
+  // Local edits are synced after a short delay; other devices' edits right away
+  if (areaName === "local" && "prompts" in changes) {
+    void SyncEngine.getInstance()
+      .scheduleSync()
+      .catch((error: unknown) => {
+        Logger.error("Error scheduling prompt sync", toError(error), {
+          component: "Background",
+        });
+      });
+  }
+  if (areaName === "sync") {
+    syncPrompts("storage.sync change");
+  }
+
   if (areaName === "local" && "interfaceMode" in changes) {
     const interfaceModeChange = changes.interfaceMode;
     if (interfaceModeChange.newValue) {
@@ -2,12 +2,15 @@ import { forwardRef, useActionState, useEffect, useMemo, useRef, useState } from
 import type { FC } from 'react';
 
 import { MAX_CONTENT_LENGTH, MAX_TITLE_LENGTH, formatCharacterCount } from '../constants/validation';
+import { isCollectionCode } from '../services/collectionEncoder';
 import { decode } from '../services/promptEncoder';
-import { DEFAULT_CATEGORY, type SharedPromptData } from '../types';
+import { ShareSigningManager } from '../services/shareSigning';
+import { DEFAULT_CATEGORY, type ShareSignatureStatus, type SharedPromptData } from '../types';
 import type { AddPromptFormProps } from '../types/components';
-import { Logger, toError, validatePromptFields, type FieldErrors } from '../utils';
+import { Logger, flattenCategoryTree, parseTagInput, toError, validatePromptFields, type FieldErrors } from '../utils';
 
 import { Dropdown, type DropdownItem } from './Dropdown';
+import SignatureBadge from './SignatureBadge';
 import ViewHeader from './ViewHeader';
 
 // Form mode type
@@ -49,6 +52,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
   // Import mode state
   const [importCode, setImportCode] = useState('');
   const [decodedPrompt, setDecodedPrompt] = useState<SharedPromptData | null>(null);
+  const [signature, setSignature] = useState<ShareSignatureStatus | null>(null);
   const [validationError, setValidationError] = useState<string>('');
   const [isValidating, setIsValidating] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>(DEFAULT_CATEGORY);
@@ -62,6 +66,8 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
   
   // Ref for debounce timer
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Latest code being validated; the signature check is async and may finish after the code changed
+  const validatingCodeRef = useRef('');
 
   // Cleanup when leaving import mode to prevent race conditions
   useEffect(() => {
@@ -74,6 +80,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
       // Reset import state
       setImportCode('');
       setDecodedPrompt(null);
+      setSignature(null);
       setValidationError('');
       setIsValidating(false);
     }
@@ -82,6 +89,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
   // Handle import code change with debounced validation
   const handleImportCodeChange = (code: string) => {
     setImportCode(code);
+    validatingCodeRef.current = code;
     
     // Clear existing timer
     if (debounceTimerRef.current) {
@@ -91,6 +99,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
     // If empty, clear validation state immediately
     if (!code.trim()) {
       setDecodedPrompt(null);
+      setSignature(null);
       setValidationError('');
       setIsValidating(false);
       return;
@@ -101,35 +110,54 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
 
     // Debounced validation (300ms)
     debounceTimerRef.current = setTimeout(() => {
-      try {
-        const decoded = decode(code);
-        setDecodedPrompt(decoded);
-        setValidationError('');
-
-        // Try to set the category to the decoded prompt's category if it exists
-        const categoryExists = categories.find(c => c.name === decoded.category);
-        if (categoryExists) {
-          setSelectedCategory(decoded.category);
-        } else {
-          // If category doesn't exist, keep default
-          setSelectedCategory(DEFAULT_CATEGORY);
-        }
+      void validateImportCode(code);
+    }, 300);
+  };
 
-        Logger.info('Import code validated successfully', {
-          component: 'AddPromptForm',
-          mode: 'import'
-        });
-      } catch (err) {
-        setDecodedPrompt(null);
-        setValidationError((err as Error).message || 'Invalid sharing code');
-        Logger.warn('Import code validation failed', {
-          component: 'AddPromptForm',
-          error: (err as Error).message
-        });
-      } finally {
-        setIsValidating(false);
+  const validateImportCode = async (code: string) => {
+    // Collections hold several prompts and are imported from the settings
+    if (isCollectionCode(code)) {
+      setDecodedPrompt(null);
+      setSignature(null);
+      setValidationError('This is a collection code. Import it under Settings → Import Shared Collection.');
+      setIsValidating(false);
+      return;
+    }
+
+    const verified = await ShareSigningManager.getInstance().verify(code);
+    if (validatingCodeRef.current !== code) {
+      return;
+    }
+    setSignature(verified.signature);
+
+    try {
+      const decoded = decode(verified.code);
+      setDecodedPrompt(decoded);
+      setValidationError('');
+
+      // Try to set the category to the decoded prompt's category if it exists
+      const categoryExists = categories.find(c => c.name === decoded.category);
+      if (categoryExists) {
+        setSelectedCategory(decoded.category);
+      } else {
+        // If category doesn't exist, keep default
+        setSelectedCategory(DEFAULT_CATEGORY);
       }
-    }, 300);
+
+      Logger.info('Import code validated successfully', {
+        component: 'AddPromptForm',
+        mode: 'import'
+      });
+    } catch (err) {
+      setDecodedPrompt(null);
+      setValidationError((err as Error).message || 'Invalid sharing code');
+      Logger.warn('Import code validation failed', {
+        component: 'AddPromptForm',
+        error: (err as Error).message
+      });
+    } finally {
+      setIsValidating(false);
+    }
   };
 
   // React 19 useActionState for automatic loading/error handling
@@ -138,6 +166,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
       let title: string;
       let content: string;
       let category: string;
+      let tags: string[];
 
       // Handle import mode vs create mode
       if (mode === 'import') {
@@ -163,6 +192,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
         title = decodedPrompt.title;
         content = decodedPrompt.content;
         category = selectedCategory;
+        tags = decodedPrompt.tags ?? [];
 
         // Defense-in-depth: Validate decoded data against form limits
         if (title.length > MAX_TITLE_LENGTH) {
@@ -194,6 +224,7 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
         title = formData.get('title') as string;
         content = formData.get('content') as string;
         category = createCategory;
+        tags = parseTagInput((formData.get('tags') as string | null) ?? '');
 
         // Validation for create mode using shared utility
         const validationErrors = validatePromptFields(title, content, {
@@ -211,7 +242,8 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
         await onSubmit({
           title,
           content,
-          category
+          category,
+          ...(tags.length > 0 && { tags })
         });
         Logger.info('Prompt form submitted successfully', {
           component: 'AddPromptForm',
@@ -235,9 +267,9 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
 
   // Generate dropdown items from categories
   const createCategoryItems = useMemo<DropdownItem[]>(
-    () => categories.map(cat => ({
+    () => flattenCategoryTree(categories).map(({ category: cat, depth }) => ({
       id: cat.id,
-      label: cat.name,
+      label: `${'\u00A0\u00A0'.repeat(depth)}${cat.name}`,
       onSelect: () => { setCreateCategory(cat.name); }
     })),
     [categories]
@@ -245,9 +277,9 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
 
   // Generate dropdown items for import mode
   const importCategoryItems = useMemo<DropdownItem[]>(
-    () => categories.map(cat => ({
+    () => flattenCategoryTree(categories).map(({ category: cat, depth }) => ({
       id: cat.id,
-      label: cat.name,
+      label: `${'\u00A0\u00A0'.repeat(depth)}${cat.name}`,
       onSelect: () => { setSelectedCategory(cat.name); }
     })),
     [categories]
@@ -409,6 +441,11 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
                         Decoded from sharing code
                       </span>
                     </div>
+                    {signature && (
+                      <div className="mb-3">
+                        <SignatureBadge signature={signature} />
+                      </div>
+                    )}
 
                     {/* Preview Card */}
                     <div className="bg-white dark:bg-gray-700 rounded-xl border border-purple-100 dark:border-gray-600 p-4 space-y-3">
@@ -446,6 +483,18 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
                           {decodedPrompt.category}
                         </span>
                       </div>
+
+                      {/* Tags Preview */}
+                      {decodedPrompt.tags && decodedPrompt.tags.length > 0 && (
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 font-medium mb-1">
+                            Tags
+                          </p>
+                          <p className="text-xs text-purple-600 dark:text-purple-400 font-medium">
+                            {decodedPrompt.tags.map(tag => `#${tag}`).join(' ')}
+                          </p>
+                        </div>
+                      )}
                     </div>
 
                     {/* Info Note */}
@@ -550,6 +599,25 @@ const AddPromptForm: FC<AddPromptFormProps> = ({
               />
             </div>
 
+            {/* Tags */}
+            <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5">
+              <label htmlFor="tags" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+                Tags (optional)
+              </label>
+              <input
+                type="text"
+                id="tags"
+                name="tags"
+                defaultValue=""
+                placeholder="e.g. code-review, python"
+                className="w-full px-4 py-3 border border-purple-200 dark:border-gray-600 rounded-xl focus-input bg-white/60 dark:bg-gray-700/60 backdrop-blur-sm transition-all duration-200 text-gray-900 dark:text-gray-100"
+                disabled={isPending}
+              />
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 font-medium">
+                Separate tags with commas
+              </p>
+            </div>
+
             {/* Content */}
             <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5">
               <label htmlFor="content" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
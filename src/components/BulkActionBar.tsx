@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import type { FC, FormEvent } from 'react';
+
+import type { Category } from '../types';
+import { flattenCategoryTree, parseTagInput } from '../utils';
+
+import { Dropdown, type DropdownItem } from './Dropdown';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  categories: Category[];
+  disabled?: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onMove: (category: string) => void;
+  onEditTags: (changes: { add?: string[]; remove?: string[] }) => void;
+  onExport: () => void;
+  onShare: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+}
+
+const actionButtonClass =
+  'px-3 py-1.5 text-xs font-semibold rounded-lg border border-purple-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-purple-50 dark:hover:bg-gray-600 transition-colors focus-interactive disabled:opacity-50 disabled:cursor-not-allowed';
+
+/**
+ * Toolbar shown at the bottom of the library while prompts are being selected
+ */
+const BulkActionBar: FC<BulkActionBarProps> = ({
+  selectedCount,
+  visibleCount,
+  categories,
+  disabled = false,
+  onSelectAll,
+  onClearSelection,
+  onMove,
+  onEditTags,
+  onExport,
+  onShare,
+  onDelete,
+  onDone
+}) => {
+  const [showTagEditor, setShowTagEditor] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const noSelection = selectedCount === 0;
+  const actionsDisabled = disabled || noSelection;
+  const tags = parseTagInput(tagInput);
+
+  const moveItems = useMemo<DropdownItem[]>(
+    () => flattenCategoryTree(categories).map(({ category, depth }) => ({
+      id: category.id,
+      label: `${'\u00A0\u00A0'.repeat(depth)}${category.name}`,
+      onSelect: () => { onMove(category.name); }
+    })),
+    [categories, onMove]
+  );
+
+  const applyTags = (mode: 'add' | 'remove') => {
+    if (tags.length === 0) {return;}
+    onEditTags({ [mode]: tags });
+    setTagInput('');
+    setShowTagEditor(false);
+  };
+
+  const handleTagSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    applyTags('add');
+  };
+
+  return (
+    <section
+      className="shrink-0 px-4 py-3 bg-white dark:bg-gray-800 border-t border-purple-200 dark:border-gray-700 space-y-2"
+      aria-label="Bulk actions"
+    >
+      <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+        <div className="flex items-center space-x-3">
+          <span aria-live="polite" aria-atomic="true" className="font-semibold text-gray-900 dark:text-gray-100">
+            {selectedCount} selected
+          </span>
+          {selectedCount < visibleCount ? (
+            <button type="button" onClick={onSelectAll} className="text-purple-600 dark:text-purple-400 hover:underline focus-interactive">
+              Select all ({visibleCount})
+            </button>
+          ) : (
+            <button type="button" onClick={onClearSelection} className="text-purple-600 dark:text-purple-400 hover:underline focus-interactive">
+              Clear selection
+            </button>
+          )}
+        </div>
+        <button type="button" onClick={onDone} className="font-semibold text-gray-700 dark:text-gray-200 hover:text-purple-600 dark:hover:text-purple-400 focus-interactive">
+          Done
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Dropdown
+          trigger={
+            <button type="button" className={actionButtonClass} disabled={actionsDisabled}>
+              Move to…
+            </button>
+          }
+          items={moveItems}
+          placement="top-start"
+          ariaLabel="Move selected prompts to category"
+        />
+        <button
+          type="button"
+          className={actionButtonClass}
+          disabled={actionsDisabled}
+          onClick={() => { setShowTagEditor(show => !show); }}
+          aria-expanded={showTagEditor}
+        >
+          Tags…
+        </button>
+        <button type="button" className={actionButtonClass} disabled={actionsDisabled} onClick={onExport}>
+          Export
+        </button>
+        <button type="button" className={actionButtonClass} disabled={actionsDisabled} onClick={onShare}>
+          Share
+        </button>
+        <button
+          type="button"
+          className={`${actionButtonClass} text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20`}
+          disabled={actionsDisabled}
+          onClick={onDelete}
+        >
+          Delete
+        </button>
+      </div>
+
+      {showTagEditor && !noSelection && (
+        <form onSubmit={handleTagSubmit} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => { setTagInput(e.target.value); }}
+            placeholder="Tags, separated by commas"
+            aria-label="Tags to add or remove"
+            className="flex-1 min-w-0 px-3 py-1.5 text-xs border border-purple-200 dark:border-gray-600 rounded-lg focus-input bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={disabled}
+          />
+          <button type="submit" className={actionButtonClass} disabled={disabled || tags.length === 0}>
+            Add
+          </button>
+          <button
+            type="button"
+            className={actionButtonClass}
+            disabled={disabled || tags.length === 0}
+            onClick={() => { applyTags('remove'); }}
+          >
+            Remove
+          </button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default BulkActionBar;
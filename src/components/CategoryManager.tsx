@@ -1,34 +1,54 @@
-import { useState, useRef, useCallback } from 'react';
-import type { FC, FormEvent } from 'react';
+import { useState, useRef, useCallback, useMemo } from 'react';
+import type { FC, FormEvent, DragEvent } from 'react';
 
 import { DEFAULT_CATEGORY_COLOR, getColorName } from '../constants/colors';
 import { MAX_CATEGORY_NAME_LENGTH } from '../constants/validation';
-import type { Category } from '../types';
-import { Logger, toError } from '../utils';
+import type { Category, CategoryFormData, CategoryDeleteStrategy } from '../types';
+import { Logger, toError, flattenCategoryTree, getDescendantIds } from '../utils';
 
 import ColorPicker from './ColorPicker';
 import ConfirmDialog from './ConfirmDialog';
+import { Dropdown, type DropdownItem } from './Dropdown';
 import ViewHeader from './ViewHeader';
 
 interface CategoryManagerProps {
   categories: Category[];
-  onCreateCategory: (category: { name: string; color?: string }) => Promise<void>;
+  onCreateCategory: (category: CategoryFormData) => Promise<void>;
   onUpdateCategory: (id: string, updates: Partial<Category>) => Promise<void>;
-  onDeleteCategory: (id: string) => Promise<void>;
+  onDeleteCategory: (id: string, strategy?: CategoryDeleteStrategy) => Promise<void>;
+  onMoveCategory?: (id: string, parentId: string | null, beforeId?: string) => Promise<void>;
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Where a dragged category lands relative to the row it is dropped on
+type DropPosition = 'before' | 'inside' | 'after';
+
+const INDENT_PER_LEVEL_PX = 20;
+
+/**
+ * Top and bottom quarter of a row insert next to it, the middle nests inside it
+ */
+const getDropPosition = (e: DragEvent<HTMLElement>): DropPosition => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = e.clientY - rect.top;
+  if (offset < rect.height / 4) {return 'before';}
+  if (offset > (rect.height * 3) / 4) {return 'after';}
+  return 'inside';
+};
+
 const CategoryManager: FC<CategoryManagerProps> = ({
   categories,
   onCreateCategory,
   onUpdateCategory,
   onDeleteCategory,
+  onMoveCategory,
   isOpen,
   onClose
 }) => {
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newCategoryColor, setNewCategoryColor] = useState(DEFAULT_CATEGORY_COLOR);
+  const [newCategoryParentId, setNewCategoryParentId] = useState('');
   const [editingCategory, setEditingCategory] = useState<{ category: Category; name: string; color: string } | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -36,8 +56,29 @@ const CategoryManager: FC<CategoryManagerProps> = ({
     isOpen: false,
     category: null
   });
+  const [deleteStrategy, setDeleteStrategy] = useState<CategoryDeleteStrategy>('reparent');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
   const ignoreBlurRef = useRef(false);
 
+  const categoryTree = useMemo(() => flattenCategoryTree(categories), [categories]);
+
+  const newCategoryParent = categories.find(c => c.id === newCategoryParentId);
+
+  const parentItems = useMemo<DropdownItem[]>(() => [
+    { id: 'no-parent', label: 'None (top level)', onSelect: () => { setNewCategoryParentId(''); } },
+    ...categoryTree.map(({ category, depth }) => ({
+      id: category.id,
+      label: `${'\u00A0\u00A0'.repeat(depth)}${category.name}`,
+      onSelect: () => { setNewCategoryParentId(category.id); }
+    }))
+  ], [categoryTree]);
+
+  const deleteChildCount = useMemo(
+    () => (deleteConfirm.category ? getDescendantIds(categories, deleteConfirm.category.id).length : 0),
+    [categories, deleteConfirm.category]
+  );
+
   const handleCreateCategory = useCallback(async (e: FormEvent) => {
     e.preventDefault();
 
@@ -57,17 +98,19 @@ const CategoryManager: FC<CategoryManagerProps> = ({
 
       await onCreateCategory({
         name: newCategoryName.trim(),
-        color: newCategoryColor
+        color: newCategoryColor,
+        ...(newCategoryParentId && { parentId: newCategoryParentId })
       });
 
       setNewCategoryName('');
       setNewCategoryColor(DEFAULT_CATEGORY_COLOR);
+      setNewCategoryParentId('');
     } catch {
       setError('Failed to create category');
     } finally {
       setLoading(false);
     }
-  }, [newCategoryName, newCategoryColor, categories, onCreateCategory]);
+  }, [newCategoryName, newCategoryColor, newCategoryParentId, categories, onCreateCategory]);
 
   const handleUpdateCategory = useCallback(async () => {
     if (!editingCategory) {return;}
@@ -103,6 +146,7 @@ const CategoryManager: FC<CategoryManagerProps> = ({
       return;
     }
 
+    setDeleteStrategy('reparent');
     setDeleteConfirm({ isOpen: true, category });
   }, []);
 
@@ -113,19 +157,60 @@ const CategoryManager: FC<CategoryManagerProps> = ({
       setLoading(true);
       setError(null);
 
-      await onDeleteCategory(deleteConfirm.category.id);
+      await onDeleteCategory(deleteConfirm.category.id, deleteStrategy);
       setDeleteConfirm({ isOpen: false, category: null });
     } catch {
       setError('Failed to delete category');
     } finally {
       setLoading(false);
     }
-  }, [deleteConfirm.category, onDeleteCategory]);
+  }, [deleteConfirm.category, deleteStrategy, onDeleteCategory]);
 
   const handleCancelDelete = useCallback(() => {
     setDeleteConfirm({ isOpen: false, category: null });
   }, []);
 
+  const handleDragEnd = useCallback(() => {
+    setDraggedId(null);
+    setDropTarget(null);
+  }, []);
+
+  // A category cannot be dropped onto itself or anywhere inside its own subtree
+  const canDropOn = useCallback((target: Category): boolean => {
+    if (!draggedId || target.id === draggedId) {return false;}
+    return !getDescendantIds(categories, draggedId).includes(target.id);
+  }, [categories, draggedId]);
+
+  const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>, target: Category) => {
+    if (!canDropOn(target)) {return;}
+    e.preventDefault();
+    const position = getDropPosition(e);
+    setDropTarget(prev => (prev?.id === target.id && prev.position === position ? prev : { id: target.id, position }));
+  }, [canDropOn]);
+
+  const handleDrop = useCallback(async (e: DragEvent<HTMLDivElement>, target: Category) => {
+    e.preventDefault();
+    const movedId = draggedId;
+    const position = dropTarget?.id === target.id ? dropTarget.position : getDropPosition(e);
+    handleDragEnd();
+
+    if (!movedId || !onMoveCategory || !canDropOn(target)) {return;}
+
+    // List order is sibling order, so "after" means in front of whatever follows the target
+    const others = categories.filter(c => c.id !== movedId);
+    const parentId = position === 'inside' ? target.id : (target.parentId ?? null);
+    const beforeId = position === 'before'
+      ? target.id
+      : position === 'after' ? others[others.findIndex(c => c.id === target.id) + 1]?.id : undefined;
+
+    try {
+      setError(null);
+      await onMoveCategory(movedId, parentId, beforeId);
+    } catch {
+      setError('Failed to move category');
+    }
+  }, [categories, draggedId, dropTarget, onMoveCategory, canDropOn, handleDragEnd]);
+
   if (!isOpen) {return null;}
 
   return (
@@ -197,6 +282,27 @@ const CategoryManager: FC<CategoryManagerProps> = ({
                   </button>
                 </div>
                 
+                {categories.length > 0 && (
+                  <Dropdown
+                    trigger={
+                      <button
+                        type="button"
+                        disabled={loading}
+                        className="w-full px-4 py-3 border border-purple-200 dark:border-gray-600 rounded-xl focus-input bg-white/60 dark:bg-gray-700/60 backdrop-blur-sm transition-all duration-200 text-sm cursor-pointer text-gray-900 dark:text-gray-100 text-left flex items-center justify-between disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <span>Parent: {newCategoryParent?.name ?? 'None (top level)'}</span>
+                        <svg className="w-4 h-4 text-purple-400 dark:text-purple-300" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </button>
+                    }
+                    items={parentItems}
+                    placement="bottom-start"
+                    ariaLabel="Select parent category"
+                    matchWidth
+                  />
+                )}
+
                 <div className="relative" style={{ zIndex: 200 }}>
                   <ColorPicker
                     value={newCategoryColor}
@@ -231,128 +337,159 @@ const CategoryManager: FC<CategoryManagerProps> = ({
                 <p className="text-gray-500 dark:text-gray-400 text-sm">No categories yet. Create your first category above!</p>
               </div>
             ) : (
-              categories.map((category) => (
-                <div key={category.id} data-testid="category-row" data-category-name={category.name} className="relative group flex items-center justify-between p-5 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 hover:bg-white/90 dark:hover:bg-gray-800/90 transition-all duration-200">
-                  {editingCategory?.category.id === category.id ? (
-                    // Edit Mode - Show both color and name editors
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3">
-                        <div className="relative shrink-0" style={{ zIndex: 100 }}>
-                          <ColorPicker
-                            value={editingCategory.color}
-                            onChange={(newColor) => { setEditingCategory({ ...editingCategory, color: newColor }); }}
-                            label=""
-                            disabled={loading}
-                            compact={true}
-                          />
+              <div role="tree" aria-label="Categories">
+                {categoryTree.map(({ category, depth }) => {
+                  const isDraggable = Boolean(onMoveCategory) && !editingCategory && category.name !== 'Uncategorized';
+                  const dropPosition = dropTarget?.id === category.id ? dropTarget.position : null;
+
+                  return (
+                    <div
+                      key={category.id}
+                      data-testid="category-row"
+                      data-category-name={category.name}
+                      data-depth={depth}
+                      role="treeitem"
+                      aria-level={depth + 1}
+                      tabIndex={-1}
+                      draggable={isDraggable}
+                      onDragStart={isDraggable ? (e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', category.id);
+                        setDraggedId(category.id);
+                      } : undefined}
+                      onDragEnd={handleDragEnd}
+                      onDragOver={(e) => { handleDragOver(e, category); }}
+                      onDragLeave={() => { setDropTarget(prev => (prev?.id === category.id ? null : prev)); }}
+                      onDrop={(e) => { void handleDrop(e, category); }}
+                      style={{ paddingLeft: 20 + depth * INDENT_PER_LEVEL_PX }}
+                      className={`relative group flex items-center justify-between p-5 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 hover:bg-white/90 dark:hover:bg-gray-800/90 transition-all duration-200 ${
+                        draggedId === category.id ? 'opacity-50' : ''
+                      } ${dropPosition === 'before' ? 'border-t-2 border-t-purple-500' : ''} ${
+                        dropPosition === 'after' ? 'border-b-2 border-b-purple-500' : ''
+                      } ${dropPosition === 'inside' ? 'ring-2 ring-inset ring-purple-400' : ''} ${isDraggable ? 'cursor-grab' : ''}`}
+                    >
+                      {editingCategory?.category.id === category.id ? (
+                        // Edit Mode - Show both color and name editors
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3">
+                            <div className="relative shrink-0" style={{ zIndex: 100 }}>
+                              <ColorPicker
+                                value={editingCategory.color}
+                                onChange={(newColor) => { setEditingCategory({ ...editingCategory, color: newColor }); }}
+                                label=""
+                                disabled={loading}
+                                compact={true}
+                              />
+                            </div>
+                            <input
+                              type="text"
+                              value={editingCategory.name}
+                              onChange={(e) => { setEditingCategory({ ...editingCategory, name: e.target.value }); }}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && editingCategory.name.trim()) {
+                                  e.preventDefault();
+                                  void handleUpdateCategory();
+                                } else if (e.key === 'Escape') {
+                                  e.preventDefault();
+                                  setEditingCategory(null);
+                                }
+                              }}
+                              onBlur={() => {
+                                // Don't auto-save if user is clicking on action buttons
+                                if (!ignoreBlurRef.current && editingCategory.name.trim()) {
+                                  void handleUpdateCategory();
+                                }
+                                // Reset the flag after handling blur
+                                ignoreBlurRef.current = false;
+                              }}
+                              placeholder="Category name"
+                              className="flex-1 text-sm border border-purple-200 dark:border-gray-600 rounded-lg px-3 py-2.5 focus:outline-none focus-within:ring-2 focus-within:ring-purple-500 focus-within:border-purple-500 bg-white/80 dark:bg-gray-700/80 backdrop-blur-sm font-medium text-gray-900 dark:text-gray-100"
+                              maxLength={MAX_CATEGORY_NAME_LENGTH}
+                              disabled={loading}
+                            />
+                            <div className="flex items-center space-x-1 shrink-0">
+                              <button
+                                onClick={() => { void handleUpdateCategory(); }}
+                                onMouseDown={() => { ignoreBlurRef.current = true; }}
+                                className="p-2 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white rounded-lg transition-all shadow-sm hover:shadow-md disabled:opacity-50"
+                                disabled={loading || !editingCategory.name.trim()}
+                                title="Save changes (Enter)"
+                                type="button"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                </svg>
+                              </button>
+                              <button
+                                onClick={() => { setEditingCategory(null); }}
+                                onMouseDown={() => { ignoreBlurRef.current = true; }}
+                                className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                                title="Cancel (Esc)"
+                                type="button"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                              </button>
+                            </div>
+                          </div>
                         </div>
-                        <input
-                          type="text"
-                          value={editingCategory.name}
-                          onChange={(e) => { setEditingCategory({ ...editingCategory, name: e.target.value }); }}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter' && editingCategory.name.trim()) {
-                              e.preventDefault();
-                              void handleUpdateCategory();
-                            } else if (e.key === 'Escape') {
-                              e.preventDefault();
-                              setEditingCategory(null);
-                            }
-                          }}
-                          onBlur={() => {
-                            // Don't auto-save if user is clicking on action buttons
-                            if (!ignoreBlurRef.current && editingCategory.name.trim()) {
-                              void handleUpdateCategory();
-                            }
-                            // Reset the flag after handling blur
-                            ignoreBlurRef.current = false;
-                          }}
-                          placeholder="Category name"
-                          className="flex-1 text-sm border border-purple-200 dark:border-gray-600 rounded-lg px-3 py-2.5 focus:outline-none focus-within:ring-2 focus-within:ring-purple-500 focus-within:border-purple-500 bg-white/80 dark:bg-gray-700/80 backdrop-blur-sm font-medium text-gray-900 dark:text-gray-100"
-                          maxLength={MAX_CATEGORY_NAME_LENGTH}
-                          disabled={loading}
-                        />
-                        <div className="flex items-center space-x-1 shrink-0">
-                          <button
-                            onClick={() => { void handleUpdateCategory(); }}
-                            onMouseDown={() => { ignoreBlurRef.current = true; }}
-                            className="p-2 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white rounded-lg transition-all shadow-sm hover:shadow-md disabled:opacity-50"
-                            disabled={loading || !editingCategory.name.trim()}
-                            title="Save changes (Enter)"
-                            type="button"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                            </svg>
-                          </button>
-                          <button
-                            onClick={() => { setEditingCategory(null); }}
-                            onMouseDown={() => { ignoreBlurRef.current = true; }}
-                            className="p-2 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
-                            title="Cancel (Esc)"
-                            type="button"
-                          >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                            </svg>
-                          </button>
+                      ) : (
+                        // Display Mode - Show color swatch and name
+                        <div className="flex items-center space-x-4 flex-1">
+                          <div
+                            className="w-8 h-8 rounded-lg border-2 border-white dark:border-gray-700 shadow-sm"
+                            style={{ backgroundColor: category.color || '#6B7280' }}
+                            title={getColorName(category.color || '#6B7280')}
+                          />
+                          <div className="flex-1">
+                            <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{category.name}</span>
+                            {category.name === 'Uncategorized' && (
+                              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 italic">Default</span>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </div>
-                  ) : (
-                    // Display Mode - Show color swatch and name
-                    <div className="flex items-center space-x-4 flex-1">
-                      <div
-                        className="w-8 h-8 rounded-lg border-2 border-white dark:border-gray-700 shadow-sm"
-                        style={{ backgroundColor: category.color || '#6B7280' }}
-                        title={getColorName(category.color || '#6B7280')}
-                      />
-                      <div className="flex-1">
-                        <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{category.name}</span>
-                        {category.name === 'Uncategorized' && (
-                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 italic">Default</span>
-                        )}
-                      </div>
-                    </div>
-                  )}
-
-                  {!editingCategory && (
-                    <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      {category.name !== 'Uncategorized' && (
-                        <>
-                          <button
-                            onClick={() => { 
-                              setEditingCategory({ 
-                                category, 
-                                name: category.name, 
-                                color: category.color || DEFAULT_CATEGORY_COLOR 
-                              }); 
-                            }}
-                            className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors"
-                            disabled={loading}
-                            title="Edit category"
-                          >
-                            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                            </svg>
-                          </button>
+                      )}
+
+                      {!editingCategory && (
+                        <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {category.name !== 'Uncategorized' && (
+                            <>
+                              <button
+                                onClick={() => { 
+                                  setEditingCategory({ 
+                                    category, 
+                                    name: category.name, 
+                                    color: category.color || DEFAULT_CATEGORY_COLOR 
+                                  }); 
+                                }}
+                                className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors"
+                                disabled={loading}
+                                title="Edit category"
+                              >
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                </svg>
+                              </button>
                           
-                          <button
-                            onClick={() => { handleDeleteCategory(category); }}
-                            className="p-2 text-gray-400 dark:text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                            disabled={loading}
-                            title="Delete category"
-                          >
-                            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                          </button>
-                        </>
+                              <button
+                                onClick={() => { handleDeleteCategory(category); }}
+                                className="p-2 text-gray-400 dark:text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                disabled={loading}
+                                title="Delete category"
+                              >
+                                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                              </button>
+                            </>
+                          )}
+                        </div>
                       )}
                     </div>
-                  )}
-                </div>
-              ))
+                  );
+                })}
+              </div>
             )}
           </div>
       </div>
@@ -370,7 +507,33 @@ const CategoryManager: FC<CategoryManagerProps> = ({
         confirmText="Delete"
         cancelText="Cancel"
         variant="warning"
-      />
+      >
+        {deleteChildCount > 0 && (
+          <fieldset className="space-y-1 text-xs text-gray-700 dark:text-gray-300">
+            <legend className="sr-only">Subcategories</legend>
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="category-delete-strategy"
+                checked={deleteStrategy === 'reparent'}
+                onChange={() => { setDeleteStrategy('reparent'); }}
+                className="mt-0.5"
+              />
+              <span>Keep its {deleteChildCount === 1 ? 'subcategory' : `${String(deleteChildCount)} subcategories`} and move them up one level</span>
+            </label>
+            <label className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="category-delete-strategy"
+                checked={deleteStrategy === 'uncategorize'}
+                onChange={() => { setDeleteStrategy('uncategorize'); }}
+                className="mt-0.5"
+              />
+              <span>Delete {deleteChildCount === 1 ? 'its subcategory' : 'all subcategories'} too and move their prompts to &quot;Uncategorized&quot;</span>
+            </label>
+          </fieldset>
+        )}
+      </ConfirmDialog>
     </div>
   );
 };
@@ -0,0 +1,291 @@
+import { type FC, type FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+
+import { StorageManager } from '../services/storage';
+import { type Prompt, type PromptChain, PROMPT_CHAIN_LIMITS } from '../types';
+import type { ToastType } from '../types/components';
+import { Logger, toError } from '../utils';
+
+import ConfirmDialog from './ConfirmDialog';
+import ViewHeader from './ViewHeader';
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+const BUTTON_CLASS = 'px-3 py-1.5 text-xs font-semibold rounded-lg focus-secondary transition-colors disabled:opacity-50';
+const PRIMARY_BUTTON_CLASS = `${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`;
+const SECONDARY_BUTTON_CLASS = `${BUTTON_CLASS} border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700`;
+const STEP_BUTTON_CLASS = 'p-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-100 rounded focus-interactive disabled:opacity-30';
+
+interface ChainManagerProps {
+  prompts: Prompt[];
+  onClose: () => void;
+  showToast: (message: string, type: ToastType) => void;
+}
+
+// Chain being created (id null) or edited
+interface ChainDraft {
+  id: string | null;
+  title: string;
+  promptIds: string[];
+}
+
+/**
+ * Create, edit and delete prompt chains: ordered prompts that the content
+ * script sends one after another, each once the previous response is complete
+ */
+const ChainManager: FC<ChainManagerProps> = ({ prompts, onClose, showToast }) => {
+  const [chains, setChains] = useState<PromptChain[]>([]);
+  const [draft, setDraft] = useState<ChainDraft | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<PromptChain | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const promptsById = useMemo(() => new Map(prompts.map(prompt => [prompt.id, prompt])), [prompts]);
+  const sortedPrompts = useMemo(() => [...prompts].sort((a, b) => a.title.localeCompare(b.title)), [prompts]);
+
+  const load = useCallback(async () => {
+    try {
+      setChains(await StorageManager.getInstance().getPromptChains());
+    } catch (err) {
+      Logger.error('Failed to load prompt chains', toError(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const getStepTitle = (promptId: string) => promptsById.get(promptId)?.title ?? 'Deleted prompt';
+
+  const updateSteps = (update: (promptIds: string[]) => string[]) => {
+    setDraft(current => (current ? { ...current, promptIds: update([...current.promptIds]) } : current));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    updateSteps(promptIds => {
+      const [step] = promptIds.splice(index, 1);
+      promptIds.splice(index + offset, 0, step);
+      return promptIds;
+    });
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft) {return;}
+
+    setSaving(true);
+    setError(null);
+    try {
+      const storage = StorageManager.getInstance();
+      const chain = { title: draft.title, promptIds: draft.promptIds };
+      if (draft.id) {
+        await storage.updatePromptChain(draft.id, chain);
+      } else {
+        await storage.savePromptChain(chain);
+      }
+      showToast(draft.id ? 'Chain updated' : 'Chain created', 'success');
+      setDraft(null);
+      await load();
+    } catch (err) {
+      Logger.error('Failed to save prompt chain', toError(err));
+      setError(toError(err).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleteTarget) {return;}
+    try {
+      await StorageManager.getInstance().deletePromptChain(deleteTarget.id);
+      showToast('Chain deleted', 'success');
+      await load();
+    } catch (err) {
+      Logger.error('Failed to delete prompt chain', toError(err));
+      showToast('Failed to delete chain', 'error');
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const canAddStep = draft !== null && draft.promptIds.length < PROMPT_CHAIN_LIMITS.MAX_STEPS;
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+      <ViewHeader
+        icon={
+          <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+        }
+        title="Prompt Chains"
+        subtitle="Send several prompts one after another"
+      >
+        <ViewHeader.Actions>
+          <ViewHeader.BackButton onClick={onClose} />
+        </ViewHeader.Actions>
+      </ViewHeader>
+
+      <div className="flex-1 overflow-auto p-5 space-y-4">
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Run a chain by right-clicking a chat input and choosing Run prompt chain. Each step is sent once the
+          response to the previous one has finished. Template variables use the values entered last time.
+        </p>
+
+        {draft ? (
+          <form
+            onSubmit={(e) => { void handleSave(e); }}
+            className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 space-y-3"
+            aria-label={draft.id ? 'Edit chain' : 'New chain'}
+          >
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => { setDraft({ ...draft, title: e.target.value }); }}
+              placeholder="Chain name, e.g. Draft, critique, refine"
+              aria-label="Chain name"
+              maxLength={PROMPT_CHAIN_LIMITS.TITLE_MAX}
+              required
+              className={INPUT_CLASS}
+            />
+
+            {draft.promptIds.length > 0 && (
+              <ol className="space-y-1" aria-label="Chain steps">
+                {draft.promptIds.map((promptId, index) => (
+                  <li key={`${promptId}-${String(index)}`} className="flex items-center gap-2 text-sm text-gray-800 dark:text-gray-200">
+                    <span className="w-5 text-xs text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                    <span className="flex-1 truncate">{getStepTitle(promptId)}</span>
+                    <button
+                      type="button"
+                      onClick={() => { moveStep(index, -1); }}
+                      disabled={index === 0}
+                      className={STEP_BUTTON_CLASS}
+                      aria-label={`Move step ${String(index + 1)} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { moveStep(index, 1); }}
+                      disabled={index === draft.promptIds.length - 1}
+                      className={STEP_BUTTON_CLASS}
+                      aria-label={`Move step ${String(index + 1)} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { updateSteps(promptIds => promptIds.filter((_, i) => i !== index)); }}
+                      className={STEP_BUTTON_CLASS}
+                      aria-label={`Remove step ${String(index + 1)}`}
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <select
+              value=""
+              onChange={(e) => {
+                const promptId = e.target.value;
+                if (promptId) {updateSteps(promptIds => [...promptIds, promptId]);}
+              }}
+              disabled={!canAddStep}
+              aria-label="Add step"
+              className={INPUT_CLASS}
+            >
+              <option value="">
+                {canAddStep ? 'Add a prompt as the next step…' : `At most ${String(PROMPT_CHAIN_LIMITS.MAX_STEPS)} steps`}
+              </option>
+              {sortedPrompts.map(prompt => (
+                <option key={prompt.id} value={prompt.id}>{prompt.title}</option>
+              ))}
+            </select>
+
+            {error && (
+              <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving || draft.promptIds.length < PROMPT_CHAIN_LIMITS.MIN_STEPS}
+                className={PRIMARY_BUTTON_CLASS}
+              >
+                Save chain
+              </button>
+              <button
+                type="button"
+                onClick={() => { setDraft(null); setError(null); }}
+                disabled={saving}
+                className={SECONDARY_BUTTON_CLASS}
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => { setDraft({ id: null, title: '', promptIds: [] }); }}
+            disabled={prompts.length === 0}
+            className={PRIMARY_BUTTON_CLASS}
+          >
+            New chain
+          </button>
+        )}
+
+        {chains.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No prompt chains yet.</p>
+        ) : (
+          <ul className="space-y-2" aria-label="Prompt chains">
+            {chains.map(chain => (
+              <li
+                key={chain.id}
+                className="bg-white dark:bg-gray-800 rounded-lg p-3 border border-gray-200 dark:border-gray-700 flex items-start justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{chain.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {chain.promptIds.map(getStepTitle).join(' → ')}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => { setDraft({ id: chain.id, title: chain.title, promptIds: [...chain.promptIds] }); setError(null); }}
+                    className={SECONDARY_BUTTON_CLASS}
+                    aria-label={`Edit ${chain.title}`}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => { setDeleteTarget(chain); }}
+                    className={SECONDARY_BUTTON_CLASS}
+                    aria-label={`Delete ${chain.title}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onConfirm={() => { void handleConfirmDelete(); }}
+        onCancel={() => { setDeleteTarget(null); }}
+        title="Delete Chain"
+        message={deleteTarget ? `Delete chain "${deleteTarget.title}"? Its prompts stay in the library.` : ''}
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default ChainManager;
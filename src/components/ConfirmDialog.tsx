@@ -49,6 +49,8 @@ export interface ConfirmDialogProps {
   confirmText?: string;
   cancelText?: string;
   variant?: ConfirmDialogVariant;
+  /** Extra controls rendered below the message (e.g. options for the action) */
+  children?: ReactNode;
 }
 
 const ConfirmDialog: FC<ConfirmDialogProps> = ({
@@ -59,9 +61,11 @@ const ConfirmDialog: FC<ConfirmDialogProps> = ({
   message,
   confirmText = 'Confirm',
   cancelText = 'Cancel',
-  variant = 'danger'
+  variant = 'danger',
+  children
 }) => {
   const dialogRef = useRef<HTMLDivElement>(null);
+  const optionsRef = useRef<HTMLDivElement>(null);
   const confirmButtonRef = useRef<HTMLButtonElement>(null);
   const cancelButtonRef = useRef<HTMLButtonElement>(null);
 
@@ -83,9 +87,10 @@ const ConfirmDialog: FC<ConfirmDialogProps> = ({
       if (e.key === 'Escape') {
         onCancel();
       } else if (e.key === 'Tab') {
-        // Simple focus trap between the two buttons
-        const focusableElements = [cancelButtonRef.current, confirmButtonRef.current].filter(Boolean);
-        if (focusableElements.length === 2) {
+        // Simple focus trap between the option controls and the two buttons
+        const optionElements = Array.from(optionsRef.current?.querySelectorAll<HTMLElement>('input, select, textarea, button') ?? []);
+        const focusableElements = [...optionElements, cancelButtonRef.current, confirmButtonRef.current].filter(Boolean);
+        if (focusableElements.length >= 2) {
           const currentIndex = focusableElements.indexOf(document.activeElement as HTMLButtonElement);
           if (e.shiftKey) {
             // Shift+Tab: go backwards
@@ -151,6 +156,11 @@ const ConfirmDialog: FC<ConfirmDialogProps> = ({
                 {message}
               </p>
             </div>
+            {children && (
+              <div ref={optionsRef} className="mt-2">
+                {children}
+              </div>
+            )}
           </div>
         </div>
         <div className="mt-3 flex flex-row-reverse gap-2">
@@ -3,9 +3,11 @@ import type { FC } from 'react';
 
 import { MAX_CONTENT_LENGTH, MAX_TITLE_LENGTH, formatCharacterCount } from '../constants/validation';
 import type { EditPromptFormProps } from '../types/components';
-import { Logger, toError, validatePromptFields, type FieldErrors } from '../utils';
+import { Logger, flattenCategoryTree, parseTagInput, toError, validatePromptFields, type FieldErrors } from '../utils';
 
 import { Dropdown, type DropdownItem } from './Dropdown';
+import PromptExamplesDialog from './PromptExamplesDialog';
+import PromptHistoryDialog from './PromptHistoryDialog';
 import ViewHeader from './ViewHeader';
 
 // Category dropdown trigger button component props
@@ -41,18 +43,26 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
   const [titleLength, setTitleLength] = useState(prompt.title.length);
   const [contentLength, setContentLength] = useState(prompt.content.length);
 
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExamples, setShowExamples] = useState(false);
+
+  // Tags are compared in their normalized, comma-joined form
+  const originalTags = (prompt.tags ?? []).join(', ');
+
   // Track current form values for dirty checking
   const [currentValues, setCurrentValues] = useState({
     title: prompt.title,
     content: prompt.content,
     category: prompt.category,
+    tags: originalTags,
   });
 
   // Derive hasUnsavedChanges by comparing current values to original
   const hasUnsavedChanges =
     currentValues.title !== prompt.title ||
     currentValues.content !== prompt.content ||
-    currentValues.category !== prompt.category;
+    currentValues.category !== prompt.category ||
+    parseTagInput(currentValues.tags).join(', ') !== originalTags;
 
   // React 19 useActionState for automatic loading/error handling
   const [errors, submitAction, isPending] = useActionState(
@@ -61,6 +71,7 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
       const title = formData.get('title') as string;
       const content = formData.get('content') as string;
       const category = formData.get('category') as string;
+      const tags = parseTagInput((formData.get('tags') as string | null) ?? '');
 
       // Validation using shared utility
       const validationErrors = validatePromptFields(title, content, {
@@ -77,7 +88,8 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
       if (
         title === prompt.title &&
         content === prompt.content &&
-        category === prompt.category
+        category === prompt.category &&
+        tags.join(', ') === originalTags
       ) {
         Logger.warn('Form validation failed: No changes to save', {
           component: 'EditPromptForm',
@@ -91,7 +103,8 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
         await onSubmit({
           title,
           content,
-          category
+          category,
+          tags
         });
         Logger.info('Prompt form submitted successfully', {
           component: 'EditPromptForm',
@@ -114,7 +127,7 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
   );
 
   // Track form changes to show unsaved changes indicator
-  const handleFieldChange = (field: 'title' | 'content' | 'category', value: string) => {
+  const handleFieldChange = (field: 'title' | 'content' | 'category' | 'tags', value: string) => {
     setCurrentValues(prev => ({ ...prev, [field]: value }));
 
     // Update character counts when title or content changes
@@ -127,9 +140,9 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
 
   // Generate dropdown items from categories
   const categoryItems = useMemo<DropdownItem[]>(
-    () => categories.map(cat => ({
+    () => flattenCategoryTree(categories).map(({ category: cat, depth }) => ({
       id: cat.id,
-      label: cat.name,
+      label: `${'\u00A0\u00A0'.repeat(depth)}${cat.name}`,
       onSelect: () => { handleFieldChange('category', cat.name); }
     })),
     [categories]
@@ -139,6 +152,23 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
     return new Date(timestamp).toLocaleString();
   };
 
+  const handleRestoreRevision = (data: { title: string; content: string; category: string }) => {
+    setShowHistory(false);
+    Logger.info('Restoring prompt revision', {
+      component: 'EditPromptForm',
+      promptId: prompt.id
+    });
+    void onSubmit(data);
+  };
+
+  const handleCloseHistory = () => {
+    setShowHistory(false);
+  };
+
+  const handleCloseExamples = () => {
+    setShowExamples(false);
+  };
+
   return (
     <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
       {/* Header */}
@@ -222,6 +252,28 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
             <input type="hidden" name="category" value={currentValues.category} />
           </div>
 
+          {/* Tags Section */}
+          <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5">
+            <div className="flex items-center space-x-2 mb-4">
+              <label htmlFor="tags" className="block text-sm font-bold text-gray-900 dark:text-gray-100">
+                Tags
+              </label>
+            </div>
+            <input
+              type="text"
+              id="tags"
+              name="tags"
+              defaultValue={originalTags}
+              onChange={(e) => { handleFieldChange('tags', e.target.value); }}
+              placeholder="e.g. code-review, python"
+              className="w-full px-4 py-3 border border-purple-200 dark:border-gray-600 rounded-xl focus-input bg-white/60 dark:bg-gray-700/60 backdrop-blur-sm transition-all duration-200 text-gray-900 dark:text-gray-100"
+              disabled={isPending}
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 font-medium">
+              Separate tags with commas
+            </p>
+          </div>
+
           {/* Content Section */}
           <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5">
             <div className="flex items-center space-x-2 mb-4">
@@ -264,7 +316,29 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
               <span>Last modified:</span>
               <span>{formatDate((prompt).updatedAt)}</span>
             </div>
+            {prompt.notes && (
+              <div>
+                <span>Notes:</span>
+                <p className="mt-1 whitespace-pre-wrap break-words font-normal" data-testid="prompt-notes">{prompt.notes}</p>
+              </div>
+            )}
           </div>
+          <button
+            type="button"
+            onClick={() => { setShowHistory(true); }}
+            className="mt-3 text-xs font-semibold text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 focus-interactive rounded-sm"
+            disabled={isPending}
+          >
+            View version history
+          </button>
+          <button
+            type="button"
+            onClick={() => { setShowExamples(true); }}
+            className="mt-3 ml-4 text-xs font-semibold text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 focus-interactive rounded-sm"
+            disabled={isPending}
+          >
+            View example outputs
+          </button>
         </div>
       </div>
 
@@ -305,6 +379,22 @@ const EditPromptForm: FC<EditPromptFormProps> = ({
           </button>
         </div>
       </div>
+
+      {/* Version History Dialog */}
+      <PromptHistoryDialog
+        isOpen={showHistory}
+        prompt={prompt}
+        categories={categories}
+        onRestore={handleRestoreRevision}
+        onClose={handleCloseHistory}
+      />
+
+      {/* Example Outputs Dialog */}
+      <PromptExamplesDialog
+        isOpen={showExamples}
+        prompt={prompt}
+        onClose={handleCloseExamples}
+      />
     </div>
   );
 };
@@ -4,11 +4,12 @@ import { memo, useMemo, useCallback } from 'react';
 import { DEFAULT_COLORS } from '../constants/ui';
 import type { SortOrder } from '../types';
 import type { FilterSortControlsProps } from '../types/components';
+import { flattenCategoryTree } from '../utils';
 
 import CategoryBadge from './CategoryBadge';
 import { Dropdown, type DropdownItem } from './Dropdown';
 import { ChevronDownIcon, FunnelIcon, SortIcon, FolderIcon } from './icons/SettingsIcons';
-import { CheckIcon, ClockIcon, CalendarIcon, AlphabeticalIcon, StarIcon, HistoryIcon } from './icons/UIIcons';
+import { CheckIcon, ClockIcon, CalendarIcon, AlphabeticalIcon, StarIcon, HistoryIcon, TagIcon } from './icons/UIIcons';
 
 const SORT_OPTIONS: Array<{ value: SortOrder; label: string; icon: FC<{ className?: string }> }> = [
   { value: 'usageCount', label: 'Most Used', icon: StarIcon },
@@ -26,6 +27,9 @@ const FilterSortControls: FC<FilterSortControlsProps> = ({
   onCategoryChange,
   onSortChange,
   onManageCategories,
+  availableTags = [],
+  selectedTags = [],
+  onTagsChange,
   loading = false
 }) => {
   // Derived values for active state text
@@ -100,13 +104,13 @@ const FilterSortControls: FC<FilterSortControlsProps> = ({
       });
     }
 
-    // Add category items
-    categories.forEach(category => {
+    // Add category items in tree order, subcategories indented under their parent
+    flattenCategoryTree(categories).forEach(({ category, depth }) => {
       items.push({
         id: category.id,
         label: (
           <span className="flex items-center justify-between w-full">
-            <span className="flex items-center space-x-2">
+            <span className="flex items-center space-x-2" style={depth > 0 ? { paddingLeft: depth * 12 } : undefined}>
               <CategoryBadge category={category} variant="dot" />
               <span>{category.name}</span>
             </span>
@@ -123,6 +127,44 @@ const FilterSortControls: FC<FilterSortControlsProps> = ({
     return items;
   }, [categories, selectedCategory, handleCategorySelect]);
 
+  const handleTagToggle = useCallback((tag: string) => {
+    if (!onTagsChange) { return; }
+    onTagsChange(selectedTags.includes(tag)
+      ? selectedTags.filter(selected => selected !== tag)
+      : [...selectedTags, tag]);
+  }, [selectedTags, onTagsChange]);
+
+  // Build tag dropdown items - multi-select, so the menu stays open on select
+  const tagItems = useMemo((): DropdownItem[] => {
+    const items: DropdownItem[] = availableTags.map(tag => {
+      const isActive = selectedTags.includes(tag);
+      return {
+        id: `tag-${tag}`,
+        label: (
+          <span className="flex items-center justify-between w-full">
+            <span className="truncate">#{tag}</span>
+            {isActive && <CheckIcon />}
+          </span>
+        ),
+        onSelect: () => { handleTagToggle(tag); },
+        className: isActive
+          ? 'bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-400'
+          : ''
+      };
+    });
+
+    if (selectedTags.length > 0) {
+      items.push({
+        id: 'tag-clear',
+        label: 'Clear tags',
+        onSelect: () => { onTagsChange?.([]); },
+        className: 'border-t border-purple-100 dark:border-gray-700 text-gray-500 dark:text-gray-400'
+      });
+    }
+
+    return items;
+  }, [availableTags, selectedTags, handleTagToggle, onTagsChange]);
+
   // Build sort dropdown items - Memoized to prevent rebuilding on every render
   const sortItems = useMemo((): DropdownItem[] => {
     return SORT_OPTIONS.map(option => {
@@ -223,6 +265,47 @@ const FilterSortControls: FC<FilterSortControlsProps> = ({
           ariaLabel="Category filter menu"
         />
 
+        {/* Tag Dropdown (only when tags exist) */}
+        {onTagsChange && availableTags.length > 0 && (
+          <Dropdown
+            trigger={
+              <button
+                disabled={loading}
+                className="
+                  h-11 px-3
+                  flex items-center space-x-1
+                  text-gray-700 dark:text-gray-300
+                  bg-white/60 dark:bg-gray-700/60 backdrop-blur-sm
+                  border border-purple-200 dark:border-gray-600
+                  rounded-lg
+                  hover:bg-white/80 dark:hover:bg-gray-700/80
+                  hover:border-purple-300 dark:hover:border-gray-500
+                  transition-all duration-200
+                  focus-interactive
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  relative
+                "
+                aria-label={selectedTags.length > 0
+                  ? `Filter by tags: ${selectedTags.join(', ')}`
+                  : 'Filter by tags'}
+                title={selectedTags.length > 0 ? `Tags: ${selectedTags.join(', ')}` : 'Tags'}
+              >
+                <TagIcon />
+                {selectedTags.length > 0 && (
+                  <span className="text-xs font-semibold text-purple-700 dark:text-purple-400">
+                    {selectedTags.length}
+                  </span>
+                )}
+              </button>
+            }
+            items={tagItems}
+            closeOnSelect={false}
+            className="min-w-[180px] max-h-[250px] overflow-y-auto custom-scrollbar"
+            itemClassName="px-4 py-3 text-sm font-medium"
+            ariaLabel="Tag filter menu"
+          />
+        )}
+
         {/* Sort Dropdown */}
         <Dropdown
           trigger={
@@ -297,13 +380,13 @@ const arePropsEqual = (
   prev: FilterSortControlsProps,
   next: FilterSortControlsProps
 ): boolean => {
-  // Deep compare categories by ID to avoid re-renders on same data
+  // Deep compare categories by ID and parent to avoid re-renders on same data
   if (prev.categories.length !== next.categories.length) {
     return false;
   }
 
-  const prevCategoryIds = prev.categories.map(c => c.id).join(',');
-  const nextCategoryIds = next.categories.map(c => c.id).join(',');
+  const prevCategoryIds = prev.categories.map(c => `${c.id}:${c.parentId ?? ''}`).join(',');
+  const nextCategoryIds = next.categories.map(c => `${c.id}:${c.parentId ?? ''}`).join(',');
 
   return (
     prevCategoryIds === nextCategoryIds &&
@@ -313,6 +396,9 @@ const arePropsEqual = (
     prev.onCategoryChange === next.onCategoryChange &&
     prev.onSortChange === next.onSortChange &&
     prev.onManageCategories === next.onManageCategories &&
+    (prev.availableTags ?? []).join(',') === (next.availableTags ?? []).join(',') &&
+    (prev.selectedTags ?? []).join(',') === (next.selectedTags ?? []).join(',') &&
+    prev.onTagsChange === next.onTagsChange &&
     prev.loading === next.loading
   );
 };
@@ -1,4 +1,4 @@
-import { useMemo, useEffect, useCallback } from 'react';
+import { useMemo, useEffect, useCallback, useRef, useState } from 'react';
 import type { FC } from 'react';
 
 import { useSort } from '../hooks/useSort';
@@ -6,11 +6,24 @@ import { PromptManager } from '../services/promptManager';
 import { StorageManager } from '../services/storage';
 import type { Prompt, SortOrder, SortDirection } from '../types';
 import type { LibraryViewProps } from '../types/components';
-import { Logger, toError } from '../utils';
+import {
+  Logger,
+  collectTags,
+  createExportData,
+  getCategoryNamesInSubtree,
+  getExportCategories,
+  getExportFilename,
+  saveJsonFile,
+  toError
+} from '../utils';
+
+import BulkActionBar from './BulkActionBar';
+import ConfirmDialog from './ConfirmDialog';
 
 import FilterSortControls from './FilterSortControls';
 import PromptCard from './PromptCard';
 import SearchBar from './SearchBar';
+import ShareCollectionDialog from './ShareCollectionDialog';
 import ViewHeader from './ViewHeader';
 
 const LibraryView: FC<LibraryViewProps> = ({
@@ -22,9 +35,14 @@ const LibraryView: FC<LibraryViewProps> = ({
   onEditPrompt,
   onDeletePrompt,
   onCopyPrompt,
+  onTogglePin,
+  onBulkMove,
+  onBulkEditTags,
+  onBulkDelete,
   showToast,
   onCategoryChange,
   onManageCategories,
+  onManageChains,
   onSettings,
   onAnalytics,
   loading,
@@ -32,6 +50,23 @@ const LibraryView: FC<LibraryViewProps> = ({
 }) => {
   const { query, debouncedQuery, filteredPrompts, isSearching } = searchWithDebounce;
   const { sortOrder, sortDirection, handleSortChange: internalHandleSortChange } = useSort();
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  // Last prompt toggled without shift, used as the start of shift-click ranges
+  const selectionAnchorRef = useRef<string | null>(null);
+  const bulkActionsAvailable = Boolean(onBulkMove && onBulkEditTags && onBulkDelete);
+
+  const availableTags = useMemo(() => collectTags(prompts), [prompts]);
+
+  // Ignore selected tags that no longer exist on any prompt (e.g. after a delete)
+  const activeTags = useMemo(
+    () => selectedTags.filter(tag => availableTags.includes(tag)),
+    [selectedTags, availableTags]
+  );
 
   // Load sort settings from storage on mount
   useEffect(() => {
@@ -58,15 +93,114 @@ const LibraryView: FC<LibraryViewProps> = ({
   }, [internalHandleSortChange]);
 
   const finalFilteredPrompts = useMemo(() => {
-    // Apply category filter to search-filtered prompts
+    // Apply category filter to search-filtered prompts, including subcategories
     let filtered = filteredPrompts;
     if (selectedCategory) {
-      filtered = filteredPrompts.filter((prompt) => prompt.category === selectedCategory);
+      const categoryNames = getCategoryNamesInSubtree(categories, selectedCategory);
+      filtered = filteredPrompts.filter((prompt) => categoryNames.has(prompt.category));
+    }
+
+    // Tag filter: a prompt must carry every selected tag
+    if (activeTags.length > 0) {
+      filtered = filtered.filter((prompt) => activeTags.every(tag => prompt.tags?.includes(tag)));
     }
 
     // Apply sorting using PromptManager service
     return PromptManager.getInstance().sortPrompts(filtered, sortOrder, sortDirection);
-  }, [filteredPrompts, selectedCategory, sortOrder, sortDirection]);
+  }, [filteredPrompts, categories, selectedCategory, activeTags, sortOrder, sortDirection]);
+
+  // Bulk actions only apply to selected prompts that are still visible, so
+  // changing the search or filters never acts on prompts the user can't see
+  const selectedPrompts = useMemo(
+    () => finalFilteredPrompts.filter(prompt => selectedIds.has(prompt.id)),
+    [finalFilteredPrompts, selectedIds]
+  );
+
+  const handleToggleSelect = useCallback((prompt: Prompt, extendRange: boolean) => {
+    const anchorId = selectionAnchorRef.current;
+    const anchorIndex = anchorId ? finalFilteredPrompts.findIndex(p => p.id === anchorId) : -1;
+    const targetIndex = finalFilteredPrompts.findIndex(p => p.id === prompt.id);
+
+    if (extendRange && anchorIndex !== -1 && targetIndex !== -1) {
+      // Shift-click selects everything between the anchor and the clicked prompt
+      const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+      const rangeIds = finalFilteredPrompts.slice(start, end + 1).map(p => p.id);
+      setSelectedIds(prev => new Set([...prev, ...rangeIds]));
+      return;
+    }
+
+    selectionAnchorRef.current = prompt.id;
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(prompt.id)) {
+        next.delete(prompt.id);
+      } else {
+        next.add(prompt.id);
+      }
+      return next;
+    });
+  }, [finalFilteredPrompts]);
+
+  const exitSelectionMode = useCallback(() => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedIds(new Set(finalFilteredPrompts.map(prompt => prompt.id)));
+  }, [finalFilteredPrompts]);
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  }, []);
+
+  const runBulkAction = useCallback(async (action: () => Promise<void>) => {
+    setBulkBusy(true);
+    try {
+      await action();
+    } finally {
+      setBulkBusy(false);
+    }
+  }, []);
+
+  const handleBulkMove = useCallback((category: string) => {
+    if (!onBulkMove) {return;}
+    const ids = selectedPrompts.map(prompt => prompt.id);
+    void runBulkAction(() => onBulkMove(ids, category));
+  }, [onBulkMove, selectedPrompts, runBulkAction]);
+
+  const handleBulkEditTags = useCallback((changes: { add?: string[]; remove?: string[] }) => {
+    if (!onBulkEditTags) {return;}
+    const ids = selectedPrompts.map(prompt => prompt.id);
+    void runBulkAction(() => onBulkEditTags(ids, changes));
+  }, [onBulkEditTags, selectedPrompts, runBulkAction]);
+
+  const handleConfirmBulkDelete = useCallback(() => {
+    setShowBulkDeleteConfirm(false);
+    if (!onBulkDelete) {return;}
+    const ids = selectedPrompts.map(prompt => prompt.id);
+    void runBulkAction(async () => {
+      await onBulkDelete(ids);
+      setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    });
+  }, [onBulkDelete, selectedPrompts, runBulkAction]);
+
+  const handleBulkExport = useCallback(async () => {
+    try {
+      const data = createExportData(selectedPrompts, getExportCategories(selectedPrompts, categories));
+      await saveJsonFile(JSON.stringify(data, null, 2), getExportFilename('prompt-library-selection'));
+      showToast(`Exported ${String(selectedPrompts.length)} prompt${selectedPrompts.length !== 1 ? 's' : ''}`, 'success');
+    } catch (error) {
+      Logger.error('Failed to export selected prompts', toError(error), { component: 'LibraryView' });
+      showToast('Failed to export selected prompts', 'error');
+    }
+  }, [selectedPrompts, categories, showToast]);
+
+  const handleCloseShareDialog = useCallback(() => {
+    setShowShareDialog(false);
+  }, []);
 
   return (
     <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
@@ -78,6 +212,19 @@ const LibraryView: FC<LibraryViewProps> = ({
         context={context}
       >
         <ViewHeader.Actions>
+          {onManageChains && (
+            <button
+              type="button"
+              onClick={onManageChains}
+              className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors focus-interactive"
+              title="Prompt chains"
+              aria-label="Manage prompt chains"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+              </svg>
+            </button>
+          )}
           <ViewHeader.AnalyticsButton onClick={onAnalytics} />
           <ViewHeader.SettingsButton onClick={onSettings} />
           {context === 'sidepanel' && (
@@ -108,6 +255,9 @@ const LibraryView: FC<LibraryViewProps> = ({
             onCategoryChange={onCategoryChange}
             onSortChange={handleSortChange}
             onManageCategories={onManageCategories}
+            availableTags={availableTags}
+            selectedTags={activeTags}
+            onTagsChange={setSelectedTags}
             loading={loading}
           />
         </div>
@@ -161,17 +311,38 @@ const LibraryView: FC<LibraryViewProps> = ({
                 onEdit={onEditPrompt}
                 onDelete={onDeletePrompt}
                 onCopy={onCopyPrompt}
+                onTogglePin={onTogglePin}
                 showToast={showToast}
                 searchQuery={debouncedQuery}
+                isSelected={selectionMode && selectedIds.has(prompt.id)}
+                onToggleSelect={selectionMode ? handleToggleSelect : undefined}
               />
             ))}
           </div>
         )}
       </main>
 
+      {/* Bulk actions replace the footer while selecting */}
+      {selectionMode && !loading && (
+        <BulkActionBar
+          selectedCount={selectedPrompts.length}
+          visibleCount={finalFilteredPrompts.length}
+          categories={categories}
+          disabled={bulkBusy}
+          onSelectAll={handleSelectAll}
+          onClearSelection={handleClearSelection}
+          onMove={handleBulkMove}
+          onEditTags={handleBulkEditTags}
+          onExport={() => { void handleBulkExport(); }}
+          onShare={() => { setShowShareDialog(true); }}
+          onDelete={() => { setShowBulkDeleteConfirm(true); }}
+          onDone={exitSelectionMode}
+        />
+      )}
+
       {/* Footer with stats */}
-      {!loading && (prompts).length > 0 && (
-        <footer className="shrink-0 px-4 py-2 bg-gray-100 dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400" role="contentinfo" aria-label="Library statistics">
+      {!selectionMode && !loading && (prompts).length > 0 && (
+        <footer className="shrink-0 px-4 py-2 bg-gray-100 dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400 flex items-center justify-between" role="contentinfo" aria-label="Library statistics">
           <span aria-live="polite" aria-atomic="true">
             {finalFilteredPrompts.length === (prompts).length ? (
               `${String((prompts).length)} prompt${(prompts).length !== 1 ? 's' : ''}`
@@ -179,21 +350,52 @@ const LibraryView: FC<LibraryViewProps> = ({
               `${String(finalFilteredPrompts.length)} of ${String((prompts).length)} prompt${(prompts).length !== 1 ? 's' : ''}`
             )}
           </span>
+          {bulkActionsAvailable && finalFilteredPrompts.length > 0 && (
+            <button
+              type="button"
+              onClick={() => { setSelectionMode(true); }}
+              className="font-semibold text-purple-600 dark:text-purple-400 hover:underline focus-interactive"
+            >
+              Select
+            </button>
+          )}
         </footer>
       )}
 
+      <ConfirmDialog
+        isOpen={showBulkDeleteConfirm}
+        onConfirm={handleConfirmBulkDelete}
+        onCancel={() => { setShowBulkDeleteConfirm(false); }}
+        title={`Delete ${String(selectedPrompts.length)} prompt${selectedPrompts.length !== 1 ? 's' : ''}?`}
+        message="The selected prompts will be permanently deleted. This action cannot be undone."
+        confirmText="Delete"
+        cancelText="Cancel"
+        variant="danger"
+      />
+
+      <ShareCollectionDialog
+        isOpen={showShareDialog}
+        prompts={selectedPrompts}
+        categories={categories}
+        defaultName={selectedCategory ?? 'Shared prompts'}
+        onClose={handleCloseShareDialog}
+        showToast={showToast}
+      />
+
       {/* Floating Add Button */}
-      <button
-        onClick={onAddNew}
-        className="fixed bottom-6 right-6 w-14 h-14 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-full hover:from-purple-700 hover:to-indigo-700 transition-all duration-200 shadow-2xl hover:shadow-3xl transform hover:scale-110 z-50 flex items-center justify-center focus-primary disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-        disabled={loading}
-        aria-label="Add new prompt"
-        title="Add New Prompt"
-      >
-        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-        </svg>
-      </button>
+      {!selectionMode && (
+        <button
+          onClick={onAddNew}
+          className="fixed bottom-6 right-6 w-14 h-14 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-full hover:from-purple-700 hover:to-indigo-700 transition-all duration-200 shadow-2xl hover:shadow-3xl transform hover:scale-110 z-50 flex items-center justify-center focus-primary disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+          disabled={loading}
+          aria-label="Add new prompt"
+          title="Add New Prompt"
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      )}
     </div>
   );
 };
@@ -1,14 +1,16 @@
 import DOMPurify from 'dompurify';
-import { useState, memo } from 'react';
+import { useMemo, useState, memo } from 'react';
 import type { FC, MouseEvent, ReactNode } from 'react';
 
 import { encode } from '../services/promptEncoder';
+import { ShareSigningManager } from '../services/shareSigning';
 import type { PromptCardProps } from '../types/components';
-import { Logger, toError } from '../utils';
+import { Logger, getBuiltInVariables, hasPromptVariables, toError } from '../utils';
 
 import CategoryBadge from './CategoryBadge';
 import ConfirmDialog from './ConfirmDialog';
 import { Dropdown, type DropdownItem } from './Dropdown';
+import VariableFillDialog from './VariableFillDialog';
 
 /**
  * Formats a timestamp as a localized date string.
@@ -67,17 +69,45 @@ const PromptCard: FC<PromptCardProps> = ({
   onEdit,
   onDelete,
   onCopy,
+  onTogglePin,
   showToast,
+  isSelected = false,
+  onToggleSelect,
   searchQuery = ''
 }) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const [showVariableDialog, setShowVariableDialog] = useState(false);
+  const hasVariables = useMemo(
+    () => hasPromptVariables(prompt.content) || getBuiltInVariables(prompt.content).length > 0,
+    [prompt.content]
+  );
+  const isPinned = prompt.pinned === true;
 
   const handleCopyClick = (e?: MouseEvent | KeyboardEvent) => {
     e?.stopPropagation();
+    // Prompts with template or built-in variables are filled in before copying
+    if (hasVariables) {
+      setShowVariableDialog(true);
+      return;
+    }
     onCopy(prompt.content);
   };
 
+  const handleVariableSubmit = (content: string) => {
+    setShowVariableDialog(false);
+    onCopy(content);
+  };
+
+  const handleVariableCancel = () => {
+    setShowVariableDialog(false);
+  };
+
+  const handlePinClick = (e?: MouseEvent) => {
+    e?.stopPropagation();
+    onTogglePin?.(prompt);
+  };
+
   const handleEditClick = () => {
     onEdit(prompt);
   };
@@ -99,7 +129,7 @@ const PromptCard: FC<PromptCardProps> = ({
     e?.stopPropagation();
     setIsSharing(true);
     try {
-      const encoded = encode(prompt);
+      const encoded = await ShareSigningManager.getInstance().sign(encode(prompt));
       await navigator.clipboard.writeText(encoded);
       showToast('Share link copied to clipboard!', 'success');
     } catch (err) {
@@ -131,7 +161,7 @@ const PromptCard: FC<PromptCardProps> = ({
 
 
   return (
-    <article data-testid="prompt-card" className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5 hover:bg-white/90 dark:hover:bg-gray-800/90 transition-all duration-200 relative group" aria-labelledby={`prompt-title-${prompt.id}`}>
+    <article data-testid="prompt-card" className={`${isSelected ? 'bg-purple-50/80 dark:bg-purple-900/20' : 'bg-white/70 dark:bg-gray-800/70'} backdrop-blur-sm border-b border-purple-100 dark:border-gray-700 p-5 hover:bg-white/90 dark:hover:bg-gray-800/90 transition-all duration-200 relative group`} aria-labelledby={`prompt-title-${prompt.id}`}>
       <div className="grid grid-cols-[minmax(0,1fr)_auto] gap-4 items-center">
         {/* Title and metadata */}
         <div className="pr-3">
@@ -155,6 +185,15 @@ const PromptCard: FC<PromptCardProps> = ({
                 />
               ) : null;
             })()}
+            {prompt.tags?.map(tag => (
+              <span
+                key={tag}
+                className="text-xs text-purple-600 dark:text-purple-400 truncate max-w-[80px]"
+                title={`Tag: ${tag}`}
+              >
+                #{tag}
+              </span>
+            ))}
             <time
               className="text-xs text-gray-500 dark:text-gray-400"
               dateTime={new Date((prompt).updatedAt).toISOString()}
@@ -165,62 +204,100 @@ const PromptCard: FC<PromptCardProps> = ({
           </div>
         </div>
         
-        {/* Actions */}
-        <div className="flex items-center space-x-2 shrink-0">
-          {/* Copy Button */}
-          <button
-            onClick={handleCopyClick}
-            className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive"
-            aria-label={`Copy content of ${prompt.title} to clipboard`}
-            title="Copy to clipboard"
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
-              />
-            </svg>
-          </button>
-
-          {/* Share Button */}
-          <button
-            onClick={(e) => { void handleShare(e); }}
-            disabled={isSharing}
-            className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive disabled:opacity-50 disabled:cursor-not-allowed"
-            aria-label={isSharing ? `Sharing ${prompt.title}...` : `Share ${prompt.title}`}
-            title="Share this prompt"
-            aria-busy={isSharing}
-          >
-            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
-              />
-            </svg>
-          </button>
-
-          {/* Menu */}
-          <Dropdown
-            trigger={
+        {onToggleSelect ? (
+          /* Selection checkbox (bulk selection mode) */
+          <div className="flex items-center shrink-0 pr-2">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              readOnly
+              onClick={(e) => { onToggleSelect(prompt, e.shiftKey); }}
+              className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-purple-600 focus:ring-purple-500 cursor-pointer"
+              aria-label={`Select ${prompt.title}`}
+            />
+          </div>
+        ) : (
+          /* Actions */
+          <div className="flex items-center space-x-2 shrink-0">
+            {/* Pin Button */}
+            {onTogglePin && (
               <button
-                className="p-1 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive"
-                aria-label={`More actions for ${prompt.title}`}
+                onClick={handlePinClick}
+                className={`p-2 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive ${
+                  isPinned
+                    ? 'text-purple-600 dark:text-purple-400'
+                    : 'text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400'
+                }`}
+                aria-label={isPinned ? `Unpin ${prompt.title}` : `Pin ${prompt.title} to the top`}
+                aria-pressed={isPinned}
+                title={isPinned ? 'Unpin' : 'Pin to top'}
               >
-                <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
-                  <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                <svg className="h-4 w-4" fill={isPinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15 4.5l4.5 4.5-2.5 1-3.5 3.5.5 4.5-1.5 1.5-3.5-3.5-4.5 4.5m4.5-4.5L6 12.5 7.5 11l4.5.5L15.5 8l-.5-3.5z"
+                  />
                 </svg>
               </button>
-            }
-            items={menuItems}
-            placement="bottom-end"
-            className="w-28"
-            itemClassName="px-4 py-3 text-sm font-medium"
-          />
-        </div>
+            )}
+
+            {/* Copy Button */}
+            <button
+              onClick={handleCopyClick}
+              className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive"
+              aria-label={`Copy content of ${prompt.title} to clipboard`}
+              title="Copy to clipboard"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                />
+              </svg>
+            </button>
+
+            {/* Share Button */}
+            <button
+              onClick={(e) => { void handleShare(e); }}
+              disabled={isSharing}
+              className="p-2 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={isSharing ? `Sharing ${prompt.title}...` : `Share ${prompt.title}`}
+              title="Share this prompt"
+              aria-busy={isSharing}
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z"
+                />
+              </svg>
+            </button>
+
+            {/* Menu */}
+            <Dropdown
+              trigger={
+                <button
+                  className="p-1 text-gray-400 dark:text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 rounded-md hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors focus-interactive"
+                  aria-label={`More actions for ${prompt.title}`}
+                >
+                  <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true">
+                    <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                  </svg>
+                </button>
+              }
+              items={menuItems}
+              placement="bottom-end"
+              className="w-28"
+              itemClassName="px-4 py-3 text-sm font-medium"
+            />
+          </div>
+        )}
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -234,6 +311,16 @@ const PromptCard: FC<PromptCardProps> = ({
         cancelText="Cancel"
         variant="danger"
       />
+
+      {/* Template Variable Dialog */}
+      {hasVariables && (
+        <VariableFillDialog
+          isOpen={showVariableDialog}
+          prompt={prompt}
+          onSubmit={handleVariableSubmit}
+          onCancel={handleVariableCancel}
+        />
+      )}
     </article>
   );
 };
@@ -246,6 +333,8 @@ const arePropsEqual = (prevProps: PromptCardProps, nextProps: PromptCardProps):
   if (prevProps.prompt.title !== nextProps.prompt.title) {return false;}
   if (prevProps.prompt.content !== nextProps.prompt.content) {return false;}
   if (prevProps.prompt.category !== nextProps.prompt.category) {return false;}
+  if (prevProps.prompt.tags?.join(',') !== nextProps.prompt.tags?.join(',')) {return false;}
+  if (prevProps.prompt.pinned !== nextProps.prompt.pinned) {return false;}
   if (prevProps.prompt.updatedAt !== nextProps.prompt.updatedAt) {return false;}
   
   // Check search query changes (affects highlighting)
@@ -269,6 +358,8 @@ const arePropsEqual = (prevProps: PromptCardProps, nextProps: PromptCardProps):
   if (prevProps.onEdit !== nextProps.onEdit) {return false;}
   if (prevProps.onDelete !== nextProps.onDelete) {return false;}
   if (prevProps.onCopy !== nextProps.onCopy) {return false;}
+  if (prevProps.onTogglePin !== nextProps.onTogglePin) {return false;}
+  if (prevProps.onToggleSelect !== nextProps.onToggleSelect) {return false;}
   // Note: showToast is excluded from comparison as function references change frequently
   // and re-rendering on showToast changes provides no benefit
 
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { createPortal } from 'react-dom';
+
+import { getPlatformById } from '../config/platforms';
+import { StorageManager } from '../services/storage';
+import type { Prompt, PromptExampleOutput } from '../types';
+import { Logger, toError } from '../utils';
+
+export interface PromptExamplesDialogProps {
+  isOpen: boolean;
+  prompt: Prompt;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString();
+
+// Custom sites are stored by hostname
+const getPlatformName = (platform: string): string =>
+  getPlatformById(platform)?.displayName ?? platform;
+
+/**
+ * Responses saved from an AI platform as examples of what this prompt produces
+ */
+const PromptExamplesDialog: FC<PromptExamplesDialogProps> = ({
+  isOpen,
+  prompt,
+  onClose
+}) => {
+  const [outputs, setOutputs] = useState<PromptExampleOutput[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load outputs each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    StorageManager.getInstance().getPromptExampleOutputs(prompt.id)
+      .then((loaded) => {
+        if (!cancelled) {
+          setOutputs(loaded);
+        }
+      })
+      .catch((err: unknown) => {
+        Logger.error('Failed to load example outputs', toError(err), {
+          component: 'PromptExamplesDialog',
+          promptId: prompt.id
+        });
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, prompt.id]);
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) {return null;}
+
+  const handleDelete = async (output: PromptExampleOutput) => {
+    try {
+      await StorageManager.getInstance().deletePromptExampleOutput(prompt.id, output.id);
+      setOutputs(current => current.filter(item => item.id !== output.id));
+    } catch (err) {
+      Logger.error('Failed to delete example output', toError(err), {
+        component: 'PromptExamplesDialog',
+        promptId: prompt.id
+      });
+    }
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="examples-dialog-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl p-4 shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col border border-purple-100 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3
+            id="examples-dialog-title"
+            className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100"
+          >
+            Example Outputs
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md focus-interactive"
+            aria-label="Close example outputs"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Loading examples...</p>
+        ) : outputs.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No example outputs yet. After inserting this prompt on an AI site, use &quot;Save as example&quot; below the response.
+          </p>
+        ) : (
+          <ul className="flex-1 min-h-0 overflow-auto custom-scrollbar space-y-3">
+            {outputs.map(output => (
+              <li
+                key={output.id}
+                className="rounded-lg border border-purple-100 dark:border-gray-700 p-2"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {getPlatformName(output.platform)} · {formatDate(output.createdAt)}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => { void handleDelete(output); }}
+                    className="shrink-0 text-xs font-semibold text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 focus-interactive rounded-sm"
+                    aria-label={`Delete example from ${formatDate(output.createdAt)}`}
+                  >
+                    Delete
+                  </button>
+                </div>
+                <p className="max-h-48 overflow-auto custom-scrollbar text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+                  {output.content}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PromptExamplesDialog;
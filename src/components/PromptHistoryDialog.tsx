@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { FC } from 'react';
+import { createPortal } from 'react-dom';
+
+import { StorageManager } from '../services/storage';
+import type { Category, Prompt, PromptRevision } from '../types';
+import { Logger, diffLines, toError } from '../utils';
+
+export interface PromptHistoryDialogProps {
+  isOpen: boolean;
+  prompt: Prompt;
+  categories: Category[];
+  onRestore: (data: { title: string; content: string; category: string }) => void;
+  onClose: () => void;
+}
+
+// The current prompt is shown alongside its saved revisions under this id
+const CURRENT_VERSION_ID = 'current';
+
+interface VersionOption {
+  id: string;
+  label: string;
+  revision: Omit<PromptRevision, 'id'>;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString();
+
+const diffLineStyles = {
+  added: 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  removed: 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 line-through decoration-red-400/60',
+  unchanged: 'text-gray-600 dark:text-gray-400'
+} as const;
+
+const diffLinePrefix = {
+  added: '+',
+  removed: '-',
+  unchanged: ' '
+} as const;
+
+const selectClassName = 'flex-1 min-w-0 px-2 py-1.5 text-xs border border-purple-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus-input';
+
+const PromptHistoryDialog: FC<PromptHistoryDialogProps> = ({
+  isOpen,
+  prompt,
+  categories,
+  onRestore,
+  onClose
+}) => {
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromId, setFromId] = useState<string>(CURRENT_VERSION_ID);
+  const [toId, setToId] = useState<string>(CURRENT_VERSION_ID);
+
+  // Load revisions each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    StorageManager.getInstance().getPromptRevisions(prompt.id)
+      .then((loaded) => {
+        if (cancelled) {return;}
+        setRevisions(loaded);
+        // Default comparison: most recent revision against the current version
+        setFromId(loaded.length > 0 ? loaded[0].id : CURRENT_VERSION_ID);
+        setToId(CURRENT_VERSION_ID);
+      })
+      .catch((err: unknown) => {
+        Logger.error('Failed to load prompt history', toError(err), {
+          component: 'PromptHistoryDialog',
+          promptId: prompt.id
+        });
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, prompt.id]);
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [isOpen, onClose]);
+
+  const versions = useMemo<VersionOption[]>(() => [
+    {
+      id: CURRENT_VERSION_ID,
+      label: `Current (${formatDate(prompt.updatedAt)})`,
+      revision: {
+        timestamp: prompt.updatedAt,
+        title: prompt.title,
+        content: prompt.content,
+        category: prompt.category
+      }
+    },
+    ...revisions.map(revision => ({
+      id: revision.id,
+      label: formatDate(revision.timestamp),
+      revision
+    }))
+  ], [prompt, revisions]);
+
+  const fromVersion = versions.find(version => version.id === fromId) ?? versions[0];
+  const toVersion = versions.find(version => version.id === toId) ?? versions[0];
+
+  const diff = useMemo(
+    () => diffLines(fromVersion.revision.content, toVersion.revision.content),
+    [fromVersion, toVersion]
+  );
+
+  if (!isOpen) {return null;}
+
+  const handleRestore = (revision: PromptRevision) => {
+    // Fall back to the current category if the revision's category was deleted since
+    const categoryExists = categories.some(category => category.name === revision.category);
+    onRestore({
+      title: revision.title,
+      content: revision.content,
+      category: categoryExists ? revision.category : prompt.category
+    });
+  };
+
+  const hasChanges = diff.some(line => line.type !== 'unchanged');
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="history-dialog-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl p-4 shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col border border-purple-100 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3
+            id="history-dialog-title"
+            className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100"
+          >
+            Version History
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md focus-interactive"
+            aria-label="Close version history"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No earlier versions yet. A version is saved each time you change this prompt.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col gap-3 overflow-hidden">
+            {/* Version comparison */}
+            <div className="flex items-center gap-2">
+              <label htmlFor="history-compare-from" className="sr-only">Compare from version</label>
+              <select
+                id="history-compare-from"
+                value={fromVersion.id}
+                onChange={(e) => { setFromId(e.target.value); }}
+                className={selectClassName}
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>{version.label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500 dark:text-gray-400" aria-hidden="true">→</span>
+              <label htmlFor="history-compare-to" className="sr-only">Compare to version</label>
+              <select
+                id="history-compare-to"
+                value={toVersion.id}
+                onChange={(e) => { setToId(e.target.value); }}
+                className={selectClassName}
+              >
+                {versions.map(version => (
+                  <option key={version.id} value={version.id}>{version.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {fromVersion.revision.title !== toVersion.revision.title && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Title: <span className="line-through">{fromVersion.revision.title}</span> → {toVersion.revision.title}
+              </p>
+            )}
+            {fromVersion.revision.category !== toVersion.revision.category && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Category: <span className="line-through">{fromVersion.revision.category}</span> → {toVersion.revision.category}
+              </p>
+            )}
+
+            <div
+              className="flex-1 min-h-0 overflow-auto custom-scrollbar rounded-lg border border-purple-100 dark:border-gray-700 font-mono text-xs"
+              data-testid="history-diff"
+            >
+              {!hasChanges && (
+                <p className="p-2 text-gray-500 dark:text-gray-400 font-sans">The content of these versions is identical.</p>
+              )}
+              {diff.map((line, index) => (
+                <div
+                  key={`${String(index)}-${line.type}`}
+                  className={`px-2 whitespace-pre-wrap break-words ${diffLineStyles[line.type]}`}
+                  data-diff-type={line.type}
+                >
+                  <span aria-hidden="true" className="select-none mr-2">{diffLinePrefix[line.type]}</span>
+                  {line.text}
+                </div>
+              ))}
+            </div>
+
+            {/* Revision list */}
+            <ul className="max-h-40 overflow-auto custom-scrollbar divide-y divide-purple-100 dark:divide-gray-700 border-t border-purple-100 dark:border-gray-700">
+              {revisions.map(revision => (
+                <li key={revision.id} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <p className="text-xs font-semibold text-gray-900 dark:text-gray-100 truncate">{revision.title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(revision.timestamp)}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => { handleRestore(revision); }}
+                    className="shrink-0 inline-flex justify-center rounded-lg px-3 py-1.5 text-xs font-semibold text-white shadow-sm focus-secondary transition-colors bg-purple-600 hover:bg-purple-700"
+                    aria-label={`Restore version from ${formatDate(revision.timestamp)}`}
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PromptHistoryDialog;
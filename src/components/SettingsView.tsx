@@ -3,11 +3,20 @@ import type { FC, ReactNode } from 'react';
 
 import manifest from '../../manifest.json';
 import { getDefaultEnabledPlatforms, getLinkedPlatformHostnames } from '../config/platforms';
+import { PromptManager } from '../services/promptManager';
 import { StorageManager } from '../services/storage';
-import type { Prompt, Category, Settings as UserSettings, CustomSite as ImportedCustomSite } from '../types';
-import { DEFAULT_SETTINGS } from '../types';
+import type {
+  Prompt,
+  Category,
+  Settings as UserSettings,
+  CustomSite as ImportedCustomSite,
+  ImportConflictResolution,
+  ImportPreviewItem,
+  InsertionMode
+} from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_SLASH_COMMAND_SITES, DEFAULT_SLASH_COMMAND_TRIGGER } from '../types';
 import type { ToastType } from '../types/components';
-import type { ToastSettings } from '../types/hooks';
+import type { ToastSettings, UseUndoReturn } from '../types/hooks';
 import { Logger, toError } from '../utils';
 
 import { ClaudeIcon, ChatGPTIcon, PerplexityIcon, MistralIcon, GeminiIcon, CopilotIcon } from './icons/SiteIcons';
@@ -15,6 +24,7 @@ import AboutSection from './settings/AboutSection';
 import AdvancedSection from './settings/AdvancedSection';
 import AppearanceSection from './settings/AppearanceSection';
 import DataStorageSection from './settings/DataStorageSection';
+import ImportMergeDialog from './settings/ImportMergeDialog';
 import NotificationSection from './settings/NotificationSection';
 import SiteIntegrationSection from './settings/SiteIntegrationSection';
 import ViewHeader from './ViewHeader';
@@ -46,6 +56,10 @@ interface Settings {
   customSites: CustomSite[];
   debugMode: boolean;
   floatingFallback: boolean;
+  slashCommandTrigger: string;
+  slashCommandSites: string[];
+  insertionModes: Record<string, InsertionMode>;
+  autoSendSites: string[];
 }
 
 interface SettingsViewProps {
@@ -53,6 +67,8 @@ interface SettingsViewProps {
   showToast: (message: string, type?: ToastType) => void;
   toastSettings: ToastSettings;
   onToastSettingsChange: (settings: Partial<ToastSettings>) => void;
+  /** Makes imports undoable from the toast confirming them */
+  withUndo?: UseUndoReturn['withUndo'];
 }
 
 const SectionSeparator: FC = () => (
@@ -69,12 +85,16 @@ const SectionSeparator: FC = () => (
   </div>
 );
 
-const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings, onToastSettingsChange }) => {
+const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings, onToastSettingsChange, withUndo }) => {
   const [settings, setSettings] = useState<Settings>({
     enabledSites: [],
     customSites: [],
     debugMode: false,
-    floatingFallback: true
+    floatingFallback: true,
+    slashCommandTrigger: DEFAULT_SLASH_COMMAND_TRIGGER,
+    slashCommandSites: [],
+    insertionModes: {},
+    autoSendSites: []
   });
 
   const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
@@ -88,6 +108,9 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
   // Data for import/export
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  // Import waiting for the user to review the merge preview
+  const [pendingImport, setPendingImport] = useState<{ items: ImportPreviewItem[]; categories: Category[]; source?: string } | null>(null);
+  const [mergingImport, setMergingImport] = useState(false);
 
   const storageManager = useMemo(() => StorageManager.getInstance(), []);
 
@@ -131,7 +154,11 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
     enabledSites: getDefaultEnabledPlatforms(),
     customSites: [],
     debugMode: false,
-    floatingFallback: true
+    floatingFallback: true,
+    slashCommandTrigger: DEFAULT_SLASH_COMMAND_TRIGGER,
+    slashCommandSites: [...DEFAULT_SLASH_COMMAND_SITES],
+    insertionModes: {},
+    autoSendSites: []
   }), []);
 
   // Load settings
@@ -285,6 +312,48 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
     // Persistence now handled by debounced useEffect
   };
 
+  // Handle slash command trigger change
+  const handleSlashCommandTriggerChange = useCallback((trigger: string) => {
+    setSettings(prev => ({ ...prev, slashCommandTrigger: trigger }));
+  }, []);
+
+  // Handle per-site slash command toggle (linked platforms share the setting)
+  const handleSlashCommandSiteToggle = useCallback((hostname: string, enabled: boolean) => {
+    const hostnamesToToggle = getLinkedPlatformHostnames(hostname);
+
+    setSettings(prev => ({
+      ...prev,
+      slashCommandSites: enabled
+        ? [...new Set([...prev.slashCommandSites, ...hostnamesToToggle])]
+        : prev.slashCommandSites.filter(site => !hostnamesToToggle.includes(site))
+    }));
+  }, []);
+
+  // Handle per-site insertion mode change (linked platforms share the setting)
+  const handleInsertionModeChange = useCallback((hostname: string, mode: InsertionMode) => {
+    const hostnamesToChange = getLinkedPlatformHostnames(hostname);
+
+    setSettings(prev => ({
+      ...prev,
+      insertionModes: {
+        ...prev.insertionModes,
+        ...Object.fromEntries(hostnamesToChange.map(site => [site, mode]))
+      }
+    }));
+  }, []);
+
+  // Handle per-site auto-send toggle (linked platforms share the setting)
+  const handleAutoSendSiteToggle = useCallback((hostname: string, enabled: boolean) => {
+    const hostnamesToToggle = getLinkedPlatformHostnames(hostname);
+
+    setSettings(prev => ({
+      ...prev,
+      autoSendSites: enabled
+        ? [...new Set([...prev.autoSendSites, ...hostnamesToToggle])]
+        : prev.autoSendSites.filter(site => !hostnamesToToggle.includes(site))
+    }));
+  }, []);
+
   /**
    * Notifies all tabs matching a hostname to reinitialize their content scripts.
    * Called after adding, removing, or modifying a custom site configuration.
@@ -381,33 +450,56 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
     }
   }, [settings, saveSettings]);
 
-  // Handle import data
-  const handleImportData = async (data: { prompts: Prompt[]; categories: Category[] }) => {
+  // Handle import data: compare with the library first, nothing is written until the preview is confirmed
+  const handleImportData = async (data: { prompts: Prompt[]; categories: Category[] }, source?: string) => {
     try {
-      // Import categories first (prompts reference categories)
-      for (const category of data.categories) {
-        await storageManager.importCategory(category);
-      }
-      
-      // Import prompts
-      for (const prompt of data.prompts) {
-        await storageManager.importPrompt(prompt);
-      }
-      
-      // Reload data
+      const items = await PromptManager.getInstance().previewImport(data.prompts);
+      setPendingImport({ items, categories: data.categories, source });
+    } catch (error) {
+      Logger.error('Import preview failed', toError(error));
+      throw error;
+    }
+  };
+
+  const handleCancelImport = useCallback(() => {
+    setPendingImport(null);
+  }, []);
+
+  const handleConfirmImport = async (resolutions: Record<string, ImportConflictResolution>) => {
+    if (!pendingImport) {return;}
+
+    const plan = PromptManager.getInstance().createMergePlan(pendingImport.items, resolutions, pendingImport.categories);
+    const mergeAll = async () => {
+      await storageManager.mergeImportData(plan);
       await loadSettings();
-      
-      showToast(`Successfully imported ${data.prompts.length.toString()} prompts and ${data.categories.length.toString()} categories!`, 'success');
+    };
+    const message = `Imported ${plan.added.length.toString()} new and updated ${plan.replaced.length.toString()} prompts`;
+
+    setMergingImport(true);
+    try {
+      if (withUndo) {
+        const scope = {
+          promptIds: [...plan.added.map(prompt => prompt.id), ...plan.replaced.map(r => r.existingId)],
+          categories: true
+        };
+        await withUndo(scope, message, mergeAll);
+      } else {
+        await mergeAll();
+        showToast(message, 'success');
+      }
+      setPendingImport(null);
     } catch (error) {
       Logger.error('Import failed', toError(error));
-      throw error;
+      showToast(`Import failed: ${toError(error).message}`, 'error');
+    } finally {
+      setMergingImport(false);
     }
   };
 
   // Handle clear data
   const handleClearData = async () => {
     try {
-      await chrome.storage.local.clear();
+      await storageManager.clearAllData();
       await loadSettings();
       showToast('All data has been cleared.', 'success');
     } catch (error) {
@@ -416,6 +508,11 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
     }
   };
 
+  const handleSnapshotRestored = async () => {
+    await loadSettings();
+    showToast('Backup snapshot restored.', 'success');
+  };
+
   // Handle reset settings
   const handleResetSettings = async () => {
     try {
@@ -534,6 +631,14 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
             onAddCustomSite={handleAddCustomSiteCallback}
             saving={saving}
             onShowToast={showToast}
+            slashCommandTrigger={settings.slashCommandTrigger}
+            slashCommandSites={settings.slashCommandSites}
+            onSlashCommandTriggerChange={handleSlashCommandTriggerChange}
+            onSlashCommandSiteToggle={handleSlashCommandSiteToggle}
+            insertionModes={settings.insertionModes}
+            onInsertionModeChange={handleInsertionModeChange}
+            autoSendSites={settings.autoSendSites}
+            onAutoSendSiteToggle={handleAutoSendSiteToggle}
           />
 
           <SectionSeparator />
@@ -544,8 +649,22 @@ const SettingsView: FC<SettingsViewProps> = ({ onBack, showToast, toastSettings,
             categories={categories}
             onImport={handleImportData}
             onClearData={handleClearData}
+            onSnapshotRestored={handleSnapshotRestored}
+            onSynced={loadSettings}
+            onVaultChanged={loadSettings}
+            onVaultLocked={onBack}
           />
 
+          {pendingImport && (
+            <ImportMergeDialog
+              items={pendingImport.items}
+              source={pendingImport.source}
+              importing={mergingImport}
+              onConfirm={(resolutions) => { void handleConfirmImport(resolutions); }}
+              onCancel={handleCancelImport}
+            />
+          )}
+
           {/* Notification Settings Section */}
           <NotificationSection
             settings={toastSettings}
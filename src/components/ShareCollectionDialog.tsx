@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import type { FC, FormEvent } from 'react';
+import { createPortal } from 'react-dom';
+
+import { createCollectionPayload, toShareCodes } from '../services/collectionEncoder';
+import { type Category, type EncodedPromptCollectionPayloadV1, type Prompt, PROMPT_COLLECTION_LIMITS } from '../types';
+import type { ToastType } from '../types/components';
+import { Logger, getExportFilename, saveJsonFile, toError } from '../utils';
+
+export interface ShareCollectionDialogProps {
+  isOpen: boolean;
+  prompts: Prompt[];
+  categories: Category[];
+  /** Suggested collection name, e.g. the category being viewed */
+  defaultName: string;
+  onClose: () => void;
+  showToast: (message: string, type: ToastType) => void;
+}
+
+const buttonClass = 'inline-flex justify-center rounded-lg px-3 py-1.5 text-xs font-semibold focus-secondary transition-colors disabled:opacity-50';
+
+/**
+ * Share several prompts at once as a collection code (split into parts when
+ * long) or as a file
+ */
+const ShareCollectionDialog: FC<ShareCollectionDialogProps> = ({
+  isOpen,
+  prompts,
+  categories,
+  defaultName,
+  onClose,
+  showToast
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [payload, setPayload] = useState<EncodedPromptCollectionPayloadV1 | null>(null);
+  const [codes, setCodes] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {return;}
+    setName(defaultName);
+    setPayload(null);
+    setCodes([]);
+    setError(null);
+  }, [isOpen, defaultName]);
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) {return null;}
+
+  const buildPayload = async (): Promise<EncodedPromptCollectionPayloadV1> => {
+    if (payload?.n === name.trim()) {
+      return payload;
+    }
+    const created = await createCollectionPayload(name, prompts, categories);
+    setPayload(created);
+    return created;
+  };
+
+  const handleCreateCodes = async (e: FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    setError(null);
+    try {
+      setCodes(toShareCodes(await buildPayload()));
+    } catch (err) {
+      Logger.error('Failed to create collection code', toError(err), { component: 'ShareCollectionDialog' });
+      setCodes([]);
+      setError(toError(err).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      const created = await buildPayload();
+      await saveJsonFile(JSON.stringify(created, null, 2), getExportFilename('prompt-collection'));
+      showToast(`Saved collection "${created.n}"`, 'success');
+    } catch (err) {
+      Logger.error('Failed to save collection file', toError(err), { component: 'ShareCollectionDialog' });
+      setError(toError(err).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      showToast(`${label} copied to clipboard!`, 'success');
+    } catch (err) {
+      Logger.error('Failed to copy collection code', toError(err), { component: 'ShareCollectionDialog' });
+      showToast('Failed to copy. Please try again.', 'error');
+    }
+  };
+
+  const tooMany = prompts.length > PROMPT_COLLECTION_LIMITS.MAX_PROMPTS;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-collection-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl p-4 shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col gap-3 border border-purple-100 dark:border-gray-700">
+        <div className="flex items-center justify-between">
+          <h3
+            id="share-collection-title"
+            className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100"
+          >
+            Share {prompts.length} prompt{prompts.length !== 1 ? 's' : ''}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md focus-interactive"
+            aria-label="Close share dialog"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={(e) => { void handleCreateCodes(e); }} className="space-y-2">
+          <label htmlFor="share-collection-name" className="block text-xs font-semibold text-gray-700 dark:text-gray-300">
+            Collection name
+          </label>
+          <input
+            id="share-collection-name"
+            type="text"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setCodes([]);
+            }}
+            maxLength={PROMPT_COLLECTION_LIMITS.NAME_MAX}
+            required
+            className="w-full px-3 py-1.5 text-xs border border-purple-200 dark:border-gray-600 rounded-lg focus-input bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+          {tooMany && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">
+              A collection can hold at most {PROMPT_COLLECTION_LIMITS.MAX_PROMPTS} prompts. Select fewer prompts to share them.
+            </p>
+          )}
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working || tooMany}
+              className={`${buttonClass} text-white bg-purple-600 hover:bg-purple-700`}
+            >
+              Create code
+            </button>
+            <button
+              type="button"
+              onClick={() => { void handleDownload(); }}
+              disabled={working || tooMany}
+              className={`${buttonClass} border border-purple-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-purple-50 dark:hover:bg-gray-600`}
+            >
+              Download file
+            </button>
+          </div>
+        </form>
+
+        {codes.length > 0 && (
+          <div className="flex-1 min-h-0 flex flex-col gap-2 overflow-hidden">
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {codes.length === 1
+                ? 'Send this code. It can be imported under Settings → Import shared collection.'
+                : `This collection needs ${String(codes.length)} codes. Send all of them; they can be pasted together in any order under Settings → Import shared collection.`}
+            </p>
+            <ul className="overflow-auto custom-scrollbar divide-y divide-purple-100 dark:divide-gray-700 border-t border-purple-100 dark:border-gray-700">
+              {codes.map((code, index) => {
+                const label = codes.length === 1 ? 'Collection code' : `Part ${String(index + 1)} of ${String(codes.length)}`;
+                return (
+                  <li key={label} className="flex items-center justify-between gap-2 py-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-semibold text-gray-900 dark:text-gray-100">{label}</p>
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{code}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => { void handleCopy(code, label); }}
+                      className={`${buttonClass} shrink-0 text-white bg-purple-600 hover:bg-purple-700`}
+                      aria-label={`Copy ${label.toLowerCase()}`}
+                    >
+                      Copy
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            {codes.length > 1 && (
+              <button
+                type="button"
+                onClick={() => { void handleCopy(codes.join('\n'), 'All parts'); }}
+                className={`${buttonClass} border border-purple-200 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-purple-50 dark:hover:bg-gray-600`}
+              >
+                Copy all parts
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ShareCollectionDialog;
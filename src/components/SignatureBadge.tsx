@@ -0,0 +1,49 @@
+import type { FC } from 'react';
+
+import type { ShareSignatureStatus } from '../types';
+
+interface SignatureBadgeProps {
+  signature: ShareSignatureStatus;
+}
+
+const badgeStyles = {
+  trusted: 'border-green-200 dark:border-green-700 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  unknown: 'border-amber-200 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300',
+  invalid: 'border-red-200 dark:border-red-700 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300',
+  unsigned: 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+} as const;
+
+const describe = (signature: ShareSignatureStatus): { style: keyof typeof badgeStyles; text: string } => {
+  switch (signature.state) {
+    case 'unsigned':
+      return { style: 'unsigned', text: 'Unsigned. The sender cannot be verified.' };
+    case 'invalid':
+      return { style: 'invalid', text: 'Signature mismatch. This code was changed after it was signed.' };
+    case 'signed':
+      if (signature.signer === 'self') {
+        return { style: 'trusted', text: `Signed by you (${signature.fingerprint})` };
+      }
+      if (signature.signer === 'trusted') {
+        return { style: 'trusted', text: `Signed by ${signature.name ?? 'a trusted key'} (${signature.fingerprint})` };
+      }
+      return { style: 'unknown', text: `Signed by ${signature.fingerprint}, a key you have not trusted` };
+  }
+};
+
+/**
+ * Who signed a pasted share code, if anyone
+ */
+const SignatureBadge: FC<SignatureBadgeProps> = ({ signature }) => {
+  const { style, text } = describe(signature);
+  return (
+    <p
+      className={`rounded-lg border px-3 py-2 text-xs ${badgeStyles[style]}`}
+      data-testid="signature-status"
+      data-signature-state={signature.state}
+    >
+      {text}
+    </p>
+  );
+};
+
+export default SignatureBadge;
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import type { FC } from 'react';
 
 import { StorageManager } from '../services/storage';
+import type { StorageLayout } from '../types';
 import { Logger, toError } from '../utils';
 
 import ConfirmDialog from './ConfirmDialog';
@@ -32,6 +33,8 @@ const StorageWarning: FC<StorageWarningProps> = ({ onClose }) => {
     total: number;
     percentage: number;
     warningLevel: 'safe' | 'warning' | 'critical' | 'danger';
+    revisionsUsed: number;
+    layout: StorageLayout;
   } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
@@ -126,7 +129,7 @@ const StorageWarning: FC<StorageWarningProps> = ({ onClose }) => {
         {storageInfo && (
           <div className="mb-4">
             <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mb-2">
-              <span>Storage Used</span>
+              <span>{storageInfo.layout === 'indexeddb' ? 'Browser Storage Used' : 'Storage Used'}</span>
               <span>{usagePercentage}%</span>
             </div>
 
@@ -141,6 +144,12 @@ const StorageWarning: FC<StorageWarningProps> = ({ onClose }) => {
               <span>{formatBytes(storageInfo.used)}</span>
               <span>{formatBytes(storageInfo.total)}</span>
             </div>
+
+            {storageInfo.revisionsUsed > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Version history: {formatBytes(storageInfo.revisionsUsed)} (older versions are pruned automatically when space runs low)
+              </p>
+            )}
           </div>
         )}
 
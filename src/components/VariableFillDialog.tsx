@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FC, FormEvent } from 'react';
+import { createPortal } from 'react-dom';
+
+import { StorageManager } from '../services/storage';
+import type { Prompt, PromptVariable, PromptVariableValues } from '../types';
+import {
+  Logger,
+  fillPromptVariables,
+  formatVariableLabel,
+  getBuiltInVariables,
+  getDateTimeVariableValues,
+  getInitialVariableValues,
+  parsePromptVariables,
+  toError
+} from '../utils';
+
+export interface VariableFillDialogProps {
+  isOpen: boolean;
+  prompt: Prompt;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 text-xs border border-purple-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus-input';
+
+const VariableFillDialog: FC<VariableFillDialogProps> = ({
+  isOpen,
+  prompt,
+  onSubmit,
+  onCancel
+}) => {
+  const variables = useMemo(() => parsePromptVariables(prompt.content), [prompt.content]);
+  // Clipboard, selection and page details only exist on a page; the copy keeps their placeholders
+  const pageVariables = useMemo(
+    () => getBuiltInVariables(prompt.content).filter(({ name }) => name !== 'date' && name !== 'time'),
+    [prompt.content]
+  );
+  const [values, setValues] = useState<PromptVariableValues>(() => getInitialVariableValues(variables));
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // Load remembered values each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    let cancelled = false;
+    setValues(getInitialVariableValues(variables));
+
+    StorageManager.getInstance().getPromptVariableValues(prompt.id)
+      .then((remembered) => {
+        if (!cancelled) {
+          setValues(getInitialVariableValues(variables, remembered));
+        }
+      })
+      .catch((err: unknown) => {
+        Logger.warn('Failed to load remembered variable values', {
+          component: 'VariableFillDialog',
+          promptId: prompt.id,
+          error: toError(err).message
+        });
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, prompt.id, variables]);
+
+  // Focus the first field when opening
+  useEffect(() => {
+    if (isOpen) {
+      formRef.current?.querySelector<HTMLElement>('input, textarea, select')?.focus();
+    }
+  }, [isOpen]);
+
+  // Handle ESC key
+  useEffect(() => {
+    if (!isOpen) {return;}
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) {return null;}
+
+  const handleChange = (name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    StorageManager.getInstance().savePromptVariableValues(prompt.id, values).catch((err: unknown) => {
+      Logger.warn('Failed to remember variable values', {
+        component: 'VariableFillDialog',
+        promptId: prompt.id,
+        error: toError(err).message
+      });
+    });
+
+    onSubmit(fillPromptVariables(prompt.content, values, getDateTimeVariableValues()));
+  };
+
+  const renderControl = (variable: PromptVariable, fieldId: string) => {
+    const value = values[variable.name] ?? '';
+
+    if (variable.type === 'choice') {
+      return (
+        <select
+          id={fieldId}
+          value={value}
+          onChange={(e) => { handleChange(variable.name, e.target.value); }}
+          className={inputClassName}
+        >
+          {(variable.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (variable.type === 'multiline') {
+      return (
+        <textarea
+          id={fieldId}
+          rows={3}
+          value={value}
+          onChange={(e) => { handleChange(variable.name, e.target.value); }}
+          className={`${inputClassName} resize-y`}
+        />
+      );
+    }
+
+    return (
+      <input
+        id={fieldId}
+        type="text"
+        autoComplete="off"
+        value={value}
+        onChange={(e) => { handleChange(variable.name, e.target.value); }}
+        className={inputClassName}
+      />
+    );
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="variable-dialog-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={onCancel}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <form
+        ref={formRef}
+        onSubmit={handleSubmit}
+        className="relative bg-white dark:bg-gray-800 rounded-xl p-3 shadow-xl transform transition-all max-w-xs w-full mx-2 max-h-[90vh] overflow-y-auto border border-purple-100 dark:border-gray-700"
+      >
+        <h3
+          id="variable-dialog-title"
+          className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100 truncate"
+        >
+          {prompt.title}
+        </h3>
+        <div className="mt-2 space-y-2">
+          {variables.map((variable, index) => {
+            const fieldId = `variable-${prompt.id}-${String(index)}`;
+            return (
+              <div key={variable.name}>
+                <label
+                  htmlFor={fieldId}
+                  className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  {formatVariableLabel(variable.name)}
+                </label>
+                {renderControl(variable, fieldId)}
+              </div>
+            );
+          })}
+        </div>
+        {pageVariables.length > 0 && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Filled in only when inserted on a page, so the copy keeps them as placeholders:{' '}
+            {pageVariables.map(({ name }) => `{{${name}}}`).join(', ')}
+          </p>
+        )}
+        <div className="mt-3 flex flex-row-reverse gap-2">
+          <button
+            type="submit"
+            className="inline-flex justify-center rounded-lg px-3 py-1.5 text-xs font-semibold text-white shadow-sm focus-secondary transition-colors bg-purple-600 hover:bg-purple-700"
+          >
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex justify-center rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-1.5 text-xs font-semibold text-gray-700 dark:text-gray-300 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 focus-secondary transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default VariableFillDialog;
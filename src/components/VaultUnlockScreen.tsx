@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import type { FC, FormEvent } from 'react';
+
+import { VaultManager } from '../services/vault';
+import { Logger, toError } from '../utils';
+
+interface VaultUnlockScreenProps {
+  /** Called once the passphrase is accepted, to load the library */
+  onUnlocked: () => Promise<void>;
+}
+
+/**
+ * Passphrase prompt shown instead of the library while its content is encrypted and locked
+ */
+const VaultUnlockScreen: FC<VaultUnlockScreenProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await VaultManager.getInstance().unlock(passphrase);
+      await onUnlocked();
+    } catch (err) {
+      Logger.error('Failed to unlock the prompt library', toError(err));
+      setError(toError(err).message);
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="h-full w-full p-4 bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+      <form
+        onSubmit={(event) => { void handleSubmit(event); }}
+        className="w-full max-w-xs text-center space-y-3"
+        aria-label="Unlock prompt library"
+      >
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Library Locked</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Your prompts are encrypted. Enter your passphrase to unlock them until the browser closes.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); }}
+          placeholder="Passphrase"
+          aria-label="Passphrase"
+          autoComplete="current-password"
+          required
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+        )}
+        <button
+          type="submit"
+          disabled={unlocking || passphrase.length === 0}
+          className="w-full px-3 py-2 text-sm font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-lg focus-secondary transition-colors disabled:opacity-50"
+        >
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlockScreen;
@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import { encode } from '../../services/promptEncoder';
+import { ShareSigningManager } from '../../services/shareSigning';
 import type { Category, Prompt } from '../../types';
 import AddPromptForm from '../AddPromptForm';
 
@@ -334,4 +335,22 @@ describe('AddPromptForm - End-to-End Workflow Tests', () => {
     // After successful import, form should still be usable
     // (In a real app, the parent would close the form or reset it)
   });
+
+  it('shows who signed a signed sharing code', async () => {
+    const signing = ShareSigningManager.getInstance();
+    const { publicKey } = await signing.createIdentity();
+    const signedCode = await signing.sign(encode(testPrompt));
+    await signing.deleteIdentity();
+    await signing.trustKey(publicKey, 'Alice');
+
+    renderForm();
+    await userEvent.click(screen.getByRole('button', { name: /import shared prompt/i }));
+    await userEvent.click(screen.getByLabelText(/sharing code/i));
+    await userEvent.paste(signedCode);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('signature-status')).toHaveTextContent('Signed by Alice');
+    }, { timeout: 600 });
+    expect(screen.getByText(testPrompt.title)).toBeInTheDocument();
+  });
 });
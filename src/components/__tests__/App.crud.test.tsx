@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import App from '../../App';
+import { VaultManager } from '../../services/vault';
 import { getMockPromptManager, getMockStorageManager } from '../../test/mocks';
 import type { Prompt, Category, AppError } from '../../types';
 
@@ -71,7 +72,7 @@ describe('App prompt workflows', () => {
     await userEvent.click(saveButton);
 
     await waitFor(() => {
-      expect(promptMock.createPrompt).toHaveBeenCalledWith('Greeting', 'Hello testers', 'Work');
+      expect(promptMock.createPrompt).toHaveBeenCalledWith('Greeting', 'Hello testers', 'Work', undefined);
     });
 
     await screen.findByText(/prompt created successfully/i);
@@ -109,7 +110,8 @@ describe('App prompt workflows', () => {
       expect(promptMock.updatePrompt).toHaveBeenCalledWith(basePrompt.id, {
         title: basePrompt.title,
         content: 'Updated body copy',
-        category: basePrompt.category
+        category: basePrompt.category,
+        tags: []
       });
     });
 
@@ -143,6 +145,27 @@ describe('App prompt workflows', () => {
     await screen.findByText(/prompt deleted successfully/i);
   });
 
+  it('restores a deleted prompt from the undo action in the toast', async () => {
+    const storageMock = getMockStorageManager();
+    storageMock.getPrompts.mockResolvedValue([basePrompt]);
+
+    await renderApp();
+
+    await screen.findByText(basePrompt.title);
+    await userEvent.click(await screen.findByLabelText(`More actions for ${basePrompt.title}`));
+    await userEvent.click(await screen.findByRole('menuitem', { name: /delete/i }));
+    await userEvent.click(await screen.findByRole('button', { name: /^delete$/i }));
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Undo' }));
+
+    await waitFor(() => {
+      expect(storageMock.restoreUndoSnapshot).toHaveBeenCalledWith(expect.objectContaining({
+        prompts: [{ prompt: expect.objectContaining({ id: basePrompt.id }), index: 0 }]
+      }));
+    });
+    await screen.findByText(/undone: prompt deleted successfully/i);
+  });
+
   it('copies prompt content to the clipboard in secure contexts', async () => {
     const storageMock = getMockStorageManager();
     storageMock.getPrompts.mockResolvedValue([basePrompt]);
@@ -223,4 +246,22 @@ describe('App prompt workflows', () => {
 
     await screen.findByText(/title is required/i);
   });
+
+  it('asks for the passphrase while the library is locked and loads it once unlocked', async () => {
+    const storageMock = getMockStorageManager();
+    const lockedError: AppError = {
+      type: 'VAULT_LOCKED',
+      message: 'The prompt library is locked. Enter your passphrase to unlock it.'
+    };
+    storageMock.getPrompts.mockRejectedValueOnce(lockedError).mockResolvedValue([basePrompt]);
+    const unlockSpy = vi.spyOn(VaultManager.prototype, 'unlock').mockResolvedValue();
+
+    render(<App />);
+    const form = await screen.findByRole('form', { name: 'Unlock prompt library' });
+    await userEvent.type(within(form).getByLabelText('Passphrase'), 'correct horse battery');
+    await userEvent.click(within(form).getByRole('button', { name: 'Unlock' }));
+
+    expect(unlockSpy).toHaveBeenCalledWith('correct horse battery');
+    expect(await screen.findByText(basePrompt.title)).toBeInTheDocument();
+  });
 });
@@ -1,4 +1,4 @@
-import { render, screen, within } from '@testing-library/react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import type React from 'react';
 import { describe, it, expect, vi } from 'vitest';
@@ -86,4 +86,65 @@ describe('CategoryManager', () => {
 
     expect(props.onUpdateCategory).toHaveBeenCalledWith('ideas', { name: 'Ideas Updated' });
   });
+
+  describe('nested categories', () => {
+    const nestedCategories: Category[] = [
+      { id: 'uncat', name: 'Uncategorized' },
+      { id: 'backend', name: 'Backend', parentId: 'eng' },
+      { id: 'eng', name: 'Eng' }
+    ];
+
+    const getRow = (name: string) =>
+      screen.getAllByTestId('category-row').find(row => row.getAttribute('data-category-name') === name) as HTMLElement;
+
+    it('renders subcategories below their parent', () => {
+      renderManager({ categories: nestedCategories });
+
+      const rows = screen.getAllByTestId('category-row');
+      expect(rows.map(row => row.getAttribute('data-category-name'))).toEqual(['Uncategorized', 'Eng', 'Backend']);
+      expect(getRow('Backend')).toHaveAttribute('aria-level', '2');
+    });
+
+    it('creates a category under the chosen parent', async () => {
+      const { props } = renderManager({ categories: nestedCategories });
+
+      await userEvent.type(screen.getByPlaceholderText(/category name/i), 'Reviews');
+      await userEvent.click(screen.getByRole('button', { name: /parent: none/i }));
+      await userEvent.click(within(await screen.findByRole('menu')).getByText('Backend'));
+      await userEvent.click(screen.getByRole('button', { name: /add/i }));
+
+      expect(props.onCreateCategory).toHaveBeenCalledWith(expect.objectContaining({ name: 'Reviews', parentId: 'backend' }));
+    });
+
+    it('asks what to do with subcategories when deleting a parent', async () => {
+      const { props } = renderManager({ categories: nestedCategories });
+
+      await userEvent.click(within(getRow('Eng')).getByTitle('Delete category'));
+      await userEvent.click(await screen.findByLabelText(/delete its subcategory too/i));
+      await userEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+      expect(props.onDeleteCategory).toHaveBeenCalledWith('eng', 'uncategorize');
+    });
+
+    it('nests a category when it is dropped onto another one', () => {
+      const onMoveCategory = vi.fn().mockResolvedValue(undefined);
+      renderManager({ categories: nestedCategories, onMoveCategory });
+
+      fireEvent.dragStart(getRow('Backend'), { dataTransfer: { setData: vi.fn(), effectAllowed: 'none' } });
+      fireEvent.dragOver(getRow('Uncategorized'));
+      fireEvent.drop(getRow('Uncategorized'));
+
+      expect(onMoveCategory).toHaveBeenCalledWith('backend', 'uncat', undefined);
+    });
+
+    it('does not allow dropping a parent into its own subcategory', () => {
+      const onMoveCategory = vi.fn().mockResolvedValue(undefined);
+      renderManager({ categories: nestedCategories, onMoveCategory });
+
+      fireEvent.dragStart(getRow('Eng'), { dataTransfer: { setData: vi.fn(), effectAllowed: 'none' } });
+      fireEvent.drop(getRow('Backend'));
+
+      expect(onMoveCategory).not.toHaveBeenCalled();
+    });
+  });
 });
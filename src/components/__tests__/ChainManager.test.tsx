@@ -0,0 +1,65 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { StorageManager } from '../../services/storage';
+import { buildPrompt } from '../../test/builders';
+import ChainManager from '../ChainManager';
+
+const prompts = [
+  buildPrompt({ id: 'draft', title: 'Draft' }),
+  buildPrompt({ id: 'critique', title: 'Critique' }),
+  buildPrompt({ id: 'refine', title: 'Refine' })
+];
+
+describe('ChainManager', () => {
+  beforeEach(async () => {
+    await chrome.storage.local.set({ prompts });
+  });
+
+  it('creates a chain from prompts picked in order', async () => {
+    const showToast = vi.fn();
+    render(<ChainManager prompts={prompts} onClose={vi.fn()} showToast={showToast} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'New chain' }));
+    await userEvent.type(screen.getByRole('textbox', { name: 'Chain name' }), 'Review loop');
+    const addStep = screen.getByRole('combobox', { name: 'Add step' });
+    await userEvent.selectOptions(addStep, 'critique');
+    await userEvent.selectOptions(addStep, 'draft');
+    await userEvent.selectOptions(addStep, 'refine');
+    await userEvent.click(screen.getByRole('button', { name: 'Move step 2 up' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Save chain' }));
+
+    expect(await screen.findByText('Draft → Critique → Refine')).toBeInTheDocument();
+    expect(showToast).toHaveBeenCalledWith('Chain created', 'success');
+    const [chain] = await StorageManager.getInstance().getPromptChains();
+    expect(chain).toMatchObject({ title: 'Review loop', promptIds: ['draft', 'critique', 'refine'] });
+  });
+
+  it('requires at least two steps before saving', async () => {
+    render(<ChainManager prompts={prompts} onClose={vi.fn()} showToast={vi.fn()} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'New chain' }));
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Add step' }), 'draft');
+
+    expect(screen.getByRole('button', { name: 'Save chain' })).toBeDisabled();
+  });
+
+  it('edits and deletes saved chains', async () => {
+    await StorageManager.getInstance().savePromptChain({ title: 'Loop', promptIds: ['draft', 'refine'] });
+    render(<ChainManager prompts={prompts} onClose={vi.fn()} showToast={vi.fn()} />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Edit Loop' }));
+    const steps = screen.getByRole('list', { name: 'Chain steps' });
+    await userEvent.click(within(steps).getByRole('button', { name: 'Remove step 2' }));
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Add step' }), 'critique');
+    await userEvent.click(screen.getByRole('button', { name: 'Save chain' }));
+    expect(await screen.findByText('Draft → Critique')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Delete Loop' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    expect(await screen.findByText('No prompt chains yet.')).toBeInTheDocument();
+    expect(await StorageManager.getInstance().getPromptChains()).toEqual([]);
+  });
+});
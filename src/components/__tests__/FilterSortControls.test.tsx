@@ -189,6 +189,69 @@ describe('FilterSortControls', () => {
     });
   });
 
+  describe('Tag Filter', () => {
+    it('hides the tag filter when no tags exist', () => {
+      render(<FilterSortControls {...defaultProps} availableTags={[]} selectedTags={[]} onTagsChange={vi.fn()} />);
+
+      expect(screen.queryByLabelText(/filter by tags/i)).not.toBeInTheDocument();
+    });
+
+    it('adds a tag to the selection and keeps the menu open', async () => {
+      const user = userEvent.setup();
+      const onTagsChange = vi.fn();
+      render(
+        <FilterSortControls
+          {...defaultProps}
+          availableTags={['python', 'team-shared']}
+          selectedTags={['python']}
+          onTagsChange={onTagsChange}
+        />
+      );
+
+      await user.click(screen.getByLabelText('Filter by tags: python'));
+      await user.click(await screen.findByText('#team-shared'));
+
+      expect(onTagsChange).toHaveBeenCalledWith(['python', 'team-shared']);
+      expect(screen.getByRole('menu')).toBeInTheDocument();
+    });
+
+    it('removes an already selected tag', async () => {
+      const user = userEvent.setup();
+      const onTagsChange = vi.fn();
+      render(
+        <FilterSortControls
+          {...defaultProps}
+          availableTags={['python', 'team-shared']}
+          selectedTags={['python', 'team-shared']}
+          onTagsChange={onTagsChange}
+        />
+      );
+
+      await user.click(screen.getByLabelText(/filter by tags/i));
+      await user.click(await screen.findByText('#python'));
+
+      expect(onTagsChange).toHaveBeenCalledWith(['team-shared']);
+    });
+
+    it('clears all selected tags', async () => {
+      const user = userEvent.setup();
+      const onTagsChange = vi.fn();
+      render(
+        <FilterSortControls
+          {...defaultProps}
+          availableTags={['python']}
+          selectedTags={['python']}
+          onTagsChange={onTagsChange}
+        />
+      );
+
+      await user.click(screen.getByLabelText(/filter by tags/i));
+      await user.click(await screen.findByText('Clear tags'));
+
+      expect(onTagsChange).toHaveBeenCalledWith([]);
+    });
+  });
+
   describe('Sort Dropdown', () => {
     it('opens sort dropdown on click', async () => {
       const user = userEvent.setup();
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
@@ -208,6 +208,149 @@ describe('LibraryView', () => {
       render(<LibraryView {...defaultProps} />);
       expect(screen.getByText(/1 prompt/i)).toBeInTheDocument();
     });
+
+    it('filters prompts by every selected tag', async () => {
+      const user = userEvent.setup();
+      const taggedPrompts: Prompt[] = [
+        { ...defaultPrompts[0], id: 'a', title: 'Python review', tags: ['python', 'code-review'] },
+        { ...defaultPrompts[0], id: 'b', title: 'Python script', tags: ['python'] },
+        { ...defaultPrompts[0], id: 'c', title: 'Untagged' }
+      ];
+
+      render(
+        <LibraryView
+          {...defaultProps}
+          prompts={taggedPrompts}
+          searchWithDebounce={createMockSearchWithDebounce(taggedPrompts)}
+        />
+      );
+
+      await user.click(screen.getByLabelText('Filter by tags'));
+      await user.click(within(await screen.findByRole('menu')).getByText('#python'));
+
+      expect(screen.queryByText('Untagged')).not.toBeInTheDocument();
+      expect(screen.getByText('Python script')).toBeInTheDocument();
+
+      await user.click(within(screen.getByRole('menu')).getByText('#code-review'));
+
+      expect(screen.queryByText('Python script')).not.toBeInTheDocument();
+      expect(screen.getByText('Python review')).toBeInTheDocument();
+    });
+
+    it('includes prompts from subcategories when a parent category is selected', () => {
+      const nestedCategories: Category[] = [
+        ...defaultCategories,
+        { id: 'backend', name: 'Backend', parentId: 'work' }
+      ];
+      const nestedPrompts: Prompt[] = [
+        { ...defaultPrompts[0], id: 'a', title: 'Work prompt' },
+        { ...defaultPrompts[0], id: 'b', title: 'Backend prompt', category: 'Backend' },
+        { ...defaultPrompts[0], id: 'c', title: 'Loose prompt', category: 'Uncategorized' }
+      ];
+
+      render(
+        <LibraryView
+          {...defaultProps}
+          prompts={nestedPrompts}
+          categories={nestedCategories}
+          selectedCategory="Work"
+          searchWithDebounce={createMockSearchWithDebounce(nestedPrompts)}
+        />
+      );
+
+      expect(screen.getByText('Work prompt')).toBeInTheDocument();
+      expect(screen.getByText('Backend prompt')).toBeInTheDocument();
+      expect(screen.queryByText('Loose prompt')).not.toBeInTheDocument();
+    });
+
+    it('passes the pin toggle through to prompt cards', async () => {
+      const user = userEvent.setup();
+      const onTogglePin = vi.fn();
+      render(<LibraryView {...defaultProps} onTogglePin={onTogglePin} />);
+
+      await user.click(screen.getByRole('button', { name: 'Pin Test Prompt to the top' }));
+
+      expect(onTogglePin).toHaveBeenCalledWith(defaultPrompts[0]);
+    });
+  });
+
+  describe('Bulk selection', () => {
+    const bulkPrompts: Prompt[] = [
+      { ...defaultPrompts[0], id: 'a', title: 'Alpha' },
+      { ...defaultPrompts[0], id: 'b', title: 'Beta' },
+      { ...defaultPrompts[0], id: 'c', title: 'Gamma' },
+      { ...defaultPrompts[0], id: 'd', title: 'Delta' }
+    ];
+
+    const renderWithBulkActions = (overrides: Partial<Parameters<typeof LibraryView>[0]> = {}) => {
+      const bulkProps = {
+        onBulkMove: vi.fn().mockResolvedValue(undefined),
+        onBulkEditTags: vi.fn().mockResolvedValue(undefined),
+        onBulkDelete: vi.fn().mockResolvedValue(undefined)
+      };
+      render(
+        <LibraryView
+          {...defaultProps}
+          prompts={bulkPrompts}
+          searchWithDebounce={createMockSearchWithDebounce(bulkPrompts)}
+          {...bulkProps}
+          {...overrides}
+        />
+      );
+      return bulkProps;
+    };
+
+    it('does not offer selection without bulk handlers', () => {
+      render(<LibraryView {...defaultProps} />);
+      expect(screen.queryByRole('button', { name: 'Select' })).not.toBeInTheDocument();
+    });
+
+    it('selects a range of prompts with shift-click', async () => {
+      const user = userEvent.setup();
+      renderWithBulkActions();
+
+      await user.click(screen.getByRole('button', { name: 'Select' }));
+      expect(screen.queryByRole('button', { name: /add new prompt/i })).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('checkbox', { name: 'Select Beta' }));
+      await user.keyboard('{Shift>}');
+      await user.click(screen.getByRole('checkbox', { name: 'Select Delta' }));
+      await user.keyboard('{/Shift}');
+
+      expect(screen.getByText('3 selected')).toBeInTheDocument();
+      expect(screen.getByRole('checkbox', { name: 'Select Alpha' })).not.toBeChecked();
+      expect(screen.getByRole('checkbox', { name: 'Select Gamma' })).toBeChecked();
+    });
+
+    it('deletes the selected prompts after a single confirmation', async () => {
+      const user = userEvent.setup();
+      const { onBulkDelete } = renderWithBulkActions();
+
+      await user.click(screen.getByRole('button', { name: 'Select' }));
+      await user.click(screen.getByRole('checkbox', { name: 'Select Alpha' }));
+      await user.click(screen.getByRole('checkbox', { name: 'Select Gamma' }));
+      await user.click(within(screen.getByRole('region', { name: 'Bulk actions' })).getByRole('button', { name: 'Delete' }));
+
+      const dialog = screen.getByRole('dialog');
+      expect(within(dialog).getByText('Delete 2 prompts?')).toBeInTheDocument();
+      await user.click(within(dialog).getByRole('button', { name: 'Delete' }));
+
+      expect(onBulkDelete).toHaveBeenCalledTimes(1);
+      expect(onBulkDelete).toHaveBeenCalledWith(['a', 'c']);
+    });
+
+    it('adds tags to the selected prompts', async () => {
+      const user = userEvent.setup();
+      const { onBulkEditTags } = renderWithBulkActions();
+
+      await user.click(screen.getByRole('button', { name: 'Select' }));
+      await user.click(screen.getByRole('button', { name: 'Select all (4)' }));
+      await user.click(screen.getByRole('button', { name: 'Tags…' }));
+      await user.type(screen.getByLabelText('Tags to add or remove'), 'Review, draft');
+      await user.click(screen.getByRole('button', { name: 'Add' }));
+
+      expect(onBulkEditTags).toHaveBeenCalledWith(['a', 'b', 'c', 'd'], { add: ['review', 'draft'] });
+    });
   });
 
   describe('Floating add button', () => {
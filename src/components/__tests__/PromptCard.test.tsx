@@ -98,6 +98,95 @@ describe('PromptCard - Basic Rendering', () => {
   });
 });
 
+describe('PromptCard - Pin Button', () => {
+  const mockPrompt: Prompt = {
+    id: '1',
+    title: 'Test Prompt',
+    content: 'Test content',
+    category: 'Test Category',
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+
+  const mockProps = {
+    prompt: mockPrompt,
+    categories: [{ id: '1', name: 'Test Category', color: '#FF0000' }],
+    onEdit: vi.fn(),
+    onDelete: vi.fn(),
+    onCopy: vi.fn(),
+    showToast: vi.fn<(message: string, type: 'success' | 'error' | 'info' | 'warning') => void>(),
+    searchQuery: ''
+  };
+
+  it('should not render pin button without a toggle handler', () => {
+    render(<PromptCard {...mockProps} />);
+    expect(screen.queryByRole('button', { name: /pin/i })).not.toBeInTheDocument();
+  });
+
+  it('should call onTogglePin with the prompt when clicked', async () => {
+    const user = userEvent.setup();
+    const onTogglePin = vi.fn();
+    render(<PromptCard {...mockProps} onTogglePin={onTogglePin} />);
+
+    const pinButton = screen.getByRole('button', { name: 'Pin Test Prompt to the top' });
+    expect(pinButton).toHaveAttribute('aria-pressed', 'false');
+
+    await user.click(pinButton);
+    expect(onTogglePin).toHaveBeenCalledWith(mockPrompt);
+  });
+
+  it('should show pressed state for pinned prompts', () => {
+    render(<PromptCard {...mockProps} prompt={{ ...mockPrompt, pinned: true }} onTogglePin={vi.fn()} />);
+    expect(screen.getByRole('button', { name: 'Unpin Test Prompt' })).toHaveAttribute('aria-pressed', 'true');
+  });
+});
+
+describe('PromptCard - Selection', () => {
+  const mockPrompt: Prompt = {
+    id: '1',
+    title: 'Test Prompt',
+    content: 'Test content',
+    category: 'Test Category',
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+
+  const mockProps = {
+    prompt: mockPrompt,
+    categories: [{ id: '1', name: 'Test Category', color: '#FF0000' }],
+    onEdit: vi.fn(),
+    onDelete: vi.fn(),
+    onCopy: vi.fn(),
+    showToast: vi.fn<(message: string, type: 'success' | 'error' | 'info' | 'warning') => void>(),
+    searchQuery: ''
+  };
+
+  it('should replace the card actions with a checkbox in selection mode', async () => {
+    const user = userEvent.setup();
+    const onToggleSelect = vi.fn();
+    render(<PromptCard {...mockProps} onToggleSelect={onToggleSelect} />);
+
+    expect(screen.queryByRole('button', { name: /copy/i })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('checkbox', { name: 'Select Test Prompt' }));
+    expect(onToggleSelect).toHaveBeenCalledWith(mockPrompt, false);
+  });
+
+  it('should report shift-clicks so a range can be selected', async () => {
+    const user = userEvent.setup();
+    const onToggleSelect = vi.fn();
+    render(<PromptCard {...mockProps} isSelected onToggleSelect={onToggleSelect} />);
+
+    const checkbox = screen.getByRole('checkbox', { name: 'Select Test Prompt' });
+    expect(checkbox).toBeChecked();
+
+    await user.keyboard('{Shift>}');
+    await user.click(checkbox);
+    await user.keyboard('{/Shift}');
+    expect(onToggleSelect).toHaveBeenCalledWith(mockPrompt, true);
+  });
+});
+
 describe('PromptCard - Share Button', () => {
   const mockPrompt: Prompt = {
     id: '1',
@@ -301,4 +390,80 @@ describe('PromptCard - Share Button', () => {
       expect(mockShowToast).toHaveBeenCalledWith('Share link copied to clipboard!', 'success');
     });
   });
-});
\ No newline at end of file
+});
+describe('PromptCard - Template Variables', () => {
+  const variablePrompt: Prompt = {
+    id: 'vars-1',
+    title: 'Greeting',
+    content: 'Hello {{name}}, reply in {{tone:choice(Formal|Casual)}} tone',
+    category: 'Test Category',
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+
+  const getMockProps = () => ({
+    prompt: variablePrompt,
+    categories: [{ id: '1', name: 'Test Category' }],
+    onEdit: vi.fn(),
+    onDelete: vi.fn(),
+    onCopy: vi.fn(),
+    showToast: vi.fn<(message: string, type: 'success' | 'error' | 'info' | 'warning') => void>(),
+    searchQuery: ''
+  });
+
+  it('should copy content directly when the prompt has no variables', async () => {
+    const user = userEvent.setup();
+    const props = { ...getMockProps(), prompt: { ...variablePrompt, content: 'No variables here' } };
+    render(<PromptCard {...props} />);
+
+    await user.click(screen.getByRole('button', { name: /copy content of/i }));
+
+    expect(props.onCopy).toHaveBeenCalledWith('No variables here');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('should ask for variable values before copying', async () => {
+    const user = userEvent.setup();
+    const props = getMockProps();
+    render(<PromptCard {...props} />);
+
+    await user.click(screen.getByRole('button', { name: /copy content of/i }));
+
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    expect(props.onCopy).not.toHaveBeenCalled();
+
+    await user.type(screen.getByLabelText('Name'), 'Ada');
+    await user.selectOptions(screen.getByLabelText('Tone'), 'Casual');
+    await user.click(screen.getByRole('button', { name: 'Copy' }));
+
+    expect(props.onCopy).toHaveBeenCalledWith('Hello Ada, reply in Casual tone');
+    await waitFor(() => {
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should fill in the date and keep page-only built-ins as placeholders when copying', async () => {
+    const user = userEvent.setup();
+    const props = { ...getMockProps(), prompt: { ...variablePrompt, content: 'Notes of {{date}}: {{clipboard}}' } };
+    render(<PromptCard {...props} />);
+
+    await user.click(screen.getByRole('button', { name: /copy content of/i }));
+
+    expect(screen.getByRole('dialog')).toHaveTextContent('the copy keeps them as placeholders: {{clipboard}}');
+    await user.click(screen.getByRole('button', { name: 'Copy' }));
+
+    expect(props.onCopy).toHaveBeenCalledWith(`Notes of ${new Date().toLocaleDateString()}: {{clipboard}}`);
+  });
+
+  it('should close the variable dialog on cancel without copying', async () => {
+    const user = userEvent.setup();
+    const props = getMockProps();
+    render(<PromptCard {...props} />);
+
+    await user.click(screen.getByRole('button', { name: /copy content of/i }));
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(props.onCopy).not.toHaveBeenCalled();
+  });
+});
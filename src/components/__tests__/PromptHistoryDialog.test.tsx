@@ -0,0 +1,115 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+import { buildCategory, buildPrompt } from '../../test/builders';
+import { DEFAULT_CATEGORY, type PromptRevision } from '../../types';
+import PromptHistoryDialog from '../PromptHistoryDialog';
+
+describe('PromptHistoryDialog', () => {
+  const prompt = buildPrompt({
+    id: 'p1',
+    title: 'Current title',
+    content: 'line one\nline two updated',
+    category: 'Work'
+  });
+  const categories = [buildCategory({ name: DEFAULT_CATEGORY }), buildCategory({ name: 'Work' })];
+
+  const revisions: PromptRevision[] = [
+    { id: 'rev-2', timestamp: 2000, title: 'Older title', content: 'line one\nline two', category: 'Work' },
+    { id: 'rev-1', timestamp: 1000, title: 'Oldest title', content: 'line one', category: 'Deleted category' }
+  ];
+
+  const renderDialog = () => {
+    const onRestore = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <PromptHistoryDialog
+        isOpen
+        prompt={prompt}
+        categories={categories}
+        onRestore={onRestore}
+        onClose={onClose}
+      />
+    );
+    return { onRestore, onClose };
+  };
+
+  beforeEach(async () => {
+    await chrome.storage.local.set({ promptRevisions: { p1: revisions } });
+  });
+
+  it('should show an empty state when there are no revisions', async () => {
+    await chrome.storage.local.set({ promptRevisions: {} });
+    renderDialog();
+
+    await waitFor(() => {
+      expect(screen.getByText(/No earlier versions yet/)).toBeInTheDocument();
+    });
+  });
+
+  it('should diff the latest revision against the current version by default', async () => {
+    renderDialog();
+
+    const diff = await screen.findByTestId('history-diff');
+    const removed = diff.querySelectorAll('[data-diff-type="removed"]');
+    const added = diff.querySelectorAll('[data-diff-type="added"]');
+
+    expect(removed).toHaveLength(1);
+    expect(removed[0]).toHaveTextContent('line two');
+    expect(added).toHaveLength(1);
+    expect(added[0]).toHaveTextContent('line two updated');
+    expect(screen.getByText(/Title:/)).toBeInTheDocument();
+  });
+
+  it('should compare any two versions', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    await screen.findByTestId('history-diff');
+    await user.selectOptions(screen.getByLabelText('Compare from version'), 'rev-1');
+    await user.selectOptions(screen.getByLabelText('Compare to version'), 'rev-2');
+
+    const diff = screen.getByTestId('history-diff');
+    expect(diff.querySelectorAll('[data-diff-type="removed"]')).toHaveLength(0);
+    expect(diff.querySelector('[data-diff-type="added"]')).toHaveTextContent('line two');
+  });
+
+  it('should restore a revision', async () => {
+    const user = userEvent.setup();
+    const { onRestore } = renderDialog();
+
+    const restoreButtons = await screen.findAllByRole('button', { name: /Restore version from/ });
+    await user.click(restoreButtons[0]);
+
+    expect(onRestore).toHaveBeenCalledWith({
+      title: 'Older title',
+      content: 'line one\nline two',
+      category: 'Work'
+    });
+  });
+
+  it('should keep the current category when restoring a revision whose category no longer exists', async () => {
+    const user = userEvent.setup();
+    const { onRestore } = renderDialog();
+
+    const restoreButtons = await screen.findAllByRole('button', { name: /Restore version from/ });
+    await user.click(restoreButtons[1]);
+
+    expect(onRestore).toHaveBeenCalledWith({
+      title: 'Oldest title',
+      content: 'line one',
+      category: 'Work'
+    });
+  });
+
+  it('should close on Escape', async () => {
+    const user = userEvent.setup();
+    const { onClose } = renderDialog();
+
+    await screen.findByTestId('history-diff');
+    await user.keyboard('{Escape}');
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
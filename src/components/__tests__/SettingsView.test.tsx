@@ -1,10 +1,12 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 
 import { ThemeProvider } from '../../contexts/ThemeContext';
+import { BackupSnapshotManager } from '../../services/backupSnapshots';
+import { SyncEngine } from '../../services/syncEngine';
 import { getChromeMockFunctions, getMockStorageManager } from '../../test/mocks';
-import { DEFAULT_SETTINGS, type Prompt, type Category } from '../../types';
+import { DEFAULT_SETTINGS, type Prompt, type Category, type BackupSnapshotDiff, type SyncStatus } from '../../types';
 import SettingsView from '../SettingsView';
 
 const createJsonFile = (contents: string): File => {
@@ -101,15 +103,174 @@ describe('SettingsView', () => {
 
     await userEvent.upload(fileInput as HTMLInputElement, file);
 
+    const dialog = await screen.findByRole('dialog', { name: /merge import/i });
+    expect(screen.getByTestId('import-merge-summary')).toHaveTextContent('1 new, 0 identical, 0 conflicting');
+    expect(storageMock.mergeImportData).not.toHaveBeenCalled();
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Import' }));
+
     await waitFor(() => {
-      expect(storageMock.importCategory).toHaveBeenCalledWith(categories[0]);
-      expect(storageMock.importPrompt).toHaveBeenCalledWith(prompts[0]);
+      expect(storageMock.mergeImportData).toHaveBeenCalledWith({
+        categories,
+        added: prompts,
+        replaced: []
+      });
     });
 
-    expect(showToastMock).toHaveBeenCalledWith(expect.stringMatching(/successfully imported/i), 'success');
+    expect(showToastMock).toHaveBeenCalledWith(expect.stringMatching(/imported 1 new/i), 'success');
     expect((chromeMock.storage.local.get as Mock).mock.calls.length).toBeGreaterThanOrEqual(2);
   });
 
+  it('replaces a conflicting prompt only when "take theirs" is chosen', async () => {
+    const storageMock = getMockStorageManager();
+    const existing: Prompt = { id: 'p1', title: 'Greeting', content: 'Hello', category: 'Uncategorized', createdAt: 1, updatedAt: 1 };
+    await storageMock.importPrompt(existing);
+    storageMock.getPrompts.mockImplementation(() => Promise.resolve([existing]));
+
+    await renderSettings();
+    const fileInput = document.querySelector<HTMLInputElement>('input[type="file"]');
+    const incoming = [
+      { ...existing, content: 'Hello there' },
+      { ...existing, id: 'p2', title: 'Farewell', content: 'Goodbye' }
+    ];
+    await userEvent.upload(fileInput as HTMLInputElement, createJsonFile(JSON.stringify({ prompts: incoming })));
+
+    const dialog = await screen.findByRole('dialog', { name: /merge import/i });
+    expect(screen.getByTestId('import-merge-summary')).toHaveTextContent('1 new, 0 identical, 1 conflicting');
+
+    await userEvent.click(within(dialog).getByRole('radio', { name: 'Take theirs' }));
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => {
+      expect(storageMock.mergeImportData).toHaveBeenCalledWith({
+        categories: [],
+        added: [incoming[1]],
+        replaced: [{ existingId: 'p1', prompt: incoming[0] }]
+      });
+    });
+    await waitFor(() => {
+      expect(screen.queryByRole('dialog', { name: /merge import/i })).not.toBeInTheDocument();
+    });
+  });
+
+  it('imports a CSV file after mapping its columns', async () => {
+    const storageMock = getMockStorageManager();
+
+    await renderSettings();
+    const fileInput = document.querySelector<HTMLInputElement>('input[type="file"]');
+    const csv = 'Name,Prompt text,Group\nGreeting,"Say hello, politely",Social\n';
+    const file = new File([csv], 'prompts.csv', { type: 'text/csv' });
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve(csv), configurable: true });
+    await userEvent.upload(fileInput as HTMLInputElement, file);
+
+    const mappingDialog = await screen.findByRole('dialog', { name: /map csv columns/i });
+    expect(within(mappingDialog).getByLabelText('Title')).toHaveValue('0');
+    expect(within(mappingDialog).getByLabelText('Category')).toHaveValue('2');
+    await userEvent.selectOptions(within(mappingDialog).getByLabelText('Content'), 'Prompt text');
+    await userEvent.click(within(mappingDialog).getByRole('button', { name: 'Continue' }));
+
+    const dialog = await screen.findByRole('dialog', { name: /merge import/i });
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => {
+      expect(storageMock.mergeImportData).toHaveBeenCalledWith(expect.objectContaining({
+        categories: [expect.objectContaining({ name: 'Social' })],
+        added: [expect.objectContaining({ title: 'Greeting', content: 'Say hello, politely', category: 'Social' })]
+      }));
+    });
+  });
+
+  it('imports a JSON prompt list from another tool with unknown fields kept as notes', async () => {
+    const storageMock = getMockStorageManager();
+
+    await renderSettings();
+    const fileInput = document.querySelector<HTMLInputElement>('input[type="file"]');
+    const list = [{ name: 'Greeting', prompt: 'Say hello', model: 'gpt-4' }];
+    await userEvent.upload(fileInput as HTMLInputElement, createJsonFile(JSON.stringify(list)));
+
+    const dialog = await screen.findByRole('dialog', { name: /merge import/i });
+    expect(within(dialog).getByTestId('import-merge-source')).toHaveTextContent('Detected format: JSON prompt list');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => {
+      expect(storageMock.mergeImportData).toHaveBeenCalledWith(expect.objectContaining({
+        added: [expect.objectContaining({ title: 'Greeting', content: 'Say hello', notes: 'model: gpt-4' })]
+      }));
+    });
+  });
+
+  it('writes nothing when the import preview is cancelled', async () => {
+    const storageMock = getMockStorageManager();
+
+    await renderSettings();
+    const fileInput = document.querySelector<HTMLInputElement>('input[type="file"]');
+    const prompts = [{ id: 'p1', title: 'Greeting', content: 'Hello', category: 'Uncategorized', createdAt: 1, updatedAt: 1 }];
+    await userEvent.upload(fileInput as HTMLInputElement, createJsonFile(JSON.stringify({ prompts })));
+
+    const dialog = await screen.findByRole('dialog', { name: /merge import/i });
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+
+    expect(screen.queryByRole('dialog', { name: /merge import/i })).not.toBeInTheDocument();
+    expect(storageMock.mergeImportData).not.toHaveBeenCalled();
+  });
+
+  it('previews and restores a backup snapshot', async () => {
+    const snapshot = { id: 's1', createdAt: Date.UTC(2025, 0, 1), reason: 'scheduled' as const, promptCount: 3, categoryCount: 2, size: 512 };
+    const diff: BackupSnapshotDiff = {
+      added: [{ id: 'p1', title: 'Deleted yesterday', content: 'x', category: 'Work', createdAt: 1, updatedAt: 1 }],
+      removed: [],
+      changed: [],
+      categoriesAdded: [],
+      categoriesRemoved: []
+    };
+    vi.spyOn(BackupSnapshotManager.prototype, 'listSnapshots').mockResolvedValue([snapshot]);
+    vi.spyOn(BackupSnapshotManager.prototype, 'compareWithCurrent').mockResolvedValue(diff);
+    const restoreSpy = vi.spyOn(BackupSnapshotManager.prototype, 'restoreSnapshot').mockResolvedValue();
+
+    const { showToastMock } = await renderSettings();
+    const list = await screen.findByRole('list', { name: 'Backup snapshots' });
+    expect(within(list).getByText('3 prompts, 2 categories')).toBeInTheDocument();
+
+    await userEvent.click(within(list).getByRole('button', { name: /preview snapshot/i }));
+    const preview = await screen.findByTestId('backup-snapshot-diff');
+    expect(within(preview).getByText('Deleted yesterday')).toBeInTheDocument();
+    await userEvent.click(within(preview).getByRole('button', { name: 'Restore' }));
+
+    await waitFor(() => {
+      expect(restoreSpy).toHaveBeenCalledWith('s1');
+      expect(showToastMock).toHaveBeenCalledWith('Backup snapshot restored.', 'success');
+    });
+  });
+
+  it('turns on sync and shows conflicts and prompts that did not fit', async () => {
+    const status: SyncStatus = {
+      enabled: true,
+      lastSyncAt: Date.UTC(2025, 0, 1),
+      syncedCount: 12,
+      conflicts: [{ promptId: 'p1', title: 'Weekly report', fields: ['title', 'content'], resolvedAt: 1 }],
+      skipped: [{ promptId: 'p2', title: 'Style guide', reason: 'too-large' }]
+    };
+    const setEnabledSpy = vi.spyOn(SyncEngine.prototype, 'setEnabled').mockResolvedValue(status);
+    const storageMock = getMockStorageManager();
+
+    await renderSettings();
+    const toggle = await screen.findByRole('switch', { name: 'Sync prompts across devices' });
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+    storageMock.getPrompts.mockClear();
+
+    await userEvent.click(toggle);
+
+    const panel = await screen.findByTestId('sync-status');
+    expect(setEnabledSpy).toHaveBeenCalledWith(true);
+    expect(within(panel).getByText(/\(12 prompts\)/)).toBeInTheDocument();
+    expect(within(panel).getByRole('list', { name: 'Sync conflicts' })).toHaveTextContent('Weekly report: title, content');
+    expect(within(panel).getByRole('list', { name: 'Prompts not synced' })).toHaveTextContent('Style guide (too large to sync)');
+    // Prompts received from other devices are reloaded
+    await waitFor(() => {
+      expect(storageMock.getPrompts).toHaveBeenCalled();
+    });
+  });
+
   it('alerts when import JSON is invalid', async () => {
     const storageMock = getMockStorageManager();
     const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
@@ -128,7 +289,7 @@ describe('SettingsView', () => {
     await waitFor(() => {
       expect(alertSpy).toHaveBeenCalledWith(expect.stringMatching(/invalid json/i));
     });
-    expect(storageMock.importPrompt).not.toHaveBeenCalled();
+    expect(storageMock.mergeImportData).not.toHaveBeenCalled();
     alertSpy.mockRestore();
   });
 
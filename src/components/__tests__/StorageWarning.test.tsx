@@ -26,7 +26,9 @@ describe('StorageWarning', () => {
     used: percentage * 52428.8, // percentage of 5MB
     total: 5242880, // 5MB
     percentage,
-    warningLevel
+    warningLevel,
+    revisionsUsed: 0,
+    layout: 'chrome-local' as const
   });
 
   describe('warning levels', () => {
@@ -123,7 +125,9 @@ describe('StorageWarning', () => {
         used: 1024,
         total: 5242880,
         percentage: 0.02,
-        warningLevel: 'safe'
+        warningLevel: 'safe',
+        revisionsUsed: 0,
+        layout: 'chrome-local' as const
       });
 
       render(<StorageWarning onClose={mockOnClose} />);
@@ -138,7 +142,9 @@ describe('StorageWarning', () => {
         used: 2097152, // 2MB
         total: 5242880, // 5MB
         percentage: 40,
-        warningLevel: 'safe'
+        warningLevel: 'safe',
+        revisionsUsed: 0,
+        layout: 'chrome-local' as const
       });
 
       render(<StorageWarning onClose={mockOnClose} />);
@@ -154,7 +160,9 @@ describe('StorageWarning', () => {
         used: 1073741824, // 1GB
         total: 2147483648, // 2GB
         percentage: 50,
-        warningLevel: 'safe'
+        warningLevel: 'safe',
+        revisionsUsed: 0,
+        layout: 'chrome-local' as const
       });
 
       render(<StorageWarning onClose={mockOnClose} />);
@@ -170,7 +178,9 @@ describe('StorageWarning', () => {
         used: 0,
         total: 5242880,
         percentage: 0,
-        warningLevel: 'safe'
+        warningLevel: 'safe',
+        revisionsUsed: 0,
+        layout: 'chrome-local' as const
       });
 
       render(<StorageWarning onClose={mockOnClose} />);
@@ -181,6 +191,35 @@ describe('StorageWarning', () => {
     });
   });
 
+  describe('version history usage', () => {
+    it('should show bytes used by version history', async () => {
+      vi.mocked(mockStorageManager.getStorageUsageWithWarnings).mockResolvedValue({
+        ...createStorageInfo(80, 'warning'),
+        revisionsUsed: 2048,
+        layout: 'chrome-local' as const
+      });
+
+      render(<StorageWarning onClose={mockOnClose} />);
+
+      await waitFor(() => {
+        expect(screen.getByText(/Version history: 2 KB/)).toBeInTheDocument();
+      });
+    });
+
+    it('should hide version history usage when there is none', async () => {
+      vi.mocked(mockStorageManager.getStorageUsageWithWarnings).mockResolvedValue(
+        createStorageInfo(80, 'warning')
+      );
+
+      render(<StorageWarning onClose={mockOnClose} />);
+
+      await waitFor(() => {
+        expect(screen.getByText('80%')).toBeInTheDocument();
+      });
+      expect(screen.queryByText(/Version history/)).not.toBeInTheDocument();
+    });
+  });
+
   describe('Clear All Data button visibility', () => {
     it('should not show Clear All Data button for safe level', async () => {
       vi.mocked(mockStorageManager.getStorageUsageWithWarnings).mockResolvedValue(
@@ -30,6 +30,18 @@ interface AddCustomSiteFormProps {
   };
 }
 
+/**
+ * Check that a CSS selector parses, without matching it against any page
+ */
+const isValidSelector = (selector: string): boolean => {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
   siteConfigs,
   customSites,
@@ -47,7 +59,9 @@ const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
   const [offsetY, setOffsetY] = useState(0);
   const [zIndex, setZIndex] = useState(1000);
   const [positioningDescription, setPositioningDescription] = useState('');
+  const [submitSelector, setSubmitSelector] = useState('');
   const [urlError, setUrlError] = useState('');
+  const [submitSelectorError, setSubmitSelectorError] = useState('');
   const [adding, setAdding] = useState(false);
 
   const { requestPermissionForOrigin } = useSitePermissions();
@@ -110,6 +124,12 @@ const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
       return;
     }
 
+    const trimmedSubmitSelector = submitSelector.trim();
+    if (trimmedSubmitSelector && !isValidSelector(trimmedSubmitSelector)) {
+      setSubmitSelectorError('Please enter a valid CSS selector');
+      return;
+    }
+
     try {
       const url = new URL(newSiteUrl.startsWith('http') ? newSiteUrl : `https://${newSiteUrl}`);
       const hostname = url.hostname;
@@ -135,6 +155,7 @@ const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
         hostname,
         displayName: newSiteName.trim() || hostname,
         enabled: true,
+        ...(trimmedSubmitSelector && { submitSelector: trimmedSubmitSelector }),
         ...(customSelector && {
           positioning: {
             mode: 'custom' as const,
@@ -187,6 +208,7 @@ const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
     offsetY,
     zIndex,
     positioningDescription,
+    submitSelector,
     onAddCustomSite,
     onCancel,
     requestPermissionForOrigin,
@@ -300,6 +322,27 @@ const AddCustomSiteForm: FC<AddCustomSiteFormProps> = ({
                 className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               />
             </div>
+
+            <div>
+              <label
+                htmlFor="submit-selector"
+                className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1.5"
+              >
+                Send Button Selector
+              </label>
+              <input
+                id="submit-selector"
+                type="text"
+                value={submitSelector}
+                onChange={(e) => {
+                  setSubmitSelector(e.target.value);
+                  setSubmitSelectorError('');
+                }}
+                placeholder="e.g., button[type=&quot;submit&quot;] (optional, for auto-send)"
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono"
+              />
+              {submitSelectorError && <p className="mt-1.5 text-xs text-red-600 dark:text-red-400">{submitSelectorError}</p>}
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,46 @@
+import type { FC } from 'react';
+
+import type { SlashCommandSite } from './SlashCommandSettings';
+import ToggleSwitch from './ToggleSwitch';
+
+interface AutoSendSettingsProps {
+  sites: SlashCommandSite[];
+  enabledSites: string[];
+  onSiteToggle: (hostname: string, enabled: boolean) => void;
+  saving?: boolean;
+}
+
+const AutoSendSettings: FC<AutoSendSettingsProps> = ({
+  sites,
+  enabledSites,
+  onSiteToggle,
+  saving = false,
+}) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+    <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">Auto-Send</h3>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+      Send a prompt as soon as it is inserted. If the send button cannot be found, the prompt stays in the input and a notice is shown.
+    </p>
+
+    {sites.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">Enable a site above to send prompts automatically on it.</p>
+    ) : (
+      <ul className="space-y-2">
+        {sites.map(site => (
+          <li key={site.hostname} className="flex items-center justify-between">
+            <span className="text-sm text-gray-700 dark:text-gray-300">{site.name}</span>
+            <ToggleSwitch
+              checked={enabledSites.includes(site.hostname)}
+              onChange={(checked) => { onSiteToggle(site.hostname, checked); }}
+              disabled={saving}
+              ariaLabel={`Auto-send on ${site.name}`}
+              size="small"
+            />
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default AutoSendSettings;
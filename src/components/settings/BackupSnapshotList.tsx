@@ -0,0 +1,179 @@
+import { type FC, useCallback, useEffect, useState } from 'react';
+
+import { BackupSnapshotManager } from '../../services/backupSnapshots';
+import type { BackupSnapshotDiff, BackupSnapshotInfo } from '../../types';
+import { Logger, toError } from '../../utils';
+
+interface BackupSnapshotListProps {
+  /** Called after a snapshot replaced the library, to reload it */
+  onRestored: () => Promise<void>;
+}
+
+// Titles listed per group in the preview; the rest is summarized as a count
+const PREVIEW_TITLES = 5;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const DiffGroup: FC<{ label: string; names: string[] }> = ({ label, names }) => {
+  if (names.length === 0) {
+    return null;
+  }
+  const hidden = names.length - PREVIEW_TITLES;
+  return (
+    <div>
+      <p className="font-semibold text-gray-900 dark:text-gray-100">{label} ({names.length})</p>
+      <ul className="space-y-0.5">
+        {names.slice(0, PREVIEW_TITLES).map((name, index) => (
+          <li key={`${String(index)}-${name}`} className="truncate">{name}</li>
+        ))}
+        {hidden > 0 && <li>and {hidden} more</li>}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * Automatic backup snapshots: lists them and restores one after previewing
+ * what it would change in the current library.
+ */
+const BackupSnapshotList: FC<BackupSnapshotListProps> = ({ onRestored }) => {
+  const [snapshots, setSnapshots] = useState<BackupSnapshotInfo[] | null>(null);
+  const [selected, setSelected] = useState<{ id: string; diff: BackupSnapshotDiff } | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await BackupSnapshotManager.getInstance().listSnapshots());
+    } catch (err) {
+      Logger.error('Failed to load backup snapshots', toError(err));
+      setError('Backup snapshots are not available.');
+      setSnapshots([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSnapshots();
+  }, [loadSnapshots]);
+
+  const handlePreview = async (id: string) => {
+    setError(null);
+    try {
+      const diff = await BackupSnapshotManager.getInstance().compareWithCurrent(id);
+      setSelected({ id, diff });
+    } catch (err) {
+      Logger.error('Failed to compare backup snapshot', toError(err));
+      setError(toError(err).message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) {return;}
+
+    setRestoring(true);
+    setError(null);
+    try {
+      await BackupSnapshotManager.getInstance().restoreSnapshot(selected.id);
+      setSelected(null);
+      await onRestored();
+      await loadSnapshots();
+    } catch (err) {
+      Logger.error('Failed to restore backup snapshot', toError(err));
+      setError(toError(err).message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const diff = selected?.diff;
+  const unchanged = diff !== undefined &&
+    diff.added.length + diff.removed.length + diff.changed.length +
+    diff.categoriesAdded.length + diff.categoriesRemoved.length === 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">
+        Automatic Backups
+      </h3>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        A snapshot of your library is saved every few hours when it has changed. Snapshots are kept separately and do not use your storage quota.
+      </p>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+
+      {snapshots !== null && snapshots.length === 0 && !error && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No snapshots yet.</p>
+      )}
+
+      {snapshots !== null && snapshots.length > 0 && (
+        <ul className="space-y-2" aria-label="Backup snapshots">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="text-xs text-gray-700 dark:text-gray-300">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {formatDate(snapshot.createdAt)}
+                    {snapshot.reason === 'before-restore' && (
+                      <span className="ml-1 text-gray-500 dark:text-gray-400">(before restore)</span>
+                    )}
+                  </p>
+                  <p className="text-gray-500 dark:text-gray-400">
+                    {snapshot.promptCount} prompts, {snapshot.categoryCount} categories
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => { void handlePreview(snapshot.id); }}
+                  disabled={restoring}
+                  aria-label={`Preview snapshot from ${formatDate(snapshot.createdAt)}`}
+                  className="shrink-0 px-2 py-1 text-xs font-semibold text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 focus-interactive rounded-sm disabled:opacity-50"
+                >
+                  Preview
+                </button>
+              </div>
+
+              {selected?.id === snapshot.id && diff && (
+                <div className="mt-2 p-3 space-y-2 bg-purple-50 dark:bg-gray-700/50 rounded-lg" data-testid="backup-snapshot-diff">
+                  {unchanged ? (
+                    <p>This snapshot matches your current library.</p>
+                  ) : (
+                    <>
+                      <p>Restoring replaces your prompts, categories and settings with this snapshot:</p>
+                      <DiffGroup label="Restored" names={diff.added.map(prompt => prompt.title)} />
+                      <DiffGroup label="Changed back" names={diff.changed.map(prompt => prompt.title)} />
+                      <DiffGroup label="Removed" names={diff.removed.map(prompt => prompt.title)} />
+                      <DiffGroup label="Categories restored" names={diff.categoriesAdded} />
+                      <DiffGroup label="Categories removed" names={diff.categoriesRemoved} />
+                    </>
+                  )}
+                  <div className="flex gap-2 justify-end">
+                    <button
+                      type="button"
+                      onClick={() => { setSelected(null); }}
+                      disabled={restoring}
+                      className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 ring-1 ring-inset ring-gray-300 dark:ring-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 focus-secondary"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { void handleRestore(); }}
+                      disabled={restoring || unchanged}
+                      className="px-3 py-1.5 text-xs font-semibold rounded-lg text-white bg-purple-600 hover:bg-purple-700 focus-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {restoring ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BackupSnapshotList;
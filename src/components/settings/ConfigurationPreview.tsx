@@ -2,7 +2,8 @@ import { useEffect, useRef, useCallback } from 'react';
 import type { FC } from 'react';
 import { createPortal } from 'react-dom';
 
-import type { CustomSiteConfiguration, SecurityWarning } from '../../types';
+import type { CustomSiteConfiguration, SecurityWarning, ShareSignatureStatus } from '../../types';
+import SignatureBadge from '../SignatureBadge';
 
 interface ConfigurationPreviewProps {
   isOpen: boolean;
@@ -10,6 +11,8 @@ interface ConfigurationPreviewProps {
   warnings: SecurityWarning[];
   duplicate: boolean;
   existingDisplayName?: string;
+  /** Who signed the pasted code */
+  signature?: ShareSignatureStatus;
   onClose: () => void;
   onConfirm: () => void;
   isProcessing?: boolean;
@@ -23,6 +26,7 @@ const ConfigurationPreview: FC<ConfigurationPreviewProps> = ({
   warnings,
   duplicate,
   existingDisplayName,
+  signature,
   onClose,
   onConfirm,
   isProcessing = false
@@ -142,6 +146,8 @@ const ConfigurationPreview: FC<ConfigurationPreviewProps> = ({
         {/* Content */}
         <div className="px-6 py-5 space-y-4 max-h-[calc(100vh-16rem)] overflow-y-auto">
 
+          {signature && <SignatureBadge signature={signature} />}
+
           {/* Site Information Card */}
           <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
             <h5 className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide mb-3">Site Information</h5>
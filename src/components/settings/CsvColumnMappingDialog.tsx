@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { createPortal } from 'react-dom';
+
+import { PROMPT_CSV_FIELDS, type CsvColumnMapping, type PromptCsvField } from '../../utils';
+
+export interface CsvColumnMappingDialogProps {
+  /** Parsed rows of the file, header included */
+  rows: string[][];
+  initialMapping: CsvColumnMapping;
+  onConfirm: (mapping: CsvColumnMapping, hasHeader: boolean) => void;
+  onCancel: () => void;
+}
+
+const fieldLabels: Record<PromptCsvField, string> = {
+  id: 'ID',
+  title: 'Title',
+  content: 'Content',
+  category: 'Category',
+  tags: 'Tags',
+  pinned: 'Pinned',
+  createdAt: 'Created',
+  updatedAt: 'Updated'
+};
+
+const PREVIEW_ROWS = 3;
+
+const selectClassName = 'flex-1 min-w-0 px-2 py-1.5 text-xs border border-purple-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus-input';
+
+/**
+ * Second step of a CSV import: choose which column holds which prompt field.
+ * Columns are pre-selected from the header names when they are recognized.
+ */
+const CsvColumnMappingDialog: FC<CsvColumnMappingDialogProps> = ({
+  rows,
+  initialMapping,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(initialMapping);
+  // A recognized header name is a good sign the first row is not a prompt
+  const [hasHeader, setHasHeader] = useState(Object.keys(initialMapping).length > 0);
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [onCancel]);
+
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const columnNames = Array.from({ length: columnCount }, (_, index) => {
+    const header = hasHeader ? rows[0]?.[index]?.trim() : '';
+    return header || `Column ${String(index + 1)}`;
+  });
+  const previewRows = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+  const cell = (row: string[], field: PromptCsvField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : row[index] ?? '';
+  };
+
+  const handleFieldChange = (field: PromptCsvField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="csv-mapping-dialog-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={onCancel}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl p-4 shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col border border-purple-100 dark:border-gray-700">
+        <h3
+          id="csv-mapping-dialog-title"
+          className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100 mb-1"
+        >
+          Map CSV Columns
+        </h3>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+          Choose the column for each field. Only content is required; missing titles are generated from the content.
+        </p>
+
+        <div className="flex-1 min-h-0 overflow-auto custom-scrollbar space-y-3">
+          <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={(e) => { setHasHeader(e.target.checked); }}
+            />
+            First row contains column names
+          </label>
+
+          <div className="grid grid-cols-2 gap-2">
+            {PROMPT_CSV_FIELDS.map(field => (
+              <div key={field} className="flex items-center gap-2">
+                <label htmlFor={`csv-mapping-${field}`} className="w-16 shrink-0 text-xs text-gray-700 dark:text-gray-300">
+                  {fieldLabels[field]}
+                </label>
+                <select
+                  id={`csv-mapping-${field}`}
+                  value={mapping[field] === undefined ? '' : String(mapping[field])}
+                  onChange={(e) => { handleFieldChange(field, e.target.value); }}
+                  className={selectClassName}
+                >
+                  <option value="">Not imported</option>
+                  {columnNames.map((name, index) => (
+                    <option key={`${String(index)}-${name}`} value={String(index)}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {previewRows.length > 0 && (
+            <table className="w-full table-fixed text-xs border-t border-purple-100 dark:border-gray-700" aria-label="Import preview">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 font-medium w-1/3">{fieldLabels.title}</th>
+                  <th className="py-1 font-medium w-1/4">{fieldLabels.category}</th>
+                  <th className="py-1 font-medium">{fieldLabels.content}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 dark:text-gray-300">
+                {previewRows.map((row, index) => (
+                  <tr key={`row-${String(index)}`}>
+                    <td className="py-1 pr-2 truncate">{cell(row, 'title')}</td>
+                    <td className="py-1 pr-2 truncate">{cell(row, 'category')}</td>
+                    <td className="py-1 truncate">{cell(row, 'content')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="mt-4 flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex justify-center rounded-lg bg-white dark:bg-gray-700 px-3 py-2 text-sm font-semibold text-gray-900 dark:text-gray-100 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 focus-secondary"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => { onConfirm(mapping, hasHeader); }}
+            disabled={mapping.content === undefined}
+            className="inline-flex justify-center rounded-lg px-3 py-2 text-sm font-semibold text-white shadow-sm focus-secondary transition-colors bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CsvColumnMappingDialog;
@@ -1,86 +1,253 @@
-import { type FC, useState, useRef, useMemo, useCallback } from 'react';
+import { type FC, useState, useRef, useMemo, useCallback, useEffect } from 'react';
 
-import type { Prompt, Category } from '../../types';
-import type {} from '../../types/file-system-access-api';
-import { Logger, toError, findInvalidImportPrompt, findInvalidImportCategory } from '../../utils';
+import { collectionToImportBundle, decodeCollectionPayload, decodeShareCodes, isCollectionPayload } from '../../services/collectionEncoder';
+import { detectPromptImporter } from '../../services/importers';
+import { PromptManager } from '../../services/promptManager';
+import { StorageManager } from '../../services/storage';
+import type { Prompt, Category, SharedPromptCollection } from '../../types';
+import {
+  Logger,
+  toError,
+  findInvalidImportPrompt,
+  findInvalidImportCategory,
+  createExportData,
+  getExportFilename,
+  saveJsonFile,
+  saveFile,
+  EXPORT_FILE_TYPES,
+  createZip,
+  readZip,
+  createMarkdownFiles,
+  parseMarkdownFiles,
+  createPromptCsv,
+  parseCsv,
+  parseCsvPrompts,
+  guessCsvColumnMapping,
+  type CsvColumnMapping,
+  type ImportBundle
+} from '../../utils';
+import { formatBytes } from '../../utils/storageQuota';
+import { Dropdown, type DropdownItem } from '../Dropdown';
 import { DatabaseIcon, ExportIcon, ImportIcon } from '../icons/SettingsIcons';
 
+import BackupSnapshotList from './BackupSnapshotList';
+import CsvColumnMappingDialog from './CsvColumnMappingDialog';
 import SettingsSection from './SettingsSection';
+import SigningKeysPanel from './SigningKeysPanel';
+import SyncStatusPanel from './SyncStatusPanel';
+import VaultPanel from './VaultPanel';
+
+/**
+ * Parsed JSON of a shared prompt collection file, or null for any other file
+ */
+function parseCollectionFile(text: string): unknown {
+  try {
+    const data = JSON.parse(text) as unknown;
+    return isCollectionPayload(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a file looks like a backup exported from this extension
+ */
+function isBackupFile(text: string): boolean {
+  try {
+    const data = JSON.parse(text) as unknown;
+    return typeof data === 'object' && data !== null && !Array.isArray(data) &&
+      Array.isArray((data as { prompts?: unknown }).prompts) &&
+      !findInvalidImportPrompt((data as { prompts: unknown[] }).prompts);
+  } catch {
+    return false;
+  }
+}
 
 interface DataStorageSectionProps {
   prompts: Prompt[];
   categories: Category[];
-  onImport: (data: { prompts: Prompt[]; categories: Category[] }) => Promise<void>;
+  /** @param source - Name of the detected format for files from other tools */
+  onImport: (data: { prompts: Prompt[]; categories: Category[] }, source?: string) => Promise<void>;
   onClearData: () => Promise<void>;
+  onSnapshotRestored: () => Promise<void>;
+  /** Called after syncing with other devices, which may have changed the library */
+  onSynced: () => Promise<void>;
+  /** Called after prompt encryption is turned on or off */
+  onVaultChanged: () => Promise<void>;
+  /** Called after the encrypted library is locked */
+  onVaultLocked: () => void;
 }
 
 const DataStorageSection: FC<DataStorageSectionProps> = ({
   prompts,
   categories,
   onImport,
-  onClearData
+  onClearData,
+  onSnapshotRestored,
+  onSynced,
+  onVaultChanged,
+  onVaultLocked
 }) => {
   const [importing, setImporting] = useState(false);
   const [clearing, setClearing] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  // Rows of a CSV file waiting for the column mapping step
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [collectionCode, setCollectionCode] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleExport = useCallback(async () => {
-    const data = {
-      version: '1.0',
-      exportDate: new Date().toISOString(),
-      prompts,
-      categories
-    };
-
-    const content = JSON.stringify(data, null, 2);
-    const filename = `prompt-library-backup-${new Date().toISOString().split('T')[0]}.json`;
+    const content = JSON.stringify(createExportData(prompts, categories), null, 2);
+    await saveJsonFile(content, getExportFilename('prompt-library-backup'));
+  }, [prompts, categories]);
 
-    // Use File System Access API if available (modern browsers)
-    if (window.showSaveFilePicker) {
-      try {
-        const handle = await window.showSaveFilePicker({
-          suggestedName: filename,
-          types: [{ description: 'JSON file', accept: { 'application/json': ['.json'] } }]
-        });
-        const writable = await handle.createWritable();
-        await writable.write(content);
-        await writable.close();
-        return;
-      } catch (error) {
-        // User cancelled the dialog - not an error
-        if ((error as Error).name === 'AbortError') {
-          return;
-        }
-        Logger.warn('File System Access API failed, falling back to legacy method', { component: 'DataStorageSection', error: toError(error) });
+  const exportItems = useMemo<DropdownItem[]>(() => [
+    {
+      id: 'json',
+      label: 'JSON backup',
+      onSelect: () => { void handleExport(); }
+    },
+    {
+      id: 'markdown',
+      label: 'Markdown files (.zip)',
+      onSelect: () => {
+        const zip = createZip(createMarkdownFiles(prompts, categories, 'prompt-library'));
+        void saveFile(
+          new Blob([zip as Uint8Array<ArrayBuffer>], { type: EXPORT_FILE_TYPES.zip.mimeType }),
+          getExportFilename('prompt-library-markdown', EXPORT_FILE_TYPES.zip.extension),
+          EXPORT_FILE_TYPES.zip
+        );
+      }
+    },
+    {
+      id: 'csv',
+      label: 'Spreadsheet (.csv)',
+      onSelect: () => {
+        void saveFile(
+          createPromptCsv(prompts),
+          getExportFilename('prompt-library', EXPORT_FILE_TYPES.csv.extension),
+          EXPORT_FILE_TYPES.csv
+        );
       }
     }
-
-    // Fallback to legacy DOM manipulation
-    const blob = new Blob([content], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [prompts, categories]);
+  ], [handleExport, prompts, categories]);
 
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
 
+  const resetFileInput = () => {
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const reportImportError = (error: unknown) => {
+    Logger.error('Import failed', toError(error));
+
+    // Show more specific error messages
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    alert(`Import failed: ${errorMessage}\n\nPlease select a backup exported from this extension, a zip of Markdown files, a CSV file or an export from a supported prompt tool.`);
+  };
+
+  /**
+   * Markdown, CSV and other tools' imports pass the same checks as JSON backups before the merge preview
+   */
+  const importBundle = async (bundle: ImportBundle, source?: string) => {
+    if (bundle.prompts.length === 0) {
+      throw new Error('No prompts found in the selected file.');
+    }
+
+    const promptManager = PromptManager.getInstance();
+    const prompts = bundle.prompts.map(prompt =>
+      prompt.title ? prompt : { ...prompt, title: promptManager.generateTitle(String(prompt.content)) }
+    );
+    await onImport(StorageManager.getInstance().validateImportBundle({ prompts, categories: bundle.categories }), source);
+  };
+
+  const importCollection = async (collection: SharedPromptCollection) => {
+    await importBundle(collectionToImportBundle(collection), `Collection "${collection.name}"`);
+  };
+
+  const handleCollectionCodeImport = async () => {
+    setImporting(true);
+    try {
+      await importCollection(await decodeShareCodes(collectionCode));
+      setCollectionCode('');
+    } catch (error) {
+      Logger.error('Collection import failed', toError(error));
+      alert(`Import failed: ${toError(error).message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleCsvMapped = async (mapping: CsvColumnMapping, hasHeader: boolean) => {
+    if (!csvRows) {return;}
+
+    setCsvRows(null);
+    setImporting(true);
+    try {
+      await importBundle(parseCsvPrompts(csvRows, mapping, { hasHeader }));
+    } catch (error) {
+      reportImportError(error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleCsvCancel = useCallback(() => {
+    setCsvRows(null);
+  }, []);
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) {
       return;
     }
 
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
     setImporting(true);
     try {
+      if (extension === 'csv') {
+        const rows = parseCsv(await file.text());
+        if (rows.length === 0) {
+          throw new Error('The CSV file is empty.');
+        }
+        // Continues in handleCsvMapped once the columns are mapped
+        setCsvRows(rows);
+        resetFileInput();
+        return;
+      }
+
+      if (extension === 'zip') {
+        await importBundle(parseMarkdownFiles(await readZip(await file.arrayBuffer())));
+        resetFileInput();
+        return;
+      }
+
+      if (extension === 'md' || extension === 'markdown') {
+        await importBundle(parseMarkdownFiles([{ path: file.name, content: await file.text() }]));
+        resetFileInput();
+        return;
+      }
+
       const text = await file.text();
+
+      const collection = parseCollectionFile(text);
+      if (collection) {
+        await importCollection(await decodeCollectionPayload(collection));
+        resetFileInput();
+        return;
+      }
+
+      // Exports of other prompt tools; this extension's own backups keep their stricter checks below
+      const detected = isBackupFile(text) ? undefined : detectPromptImporter(file.name, text);
+      if (detected) {
+        await importBundle(detected.importer.parse(detected.input), detected.importer.name);
+        resetFileInput();
+        return;
+      }
       
       // Parse JSON with better error handling
       let data: unknown;
@@ -124,15 +291,9 @@ const DataStorageSection: FC<DataStorageSectionProps> = ({
       });
 
       // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      resetFileInput();
     } catch (error) {
-      Logger.error('Import failed', toError(error));
-
-      // Show more specific error messages
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      alert(`Import failed: ${errorMessage}\n\nPlease ensure you are selecting a valid backup file exported from this extension.`);
+      reportImportError(error);
     } finally {
       setImporting(false);
     }
@@ -155,12 +316,36 @@ const DataStorageSection: FC<DataStorageSectionProps> = ({
     }
   };
 
+  // Once prompt bodies live in IndexedDB, report the browser's own usage estimate
+  const [browserStorage, setBrowserStorage] = useState<{ used: number; total: number } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    const loadUsage = async () => {
+      try {
+        const storageManager = StorageManager.getInstance();
+        if (await storageManager.getStorageLayout() !== 'indexeddb') {return;}
+        const usage = await storageManager.getStorageUsage();
+        if (!cancelled) {
+          setBrowserStorage(usage);
+        }
+      } catch (error) {
+        Logger.warn('Failed to read browser storage usage', {
+          component: 'DataStorageSection',
+          error: toError(error).message
+        });
+      }
+    };
+    void loadUsage();
+    return () => { cancelled = true; };
+  }, [prompts, categories]);
+
   // Calculate storage usage (rough estimate)
-  const storageMax = 5 * 1024 * 1024; // 5MB Chrome storage limit
-  const storageUsed = useMemo(
+  const estimatedUsed = useMemo(
     () => JSON.stringify({ prompts, categories }).length,
     [prompts, categories]
   );
+  const storageMax = browserStorage?.total || 5 * 1024 * 1024; // 5MB Chrome storage limit
+  const storageUsed = browserStorage?.used ?? estimatedUsed;
   const storagePercentage = useMemo(
     () => Math.min((storageUsed / storageMax) * 100, 100),
     [storageUsed, storageMax]
@@ -180,7 +365,9 @@ const DataStorageSection: FC<DataStorageSectionProps> = ({
               Storage Usage
             </h3>
             <span className="text-xs text-gray-500 dark:text-gray-400">
-              {(storageUsed / 1024).toFixed(1)} KB / 5 MB
+              {browserStorage
+                ? `${formatBytes(storageUsed)} / ${formatBytes(storageMax)} (IndexedDB)`
+                : `${(storageUsed / 1024).toFixed(1)} KB / 5 MB`}
             </span>
           </div>
           <div data-testid="storage-bar" role="progressbar" aria-valuenow={storagePercentage} aria-valuemin={0} aria-valuemax={100} aria-label="Storage usage" className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
@@ -201,13 +388,19 @@ const DataStorageSection: FC<DataStorageSectionProps> = ({
             Backup & Restore
           </h3>
           <div className="flex gap-2">
-            <button
-              onClick={() => void handleExport()}
-              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition-all duration-200 focus-primary"
-            >
-              <ExportIcon />
-              <span className="text-sm font-medium">Export</span>
-            </button>
+            <Dropdown
+              trigger={
+                <button
+                  type="button"
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition-all duration-200 focus-primary"
+                >
+                  <ExportIcon />
+                  <span className="text-sm font-medium">Export</span>
+                </button>
+              }
+              items={exportItems}
+              ariaLabel="Export format"
+            />
             
             <button
               onClick={handleImportClick}
@@ -230,16 +423,59 @@ const DataStorageSection: FC<DataStorageSectionProps> = ({
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.zip,.md,.markdown,.csv,.txt"
               onChange={(e) => void handleFileChange(e)}
               className="hidden"
             />
           </div>
           <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            Export your prompts as JSON for backup or sharing
+            Export your prompts as a JSON backup, Markdown files or a spreadsheet. Import accepts the same formats, shared collection files, plus AIPRM exports, ChatGPT custom instructions and JSON prompt lists.
           </p>
         </div>
 
+        {/* Shared collections */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+          <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">
+            Import Shared Collection
+          </h3>
+          <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+            Paste a collection code. If it came in several parts, paste all of them.
+          </p>
+          <textarea
+            value={collectionCode}
+            onChange={(e) => { setCollectionCode(e.target.value); }}
+            placeholder="pmc1..."
+            aria-label="Collection code"
+            rows={3}
+            className="w-full px-3 py-2 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <button
+            type="button"
+            onClick={() => { void handleCollectionCodeImport(); }}
+            disabled={importing || collectionCode.trim().length === 0}
+            className="mt-2 px-3 py-1.5 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-lg focus-secondary transition-colors disabled:opacity-50"
+          >
+            Import collection
+          </button>
+        </div>
+
+        <SigningKeysPanel />
+
+        {csvRows && (
+          <CsvColumnMappingDialog
+            rows={csvRows}
+            initialMapping={guessCsvColumnMapping(csvRows[0])}
+            onConfirm={(mapping, hasHeader) => { void handleCsvMapped(mapping, hasHeader); }}
+            onCancel={handleCsvCancel}
+          />
+        )}
+
+        <SyncStatusPanel onSynced={onSynced} />
+
+        <VaultPanel onChanged={onVaultChanged} onLocked={onVaultLocked} />
+
+        <BackupSnapshotList onRestored={onSnapshotRestored} />
+
         {/* Clear Data */}
         <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
           <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-2">
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import type { FC } from 'react';
+import { createPortal } from 'react-dom';
+
+import type { ImportConflictResolution, ImportPreviewItem } from '../../types';
+
+export interface ImportMergeDialogProps {
+  items: ImportPreviewItem[];
+  /** Name of the format the file was recognized as, when it came from another tool */
+  source?: string;
+  importing?: boolean;
+  onConfirm: (resolutions: Record<string, ImportConflictResolution>) => void;
+  onCancel: () => void;
+}
+
+const resolutionOptions: { value: ImportConflictResolution; label: string }[] = [
+  { value: 'keep-mine', label: 'Keep mine' },
+  { value: 'take-theirs', label: 'Take theirs' },
+  { value: 'keep-both', label: 'Keep both' }
+];
+
+/**
+ * Preview of a merge import: lists new, identical and conflicting prompts and
+ * lets the user choose how each conflict is resolved before anything is written.
+ * Mounted per import, so every conflict starts out as "keep mine".
+ */
+const ImportMergeDialog: FC<ImportMergeDialogProps> = ({
+  items,
+  source,
+  importing = false,
+  onConfirm,
+  onCancel
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, ImportConflictResolution>>({});
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !importing) {
+        onCancel();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => { document.removeEventListener('keydown', handleKeyDown); };
+  }, [importing, onCancel]);
+
+  const newItems = items.filter(item => item.status === 'new');
+  const identicalCount = items.filter(item => item.status === 'identical').length;
+  const conflicts = items.filter(item => item.status === 'conflict');
+
+  const setAll = (resolution: ImportConflictResolution) => {
+    setResolutions(Object.fromEntries(conflicts.map(item => [item.incoming.id, resolution])));
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-3"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="import-merge-dialog-title"
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 transition-opacity"
+        onClick={importing ? undefined : onCancel}
+        aria-hidden="true"
+      />
+
+      {/* Modal panel */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl p-4 shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col border border-purple-100 dark:border-gray-700">
+        <h3
+          id="import-merge-dialog-title"
+          className="text-sm leading-5 font-bold text-gray-900 dark:text-gray-100 mb-1"
+        >
+          Merge Import
+        </h3>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mb-3" data-testid="import-merge-summary">
+          {newItems.length} new, {identicalCount} identical, {conflicts.length} conflicting.
+          {' '}Your other prompts are not changed.
+        </p>
+        {source && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3" data-testid="import-merge-source">
+            Detected format: {source}. Fields without a matching prompt field are kept in each prompt's notes.
+          </p>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-auto custom-scrollbar space-y-3">
+          {newItems.length > 0 && (
+            <section aria-label="New prompts">
+              <h4 className="text-xs font-semibold text-gray-900 dark:text-gray-100 mb-1">New</h4>
+              <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-0.5">
+                {newItems.map(item => (
+                  <li key={item.incoming.id} className="truncate">{item.incoming.title}</li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {conflicts.length > 0 && (
+            <section aria-label="Conflicting prompts">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="text-xs font-semibold text-gray-900 dark:text-gray-100">Conflicts</h4>
+                <div className="flex gap-2 text-xs">
+                  {resolutionOptions.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => { setAll(option.value); }}
+                      className="text-purple-600 dark:text-purple-400 hover:underline focus-interactive"
+                      disabled={importing}
+                    >
+                      {option.label} (all)
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ul className="divide-y divide-purple-100 dark:divide-gray-700 border-t border-purple-100 dark:border-gray-700">
+                {conflicts.map(({ incoming, existing }) => {
+                  const selected = resolutions[incoming.id] ?? 'keep-mine';
+                  return (
+                    <li key={incoming.id} className="py-2">
+                      <fieldset disabled={importing}>
+                        <legend className="text-xs font-semibold text-gray-900 dark:text-gray-100 truncate">
+                          {incoming.title}
+                        </legend>
+                        {existing && existing.title !== incoming.title && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            Yours: {existing.title}
+                          </p>
+                        )}
+                        <div className="mt-1 flex gap-3">
+                          {resolutionOptions.map(option => (
+                            <label key={option.value} className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                              <input
+                                type="radio"
+                                name={`import-resolution-${incoming.id}`}
+                                value={option.value}
+                                checked={selected === option.value}
+                                onChange={() => {
+                                  setResolutions(prev => ({ ...prev, [incoming.id]: option.value }));
+                                }}
+                              />
+                              {option.label}
+                            </label>
+                          ))}
+                        </div>
+                      </fieldset>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <div className="mt-4 flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={importing}
+            className="inline-flex justify-center rounded-lg bg-white dark:bg-gray-700 px-3 py-2 text-sm font-semibold text-gray-900 dark:text-gray-100 shadow-sm ring-1 ring-inset ring-gray-300 dark:ring-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 focus-secondary"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => { onConfirm(resolutions); }}
+            disabled={importing}
+            className="inline-flex justify-center rounded-lg px-3 py-2 text-sm font-semibold text-white shadow-sm focus-secondary transition-colors bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImportMergeDialog;
@@ -0,0 +1,59 @@
+import type { FC } from 'react';
+
+import { DEFAULT_INSERTION_MODE, type InsertionMode } from '../../types';
+import { INSERTION_MODES } from '../../utils';
+
+import type { SlashCommandSite } from './SlashCommandSettings';
+
+const MODE_LABELS: Record<InsertionMode, string> = {
+  replace: 'Replace text',
+  append: 'Append',
+  prepend: 'Prepend',
+  cursor: 'At cursor'
+};
+
+interface InsertionModeSettingsProps {
+  sites: SlashCommandSite[];
+  modes: Record<string, InsertionMode>;
+  onModeChange: (hostname: string, mode: InsertionMode) => void;
+  saving?: boolean;
+}
+
+const InsertionModeSettings: FC<InsertionModeSettingsProps> = ({
+  sites,
+  modes,
+  onModeChange,
+  saving = false,
+}) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+    <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">Insertion Mode</h3>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+      Where a picked prompt goes in the chat input. Hold Shift to append, Alt to insert at the cursor, Shift+Alt to prepend or Ctrl/Cmd to replace for a single prompt.
+    </p>
+
+    {sites.length === 0 ? (
+      <p className="text-xs text-gray-500 dark:text-gray-400">Enable a site above to choose its insertion mode.</p>
+    ) : (
+      <ul className="space-y-2">
+        {sites.map(site => (
+          <li key={site.hostname} className="flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-700 dark:text-gray-300">{site.name}</span>
+            <select
+              value={modes[site.hostname] ?? DEFAULT_INSERTION_MODE}
+              onChange={(e) => { onModeChange(site.hostname, e.target.value as InsertionMode); }}
+              disabled={saving}
+              aria-label={`Insertion mode on ${site.name}`}
+              className="px-2 py-1 text-sm border border-purple-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus-input"
+            >
+              {INSERTION_MODES.map(mode => (
+                <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default InsertionModeSettings;
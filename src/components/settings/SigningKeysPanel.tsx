@@ -0,0 +1,207 @@
+import { type FC, type FormEvent, useCallback, useEffect, useState } from 'react';
+
+import { useClipboard } from '../../hooks/useClipboard';
+import { ShareSigningManager } from '../../services/shareSigning';
+import { type SigningIdentity, type TrustedSigningKey, SHARE_SIGNING_LIMITS } from '../../types';
+import { Logger, toError } from '../../utils';
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+const BUTTON_CLASS = 'px-3 py-1.5 text-xs font-semibold rounded-lg focus-secondary transition-colors disabled:opacity-50';
+const SECONDARY_BUTTON_CLASS = `${BUTTON_CLASS} border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700`;
+
+/**
+ * This device's key for signing share codes, and the public keys of people
+ * whose signed codes are trusted
+ */
+const SigningKeysPanel: FC = () => {
+  const { copyToClipboard } = useClipboard();
+  const [identity, setIdentity] = useState<SigningIdentity | null>(null);
+  const [trustedKeys, setTrustedKeys] = useState<TrustedSigningKey[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [keyName, setKeyName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const signing = ShareSigningManager.getInstance();
+      const [loadedIdentity, loadedKeys] = await Promise.all([signing.getIdentity(), signing.getTrustedKeys()]);
+      setIdentity(loadedIdentity);
+      setTrustedKeys(loadedKeys);
+      setLoaded(true);
+    } catch (err) {
+      Logger.error('Failed to load signing keys', toError(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const run = async (operation: () => Promise<void>) => {
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await operation();
+      await load();
+    } catch (err) {
+      Logger.error('Failed to update signing keys', toError(err));
+      setError(toError(err).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopyPublicKey = async () => {
+    if (!identity) {return;}
+    const copied = await copyToClipboard(identity.publicKey);
+    setMessage(copied ? 'Public key copied to clipboard' : null);
+    setError(copied ? null : 'Clipboard access was blocked');
+  };
+
+  const handleAddKey = (event: FormEvent) => {
+    event.preventDefault();
+    void run(async () => {
+      await ShareSigningManager.getInstance().trustKey(publicKey, keyName);
+      setShowAddForm(false);
+      setKeyName('');
+      setPublicKey('');
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">
+        Signed Share Codes
+      </h3>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        {identity
+          ? 'Prompt and site configuration codes you share are signed with this key. Send your public key to the people you share with, so they can trust it.'
+          : 'Create a signing key to sign the prompt and site configuration codes you share, so others can check they come from you and were not changed.'}
+      </p>
+
+      {identity ? (
+        <div className="mb-3 flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-700 dark:text-gray-300">
+            Your key: <span className="font-mono">{identity.fingerprint}</span>
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              type="button"
+              onClick={() => { void handleCopyPublicKey(); }}
+              className={`${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+            >
+              Copy public key
+            </button>
+            <button
+              type="button"
+              onClick={() => { void run(() => ShareSigningManager.getInstance().deleteIdentity()); }}
+              disabled={working}
+              className={SECONDARY_BUTTON_CLASS}
+            >
+              Delete key
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => { void run(async () => { await ShareSigningManager.getInstance().createIdentity(); }); }}
+          disabled={working || !loaded}
+          className={`mb-3 ${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+        >
+          Create signing key
+        </button>
+      )}
+
+      {message && (
+        <p className="mb-2 text-xs text-green-700 dark:text-green-400" role="status">{message}</p>
+      )}
+      {error && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+
+      <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Trusted keys</h4>
+      {trustedKeys.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          No trusted keys yet. Codes signed by other keys show their fingerprint only.
+        </p>
+      ) : (
+        <ul className="mb-2 divide-y divide-gray-100 dark:divide-gray-700" aria-label="Trusted keys">
+          {trustedKeys.map(key => (
+            <li key={key.fingerprint} className="flex items-center justify-between gap-2 py-1.5">
+              <div className="min-w-0">
+                <p className="text-xs font-semibold text-gray-900 dark:text-gray-100 truncate">{key.name}</p>
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{key.fingerprint}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => { void run(() => ShareSigningManager.getInstance().removeTrustedKey(key.fingerprint)); }}
+                disabled={working}
+                className={SECONDARY_BUTTON_CLASS}
+                aria-label={`Stop trusting ${key.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showAddForm ? (
+        <form onSubmit={handleAddKey} className="space-y-2" aria-label="Trust a public key">
+          <input
+            type="text"
+            value={keyName}
+            onChange={(e) => { setKeyName(e.target.value); }}
+            placeholder="Name, e.g. a teammate"
+            aria-label="Key name"
+            maxLength={SHARE_SIGNING_LIMITS.KEY_NAME_MAX}
+            required
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={publicKey}
+            onChange={(e) => { setPublicKey(e.target.value); }}
+            placeholder="Public key"
+            aria-label="Public key"
+            required
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working}
+              className={`${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+            >
+              Trust key
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowAddForm(false); }}
+              disabled={working}
+              className={SECONDARY_BUTTON_CLASS}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => { setShowAddForm(true); }}
+          className={SECONDARY_BUTTON_CLASS}
+        >
+          Add trusted key
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SigningKeysPanel;
@@ -1,20 +1,24 @@
-import { type FC, useCallback, useReducer } from 'react';
+import { type FC, useCallback, useMemo, useReducer } from 'react';
 
 import { useClipboard } from '../../hooks/useClipboard';
 import { usePickerWindow } from '../../hooks/usePickerWindow';
 import { useSitePermissions } from '../../hooks/useSitePermissions';
 import { ConfigurationEncoder, ConfigurationEncoderError } from '../../services/configurationEncoder';
-import type { CustomSite, CustomSiteConfiguration, SecurityWarning } from '../../types';
+import { ShareSigningManager } from '../../services/shareSigning';
+import { DEFAULT_SLASH_COMMAND_TRIGGER, type CustomSite, type InsertionMode, type CustomSiteConfiguration, type SecurityWarning, type ShareSignatureStatus } from '../../types';
 import type { ToastType } from '../../types/components';
 import { Logger, toError } from '../../utils';
 
 import AddCustomSiteForm from './AddCustomSiteForm';
 import AddMethodChooser from './AddMethodChooser';
+import AutoSendSettings from './AutoSendSettings';
 import ConfigurationPreview from './ConfigurationPreview';
 import CustomSitesList from './CustomSitesList';
 import EmptyCustomSitesState from './EmptyCustomSitesState';
+import InsertionModeSettings from './InsertionModeSettings';
 import SettingsSection from './SettingsSection';
 import SiteImportDrawer from './SiteImportDrawer';
+import SlashCommandSettings, { type SlashCommandSite } from './SlashCommandSettings';
 import SupportedSitesList, { type SiteConfig } from './SupportedSitesList';
 
 // ============================================================================
@@ -57,6 +61,7 @@ interface PendingImport {
   warnings: SecurityWarning[];
   duplicate: boolean;
   existingSite?: CustomSite;
+  signature: ShareSignatureStatus;
 }
 
 interface ImportState {
@@ -142,6 +147,14 @@ interface SiteIntegrationSectionProps {
   interfaceMode?: 'popup' | 'sidepanel';
   saving?: boolean;
   onShowToast?: (message: string, type?: ToastType) => void;
+  slashCommandTrigger?: string;
+  slashCommandSites?: string[];
+  onSlashCommandTriggerChange?: (trigger: string) => void;
+  onSlashCommandSiteToggle?: (hostname: string, enabled: boolean) => void;
+  insertionModes?: Record<string, InsertionMode>;
+  onInsertionModeChange?: (hostname: string, mode: InsertionMode) => void;
+  autoSendSites?: string[];
+  onAutoSendSiteToggle?: (hostname: string, enabled: boolean) => void;
 }
 
 const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
@@ -156,6 +169,14 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
   interfaceMode = 'popup',
   saving = false,
   onShowToast,
+  slashCommandTrigger = DEFAULT_SLASH_COMMAND_TRIGGER,
+  slashCommandSites = [],
+  onSlashCommandTriggerChange,
+  onSlashCommandSiteToggle,
+  insertionModes = {},
+  onInsertionModeChange,
+  autoSendSites = [],
+  onAutoSendSiteToggle,
 }) => {
   // Consolidated state management
   const [viewState, viewDispatch] = useReducer(viewReducer, viewInitialState);
@@ -220,7 +241,7 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
     async (site: CustomSite) => {
       try {
         importDispatch({ type: 'START_EXPORT', payload: site.hostname });
-        const encoded = await ConfigurationEncoder.encode(site);
+        const encoded = await ShareSigningManager.getInstance().sign(await ConfigurationEncoder.encode(site));
         const copied = await copyToClipboard(encoded);
 
         if (copied) {
@@ -276,7 +297,8 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
     openImportFlow();
 
     try {
-      const decodedConfig = await ConfigurationEncoder.decode(importState.code.trim());
+      const verified = await ShareSigningManager.getInstance().verify(importState.code);
+      const decodedConfig = await ConfigurationEncoder.decode(verified.code);
       const validation = ConfigurationEncoder.validate(decodedConfig);
       const existingCustomSite = customSites.find((site) => site.hostname === validation.sanitizedConfig.hostname);
       const isBuiltIn = Object.prototype.hasOwnProperty.call(siteConfigs, validation.sanitizedConfig.hostname);
@@ -295,6 +317,7 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
           warnings: validation.warnings.filter((warning) => warning.severity !== 'error'),
           duplicate: Boolean(existingCustomSite),
           existingSite: existingCustomSite,
+          signature: verified.signature,
         },
       });
     } catch (error) {
@@ -355,6 +378,16 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
     }
   }, [importState, requestSitePermission, onRemoveCustomSite, onAddCustomSite, notify, closeAllForms]);
 
+  // Slash commands, insertion modes and auto-send only apply where the prompt library itself is enabled
+  const integratedSites = useMemo<SlashCommandSite[]>(() => [
+    ...Object.entries(siteConfigs)
+      .filter(([hostname]) => enabledSites.includes(hostname))
+      .map(([hostname, config]) => ({ hostname, name: config.name })),
+    ...customSites
+      .filter(site => site.enabled)
+      .map(site => ({ hostname: site.hostname, name: site.displayName })),
+  ], [siteConfigs, enabledSites, customSites]);
+
   // Computed values
   const { isPickerWindow } = pickerWindowState;
   const { isCurrentSiteIntegrated, currentSiteHostname } = currentTabState;
@@ -390,6 +423,35 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
             saving={saving}
           />
 
+          {onSlashCommandTriggerChange && onSlashCommandSiteToggle && (
+            <SlashCommandSettings
+              trigger={slashCommandTrigger}
+              sites={integratedSites}
+              enabledSites={slashCommandSites}
+              onTriggerChange={onSlashCommandTriggerChange}
+              onSiteToggle={onSlashCommandSiteToggle}
+              saving={saving}
+            />
+          )}
+
+          {onInsertionModeChange && (
+            <InsertionModeSettings
+              sites={integratedSites}
+              modes={insertionModes}
+              onModeChange={onInsertionModeChange}
+              saving={saving}
+            />
+          )}
+
+          {onAutoSendSiteToggle && (
+            <AutoSendSettings
+              sites={integratedSites}
+              enabledSites={autoSendSites}
+              onSiteToggle={onAutoSendSiteToggle}
+              saving={saving}
+            />
+          )}
+
           {/* Custom Sites */}
           <div className="flex flex-col gap-3">
             <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -470,6 +532,7 @@ const SiteIntegrationSection: FC<SiteIntegrationSectionProps> = ({
         warnings={importState.pendingImport?.warnings ?? []}
         duplicate={Boolean(importState.pendingImport?.duplicate)}
         existingDisplayName={importState.pendingImport?.existingSite?.displayName}
+        signature={importState.pendingImport?.signature}
         onClose={() => {
           if (!importState.isConfirming) {
             importDispatch({ type: 'CLOSE_PREVIEW' });
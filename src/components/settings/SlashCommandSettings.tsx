@@ -0,0 +1,95 @@
+import { type FC, useEffect, useState } from 'react';
+
+import { isValidSlashCommandTrigger } from '../../utils';
+
+import ToggleSwitch from './ToggleSwitch';
+
+export interface SlashCommandSite {
+  hostname: string;
+  name: string;
+}
+
+interface SlashCommandSettingsProps {
+  trigger: string;
+  sites: SlashCommandSite[];
+  enabledSites: string[];
+  onTriggerChange: (trigger: string) => void;
+  onSiteToggle: (hostname: string, enabled: boolean) => void;
+  saving?: boolean;
+}
+
+const SlashCommandSettings: FC<SlashCommandSettingsProps> = ({
+  trigger,
+  sites,
+  enabledSites,
+  onTriggerChange,
+  onSiteToggle,
+  saving = false,
+}) => {
+  // Local draft so an invalid character can be shown (and corrected) without being saved
+  const [draft, setDraft] = useState(trigger);
+
+  useEffect(() => {
+    setDraft(trigger);
+  }, [trigger]);
+
+  const isDraftValid = isValidSlashCommandTrigger(draft);
+
+  const handleTriggerChange = (value: string) => {
+    setDraft(value);
+    if (isValidSlashCommandTrigger(value) && value !== trigger) {
+      onTriggerChange(value);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">Slash Commands</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Type the trigger followed by part of a prompt title in a chat input to pick a prompt without leaving the keyboard.
+      </p>
+
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <label htmlFor="slash-command-trigger" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Trigger character
+        </label>
+        <input
+          id="slash-command-trigger"
+          type="text"
+          value={draft}
+          onChange={(e) => { handleTriggerChange(e.target.value.trim()); }}
+          maxLength={2}
+          aria-invalid={!isDraftValid}
+          aria-describedby={isDraftValid ? undefined : 'slash-command-trigger-error'}
+          className="w-12 px-2 py-1 text-center font-mono text-sm border border-purple-200 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus-input"
+        />
+      </div>
+      {!isDraftValid && (
+        <p id="slash-command-trigger-error" className="text-xs text-red-600 dark:text-red-400 mb-3" role="alert">
+          Use a single symbol such as / or ; (letters, digits and spaces are not allowed).
+        </p>
+      )}
+
+      {sites.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Enable a site above to use slash commands on it.</p>
+      ) : (
+        <ul className="space-y-2">
+          {sites.map(site => (
+            <li key={site.hostname} className="flex items-center justify-between">
+              <span className="text-sm text-gray-700 dark:text-gray-300">{site.name}</span>
+              <ToggleSwitch
+                checked={enabledSites.includes(site.hostname)}
+                onChange={(checked) => { onSiteToggle(site.hostname, checked); }}
+                disabled={saving}
+                ariaLabel={`Slash commands on ${site.name}`}
+                size="small"
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SlashCommandSettings;
@@ -0,0 +1,142 @@
+import { type FC, useCallback, useEffect, useState } from 'react';
+
+import { SyncEngine } from '../../services/syncEngine';
+import type { SyncStatus } from '../../types';
+import { Logger, toError } from '../../utils';
+
+import ToggleSwitch from './ToggleSwitch';
+
+interface SyncStatusPanelProps {
+  /** Called after a sync, to reload prompts changed on other devices */
+  onSynced: () => Promise<void>;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const SKIP_REASONS = {
+  'too-large': 'too large to sync',
+  quota: 'sync storage is full'
+} as const;
+
+/**
+ * Opt-in cross-device sync through the browser account: toggle, last sync,
+ * conflicts resolved by the newest edit and prompts that did not fit.
+ */
+const SyncStatusPanel: FC<SyncStatusPanelProps> = ({ onSynced }) => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await SyncEngine.getInstance().getStatus());
+    } catch (err) {
+      Logger.error('Failed to load sync status', toError(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const runSync = async (operation: () => Promise<SyncStatus>) => {
+    setSyncing(true);
+    setError(null);
+    try {
+      const next = await operation();
+      setStatus(next);
+      if (next.enabled) {
+        await onSynced();
+      }
+    } catch (err) {
+      Logger.error('Failed to sync prompts', toError(err));
+      setError(toError(err).message);
+      await loadStatus();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    void runSync(() => SyncEngine.getInstance().setEnabled(enabled));
+  };
+
+  const handleSyncNow = () => {
+    void runSync(() => SyncEngine.getInstance().sync());
+  };
+
+  const message = error ?? status?.lastError;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+          Sync Across Devices
+        </h3>
+        <ToggleSwitch
+          checked={status?.enabled ?? false}
+          onChange={handleToggle}
+          disabled={status === null || syncing}
+          ariaLabel="Sync prompts across devices"
+          size="small"
+        />
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        Keeps prompts in sync on every computer signed in to the same browser account. Sync storage holds about 100 KB, so a large library may not fit completely.
+      </p>
+
+      {message && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400" role="alert">{message}</p>
+      )}
+
+      {status?.enabled && (
+        <div className="space-y-2 text-xs text-gray-700 dark:text-gray-300" data-testid="sync-status">
+          <div className="flex items-center justify-between gap-2">
+            <p>
+              {status.lastSyncAt
+                ? `Last synced ${formatDate(status.lastSyncAt)} (${String(status.syncedCount)} prompts)`
+                : 'Not synced yet'}
+            </p>
+            <button
+              type="button"
+              onClick={handleSyncNow}
+              disabled={syncing}
+              className="shrink-0 px-2 py-1 text-xs font-semibold text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 focus-interactive rounded-sm disabled:opacity-50"
+            >
+              {syncing ? 'Syncing...' : 'Sync now'}
+            </button>
+          </div>
+
+          {status.conflicts.length > 0 && (
+            <div>
+              <p className="font-semibold text-gray-900 dark:text-gray-100">Edited on two devices ({status.conflicts.length})</p>
+              <p className="text-gray-500 dark:text-gray-400">The newest edit of each field was kept; the replaced version is in the prompt&apos;s history.</p>
+              <ul className="space-y-0.5" aria-label="Sync conflicts">
+                {status.conflicts.map(conflict => (
+                  <li key={`${conflict.promptId}-${String(conflict.resolvedAt)}`} className="truncate">
+                    {conflict.title}: {conflict.fields.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {status.skipped.length > 0 && (
+            <div>
+              <p className="font-semibold text-gray-900 dark:text-gray-100">Not synced ({status.skipped.length})</p>
+              <ul className="space-y-0.5" aria-label="Prompts not synced">
+                {status.skipped.map(item => (
+                  <li key={item.promptId} className="truncate">
+                    {item.title} ({SKIP_REASONS[item.reason]})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusPanel;
@@ -0,0 +1,197 @@
+import { type FC, type FormEvent, useCallback, useEffect, useState } from 'react';
+
+import { BackupSnapshotManager } from '../../services/backupSnapshots';
+import { StorageManager } from '../../services/storage';
+import { SyncEngine } from '../../services/syncEngine';
+import { VaultManager } from '../../services/vault';
+import { type VaultStatus, PROMPT_VAULT_LIMITS } from '../../types';
+import { Logger, toError } from '../../utils';
+
+interface VaultPanelProps {
+  /** Called after encryption is turned on or off */
+  onChanged: () => Promise<void>;
+  /** Called after the library is locked, to leave the settings */
+  onLocked: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+const BUTTON_CLASS = 'px-3 py-1.5 text-xs font-semibold rounded-lg focus-secondary transition-colors disabled:opacity-50';
+
+/**
+ * Opt-in encryption of prompt content with a passphrase: turn it on or off,
+ * and lock the library before the browser session ends
+ */
+const VaultPanel: FC<VaultPanelProps> = ({ onChanged, onLocked }) => {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [form, setForm] = useState<'enable' | 'disable' | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await VaultManager.getInstance().getStatus());
+    } catch (err) {
+      Logger.error('Failed to load vault status', toError(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStatus();
+  }, [loadStatus]);
+
+  const closeForm = () => {
+    setForm(null);
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const run = async (operation: () => Promise<void>) => {
+    setWorking(true);
+    setError(null);
+    try {
+      await operation();
+      closeForm();
+      await loadStatus();
+      await onChanged();
+    } catch (err) {
+      Logger.error('Failed to change prompt encryption', toError(err));
+      setError(toError(err).message);
+      await loadStatus();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (form === 'enable') {
+      if (passphrase !== confirmation) {
+        setError('Passphrases do not match');
+        return;
+      }
+      void run(async () => {
+        await StorageManager.getInstance().enableEncryption(passphrase);
+        await BackupSnapshotManager.getInstance().setSnapshotsEncrypted(true);
+        // Synced copies are stored in plain text on the account; take them down
+        await SyncEngine.getInstance().removeSyncedPrompts();
+      });
+    } else {
+      void run(async () => {
+        await VaultManager.getInstance().unlock(passphrase);
+        await BackupSnapshotManager.getInstance().setSnapshotsEncrypted(false);
+        await StorageManager.getInstance().disableEncryption();
+      });
+    }
+  };
+
+  const handleLock = async () => {
+    try {
+      await VaultManager.getInstance().lock();
+      onLocked();
+    } catch (err) {
+      Logger.error('Failed to lock the prompt library', toError(err));
+      setError(toError(err).message);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 text-sm mb-1">
+        Encrypt Prompts
+      </h3>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        {status?.enabled
+          ? 'Prompt content is encrypted with your passphrase and unlocked until the browser closes. Titles, categories, tags, example outputs and remembered variable values are not encrypted.'
+          : 'Encrypts the content of your prompts and their history with a passphrase, asked once per browser session. Example outputs and remembered variable values are not encrypted. Sync across devices is paused while encryption is on.'}
+      </p>
+
+      {error && !form && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+
+      {form ? (
+        <form onSubmit={handleSubmit} className="space-y-2" aria-label={form === 'enable' ? 'Turn on encryption' : 'Turn off encryption'}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); }}
+            placeholder="Passphrase"
+            aria-label="Passphrase"
+            autoComplete={form === 'enable' ? 'new-password' : 'current-password'}
+            minLength={form === 'enable' ? PROMPT_VAULT_LIMITS.MIN_PASSPHRASE_LENGTH : undefined}
+            required
+            className={INPUT_CLASS}
+          />
+          {form === 'enable' && (
+            <>
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => { setConfirmation(e.target.value); }}
+                placeholder="Repeat passphrase"
+                aria-label="Repeat passphrase"
+                autoComplete="new-password"
+                required
+                className={INPUT_CLASS}
+              />
+              <p className="text-xs text-amber-700 dark:text-amber-400">
+                Your prompts cannot be recovered without this passphrase. Prompts already synced across devices are deleted from sync storage; other devices keep their own copies.
+              </p>
+            </>
+          )}
+          {error && (
+            <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={working}
+              className={`${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+            >
+              {working ? 'Working...' : form === 'enable' ? 'Encrypt library' : 'Decrypt library'}
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              disabled={working}
+              className={`${BUTTON_CLASS} border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700`}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : status?.enabled ? (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => { void handleLock(); }}
+            className={`${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+          >
+            Lock now
+          </button>
+          <button
+            type="button"
+            onClick={() => { setForm('disable'); }}
+            className={`${BUTTON_CLASS} border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700`}
+          >
+            Turn off encryption
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => { setForm('enable'); }}
+          disabled={status === null}
+          className={`${BUTTON_CLASS} text-white bg-purple-600 hover:bg-purple-700`}
+        >
+          Set a passphrase
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default VaultPanel;
@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Mock } from 'vitest';
 
@@ -92,3 +92,109 @@ describe('SiteIntegrationSection - Custom Sites UI', () => {
     expect(addCardButton).toHaveAttribute('title', 'Current site (example.com) is already integrated');
   });
 });
+
+describe('SiteIntegrationSection - Slash Commands', () => {
+  const slashProps = {
+    ...defaultProps,
+    enabledSites: ['claude.ai'],
+    slashCommandTrigger: '/',
+    slashCommandSites: ['claude.ai'],
+    onSlashCommandTriggerChange: vi.fn(),
+    onSlashCommandSiteToggle: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const tabsQueryMock = chrome.tabs.query as unknown as Mock;
+    tabsQueryMock.mockResolvedValue([]);
+  });
+
+  it('lists enabled sites with their slash command state', () => {
+    render(<SiteIntegrationSection {...slashProps} />);
+
+    expect(screen.getByLabelText('Slash commands on Claude.ai')).toBeChecked();
+  });
+
+  it('toggles slash commands for a site', () => {
+    render(<SiteIntegrationSection {...slashProps} />);
+
+    fireEvent.click(screen.getByLabelText('Slash commands on Claude.ai'));
+
+    expect(slashProps.onSlashCommandSiteToggle).toHaveBeenCalledWith('claude.ai', false);
+  });
+
+  it('saves a valid trigger and rejects letters', () => {
+    render(<SiteIntegrationSection {...slashProps} />);
+    const input = screen.getByLabelText('Trigger character');
+
+    fireEvent.change(input, { target: { value: 'a' } });
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+    expect(slashProps.onSlashCommandTriggerChange).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: ';' } });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(slashProps.onSlashCommandTriggerChange).toHaveBeenCalledWith(';');
+  });
+
+  it('hides slash command settings when no handlers are given', () => {
+    render(<SiteIntegrationSection {...defaultProps} enabledSites={['claude.ai']} />);
+
+    expect(screen.queryByLabelText('Trigger character')).not.toBeInTheDocument();
+  });
+});
+
+describe('SiteIntegrationSection - Insertion Modes', () => {
+  const modeProps = {
+    ...defaultProps,
+    enabledSites: ['claude.ai'],
+    insertionModes: { 'claude.ai': 'append' as const },
+    onInsertionModeChange: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const tabsQueryMock = chrome.tabs.query as unknown as Mock;
+    tabsQueryMock.mockResolvedValue([]);
+  });
+
+  it('shows and changes the insertion mode of a site', () => {
+    render(<SiteIntegrationSection {...modeProps} />);
+    const select = screen.getByLabelText('Insertion mode on Claude.ai');
+
+    expect(select).toHaveValue('append');
+
+    fireEvent.change(select, { target: { value: 'cursor' } });
+    expect(modeProps.onInsertionModeChange).toHaveBeenCalledWith('claude.ai', 'cursor');
+  });
+
+  it('hides insertion mode settings when no handler is given', () => {
+    render(<SiteIntegrationSection {...defaultProps} enabledSites={['claude.ai']} />);
+
+    expect(screen.queryByLabelText('Insertion mode on Claude.ai')).not.toBeInTheDocument();
+  });
+});
+
+describe('SiteIntegrationSection - Auto-Send', () => {
+  const autoSendProps = {
+    ...defaultProps,
+    enabledSites: ['claude.ai'],
+    autoSendSites: [],
+    onAutoSendSiteToggle: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const tabsQueryMock = chrome.tabs.query as unknown as Mock;
+    tabsQueryMock.mockResolvedValue([]);
+  });
+
+  it('toggles auto-send for a site', () => {
+    render(<SiteIntegrationSection {...autoSendProps} />);
+    const toggle = screen.getByLabelText('Auto-send on Claude.ai');
+
+    expect(toggle).not.toBeChecked();
+    fireEvent.click(toggle);
+
+    expect(autoSendProps.onAutoSendSiteToggle).toHaveBeenCalledWith('claude.ai', true);
+  });
+});
@@ -42,6 +42,12 @@ export interface PlatformDefinition {
   selectors: string[];
   /** CSS selector for button container where icon should be placed */
   buttonContainerSelector?: string;
+  /** CSS selectors for the platform's send button, used to send a prompt right after inserting it */
+  submitSelectors?: string[];
+  /** CSS selectors for the button that stops a response while it streams, used to tell when the platform has finished responding */
+  stopSelectors?: string[];
+  /** CSS selectors for an assistant message in the conversation, used to offer saving responses to the library */
+  responseSelectors?: string[];
   /** Strategy class name to use for this platform */
   strategyClass: string;
   /** Additional hostname patterns to check for platform detection */
@@ -73,6 +79,17 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
     selectors: ['div[contenteditable="true"][role="textbox"].ProseMirror'],
     buttonContainerSelector:
       ".relative.flex-1.flex.items-center.gap-2.shrink.min-w-0",
+    submitSelectors: [
+      'button[aria-label="Send message"]',
+      'button[aria-label="Send Message"]',
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop response"]',
+    ],
+    responseSelectors: [
+      "div.font-claude-response",
+      "div.font-claude-message",
+    ],
     strategyClass: "ClaudeStrategy",
     hostnamePatterns: ["claude"],
     brandColors: {
@@ -93,6 +110,17 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
     ],
     buttonContainerSelector:
       'div[data-testid="composer-trailing-actions"] .ms-auto.flex.items-center',
+    submitSelectors: [
+      'button[data-testid="send-button"]',
+      "button#composer-submit-button",
+    ],
+    stopSelectors: [
+      'button[data-testid="stop-button"]',
+      'button[aria-label="Stop streaming"]',
+    ],
+    responseSelectors: [
+      'div[data-message-author-role="assistant"]',
+    ],
     strategyClass: "ChatGPTStrategy",
     hostnamePatterns: ["openai", "chatgpt"],
     brandColors: {
@@ -117,6 +145,16 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
       ".flex.w-full.items-center.justify-start.gap-3", // Compact view
       ".flex.items-center.justify-start.gap-3", // Mobile fallback
     ].join(", "),
+    submitSelectors: [
+      'button[aria-label="Send question"]',
+      'form button[type="submit"]',
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop generation"]',
+    ],
+    responseSelectors: [
+      'div[data-message-author-role="assistant"]',
+    ],
     strategyClass: "MistralStrategy",
     hostnamePatterns: ["mistral"],
     brandColors: {
@@ -138,6 +176,16 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
     ],
     buttonContainerSelector:
       ".bg-background-50.dark\\:bg-offsetDark.flex.items-center",
+    submitSelectors: [
+      'button[aria-label="Submit"]',
+      'button[data-testid="submit-button"]',
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop generating response"]',
+    ],
+    responseSelectors: [
+      'div[id^="markdown-content-"]',
+    ],
     strategyClass: "PerplexityStrategy",
     hostnamePatterns: ["perplexity"],
     brandColors: {
@@ -159,6 +207,16 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
       'div[contenteditable="true"]',
     ],
     buttonContainerSelector: ".input-buttons-wrapper-bottom",
+    submitSelectors: [
+      "button.send-button",
+      'button[aria-label="Send message"]',
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop response"]',
+    ],
+    responseSelectors: [
+      "model-response message-content",
+    ],
     strategyClass: "GeminiStrategy",
     hostnamePatterns: ["gemini"],
     brandColors: {
@@ -183,6 +241,16 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
     // Target the container with microphone button - more specific than generic .flex.gap-2
     buttonContainerSelector:
       ".relative.bottom-0.flex.justify-between.pb-0\\.5.pe-2\\.5.ps-1\\.5 > .flex.gap-2.items-center:last-child",
+    submitSelectors: [
+      'button[data-testid="submit-button"]',
+      'button[aria-label="Submit message"]',
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop responding"]',
+    ],
+    responseSelectors: [
+      '[data-content="ai-message"]',
+    ],
     strategyClass: "CopilotStrategy", // Uses dedicated CopilotStrategy for React integration
     hostnamePatterns: ["copilot.microsoft"],
     brandColors: {
@@ -208,6 +276,16 @@ export const SUPPORTED_PLATFORMS: Readonly<Record<string, Readonly<PlatformDefin
     ],
     buttonContainerSelector:
       '.fai-ChatInput__actions > span.___11i0s0y, .fai-ChatInput__actions',
+    submitSelectors: [
+      'button[aria-label="Send"]',
+      ".fai-ChatInput__actions button.fai-SendButton",
+    ],
+    stopSelectors: [
+      'button[aria-label="Stop generating"]',
+    ],
+    responseSelectors: [
+      '[data-testid="copilot-message-reply-div"]',
+    ],
     strategyClass: "M365CopilotStrategy",
     hostnamePatterns: ["m365.cloud.microsoft"],
     brandColors: {
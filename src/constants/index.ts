@@ -5,7 +5,7 @@
  * Import from '@/constants' or '../constants' for these values.
  */
 
-import type { Settings } from '../types';
+import type { InsertionMode, Settings } from '../types';
 
 // Re-export from organized constant files
 export * from './colors';
@@ -23,6 +23,197 @@ export const USAGE_RETENTION_DAYS = 30;
 /** Storage key for usage history in chrome.storage */
 export const USAGE_STORAGE_KEY = 'usageHistory';
 
+// ============================================================================
+// Storage Layout Constants
+// ============================================================================
+
+/** chrome.storage.local key recording where prompt bodies and revisions live (see StorageLayout) */
+export const STORAGE_LAYOUT_KEY = 'storageLayout';
+
+// ============================================================================
+// Template Variable Constants
+// ============================================================================
+
+/** Storage key for the last values entered for each prompt's template variables */
+export const PROMPT_VARIABLE_VALUES_STORAGE_KEY = 'promptVariableValues';
+
+/** Bounds for the variable values remembered per prompt */
+export const PROMPT_VARIABLE_VALUE_LIMITS = {
+  MAX_PER_PROMPT: 50
+} as const;
+
+// ============================================================================
+// Version History Constants
+// ============================================================================
+
+/** Storage key for prompt revision history (revisions keyed by prompt id) */
+export const PROMPT_REVISIONS_STORAGE_KEY = 'promptRevisions';
+
+/** Bounds for the revision history kept per prompt */
+export const PROMPT_REVISION_LIMITS = {
+  MAX_PER_PROMPT: 20,
+  /** Revisions kept per prompt once storage usage reaches the warning threshold */
+  MAX_PER_PROMPT_WHEN_TIGHT: 3
+} as const;
+
+// ============================================================================
+// Undo Constants
+// ============================================================================
+
+/** chrome.storage.session key for the undo stack (survives the popup or side panel closing) */
+export const UNDO_STORAGE_KEY = 'undoStack';
+
+/** Bounds for the undo stack of destructive actions */
+export const UNDO_LIMITS = {
+  MAX_ENTRIES: 5,
+  /** Entries older than this can no longer be undone */
+  MAX_AGE_MS: 10 * 60 * 1000,
+  /** How long the toast offering the undo stays visible */
+  TOAST_DURATION_MS: 8000
+} as const;
+
+// ============================================================================
+// Backup Snapshot Constants
+// ============================================================================
+
+/** chrome.alarms name of the scheduled backup snapshot */
+export const BACKUP_SNAPSHOT_ALARM = 'backup-snapshot';
+
+/** Schedule and rotation of backup snapshots (stored in IndexedDB, outside the storage quota) */
+export const BACKUP_SNAPSHOT_LIMITS = {
+  MAX_SNAPSHOTS: 10,
+  INTERVAL_MINUTES: 6 * 60
+} as const;
+
+// ============================================================================
+// Prompt Sync Constants
+// ============================================================================
+
+/** chrome.storage.local key of the sync engine's state (opt-in flag, last sync, base clocks) */
+export const PROMPT_SYNC_STATE_KEY = 'promptSyncState';
+
+/** chrome.alarms name of the periodic sync with chrome.storage.sync */
+export const PROMPT_SYNC_ALARM = 'prompt-sync';
+
+/** Schedule and bookkeeping of cross-device sync */
+export const PROMPT_SYNC_LIMITS = {
+  INTERVAL_MINUTES: 15,
+  /** Delay before syncing a local change, so a burst of edits is synced once */
+  DEBOUNCE_MINUTES: 1,
+  /** Deleted prompts are remembered this long so other devices delete them too */
+  TOMBSTONE_RETENTION_DAYS: 30,
+  /** Conflicts listed in the sync status, newest first */
+  MAX_CONFLICTS: 20
+} as const;
+
+// ============================================================================
+// Vault Constants
+// ============================================================================
+
+/** chrome.storage.local key of the vault settings (PBKDF2 salt and a passphrase check, never the key) */
+export const PROMPT_VAULT_STORAGE_KEY = 'promptVault';
+
+/** chrome.storage.session key of the unlocked vault key, cleared when the browser closes */
+export const PROMPT_VAULT_SESSION_KEY = 'promptVaultKey';
+
+/** Key derivation and passphrase rules of the vault */
+export const PROMPT_VAULT_LIMITS = {
+  PBKDF2_ITERATIONS: 600_000,
+  MIN_PASSPHRASE_LENGTH: 8
+} as const;
+
+// ============================================================================
+// Share Signing Constants
+// ============================================================================
+
+/**
+ * Key of this device's ECDSA key pair for signing share codes, in its own
+ * IndexedDB database
+ */
+export const SHARE_SIGNING_KEY_STORAGE_KEY = 'shareSigningKey';
+
+/** IndexedDB database holding the signing key, apart from the prompt library */
+export const SHARE_SIGNING_DATABASE = 'prompt-library-keys';
+
+/** chrome.storage.local key of the public keys whose signatures are trusted */
+export const TRUSTED_SIGNING_KEYS_STORAGE_KEY = 'trustedSigningKeys';
+
+/** Limits of the trusted keys list */
+export const SHARE_SIGNING_LIMITS = {
+  MAX_TRUSTED_KEYS: 100,
+  KEY_NAME_MAX: 50
+} as const;
+
+// ============================================================================
+// Slash Command Constants
+// ============================================================================
+
+/** Default character that opens the inline prompt autocomplete in chat inputs */
+export const DEFAULT_SLASH_COMMAND_TRIGGER = '/';
+
+/** Sites where the inline prompt autocomplete is enabled by default */
+export const DEFAULT_SLASH_COMMAND_SITES: readonly string[] = ['claude.ai', 'chatgpt.com'];
+
+// ============================================================================
+// Insertion Mode Constants
+// ============================================================================
+
+/** How a prompt goes into a chat input on sites without a chosen mode */
+export const DEFAULT_INSERTION_MODE: InsertionMode = 'replace';
+
+/** Placed between existing text and a prompt that is appended or prepended to it */
+export const INSERTION_MODE_SEPARATOR = '\n\n';
+
+// ============================================================================
+// Auto-Send Constants
+// ============================================================================
+
+/** How long to wait for a platform's send button to become enabled after inserting a prompt */
+export const AUTO_SEND_BUTTON_TIMEOUT_MS = 1500;
+
+/** Interval between checks for an enabled send button */
+export const AUTO_SEND_POLL_INTERVAL_MS = 50;
+
+// ============================================================================
+// Prompt Chain Constants
+// ============================================================================
+
+/** chrome.storage.local key of the saved prompt chains */
+export const PROMPT_CHAINS_STORAGE_KEY = 'promptChains';
+
+/** Limits of prompt chains */
+export const PROMPT_CHAIN_LIMITS = {
+  MAX_CHAINS: 100,
+  TITLE_MAX: 100,
+  MIN_STEPS: 2,
+  MAX_STEPS: 10
+} as const;
+
+/** Timing of the wait for a platform's response between chain steps */
+export const PROMPT_CHAIN_RESPONSE_TIMING = {
+  /** Interval between checks of whether the platform is still responding */
+  POLL_INTERVAL_MS: 250,
+  /** How long the response must stay finished before the next step runs (streams pause briefly) */
+  SETTLE_MS: 1500,
+  /** How long to wait for a response to start after sending a step */
+  START_TIMEOUT_MS: 10_000,
+  /** Longest a single response may take */
+  RESPONSE_TIMEOUT_MS: 300_000
+} as const;
+
+// ============================================================================
+// Example Output Constants
+// ============================================================================
+
+/** chrome.storage.local key of AI responses saved as example outputs, keyed by prompt id */
+export const PROMPT_EXAMPLE_OUTPUTS_STORAGE_KEY = 'promptExampleOutputs';
+
+/** Bounds for the example outputs kept per prompt */
+export const PROMPT_EXAMPLE_OUTPUT_LIMITS = {
+  MAX_PER_PROMPT: 10,
+  CONTENT_MAX: 20_000
+} as const;
+
 // ============================================================================
 // Validation Limits
 // ============================================================================
@@ -32,6 +223,9 @@ export const VALIDATION_LIMITS = {
   PROMPT_TITLE_MAX: 100,
   PROMPT_CONTENT_MAX: 20000,
   CATEGORY_NAME_MAX: 50,
+  TAG_MAX_LENGTH: 30,
+  TAGS_PER_PROMPT_MAX: 10,
+  PROMPT_NOTES_MAX: 5000,
   TITLE_GENERATION_LENGTH: 50
 } as const;
 
@@ -62,3 +256,12 @@ export const PROMPT_SHARING_SIZE_LIMITS = {
   CATEGORY_MAX: 50,
   ENCODED_MAX: 40_000,
 } as const;
+
+/** Limits for sharing several prompts as one collection */
+export const PROMPT_COLLECTION_LIMITS = {
+  MAX_PROMPTS: 200,
+  NAME_MAX: 100,
+  /** A collection larger than one code is split into parts of this length */
+  CODE_PART_MAX: PROMPT_SHARING_SIZE_LIMITS.ENCODED_MAX,
+  MAX_CODE_PARTS: 20,
+} as const;
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for ChainRunner
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { PROMPT_CHAIN_RESPONSE_TIMING } from '../../../constants';
+import type { PromptChain } from '../../../types/index';
+import type { InsertionResult, Prompt } from '../../types/index';
+import { type ChainRunProgress, ChainRunner } from '../chain-runner';
+
+vi.mock('../../utils/logger', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  isDebugMode: vi.fn().mockReturnValue(false),
+  showDebugNotification: vi.fn()
+}));
+
+const prompts: Prompt[] = [
+  { id: 'draft', title: 'Draft', content: 'Write a draft', category: 'Writing', createdAt: 1, updatedAt: 1 },
+  { id: 'critique', title: 'Critique', content: 'Critique it', category: 'Writing', createdAt: 1, updatedAt: 1 },
+  { id: 'refine', title: 'Refine', content: 'Refine it', category: 'Writing', createdAt: 1, updatedAt: 1 }
+];
+
+const chain: PromptChain = {
+  id: 'chain-1',
+  title: 'Draft, critique, refine',
+  promptIds: ['draft', 'critique', 'refine'],
+  createdAt: 1,
+  updatedAt: 1
+};
+
+// Long enough for a response to start, stream for a while and settle
+const RESPONSE_MS = 1000;
+const STEP_MS = RESPONSE_MS + PROMPT_CHAIN_RESPONSE_TIMING.SETTLE_MS + 2 * PROMPT_CHAIN_RESPONSE_TIMING.POLL_INTERVAL_MS;
+
+describe('ChainRunner', () => {
+  let responding: boolean;
+  let inserted: string[];
+  let progress: ChainRunProgress[];
+  let insertStep: ReturnType<typeof vi.fn<(prompt: Prompt) => Promise<InsertionResult>>>;
+  let runner: ChainRunner;
+
+  const latest = (): ChainRunProgress => progress[progress.length - 1];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    responding = false;
+    inserted = [];
+    progress = [];
+    // Each sent step streams a response for RESPONSE_MS
+    insertStep = vi.fn((prompt: Prompt) => {
+      inserted.push(prompt.id);
+      responding = true;
+      setTimeout(() => { responding = false; }, RESPONSE_MS);
+      return Promise.resolve({ success: true, sent: true });
+    });
+    runner = new ChainRunner({
+      insertStep,
+      isResponding: () => responding,
+      onProgress: (update) => { progress.push(update); }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send each step once the previous response has finished', async () => {
+    const run = runner.run(chain, prompts);
+
+    await vi.advanceTimersByTimeAsync(RESPONSE_MS / 2);
+    expect(inserted).toEqual(['draft']);
+    expect(latest().steps.map(step => step.status)).toEqual(['waiting', 'pending', 'pending']);
+
+    await vi.advanceTimersByTimeAsync(STEP_MS);
+    expect(inserted).toEqual(['draft', 'critique']);
+
+    await vi.advanceTimersByTimeAsync(2 * STEP_MS);
+    const result = await run;
+
+    expect(inserted).toEqual(['draft', 'critique', 'refine']);
+    expect(result.state).toBe('completed');
+    expect(result.steps.every(step => step.status === 'done')).toBe(true);
+    expect(runner.isRunning()).toBe(false);
+  });
+
+  it('should hold before the next step while paused and continue on resume', async () => {
+    const run = runner.run(chain, prompts);
+    await vi.advanceTimersByTimeAsync(RESPONSE_MS / 2);
+
+    runner.pause();
+    await vi.advanceTimersByTimeAsync(3 * STEP_MS);
+    expect(inserted).toEqual(['draft']);
+    expect(latest().state).toBe('paused');
+
+    runner.resume();
+    await vi.advanceTimersByTimeAsync(3 * STEP_MS);
+
+    expect((await run).state).toBe('completed');
+    expect(inserted).toEqual(['draft', 'critique', 'refine']);
+  });
+
+  it('should stop right away, even while waiting for a response', async () => {
+    const run = runner.run(chain, prompts);
+    await vi.advanceTimersByTimeAsync(RESPONSE_MS / 2);
+
+    runner.stop();
+    const result = await run;
+
+    expect(result.state).toBe('stopped');
+    expect(inserted).toEqual(['draft']);
+  });
+
+  it('should stop without failing when a step is stopped before it is sent', async () => {
+    insertStep.mockImplementationOnce(() => {
+      runner.stop();
+      return Promise.resolve({ success: false, error: 'Stopped before sending the clipboard' });
+    });
+
+    const result = await runner.run(chain, prompts);
+
+    expect(result.state).toBe('stopped');
+    expect(result.error).toBeUndefined();
+    expect(result.steps.map(step => step.status)).toEqual(['pending', 'pending', 'pending']);
+  });
+
+  it('should fail the run when a step cannot be sent or its prompt was deleted', async () => {
+    insertStep.mockResolvedValueOnce({ success: true, sent: false, sendError: 'Send button not found' });
+
+    const result = await runner.run(chain, prompts);
+
+    expect(result).toMatchObject({ state: 'failed', error: 'Send button not found' });
+    expect(result.steps.map(step => step.status)).toEqual(['failed', 'pending', 'pending']);
+
+    const missing = await runner.run({ ...chain, promptIds: ['gone', 'draft'] }, prompts);
+    expect(missing).toMatchObject({ state: 'failed', error: 'The prompt of this step was deleted' });
+    expect(missing.steps[0].title).toBe('Deleted prompt');
+  });
+
+  it('should fail when a response does not finish in time', async () => {
+    insertStep.mockImplementationOnce(() => {
+      responding = true;
+      return Promise.resolve({ success: true, sent: true });
+    });
+
+    const run = runner.run(chain, prompts);
+    await vi.advanceTimersByTimeAsync(PROMPT_CHAIN_RESPONSE_TIMING.RESPONSE_TIMEOUT_MS + STEP_MS);
+
+    expect(await run).toMatchObject({ state: 'failed', error: 'The response did not finish in time' });
+  });
+});
@@ -12,6 +12,7 @@
  
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Mock } from 'vitest';
 
 import type { Prompt } from '../../types/index';
 import { PromptLibraryInjector } from '../injector';
@@ -23,6 +24,9 @@ vi.mock('../insertion-manager', () => ({
       getAllSelectors: vi.fn().mockReturnValue(['textarea', 'div[contenteditable="true"]']),
       createIcon: vi.fn().mockReturnValue(document.createElement('button')),
       insertPrompt: vi.fn().mockResolvedValue({ success: true, method: 'direct' }),
+      isResponding: vi.fn().mockReturnValue(false),
+      findResponseMessages: vi.fn().mockReturnValue([]),
+      extractResponseText: vi.fn().mockReturnValue(''),
       initializeStrategies: vi.fn(),
       cleanup: vi.fn()
     };
@@ -58,6 +62,9 @@ vi.mock('../../ui/keyboard-navigation', () => ({
 
 vi.mock('../../utils/storage', () => ({
   getPrompts: vi.fn().mockResolvedValue([]),
+  getLastUsedPrompt: vi.fn().mockResolvedValue(null),
+  getPromptChain: vi.fn().mockResolvedValue(null),
+  getPromptVariableValues: vi.fn().mockResolvedValue({}),
   createPromptListItem: vi.fn().mockImplementation((prompt, _index, className) => {
     const item = document.createElement('div');
     item.className = className;
@@ -73,13 +80,21 @@ vi.mock('../../utils/storage', () => ({
     enabledSites: ['test.com', 'localhost'],
     customSites: [],
     debugMode: false,
-    floatingFallback: true
+    floatingFallback: true,
+    slashCommandTrigger: '/',
+    slashCommandSites: ['localhost'],
+    insertionModes: {},
+    autoSendSites: []
   }),
   getDefaultSettings: vi.fn().mockReturnValue({
     enabledSites: ['test.com', 'localhost'],
     customSites: [],
     debugMode: false,
-    floatingFallback: true
+    floatingFallback: true,
+    slashCommandTrigger: '/',
+    slashCommandSites: ['localhost'],
+    insertionModes: {},
+    autoSendSites: []
   })
 }));
 
@@ -281,6 +296,339 @@ describe('PromptLibraryInjector', () => {
     });
   });
 
+  describe('keyboard shortcut and context menu messages', () => {
+    const sendShortcut = async (action: string, payload: Record<string, unknown> = {}) => {
+      await injector.initialize();
+      const listener = (chrome.runtime.onMessage.addListener as Mock).mock.calls[0][0];
+      const sendResponse = vi.fn();
+      listener({ action, ...payload }, {}, sendResponse);
+      await vi.waitFor(() => {
+        expect(sendResponse).toHaveBeenCalled();
+      });
+      return sendResponse.mock.calls[0][0];
+    };
+
+    it('should open the prompt selector on the focused element', async () => {
+      const { getPrompts } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([]);
+      mockTextarea.focus();
+
+      const response = await sendShortcut('openPromptPicker');
+
+      expect(response).toEqual({ success: true });
+      await vi.waitFor(() => {
+        expect(document.querySelector('.prompt-library-selector')).toBeTruthy();
+      });
+    });
+
+    it('should re-insert the last used prompt with remembered variable values', async () => {
+      const { getLastUsedPrompt, getPromptVariableValues } = await import('../../utils/storage');
+      (getLastUsedPrompt as any).mockResolvedValue({
+        id: '1',
+        title: 'Greeting',
+        content: 'Hello {{name}}',
+        category: 'Test',
+        createdAt: 1,
+        updatedAt: 1,
+        usageCount: 3,
+        lastUsedAt: 2
+      });
+      (getPromptVariableValues as any).mockResolvedValue({ name: 'Ada' });
+      mockTextarea.focus();
+
+      const response = await sendShortcut('insertLastPrompt');
+
+      expect(response).toEqual({ success: true, error: undefined });
+      expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+        mockTextarea,
+        'Hello Ada',
+        { fallbackToDefault: true, mode: 'replace', send: false }
+      );
+    });
+
+    it('should insert remembered values that look like built-in placeholders as typed', async () => {
+      const { getLastUsedPrompt, getPromptVariableValues } = await import('../../utils/storage');
+      (getLastUsedPrompt as any).mockResolvedValue({
+        id: '1',
+        title: 'Note',
+        content: 'Note: {{note}}',
+        category: 'Test',
+        createdAt: 1,
+        updatedAt: 1
+      });
+      (getPromptVariableValues as any).mockResolvedValue({ note: 'see {{clipboard}}' });
+      const readText = vi.fn().mockResolvedValue('secret');
+      Object.assign(navigator.clipboard, { readText });
+      mockTextarea.focus();
+
+      await sendShortcut('insertLastPrompt');
+
+      expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+        mockTextarea,
+        'Note: see {{clipboard}}',
+        { fallbackToDefault: true, mode: 'replace', send: false }
+      );
+      expect(readText).not.toHaveBeenCalled();
+    });
+
+    it('should report when no prompt has been used yet', async () => {
+      const { getLastUsedPrompt } = await import('../../utils/storage');
+      (getLastUsedPrompt as any).mockResolvedValue(null);
+      mockTextarea.focus();
+
+      const response = await sendShortcut('insertLastPrompt');
+
+      expect(response).toEqual({ success: false, error: 'No prompt has been used yet' });
+      expect((injector as any).platformManager.insertPrompt).not.toHaveBeenCalled();
+    });
+
+    it('should insert the prompt picked from the context menu', async () => {
+      const { getPrompts } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([
+        { id: '7', title: 'Review', content: 'Review this', category: 'Test', createdAt: 1, updatedAt: 1 }
+      ]);
+      mockTextarea.focus();
+
+      const response = await sendShortcut('insertPrompt', { promptId: '7' });
+
+      expect(response).toEqual({ success: true, error: undefined });
+      expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+        mockTextarea,
+        'Review this',
+        { fallbackToDefault: true, mode: 'replace', send: false }
+      );
+    });
+
+    it('should preview built-in variables before inserting a context menu prompt', async () => {
+      const { getPrompts } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([
+        { id: '8', title: 'Cite', content: 'Source: {{page_title}} ({{clipboard=no notes}})', category: 'Test', createdAt: 1, updatedAt: 1 }
+      ]);
+      document.title = 'Release notes';
+      Object.assign(navigator.clipboard, { readText: vi.fn().mockRejectedValue(new Error('Read permission denied')) });
+      mockTextarea.focus();
+
+      await sendShortcut('insertPrompt', { promptId: '8' });
+
+      // Icon re-injection may detach the selector from the page, so read it from the injector
+      const form = (injector as any).state.promptSelector?.querySelector('.prompt-variable-form') as HTMLFormElement;
+      expect(form).toBeTruthy();
+      expect(form.querySelector('.prompt-variable-builtins')?.textContent).toContain('Release notes');
+      expect((injector as any).platformManager.insertPrompt).not.toHaveBeenCalled();
+
+      // Event listeners are tracked by the mocked EventManager; submit through it
+      const submitCall = ((injector as any).eventManager.addTrackedEventListener as Mock).mock.calls
+        .find(([element, type]) => element === form && type === 'submit');
+      submitCall?.[2](new Event('submit'));
+
+      await vi.waitFor(() => {
+        expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+          mockTextarea,
+          'Source: Release notes (no notes)',
+          { fallbackToDefault: true, mode: 'replace', send: false }
+        );
+      });
+    });
+
+    it('should auto-send on enabled sites and show a notice when sending fails', async () => {
+      const { getPrompts, getSettings } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([
+        { id: '7', title: 'Review', content: 'Review this', category: 'Test', createdAt: 1, updatedAt: 1 }
+      ]);
+      (getSettings as any).mockResolvedValueOnce({
+        ...(await getSettings()),
+        autoSendSites: [window.location.hostname]
+      });
+      (injector as any).platformManager.insertPrompt.mockResolvedValueOnce({
+        success: true,
+        method: 'direct',
+        sent: false,
+        sendError: 'Send button not found'
+      });
+      mockTextarea.focus();
+
+      const response = await sendShortcut('insertPrompt', { promptId: '7' });
+
+      expect(response).toEqual({ success: true, error: undefined });
+      expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+        mockTextarea,
+        'Review this',
+        { fallbackToDefault: true, mode: 'replace', send: true }
+      );
+      expect(document.querySelector('.insertion-feedback')?.textContent)
+        .toBe('Prompt inserted but not sent: Send button not found');
+    });
+
+    it('should report a context menu prompt that no longer exists', async () => {
+      const { getPrompts } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([]);
+      mockTextarea.focus();
+
+      const response = await sendShortcut('insertPrompt', { promptId: 'missing' });
+
+      expect(response).toEqual({ success: false, error: 'Prompt not found' });
+    });
+
+    it('should run a prompt chain with progress controls on the page', async () => {
+      const { getPrompts, getPromptChain } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([
+        { id: 'a', title: 'Draft', content: 'Write a draft', category: 'Test', createdAt: 1, updatedAt: 1 },
+        { id: 'b', title: 'Refine', content: 'Refine it', category: 'Test', createdAt: 1, updatedAt: 1 }
+      ]);
+      (getPromptChain as any).mockResolvedValueOnce({
+        id: 'chain', title: 'Draft and refine', promptIds: ['a', 'b'], createdAt: 1, updatedAt: 1
+      });
+      (injector as any).platformManager.insertPrompt.mockResolvedValue({ success: true, method: 'direct', sent: true });
+      mockTextarea.focus();
+
+      const response = await sendShortcut('runChain', { chainId: 'chain' });
+
+      expect(response).toEqual({ success: true });
+      await vi.waitFor(() => {
+        expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+          mockTextarea,
+          'Write a draft',
+          { fallbackToDefault: true, mode: 'replace', send: true }
+        );
+      });
+      const overlay = document.querySelector('[aria-label="Prompt chain progress"]') as HTMLElement;
+      expect(overlay.textContent).toContain('Draft and refine');
+
+      (Array.from(overlay.querySelectorAll('button')).find(button => button.textContent === 'Stop') as HTMLElement).click();
+      await vi.waitFor(() => {
+        expect(overlay.textContent).toContain('Stopped with 0 of 2 steps done');
+      });
+      expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledTimes(1);
+
+      (Array.from(overlay.querySelectorAll('button')).find(button => button.textContent === 'Close') as HTMLElement).click();
+      expect(document.querySelector('[aria-label="Prompt chain progress"]')).toBeNull();
+    });
+
+    describe('chain steps that read the clipboard or the selection', () => {
+      const runChainStep = async (content: string) => {
+        const { getPrompts, getPromptChain } = await import('../../utils/storage');
+        (getPrompts as any).mockResolvedValue([
+          { id: 'a', title: 'Summarize', content, category: 'Test', createdAt: 1, updatedAt: 1 }
+        ]);
+        (getPromptChain as any).mockResolvedValueOnce({
+          id: 'chain', title: 'Summary', promptIds: ['a'], createdAt: 1, updatedAt: 1
+        });
+        (injector as any).platformManager.insertPrompt.mockResolvedValue({ success: true, method: 'direct', sent: true });
+        Object.assign(navigator.clipboard, { readText: vi.fn().mockResolvedValue('private notes') });
+        mockTextarea.focus();
+
+        await sendShortcut('runChain', { chainId: 'chain' });
+        return document.querySelector('[aria-label="Prompt chain progress"]') as HTMLElement;
+      };
+
+      const runClipboardChain = async () => {
+        const overlay = await runChainStep('Summarize {{clipboard}}');
+        await vi.waitFor(() => {
+          expect(overlay.querySelector('.prompt-chain-preview')?.textContent).toBe('Summarize private notes');
+        });
+        expect(overlay.querySelector('.prompt-chain-confirm')?.textContent).toBe('"Summarize" includes your clipboard. Send it?');
+        expect((injector as any).platformManager.insertPrompt).not.toHaveBeenCalled();
+        return overlay;
+      };
+
+      const clickButton = (overlay: HTMLElement, label: string) => {
+        (Array.from(overlay.querySelectorAll('button')).find(button => button.textContent === label) as HTMLElement).click();
+      };
+
+      it('should send the step once the user approves its preview', async () => {
+        const overlay = await runClipboardChain();
+
+        clickButton(overlay, 'Send');
+
+        await vi.waitFor(() => {
+          expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+            mockTextarea,
+            'Summarize private notes',
+            { fallbackToDefault: true, mode: 'replace', send: true }
+          );
+        });
+        expect(overlay.querySelector('.prompt-chain-preview')).toBeNull();
+        clickButton(overlay, 'Stop');
+      });
+
+      it('should stop the chain without sending when the user declines', async () => {
+        const overlay = await runClipboardChain();
+
+        clickButton(overlay, 'Stop');
+
+        await vi.waitFor(() => {
+          expect(overlay.textContent).toContain('Stopped with 0 of 1 steps done');
+        });
+        expect((injector as any).platformManager.insertPrompt).not.toHaveBeenCalled();
+      });
+
+      it('should not send a step with the page selection unseen', async () => {
+        const getSelection = vi.spyOn(window, 'getSelection').mockReturnValue({ toString: () => 'highlighted text' } as Selection);
+        const overlay = await runChainStep('Summarize {{selection}}');
+        getSelection.mockRestore();
+
+        await vi.waitFor(() => {
+          expect(overlay.querySelector('.prompt-chain-preview')?.textContent).toBe('Summarize highlighted text');
+        });
+        expect(overlay.querySelector('.prompt-chain-confirm')?.textContent).toBe('"Summarize" includes your page selection. Send it?');
+        expect((injector as any).platformManager.insertPrompt).not.toHaveBeenCalled();
+        clickButton(overlay, 'Stop');
+      });
+
+      it('should send steps with only page details without asking', async () => {
+        document.title = 'Release notes';
+        const overlay = await runChainStep('Summarize {{page_title}}');
+
+        await vi.waitFor(() => {
+          expect((injector as any).platformManager.insertPrompt).toHaveBeenCalledWith(
+            mockTextarea,
+            'Summarize Release notes',
+            { fallbackToDefault: true, mode: 'replace', send: true }
+          );
+        });
+        expect(overlay.querySelector('.prompt-chain-confirm')).toBeNull();
+        clickButton(overlay, 'Stop');
+      });
+    });
+
+    it('should report a chain that no longer exists', async () => {
+      mockTextarea.focus();
+
+      const response = await sendShortcut('runChain', { chainId: 'missing' });
+
+      expect(response).toEqual({ success: false, error: 'Prompt chain not found' });
+    });
+
+    it('should save a response as an example of the prompt inserted last', async () => {
+      const { getPrompts } = await import('../../utils/storage');
+      (getPrompts as any).mockResolvedValue([
+        { id: '7', title: 'Review', content: 'Review this', category: 'Test', createdAt: 1, updatedAt: 1 }
+      ]);
+      const message = document.createElement('div');
+      document.body.appendChild(message);
+      const platformManager = (injector as any).platformManager;
+      platformManager.findResponseMessages.mockReturnValue([message]);
+      platformManager.extractResponseText.mockReturnValue('Looks good overall');
+      (chrome.runtime.sendMessage as any).mockResolvedValue({ success: true });
+      mockTextarea.focus();
+
+      await sendShortcut('insertPrompt', { promptId: '7' });
+      (injector as any).responseCapture.scan();
+      const button = [...document.querySelectorAll<HTMLButtonElement>('.prompt-library-response-action')]
+        .find(item => item.textContent === 'Save as example of "Review"');
+      button?.click();
+
+      await vi.waitFor(() => {
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+          type: 'SAVE_EXAMPLE_OUTPUT',
+          data: { content: 'Looks good overall', promptId: '7', platform: expect.any(String) }
+        });
+        expect(document.querySelector('.insertion-feedback')?.textContent).toBe('Response saved as an example of "Review"');
+      });
+      message.remove();
+    });
+  });
+
   describe('cleanup', () => {
     it('should not throw when called', () => {
       expect(() => injector.cleanup()).not.toThrow();
@@ -97,10 +97,19 @@ describe('PlatformInsertionManager', () => {
       
       const result = await insertionManager.insertContent(content, { element });
       
-      expect(mockPlatformManager.insertContent).toHaveBeenCalledWith(element, content);
+      expect(mockPlatformManager.insertContent).toHaveBeenCalledWith(element, content, { mode: undefined });
       expect(result).toEqual(expectedResult);
     });
 
+    it('should pass the insertion mode to the platform manager', async () => {
+      const element = document.createElement('textarea');
+      mockPlatformManager.insertContent.mockResolvedValue({ success: true, method: 'direct' });
+
+      await insertionManager.insertContent('test content', { element, mode: 'append' });
+
+      expect(mockPlatformManager.insertContent).toHaveBeenCalledWith(element, 'test content', { mode: 'append' });
+    });
+
     it('should handle platform manager errors', async () => {
       const element = document.createElement('textarea');
       const content = 'test content';
@@ -122,7 +131,7 @@ describe('PlatformInsertionManager', () => {
       
       const result = await insertionManager.insertPrompt(element, content);
       
-      expect(mockPlatformManager.insertContent).toHaveBeenCalledWith(element, content);
+      expect(mockPlatformManager.insertContent).toHaveBeenCalledWith(element, content, {});
       expect(result).toEqual(expectedResult);
     });
 
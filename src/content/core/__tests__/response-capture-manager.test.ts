@@ -0,0 +1,79 @@
+/**
+ * Unit tests for ResponseCaptureManager
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import type { Prompt } from '../../types/index';
+import { ResponseCaptureManager, type ResponseCaptureCallbacks } from '../response-capture-manager';
+
+vi.mock('../../utils/logger', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  isDebugMode: vi.fn().mockReturnValue(false),
+  showDebugNotification: vi.fn()
+}));
+
+const prompt: Prompt = { id: 'summary', title: 'Summarize', content: 'Summarize this', category: 'Writing', createdAt: 1, updatedAt: 1 };
+
+describe('ResponseCaptureManager', () => {
+  let onSave: ReturnType<typeof vi.fn<ResponseCaptureCallbacks['onSave']>>;
+  let manager: ResponseCaptureManager;
+
+  const getActions = () => [...document.querySelectorAll<HTMLElement>('.prompt-library-response-actions')];
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div class="assistant">First answer</div><div class="user">Question</div><div class="assistant">Second answer</div>';
+    onSave = vi.fn(() => Promise.resolve());
+    manager = new ResponseCaptureManager({
+      findMessages: () => [...document.querySelectorAll<HTMLElement>('.assistant')],
+      extractText: (message) => message.textContent ?? '',
+      onSave
+    });
+  });
+
+  afterEach(() => {
+    manager.detach();
+    document.body.innerHTML = '';
+  });
+
+  it('should add save actions after each assistant message', () => {
+    manager.attach();
+
+    const actions = getActions();
+    expect(actions).toHaveLength(2);
+    expect(actions[0].previousElementSibling?.textContent).toBe('First answer');
+    expect(actions[0].querySelectorAll('button')).toHaveLength(1);
+
+    actions[1].querySelector('button')?.click();
+    expect(onSave).toHaveBeenCalledWith('prompt', 'Second answer', actions[1]);
+  });
+
+  it('should offer saving as an example once a prompt has been inserted', () => {
+    manager.attach();
+    manager.setLinkedPrompt(prompt);
+
+    const button = [...getActions()[0].querySelectorAll('button')].find(item => item.textContent === 'Save as example of "Summarize"');
+    button?.click();
+
+    expect(onSave).toHaveBeenCalledWith('example', 'First answer', getActions()[0]);
+  });
+
+  it('should add actions to new messages and restore ones the page removed', () => {
+    manager.attach();
+    getActions()[0].remove();
+    const message = document.createElement('div');
+    message.className = 'assistant';
+    message.textContent = 'Third answer';
+    document.body.appendChild(message);
+
+    manager.scan();
+
+    expect(getActions()).toHaveLength(3);
+
+    manager.detach();
+    expect(getActions()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for SlashCommandManager
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import type { Prompt } from '../../types/index';
+import { EventManager } from '../../ui/event-manager';
+import { getPrompts } from '../../utils/storage';
+import { SlashCommandManager } from '../slash-command-manager';
+
+vi.mock('../../utils/logger', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  isDebugMode: vi.fn().mockReturnValue(false),
+  showDebugNotification: vi.fn()
+}));
+
+vi.mock('../../utils/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/storage')>()),
+  getPrompts: vi.fn()
+}));
+
+vi.mock('../../utils/theme-manager', () => ({
+  ThemeManager: {
+    getInstance: () => ({ getCurrentTheme: () => 'light' })
+  }
+}));
+
+const prompts: Prompt[] = [
+  { id: '1', title: 'Code Review', content: 'Review this code', category: 'Dev', createdAt: 1, updatedAt: 1, usageCount: 2, lastUsedAt: 10 },
+  { id: '2', title: 'Summarize Text', content: 'Summarize this', category: 'Writing', createdAt: 2, updatedAt: 2, usageCount: 5, lastUsedAt: 20 }
+];
+
+describe('SlashCommandManager', () => {
+  let eventManager: EventManager;
+  let onSelect: ReturnType<typeof vi.fn<(prompt: Prompt, element: HTMLElement) => Promise<void>>>;
+  let manager: SlashCommandManager;
+  let textarea: HTMLTextAreaElement;
+
+  const type = (value: string) => {
+    textarea.value = value;
+    textarea.setSelectionRange(value.length, value.length);
+    textarea.dispatchEvent(new Event('input', { bubbles: true }));
+  };
+
+  const waitForMenu = () => vi.waitFor(() => {
+    const menu = document.querySelector('.slash-command-menu');
+    expect(menu).not.toBeNull();
+    return menu as HTMLElement;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPrompts).mockResolvedValue(prompts);
+    document.body.innerHTML = '';
+
+    textarea = document.createElement('textarea');
+    document.body.appendChild(textarea);
+    textarea.focus();
+
+    eventManager = new EventManager();
+    onSelect = vi.fn<(prompt: Prompt, element: HTMLElement) => Promise<void>>().mockResolvedValue(undefined);
+    manager = new SlashCommandManager(eventManager, onSelect);
+    manager.attach();
+    manager.configure({ trigger: '/', enabled: true });
+  });
+
+  afterEach(() => {
+    manager.close();
+    eventManager.cleanup();
+  });
+
+  it('should show matching prompts after the trigger is typed', async () => {
+    type('Please /summ');
+
+    const menu = await waitForMenu();
+    const items = menu.querySelectorAll('.prompt-item');
+    expect(items).toHaveLength(1);
+    expect(items[0].getAttribute('data-prompt-id')).toBe('2');
+    expect(items[0].classList.contains('keyboard-selected')).toBe(true);
+  });
+
+  it('should list recently used prompts first when nothing follows the trigger', async () => {
+    type('/');
+
+    const menu = await waitForMenu();
+    const ids = Array.from(menu.querySelectorAll('.prompt-item')).map(item => item.getAttribute('data-prompt-id'));
+    expect(ids).toEqual(['2', '1']);
+  });
+
+  it('should keep pinned prompts at the top of the suggestions', async () => {
+    vi.mocked(getPrompts).mockResolvedValue([prompts[0], { ...prompts[1], pinned: false }, { ...prompts[0], id: '3', title: 'Code Pinned', pinned: true, lastUsedAt: 1 }]);
+
+    type('/code');
+
+    const menu = await waitForMenu();
+    const ids = Array.from(menu.querySelectorAll('.prompt-item')).map(item => item.getAttribute('data-prompt-id'));
+    expect(ids).toEqual(['3', '1']);
+  });
+
+  it('should remove the trigger text and hand the prompt over on Enter', async () => {
+    type('Hi /code');
+    await waitForMenu();
+
+    const event = new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true });
+    textarea.dispatchEvent(event);
+
+    await vi.waitFor(() => {
+      expect(onSelect).toHaveBeenCalledWith(prompts[0], textarea);
+    });
+    expect(event.defaultPrevented).toBe(true);
+    expect(textarea.value).toBe('Hi ');
+    expect(manager.isOpen()).toBe(false);
+  });
+
+  it('should close the menu on Escape without selecting', async () => {
+    type('/code');
+    await waitForMenu();
+
+    textarea.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true, cancelable: true }));
+
+    expect(manager.isOpen()).toBe(false);
+    expect(document.querySelector('.slash-command-menu')).toBeNull();
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('should ignore the trigger in the middle of a word', async () => {
+    type('and/or');
+    await Promise.resolve();
+
+    expect(getPrompts).not.toHaveBeenCalled();
+    expect(manager.isOpen()).toBe(false);
+  });
+
+  it('should do nothing when disabled for the site', async () => {
+    manager.configure({ trigger: '/', enabled: false });
+
+    type('/code');
+    await Promise.resolve();
+
+    expect(getPrompts).not.toHaveBeenCalled();
+    expect(manager.isOpen()).toBe(false);
+  });
+
+  it('should use a custom trigger character', async () => {
+    manager.configure({ trigger: ';', enabled: true });
+
+    type('/code');
+    await Promise.resolve();
+    expect(manager.isOpen()).toBe(false);
+
+    type(';code');
+    await waitForMenu();
+    expect(manager.isOpen()).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Chain Runner module
+ * Runs a prompt chain: inserts and sends each step, then waits for the
+ * platform to finish responding before moving on to the next one
+ */
+
+import { PROMPT_CHAIN_RESPONSE_TIMING } from '../../constants';
+import type { PromptChain } from '../../types/index';
+import type { InsertionResult, Prompt } from '../types/index';
+import { debug, warn } from '../utils/logger';
+
+export type ChainStepStatus = 'pending' | 'running' | 'waiting' | 'done' | 'failed';
+
+export type ChainRunState = 'running' | 'paused' | 'completed' | 'stopped' | 'failed';
+
+export interface ChainStepProgress {
+  promptId: string;
+  title: string;
+  status: ChainStepStatus;
+}
+
+export interface ChainRunProgress {
+  chainTitle: string;
+  state: ChainRunState;
+  steps: ChainStepProgress[];
+  error?: string;
+}
+
+export interface ChainRunnerCallbacks {
+  /** Inserts and sends one step's prompt through the regular insertion path */
+  insertStep: (prompt: Prompt) => Promise<InsertionResult>;
+  /** Whether the platform is still generating a response */
+  isResponding: () => boolean;
+  /** Called whenever a step or the run changes state */
+  onProgress: (progress: ChainRunProgress) => void;
+}
+
+export class ChainRunner {
+  private callbacks: ChainRunnerCallbacks;
+  private progress: ChainRunProgress | null;
+  private pauseRequested: boolean;
+  private stopRequested: boolean;
+  // Resolves the sleep or pause the run is currently waiting in, so stop and resume act at once
+  private wake: (() => void) | null;
+
+  constructor(callbacks: ChainRunnerCallbacks) {
+    this.callbacks = callbacks;
+    this.progress = null;
+    this.pauseRequested = false;
+    this.stopRequested = false;
+    this.wake = null;
+  }
+
+  isRunning(): boolean {
+    return this.progress !== null && (this.progress.state === 'running' || this.progress.state === 'paused');
+  }
+
+  /**
+   * Runs every step of the chain in order
+   * @param chain - Chain to run
+   * @param prompts - Prompts of the library; a step whose prompt is gone fails the run
+   * @returns Final progress (completed, stopped or failed)
+   */
+  async run(chain: PromptChain, prompts: Prompt[]): Promise<ChainRunProgress> {
+    if (this.isRunning()) {
+      throw new Error('A prompt chain is already running');
+    }
+
+    const promptsById = new Map(prompts.map(prompt => [prompt.id, prompt]));
+    this.pauseRequested = false;
+    this.stopRequested = false;
+    this.progress = {
+      chainTitle: chain.title,
+      state: 'running',
+      steps: chain.promptIds.map(promptId => ({
+        promptId,
+        title: promptsById.get(promptId)?.title ?? 'Deleted prompt',
+        status: 'pending'
+      }))
+    };
+    this.emit();
+
+    const progress = this.progress;
+    for (const step of progress.steps) {
+      // Pausing takes effect between steps, never halfway through one
+      if (this.pauseRequested) {
+        this.setState('paused');
+        await new Promise<void>(resolve => { this.wake = resolve; });
+        this.wake = null;
+      }
+      if (this.stopRequested) {
+        return this.finish('stopped');
+      }
+      this.setState('running');
+
+      const prompt = promptsById.get(step.promptId);
+      if (!prompt) {
+        return this.failStep(step, 'The prompt of this step was deleted');
+      }
+
+      this.setStepStatus(step, 'running');
+      const result = await this.callbacks.insertStep(prompt);
+      // A step stopped before it was sent (e.g. declined by the user) is not a failure
+      if (this.stopRequested && !result.sent) {
+        step.status = 'pending';
+        return this.finish('stopped');
+      }
+      if (!result.success) {
+        return this.failStep(step, result.error ?? 'Insertion failed');
+      }
+      if (!result.sent) {
+        return this.failStep(step, result.sendError ?? 'The prompt was not sent');
+      }
+
+      this.setStepStatus(step, 'waiting');
+      const error = await this.waitForResponse();
+      if (this.stopRequested) {
+        return this.finish('stopped');
+      }
+      if (error) {
+        return this.failStep(step, error);
+      }
+      this.setStepStatus(step, 'done');
+      debug('Prompt chain step completed', { promptId: step.promptId });
+    }
+
+    return this.finish('completed');
+  }
+
+  /**
+   * Holds the run before its next step; the step in progress still completes
+   */
+  pause(): void {
+    if (this.progress?.state === 'running') {
+      this.pauseRequested = true;
+    }
+  }
+
+  resume(): void {
+    this.pauseRequested = false;
+    if (this.progress?.state === 'paused') {
+      this.wake?.();
+    }
+  }
+
+  /**
+   * Stops the run right away; a response being generated is left alone
+   */
+  stop(): void {
+    if (!this.isRunning()) {
+      return;
+    }
+    this.stopRequested = true;
+    this.wake?.();
+  }
+
+  /**
+   * Waits for the response to a sent step to start streaming and then finish
+   *
+   * A response that never seems to start (fast answer, or a platform without a
+   * detector) counts as finished once the start timeout passes. The response
+   * must stay finished for a settle period, as streams pause briefly.
+   * @returns Error message if the response did not finish in time
+   */
+  private async waitForResponse(): Promise<string | null> {
+    const timing = PROMPT_CHAIN_RESPONSE_TIMING;
+    const startDeadline = Date.now() + timing.START_TIMEOUT_MS;
+    while (!this.callbacks.isResponding() && Date.now() < startDeadline) {
+      await this.sleep(timing.POLL_INTERVAL_MS);
+      if (this.stopRequested) {
+        return null;
+      }
+    }
+
+    const responseDeadline = Date.now() + timing.RESPONSE_TIMEOUT_MS;
+    let idleSince: number | null = null;
+    while (Date.now() < responseDeadline) {
+      if (this.callbacks.isResponding()) {
+        idleSince = null;
+      } else {
+        idleSince ??= Date.now();
+        if (Date.now() - idleSince >= timing.SETTLE_MS) {
+          return null;
+        }
+      }
+      await this.sleep(timing.POLL_INTERVAL_MS);
+      if (this.stopRequested) {
+        return null;
+      }
+    }
+
+    warn('Prompt chain response did not finish in time');
+    return 'The response did not finish in time';
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timeout);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  private setState(state: ChainRunState): void {
+    if (this.progress && this.progress.state !== state) {
+      this.progress.state = state;
+      this.emit();
+    }
+  }
+
+  private setStepStatus(step: ChainStepProgress, status: ChainStepStatus): void {
+    step.status = status;
+    this.emit();
+  }
+
+  private failStep(step: ChainStepProgress, error: string): ChainRunProgress {
+    step.status = 'failed';
+    warn('Prompt chain step failed', { promptId: step.promptId, error });
+    return this.finish('failed', error);
+  }
+
+  private finish(state: ChainRunState, error?: string): ChainRunProgress {
+    const progress = this.progress as ChainRunProgress;
+    progress.state = state;
+    progress.error = error;
+    this.emit();
+    debug('Prompt chain finished', { state });
+    return { ...progress, steps: progress.steps.map(step => ({ ...step })) };
+  }
+
+  private emit(): void {
+    if (this.progress) {
+      this.callbacks.onProgress({ ...this.progress, steps: this.progress.steps.map(step => ({ ...step })) });
+    }
+  }
+}
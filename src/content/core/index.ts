@@ -2,5 +2,7 @@
  * Core module exports
  */
 
+export { ChainRunner } from './chain-runner';
 export { PlatformInsertionManager } from './insertion-manager';
-export { PromptLibraryInjector } from './injector';
\ No newline at end of file
+export { PromptLibraryInjector } from './injector';
+export { ResponseCaptureManager } from './response-capture-manager';
\ No newline at end of file
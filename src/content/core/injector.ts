@@ -7,19 +7,54 @@
  */
 
 import { getPlatformByHostname } from '../../config/platforms';
-import type { ElementFingerprint } from '../../types/index';
-import type { InsertionResult, Prompt } from '../types/index';
+import { DEFAULT_INSERTION_MODE, DEFAULT_SLASH_COMMAND_TRIGGER } from '../../constants';
+import type { ElementFingerprint, InsertionMode, PromptVariable, PromptVariableValues } from '../../types/index';
+import { getModifierInsertionMode } from '../../utils/insertionModes';
+import { sortPinnedFirst } from '../../utils/pinnedPrompts';
+import {
+  type BuiltInVariableName,
+  type BuiltInVariableValues,
+  fillPromptVariables,
+  getBuiltInVariables,
+  getInitialVariableValues,
+  parsePromptVariables
+} from '../../utils/promptVariables';
+import type { InsertionOptions, InsertionResult, Prompt } from '../types/index';
+import { ChainOverlay } from '../ui/chain-overlay';
 import { UIElementFactory } from '../ui/element-factory';
 import { EventManager } from '../ui/event-manager';
 import { KeyboardNavigationManager } from '../ui/keyboard-navigation';
+import { createVariableForm, readVariableFormValues } from '../ui/variable-form';
+import { getPageSelection, resolveBuiltInVariables } from '../utils/built-in-variables';
 import { DOMUtils } from '../utils/dom';
 import { getElementFingerprintGenerator } from '../utils/element-fingerprint';
 import { debug, error, info, isDebugMode, refreshDebugMode, warn } from '../utils/logger';
-import { type CustomSite, createPromptListItem, type ExtensionSettings, getPrompts, getSettings, isSiteEnabled } from '../utils/storage';
+import {
+  type CustomSite,
+  createPromptListItem,
+  type ExtensionSettings,
+  getLastUsedPrompt,
+  getPromptChain,
+  getPromptVariableValues,
+  getPrompts,
+  getSettings,
+  isSiteEnabled,
+  savePromptVariableValues
+} from '../utils/storage';
 import { injectCSS } from '../utils/styles';
 import { ThemeManager } from '../utils/theme-manager';
 
+import { ChainRunner } from './chain-runner';
 import { PlatformInsertionManager } from './insertion-manager';
+import { ResponseCaptureManager, type ResponseSaveTarget } from './response-capture-manager';
+import { SlashCommandManager } from './slash-command-manager';
+
+// Built-in values taken from the user rather than the page's public state;
+// chain steps using them wait for the user's approval
+const PRIVATE_BUILT_IN_LABELS: Partial<Record<BuiltInVariableName, string>> = {
+  clipboard: 'clipboard',
+  selection: 'page selection'
+};
 
 // Floating UI imports for robust positioning fallback
 
@@ -63,6 +98,12 @@ export class PromptLibraryInjector {
   private uiFactory: UIElementFactory;
   private keyboardNav: KeyboardNavigationManager | null;
   private platformManager: PlatformInsertionManager;
+  private slashCommands: SlashCommandManager;
+  private chainRunner: ChainRunner;
+  private chainOverlay: ChainOverlay;
+  private responseCapture: ResponseCaptureManager;
+  // Prompt inserted last on this page, the one captured responses are saved as examples of
+  private lastInsertedPrompt: Prompt | null = null;
   private customSelectorRetry: CustomSelectorRetry;
   private spaState: SPAState;
   private selectorCache: Map<string, HTMLElement[]>;
@@ -70,6 +111,15 @@ export class PromptLibraryInjector {
   private readonly cacheTimeout: number = 2000;
   private floatingUICleanups: WeakMap<HTMLElement, () => void>;
   private iconCleanups: Map<HTMLElement, () => void>;
+  // Insertion options for the currently open selector (set when opened via keyboard shortcut)
+  private selectorInsertOptions: InsertionOptions = {};
+  // Caret/selection in a contenteditable target when the selector opened, for 'cursor' insertion
+  private targetSelection: Range | null = null;
+  // Page text selected when a prompt was last picked, for the {{selection}} variable
+  private pageSelection = '';
+  // Message shown over the input after an insertion (e.g. when auto-send failed)
+  private insertionFeedback: HTMLElement | null = null;
+  private readonly feedbackDuration: number = 5000;
 
   constructor() {
     const hostname = window.location.hostname || '';
@@ -101,6 +151,35 @@ export class PromptLibraryInjector {
       timeout: 5000
     });
 
+    // A slash command is typed where the prompt should go, so it goes in at the caret
+    this.slashCommands = new SlashCommandManager(this.eventManager, async (prompt, element) => {
+      await this.insertPromptDirectly(prompt, element, { mode: 'cursor' });
+    });
+
+    // Chain steps replace the input and are sent, whatever the site's insertion settings
+    this.chainRunner = new ChainRunner({
+      insertStep: (prompt) => this.insertChainStep(prompt),
+      isResponding: () => this.platformManager.isResponding(),
+      // A run stopped by cleanup reports its end after the overlay is gone
+      onProgress: (progress) => {
+        if (this.state.isInitialized && this.state.isSiteEnabled) {
+          this.chainOverlay.update(progress);
+        }
+      }
+    });
+    this.chainOverlay = new ChainOverlay({
+      onPause: () => { this.chainRunner.pause(); },
+      onResume: () => { this.chainRunner.resume(); },
+      onStop: () => { this.chainRunner.stop(); },
+      onClose: () => { this.chainOverlay.remove(); }
+    });
+
+    this.responseCapture = new ResponseCaptureManager({
+      findMessages: () => this.platformManager.findResponseMessages(),
+      extractText: (message) => this.platformManager.extractResponseText(message),
+      onSave: (target, content, actions) => this.saveCapturedResponse(target, content, actions)
+    });
+
     // Enhanced retry system for custom selectors
     this.customSelectorRetry = {
       attempts: 0,
@@ -202,6 +281,9 @@ export class PromptLibraryInjector {
       // Setup SPA monitoring for dynamic navigation detection
       this.setupSPAMonitoring();
 
+      this.slashCommands.attach();
+      this.applySlashCommandSettings();
+
       // Wait for page to be ready
       if (document.readyState === 'loading') {
         document.addEventListener('DOMContentLoaded', () => { this.startDetection(); });
@@ -223,6 +305,7 @@ export class PromptLibraryInjector {
   private startDetection(): void {
     // Initial detection
     this.detectAndInjectIcon();
+    this.responseCapture.attach();
 
     // For dynamic content loading, retry detection periodically
     let retryCount = 0;
@@ -292,6 +375,23 @@ export class PromptLibraryInjector {
       } else if (message.action === 'testSelector') {
         const result = this.handleSelectorTest(message as { selector: string; placement: string; offset: { x: number; y: number }; zIndex: number });
         sendResponse(result);
+      } else if (message.action === 'openPromptPicker') {
+        sendResponse(this.handleOpenPromptPickerCommand());
+      } else if (message.action === 'insertLastPrompt') {
+        this.handleInsertLastPromptCommand().then(sendResponse).catch((err: unknown) => {
+          error('Failed to insert last prompt', err as Error);
+          sendResponse({ success: false, error: 'Failed to insert last prompt' });
+        });
+      } else if (message.action === 'insertPrompt' && typeof message.promptId === 'string') {
+        this.handleInsertPromptCommand(message.promptId).then(sendResponse).catch((err: unknown) => {
+          error('Failed to insert prompt', err as Error);
+          sendResponse({ success: false, error: 'Failed to insert prompt' });
+        });
+      } else if (message.action === 'runChain' && typeof message.chainId === 'string') {
+        this.handleRunChainCommand(message.chainId).then(sendResponse).catch((err: unknown) => {
+          error('Failed to run prompt chain', err as Error);
+          sendResponse({ success: false, error: 'Failed to run prompt chain' });
+        });
       } else {
         debug('Ignoring unrecognized message', { action: message.action });
         sendResponse({ success: false, error: 'Unknown message action' });
@@ -302,6 +402,177 @@ export class PromptLibraryInjector {
     debug('Message listener setup completed');
   }
 
+  /**
+   * Element a keyboard shortcut acts on: the focused editable element, or the
+   * input the icon was last attached to
+   */
+  private getShortcutTarget(): HTMLElement | null {
+    return DOMUtils.getFocusedEditableElement() ?? this.state.currentTextarea;
+  }
+
+  /**
+   * Handle the "open prompt picker" keyboard shortcut
+   */
+  private handleOpenPromptPickerCommand(): { success: boolean; error?: string } {
+    if (!this.state.isSiteEnabled) {
+      return { success: false, error: 'Prompt library is disabled on this site' };
+    }
+
+    const target = this.getShortcutTarget();
+    if (!target) {
+      return { success: false, error: 'No editable element is focused' };
+    }
+
+    // The focused element may not be the one the platform strategy targets
+    void this.showPromptSelector(target, { fallbackToDefault: true });
+    return { success: true };
+  }
+
+  /**
+   * Handle the "insert last prompt" keyboard shortcut
+   */
+  private async handleInsertLastPromptCommand(): Promise<{ success: boolean; error?: string }> {
+    if (!this.state.isSiteEnabled) {
+      return { success: false, error: 'Prompt library is disabled on this site' };
+    }
+
+    const target = this.getShortcutTarget();
+    if (!target) {
+      return { success: false, error: 'No editable element is focused' };
+    }
+
+    this.pageSelection = getPageSelection();
+    const prompt = await getLastUsedPrompt();
+    if (!prompt) {
+      return { success: false, error: 'No prompt has been used yet' };
+    }
+
+    // Built-in values (clipboard, selection) are never inserted unseen
+    if (getBuiltInVariables(prompt.content).length > 0) {
+      debug('[CONTENT] Previewing last used prompt', { promptId: prompt.id });
+      const result = await this.insertPromptDirectly(prompt, target, { fallbackToDefault: true });
+      return { success: result.success, error: result.error };
+    }
+
+    // Re-use the values entered last time instead of showing the form
+    const values = await this.getRememberedVariableValues(prompt);
+
+    debug('[CONTENT] Re-inserting last used prompt', { promptId: prompt.id });
+    const result = await this.insertSelectedPrompt(prompt, target, { fallbackToDefault: true }, values);
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Handle an "insert prompt" request from the context menu
+   */
+  private async handleInsertPromptCommand(promptId: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.state.isSiteEnabled) {
+      return { success: false, error: 'Prompt library is disabled on this site' };
+    }
+
+    // Right-clicking an editable field focuses it
+    const target = this.getShortcutTarget();
+    if (!target) {
+      return { success: false, error: 'No editable element is focused' };
+    }
+
+    const prompts = await getPrompts();
+    const prompt = prompts.find(p => p.id === promptId);
+    if (!prompt) {
+      return { success: false, error: 'Prompt not found' };
+    }
+
+    debug('[CONTENT] Inserting prompt from context menu', { promptId });
+    const result = await this.insertPromptDirectly(prompt, target, { fallbackToDefault: true });
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Handle a "run prompt chain" request from the context menu. The chain runs
+   * in the background of the page; the response only says whether it started.
+   */
+  private async handleRunChainCommand(chainId: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.state.isSiteEnabled) {
+      return { success: false, error: 'Prompt library is disabled on this site' };
+    }
+    if (this.chainRunner.isRunning()) {
+      return { success: false, error: 'A prompt chain is already running' };
+    }
+
+    const chain = await getPromptChain(chainId);
+    if (!chain) {
+      return { success: false, error: 'Prompt chain not found' };
+    }
+    if (!this.getChainTarget()) {
+      return { success: false, error: 'No chat input found on this page' };
+    }
+
+    debug('[CONTENT] Running prompt chain', { chainId, steps: chain.promptIds.length });
+    this.pageSelection = getPageSelection();
+    const prompts = await getPrompts();
+    this.chainRunner.run(chain, prompts).catch((err: unknown) => {
+      error('Prompt chain run failed', err instanceof Error ? err : new Error(String(err)), { chainId });
+    });
+    return { success: true };
+  }
+
+  /**
+   * Chat input for the next chain step. Platforms may replace the input after a
+   * message is sent, so it is looked up again when the last one left the page.
+   */
+  private getChainTarget(): HTMLElement | null {
+    const current = this.state.currentTextarea;
+    if (current?.isConnected) {
+      return current;
+    }
+    return this.getShortcutTarget() ?? this.findTextareaWithCaching(this.platformManager.getAllSelectors());
+  }
+
+  /**
+   * Inserts and sends one step of a prompt chain, filling template variables
+   * with the values entered last time. A step that reads the clipboard or the
+   * page selection is only sent once the user has seen and approved its text
+   * in the chain overlay.
+   */
+  private async insertChainStep(prompt: Prompt): Promise<InsertionResult> {
+    const values = await this.getRememberedVariableValues(prompt);
+    const builtIns = getBuiltInVariables(prompt.content);
+    const builtInValues = await resolveBuiltInVariables(builtIns, { selection: this.pageSelection });
+
+    // Same rule as direct inserts: clipboard and selection are never sent unseen
+    const unseen = builtIns
+      .map(variable => PRIVATE_BUILT_IN_LABELS[variable.name])
+      .filter((label): label is string => label !== undefined);
+    if (unseen.length > 0) {
+      const confirmed = await this.chainOverlay.confirm(
+        `"${prompt.title}" includes your ${unseen.join(' and ')}. Send it?`,
+        fillPromptVariables(prompt.content, values, builtInValues)
+      );
+      if (!confirmed) {
+        this.chainRunner.stop();
+        return { success: false, error: `Stopped before sending your ${unseen.join(' and ')}` };
+      }
+    }
+
+    const target = this.getChainTarget();
+    if (!target) {
+      return { success: false, error: 'No chat input found on this page' };
+    }
+    return this.insertSelectedPrompt(prompt, target, { mode: 'replace', send: true, fallbackToDefault: true }, values, builtInValues);
+  }
+
+  /**
+   * Values entered last time for the prompt's template variables, with defaults
+   * for the ones never filled in
+   */
+  private async getRememberedVariableValues(prompt: Prompt): Promise<PromptVariableValues> {
+    const variables = parsePromptVariables(prompt.content);
+    if (variables.length === 0) {
+      return {};
+    }
+    return getInitialVariableValues(variables, await getPromptVariableValues(prompt.id));
+  }
+
   /**
    * Handle settings update from popup
    */
@@ -349,12 +620,45 @@ export class PromptLibraryInjector {
         }, 500);
       } else {
         debug('No site enablement change, updating settings only');
+        this.applySlashCommandSettings();
       }
     } catch (err) {
       error('Error handling settings update', err as Error);
     }
   }
 
+  /**
+   * Enables slash commands when this site is in the configured list
+   */
+  private applySlashCommandSettings(): void {
+    const settings = this.state.settings;
+    this.slashCommands.configure({
+      trigger: settings?.slashCommandTrigger ?? DEFAULT_SLASH_COMMAND_TRIGGER,
+      enabled: this.state.isSiteEnabled && (settings?.slashCommandSites.includes(this.state.hostname) ?? false)
+    });
+  }
+
+  /**
+   * Inserts a prompt picked outside the prompt selector (slash command suggestions,
+   * context menu), showing the variable form first when the prompt needs it
+   */
+  private async insertPromptDirectly(
+    prompt: Prompt,
+    element: HTMLElement,
+    options: InsertionOptions = {}
+  ): Promise<InsertionResult> {
+    this.pageSelection = getPageSelection();
+    // Same gate as handlePromptSelection: built-in values are previewed before insertion
+    if (parsePromptVariables(prompt.content).length > 0 || getBuiltInVariables(prompt.content).length > 0) {
+      // The variable form lives inside the prompt selector
+      await this.showPromptSelector(element, options);
+      await this.handlePromptSelection(prompt, element);
+      return { success: true };
+    }
+
+    return this.insertSelectedPrompt(prompt, element, options);
+  }
+
   /**
    * Handle reinitialize request
    */
@@ -1707,7 +2011,7 @@ export class PromptLibraryInjector {
   /**
    * Shows the prompt selector modal
    */
-  async showPromptSelector(targetElement: HTMLElement): Promise<void> {
+  async showPromptSelector(targetElement: HTMLElement, insertOptions: InsertionOptions = {}): Promise<void> {
     try {
       debug('Showing prompt selector', {
         textareaTag: targetElement.tagName,
@@ -1716,12 +2020,16 @@ export class PromptLibraryInjector {
 
       // Remove existing selector
       this.closePromptSelector();
+      this.selectorInsertOptions = insertOptions;
+      this.pageSelection = getPageSelection();
+      // The selector's search input takes focus, so remember where the caret was
+      this.targetSelection = this.captureTargetSelection(targetElement);
 
       // Store target element for use in filterPrompts
       this.state.currentTargetElement = targetElement;
 
-      // Get prompts from storage
-      const prompts = await getPrompts();
+      // Get prompts from storage, pinned ones first (search results keep this order)
+      const prompts = sortPinnedFirst(await getPrompts());
       debug('Retrieved prompts for selector', { count: prompts.length });
 
       // Create selector UI
@@ -1806,6 +2114,7 @@ export class PromptLibraryInjector {
     const promptList = document.createElement('div');
     promptList.className = 'prompt-list';
     promptList.setAttribute('role', 'listbox');
+    promptList.title = 'Shift: append · Alt: insert at cursor · Shift+Alt: prepend · Ctrl/Cmd: replace';
 
     // Add prompt items
     if (prompts.length > 0) {
@@ -1925,13 +2234,16 @@ export class PromptLibraryInjector {
         hasDataset: !!item.dataset.promptId
       });
 
-      this.eventManager.addTrackedEventListener(item, 'click', () => {
+      this.eventManager.addTrackedEventListener(item, 'click', (e: Event) => {
         debug('[CONTENT] Prompt item clicked', { promptId: item.dataset.promptId });
         const promptId = item.dataset.promptId;
         const prompt = prompts.find(p => p.id === promptId);
         if (prompt) {
-          debug('[CONTENT] Inserting prompt content', { promptId, contentLength: prompt.content.length });
-          void this.handlePromptSelection(prompt, targetElement);
+          // Modifier keys override the site's insertion mode for this prompt
+          const modifierMode = e instanceof MouseEvent ? getModifierInsertionMode(e) : null;
+          const options = modifierMode ? { ...this.selectorInsertOptions, mode: modifierMode } : this.selectorInsertOptions;
+          debug('[CONTENT] Inserting prompt content', { promptId, contentLength: prompt.content.length, mode: options.mode });
+          void this.handlePromptSelection(prompt, targetElement, options);
         } else {
           debug('[CONTENT] Prompt not found for ID', { promptId });
         }
@@ -1939,11 +2251,55 @@ export class PromptLibraryInjector {
     });
   }
 
-  private async handlePromptSelection(prompt: Prompt, targetElement: HTMLElement): Promise<void> {
+  private async handlePromptSelection(
+    prompt: Prompt,
+    targetElement: HTMLElement,
+    options: InsertionOptions = this.selectorInsertOptions
+  ): Promise<void> {
+    const variables = parsePromptVariables(prompt.content);
+
+    // Prompts with template variables get a fill-in form before insertion, which
+    // also previews the values of built-in variables
+    if (variables.length > 0 || getBuiltInVariables(prompt.content).length > 0) {
+      try {
+        await this.showVariableForm(prompt, variables, targetElement, options);
+        return;
+      } catch (err) {
+        error('[CONTENT] Failed to show variable form', err instanceof Error ? err : new Error(String(err)), {
+          promptId: prompt.id
+        });
+      }
+    }
+
+    await this.insertSelectedPrompt(prompt, targetElement, options);
+  }
+
+  /**
+   * Inserts the content of a selected prompt, filled with the given variable values,
+   * and reports usage. Built-in variables are resolved here, right before insertion,
+   * unless values already shown to the user are passed in.
+   */
+  private async insertSelectedPrompt(
+    prompt: Prompt,
+    targetElement: HTMLElement,
+    options: InsertionOptions = {},
+    values: PromptVariableValues = {},
+    builtInValues?: BuiltInVariableValues
+  ): Promise<InsertionResult> {
     try {
-      const result = await this.insertPrompt(targetElement, prompt.content);
+      const builtIns = getBuiltInVariables(prompt.content);
+      const resolvedContent = fillPromptVariables(
+        prompt.content,
+        values,
+        builtInValues ?? await resolveBuiltInVariables(builtIns, { selection: this.pageSelection })
+      );
+
+      const result = await this.insertPrompt(targetElement, resolvedContent, options);
 
       if (result.success) {
+        this.lastInsertedPrompt = prompt;
+        this.responseCapture.setLinkedPrompt(prompt);
+
         try {
           // Get platform name from hostname lookup for accurate analytics
           // Falls back to hostname for custom sites to enable per-site analytics
@@ -1966,15 +2322,100 @@ export class PromptLibraryInjector {
       } else {
         warn('[CONTENT] Prompt insertion reported failure', { promptId: prompt.id, error: result.error });
       }
+      return result;
     } catch (err) {
       error('[CONTENT] Error handling prompt selection', err instanceof Error ? err : new Error(String(err)), {
         promptId: prompt.id
       });
+      return { success: false, error: 'Insertion failed due to error' };
     } finally {
       this.closePromptSelector();
     }
   }
 
+  /**
+   * Replaces the prompt list with a fill-in form for the prompt's template variables
+   */
+  private async showVariableForm(
+    prompt: Prompt,
+    variables: PromptVariable[],
+    targetElement: HTMLElement,
+    options: InsertionOptions
+  ): Promise<void> {
+    const selector = this.state.promptSelector;
+    if (!selector) {
+      throw new Error('Prompt selector is not open');
+    }
+
+    const remembered = await getPromptVariableValues(prompt.id);
+    const builtIns = getBuiltInVariables(prompt.content);
+    const builtInValues = await resolveBuiltInVariables(builtIns, { selection: this.pageSelection });
+    const form = createVariableForm(prompt, variables, getInitialVariableValues(variables, remembered), builtIns, builtInValues);
+
+    // The list keyboard navigation would swallow Enter/arrow keys typed into the form
+    if (this.keyboardNav) {
+      this.keyboardNav.destroy();
+      this.keyboardNav = null;
+    }
+
+    const searchSection = selector.querySelector<HTMLElement>('.prompt-search');
+    const promptList = selector.querySelector<HTMLElement>('.prompt-list');
+    if (searchSection) {
+      searchSection.hidden = true;
+    }
+    if (promptList) {
+      promptList.hidden = true;
+    }
+    selector.appendChild(form);
+
+    debug('[CONTENT] Showing variable form', { promptId: prompt.id, variableCount: variables.length });
+
+    const submit = () => {
+      const values = readVariableFormValues(form, variables);
+      if (variables.length > 0) {
+        void savePromptVariableValues(prompt.id, values);
+      }
+      // Built-ins are inserted as previewed, not read again
+      void this.insertSelectedPrompt(prompt, targetElement, options, values, builtInValues);
+    };
+
+    this.eventManager.addTrackedEventListener(form, 'submit', (e: Event) => {
+      e.preventDefault();
+      submit();
+    });
+
+    this.eventManager.addTrackedEventListener(form, 'keydown', ((e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.closePromptSelector();
+      } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        // Ctrl/Cmd+Enter submits from multiline fields too
+        e.preventDefault();
+        submit();
+      }
+    }) as EventListener);
+
+    const backButton = form.querySelector<HTMLElement>('.prompt-variable-back');
+    if (backButton) {
+      this.eventManager.addTrackedEventListener(backButton, 'click', (e: Event) => {
+        // The button is detached below, so keep the outside-click handler from closing the selector
+        e.stopPropagation();
+        form.remove();
+        if (searchSection) {
+          searchSection.hidden = false;
+        }
+        if (promptList) {
+          promptList.hidden = false;
+        }
+        this.keyboardNav = new KeyboardNavigationManager(selector, this.eventManager);
+        this.keyboardNav.initialize();
+      });
+    }
+
+    // Prompts with only built-in variables have no fields, so Insert takes focus
+    form.querySelector<HTMLElement>('.prompt-variable-input, .prompt-variable-submit')?.focus();
+  }
+
   /**
    * Sets up event listeners for the prompt selector
    */
@@ -2060,7 +2501,8 @@ export class PromptLibraryInjector {
     const filteredPrompts = prompts.filter(prompt => 
       prompt.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       prompt.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      prompt.category.toLowerCase().includes(searchTerm.toLowerCase())
+      prompt.category.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      prompt.tags?.some(tag => tag.includes(searchTerm.toLowerCase()))
     );
 
     const promptList = selector.querySelector('.prompt-list');
@@ -2101,17 +2543,140 @@ export class PromptLibraryInjector {
   }
 
   /**
-   * Inserts a prompt into the target element
+   * Insertion mode chosen for this site in the settings
    */
-  private async insertPrompt(element: HTMLElement, content: string): Promise<InsertionResult> {
+  private getSiteInsertionMode(): InsertionMode {
+    return this.state.settings?.insertionModes[this.state.hostname] ?? DEFAULT_INSERTION_MODE;
+  }
+
+  /**
+   * Whether prompts are sent right after insertion on this site
+   */
+  private isAutoSendSite(): boolean {
+    return this.state.settings?.autoSendSites.includes(this.state.hostname) ?? false;
+  }
+
+  /**
+   * Sends a response read from the page to the background, as a new prompt or
+   * as an example output of the prompt inserted last
+   */
+  private async saveCapturedResponse(target: ResponseSaveTarget, content: string, actions: HTMLElement): Promise<void> {
+    if (!content) {
+      this.showInsertionFeedback(actions, 'This response has no text to save', 'error');
+      return;
+    }
+
+    const prompt = this.lastInsertedPrompt;
+    if (target === 'example' && !prompt) {
+      return;
+    }
+
+    try {
+      const platform = getPlatformByHostname(window.location.hostname)?.id ?? window.location.hostname;
+      const response = await chrome.runtime.sendMessage<unknown, { success: boolean; error?: string } | undefined>(
+        target === 'prompt'
+          ? { type: 'SAVE_RESPONSE_AS_PROMPT', data: { content } }
+          : { type: 'SAVE_EXAMPLE_OUTPUT', data: { content, promptId: prompt?.id, platform } }
+      );
+      if (!response?.success) {
+        this.showInsertionFeedback(actions, `Could not save response: ${response?.error ?? 'no reply from the extension'}`, 'error');
+        return;
+      }
+      this.showInsertionFeedback(
+        actions,
+        target === 'prompt' ? 'Response saved as a new prompt' : `Response saved as an example of "${prompt?.title ?? ''}"`,
+        'success'
+      );
+    } catch (err) {
+      warn('[CONTENT] Failed to save response', { target, error: err instanceof Error ? err.message : String(err) });
+      this.showInsertionFeedback(actions, 'Could not save response', 'error');
+    }
+  }
+
+  /**
+   * Shows a short message just above the element a prompt was inserted into
+   */
+  private showInsertionFeedback(element: HTMLElement, message: string, type: 'success' | 'error'): void {
+    this.insertionFeedback?.remove();
+
+    const feedback = document.createElement('div');
+    feedback.className = `insertion-feedback ${type} show`;
+    feedback.setAttribute('role', type === 'error' ? 'alert' : 'status');
+    feedback.textContent = message;
+
+    const rect = element.getBoundingClientRect();
+    feedback.style.position = 'fixed';
+    feedback.style.top = `${Math.max(rect.top - 40, 8)}px`;
+    feedback.style.left = `${rect.left + rect.width / 2}px`;
+
+    document.body.appendChild(feedback);
+    this.insertionFeedback = feedback;
+
+    setTimeout(() => {
+      feedback.remove();
+      if (this.insertionFeedback === feedback) {
+        this.insertionFeedback = null;
+      }
+    }, this.feedbackDuration);
+  }
+
+  /**
+   * Copy of the selection inside a contenteditable target, if there is one
+   * (textareas and inputs keep their own selection while blurred)
+   */
+  private captureTargetSelection(targetElement: HTMLElement): Range | null {
+    if (targetElement instanceof HTMLTextAreaElement || targetElement instanceof HTMLInputElement) {
+      return null;
+    }
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0) {
+      return null;
+    }
+    const range = selection.getRangeAt(0);
+    return targetElement.contains(range.startContainer) && targetElement.contains(range.endContainer)
+      ? range.cloneRange()
+      : null;
+  }
+
+  /**
+   * Puts back the selection captured when the prompt selector opened
+   */
+  private restoreTargetSelection(targetElement: HTMLElement): void {
+    const range = this.targetSelection;
+    const selection = window.getSelection();
+    if (!range || !selection || !targetElement.contains(range.startContainer)) {
+      return;
+    }
+    targetElement.focus();
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+
+  /**
+   * Inserts a prompt into the target element, using the site's insertion mode
+   * and auto-send setting unless the options carry them
+   */
+  private async insertPrompt(element: HTMLElement, content: string, options: InsertionOptions = {}): Promise<InsertionResult> {
     try {
-      const result = await this.platformManager.insertPrompt(element, content);
+      const mode = options.mode ?? this.getSiteInsertionMode();
+      if (mode === 'cursor') {
+        this.restoreTargetSelection(element);
+      }
+
+      const send = options.send ?? this.isAutoSendSite();
+      const result = await this.platformManager.insertPrompt(element, content, { ...options, mode, send });
       
       if (result.success) {
         debug('Prompt inserted successfully', {
           method: result.method,
+          mode,
+          sent: result.sent,
           contentLength: content.length
         });
+        // The prompt is still in the input, so the user can send it themselves
+        if (result.sendError) {
+          this.showInsertionFeedback(element, `Prompt inserted but not sent: ${result.sendError}`, 'error');
+        }
       } else {
         warn('Prompt insertion failed', { error: result.error });
       }
@@ -2141,6 +2706,8 @@ export class PromptLibraryInjector {
     }
     // Clear the stored target element
     this.state.currentTargetElement = null;
+    this.selectorInsertOptions = {};
+    this.targetSelection = null;
   }
 
   /**
@@ -2183,6 +2750,12 @@ export class PromptLibraryInjector {
     }
 
     this.closePromptSelector();
+    this.slashCommands.close();
+    this.insertionFeedback?.remove();
+    this.insertionFeedback = null;
+    this.chainRunner.stop();
+    this.chainOverlay.remove();
+    this.responseCapture.detach();
 
     // Clean up managers (but not message listeners)
     this.eventManager.cleanup();
@@ -2239,6 +2812,12 @@ export class PromptLibraryInjector {
     }
 
     this.closePromptSelector();
+    this.slashCommands.close();
+    this.insertionFeedback?.remove();
+    this.insertionFeedback = null;
+    this.chainRunner.stop();
+    this.chainOverlay.remove();
+    this.responseCapture.detach();
 
     // Clean up managers
     this.eventManager.cleanup();
@@ -6,8 +6,9 @@
  * by the legacy code while using the improved modular architecture.
  */
 
+import type { InsertionMode } from '../../types/index';
 import { PlatformManager } from '../platforms/platform-manager';
-import type { InsertionResult } from '../types/index';
+import type { InsertionOptions, InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 import { warn, debug } from '../utils/logger';
 import type { CustomSite } from '../utils/storage';
@@ -41,10 +42,13 @@ export class PlatformInsertionManager {
   /**
    * Inserts content using the strategy pattern
    * @param content - Content to insert
-   * @param options - Insertion options (legacy parameter for backward compatibility)
+   * @param options - Target element (legacy parameter for backward compatibility) and insertion mode
    * @returns Promise<InsertionResult> Result of insertion attempt
    */
-  async insertContent(content: string, options: { element?: HTMLElement } = {}): Promise<InsertionResult> {
+  async insertContent(
+    content: string,
+    options: { element?: HTMLElement; mode?: InsertionMode } = {}
+  ): Promise<InsertionResult> {
     if (!options.element) {
       return {
         success: false,
@@ -52,17 +56,48 @@ export class PlatformInsertionManager {
       };
     }
 
-    return this.platformManager.insertContent(options.element, content);
+    return this.platformManager.insertContent(options.element, content, { mode: options.mode });
   }
 
   /**
    * Inserts prompt content into the specified element
    * @param element - Target element for insertion
    * @param content - Content to insert
+   * @param options - `mode` places the content (replace, append, prepend or at the caret); set
+   *   `fallbackToDefault` to retry with the generic strategy on failure
    * @returns Promise<InsertionResult> Result of insertion attempt
    */
-  async insertPrompt(element: HTMLElement, content: string): Promise<InsertionResult> {
-    return this.platformManager.insertContent(element, content);
+  async insertPrompt(
+    element: HTMLElement,
+    content: string,
+    options: InsertionOptions = {}
+  ): Promise<InsertionResult> {
+    return this.platformManager.insertContent(element, content, options);
+  }
+
+  /**
+   * Checks whether the platform is still generating a response
+   * @returns True while a response is streaming
+   */
+  isResponding(): boolean {
+    return this.platformManager.isResponding();
+  }
+
+  /**
+   * Finds the assistant messages on the page
+   * @returns Messages in document order
+   */
+  findResponseMessages(): HTMLElement[] {
+    return this.platformManager.findResponseMessages();
+  }
+
+  /**
+   * Reads the text of an assistant message
+   * @param message - Message found by findResponseMessages
+   * @returns Message text
+   */
+  extractResponseText(message: HTMLElement): string {
+    return this.platformManager.extractResponseText(message);
   }
 
   /**
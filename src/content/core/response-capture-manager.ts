@@ -0,0 +1,138 @@
+/**
+ * Response Capture Manager module
+ * Adds save actions next to each assistant message, so a response can be kept
+ * as a new prompt or as an example output of the prompt inserted last
+ */
+
+import type { Prompt } from '../types/index';
+import { DOMUtils } from '../utils/dom';
+import { debug } from '../utils/logger';
+
+// Messages change many times while a response streams; scan once they settle
+const SCAN_DEBOUNCE_MS = 500;
+
+export type ResponseSaveTarget = 'prompt' | 'example';
+
+export interface ResponseCaptureCallbacks {
+  /** Finds the assistant messages on the page */
+  findMessages: () => HTMLElement[];
+  /** Reads the text of an assistant message */
+  extractText: (message: HTMLElement) => string;
+  /** Saves the text; the actions element is where feedback should be shown */
+  onSave: (target: ResponseSaveTarget, content: string, actions: HTMLElement) => Promise<void>;
+}
+
+export class ResponseCaptureManager {
+  private callbacks: ResponseCaptureCallbacks;
+  private observer: MutationObserver | null;
+  private scanTimeout: number | null;
+  // Actions added after each message; re-added when the page re-renders them away
+  private actions: Map<HTMLElement, HTMLElement>;
+  // Prompt inserted last on this page, offered as the one a response belongs to
+  private linkedPrompt: Prompt | null;
+
+  constructor(callbacks: ResponseCaptureCallbacks) {
+    this.callbacks = callbacks;
+    this.observer = null;
+    this.scanTimeout = null;
+    this.actions = new Map();
+    this.linkedPrompt = null;
+  }
+
+  /**
+   * Adds actions to the messages already on the page and watches for new ones
+   */
+  attach(): void {
+    if (this.observer) {
+      return;
+    }
+    this.observer = new MutationObserver(() => { this.scheduleScan(); });
+    this.observer.observe(document.body, { childList: true, subtree: true });
+    this.scan();
+  }
+
+  /**
+   * Stops watching the page and removes every action added to it
+   */
+  detach(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    if (this.scanTimeout !== null) {
+      clearTimeout(this.scanTimeout);
+      this.scanTimeout = null;
+    }
+    this.actions.forEach(actions => { actions.remove(); });
+    this.actions.clear();
+  }
+
+  /**
+   * Sets the prompt responses can be saved as examples of, and relabels the actions
+   */
+  setLinkedPrompt(prompt: Prompt): void {
+    this.linkedPrompt = prompt;
+    this.actions.forEach((actions, message) => { this.renderActions(actions, message); });
+  }
+
+  /**
+   * Adds actions to messages that have none, and forgets messages that left the page
+   */
+  scan(): void {
+    for (const [message, actions] of this.actions) {
+      if (!message.isConnected) {
+        actions.remove();
+        this.actions.delete(message);
+      }
+    }
+
+    for (const message of this.callbacks.findMessages()) {
+      const existing = this.actions.get(message);
+      if (existing?.isConnected) {
+        continue;
+      }
+
+      const actions = existing ?? DOMUtils.createElement('div', {
+        class: 'prompt-library-response-actions',
+        role: 'group',
+        'aria-label': 'Save response to prompt library'
+      });
+      this.renderActions(actions, message);
+      message.insertAdjacentElement('afterend', actions);
+      this.actions.set(message, actions);
+    }
+  }
+
+  private scheduleScan(): void {
+    if (this.scanTimeout !== null) {
+      clearTimeout(this.scanTimeout);
+    }
+    this.scanTimeout = window.setTimeout(() => {
+      this.scanTimeout = null;
+      this.scan();
+    }, SCAN_DEBOUNCE_MS);
+  }
+
+  private renderActions(actions: HTMLElement, message: HTMLElement): void {
+    actions.replaceChildren(this.createButton('Save as prompt', 'prompt', message, actions));
+    if (this.linkedPrompt) {
+      actions.appendChild(this.createButton(`Save as example of "${this.linkedPrompt.title}"`, 'example', message, actions));
+    }
+  }
+
+  private createButton(label: string, target: ResponseSaveTarget, message: HTMLElement, actions: HTMLElement): HTMLElement {
+    const button = DOMUtils.createElement('button', {
+      type: 'button',
+      class: 'prompt-library-response-action'
+    }, label) as HTMLButtonElement;
+
+    button.addEventListener('click', () => {
+      // The text is read when saving, as the message may have streamed on since the action was added
+      const content = this.callbacks.extractText(message);
+      debug('Saving response', { target, length: content.length });
+      button.disabled = true;
+      void this.callbacks.onSave(target, content, actions).finally(() => {
+        button.disabled = false;
+      });
+    });
+    return button;
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Slash Command Manager module
+ * Shows an inline prompt autocomplete when the trigger character (default "/")
+ * is typed in a chat input, and hands the chosen prompt back for insertion
+ */
+
+import { DEFAULT_SLASH_COMMAND_TRIGGER } from '../../constants';
+import { SearchIndex } from '../../services/SearchIndex';
+import { comparePinned, sortPinnedFirst } from '../../utils/pinnedPrompts';
+import { findSlashCommandQuery } from '../../utils/slashCommands';
+import type { Prompt } from '../types/index';
+import { EventManager } from '../ui/event-manager';
+import { KeyboardNavigationManager } from '../ui/keyboard-navigation';
+import { DOMUtils } from '../utils/dom';
+import { debug, error } from '../utils/logger';
+import { createPromptListItem, getPrompts } from '../utils/storage';
+import { ThemeManager } from '../utils/theme-manager';
+
+const MAX_SUGGESTIONS = 8;
+
+export interface SlashCommandConfig {
+  trigger: string;
+  enabled: boolean;
+}
+
+export class SlashCommandManager {
+  private eventManager: EventManager;
+  private onSelect: (prompt: Prompt, element: HTMLElement) => Promise<void>;
+  private config: SlashCommandConfig;
+  private searchIndex: SearchIndex;
+  private menu: HTMLElement | null;
+  // Listeners that only live as long as the menu is open
+  private menuEvents: EventManager | null;
+  private keyboardNav: KeyboardNavigationManager | null;
+  private activeElement: HTMLElement | null;
+  private suggestions: Prompt[];
+  // Prompts are loaded once per trigger and dropped when the menu closes
+  private prompts: Prompt[] | null;
+  // Incremented on every update so slower prompt loads cannot overwrite newer results
+  private requestId: number;
+
+  constructor(eventManager: EventManager, onSelect: (prompt: Prompt, element: HTMLElement) => Promise<void>) {
+    this.eventManager = eventManager;
+    this.onSelect = onSelect;
+    this.config = { trigger: DEFAULT_SLASH_COMMAND_TRIGGER, enabled: false };
+    this.searchIndex = new SearchIndex();
+    this.menu = null;
+    this.menuEvents = null;
+    this.keyboardNav = null;
+    this.activeElement = null;
+    this.suggestions = [];
+    this.prompts = null;
+    this.requestId = 0;
+  }
+
+  /**
+   * Updates the trigger character and whether slash commands are active on this site
+   */
+  configure(config: SlashCommandConfig): void {
+    this.config = config;
+    if (!config.enabled) {
+      this.close();
+    }
+    debug('Slash commands configured', { trigger: config.trigger, enabled: config.enabled });
+  }
+
+  /**
+   * Starts listening for typed triggers. Listeners are tracked by the shared
+   * event manager, so they are removed with the rest of the injector's listeners.
+   */
+  attach(): void {
+    // Capture phase: some editors stop input events from bubbling
+    this.eventManager.addTrackedEventListener(document, 'input', ((e: InputEvent) => {
+      this.handleInput(e);
+    }) as EventListener, true);
+
+    this.eventManager.addTrackedEventListener(document, 'focusout', ((e: FocusEvent) => {
+      if (this.activeElement && e.target === this.activeElement) {
+        this.close();
+      }
+    }) as EventListener, true);
+  }
+
+  isOpen(): boolean {
+    return this.menu !== null;
+  }
+
+  /**
+   * Removes the suggestion menu and forgets the current trigger
+   */
+  close(): void {
+    this.requestId++;
+
+    if (this.keyboardNav) {
+      this.keyboardNav.destroy();
+      this.keyboardNav = null;
+    }
+    if (this.menuEvents) {
+      this.menuEvents.cleanup();
+      this.menuEvents = null;
+    }
+    if (this.menu) {
+      this.menu.remove();
+      this.menu = null;
+    }
+
+    this.activeElement = null;
+    this.suggestions = [];
+    this.prompts = null;
+  }
+
+  private handleInput(e: InputEvent): void {
+    if (!this.config.enabled || e.isComposing) {
+      return;
+    }
+
+    const element = DOMUtils.getFocusedEditableElement();
+    // Typing in our own UI (selector search, variable form) never opens suggestions
+    if (!element || element.closest('.prompt-library-selector')) {
+      this.close();
+      return;
+    }
+
+    const text = DOMUtils.getTextBeforeCaret(element);
+    const match = text === null ? null : findSlashCommandQuery(text, this.config.trigger);
+    if (!match) {
+      this.close();
+      return;
+    }
+
+    void this.showSuggestions(element, match.query);
+  }
+
+  private async showSuggestions(element: HTMLElement, query: string): Promise<void> {
+    const requestId = ++this.requestId;
+
+    try {
+      const prompts = this.prompts ?? await getPrompts();
+      if (requestId !== this.requestId) {
+        return;
+      }
+      this.prompts = prompts;
+
+      const suggestions = this.rankPrompts(prompts, query);
+      if (suggestions.length === 0) {
+        this.close();
+        return;
+      }
+
+      this.activeElement = element;
+      this.suggestions = suggestions;
+      this.renderMenu(element, suggestions);
+    } catch (err) {
+      error('Failed to show slash command suggestions', err instanceof Error ? err : new Error(String(err)));
+      this.close();
+    }
+  }
+
+  private rankPrompts(prompts: Prompt[], query: string): Prompt[] {
+    if (!query.trim()) {
+      // Nothing typed after the trigger yet: pinned, then most recently used
+      return [...prompts]
+        .sort((a, b) => comparePinned(a, b) || (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0))
+        .slice(0, MAX_SUGGESTIONS);
+    }
+
+    // Rank all matches before moving pinned ones up, so a pinned match is never cut off
+    const matches = this.searchIndex
+      .search(query, { prompts })
+      .map(result => result.prompt);
+    return sortPinnedFirst(matches).slice(0, MAX_SUGGESTIONS);
+  }
+
+  private renderMenu(element: HTMLElement, suggestions: Prompt[]): void {
+    const menu = this.menu ?? this.createMenu();
+    const list = menu.querySelector('.prompt-list');
+    if (!list) {
+      return;
+    }
+
+    while (list.firstChild) {
+      list.removeChild(list.firstChild);
+    }
+    suggestions.forEach((prompt, index) => {
+      list.appendChild(createPromptListItem(prompt, index, 'slash-command-item'));
+    });
+
+    this.keyboardNav?.updateItems();
+    this.positionMenu(menu, element);
+  }
+
+  private createMenu(): HTMLElement {
+    const menu = document.createElement('div');
+    menu.className = `prompt-library-selector slash-command-menu positioned-above ${ThemeManager.getInstance().getCurrentTheme()}-theme`;
+    menu.setAttribute('role', 'listbox');
+    menu.setAttribute('aria-label', 'Prompt suggestions');
+
+    const list = document.createElement('div');
+    list.className = 'prompt-list';
+    menu.appendChild(list);
+
+    const menuEvents = new EventManager();
+    // Keep focus (and the caret) in the chat input while clicking a suggestion
+    menuEvents.addTrackedEventListener(menu, 'mousedown', (e: Event) => {
+      e.preventDefault();
+    });
+    menuEvents.addTrackedEventListener(menu, 'click', (e: Event) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>('.prompt-item');
+      const prompt = this.suggestions.find(p => p.id === item?.dataset.promptId);
+      if (prompt) {
+        void this.select(prompt);
+      }
+    });
+
+    document.body.appendChild(menu);
+    this.menu = menu;
+    this.menuEvents = menuEvents;
+
+    this.keyboardNav = new KeyboardNavigationManager(menu, menuEvents, {
+      capture: true,
+      selectFirst: true,
+      onClose: () => { this.close(); }
+    });
+    this.keyboardNav.initialize();
+
+    return menu;
+  }
+
+  private positionMenu(menu: HTMLElement, element: HTMLElement): void {
+    // Chat inputs sit at the bottom of the page, so the menu opens above them
+    const rect = element.getBoundingClientRect();
+    menu.style.left = `${String(Math.max(8, rect.left))}px`;
+    menu.style.bottom = `${String(Math.max(8, window.innerHeight - rect.top + 8))}px`;
+  }
+
+  private async select(prompt: Prompt): Promise<void> {
+    const element = this.activeElement;
+    this.close();
+    if (!element) {
+      return;
+    }
+
+    debug('[CONTENT] Slash command prompt selected', { promptId: prompt.id });
+
+    // Remove the typed trigger and query before the prompt goes in
+    const text = DOMUtils.getTextBeforeCaret(element);
+    const match = text === null ? null : findSlashCommandQuery(text, this.config.trigger);
+    if (match) {
+      DOMUtils.deleteTextBeforeCaret(element, match.length);
+    }
+
+    try {
+      await this.onSelect(prompt, element);
+    } catch (err) {
+      error('Failed to insert slash command prompt', err instanceof Error ? err : new Error(String(err)), {
+        promptId: prompt.id
+      });
+    }
+  }
+}
@@ -9,7 +9,7 @@
  
  
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import type { InsertionResult, PlatformConfig } from '../../types/index';
 import type { UIElementFactory } from '../../ui/element-factory';
@@ -114,6 +114,109 @@ describe('PlatformStrategy', () => {
     });
   });
 
+  describe('send', () => {
+    let form: HTMLFormElement;
+    let button: HTMLButtonElement;
+
+    beforeEach(() => {
+      form = document.createElement('form');
+      button = document.createElement('button');
+      button.setAttribute('aria-label', 'Send message');
+      form.append(mockElement, button);
+      document.body.appendChild(form);
+    });
+
+    afterEach(() => {
+      form.remove();
+      vi.useRealTimers();
+    });
+
+    it('should click the first send button that matches', async () => {
+      const clickSpy = vi.spyOn(button, 'click');
+
+      const result = await new TestStrategy().send(mockElement, ['button.missing', 'button[aria-label="Send message"]']);
+
+      expect(result).toEqual({ success: true });
+      expect(clickSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a disabled send button to become enabled', async () => {
+      vi.useFakeTimers();
+      button.disabled = true;
+      const clickSpy = vi.spyOn(button, 'click');
+
+      const sending = new TestStrategy().send(mockElement, ['button']);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(clickSpy).not.toHaveBeenCalled();
+
+      button.disabled = false;
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(await sending).toEqual({ success: true });
+      expect(clickSpy).toHaveBeenCalled();
+    });
+
+    it('should report a send button that stays disabled or is missing', async () => {
+      vi.useFakeTimers();
+      button.setAttribute('aria-disabled', 'true');
+      const strategy = new TestStrategy();
+
+      const disabled = strategy.send(mockElement, ['button']);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(await disabled).toEqual({ success: false, error: 'Send button is disabled' });
+
+      const missing = strategy.send(mockElement, ['button.missing', '[invalid']);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(await missing).toEqual({ success: false, error: 'Send button not found' });
+
+      expect(await strategy.send(mockElement, [])).toEqual({
+        success: false,
+        error: 'No send button is configured for this site'
+      });
+    });
+  });
+
+  describe('isResponding', () => {
+    it('should report a response while a stop button is on the page', () => {
+      const strategy = new TestStrategy();
+      const stopButton = document.createElement('button');
+      stopButton.setAttribute('aria-label', 'Stop response');
+
+      expect(strategy.isResponding(['button[aria-label="Stop response"]'])).toBe(false);
+
+      document.body.appendChild(stopButton);
+      expect(strategy.isResponding(['[invalid', 'button[aria-label="Stop response"]'])).toBe(true);
+      expect(strategy.isResponding([])).toBe(false);
+
+      stopButton.remove();
+    });
+  });
+
+  describe('response capture', () => {
+    it('should find the outermost assistant messages in document order', () => {
+      const strategy = new TestStrategy();
+      document.body.innerHTML = `
+        <div class="response" id="first"><div class="response-body">One</div></div>
+        <div class="user">Question</div>
+        <div class="response-body" id="second">Two</div>
+      `;
+
+      const messages = strategy.findResponseMessages(['.response-body', '[invalid', '.response']);
+
+      expect(messages.map(message => message.id)).toEqual(['first', 'second']);
+      document.body.innerHTML = '';
+    });
+
+    it('should read the text of a message without its buttons or hidden content', () => {
+      const strategy = new TestStrategy();
+      const message = document.createElement('div');
+      message.innerHTML = '<p>First line<br>Second line</p><ul><li>Item</li></ul><span aria-hidden="true">icon</span><button>Copy</button>';
+
+      expect(strategy.extractResponseText(message)).toBe('First line\nSecond line\nItem');
+      expect(message.querySelector('button')).not.toBeNull();
+    });
+  });
+
   describe('cleanup', () => {
     it('should not throw when cleanup is called', () => {
       const strategy = new TestStrategy();
@@ -93,6 +93,21 @@ describe('ClaudeStrategy', () => {
     });
   });
 
+  describe('isResponding', () => {
+    it('should report a response while a message is streaming', () => {
+      const message = document.createElement('div');
+      message.setAttribute('data-is-streaming', 'true');
+      document.body.appendChild(message);
+
+      expect(strategy.isResponding([])).toBe(true);
+
+      message.setAttribute('data-is-streaming', 'false');
+      expect(strategy.isResponding([])).toBe(false);
+
+      message.remove();
+    });
+  });
+
   describe('insert', () => {
     beforeEach(() => {
       // Mock DOM methods
@@ -131,7 +146,7 @@ describe('ClaudeStrategy', () => {
       
       (mockElement as any).pmViewDesc = { view: mockView };
       
-      const result = await strategy.insert(mockElement, 'test content');
+      const result = await strategy.insert(mockElement, 'test content', 'cursor');
       
       expect(result.success).toBe(true);
       expect(result.method).toBe('prosemirror-transaction');
@@ -139,6 +154,27 @@ describe('ClaudeStrategy', () => {
       expect(mockView.dispatch).toHaveBeenCalled();
     });
 
+    it('should replace or append to the whole document in a ProseMirror transaction', async () => {
+      const mockView = {
+        state: {
+          tr: {
+            insertText: vi.fn().mockReturnValue({})
+          },
+          selection: { from: 3, to: 3 },
+          doc: { content: { size: 7 }, textContent: 'Hello' }
+        },
+        dispatch: vi.fn()
+      };
+
+      (mockElement as any).pmViewDesc = { view: mockView };
+
+      await strategy.insert(mockElement, 'test content', 'replace');
+      expect(mockView.state.tr.insertText).toHaveBeenLastCalledWith('test content', 1, 6);
+
+      await strategy.insert(mockElement, 'test content', 'append');
+      expect(mockView.state.tr.insertText).toHaveBeenLastCalledWith('\n\ntest content', 6, 6);
+    });
+
     it('should fall back to execCommand when ProseMirror transaction fails', async () => {
       const result = await strategy.insert(mockElement, 'test content');
       
@@ -130,6 +130,29 @@ describe('DefaultStrategy', () => {
       expect(mockContentEditableDiv.focus).toHaveBeenCalled();
     });
 
+    it('should append, prepend or insert at the caret of a textarea', async () => {
+      mockTextarea.value = 'Hello';
+      await strategy.insert(mockTextarea, 'World', 'append');
+      expect(mockTextarea.value).toBe('Hello\n\nWorld');
+
+      mockTextarea.value = 'Hello';
+      await strategy.insert(mockTextarea, 'World', 'prepend');
+      expect(mockTextarea.value).toBe('World\n\nHello');
+
+      mockTextarea.value = 'Hello there';
+      mockTextarea.setSelectionRange(6, 11);
+      await strategy.insert(mockTextarea, 'World', 'cursor');
+      expect(mockTextarea.value).toBe('Hello World');
+      expect(mockTextarea.selectionStart).toBe(11);
+    });
+
+    it('should append to contenteditable text', async () => {
+      mockContentEditableDiv.textContent = 'Hello';
+      await strategy.insert(mockContentEditableDiv, 'World', 'append');
+
+      expect(mockContentEditableDiv.textContent).toBe('Hello\n\nWorld');
+    });
+
     it('should dispatch input and change events for textarea', async () => {
       await strategy.insert(mockTextarea, 'test content');
       
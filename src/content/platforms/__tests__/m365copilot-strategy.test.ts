@@ -733,7 +733,7 @@ describe('M365CopilotStrategy', () => {
       setupGetSelectionMock(true);
 
       // Act
-      const selection = strategy['_prepareSelection'](mockLexicalEditor);
+      const selection = strategy['_prepareSelection'](mockLexicalEditor, 'content', 'replace');
 
       // Assert
       expect(selection).toBeDefined();
@@ -745,7 +745,7 @@ describe('M365CopilotStrategy', () => {
       setupGetSelectionMock(false);
 
       // Act
-      const selection = strategy['_prepareSelection'](mockLexicalEditor);
+      const selection = strategy['_prepareSelection'](mockLexicalEditor, 'content', 'replace');
 
       // Assert
       expect(selection).toBeNull();
@@ -757,7 +757,7 @@ describe('M365CopilotStrategy', () => {
       const mockSelection = window.getSelection();
 
       // Act
-      strategy['_prepareSelection'](mockLexicalEditor);
+      strategy['_prepareSelection'](mockLexicalEditor, 'content', 'replace');
 
       // Assert
       expect(getSelectionSpy).toHaveBeenCalled();
@@ -236,7 +236,7 @@ describe('MistralStrategy', () => {
 
       (mockElement as any)._pmViewDesc = { view: mockView };
 
-      const result = await strategy.insert(mockElement, 'test content');
+      const result = await strategy.insert(mockElement, 'test content', 'cursor');
 
       expect(result.success).toBe(true);
       expect(result.method).toBe('mistral-prosemirror-transaction');
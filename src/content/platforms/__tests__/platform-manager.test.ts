@@ -484,6 +484,42 @@ describe('PlatformManager', () => {
       expect(result.error).toBe('Strategy insertion failed');
     });
 
+    it('should fall back to the default strategy when requested', async () => {
+      const errorStrategy = new TestStrategy('error', 100);
+      vi.spyOn(errorStrategy, 'insert').mockResolvedValue({ success: false, error: 'Editor not found' });
+      manager.registerStrategy(errorStrategy);
+
+      const divElement = document.createElement('div');
+      const result = await manager.insertContent(divElement, 'test content', { fallbackToDefault: true });
+
+      expect(result.success).toBe(true);
+      expect(result.method).toBe('default');
+    });
+
+    it('should send after insertion with the platform submit selectors', async () => {
+      const { getPlatformByHostname } = await import('../../../config/platforms');
+      (getPlatformByHostname as Mock).mockReturnValueOnce({ submitSelectors: ['button.send'] });
+      const testStrategy = new TestStrategy();
+      const sendSpy = vi.spyOn(testStrategy, 'send').mockResolvedValue({ success: true });
+      manager.registerStrategy(testStrategy);
+
+      const divElement = document.createElement('div');
+      const result = await manager.insertContent(divElement, 'test content', { send: true });
+
+      expect(sendSpy).toHaveBeenCalledWith(divElement, ['button.send']);
+      expect(result).toMatchObject({ success: true, method: 'test', sent: true });
+    });
+
+    it('should keep the insertion when sending fails', async () => {
+      const testStrategy = new TestStrategy();
+      vi.spyOn(testStrategy, 'send').mockResolvedValue({ success: false, error: 'Send button not found' });
+      manager.registerStrategy(testStrategy);
+
+      const result = await manager.insertContent(document.createElement('div'), 'test content', { send: true });
+
+      expect(result).toMatchObject({ success: true, sent: false, sendError: 'Send button not found' });
+    });
+
     it('should log successful insertion', async () => {
       const testStrategy = new TestStrategy();
       manager.registerStrategy(testStrategy);
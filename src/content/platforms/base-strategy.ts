@@ -5,10 +5,17 @@
  * Each platform must implement all abstract methods to ensure consistent behavior.
  */
 
-import type { PlatformStrategyInterface, PlatformConfig, InsertionResult } from '../types/index';
+import { AUTO_SEND_BUTTON_TIMEOUT_MS, AUTO_SEND_POLL_INTERVAL_MS, DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
+import { applyInsertionMode, withInsertionSeparator } from '../../utils/insertionModes';
+import type { PlatformStrategyInterface, PlatformConfig, InsertionResult, SendResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
+import { DOMUtils } from '../utils/dom';
 import { debug, warn , error as logError } from '../utils/logger';
 
+// Elements whose text ends a line when reading a response
+const RESPONSE_BLOCK_SELECTOR = 'p, div, li, pre, blockquote, h1, h2, h3, h4, h5, h6, tr';
+
 export abstract class PlatformStrategy implements PlatformStrategyInterface {
   public readonly name: string;
   public readonly priority: number;
@@ -54,10 +61,11 @@ export abstract class PlatformStrategy implements PlatformStrategyInterface {
    * Inserts content into the target element using platform-specific logic
    * @param element - The target element
    * @param content - The content to insert
+   * @param mode - Where the content goes relative to the element's text (defaults to DEFAULT_INSERTION_MODE)
    * @returns Result of the insertion attempt
    * @abstract
    */
-  abstract insert(element: HTMLElement, content: string): Promise<InsertionResult>;
+  abstract insert(element: HTMLElement, content: string, mode?: InsertionMode): Promise<InsertionResult>;
 
   /**
    * Gets the CSS selectors used to find input elements for this platform
@@ -83,6 +91,134 @@ export abstract class PlatformStrategy implements PlatformStrategyInterface {
     return null; // Use default icon by default
   }
 
+  /**
+   * Sends the message in the element by clicking the platform's send button
+   * (override for platforms that send differently)
+   *
+   * Editors usually enable their send button only once they have processed the
+   * inserted text, so the button is polled until it is enabled or the wait times out.
+   * @param element - The element the prompt was inserted into
+   * @param submitSelectors - CSS selectors for the send button
+   * @returns Whether the button was clicked
+   */
+  async send(element: HTMLElement, submitSelectors: string[]): Promise<SendResult> {
+    if (submitSelectors.length === 0) {
+      return { success: false, error: 'No send button is configured for this site' };
+    }
+
+    const deadline = Date.now() + AUTO_SEND_BUTTON_TIMEOUT_MS;
+    let button = this.findSubmitButton(element, submitSelectors);
+    while (!this.isSubmitButtonEnabled(button) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, AUTO_SEND_POLL_INTERVAL_MS));
+      button = this.findSubmitButton(element, submitSelectors);
+    }
+
+    if (!button) {
+      return { success: false, error: 'Send button not found' };
+    }
+    if (!this.isSubmitButtonEnabled(button)) {
+      return { success: false, error: 'Send button is disabled' };
+    }
+
+    button.click();
+    this._debug('Clicked send button');
+    return { success: true };
+  }
+
+  /**
+   * Finds the send button, preferring one in the element's own form
+   * @param element - The element the prompt was inserted into
+   * @param submitSelectors - CSS selectors for the send button
+   * @returns The first matching button or null
+   * @protected
+   */
+  protected findSubmitButton(element: HTMLElement, submitSelectors: string[]): HTMLElement | null {
+    const form = element.closest('form');
+    const scopes: ParentNode[] = form ? [form, document] : [document];
+
+    for (const scope of scopes) {
+      for (const selector of submitSelectors) {
+        try {
+          const button = scope.querySelector<HTMLElement>(selector);
+          if (button) {
+            return button;
+          }
+        } catch {
+          // Invalid selector in a custom site configuration
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks whether a send button can be clicked
+   * @param button - Send button
+   * @returns False for a missing or disabled button
+   * @private
+   */
+  private isSubmitButtonEnabled(button: HTMLElement | null): button is HTMLElement {
+    return button !== null
+      && !(button instanceof HTMLButtonElement && button.disabled)
+      && button.getAttribute('aria-disabled') !== 'true';
+  }
+
+  /**
+   * Checks whether the platform is still generating a response, from the
+   * button that stops it being on the page (override for platforms with
+   * other signs of streaming)
+   * @param stopSelectors - CSS selectors for the stop button
+   * @returns True while a response is streaming
+   */
+  isResponding(stopSelectors: string[]): boolean {
+    return stopSelectors.some(selector => {
+      try {
+        return document.querySelector(selector) !== null;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Finds the assistant messages of the conversation (outermost matches only,
+   * as some selectors match both a message and its body)
+   * @param responseSelectors - CSS selectors for an assistant message
+   * @returns Messages in document order
+   */
+  findResponseMessages(responseSelectors: string[]): HTMLElement[] {
+    const matches = new Set<HTMLElement>();
+    for (const selector of responseSelectors) {
+      try {
+        document.querySelectorAll<HTMLElement>(selector).forEach(element => matches.add(element));
+      } catch {
+        // Invalid selector in the platform definition
+      }
+    }
+
+    const messages = [...matches].filter(element =>
+      ![...matches].some(other => other !== element && other.contains(element))
+    );
+    return messages.sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+  }
+
+  /**
+   * Reads the text of an assistant message, leaving out buttons (copy, retry
+   * and the save actions added next to it) and hidden content
+   * @param message - Assistant message element
+   * @returns Message text with paragraphs kept on separate lines
+   */
+  extractResponseText(message: HTMLElement): string {
+    const clone = message.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('button, [aria-hidden="true"], script, style').forEach(element => { element.remove(); });
+    clone.querySelectorAll('br').forEach(element => { element.replaceWith('\n'); });
+    clone.querySelectorAll(RESPONSE_BLOCK_SELECTOR).forEach(element => { element.append('\n'); });
+
+    return (clone.textContent ?? '').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
   /**
    * Cleans up any platform-specific resources (optional override)
    */
@@ -90,6 +226,80 @@ export abstract class PlatformStrategy implements PlatformStrategyInterface {
     // Default: no cleanup needed
   }
 
+  /**
+   * Computes the full text of an element after inserting content, for insertion
+   * methods that set the whole value (textarea value, textContent, editor setText)
+   * @param element - Textarea, input or contenteditable element
+   * @param content - The content to insert
+   * @param mode - Insertion mode
+   * @returns The new text and the caret offset right after the inserted content
+   * @protected
+   */
+  protected composeInsertion(
+    element: HTMLElement,
+    content: string,
+    mode: InsertionMode = DEFAULT_INSERTION_MODE
+  ): { text: string; caret: number } {
+    const current = element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement
+      ? element.value
+      : element.textContent ?? '';
+    const selection = mode === 'cursor' ? DOMUtils.getSelectionOffsets(element) : null;
+    return applyInsertionMode(current, content, mode, selection);
+  }
+
+  /**
+   * Places the DOM selection where content should go for an insertion mode, so
+   * that execCommand('insertText') or a range insertion puts it there
+   * @param element - Contenteditable element
+   * @param content - The content to insert
+   * @param mode - Insertion mode
+   * @returns The text to insert at the selection (content plus any separator)
+   * @protected
+   */
+  protected selectInsertionRange(
+    element: HTMLElement,
+    content: string,
+    mode: InsertionMode = DEFAULT_INSERTION_MODE
+  ): string {
+    const selection = window.getSelection();
+    if (!selection) {
+      return content;
+    }
+
+    // 'cursor' keeps a selection that is already inside the element
+    if (mode === 'cursor' && DOMUtils.getSelectionOffsets(element)) {
+      return content;
+    }
+
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    if (mode !== 'replace') {
+      range.collapse(mode === 'prepend');
+    }
+    selection.removeAllRanges();
+    selection.addRange(range);
+
+    const hasExistingText = (element.textContent ?? '').trim().length > 0;
+    return mode === 'cursor' ? content : withInsertionSeparator(content, mode, hasExistingText);
+  }
+
+  /**
+   * Moves the caret of a textarea or input right after inserted content
+   * @param element - Target element
+   * @param caret - Caret offset
+   * @protected
+   */
+  protected placeCaret(element: HTMLElement, caret: number): void {
+    // Setting the value already leaves the caret at the end
+    if ((element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) && caret !== element.value.length) {
+      try {
+        element.setSelectionRange(caret, caret);
+      } catch {
+        // Some input types (e.g. email) do not support selection ranges
+      }
+    }
+  }
+
   /**
    * Logs debug information with platform prefix
    * @param message - Debug message
@@ -6,6 +6,8 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
@@ -48,7 +50,7 @@ export class ChatGPTStrategy extends PlatformStrategy {
    * Inserts content using React-compatible methods
    * Uses native property setter to trigger React state updates
    */
-  insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     try {
       const textareaElement = element as ReactTextAreaElement;
       
@@ -56,7 +58,8 @@ export class ChatGPTStrategy extends PlatformStrategy {
       textareaElement.focus();
       
       // Set the value directly
-      textareaElement.value = content;
+      const { text, caret } = this.composeInsertion(textareaElement, content, mode);
+      textareaElement.value = text;
       
       // Trigger React events for ChatGPT - this is crucial for React state updates
       const descriptor = Object.getOwnPropertyDescriptor(
@@ -66,8 +69,9 @@ export class ChatGPTStrategy extends PlatformStrategy {
       const nativeInputValueSetter = descriptor?.set?.bind(textareaElement) as ((value: string) => void) | undefined;
       
       if (nativeInputValueSetter) {
-        nativeInputValueSetter(content);
+        nativeInputValueSetter(text);
       }
+      this.placeCaret(textareaElement, caret);
       
       // Dispatch events that React expects
       textareaElement.dispatchEvent(new Event('input', { bubbles: true }));
@@ -81,6 +85,15 @@ export class ChatGPTStrategy extends PlatformStrategy {
     }
   }
 
+  /**
+   * Reads the rendered markdown of an assistant message, which leaves out the
+   * hidden reasoning and tool blocks ChatGPT keeps alongside it
+   */
+  extractResponseText(message: HTMLElement): string {
+    const markdown = message.querySelector<HTMLElement>('.markdown');
+    return super.extractResponseText(markdown ?? message);
+  }
+
   /**
    * Gets selectors for finding ChatGPT input elements
    */
@@ -6,22 +6,17 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
 import { PlatformStrategy } from './base-strategy';
+import { type ProseMirrorState, getProseMirrorInsertion } from './prosemirror';
 
 // ProseMirror view interface for TypeScript
 interface ProseMirrorView {
-  state: {
-    tr: {
-      insertText(text: string, from?: number, to?: number): unknown;
-    };
-    selection: {
-      from: number;
-      to: number;
-    };
-  };
+  state: ProseMirrorState;
   dispatch(transaction: unknown): void;
 }
 
@@ -65,24 +60,32 @@ export class ClaudeStrategy extends PlatformStrategy {
     return true; // Always return true for claude.ai to ensure we use Claude strategy
   }
 
+  /**
+   * Claude marks the message being generated with data-is-streaming, which
+   * also covers responses where the stop button is not rendered
+   */
+  isResponding(stopSelectors: string[]): boolean {
+    return document.querySelector('[data-is-streaming="true"]') !== null || super.isResponding(stopSelectors);
+  }
+
   /**
    * Inserts content using Claude-specific methods
    * Tries ProseMirror transaction API, then execCommand, then DOM manipulation
    */
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     // Try to find ProseMirror element
     const proseMirrorElement = this._findProseMirrorElement(element);
     
     // Method 1: Try ProseMirror transaction API
-    const transactionResult = this._tryProseMirrorTransaction(proseMirrorElement, content);
+    const transactionResult = this._tryProseMirrorTransaction(proseMirrorElement, content, mode);
     if (transactionResult.success) {return transactionResult;}
     
     // Method 2: Try execCommand for contentEditable
-    const execCommandResult = await this._tryExecCommand(proseMirrorElement, element, content);
+    const execCommandResult = await this._tryExecCommand(proseMirrorElement, element, content, mode);
     if (execCommandResult.success) {return execCommandResult;}
     
     // Method 3: Direct DOM manipulation
-    return this._tryDOMManipulation(element, content);
+    return this._tryDOMManipulation(element, content, mode);
   }
 
   /**
@@ -139,10 +142,11 @@ export class ClaudeStrategy extends PlatformStrategy {
    * Attempts insertion using ProseMirror transaction API
    * @param proseMirrorElement - ProseMirror element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private _tryProseMirrorTransaction(proseMirrorElement: HTMLElement, content: string): InsertionResult {
+  private _tryProseMirrorTransaction(proseMirrorElement: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
       const pmElement = proseMirrorElement as ProseMirrorElement;
       const view = pmElement.pmViewDesc?.view || 
@@ -151,8 +155,8 @@ export class ClaudeStrategy extends PlatformStrategy {
       
       if (view) {
         const { state } = view;
-        const { selection } = state;
-        const transaction = state.tr.insertText(content, selection.from, selection.to);
+        const { from, to, text } = getProseMirrorInsertion(state, content, mode);
+        const transaction = state.tr.insertText(text, from, to);
         view.dispatch(transaction);
         
         // Trigger events for Claude
@@ -173,10 +177,11 @@ export class ClaudeStrategy extends PlatformStrategy {
    * @param proseMirrorElement - ProseMirror element
    * @param element - Original element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private async _tryExecCommand(proseMirrorElement: HTMLElement, element: HTMLElement, content: string): Promise<InsertionResult> {
+  private async _tryExecCommand(proseMirrorElement: HTMLElement, element: HTMLElement, content: string, mode: InsertionMode): Promise<InsertionResult> {
     if (proseMirrorElement.contentEditable === 'true' || element.contentEditable === 'true') {
       try {
         const targetEl = proseMirrorElement.contentEditable === 'true' ? proseMirrorElement : element;
@@ -188,17 +193,11 @@ export class ClaudeStrategy extends PlatformStrategy {
         // Wait a tiny bit for focus
         await new Promise(resolve => setTimeout(resolve, 50));
         
-        // Clear existing content if it's placeholder text
-        const selection = window.getSelection();
-        if (selection) {
-          const range = document.createRange();
-          range.selectNodeContents(targetEl);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
+        // Place the selection for the insertion mode (all content when replacing)
+        const text = this.selectInsertionRange(targetEl, content, mode);
         
         // Insert new content using execCommand
-        const inserted = document.execCommand('insertText', false, content);
+        const inserted = document.execCommand('insertText', false, text);
         
         if (inserted) {
           // Trigger Claude-specific events
@@ -206,7 +205,7 @@ export class ClaudeStrategy extends PlatformStrategy {
             bubbles: true,
             cancelable: true,
             inputType: 'insertText',
-            data: content
+            data: text
           });
           targetEl.dispatchEvent(inputEvent);
           targetEl.dispatchEvent(new Event('compositionend', { bubbles: true }));
@@ -231,13 +230,14 @@ export class ClaudeStrategy extends PlatformStrategy {
    * Attempts insertion using direct DOM manipulation
    * @param element - Target element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private _tryDOMManipulation(element: HTMLElement, content: string): InsertionResult {
+  private _tryDOMManipulation(element: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
       element.focus();
-      element.textContent = content;
+      element.textContent = this.composeInsertion(element, content, mode).text;
       
       // Create and dispatch a comprehensive set of events
       const inputEvent = new InputEvent('input', {
@@ -6,6 +6,8 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
@@ -43,7 +45,7 @@ export class CopilotStrategy extends ReactPlatformStrategy {
    * Inserts content using React-compatible methods
    * Uses native property setter to trigger React state updates
    */
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     try {
       // Validate and sanitize content
       const validation = this.validateAndSanitize(content, MAX_CONTENT_LENGTHS.COPILOT);
@@ -68,7 +70,8 @@ export class CopilotStrategy extends ReactPlatformStrategy {
         element as HTMLTextAreaElement,
         validation.sanitized,
         'Copilot React',
-        'copilot-react'
+        'copilot-react',
+        mode
       );
     } catch (error) {
       // Custom error logging to match expected test format
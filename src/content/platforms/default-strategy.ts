@@ -5,6 +5,8 @@
  * Provides basic insertion functionality that works with most standard inputs
  */
 
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
@@ -35,18 +37,20 @@ export class DefaultStrategy extends PlatformStrategy {
    * Inserts content using generic methods
    * Works with standard textarea, input, and contenteditable elements
    */
-  insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     try {
       element.focus();
 
       // Handle different element types with basic insertion
       if (element.tagName === 'TEXTAREA' || element.tagName === 'INPUT') {
         const inputElement = element as HTMLInputElement | HTMLTextAreaElement;
-        inputElement.value = content;
+        const { text, caret } = this.composeInsertion(inputElement, content, mode);
+        inputElement.value = text;
+        this.placeCaret(inputElement, caret);
         inputElement.dispatchEvent(new Event('input', { bubbles: true }));
         inputElement.dispatchEvent(new Event('change', { bubbles: true }));
       } else if (element.contentEditable === 'true' || element.contentEditable === 'TRUE') {
-        element.textContent = content;
+        element.textContent = this.composeInsertion(element, content, mode).text;
         element.dispatchEvent(new Event('input', { bubbles: true }));
       }
 
@@ -5,6 +5,9 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
+import { withInsertionSeparator } from '../../utils/insertionModes';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 import { sanitizeUserInput } from '../utils/storage';
@@ -24,7 +27,10 @@ const GEMINI_PLATFORM_PRIORITY = 85;
 interface QuillEditor {
   setText(text: string): void;
   insertText(index: number, text: string): void;
+  deleteText(index: number, length: number): void;
+  getText(): string;
   getLength(): number;
+  getSelection(): { index: number; length: number } | null;
   setSelection(index: number, length?: number): void;
   root: HTMLElement;
 }
@@ -114,7 +120,7 @@ export class GeminiStrategy extends PlatformStrategy {
    * Inserts content using Gemini-specific methods
    * Tries Quill.js API, then execCommand, then DOM manipulation
    */
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     // Sanitize content before any insertion attempts
     const sanitizedContent = sanitizeUserInput(content);
 
@@ -141,19 +147,19 @@ export class GeminiStrategy extends PlatformStrategy {
     const quillElement = this._findQuillEditor(element);
 
     // Method 1: Try Quill.js API
-    const quillResult = this._tryQuillInsertion(quillElement, sanitizedContent);
+    const quillResult = this._tryQuillInsertion(quillElement, sanitizedContent, mode);
     if (quillResult.success) {
       return quillResult;
     }
 
     // Method 2: Try execCommand for contenteditable
-    const execCommandResult = await this._tryExecCommand(quillElement, sanitizedContent);
+    const execCommandResult = await this._tryExecCommand(quillElement, sanitizedContent, mode);
     if (execCommandResult.success) {
       return execCommandResult;
     }
 
     // Method 3: Direct DOM manipulation
-    return this._tryDOMManipulation(quillElement, sanitizedContent);
+    return this._tryDOMManipulation(quillElement, sanitizedContent, mode);
   }
 
   /**
@@ -248,10 +254,11 @@ export class GeminiStrategy extends PlatformStrategy {
    * Attempts insertion using Quill.js API
    * @param element - Quill editor element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private _tryQuillInsertion(element: HTMLElement, content: string): InsertionResult {
+  private _tryQuillInsertion(element: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
       const quillElement = element as QuillElement;
 
@@ -260,7 +267,7 @@ export class GeminiStrategy extends PlatformStrategy {
 
       if (quill && typeof quill.setText === 'function') {
         // Use Quill API to set text
-        quill.setText(content);
+        this._insertWithQuill(quill, content, mode);
 
         // Trigger events for Angular change detection
         this._dispatchAngularEvents(element, content, 'basic');
@@ -282,14 +289,42 @@ export class GeminiStrategy extends PlatformStrategy {
     return { success: false };
   }
 
+  /**
+   * Inserts through the Quill API; Quill documents always end with a newline
+   * that getLength() counts, so the end of the text is getLength() - 1
+   * @private
+   */
+  private _insertWithQuill(quill: QuillEditor, content: string, mode: InsertionMode): void {
+    if (mode === 'replace') {
+      quill.setText(content);
+      return;
+    }
+
+    const end = Math.max(quill.getLength() - 1, 0);
+    const hasExistingText = quill.getText().trim().length > 0;
+    if (mode === 'append') {
+      quill.insertText(end, withInsertionSeparator(content, mode, hasExistingText));
+    } else if (mode === 'prepend') {
+      quill.insertText(0, withInsertionSeparator(content, mode, hasExistingText));
+    } else {
+      // Without a selection (editor not focused) the caret is taken to be at the end
+      const selection = quill.getSelection() ?? { index: end, length: 0 };
+      if (selection.length > 0) {
+        quill.deleteText(selection.index, selection.length);
+      }
+      quill.insertText(selection.index, content);
+    }
+  }
+
   /**
    * Attempts insertion using execCommand
    * @param element - Quill editor element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private async _tryExecCommand(element: HTMLElement, content: string): Promise<InsertionResult> {
+  private async _tryExecCommand(element: HTMLElement, content: string, mode: InsertionMode): Promise<InsertionResult> {
     if (element.contentEditable === 'true') {
       try {
         element.focus();
@@ -298,17 +333,11 @@ export class GeminiStrategy extends PlatformStrategy {
         // Wait for focus to settle
         await new Promise(resolve => setTimeout(resolve, GEMINI_FOCUS_DELAY_MS));
 
-        // Select all existing content
-        const selection = window.getSelection();
-        if (selection) {
-          const range = document.createRange();
-          range.selectNodeContents(element);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
+        // Place the selection for the insertion mode (all content when replacing)
+        const text = this.selectInsertionRange(element, content, mode);
 
         // Insert new content using execCommand
-        const inserted = document.execCommand('insertText', false, content);
+        const inserted = document.execCommand('insertText', false, text);
 
         if (inserted) {
           // Trigger Angular-compatible events
@@ -365,14 +394,16 @@ export class GeminiStrategy extends PlatformStrategy {
    * Attempts insertion using direct DOM manipulation
    * @param element - Target element
    * @param content - Content to insert
+   * @param mode - Insertion mode
    * @returns Result of insertion attempt
    * @private
    */
-  private _tryDOMManipulation(element: HTMLElement, content: string): InsertionResult {
+  private _tryDOMManipulation(element: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
       // For contenteditable elements, use text nodes for security
       if (element.contentEditable === 'true') {
         element.focus();
+        const text = this.composeInsertion(element, content, mode).text;
 
         // Clear existing content safely
         while (element.firstChild) {
@@ -381,7 +412,7 @@ export class GeminiStrategy extends PlatformStrategy {
 
         // Create a paragraph with text node (Quill structure)
         const paragraph = document.createElement('p');
-        const textNode = document.createTextNode(content);
+        const textNode = document.createTextNode(text);
         paragraph.appendChild(textNode);
         element.appendChild(paragraph);
 
@@ -6,6 +6,8 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
@@ -48,7 +50,7 @@ export class M365CopilotStrategy extends ReactPlatformStrategy {
    * Inserts content using React-compatible methods
    * Handles both textarea and contenteditable (Lexical) elements
    */
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     try {
       // Validate and sanitize content
       const validation = this.validateAndSanitize(content, MAX_CONTENT_LENGTHS.COPILOT);
@@ -76,13 +78,14 @@ export class M365CopilotStrategy extends ReactPlatformStrategy {
           element as HTMLTextAreaElement,
           sanitized,
           'M365 Copilot textarea',
-          'm365copilot-textarea'
+          'm365copilot-textarea',
+          mode
         );
       } else if (element.getAttribute('contenteditable') === 'true') {
         // Focus the element first for contenteditable
         element.focus();
         // Use M365-specific contenteditable insertion
-        return await this._insertIntoContentEditable(element, sanitized);
+        return await this._insertIntoContentEditable(element, sanitized, mode);
       } else {
         return await Promise.resolve({
           success: false,
@@ -97,28 +100,30 @@ export class M365CopilotStrategy extends ReactPlatformStrategy {
 
   /**
    * Inserts content into contenteditable elements (Lexical editor)
-   * Clears existing content before inserting to replace rather than append
+   * The selection is placed for the insertion mode first, so both methods
+   * below replace, append, prepend or insert at the caret alike
    * @private
    */
-  private _insertIntoContentEditable(element: HTMLElement, content: string): Promise<InsertionResult> {
+  private _insertIntoContentEditable(element: HTMLElement, content: string, mode: InsertionMode): Promise<InsertionResult> {
     try {
-      // Prepare selection - select all content for replacement
-      const selection = this._prepareSelection(element);
-      if (!selection) {
+      // Prepare selection for the insertion mode
+      const prepared = this._prepareSelection(element, content, mode);
+      if (!prepared) {
         return Promise.resolve({
           success: false,
           error: 'Could not get selection'
         });
       }
+      const { selection, text } = prepared;
 
       // Try execCommand first (better browser support)
-      const execResult = this._tryExecCommandInsertion(element, content, selection);
+      const execResult = this._tryExecCommandInsertion(element, text, selection);
       if (execResult.success) {
         return Promise.resolve(execResult);
       }
 
       // Fallback to direct DOM manipulation
-      return Promise.resolve(this._tryDOMInsertion(element, content, selection));
+      return Promise.resolve(this._tryDOMInsertion(element, text, selection));
     } catch (error) {
       this._warn('Contenteditable insertion failed', error as Error);
       return Promise.resolve({ success: false, error: (error as Error).message });
@@ -135,24 +140,18 @@ export class M365CopilotStrategy extends ReactPlatformStrategy {
   }
 
   /**
-   * Prepares selection by selecting all content in the editor
-   * This is intentional - replaces all existing content rather than inserting at cursor
+   * Prepares selection for the insertion mode (all content for 'replace')
    * @private
-   * @returns Selection object or null if unavailable
+   * @returns Selection object and the text to insert at it, or null if unavailable
    */
-  private _prepareSelection(element: HTMLElement): Selection | null {
+  private _prepareSelection(element: HTMLElement, content: string, mode: InsertionMode): { selection: Selection; text: string } | null {
     const selection = window.getSelection();
     if (!selection) {
       return null;
     }
 
-    // Select all existing content in the editor to replace it
-    const range = document.createRange();
-    range.selectNodeContents(element);
-    selection.removeAllRanges();
-    selection.addRange(range);
-
-    return selection;
+    const text = this.selectInsertionRange(element, content, mode);
+    return { selection, text };
   }
 
   /**
@@ -195,7 +194,7 @@ export class M365CopilotStrategy extends ReactPlatformStrategy {
   ): InsertionResult {
     const range = selection.getRangeAt(0);
 
-    // First delete all selected content (which is everything in the editor)
+    // First delete the selected content (everything in the editor when replacing)
     range.deleteContents();
 
     // Insert text node
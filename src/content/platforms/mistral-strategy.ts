@@ -1,9 +1,12 @@
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 import { sanitizeUserInput } from '../utils/storage';
 
 import { PlatformStrategy } from './base-strategy';
+import { type ProseMirrorState, getProseMirrorInsertion } from './prosemirror';
 
 // Constants for timing values
 const MISTRAL_FOCUS_DELAY_MS = 50;
@@ -14,15 +17,7 @@ const MISTRAL_PLATFORM_PRIORITY = 85;
 interface ProseMirrorElement extends HTMLElement {
   _pmViewDesc?: {
     view: {
-      state: {
-        tr: {
-          insertText(text: string, from?: number, to?: number): unknown;
-        };
-        selection: {
-          from: number;
-          to: number;
-        };
-      };
+      state: ProseMirrorState;
       dispatch(transaction: unknown): void;
     };
   };
@@ -70,7 +65,7 @@ export class MistralStrategy extends PlatformStrategy {
     return false;
   }
 
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     // Sanitize content before any insertion attempts
     const sanitizedContent = sanitizeUserInput(content);
     
@@ -95,13 +90,13 @@ export class MistralStrategy extends PlatformStrategy {
 
     const proseMirrorElement = this._findProseMirrorElement(element);
 
-    const proseMirrorResult = this._tryProseMirrorInsertion(proseMirrorElement, sanitizedContent);
+    const proseMirrorResult = this._tryProseMirrorInsertion(proseMirrorElement, sanitizedContent, mode);
     if (proseMirrorResult.success) {return proseMirrorResult;}
 
-    const execCommandResult = await this._tryExecCommand(proseMirrorElement, sanitizedContent);
+    const execCommandResult = await this._tryExecCommand(proseMirrorElement, sanitizedContent, mode);
     if (execCommandResult.success) {return execCommandResult;}
 
-    return this._tryDOMManipulation(proseMirrorElement, sanitizedContent);
+    return this._tryDOMManipulation(proseMirrorElement, sanitizedContent, mode);
   }
 
   getSelectors(): string[] {
@@ -136,9 +131,10 @@ export class MistralStrategy extends PlatformStrategy {
     return element;
   }
 
-  private _tryProseMirrorInsertion(element: HTMLElement, content: string): InsertionResult {
+  private _tryProseMirrorInsertion(element: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
-      const pElement = element.querySelector('p');
+      // Overwriting the paragraph only suits replacing the whole (single paragraph) input
+      const pElement = mode === 'replace' ? element.querySelector('p') : null;
       if (pElement) {
         pElement.textContent = content;
 
@@ -155,8 +151,8 @@ export class MistralStrategy extends PlatformStrategy {
 
       if (view) {
         const { state } = view;
-        const { selection } = state;
-        const transaction = state.tr.insertText(content, selection.from, selection.to);
+        const { from, to, text } = getProseMirrorInsertion(state, content, mode);
+        const transaction = state.tr.insertText(text, from, to);
         view.dispatch(transaction);
 
         element.dispatchEvent(new Event('input', { bubbles: true }));
@@ -172,7 +168,7 @@ export class MistralStrategy extends PlatformStrategy {
     return { success: false };
   }
 
-  private async _tryExecCommand(element: HTMLElement, content: string): Promise<InsertionResult> {
+  private async _tryExecCommand(element: HTMLElement, content: string, mode: InsertionMode): Promise<InsertionResult> {
     if (element.contentEditable === 'true' &&
         (element.classList.contains('ProseMirror') || element.closest('.ProseMirror'))) {
       try {
@@ -181,22 +177,16 @@ export class MistralStrategy extends PlatformStrategy {
 
         await new Promise(resolve => setTimeout(resolve, MISTRAL_FOCUS_DELAY_MS));
 
-        const selection = window.getSelection();
-        if (selection) {
-          const range = document.createRange();
-          range.selectNodeContents(element);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
+        const text = this.selectInsertionRange(element, content, mode);
 
-        const inserted = document.execCommand('insertText', false, content);
+        const inserted = document.execCommand('insertText', false, text);
 
         if (inserted) {
           const inputEvent = new InputEvent('input', {
             bubbles: true,
             cancelable: true,
             inputType: 'insertText',
-            data: content
+            data: text
           });
           element.dispatchEvent(inputEvent);
           element.dispatchEvent(new Event('change', { bubbles: true }));
@@ -213,11 +203,14 @@ export class MistralStrategy extends PlatformStrategy {
     return { success: false };
   }
 
-  private _tryDOMManipulation(element: HTMLElement, content: string): InsertionResult {
+  private _tryDOMManipulation(element: HTMLElement, content: string, mode: InsertionMode): InsertionResult {
     try {
+      const { text, caret } = this.composeInsertion(element, content, mode);
+
       if (element.tagName === 'TEXTAREA') {
         const textarea = element as HTMLTextAreaElement;
-        textarea.value = content;
+        textarea.value = text;
+        this.placeCaret(textarea, caret);
         textarea.dispatchEvent(new Event('input', { bubbles: true }));
         textarea.dispatchEvent(new Event('change', { bubbles: true }));
         textarea.focus();
@@ -228,7 +221,7 @@ export class MistralStrategy extends PlatformStrategy {
 
       if (element.contentEditable === 'true') {
         // Create a text node for safe insertion
-        const textNode = document.createTextNode(content);
+        const textNode = document.createTextNode(text);
         
         // Clear existing content and insert new content
         while (element.firstChild) {
@@ -6,6 +6,8 @@
  */
 
 import { getPlatformById } from '../../config/platforms';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
@@ -34,7 +36,7 @@ export class PerplexityStrategy extends PlatformStrategy {
    * Inserts content using Perplexity-compatible methods
    * Uses multiple insertion approaches for better compatibility
    */
-  async insert(element: HTMLElement, content: string): Promise<InsertionResult> {
+  async insert(element: HTMLElement, content: string, mode: InsertionMode = DEFAULT_INSERTION_MODE): Promise<InsertionResult> {
     try {
       // Focus the element first
       element.focus();
@@ -44,19 +46,22 @@ export class PerplexityStrategy extends PlatformStrategy {
       await new Promise(resolve => setTimeout(resolve, 50));
       
       // Method 1: Try execCommand approach
-      const execCommandResult = await this._tryExecCommand(element, content);
+      const execCommandResult = await this._tryExecCommand(element, content, mode);
       if (execCommandResult.success) {
         return execCommandResult;
       }
       
+      // Methods 2 and 3 set the whole text, so work out the combined text once
+      const text = this.composeInsertion(element, content, mode).text;
+
       // Method 2: Try selection and replacement
-      const selectionResult = this._trySelectionReplacement(element, content);
+      const selectionResult = this._trySelectionReplacement(element, text);
       if (selectionResult.success) {
         return selectionResult;
       }
       
       // Method 3: Direct DOM manipulation as fallback
-      return this._tryDirectManipulation(element, content);
+      return this._tryDirectManipulation(element, text);
       
     } catch (error) {
       this._error('Perplexity insertion failed', error as Error);
@@ -67,26 +72,20 @@ export class PerplexityStrategy extends PlatformStrategy {
   /**
    * Attempts insertion using execCommand
    */
-  private async _tryExecCommand(element: HTMLElement, content: string): Promise<InsertionResult> {
+  private async _tryExecCommand(element: HTMLElement, content: string, mode: InsertionMode): Promise<InsertionResult> {
     try {
-      // Select all existing content
-      const selection = window.getSelection();
-      if (selection) {
-        const range = document.createRange();
-        range.selectNodeContents(element);
-        selection.removeAllRanges();
-        selection.addRange(range);
-      }
+      // Place the selection for the insertion mode (all content when replacing)
+      const text = this.selectInsertionRange(element, content, mode);
       
       // Wait for selection to be ready
       await new Promise(resolve => setTimeout(resolve, 10));
       
       // Use execCommand to insert text
-      const inserted = document.execCommand('insertText', false, content);
+      const inserted = document.execCommand('insertText', false, text);
       
       if (inserted) {
         // Trigger Perplexity-specific events
-        this._triggerPerplexityEvents(element, content);
+        this._triggerPerplexityEvents(element, text);
         this._debug('Perplexity execCommand insertion successful');
         return { success: true, method: 'perplexity-execCommand' };
       }
@@ -6,7 +6,8 @@
  */
 
 import { getPlatformByHostname, SUPPORTED_PLATFORMS } from '../../config/platforms';
-import type { InsertionResult } from '../types/index';
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionOptions, InsertionResult } from '../types/index';
 import type { PlatformManagerOptions } from '../types/platform';
 import type { UIElementFactory } from '../ui/element-factory';
 import { debug, warn } from '../utils/logger';
@@ -418,9 +419,16 @@ export class PlatformManager {
    * Attempts to insert content using appropriate strategy
    * @param element - Target element
    * @param content - Content to insert
-   * @returns Result of insertion attempt
+   * @param options - `mode` places the content relative to the element's text (DEFAULT_INSERTION_MODE
+   *   when omitted); `fallbackToDefault` retries with DefaultStrategy when the best strategy fails;
+   *   `send` clicks the platform's send button after a successful insertion
+   * @returns Result of insertion attempt (with `sent`/`sendError` when sending was requested)
    */
-  async insertContent(element: HTMLElement | null, content: string): Promise<InsertionResult> {
+  async insertContent(
+    element: HTMLElement | null,
+    content: string,
+    options: InsertionOptions = {}
+  ): Promise<InsertionResult> {
     if (!element) {
       return {
         success: false,
@@ -436,14 +444,16 @@ export class PlatformManager {
       };
     }
 
+    const mode = options.mode ?? DEFAULT_INSERTION_MODE;
+
     // Try the best strategy
     try {
-      const result = await bestStrategy.insert(element, content);
+      const result = await bestStrategy.insert(element, content, mode);
       
       if (result.success) {
         debug('Insertion successful', { strategy: bestStrategy.name });
         this.activeStrategy = bestStrategy;
-        return result;
+        return options.send ? this.sendAfterInsertion(bestStrategy, element, result) : result;
       } else {
         warn('Strategy failed', { strategy: bestStrategy.name, error: result.error });
       }
@@ -451,12 +461,133 @@ export class PlatformManager {
       warn(`${bestStrategy.name} strategy threw error`, { error });
     }
 
+    // Arbitrary focused elements (e.g. via keyboard shortcut) may not be what the
+    // platform strategy expects, so give the generic strategy a chance
+    if (options.fallbackToDefault && !(bestStrategy instanceof DefaultStrategy)) {
+      try {
+        const fallback = this.strategies.find(strategy => strategy instanceof DefaultStrategy)
+          ?? new DefaultStrategy(this.hostname);
+        const result = await fallback.insert(element, content, mode);
+        if (result.success) {
+          debug('Insertion successful with default fallback', { failedStrategy: bestStrategy.name });
+          return options.send ? this.sendAfterInsertion(fallback, element, result) : result;
+        }
+      } catch (error) {
+        warn('Default fallback strategy threw error', { error });
+      }
+    }
+
     return {
       success: false,
       error: 'Strategy insertion failed'
     };
   }
 
+  /**
+   * Gets the send button selectors for the current site: the custom site's
+   * own selector, or the platform's from SUPPORTED_PLATFORMS
+   * @returns Selectors, empty when the site has none
+   */
+  getSubmitSelectors(): string[] {
+    if (this.customSiteConfig?.submitSelector) {
+      return [this.customSiteConfig.submitSelector];
+    }
+    return [...(getPlatformByHostname(this.hostname)?.submitSelectors ?? [])];
+  }
+
+  /**
+   * Gets the stop button selectors for the current site from SUPPORTED_PLATFORMS
+   * @returns Selectors, empty for custom sites
+   */
+  getStopSelectors(): string[] {
+    return [...(getPlatformByHostname(this.hostname)?.stopSelectors ?? [])];
+  }
+
+  /**
+   * Checks whether the platform is still generating a response, using the
+   * active strategy (or the highest priority one) as the detector
+   * @returns True while a response is streaming
+   */
+  isResponding(): boolean {
+    const strategy = this.activeStrategy ?? this.strategies[0] ?? null;
+    if (!strategy) {
+      return false;
+    }
+    try {
+      return strategy.isResponding(this.getStopSelectors());
+    } catch (error) {
+      warn(`${strategy.name} strategy threw error while checking the response`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Gets the assistant message selectors of the current platform
+   * @returns CSS selectors (none for custom sites)
+   */
+  getResponseSelectors(): string[] {
+    return [...(getPlatformByHostname(this.hostname)?.responseSelectors ?? [])];
+  }
+
+  /**
+   * Finds the assistant messages on the page with the active strategy (or the
+   * highest priority one)
+   * @returns Messages in document order
+   */
+  findResponseMessages(): HTMLElement[] {
+    const strategy = this.activeStrategy ?? this.strategies[0] ?? null;
+    const selectors = this.getResponseSelectors();
+    if (!strategy || selectors.length === 0) {
+      return [];
+    }
+    try {
+      return strategy.findResponseMessages(selectors);
+    } catch (error) {
+      warn(`${strategy.name} strategy threw error while finding responses`, { error });
+      return [];
+    }
+  }
+
+  /**
+   * Reads the text of an assistant message
+   * @param message - Message found by findResponseMessages
+   * @returns Message text, empty if it could not be read
+   */
+  extractResponseText(message: HTMLElement): string {
+    const strategy = this.activeStrategy ?? this.strategies[0] ?? null;
+    if (!strategy) {
+      return '';
+    }
+    try {
+      return strategy.extractResponseText(message);
+    } catch (error) {
+      warn(`${strategy.name} strategy threw error while reading a response`, { error });
+      return '';
+    }
+  }
+
+  /**
+   * Sends an inserted prompt, recording the outcome in the insertion result
+   * (a failed send leaves the prompt inserted)
+   * @private
+   */
+  private async sendAfterInsertion(
+    strategy: PlatformStrategy,
+    element: HTMLElement,
+    result: InsertionResult
+  ): Promise<InsertionResult> {
+    try {
+      const sendResult = await strategy.send(element, this.getSubmitSelectors());
+      if (!sendResult.success) {
+        warn('Sending after insertion failed', { strategy: strategy.name, error: sendResult.error });
+      }
+      return { ...result, sent: sendResult.success, sendError: sendResult.error };
+    } catch (error) {
+      warn(`${strategy.name} strategy threw error while sending`, { error });
+      return { ...result, sent: false, sendError: 'Sending failed due to error' };
+    }
+  }
+
   /**
    * Gets the currently active strategy
    * @returns Active strategy or null
@@ -0,0 +1,56 @@
+/**
+ * ProseMirror helpers shared by the strategies of ProseMirror-based editors (Claude, Mistral)
+ */
+
+import type { InsertionMode } from '../../types/index';
+import { withInsertionSeparator } from '../../utils/insertionModes';
+
+/**
+ * The part of a ProseMirror EditorState the strategies use
+ */
+export interface ProseMirrorState {
+  tr: {
+    insertText(text: string, from?: number, to?: number): unknown;
+  };
+  selection: {
+    from: number;
+    to: number;
+  };
+  doc: {
+    content: { size: number };
+    textContent: string;
+  };
+}
+
+/**
+ * Document range and text of an insertion in a ProseMirror editor
+ *
+ * Positions 1 and size - 1 are the start and end of the text inside the
+ * document's first and last paragraphs.
+ *
+ * @param state - Editor state
+ * @param content - Content to insert
+ * @param mode - Insertion mode
+ * @returns Range to replace and the text to put there
+ */
+export function getProseMirrorInsertion(
+  state: ProseMirrorState,
+  content: string,
+  mode: InsertionMode
+): { from: number; to: number; text: string } {
+  if (mode === 'cursor') {
+    return { from: state.selection.from, to: state.selection.to, text: content };
+  }
+
+  const start = Math.min(1, state.doc.content.size);
+  const end = Math.max(start, state.doc.content.size - 1);
+  const hasExistingText = state.doc.textContent.trim().length > 0;
+  switch (mode) {
+    case 'replace':
+      return { from: start, to: end, text: content };
+    case 'append':
+      return { from: end, to: end, text: withInsertionSeparator(content, mode, hasExistingText) };
+    case 'prepend':
+      return { from: start, to: start, text: withInsertionSeparator(content, mode, hasExistingText) };
+  }
+}
@@ -15,6 +15,8 @@
  * - Use insertIntoReactTextarea() for textarea insertion
  */
 
+import { DEFAULT_INSERTION_MODE } from '../../constants';
+import type { InsertionMode } from '../../types/index';
 import type { InsertionResult } from '../types/index';
 
 import { PlatformStrategy } from './base-strategy';
@@ -155,6 +157,7 @@ export abstract class ReactPlatformStrategy extends PlatformStrategy {
    * @param content - Content to insert (should be pre-validated and sanitized)
    * @param platformName - Platform name for logging (e.g., 'Copilot React', 'M365 Copilot')
    * @param methodName - Optional custom method name for result (defaults to auto-generated from platformName)
+   * @param mode - Where the content goes relative to the textarea's text
    * @returns Promise resolving to insertion result
    * @protected
    */
@@ -162,7 +165,8 @@ export abstract class ReactPlatformStrategy extends PlatformStrategy {
     element: HTMLTextAreaElement,
     content: string,
     platformName: string,
-    methodName?: string
+    methodName?: string,
+    mode: InsertionMode = DEFAULT_INSERTION_MODE
   ): Promise<InsertionResult> {
     const reactElement = element as ReactTextAreaElement;
 
@@ -170,13 +174,15 @@ export abstract class ReactPlatformStrategy extends PlatformStrategy {
     reactElement.focus();
 
     // Set the value property directly
-    reactElement.value = content;
+    const { text, caret } = this.composeInsertion(reactElement, content, mode);
+    reactElement.value = text;
 
     // Trigger React's native value setter for state synchronization
     // This is what makes React "see" the change
     if (ReactPlatformStrategy.nativeValueSetter) {
-      ReactPlatformStrategy.nativeValueSetter.call(reactElement, content);
+      ReactPlatformStrategy.nativeValueSetter.call(reactElement, text);
     }
+    this.placeCaret(reactElement, caret);
 
     // Dispatch events that React expects for controlled components
     reactElement.dispatchEvent(new Event('input', { bubbles: true }));
@@ -2,6 +2,8 @@
  * Core type definitions for the content script
  */
 
+import type { InsertionMode } from '../../types/index';
+
 export interface Prompt {
   id: string;
   title: string;
@@ -11,12 +13,32 @@ export interface Prompt {
   updatedAt: number;
   usageCount?: number;
   lastUsedAt?: number;
+  tags?: string[];
+  pinned?: boolean;
 }
 
 export interface InsertionResult {
   success: boolean;
   method?: string;
   error?: string;
+  // Whether the prompt was sent after insertion (only set when sending was requested)
+  sent?: boolean;
+  // Why sending failed; the prompt stays inserted
+  sendError?: string;
+}
+
+export interface InsertionOptions {
+  // Retry with the generic DefaultStrategy when the platform strategy fails
+  fallbackToDefault?: boolean;
+  // Where the content goes relative to the input's text (DEFAULT_INSERTION_MODE when omitted)
+  mode?: InsertionMode;
+  // Click the platform's send button once the prompt is inserted
+  send?: boolean;
+}
+
+export interface SendResult {
+  success: boolean;
+  error?: string;
 }
 
 export interface DebugInfo {
@@ -39,6 +61,7 @@ export type NotificationType = 'error' | 'warn' | 'info';
 export interface EventListenerEntry {
   event: string;
   handler: EventListener;
+  options?: boolean | AddEventListenerOptions;
 }
 
 export interface InsertionManagerOptions {
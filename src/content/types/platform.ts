@@ -2,9 +2,10 @@
  * Platform-specific type definitions
  */
 
+import type { InsertionMode } from '../../types/index';
 import type { UIElementFactory } from '../ui/element-factory';
 
-import type { InsertionResult } from './index';
+import type { InsertionResult, SendResult } from './index';
 
 export interface PlatformConfig {
   selectors: string[];
@@ -16,7 +17,11 @@ export interface PlatformStrategyInterface {
   name: string;
   priority: number;
   canHandle(element: HTMLElement): boolean;
-  insert(element: HTMLElement, content: string): Promise<InsertionResult>;
+  insert(element: HTMLElement, content: string, mode?: InsertionMode): Promise<InsertionResult>;
+  send?(element: HTMLElement, submitSelectors: string[]): Promise<SendResult>;
+  isResponding?(stopSelectors: string[]): boolean;
+  findResponseMessages?(responseSelectors: string[]): HTMLElement[];
+  extractResponseText?(message: HTMLElement): string;
   getSelectors(): string[];
   getButtonContainerSelector(): string | null;
   createIcon?(uiFactory: UIElementFactory): HTMLElement | null;
@@ -97,6 +97,15 @@ describe('EventManager', () => {
       expect(removeEventListenerSpy).toHaveBeenCalledWith('mouseover', handler2);
     });
 
+    it('should remove capture-phase listeners with the same options', () => {
+      const removeEventListenerSpy = vi.spyOn(mockElement, 'removeEventListener');
+
+      eventManager.addTrackedEventListener(mockElement, 'keydown', mockHandler, true);
+      eventManager.cleanup();
+
+      expect(removeEventListenerSpy).toHaveBeenCalledWith('keydown', mockHandler, true);
+    });
+
     it('should remove event listeners from multiple elements', () => {
       const element2 = document.createElement('span');
       const handler1 = vi.fn();
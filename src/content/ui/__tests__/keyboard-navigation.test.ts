@@ -225,6 +225,18 @@ describe('KeyboardNavigationManager', () => {
         });
       });
 
+      it('should pass held modifier keys on to the click', () => {
+        keyboardHandler(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+
+        const clicks: MouseEvent[] = [];
+        mockPromptItems[0].addEventListener('click', (e) => { clicks.push(e); });
+        keyboardHandler(new KeyboardEvent('keydown', { key: 'Enter', shiftKey: true }));
+
+        expect(clicks).toHaveLength(1);
+        expect(clicks[0].shiftKey).toBe(true);
+        expect(clicks[0].altKey).toBe(false);
+      });
+
       it('should do nothing if no item is selected', () => {
         const event = new KeyboardEvent('keydown', { key: 'Enter' });
         keyboardHandler(event);
@@ -314,6 +326,48 @@ describe('KeyboardNavigationManager', () => {
     });
   });
 
+  describe('options', () => {
+    const getKeyboardCall = () => {
+      const calls = (mockEventManager.addTrackedEventListener as any).mock.calls;
+      return calls.find((call: any) => call[1] === 'keydown');
+    };
+
+    it('should pre-select the first item when selectFirst is set', () => {
+      keyboardNav = new KeyboardNavigationManager(mockSelector, mockEventManager, { selectFirst: true });
+      keyboardNav.initialize();
+
+      expect(mockPromptItems[0].classList.contains('keyboard-selected')).toBe(true);
+    });
+
+    it('should listen in the capture phase and stop handled keys when capture is set', () => {
+      keyboardNav = new KeyboardNavigationManager(mockSelector, mockEventManager, { capture: true });
+      keyboardNav.initialize();
+
+      const keydownCall = getKeyboardCall();
+      expect(keydownCall[0]).toBe(document);
+      expect(keydownCall[3]).toBe(true);
+
+      const event = new KeyboardEvent('keydown', { key: 'Enter' });
+      const stopPropagationSpy = vi.spyOn(event, 'stopPropagation');
+      keydownCall[2](event);
+
+      expect(stopPropagationSpy).toHaveBeenCalled();
+    });
+
+    it('should call onClose on Escape instead of clicking the close button', () => {
+      const onClose = vi.fn();
+      const closeButton = mockSelector.querySelector('.close-selector') as HTMLElement;
+      const clickSpy = vi.spyOn(closeButton, 'click');
+      keyboardNav = new KeyboardNavigationManager(mockSelector, mockEventManager, { onClose });
+      keyboardNav.initialize();
+
+      getKeyboardCall()[2](new KeyboardEvent('keydown', { key: 'Escape' }));
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(clickSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('destroy', () => {
     beforeEach(() => {
       keyboardNav.initialize();
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the template variable form
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { buildPrompt } from '../../../test/builders';
+import { getBuiltInVariables, parsePromptVariables } from '../../../utils/promptVariables';
+import { createVariableForm, readVariableFormValues } from '../variable-form';
+
+describe('createVariableForm', () => {
+  const prompt = buildPrompt({
+    id: 'prompt-1',
+    title: 'Email reply',
+    content: 'Hi {{customer_name}}, {{body:multiline}} Tone: {{tone:choice(Formal|Casual)}}'
+  });
+  const variables = parsePromptVariables(prompt.content);
+
+  it('renders one labelled control per variable', () => {
+    const form = createVariableForm(prompt, variables, {});
+
+    const labels = Array.from(form.querySelectorAll('.prompt-variable-label')).map(label => label.textContent);
+    expect(labels).toEqual(['Customer name', 'Body', 'Tone']);
+
+    const controls = form.querySelectorAll('.prompt-variable-input');
+    expect(controls).toHaveLength(3);
+    expect(controls[0].tagName).toBe('INPUT');
+    expect(controls[1].tagName).toBe('TEXTAREA');
+    expect(controls[2].tagName).toBe('SELECT');
+  });
+
+  it('links labels to their controls', () => {
+    const form = createVariableForm(prompt, variables, {});
+
+    const label = form.querySelector('.prompt-variable-label');
+    const control = form.querySelector('.prompt-variable-input');
+    expect(label?.getAttribute('for')).toBe(control?.id);
+  });
+
+  it('renders choice options', () => {
+    const form = createVariableForm(prompt, variables, {});
+
+    const options = Array.from(form.querySelectorAll('select option')).map(option => option.textContent);
+    expect(options).toEqual(['Formal', 'Casual']);
+  });
+
+  it('prefills controls with the given values', () => {
+    const form = createVariableForm(prompt, variables, { customer_name: 'Ada', body: 'Thanks!', tone: 'Casual' });
+
+    expect(readVariableFormValues(form, variables)).toEqual({
+      customer_name: 'Ada',
+      body: 'Thanks!',
+      tone: 'Casual'
+    });
+  });
+
+  it('renders back and submit buttons', () => {
+    const form = createVariableForm(prompt, variables, {});
+
+    expect(form.querySelector('.prompt-variable-back')?.getAttribute('type')).toBe('button');
+    expect(form.querySelector('.prompt-variable-submit')?.getAttribute('type')).toBe('submit');
+  });
+
+  it('previews built-in values, falling back to defaults', () => {
+    const content = 'Summarize {{selection=the page}} from {{page_title}} on {{date}}';
+    const form = createVariableForm(prompt, [], {}, getBuiltInVariables(content), { selection: '', page_title: 'Release notes' });
+
+    const preview = form.querySelector('.prompt-variable-builtins');
+    expect(Array.from(preview?.querySelectorAll('dt') ?? []).map(term => term.textContent)).toEqual(['Selection', 'Page title', 'Date']);
+    expect(Array.from(preview?.querySelectorAll('dd') ?? []).map(value => value.textContent)).toEqual(['the page', 'Release notes', 'Not available']);
+    expect(form.querySelectorAll('.prompt-variable-input')).toHaveLength(0);
+  });
+});
+
+describe('readVariableFormValues', () => {
+  it('returns the values currently entered', () => {
+    const prompt = buildPrompt({ content: '{{name}} {{city=Paris}}' });
+    const variables = parsePromptVariables(prompt.content);
+    const form = createVariableForm(prompt, variables, { name: '', city: 'Paris' });
+
+    const nameInput = form.querySelector<HTMLInputElement>('[data-variable-name="name"]');
+    if (nameInput) {
+      nameInput.value = 'Grace';
+    }
+
+    expect(readVariableFormValues(form, variables)).toEqual({ name: 'Grace', city: 'Paris' });
+  });
+});
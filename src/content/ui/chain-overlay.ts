@@ -0,0 +1,147 @@
+/**
+ * Chain Overlay module
+ * Panel showing the progress of a running prompt chain, with pause/resume and stop controls.
+ * It also asks the user to approve steps that should not be sent unseen.
+ */
+
+import type { ChainRunProgress, ChainStepStatus } from '../core/chain-runner';
+import { DOMUtils } from '../utils/dom';
+import { ThemeManager } from '../utils/theme-manager';
+
+const STEP_STATUS_LABELS: Record<ChainStepStatus, string> = {
+  pending: 'Pending',
+  running: 'Sending',
+  waiting: 'Waiting for response',
+  done: 'Done',
+  failed: 'Failed'
+};
+
+export interface ChainOverlayControls {
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+interface PendingConfirmation {
+  message: string;
+  preview: string;
+  resolve: (confirmed: boolean) => void;
+}
+
+export class ChainOverlay {
+  private controls: ChainOverlayControls;
+  private element: HTMLElement | null;
+  private progress: ChainRunProgress | null;
+  private confirmation: PendingConfirmation | null;
+
+  constructor(controls: ChainOverlayControls) {
+    this.controls = controls;
+    this.element = null;
+    this.progress = null;
+    this.confirmation = null;
+  }
+
+  /**
+   * Shows the text a step is about to send and waits for the user to approve it
+   * @param message - Question shown above the preview
+   * @param preview - Text the step will send
+   * @returns false when the user stops the chain instead, or the panel is removed
+   */
+  confirm(message: string, preview: string): Promise<boolean> {
+    this.confirmation?.resolve(false);
+    return new Promise(resolve => {
+      this.confirmation = { message, preview, resolve };
+      if (this.progress) {
+        this.update(this.progress);
+      }
+    });
+  }
+
+  /**
+   * Shows the panel, or redraws it with the latest progress
+   */
+  update(progress: ChainRunProgress): void {
+    this.progress = progress;
+    if (!this.element) {
+      this.element = DOMUtils.createElement('div', {
+        class: `prompt-chain-overlay ${ThemeManager.getInstance().getCurrentTheme()}-theme`,
+        role: 'region',
+        'aria-label': 'Prompt chain progress'
+      });
+      document.body.appendChild(this.element);
+    }
+
+    const panel = this.element;
+    panel.replaceChildren();
+    panel.appendChild(DOMUtils.createElement('div', { class: 'prompt-chain-title' }, progress.chainTitle));
+    panel.appendChild(DOMUtils.createElement('div', {
+      class: 'prompt-chain-status',
+      role: progress.state === 'failed' ? 'alert' : 'status'
+    }, this.getStatusText(progress)));
+
+    const steps = DOMUtils.createElement('ol', { class: 'prompt-chain-steps' });
+    progress.steps.forEach((step, index) => {
+      const item = DOMUtils.createElement('li', { class: `prompt-chain-step ${step.status}` });
+      item.appendChild(DOMUtils.createElement('span', {}, `${String(index + 1)}. ${step.title}`));
+      item.appendChild(DOMUtils.createElement('span', {}, `(${STEP_STATUS_LABELS[step.status]})`));
+      steps.appendChild(item);
+    });
+    panel.appendChild(steps);
+
+    const actions = DOMUtils.createElement('div', { class: 'prompt-chain-actions' });
+    if (this.confirmation) {
+      panel.appendChild(DOMUtils.createElement('div', { class: 'prompt-chain-confirm', role: 'alert' }, this.confirmation.message));
+      panel.appendChild(DOMUtils.createElement('div', { class: 'prompt-chain-preview' }, this.confirmation.preview));
+      actions.appendChild(this.createButton('Stop', () => { this.answer(false); }));
+      actions.appendChild(this.createButton('Send', () => { this.answer(true); }));
+    } else if (progress.state === 'running' || progress.state === 'paused') {
+      const isPaused = progress.state === 'paused';
+      actions.appendChild(this.createButton(isPaused ? 'Resume' : 'Pause', isPaused ? this.controls.onResume : this.controls.onPause));
+      actions.appendChild(this.createButton('Stop', this.controls.onStop));
+    } else {
+      actions.appendChild(this.createButton('Close', this.controls.onClose));
+    }
+    panel.appendChild(actions);
+  }
+
+  remove(): void {
+    this.confirmation?.resolve(false);
+    this.confirmation = null;
+    this.progress = null;
+    this.element?.remove();
+    this.element = null;
+  }
+
+  private answer(confirmed: boolean): void {
+    const confirmation = this.confirmation;
+    this.confirmation = null;
+    if (this.progress) {
+      this.update(this.progress);
+    }
+    confirmation?.resolve(confirmed);
+  }
+
+  private getStatusText(progress: ChainRunProgress): string {
+    const done = progress.steps.filter(step => step.status === 'done').length;
+    const total = String(progress.steps.length);
+    switch (progress.state) {
+      case 'running':
+        return `Running step ${String(Math.min(done + 1, progress.steps.length))} of ${total}`;
+      case 'paused':
+        return `Paused after step ${String(done)} of ${total}`;
+      case 'completed':
+        return `All ${total} steps completed`;
+      case 'stopped':
+        return `Stopped with ${String(done)} of ${total} steps done`;
+      case 'failed':
+        return `Stopped: ${progress.error ?? 'a step failed'}`;
+    }
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLElement {
+    const button = DOMUtils.createElement('button', { type: 'button' }, label);
+    button.addEventListener('click', onClick);
+    return button;
+  }
+}
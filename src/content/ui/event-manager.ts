@@ -13,15 +13,24 @@ export class EventManager {
     this.listeners = new Map();
   }
 
-  addTrackedEventListener(element: EventTarget, event: string, handler: EventListener): void {
-    element.addEventListener(event, handler);
+  addTrackedEventListener(
+    element: EventTarget,
+    event: string,
+    handler: EventListener,
+    options?: boolean | AddEventListenerOptions
+  ): void {
+    if (options === undefined) {
+      element.addEventListener(event, handler);
+    } else {
+      element.addEventListener(event, handler, options);
+    }
     
     if (!this.listeners.has(element)) {
       this.listeners.set(element, []);
     }
     const elementListeners = this.listeners.get(element);
     if (elementListeners) {
-      elementListeners.push({ event, handler });
+      elementListeners.push({ event, handler, options });
     }
   }
 
@@ -30,9 +39,14 @@ export class EventManager {
     let errorCount = 0;
     
     this.listeners.forEach((listeners, element) => {
-      listeners.forEach(({ event, handler }) => {
+      listeners.forEach(({ event, handler, options }) => {
         try {
-          element.removeEventListener(event, handler);
+          // Capture listeners are only removed when the capture flag matches
+          if (options === undefined) {
+            element.removeEventListener(event, handler);
+          } else {
+            element.removeEventListener(event, handler, options);
+          }
           removedCount++;
         } catch (err) {
           errorCount++;
@@ -2,6 +2,8 @@
  * UI modules exports
  */
 
+export { ChainOverlay } from './chain-overlay';
 export { UIElementFactory } from './element-factory';
 export { EventManager } from './event-manager';
-export { KeyboardNavigationManager } from './keyboard-navigation';
\ No newline at end of file
+export { KeyboardNavigationManager } from './keyboard-navigation';
+export { createVariableForm, readVariableFormValues } from './variable-form';
@@ -8,16 +8,28 @@ import { debug } from '../utils/logger';
 
 import type { EventManager } from './event-manager';
 
+export interface KeyboardNavigationOptions {
+  // Handle keys in the capture phase and stop them there, so the page's own
+  // handlers (e.g. Enter to send in a chat composer) never see them
+  capture?: boolean;
+  // Pre-select the first item whenever the item list changes
+  selectFirst?: boolean;
+  // Called on Escape instead of clicking the selector's close button
+  onClose?: () => void;
+}
+
 export class KeyboardNavigationManager {
   private selector: HTMLElement;
   private eventManager: EventManager;
+  private options: KeyboardNavigationOptions;
   private selectedIndex: number;
   private items: HTMLElement[];
   private isActive: boolean;
 
-  constructor(selectorElement: HTMLElement, eventManager: EventManager) {
+  constructor(selectorElement: HTMLElement, eventManager: EventManager, options: KeyboardNavigationOptions = {}) {
     this.selector = selectorElement;
     this.eventManager = eventManager;
+    this.options = options;
     this.selectedIndex = -1;
     this.items = [];
     this.isActive = false;
@@ -42,6 +54,11 @@ export class KeyboardNavigationManager {
     this.items = Array.from(this.selector.querySelectorAll('.prompt-item'));
     this.selectedIndex = -1;
     this.clearSelection();
+
+    if (this.options.selectFirst && this.items.length > 0) {
+      this.selectedIndex = 0;
+      this.updateSelection();
+    }
   }
 
   private setupKeyboardHandlers(): void {
@@ -50,19 +67,19 @@ export class KeyboardNavigationManager {
       
       switch (e.key) {
         case 'ArrowDown':
-          e.preventDefault();
+          this.consume(e);
           this.selectNext();
           break;
         case 'ArrowUp':
-          e.preventDefault();
+          this.consume(e);
           this.selectPrevious();
           break;
         case 'Enter':
-          e.preventDefault();
-          this.activateSelected();
+          this.consume(e);
+          this.activateSelected(e);
           break;
         case 'Escape':
-          e.preventDefault();
+          this.consume(e);
           this.close();
           break;
         case 'Tab':
@@ -80,11 +97,22 @@ export class KeyboardNavigationManager {
       }
     };
     
-    this.eventManager.addTrackedEventListener(document.documentElement, 'keydown', keyboardHandler as EventListener);
+    if (this.options.capture) {
+      this.eventManager.addTrackedEventListener(document, 'keydown', keyboardHandler as EventListener, true);
+    } else {
+      this.eventManager.addTrackedEventListener(document.documentElement, 'keydown', keyboardHandler as EventListener);
+    }
     
     debug('Keyboard navigation handlers setup');
   }
 
+  private consume(e: KeyboardEvent): void {
+    e.preventDefault();
+    if (this.options.capture) {
+      e.stopPropagation();
+    }
+  }
+
   private selectNext(): void {
     if (this.items.length === 0) {return;}
     
@@ -141,18 +169,37 @@ export class KeyboardNavigationManager {
     }
   }
 
-  private activateSelected(): void {
+  private activateSelected(e: KeyboardEvent): void {
     if (this.selectedIndex >= 0 && this.selectedIndex < this.items.length) {
       const selectedItem = this.items[this.selectedIndex];
       debug('Activating selected item via keyboard', { 
         index: this.selectedIndex, 
         itemId: selectedItem.dataset.promptId 
       });
+
+      // Pass modifier keys on (e.g. Shift+Enter appends instead of replacing)
+      if (e.shiftKey || e.altKey || e.ctrlKey || e.metaKey) {
+        selectedItem.dispatchEvent(new MouseEvent('click', {
+          bubbles: true,
+          cancelable: true,
+          shiftKey: e.shiftKey,
+          altKey: e.altKey,
+          ctrlKey: e.ctrlKey,
+          metaKey: e.metaKey
+        }));
+        return;
+      }
       selectedItem.click();
     }
   }
 
   private close(): void {
+    if (this.options.onClose) {
+      debug('Closing via keyboard navigation callback');
+      this.options.onClose();
+      return;
+    }
+
     const closeButton = this.selector.querySelector('.close-selector');
     if (closeButton) {
       debug('Closing prompt selector via keyboard');
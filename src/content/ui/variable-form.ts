@@ -0,0 +1,147 @@
+/**
+ * Variable Form module
+ * Builds the fill-in form shown in the prompt selector for prompts with template variables
+ */
+
+import type { PromptVariable, PromptVariableValues } from '../../types/index';
+import { type BuiltInVariable, type BuiltInVariableValues, formatVariableLabel } from '../../utils/promptVariables';
+import type { Prompt } from '../types/index';
+import { DOMUtils } from '../utils/dom';
+
+const FIELD_ID_PREFIX = 'prompt-variable-field';
+
+// Longer built-in values (clipboard, selection) are cut short in the preview only
+const BUILT_IN_PREVIEW_LENGTH = 120;
+
+/**
+ * Creates the variable form for a prompt
+ * @param prompt - Prompt being inserted (used for the heading)
+ * @param variables - Variables parsed from the prompt content
+ * @param values - Initial values (remembered values or defaults)
+ * @param builtIns - Built-in variables of the prompt, previewed read-only
+ * @param builtInValues - Resolved built-in values
+ * @returns Form element; submit and cancel handling is wired by the caller
+ */
+export function createVariableForm(
+  prompt: Prompt,
+  variables: PromptVariable[],
+  values: PromptVariableValues,
+  builtIns: BuiltInVariable[] = [],
+  builtInValues: BuiltInVariableValues = {}
+): HTMLFormElement {
+  const form = DOMUtils.createElement('form', {
+    class: 'prompt-variable-form',
+    'data-prompt-id': prompt.id,
+    'aria-label': `Fill in variables for ${prompt.title}`
+  }) as HTMLFormElement;
+  form.noValidate = true;
+
+  const heading = DOMUtils.createElement('div', { class: 'prompt-variable-heading' }, prompt.title);
+  form.appendChild(heading);
+
+  const fields = DOMUtils.createElement('div', { class: 'prompt-variable-fields' });
+  variables.forEach((variable, index) => {
+    fields.appendChild(createField(variable, values[variable.name] ?? '', index));
+  });
+  form.appendChild(fields);
+
+  if (builtIns.length > 0) {
+    const preview = DOMUtils.createElement('dl', {
+      class: 'prompt-variable-builtins',
+      'aria-label': 'Filled in automatically'
+    });
+    builtIns.forEach(({ name, defaultValue }) => {
+      // Same fallback as fillPromptVariables, so the preview shows what is inserted
+      const value = builtInValues[name] || defaultValue || '';
+      preview.appendChild(DOMUtils.createElement('dt', {}, formatVariableLabel(name)));
+      preview.appendChild(DOMUtils.createElement('dd', value ? {} : { class: 'empty' },
+        value ? truncatePreview(value) : 'Not available'));
+    });
+    form.appendChild(preview);
+  }
+
+  const actions = DOMUtils.createElement('div', { class: 'prompt-variable-actions' });
+  const backButton = DOMUtils.createElement('button', {
+    type: 'button',
+    class: 'prompt-variable-back'
+  }, 'Back');
+  const submitButton = DOMUtils.createElement('button', {
+    type: 'submit',
+    class: 'prompt-variable-submit'
+  }, 'Insert');
+  actions.appendChild(backButton);
+  actions.appendChild(submitButton);
+  form.appendChild(actions);
+
+  return form;
+}
+
+/**
+ * Reads the current values from a variable form
+ * @param form - Form created by createVariableForm
+ * @param variables - Variables the form was created for
+ * @returns Values keyed by variable name
+ */
+export function readVariableFormValues(form: HTMLFormElement, variables: PromptVariable[]): PromptVariableValues {
+  const controls = new Map<string, HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>();
+  form.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>('[data-variable-name]').forEach((control) => {
+    const name = control.getAttribute('data-variable-name');
+    if (name) {
+      controls.set(name, control);
+    }
+  });
+
+  const values: PromptVariableValues = {};
+  variables.forEach((variable) => {
+    const control = controls.get(variable.name);
+    values[variable.name] = control ? control.value : (variable.defaultValue ?? '');
+  });
+
+  return values;
+}
+
+function createField(variable: PromptVariable, value: string, index: number): HTMLElement {
+  const fieldId = `${FIELD_ID_PREFIX}-${String(index)}`;
+  const field = DOMUtils.createElement('div', { class: 'prompt-variable-field' });
+
+  const label = DOMUtils.createElement('label', {
+    class: 'prompt-variable-label',
+    for: fieldId
+  }, formatVariableLabel(variable.name));
+  field.appendChild(label);
+
+  let control: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+  if (variable.type === 'choice') {
+    const select = document.createElement('select');
+    (variable.options ?? []).forEach((option) => {
+      const optionElement = DOMUtils.createElement('option', { value: option }, option) as HTMLOptionElement;
+      select.appendChild(optionElement);
+    });
+    select.value = value;
+    control = select;
+  } else if (variable.type === 'multiline') {
+    const textarea = document.createElement('textarea');
+    textarea.rows = 3;
+    textarea.value = value;
+    control = textarea;
+  } else {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.value = value;
+    input.setAttribute('autocomplete', 'off');
+    control = input;
+  }
+
+  control.id = fieldId;
+  control.className = 'prompt-variable-input';
+  control.setAttribute('data-variable-name', variable.name);
+  field.appendChild(control);
+
+  return field;
+}
+
+function truncatePreview(value: string): string {
+  const singleLine = value.replace(/\s+/g, ' ');
+  return singleLine.length > BUILT_IN_PREVIEW_LENGTH ? `${singleLine.slice(0, BUILT_IN_PREVIEW_LENGTH)}…` : singleLine;
+}
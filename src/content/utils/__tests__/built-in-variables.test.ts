@@ -0,0 +1,69 @@
+/**
+ * Unit tests for built-in variable resolution
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { getBuiltInVariables } from '../../../utils/promptVariables';
+import { getPageSelection, resolveBuiltInVariables } from '../built-in-variables';
+
+vi.mock('../logger', () => ({
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+  isDebugMode: vi.fn().mockReturnValue(false),
+  showDebugNotification: vi.fn()
+}));
+
+describe('resolveBuiltInVariables', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should read only the variables the prompt uses', async () => {
+    document.title = 'Release notes';
+    const readText = vi.fn().mockResolvedValue('Copied text');
+    Object.assign(navigator.clipboard, { readText });
+
+    const values = await resolveBuiltInVariables(
+      getBuiltInVariables('{{page_title}} {{selection}} {{page_url}}'),
+      { selection: 'Chosen text' }
+    );
+
+    expect(values).toEqual({ page_title: 'Release notes', selection: 'Chosen text', page_url: window.location.href });
+    expect(readText).not.toHaveBeenCalled();
+  });
+
+  it('should leave a value empty when it cannot be read', async () => {
+    Object.assign(navigator.clipboard, { readText: vi.fn().mockRejectedValue(new Error('Read permission denied')) });
+
+    expect(await resolveBuiltInVariables([{ name: 'clipboard' }], { selection: '' })).toEqual({ clipboard: '' });
+  });
+
+  it('should read the date and time from the current clock', async () => {
+    vi.useFakeTimers({ now: new Date(2026, 9, 19, 14, 30) });
+
+    const values = await resolveBuiltInVariables([{ name: 'date' }, { name: 'time' }], { selection: '' });
+
+    expect(values.date).toBe(new Date(2026, 9, 19).toLocaleDateString());
+    expect(values.time).toBe(new Date(2026, 9, 19, 14, 30).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+    vi.useRealTimers();
+  });
+});
+
+describe('getPageSelection', () => {
+  it('should return the selected page text', () => {
+    document.body.innerHTML = '<p id="text">Selected words</p>';
+    const range = document.createRange();
+    range.selectNodeContents(document.getElementById('text') as HTMLElement);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+
+    expect(getPageSelection()).toBe('Selected words');
+
+    window.getSelection()?.removeAllRanges();
+    expect(getPageSelection()).toBe('');
+  });
+});
@@ -7,8 +7,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DOMUtils } from '../dom';
 import * as Logger from '../logger';
 
-// Save real document before mocks are applied
+// Save real document and window before mocks are applied
 const realDocument = global.document;
+const realWindow = global.window;
 
 // Mock Logger
 vi.mock('../logger', () => ({
@@ -418,6 +419,130 @@ describe('DOMUtils', () => {
     });
   });
 
+  describe('getFocusedEditableElement', () => {
+    beforeEach(() => {
+      Object.defineProperty(globalThis, 'document', { value: realDocument, writable: true });
+      realDocument.body.innerHTML = '';
+    });
+
+    const focus = (element: HTMLElement): HTMLElement => {
+      realDocument.body.appendChild(element);
+      element.focus();
+      return element;
+    };
+
+    it('should return a focused textarea', () => {
+      const textarea = focus(realDocument.createElement('textarea'));
+
+      expect(DOMUtils.getFocusedEditableElement()).toBe(textarea);
+    });
+
+    it('should ignore non-text inputs and read-only fields', () => {
+      const checkbox = realDocument.createElement('input');
+      checkbox.type = 'checkbox';
+      focus(checkbox);
+      expect(DOMUtils.getFocusedEditableElement()).toBeNull();
+
+      const readOnly = realDocument.createElement('textarea');
+      readOnly.readOnly = true;
+      focus(readOnly);
+      expect(DOMUtils.getFocusedEditableElement()).toBeNull();
+    });
+
+    it('should return the contenteditable host when an inner node has focus', () => {
+      const editor = realDocument.createElement('div');
+      editor.setAttribute('contenteditable', 'true');
+      const paragraph = realDocument.createElement('p');
+      paragraph.tabIndex = 0;
+      editor.appendChild(paragraph);
+      realDocument.body.appendChild(editor);
+      paragraph.focus();
+
+      expect(DOMUtils.getFocusedEditableElement()).toBe(editor);
+    });
+
+    it('should return null when nothing editable has focus', () => {
+      expect(DOMUtils.getFocusedEditableElement()).toBeNull();
+    });
+  });
+
+  describe('caret text helpers', () => {
+    beforeEach(() => {
+      Object.defineProperty(globalThis, 'document', { value: realDocument, writable: true });
+      Object.defineProperty(globalThis, 'window', { value: realWindow, writable: true });
+      realDocument.body.innerHTML = '';
+    });
+
+    const createTextarea = (value: string, caret: number): HTMLTextAreaElement => {
+      const textarea = realDocument.createElement('textarea');
+      realDocument.body.appendChild(textarea);
+      textarea.value = value;
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+      return textarea;
+    };
+
+    const createEditor = (text: string, caret: number): HTMLElement => {
+      const editor = realDocument.createElement('div');
+      editor.setAttribute('contenteditable', 'true');
+      editor.textContent = text;
+      realDocument.body.appendChild(editor);
+      const selection = realWindow.getSelection();
+      const range = realDocument.createRange();
+      range.setStart(editor.firstChild as Text, caret);
+      range.collapse(true);
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      return editor;
+    };
+
+    it('should read the text before the caret in a textarea', () => {
+      const textarea = createTextarea('Hello /rev and more', 10);
+
+      expect(DOMUtils.getTextBeforeCaret(textarea)).toBe('Hello /rev');
+    });
+
+    it('should return null for a textarea with a selected range', () => {
+      const textarea = createTextarea('Hello', 0);
+      textarea.setSelectionRange(0, 3);
+
+      expect(DOMUtils.getTextBeforeCaret(textarea)).toBeNull();
+    });
+
+    it('should read the text before the caret in a contenteditable element', () => {
+      const editor = createEditor('Hi /sum there', 7);
+
+      expect(DOMUtils.getTextBeforeCaret(editor)).toBe('Hi /sum');
+    });
+
+    it('should delete text before the caret in a textarea and notify listeners', () => {
+      const textarea = createTextarea('Hello /rev', 10);
+      const onInput = vi.fn();
+      textarea.addEventListener('input', onInput);
+
+      expect(DOMUtils.deleteTextBeforeCaret(textarea, 4)).toBe(true);
+
+      expect(textarea.value).toBe('Hello ');
+      expect(textarea.selectionStart).toBe(6);
+      expect(onInput).toHaveBeenCalled();
+    });
+
+    it('should delete text before the caret in a contenteditable element', () => {
+      const editor = createEditor('Hi /sum there', 7);
+
+      expect(DOMUtils.deleteTextBeforeCaret(editor, 4)).toBe(true);
+
+      expect(editor.textContent).toBe('Hi  there');
+    });
+
+    it('should refuse to delete more text than precedes the caret', () => {
+      const textarea = createTextarea('/a', 2);
+
+      expect(DOMUtils.deleteTextBeforeCaret(textarea, 5)).toBe(false);
+      expect(textarea.value).toBe('/a');
+    });
+  });
+
   describe('getComputedStyleProperty', () => {
     it('should get computed style property', () => {
       const mockComputedStyle = {
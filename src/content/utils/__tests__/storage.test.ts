@@ -5,7 +5,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 import * as Logger from '../logger';
-import { getPrompts, sanitizeUserInput, validatePromptData, createPromptListItem, escapeHtml, createElement, createSVGElement } from '../storage';
+import { getLastUsedPrompt, getPrompts, savePromptVariableValues, sanitizeUserInput, validatePromptData, createPromptListItem, escapeHtml, createElement, createSVGElement, validateSettingsData } from '../storage';
 
 // Mock Logger
 vi.mock('../logger', () => ({
@@ -27,6 +27,7 @@ const chromeMock = {
   },
   runtime: {
     lastError: null,
+    sendMessage: vi.fn(),
   },
 };
 
@@ -77,13 +78,78 @@ describe('StorageManager', () => {
       const result = await getPrompts();
 
       expect(result).toEqual(mockPrompts);
-      expect(chromeMock.storage.local.get).toHaveBeenCalledWith(['prompts'], expect.any(Function));
+      expect(chromeMock.storage.local.get).toHaveBeenCalledWith(['prompts', 'storageLayout', 'promptVault'], expect.any(Function));
+      expect(chromeMock.runtime.sendMessage).not.toHaveBeenCalled();
       expect(Logger.debug).toHaveBeenCalledWith(
         'Retrieved and validated prompts from storage',
         { count: 1 }
       );
     });
 
+    it('should ask the background for prompts once bodies are stored in IndexedDB', async () => {
+      const fullPrompt = {
+        id: 'test-1',
+        title: 'Test Prompt',
+        content: 'Body from IndexedDB',
+        category: 'Test',
+        createdAt: 1234567890,
+        updatedAt: 1234567890,
+      };
+      const { content: _content, ...metadata } = fullPrompt;
+      chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
+        callback({ prompts: [metadata], storageLayout: 'indexeddb' });
+      });
+      chromeMock.runtime.sendMessage.mockImplementation((_message, callback) => {
+        callback({ success: true, prompts: [fullPrompt] });
+      });
+
+      const result = await getPrompts();
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({ type: 'GET_PROMPTS' }, expect.any(Function));
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject(fullPrompt);
+    });
+
+    it('should ask the background for decrypted prompts while the vault is on', async () => {
+      const decrypted = {
+        id: 'test-1',
+        title: 'Test Prompt',
+        content: 'Secret body',
+        category: 'Test',
+        createdAt: 1234567890,
+        updatedAt: 1234567890,
+      };
+      chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
+        callback({
+          prompts: [{ ...decrypted, content: 'vault:v1:aXY=:Y2lwaGVy' }],
+          promptVault: { version: 1, salt: 'c2FsdA==', iterations: 600000, check: 'vault:v1:aXY=:Y2hlY2s=' },
+        });
+      });
+      chromeMock.runtime.sendMessage.mockImplementation((_message, callback) => {
+        callback({ success: true, prompts: [decrypted] });
+      });
+
+      const result = await getPrompts();
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({ type: 'GET_PROMPTS' }, expect.any(Function));
+      expect(result[0]).toMatchObject(decrypted);
+    });
+
+    it('should fall back to no prompts if the background cannot send them', async () => {
+      chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
+        callback({ prompts: [], storageLayout: 'indexeddb' });
+      });
+      chromeMock.runtime.sendMessage.mockImplementation((_message, callback) => {
+        callback({ success: false, error: 'Storage unavailable' });
+      });
+
+      expect(await getPrompts()).toEqual([]);
+      expect(Logger.error).toHaveBeenCalledWith(
+        'Failed to retrieve prompts from background',
+        expect.any(Error)
+      );
+    });
+
     it('should handle chrome storage errors gracefully', async () => {
       (chromeMock.runtime as any).lastError = { message: 'Storage error' } as chrome.runtime.LastError;
       chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
@@ -153,6 +219,68 @@ describe('StorageManager', () => {
     });
   });
 
+  describe('getLastUsedPrompt', () => {
+    const buildStoredPrompt = (id: string, usageCount: number, lastUsedAt: number) => ({
+      id,
+      title: `Prompt ${id}`,
+      content: 'Content',
+      category: 'Test',
+      createdAt: 1000,
+      updatedAt: 1000,
+      usageCount,
+      lastUsedAt,
+    });
+
+    it('should return the prompt with the most recent usage', async () => {
+      chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
+        callback({
+          prompts: [
+            buildStoredPrompt('older', 5, 2000),
+            buildStoredPrompt('newer', 1, 3000),
+            // Never used - lastUsedAt only reflects creation time
+            buildStoredPrompt('unused', 0, 4000),
+          ],
+        });
+      });
+
+      const result = await getLastUsedPrompt();
+
+      expect(result?.id).toBe('newer');
+    });
+
+    it('should return null when no prompt has been used', async () => {
+      chromeMock.storage.local.get.mockImplementation((_keys, callback) => {
+        callback({ prompts: [buildStoredPrompt('unused', 0, 1000)] });
+      });
+
+      expect(await getLastUsedPrompt()).toBeNull();
+    });
+  });
+
+  describe('savePromptVariableValues', () => {
+    it('should ask the background worker to save the values', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({ success: true });
+
+      await savePromptVariableValues('p1', { customer: 'Acme' });
+
+      expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'SAVE_VARIABLE_VALUES',
+        data: { promptId: 'p1', values: { customer: 'Acme' } }
+      });
+    });
+
+    it('should only warn when the worker fails to save', async () => {
+      chromeMock.runtime.sendMessage.mockResolvedValue({ success: false, error: 'Quota exceeded' });
+
+      await expect(savePromptVariableValues('p1', { customer: 'Acme' })).resolves.toBeUndefined();
+
+      expect(Logger.warn).toHaveBeenCalledWith('Failed to save variable values', {
+        promptId: 'p1',
+        error: 'Quota exceeded'
+      });
+    });
+  });
+
   describe('escapeHtml', () => {
     it('should escape HTML characters', () => {
       const input = '<script>alert("xss")</script>';
@@ -307,6 +435,24 @@ describe('StorageManager', () => {
       });
     });
 
+    it('should keep string tags and drop other entries', () => {
+      const result = validatePromptData({
+        id: 'test-id',
+        title: 'Tagged',
+        content: 'Test content',
+        tags: ['python', 42, 'team-shared']
+      });
+
+      expect(result?.tags).toEqual(['python', 'team-shared']);
+    });
+
+    it('should keep the pinned flag only when it is true', () => {
+      const base = { id: 'test-id', title: 'Pinned', content: 'Test content' };
+
+      expect(validatePromptData({ ...base, pinned: true })?.pinned).toBe(true);
+      expect(validatePromptData({ ...base, pinned: 'yes' })).not.toHaveProperty('pinned');
+    });
+
     it('should provide defaults for missing fields', () => {
       const input = {
         id: 'test-id',
@@ -351,6 +497,40 @@ describe('StorageManager', () => {
     });
   });
 
+  describe('validateSettingsData', () => {
+    it('should keep valid slash command settings', () => {
+      const result = validateSettingsData({ slashCommandTrigger: ';', slashCommandSites: ['claude.ai'] });
+
+      expect(result.slashCommandTrigger).toBe(';');
+      expect(result.slashCommandSites).toEqual(['claude.ai']);
+    });
+
+    it('should fall back to defaults for invalid slash command settings', () => {
+      const result = validateSettingsData({ slashCommandTrigger: 'ab', slashCommandSites: ['claude.ai', 42] });
+
+      expect(result.slashCommandTrigger).toBe('/');
+      expect(result.slashCommandSites).toEqual(['claude.ai']);
+    });
+
+    it('should enable slash commands on Claude and ChatGPT by default', () => {
+      const result = validateSettingsData({});
+
+      expect(result.slashCommandSites).toEqual(['claude.ai', 'chatgpt.com']);
+    });
+
+    it('should keep known insertion modes only', () => {
+      const result = validateSettingsData({ insertionModes: { 'claude.ai': 'append', 'chatgpt.com': 'sideways' } });
+
+      expect(result.insertionModes).toEqual({ 'claude.ai': 'append' });
+      expect(validateSettingsData({ insertionModes: 'append' }).insertionModes).toEqual({});
+    });
+
+    it('should keep auto-send sites and default to none', () => {
+      expect(validateSettingsData({ autoSendSites: ['claude.ai', 7, ''] }).autoSendSites).toEqual(['claude.ai']);
+      expect(validateSettingsData({}).autoSendSites).toEqual([]);
+    });
+  });
+
   describe('createPromptListItem', () => {
     beforeEach(() => {
       const mockElement = {
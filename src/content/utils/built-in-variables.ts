@@ -0,0 +1,62 @@
+/**
+ * Built-in Variables module
+ * Resolves the built-in prompt variables from the page right before insertion.
+ * Each name maps to one fixed reader; prompt text only chooses which of these
+ * run, and their values are inserted as plain text.
+ */
+
+import {
+  type BuiltInVariable,
+  type BuiltInVariableName,
+  type BuiltInVariableValues,
+  getDateTimeVariableValues
+} from '../../utils/promptVariables';
+
+import { debug } from './logger';
+
+export interface BuiltInVariableContext {
+  /** Text selected on the page when the prompt was picked */
+  selection: string;
+}
+
+type BuiltInVariableReader = (context: BuiltInVariableContext) => string | Promise<string>;
+
+const READERS: Readonly<Record<BuiltInVariableName, BuiltInVariableReader>> = {
+  date: () => getDateTimeVariableValues().date,
+  time: () => getDateTimeVariableValues().time,
+  // Read through the page's clipboard permission: the browser may ask the user
+  // first, and a refusal (or an insecure page without the API) leaves it empty
+  clipboard: () => navigator.clipboard.readText(),
+  selection: (context) => context.selection,
+  page_title: () => document.title,
+  page_url: () => window.location.href
+};
+
+/**
+ * Reads the text currently selected on the page (empty when nothing is selected)
+ */
+export function getPageSelection(): string {
+  return window.getSelection()?.toString().trim() ?? '';
+}
+
+/**
+ * Resolves the given built-in variables; values that cannot be read are empty
+ * @param variables - Built-in variables used by the prompt (only these are read)
+ * @param context - Page state captured when the prompt was picked
+ * @returns Values keyed by variable name
+ */
+export async function resolveBuiltInVariables(
+  variables: BuiltInVariable[],
+  context: BuiltInVariableContext
+): Promise<BuiltInVariableValues> {
+  const values: BuiltInVariableValues = {};
+  for (const { name } of variables) {
+    try {
+      values[name] = await READERS[name](context);
+    } catch (err) {
+      debug('Built-in variable could not be resolved', { name, error: err instanceof Error ? err.message : String(err) });
+      values[name] = '';
+    }
+  }
+  return values;
+}
@@ -312,6 +312,143 @@ export class DOMUtils {
     }
   }
 
+  /**
+   * Get the editable element that currently has focus, looking inside open shadow roots
+   * @returns The focused textarea, text input or contenteditable host, or null
+   */
+  static getFocusedEditableElement(): HTMLElement | null {
+    try {
+      let active: Element | null = document.activeElement;
+      while (active?.shadowRoot?.activeElement) {
+        active = active.shadowRoot.activeElement;
+      }
+
+      if (!(active instanceof HTMLElement) || active === document.body) {
+        return null;
+      }
+
+      if (active instanceof HTMLTextAreaElement) {
+        return active.readOnly || active.disabled ? null : active;
+      }
+
+      if (active instanceof HTMLInputElement) {
+        const textTypes = ['text', 'search', 'email', 'url', 'tel', ''];
+        const isTextInput = textTypes.includes(active.getAttribute('type')?.toLowerCase() ?? '');
+        return isTextInput && !active.readOnly && !active.disabled ? active : null;
+      }
+
+      // Rich editors focus an inner node; insert into the contenteditable host
+      const editableHost = active.closest<HTMLElement>('[contenteditable]:not([contenteditable="false"])');
+      return editableHost ?? (active.getAttribute('role') === 'textbox' ? active : null);
+    } catch (err) {
+      logError('Failed to get focused editable element', err as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the selected range (or caret) inside an editable element as offsets into its text
+   * For contenteditable elements the offsets count characters of textContent
+   * @returns Start and end offsets, or null if the selection is not inside the element
+   */
+  static getSelectionOffsets(element: HTMLElement): { start: number; end: number } | null {
+    try {
+      if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+        const { selectionStart, selectionEnd } = element;
+        return selectionStart === null || selectionEnd === null ? null : { start: selectionStart, end: selectionEnd };
+      }
+
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0) {
+        return null;
+      }
+      const range = selection.getRangeAt(0);
+      if (!element.contains(range.startContainer) || !element.contains(range.endContainer)) {
+        return null;
+      }
+
+      const before = document.createRange();
+      before.selectNodeContents(element);
+      before.setEnd(range.startContainer, range.startOffset);
+      const start = before.toString().length;
+      return { start, end: start + range.toString().length };
+    } catch (err) {
+      logError('Failed to read selection offsets', err as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the text before a collapsed caret inside an editable element
+   * For contenteditable elements only the caret's text node is considered
+   * @returns The text before the caret, or null if the element has no collapsed caret
+   */
+  static getTextBeforeCaret(element: HTMLElement): string | null {
+    try {
+      if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+        const { selectionStart, selectionEnd } = element;
+        if (selectionStart === null || selectionStart !== selectionEnd) {
+          return null;
+        }
+        return element.value.slice(0, selectionStart);
+      }
+
+      const selection = window.getSelection();
+      const node = selection?.anchorNode;
+      if (!selection?.isCollapsed || !node || node.nodeType !== Node.TEXT_NODE || !element.contains(node)) {
+        return null;
+      }
+      return (node.textContent ?? '').slice(0, selection.anchorOffset);
+    } catch (err) {
+      logError('Failed to read text before caret', err as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete characters right before the caret, like pressing Backspace
+   * Prefers execCommand so rich editors and the undo stack stay in sync
+   * @returns true if the text was removed
+   */
+  static deleteTextBeforeCaret(element: HTMLElement, length: number): boolean {
+    const execDelete = () => typeof document.execCommand === 'function' && document.execCommand('delete');
+
+    try {
+      if (element instanceof HTMLTextAreaElement || element instanceof HTMLInputElement) {
+        const end = element.selectionStart;
+        if (end === null || end < length) {
+          return false;
+        }
+        element.setSelectionRange(end - length, end);
+        if (!execDelete()) {
+          element.setRangeText('', end - length, end, 'end');
+          element.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+        return true;
+      }
+
+      const selection = window.getSelection();
+      const node = selection?.anchorNode;
+      if (!selection || !node || node.nodeType !== Node.TEXT_NODE || !element.contains(node) || selection.anchorOffset < length) {
+        return false;
+      }
+
+      const range = document.createRange();
+      range.setStart(node, selection.anchorOffset - length);
+      range.setEnd(node, selection.anchorOffset);
+      selection.removeAllRanges();
+      selection.addRange(range);
+      if (!execDelete()) {
+        range.deleteContents();
+        element.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+      return true;
+    } catch (err) {
+      logError('Failed to delete text before caret', err as Error);
+      return false;
+    }
+  }
+
   /**
    * Check if CSS Anchor Positioning API is supported
    * Requires Chrome 125+, Edge 125+, Safari 26+, Opera 111+
@@ -4,6 +4,17 @@
  */
 
 import { getDefaultEnabledPlatforms } from "../../config/platforms";
+import {
+  DEFAULT_SLASH_COMMAND_SITES,
+  DEFAULT_SLASH_COMMAND_TRIGGER,
+  PROMPT_CHAINS_STORAGE_KEY,
+  PROMPT_VARIABLE_VALUES_STORAGE_KEY,
+  PROMPT_VAULT_STORAGE_KEY,
+  STORAGE_LAYOUT_KEY,
+} from "../../constants";
+import type { InsertionMode, PromptChain, PromptVariableValues } from "../../types/index";
+import { isInsertionMode } from "../../utils/insertionModes";
+import { isValidSlashCommandTrigger } from "../../utils/slashCommands";
 import type { Prompt } from "../types/index";
 
 import { DOMUtils } from "./dom";
@@ -17,6 +28,12 @@ export interface ExtensionSettings {
   customSites: CustomSite[];
   debugMode: boolean;
   floatingFallback: boolean;
+  slashCommandTrigger: string;
+  slashCommandSites: string[];
+  // Default insertion mode per hostname; sites without one use DEFAULT_INSERTION_MODE
+  insertionModes: Record<string, InsertionMode>;
+  // Hostnames where a picked prompt is sent right after it is inserted
+  autoSendSites: string[];
 }
 
 /**
@@ -28,6 +45,7 @@ export interface CustomSite {
   icon?: string;
   enabled: boolean;
   dateAdded: number;
+  submitSelector?: string;
   positioning?: {
     mode: "custom";
     selector: string;
@@ -88,6 +106,10 @@ export function getDefaultSettings(): ExtensionSettings {
     customSites: [],
     debugMode: false,
     floatingFallback: true,
+    slashCommandTrigger: DEFAULT_SLASH_COMMAND_TRIGGER,
+    slashCommandSites: [...DEFAULT_SLASH_COMMAND_SITES],
+    insertionModes: {},
+    autoSendSites: [],
   };
 }
 
@@ -128,6 +150,22 @@ export function validateSettingsData(settings: unknown): ExtensionSettings {
         typeof settingsObj.floatingFallback === "boolean"
           ? settingsObj.floatingFallback
           : defaults.floatingFallback,
+      slashCommandTrigger: isValidSlashCommandTrigger(
+        settingsObj.slashCommandTrigger,
+      )
+        ? settingsObj.slashCommandTrigger
+        : defaults.slashCommandTrigger,
+      slashCommandSites: Array.isArray(settingsObj.slashCommandSites)
+        ? ((settingsObj.slashCommandSites as unknown[]).filter(
+            (site) => typeof site === "string" && site.length > 0,
+          ) as string[])
+        : defaults.slashCommandSites,
+      insertionModes: validateInsertionModes(settingsObj.insertionModes),
+      autoSendSites: Array.isArray(settingsObj.autoSendSites)
+        ? ((settingsObj.autoSendSites as unknown[]).filter(
+            (site) => typeof site === "string" && site.length > 0,
+          ) as string[])
+        : defaults.autoSendSites,
     };
 
     return validatedSettings;
@@ -137,6 +175,21 @@ export function validateSettingsData(settings: unknown): ExtensionSettings {
   }
 }
 
+/**
+ * Keep only hostname entries with a known insertion mode
+ */
+function validateInsertionModes(modes: unknown): Record<string, InsertionMode> {
+  if (!modes || typeof modes !== "object" || Array.isArray(modes)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(modes as Record<string, unknown>).filter(
+      (entry): entry is [string, InsertionMode] =>
+        entry[0].length > 0 && isInsertionMode(entry[1]),
+    ),
+  );
+}
+
 /**
  * Validate custom site data structure
  */
@@ -190,50 +243,216 @@ export async function isSiteEnabled(hostname: string): Promise<boolean> {
   }
 }
 
+/**
+ * Validate and sanitize prompts read from storage, dropping invalid ones
+ */
+function validatePrompts(rawPrompts: unknown[]): Prompt[] {
+  const validatedPrompts = rawPrompts
+    .map((prompt: unknown) => validatePromptData(prompt))
+    .filter((prompt: Prompt | null): prompt is Prompt => prompt !== null); // Remove invalid prompts
+
+  const invalidCount = rawPrompts.length - validatedPrompts.length;
+  if (invalidCount > 0) {
+    warn("Filtered out invalid prompts", {
+      originalCount: rawPrompts.length,
+      validCount: validatedPrompts.length,
+      invalidCount,
+    });
+  }
+
+  debug("Retrieved and validated prompts from storage", {
+    count: validatedPrompts.length,
+  });
+  return validatedPrompts;
+}
+
+/**
+ * Ask the background worker for prompts whose bodies are stored in IndexedDB
+ * (the content script cannot open the extension's databases) or encrypted
+ * (the vault key is only readable by extension pages and the worker)
+ */
+function getPromptsFromBackground(): Promise<unknown[]> {
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage(
+      { type: "GET_PROMPTS" },
+      (response?: { success: boolean; prompts?: unknown }) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          logError(
+            "Failed to retrieve prompts from background",
+            new Error(
+              chrome.runtime.lastError?.message ?? "No prompts in response",
+            ),
+          );
+          resolve([]);
+          return;
+        }
+        resolve(Array.isArray(response.prompts) ? response.prompts : []);
+      },
+    );
+  });
+}
+
 /**
  * Get prompts with validation and sanitization
  */
 export async function getPrompts(): Promise<Prompt[]> {
   return new Promise((resolve) => {
     try {
-      chrome.storage.local.get(["prompts"], (result) => {
+      chrome.storage.local.get(
+        ["prompts", STORAGE_LAYOUT_KEY, PROMPT_VAULT_STORAGE_KEY],
+        (result) => {
+          if (chrome.runtime.lastError) {
+            const storageError = new Error(
+              `Chrome storage error: ${chrome.runtime.lastError.message ?? "Unknown error"}`,
+            );
+            logError("Failed to retrieve prompts from storage", storageError);
+            resolve([]); // Graceful fallback to empty array
+            return;
+          }
+
+          // Only prompt metadata is in chrome.storage.local once bodies moved to
+          // IndexedDB, and only ciphertext while the vault is on
+          if (
+            result[STORAGE_LAYOUT_KEY] === "indexeddb" ||
+            result[PROMPT_VAULT_STORAGE_KEY] !== undefined
+          ) {
+            void getPromptsFromBackground().then((rawPrompts) => {
+              resolve(validatePrompts(rawPrompts));
+            });
+            return;
+          }
+
+          const rawPrompts = Array.isArray(result.prompts) ? result.prompts : [];
+          resolve(validatePrompts(rawPrompts));
+        },
+      );
+    } catch (err) {
+      logError("Unexpected error accessing chrome storage", err as Error);
+      resolve([]); // Graceful fallback
+    }
+  });
+}
+
+/**
+ * Get the most recently used prompt, or null if no prompt has been used yet
+ */
+export async function getLastUsedPrompt(): Promise<Prompt | null> {
+  const prompts = await getPrompts();
+
+  // lastUsedAt defaults to createdAt for unused prompts, so only count real usage
+  return prompts
+    .filter((prompt) => (prompt.usageCount ?? 0) > 0)
+    .reduce<Prompt | null>(
+      (latest, prompt) =>
+        !latest || (prompt.lastUsedAt ?? 0) > (latest.lastUsedAt ?? 0)
+          ? prompt
+          : latest,
+      null,
+    );
+}
+
+/**
+ * Get a saved prompt chain, or null if it does not exist or is malformed
+ */
+export async function getPromptChain(chainId: string): Promise<PromptChain | null> {
+  try {
+    const result = await chrome.storage.local.get([PROMPT_CHAINS_STORAGE_KEY]);
+    const chains = result[PROMPT_CHAINS_STORAGE_KEY] as unknown;
+    if (!Array.isArray(chains)) {
+      return null;
+    }
+
+    const chain = (chains as Partial<PromptChain>[]).find((item) => item.id === chainId);
+    if (
+      !chain ||
+      typeof chain.title !== "string" ||
+      !Array.isArray(chain.promptIds) ||
+      !chain.promptIds.every((id) => typeof id === "string")
+    ) {
+      return null;
+    }
+    return chain as PromptChain;
+  } catch (err) {
+    logError("Failed to retrieve prompt chain from storage", err as Error);
+    return null;
+  }
+}
+
+/**
+ * Get the last values entered for a prompt's template variables
+ */
+export function getPromptVariableValues(
+  promptId: string,
+): Promise<PromptVariableValues> {
+  return new Promise((resolve) => {
+    try {
+      chrome.storage.local.get([PROMPT_VARIABLE_VALUES_STORAGE_KEY], (result) => {
         if (chrome.runtime.lastError) {
-          const storageError = new Error(
-            `Chrome storage error: ${chrome.runtime.lastError.message ?? "Unknown error"}`,
-          );
-          logError("Failed to retrieve prompts from storage", storageError);
-          resolve([]); // Graceful fallback to empty array
+          warn("Failed to retrieve variable values from storage", {
+            error: chrome.runtime.lastError.message,
+          });
+          resolve({});
           return;
         }
 
-        const rawPrompts = Array.isArray(result.prompts) ? result.prompts : [];
-
-        // Validate and sanitize each prompt
-        const validatedPrompts = rawPrompts
-          .map((prompt: unknown) => validatePromptData(prompt))
-          .filter((prompt: Prompt | null): prompt is Prompt => prompt !== null); // Remove invalid prompts
+        const allValues = result[PROMPT_VARIABLE_VALUES_STORAGE_KEY] as
+          | Record<string, unknown>
+          | undefined;
+        const promptValues = allValues?.[promptId];
 
-        const invalidCount = rawPrompts.length - validatedPrompts.length;
-        if (invalidCount > 0) {
-          warn("Filtered out invalid prompts", {
-            originalCount: rawPrompts.length,
-            validCount: validatedPrompts.length,
-            invalidCount,
-          });
+        if (!promptValues || typeof promptValues !== "object") {
+          resolve({});
+          return;
         }
 
-        debug("Retrieved and validated prompts from storage", {
-          count: validatedPrompts.length,
-        });
-        resolve(validatedPrompts);
+        // Keep only string values - anything else is stale or corrupted
+        const values: PromptVariableValues = {};
+        Object.entries(promptValues as Record<string, unknown>).forEach(
+          ([name, value]) => {
+            if (typeof value === "string") {
+              values[name] = value;
+            }
+          },
+        );
+        resolve(values);
       });
     } catch (err) {
-      logError("Unexpected error accessing chrome storage", err as Error);
-      resolve([]); // Graceful fallback
+      logError("Unexpected error reading variable values", err as Error);
+      resolve({});
     }
   });
 }
 
+/**
+ * Remember the values entered for a prompt's template variables; the
+ * background worker saves them under StorageManager's lock, so saves from
+ * several tabs and the popup don't overwrite each other
+ */
+export async function savePromptVariableValues(
+  promptId: string,
+  values: PromptVariableValues,
+): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage<
+      unknown,
+      { success: boolean; error?: string } | undefined
+    >({ type: "SAVE_VARIABLE_VALUES", data: { promptId, values } });
+    if (!response?.success) {
+      throw new Error(response?.error ?? "No reply from the extension");
+    }
+    debug("Saved variable values", {
+      promptId,
+      variableCount: Object.keys(values).length,
+    });
+  } catch (err) {
+    // Remembering values is a convenience - never block insertion on it
+    warn("Failed to save variable values", {
+      promptId,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
 /**
  * Escape HTML to ensure user-generated content is displayed safely
  * @deprecated Use DOMUtils.escapeHtml instead
@@ -384,6 +603,16 @@ export function validatePromptData(prompt: unknown): Prompt | null {
       lastUsedAt,
     };
 
+    if (Array.isArray(promptObj.tags)) {
+      validatedPrompt.tags = promptObj.tags
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => sanitizeUserInput(tag));
+    }
+
+    if (promptObj.pinned === true) {
+      validatedPrompt.pinned = true;
+    }
+
     // Ensure required fields are not empty after sanitization
     if (
       !validatedPrompt.id ||
@@ -448,6 +677,13 @@ export function createPromptListItem(
 
     DOMUtils.appendChild(promptItem, promptTitle);
     DOMUtils.appendChild(promptItem, promptCategory);
+    if (prompt.pinned) {
+      promptItem.classList.add("pinned");
+      DOMUtils.appendChild(
+        promptItem,
+        DOMUtils.createElement("span", { class: "prompt-pinned" }, "Pinned"),
+      );
+    }
     DOMUtils.appendChild(promptItem, promptPreview);
 
     return promptItem;
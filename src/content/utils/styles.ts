@@ -271,6 +271,13 @@ export function getCSS(): string {
       margin-bottom: 6px;
     }
 
+    .prompt-pinned {
+      font-size: 12px;
+      color: #4f46e5;
+      font-weight: 600;
+      margin-left: 6px;
+    }
+
     .prompt-preview {
       font-size: 13px;
       color: #6b7280;
@@ -284,6 +291,285 @@ export function getCSS(): string {
       font-style: italic;
     }
 
+    /* Slash command suggestions (opens above the chat input) */
+    .prompt-library-selector.slash-command-menu {
+      position: fixed;
+      width: 360px;
+      max-height: 320px;
+    }
+
+    .slash-command-menu .prompt-list {
+      max-height: 312px;
+      padding: 4px 0;
+    }
+
+    /* Template variable form */
+    .prompt-variable-form {
+      padding: 12px 16px;
+      max-height: 400px;
+      overflow-y: auto;
+      box-sizing: border-box;
+    }
+
+    .prompt-variable-heading {
+      font-weight: 600;
+      color: #111827;
+      font-size: 14px;
+      margin-bottom: 12px;
+    }
+
+    .prompt-variable-field {
+      margin-bottom: 10px;
+    }
+
+    .prompt-variable-label {
+      display: block;
+      font-size: 12px;
+      font-weight: 500;
+      color: #374151;
+      margin-bottom: 4px;
+    }
+
+    .prompt-variable-input {
+      width: 100%;
+      padding: 6px 10px;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      font-size: 14px;
+      font-family: inherit;
+      outline: none;
+      box-sizing: border-box;
+      background: white;
+      color: #111827;
+    }
+
+    textarea.prompt-variable-input {
+      resize: vertical;
+    }
+
+    .prompt-variable-input:focus {
+      border-color: #4f46e5;
+      box-shadow: 0 0 0 3px rgba(79, 70, 229, 0.1);
+    }
+
+    .prompt-variable-builtins {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 4px 12px;
+      margin: 12px 0 0;
+      padding: 8px 10px;
+      border-radius: 6px;
+      background: #f9fafb;
+      font-size: 12px;
+    }
+
+    .prompt-variable-builtins dt {
+      font-weight: 500;
+      color: #374151;
+    }
+
+    .prompt-variable-builtins dd {
+      margin: 0;
+      color: #4b5563;
+      overflow-wrap: anywhere;
+    }
+
+    .prompt-variable-builtins dd.empty {
+      font-style: italic;
+      color: #9ca3af;
+    }
+
+    .prompt-variable-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      margin-top: 12px;
+    }
+
+    .prompt-variable-back,
+    .prompt-variable-submit {
+      padding: 6px 14px;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    }
+
+    .prompt-variable-back {
+      background: transparent;
+      border: 1px solid #d1d5db;
+      color: #374151;
+    }
+
+    .prompt-variable-back:hover {
+      background: #f3f4f6;
+    }
+
+    .prompt-variable-submit {
+      background: #4f46e5;
+      border: 1px solid #4f46e5;
+      color: white;
+    }
+
+    .prompt-variable-submit:hover {
+      background: #4338ca;
+    }
+
+    /* Prompt chain progress panel (bottom right while a chain runs) */
+    .prompt-chain-overlay {
+      position: fixed;
+      right: 16px;
+      bottom: 16px;
+      width: 300px;
+      padding: 12px 16px;
+      background: white;
+      border: 1px solid #e5e7eb;
+      border-radius: 10px;
+      box-shadow: 0 10px 25px rgba(0, 0, 0, 0.15);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 13px;
+      color: #111827;
+      z-index: 1000001;
+      box-sizing: border-box;
+    }
+
+    .prompt-chain-title {
+      font-weight: 600;
+      font-size: 14px;
+      margin-bottom: 4px;
+    }
+
+    .prompt-chain-status {
+      font-size: 12px;
+      color: #4b5563;
+      margin-bottom: 8px;
+    }
+
+    .prompt-chain-steps {
+      list-style: none;
+      margin: 0 0 10px;
+      padding: 0;
+    }
+
+    .prompt-chain-step {
+      display: flex;
+      gap: 8px;
+      padding: 3px 0;
+      color: #6b7280;
+    }
+
+    .prompt-chain-step.running,
+    .prompt-chain-step.waiting {
+      color: #4f46e5;
+      font-weight: 500;
+    }
+
+    .prompt-chain-step.done {
+      color: #059669;
+    }
+
+    .prompt-chain-step.failed {
+      color: #dc2626;
+    }
+
+    .prompt-chain-confirm {
+      font-size: 12px;
+      font-weight: 500;
+      margin-bottom: 6px;
+    }
+
+    .prompt-chain-preview {
+      max-height: 120px;
+      overflow-y: auto;
+      margin-bottom: 10px;
+      padding: 6px 8px;
+      border-radius: 6px;
+      background: #f9fafb;
+      font-size: 12px;
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+    }
+
+    .prompt-chain-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+    }
+
+    .prompt-chain-actions button {
+      padding: 5px 12px;
+      border-radius: 6px;
+      font-size: 12px;
+      font-weight: 500;
+      cursor: pointer;
+      background: transparent;
+      border: 1px solid #d1d5db;
+      color: #374151;
+    }
+
+    .prompt-chain-actions button:hover {
+      background: #f3f4f6;
+    }
+
+    .prompt-chain-overlay.dark-theme {
+      background: #1f2937;
+      border-color: #374151;
+      color: #f9fafb;
+    }
+
+    .prompt-chain-overlay.dark-theme .prompt-chain-status,
+    .prompt-chain-overlay.dark-theme .prompt-chain-step {
+      color: #9ca3af;
+    }
+
+    .prompt-chain-overlay.dark-theme .prompt-chain-preview {
+      background: #111827;
+    }
+
+    .prompt-chain-overlay.dark-theme .prompt-chain-actions button {
+      border-color: #4b5563;
+      color: #e5e7eb;
+    }
+
+    .prompt-chain-overlay.dark-theme .prompt-chain-actions button:hover {
+      background: #374151;
+    }
+
+    /* Save actions next to assistant messages; colours follow the host page */
+    .prompt-library-response-actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin: 6px 0;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    }
+
+    .prompt-library-response-action {
+      padding: 3px 10px;
+      border-radius: 6px;
+      font-size: 12px;
+      line-height: 1.4;
+      cursor: pointer;
+      background: transparent;
+      border: 1px solid currentColor;
+      color: inherit;
+      opacity: 0.6;
+      max-width: 320px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .prompt-library-response-action:hover,
+    .prompt-library-response-action:focus-visible {
+      opacity: 1;
+    }
+
+    .prompt-library-response-action:disabled {
+      cursor: default;
+      opacity: 0.3;
+    }
+
     /* Dark theme support */
     .prompt-library-selector.dark-theme {
       background: #1f2937;
@@ -349,6 +635,10 @@ export function getCSS(): string {
       color: #c7d2fe;
     }
 
+    .prompt-library-selector.dark-theme .prompt-pinned {
+      color: #a5b4fc;
+    }
+
     .prompt-library-selector.dark-theme .prompt-preview {
       color: #9ca3af;
     }
@@ -357,6 +647,45 @@ export function getCSS(): string {
       color: #9ca3af;
     }
 
+    .prompt-library-selector.dark-theme .prompt-variable-heading {
+      color: #f9fafb;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-label {
+      color: #d1d5db;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-input {
+      background: #374151;
+      border-color: #4b5563;
+      color: #f9fafb;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-input:focus {
+      border-color: #6366f1;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-builtins {
+      background: #111827;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-builtins dt {
+      color: #d1d5db;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-builtins dd {
+      color: #9ca3af;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-back {
+      border-color: #4b5563;
+      color: #d1d5db;
+    }
+
+    .prompt-library-selector.dark-theme .prompt-variable-back:hover {
+      background: #374151;
+    }
+
     /* Light theme support (explicit for clarity) */
     .prompt-library-selector.light-theme {
       background: white;
@@ -430,6 +759,20 @@ export function getCSS(): string {
       color: #6b7280;
     }
 
+    .prompt-library-selector.light-theme .prompt-variable-heading {
+      color: #111827;
+    }
+
+    .prompt-library-selector.light-theme .prompt-variable-label {
+      color: #374151;
+    }
+
+    .prompt-library-selector.light-theme .prompt-variable-input {
+      background: white;
+      border-color: #d1d5db;
+      color: #111827;
+    }
+
     /* Responsive design */
     @media (max-width: 480px) {
       .prompt-library-selector {
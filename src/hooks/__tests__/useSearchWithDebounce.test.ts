@@ -1,7 +1,7 @@
 import { renderHook, act } from '@testing-library/react';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-import type { Prompt } from '../../types';
+import type { Category, Prompt } from '../../types';
 import { useSearchWithDebounce } from '../useSearchWithDebounce';
 
 const prompts: Prompt[] = [
@@ -206,6 +206,32 @@ describe('useSearchWithDebounce', () => {
       expect(result.current.filteredPrompts).toHaveLength(3);
     });
 
+    it('matches prompts in subcategories when searching for a parent category', async () => {
+      // Arrange
+      const categories: Category[] = [
+        { id: 'eng', name: 'Engineering' },
+        { id: 'backend', name: 'Backend', parentId: 'eng' }
+      ];
+      const testPrompts: Prompt[] = [
+        ...prompts,
+        { id: '3', title: 'API review', content: 'Review endpoints', category: 'Backend', createdAt: 3, updatedAt: 3 }
+      ];
+      const { result } = renderHook(() => useSearchWithDebounce(testPrompts, categories));
+
+      // Act - Search for the parent category name
+      act(() => {
+        result.current.setQuery('engineering');
+      });
+
+      await act(async () => {
+        vi.advanceTimersByTime(300);
+        await vi.runAllTimersAsync();
+      });
+
+      // Assert - Finds the prompt filed under the subcategory
+      expect(result.current.filteredPrompts.map(p => p.id)).toEqual(['3']);
+    });
+
     it('handles special characters in search query', async () => {
       // Arrange
       const specialPrompts: Prompt[] = [
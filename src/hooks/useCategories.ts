@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 
 import { PromptManager } from '../services/promptManager';
 import { StorageManager } from '../services/storage';
-import type { Category, AppError } from '../types';
+import type { Category, CategoryDeleteStrategy, AppError } from '../types';
 import type { UseCategoriesReturn } from '../types/hooks';
 
 export const useCategories = (): UseCategoriesReturn => {
@@ -72,21 +72,36 @@ export const useCategories = (): UseCategoriesReturn => {
     }
   }, []); // Singletons storageManager/promptManager never change, omitted to prevent infinite loop
 
-  const deleteCategory = useCallback(async (id: string) => {
+  const deleteCategory = useCallback(async (id: string, strategy?: CategoryDeleteStrategy) => {
     try {
       setLoading(true);
       setError(null);
       
-      await storageManager.deleteCategory(id);
+      await storageManager.deleteCategory(id, strategy);
       
-      setCategories(prev => prev.filter(category => category.id !== id));
+      // Subcategories may have been reparented or deleted as well
+      setCategories(await storageManager.getCategories());
     } catch (err) {
       setError(err as AppError);
       throw err;
     } finally {
       setLoading(false);
     }
-  }, []); // Singleton storageManager never changes, omitted to prevent infinite loop
+  }, [storageManager]);
+
+  // No loading state: a drag-and-drop move should not replace the tree with a spinner
+  const moveCategory = useCallback(async (id: string, parentId: string | null, beforeId?: string) => {
+    try {
+      setError(null);
+
+      await storageManager.moveCategory(id, parentId, beforeId);
+
+      setCategories(await storageManager.getCategories());
+    } catch (err) {
+      setError(err as AppError);
+      throw err;
+    }
+  }, [storageManager]);
 
   // Initial load
   useEffect(() => {
@@ -100,6 +115,7 @@ export const useCategories = (): UseCategoriesReturn => {
     createCategory,
     updateCategory,
     deleteCategory,
+    moveCategory,
     refreshCategories
   };
 };
\ No newline at end of file
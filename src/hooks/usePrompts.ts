@@ -2,8 +2,15 @@ import { useState, useEffect, useCallback } from 'react';
 
 import { PromptManager } from '../services/promptManager';
 import { StorageManager } from '../services/storage';
-import type { Prompt, AppError } from '../types';
+import type { Prompt, Category, AppError } from '../types';
 import type { UsePromptsReturn } from '../types/hooks';
+import { getCategoryNamesInSubtree } from '../utils/categoryTree';
+
+// Replace the prompts changed by a batch operation, keeping list order
+const mergeUpdatedPrompts = (prompts: Prompt[], updatedPrompts: Prompt[]): Prompt[] => {
+  const updatedById = new Map(updatedPrompts.map(prompt => [prompt.id, prompt]));
+  return prompts.map(prompt => updatedById.get(prompt.id) ?? prompt);
+};
 
 export const usePrompts = (): UsePromptsReturn => {
   const [prompts, setPrompts] = useState<Prompt[]>([]);
@@ -34,7 +41,8 @@ export const usePrompts = (): UsePromptsReturn => {
       const newPrompt = await promptManager.createPrompt(
         prompt.title,
         prompt.content,
-        prompt.category
+        prompt.category,
+        prompt.tags
       );
 
       setPrompts(prev => [...prev, newPrompt]);
@@ -80,6 +88,71 @@ export const usePrompts = (): UsePromptsReturn => {
     }
   }, []); // Singleton storageManager never changes, omitted to prevent infinite loop
 
+  const movePrompts = useCallback(async (ids: string[], category: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const updatedPrompts = await storageManager.movePrompts(ids, category);
+
+      setPrompts(prev => mergeUpdatedPrompts(prev, updatedPrompts));
+    } catch (err) {
+      setError(err as AppError);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [storageManager]);
+
+  const updatePromptsTags = useCallback(async (ids: string[], changes: { add?: string[]; remove?: string[] }) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const updatedPrompts = await storageManager.updatePromptsTags(ids, changes);
+
+      setPrompts(prev => mergeUpdatedPrompts(prev, updatedPrompts));
+    } catch (err) {
+      setError(err as AppError);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [storageManager]);
+
+  const deletePrompts = useCallback(async (ids: string[]) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      await storageManager.deletePrompts(ids);
+
+      const deletedIds = new Set(ids);
+      setPrompts(prev => prev.filter(prompt => !deletedIds.has(prompt.id)));
+    } catch (err) {
+      setError(err as AppError);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [storageManager]);
+
+  // No loading state: pinning should not swap the list for a spinner
+  const setPromptPinned = useCallback(async (id: string, pinned: boolean) => {
+    try {
+      setError(null);
+
+      const updatedPrompt = await storageManager.setPromptPinned(id, pinned);
+
+      setPrompts(prev =>
+        prev.map(prompt => prompt.id === id ? updatedPrompt : prompt)
+      );
+    } catch (err) {
+      setError(err as AppError);
+      throw err;
+    }
+  }, [storageManager]);
+
   const searchPrompts = useCallback((query: string): Prompt[] => {
     if (!query.trim()) {
       return prompts;
@@ -89,15 +162,18 @@ export const usePrompts = (): UsePromptsReturn => {
     return prompts.filter(prompt => 
       prompt.title.toLowerCase().includes(searchTerm) ||
       prompt.content.toLowerCase().includes(searchTerm) ||
-      prompt.category.toLowerCase().includes(searchTerm)
+      prompt.category.toLowerCase().includes(searchTerm) ||
+      prompt.tags?.some(tag => tag.includes(searchTerm))
     );
   }, [prompts]);
 
-  const filterByCategory = useCallback((category: string | null): Prompt[] => {
+  // Pass the category list so that a parent category also matches its subcategories
+  const filterByCategory = useCallback((category: string | null, categories: Category[] = []): Prompt[] => {
     if (!category) {
       return prompts;
     }
-    return prompts.filter(prompt => prompt.category === category);
+    const categoryNames = getCategoryNamesInSubtree(categories, category);
+    return prompts.filter(prompt => categoryNames.has(prompt.category));
   }, [prompts]);
 
   // Initial load
@@ -112,6 +188,10 @@ export const usePrompts = (): UsePromptsReturn => {
     createPrompt,
     updatePrompt,
     deletePrompt,
+    setPromptPinned,
+    movePrompts,
+    updatePromptsTags,
+    deletePrompts,
     searchPrompts,
     filterByCategory,
     refreshPrompts
@@ -1,10 +1,15 @@
 import { useMemo } from 'react';
 
-import type { Prompt } from '../types';
+import type { Prompt, Category } from '../types';
 import type { UseSearchReturn } from '../types/hooks';
+import { getCategoryPath } from '../utils/categoryTree';
 import { findTextHighlights } from '../utils/textHighlight';
 
-export const useSearch = (prompts: Prompt[], query: string): UseSearchReturn => {
+// Stable default so the memoized results are not recomputed on every render
+const NO_CATEGORIES: Category[] = [];
+
+// Pass the category list to let a search for a parent category also find prompts in its subcategories
+export const useSearch = (prompts: Prompt[], query: string, categories: Category[] = NO_CATEGORIES): UseSearchReturn => {
   const filteredPrompts = useMemo(() => {
     if (!query.trim()) {
       return prompts;
@@ -14,9 +19,10 @@ export const useSearch = (prompts: Prompt[], query: string): UseSearchReturn =>
     return prompts.filter(prompt => 
       prompt.title.toLowerCase().includes(searchTerm) ||
       prompt.content.toLowerCase().includes(searchTerm) ||
-      prompt.category.toLowerCase().includes(searchTerm)
+      getCategoryPath(categories, prompt.category).some(name => name.toLowerCase().includes(searchTerm)) ||
+      prompt.tags?.some(tag => tag.includes(searchTerm))
     );
-  }, [prompts, query]);
+  }, [prompts, query, categories]);
 
   const highlightedResults = useMemo(() => {
     if (!query.trim()) {
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 
-import type { Prompt } from '../types';
+import type { Prompt, Category } from '../types';
 import type { UseSearchWithDebounceReturn } from '../types/hooks';
 import { debounce } from '../utils';
 
@@ -8,7 +8,7 @@ import { useSearch } from './useSearch';
 
 const DEBOUNCE_DELAY = 300; // 300ms debounce delay
 
-export const useSearchWithDebounce = (prompts: Prompt[]): UseSearchWithDebounceReturn => {
+export const useSearchWithDebounce = (prompts: Prompt[], categories?: Category[]): UseSearchWithDebounceReturn => {
   const [inputQuery, setInputQuery] = useState<string>('');
   const [debouncedQuery, setDebouncedQuery] = useState<string>('');
 
@@ -25,7 +25,7 @@ export const useSearchWithDebounce = (prompts: Prompt[]): UseSearchWithDebounceR
   );
 
   // Get search results using the existing useSearch hook
-  const searchResults = useSearch(prompts, debouncedQuery);
+  const searchResults = useSearch(prompts, debouncedQuery, categories);
 
   // Update debounced query when input changes
   useEffect(() => {
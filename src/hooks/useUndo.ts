@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+import { StorageManager } from '../services/storage';
+import { UndoManager } from '../services/undoManager';
+import { UNDO_LIMITS, type UndoEntry, type UndoScope } from '../types';
+import type { UseUndoOptions, UseUndoReturn } from '../types/hooks';
+import { Logger, toError } from '../utils';
+
+export const useUndo = ({ showToast, onRestored }: UseUndoOptions): UseUndoReturn => {
+  const offeredOnMountRef = useRef(false);
+
+  const undo = useCallback(async (id: string) => {
+    try {
+      const entry = await UndoManager.getInstance().undo(id);
+      await onRestored();
+      showToast(`Undone: ${entry.message}`, 'info');
+    } catch (error) {
+      Logger.error('Failed to undo action', toError(error), { component: 'useUndo' });
+      showToast(toError(error).message || 'Failed to undo', 'error');
+    }
+  }, [showToast, onRestored]);
+
+  const offerUndo = useCallback((entry: UndoEntry) => {
+    showToast(entry.message, 'success', UNDO_LIMITS.TOAST_DURATION_MS, {
+      label: 'Undo',
+      onClick: () => { void undo(entry.id); }
+    });
+  }, [showToast, undo]);
+
+  const withUndo = useCallback(async (scope: UndoScope, message: string, action: () => Promise<void>) => {
+    const snapshot = await StorageManager.getInstance().captureUndoSnapshot(scope);
+    await action();
+
+    try {
+      offerUndo(await UndoManager.getInstance().push(message, snapshot));
+    } catch (error) {
+      // The action itself succeeded; it just can't be undone
+      Logger.warn('Failed to record undo entry', { component: 'useUndo', error: toError(error).message });
+      showToast(message, 'success');
+    }
+  }, [offerUndo, showToast]);
+
+  // Offer the latest action again when the view reopens, e.g. after the side panel was closed
+  useEffect(() => {
+    if (offeredOnMountRef.current) {
+      return;
+    }
+    offeredOnMountRef.current = true;
+
+    void UndoManager.getInstance().getLatest().then((entry) => {
+      if (entry) {
+        offerUndo(entry);
+      }
+    }).catch((error: unknown) => {
+      Logger.error('Failed to load undo history', toError(error), { component: 'useUndo' });
+    });
+  }, [offerUndo]);
+
+  return { withUndo, undo };
+};
@@ -2,41 +2,94 @@
  * Search indexing system for fast prompt searching
  * Implements inverted index for O(1) term lookup + O(k) result filtering
  * where k = number of matching prompts (vs O(n×m) for full scan)
+ *
+ * Ranking is BM25F: term frequencies are weighted per field (title > tags >
+ * category > content) and normalized by field length, so a title hit outranks
+ * a mention deep in a long prompt. Query terms also match by prefix and, from
+ * four characters on, with typos (found through a trigram index of the
+ * vocabulary). Text is folded (lowercase, no diacritics) on both sides.
  */
 
 import type { Prompt } from '../types';
+import type { TextHighlight } from '../types/hooks';
+import { findTermHighlights, tokenizeText } from '../utils/textHighlight';
+
+import { levenshteinDistanceOptimized } from './SimilarityAlgorithms';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'has',
+  'had', 'her', 'was', 'one', 'our', 'out', 'day', 'get', 'use', 'how',
+  'who', 'why', 'may', 'way', 'now', 'any', 'new', 'see', 'own', 'say'
+]);
 
 /**
- * Tokenize text into searchable terms
+ * Tokenize text into searchable terms (folded: lowercase, no diacritics)
  */
 function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\p{L}\p{N}\s]/gu, ' ') // Replace punctuation with spaces (Unicode-aware: \p{L}=letters, \p{N}=numbers)
-    .split(/\s+/)
-    .filter(term => term.length > 0 && term.trim().length > 0); // Handle CJK single-character words
+  return tokenizeText(text).map(token => token.term);
 }
 
 /**
  * Extract significant terms for indexing (skip common words)
  */
 function extractIndexTerms(text: string): string[] {
-  const stopWords = new Set([
-    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'has',
-    'had', 'her', 'was', 'one', 'our', 'out', 'day', 'get', 'use', 'how',
-    'who', 'why', 'may', 'way', 'now', 'any', 'new', 'see', 'own', 'say'
-  ]);
+  return tokenize(text).filter(term => !STOP_WORDS.has(term));
+}
+
+type SearchField = 'title' | 'tags' | 'category' | 'content';
+
+const SEARCH_FIELDS: SearchField[] = ['title', 'tags', 'category', 'content'];
+
+/** How much a term occurrence counts in each field */
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  category: 1.5,
+  content: 1
+};
+
+// BM25 parameters: term frequency saturation and field length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Weight of a query term matching an indexed term by prefix, or with one or two typos */
+const MATCH_WEIGHTS = {
+  exact: 1,
+  prefix: 0.7,
+  typo1: 0.6,
+  typo2: 0.4
+} as const;
+
+// Typos are only allowed in query terms this long (shorter ones match too many words)
+const MIN_FUZZY_TERM_LENGTH = 4;
+const TWO_TYPO_TERM_LENGTH = 6;
 
-  return tokenize(text).filter(term => !stopWords.has(term));
+type FieldCounts = Record<SearchField, number>;
+
+const emptyCounts = (): FieldCounts => ({ title: 0, tags: 0, category: 0, content: 0 });
+
+/**
+ * Trigrams of a term, padded so that its first and last letters count too
+ */
+function getTrigrams(term: string): string[] {
+  const padded = ` ${term} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+  return trigrams;
 }
 
 /**
  * Inverted index structure
- * Maps terms to prompt IDs containing that term
+ * Maps terms to the prompts containing them, with per-field term frequencies
  */
 interface InvertedIndex {
-  terms: Map<string, Set<string>>; // term -> Set of prompt IDs
-  prompts: Map<string, Prompt>;    // prompt ID -> full prompt
+  terms: Map<string, Map<string, FieldCounts>>; // term -> prompt ID -> occurrences per field
+  trigrams: Map<string, Set<string>>;           // trigram -> terms containing it (typo tolerance)
+  fieldLengths: Map<string, FieldCounts>;       // prompt ID -> number of terms per field
+  totalFieldLengths: FieldCounts;               // for the average field lengths of BM25
+  prompts: Map<string, Prompt>;                 // prompt ID -> full prompt
   metadata: {
     lastUpdated: number;
     promptCount: number;
@@ -44,13 +97,25 @@ interface InvertedIndex {
   };
 }
 
+/**
+ * An indexed term that a query term matched, and how well
+ */
+interface TermExpansion {
+  term: string;
+  weight: number;
+  highlightLength: number; // leading characters of the term that the query covered
+}
+
 /**
  * Search result with relevance score
  */
 export interface SearchResult {
   prompt: Prompt;
   relevance: number; // 0-1 score
+  score: number;     // raw BM25F score, only comparable within one search
   matchedTerms: string[];
+  titleHighlights: TextHighlight[];
+  contentHighlights: TextHighlight[];
 }
 
 /**
@@ -62,6 +127,9 @@ export class SearchIndex {
   constructor() {
     this.index = {
       terms: new Map(),
+      trigrams: new Map(),
+      fieldLengths: new Map(),
+      totalFieldLengths: emptyCounts(),
       prompts: new Map(),
       metadata: {
         lastUpdated: Date.now(),
@@ -78,8 +146,7 @@ export class SearchIndex {
    */
   buildIndex(prompts: Prompt[]): void {
     // Clear existing index
-    this.index.terms.clear();
-    this.index.prompts.clear();
+    this.clearIndex();
 
     // Index each prompt
     for (const prompt of prompts) {
@@ -97,26 +164,44 @@ export class SearchIndex {
    * Add a single prompt to the index
    */
   addPromptToIndex(prompt: Prompt): void {
+    // A prompt indexed twice (same id) replaces the earlier one
+    if (this.index.prompts.has(prompt.id)) {
+      this.removePromptFromIndex(prompt.id);
+    }
+
     // Store prompt
     this.index.prompts.set(prompt.id, prompt);
 
-    // Extract and index terms from all searchable fields
-    const titleTerms = extractIndexTerms(prompt.title);
-    const contentTerms = extractIndexTerms(prompt.content);
-    const categoryTerms = extractIndexTerms(prompt.category);
-
-    const allTerms = new Set([...titleTerms, ...contentTerms, ...categoryTerms]);
+    // Extract and count terms from all searchable fields
+    const fieldTerms: Record<SearchField, string[]> = {
+      title: extractIndexTerms(prompt.title),
+      tags: (prompt.tags ?? []).flatMap(tag => extractIndexTerms(tag)),
+      category: extractIndexTerms(prompt.category),
+      content: extractIndexTerms(prompt.content)
+    };
 
-    // Add to inverted index
-    for (const term of allTerms) {
-      if (!this.index.terms.has(term)) {
-        this.index.terms.set(term, new Set());
-      }
-      const termSet = this.index.terms.get(term);
-      if (termSet) {
-        termSet.add(prompt.id);
+    const lengths = emptyCounts();
+    for (const field of SEARCH_FIELDS) {
+      lengths[field] = fieldTerms[field].length;
+      this.index.totalFieldLengths[field] += lengths[field];
+
+      // Add to inverted index
+      for (const term of fieldTerms[field]) {
+        let postings = this.index.terms.get(term);
+        if (!postings) {
+          postings = new Map();
+          this.index.terms.set(term, postings);
+          this.addTermTrigrams(term);
+        }
+        let counts = postings.get(prompt.id);
+        if (!counts) {
+          counts = emptyCounts();
+          postings.set(prompt.id, counts);
+        }
+        counts[field]++;
       }
     }
+    this.index.fieldLengths.set(prompt.id, lengths);
   }
 
   /**
@@ -129,12 +214,21 @@ export class SearchIndex {
     // Remove from prompts map
     this.index.prompts.delete(promptId);
 
+    const lengths = this.index.fieldLengths.get(promptId);
+    if (lengths) {
+      for (const field of SEARCH_FIELDS) {
+        this.index.totalFieldLengths[field] -= lengths[field];
+      }
+      this.index.fieldLengths.delete(promptId);
+    }
+
     // Remove from term index
-    for (const [term, promptIds] of this.index.terms.entries()) {
-      promptIds.delete(promptId);
+    for (const [term, postings] of this.index.terms.entries()) {
+      postings.delete(promptId);
       // Clean up empty term entries
-      if (promptIds.size === 0) {
+      if (postings.size === 0) {
         this.index.terms.delete(term);
+        this.removeTermTrigrams(term);
       }
     }
   }
@@ -148,11 +242,12 @@ export class SearchIndex {
   }
 
   /**
-   * Search with inverted index and prefix matching
+   * Search with inverted index, prefix matching and typo tolerance
    *
    * Complexity:
    * - Exact matches: O(t) where t = query terms
    * - Prefix scan: O(t × V) where V = vocabulary size (~6K-12K typical)
+   * - Typo candidates: O(t × c) where c = terms sharing a trigram with the query term
    * - Scoring: O(k × t) where k = matching prompts
    * - Total: O(t × V + k × t)
    *
@@ -184,51 +279,60 @@ export class SearchIndex {
     }
 
     // Tokenize search query
-    const queryTerms = tokenize(query);
+    const queryTerms = [...new Set(tokenize(query))];
     if (queryTerms.length === 0) {
       return [];
     }
 
-    // Find prompts containing any query term
-    const candidatePrompts = new Map<string, Set<string>>(); // promptId -> matched terms
+    const promptCount = this.index.prompts.size;
+    const averageLengths = emptyCounts();
+    for (const field of SEARCH_FIELDS) {
+      averageLengths[field] = this.index.totalFieldLengths[field] / Math.max(promptCount, 1);
+    }
 
-    for (const term of queryTerms) {
-      // Check for exact term match
-      const exactMatches = this.index.terms.get(term);
-      if (exactMatches) {
-        for (const promptId of exactMatches) {
-          if (!candidatePrompts.has(promptId)) {
-            candidatePrompts.set(promptId, new Set());
-          }
-          const matchedSet = candidatePrompts.get(promptId);
-          if (matchedSet) {
-            matchedSet.add(term);
-          }
+    // Per prompt: best score of each query term, and the indexed terms to highlight
+    const candidates = new Map<string, { termScores: Map<string, number>; highlights: Map<string, number> }>();
+    // Best score a prompt could reach per query term, to scale relevance to 0-1.
+    // An indexed query term sets the bar itself, so a rare word it merely
+    // resembles does not push the relevance of its exact matches down.
+    let maxScore = 0;
+
+    for (const queryTerm of queryTerms) {
+      const expansions = this.expandTerm(queryTerm);
+      let bestPossible = 0;
+
+      for (const { term, weight, highlightLength } of expansions) {
+        const postings = this.index.terms.get(term);
+        if (!postings) {continue;}
+
+        const idf = this.idf(postings.size);
+        if (term === queryTerm || !this.index.terms.has(queryTerm)) {
+          bestPossible = Math.max(bestPossible, weight * idf * (BM25_K1 + 1));
         }
-      }
 
-      // Check for partial term matches (prefix search)
-      // PERF: O(V) per term where V = vocabulary size. Currently acceptable (<2ms with
-      // ~12K vocabulary). If vocabulary grows significantly (100K+), consider a trie.
-      for (const [indexedTerm, promptIds] of this.index.terms.entries()) {
-        if (indexedTerm.startsWith(term) && indexedTerm !== term) {
-          for (const promptId of promptIds) {
-            if (!candidatePrompts.has(promptId)) {
-              candidatePrompts.set(promptId, new Set());
-            }
-            const matchedSet = candidatePrompts.get(promptId);
-            if (matchedSet) {
-              matchedSet.add(term);
-            }
+        for (const [promptId, counts] of postings) {
+          const lengths = this.index.fieldLengths.get(promptId) ?? emptyCounts();
+          const termScore = weight * idf * this.saturatedFrequency(counts, lengths, averageLengths);
+
+          let candidate = candidates.get(promptId);
+          if (!candidate) {
+            candidate = { termScores: new Map(), highlights: new Map() };
+            candidates.set(promptId, candidate);
           }
+          // A query term counts once, through its best matching indexed term
+          candidate.termScores.set(queryTerm, Math.max(candidate.termScores.get(queryTerm) ?? 0, termScore));
+          candidate.highlights.set(term, Math.max(candidate.highlights.get(term) ?? 0, highlightLength));
         }
       }
+
+      // Unmatched terms count as if one prompt had them
+      maxScore += bestPossible || this.idf(1) * (BM25_K1 + 1);
     }
 
     // Calculate relevance scores and build results
     const results: SearchResult[] = [];
 
-    for (const [promptId, matchedTerms] of candidatePrompts.entries()) {
+    for (const [promptId, { termScores, highlights }] of candidates.entries()) {
       const prompt = this.index.prompts.get(promptId);
       if (!prompt) {continue;}
 
@@ -237,77 +341,130 @@ export class SearchIndex {
         continue;
       }
 
-      // Calculate relevance score
-      const relevance = this.calculateRelevance(prompt, query, queryTerms, matchedTerms);
+      let score = 0;
+      for (const termScore of termScores.values()) {
+        score += termScore;
+      }
+      const relevance = Math.min(score / maxScore, 1);
 
       if (relevance >= minRelevance) {
         results.push({
           prompt,
           relevance,
-          matchedTerms: Array.from(matchedTerms)
+          score,
+          matchedTerms: Array.from(termScores.keys()),
+          titleHighlights: findTermHighlights(prompt.title, highlights),
+          contentHighlights: findTermHighlights(prompt.content, highlights)
         });
       }
     }
 
-    // Sort by relevance (highest first)
-    results.sort((a, b) => b.relevance - a.relevance);
+    // Sort by relevance (highest first); relevance is capped at 1, so compare raw scores
+    results.sort((a, b) => b.score - a.score);
 
     // Limit results
     return results.slice(0, maxResults);
   }
 
   /**
-   * Calculate relevance score for a prompt
+   * Indexed terms a query term matches: itself, terms it is a prefix of, and
+   * terms within one or two edits (typos) of it
    */
-  private calculateRelevance(
-    prompt: Prompt,
-    originalQuery: string,
-    queryTerms: string[],
-    matchedTerms: Set<string>
-  ): number {
-    let score = 0;
-    const lowerQuery = originalQuery.toLowerCase();
-
-    // Exact phrase match in title (highest weight)
-    if (prompt.title.toLowerCase().includes(lowerQuery)) {
-      score += 10;
-    }
+  private expandTerm(queryTerm: string): TermExpansion[] {
+    const expansions = new Map<string, TermExpansion>();
+    const add = (expansion: TermExpansion) => {
+      const existing = expansions.get(expansion.term);
+      if (!existing || existing.weight < expansion.weight) {
+        expansions.set(expansion.term, expansion);
+      }
+    };
 
-    // Exact phrase match in content
-    if (prompt.content.toLowerCase().includes(lowerQuery)) {
-      score += 5;
+    if (this.index.terms.has(queryTerm)) {
+      add({ term: queryTerm, weight: MATCH_WEIGHTS.exact, highlightLength: queryTerm.length });
     }
 
-    // Term coverage (what % of query terms matched)
-    const termCoverage = matchedTerms.size / queryTerms.length;
-    score += termCoverage * 3;
+    // Check for partial term matches (prefix search)
+    // PERF: O(V) per term where V = vocabulary size. Currently acceptable (<2ms with
+    // ~12K vocabulary). If vocabulary grows significantly (100K+), consider a trie.
+    for (const indexedTerm of this.index.terms.keys()) {
+      if (indexedTerm !== queryTerm && indexedTerm.startsWith(queryTerm)) {
+        add({ term: indexedTerm, weight: MATCH_WEIGHTS.prefix, highlightLength: queryTerm.length });
+      }
+    }
 
-    // Title term matches (individual terms)
-    const titleLower = prompt.title.toLowerCase();
-    for (const term of queryTerms) {
-      if (titleLower.includes(term)) {
-        score += 2;
+    // Typo tolerance: only terms sharing a trigram with the query term are compared
+    if (queryTerm.length >= MIN_FUZZY_TERM_LENGTH) {
+      const maxEdits = queryTerm.length >= TWO_TYPO_TERM_LENGTH ? 2 : 1;
+      const compared = new Set<string>();
+      for (const trigram of getTrigrams(queryTerm)) {
+        for (const indexedTerm of this.index.trigrams.get(trigram) ?? []) {
+          if (compared.has(indexedTerm) || indexedTerm === queryTerm) {continue;}
+          compared.add(indexedTerm);
+
+          const distance = levenshteinDistanceOptimized(queryTerm, indexedTerm, maxEdits);
+          if (distance <= maxEdits) {
+            add({
+              term: indexedTerm,
+              weight: distance === 1 ? MATCH_WEIGHTS.typo1 : MATCH_WEIGHTS.typo2,
+              highlightLength: indexedTerm.length
+            });
+          }
+        }
       }
     }
 
-    // Content term matches
-    const contentLower = prompt.content.toLowerCase();
-    for (const term of queryTerms) {
-      if (contentLower.includes(term)) {
-        score += 1;
+    return Array.from(expansions.values());
+  }
+
+  /**
+   * Inverse document frequency (BM25 variant, always positive)
+   */
+  private idf(documentFrequency: number): number {
+    const promptCount = this.index.prompts.size;
+    return Math.log(1 + (promptCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * BM25F term frequency: boosted, length-normalized occurrences over all
+   * fields, saturated so repeating a word has diminishing returns
+   */
+  private saturatedFrequency(counts: FieldCounts, lengths: FieldCounts, averageLengths: FieldCounts): number {
+    let frequency = 0;
+    for (const field of SEARCH_FIELDS) {
+      if (counts[field] === 0) {continue;}
+      const normalization = 1 - BM25_B + BM25_B * (lengths[field] / Math.max(averageLengths[field], 1));
+      frequency += FIELD_BOOSTS[field] * counts[field] / normalization;
+    }
+    return (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1);
+  }
+
+  private addTermTrigrams(term: string): void {
+    for (const trigram of getTrigrams(term)) {
+      let terms = this.index.trigrams.get(trigram);
+      if (!terms) {
+        terms = new Set();
+        this.index.trigrams.set(trigram, terms);
       }
+      terms.add(term);
     }
+  }
 
-    // Category match
-    if (prompt.category.toLowerCase().includes(lowerQuery)) {
-      score += 1;
+  private removeTermTrigrams(term: string): void {
+    for (const trigram of getTrigrams(term)) {
+      const terms = this.index.trigrams.get(trigram);
+      terms?.delete(term);
+      if (terms?.size === 0) {
+        this.index.trigrams.delete(trigram);
+      }
     }
+  }
 
-    // Normalize score to 0-1 range (divide by theoretical maximum)
-    // Max score = 10 (title phrase) + 5 (content phrase) + 3 (coverage) +
-    //            2*queryTerms (title terms) + 1*queryTerms (content terms) + 1 (category)
-    const maxScore = 19 + (3 * queryTerms.length);
-    return Math.min(score / maxScore, 1);
+  private clearIndex(): void {
+    this.index.terms.clear();
+    this.index.trigrams.clear();
+    this.index.fieldLengths.clear();
+    this.index.totalFieldLengths = emptyCounts();
+    this.index.prompts.clear();
   }
 
   /**
@@ -369,11 +526,12 @@ export class SearchIndex {
         return true; // Should never happen due to above check, but defensive
       }
 
-      // Check if content has changed (title, content, or category)
+      // Check if content has changed (title, content, category, or tags)
       if (
         indexedPrompt.title !== prompt.title ||
         indexedPrompt.content !== prompt.content ||
-        indexedPrompt.category !== prompt.category
+        indexedPrompt.category !== prompt.category ||
+        indexedPrompt.tags?.join(',') !== prompt.tags?.join(',')
       ) {
         return true;
       }
@@ -386,8 +544,7 @@ export class SearchIndex {
    * Clear the index
    */
   clear(): void {
-    this.index.terms.clear();
-    this.index.prompts.clear();
+    this.clearIndex();
     this.index.metadata = {
       lastUpdated: Date.now(),
       promptCount: 0,
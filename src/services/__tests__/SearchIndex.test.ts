@@ -186,6 +186,25 @@ describe('SearchIndex', () => {
       expect(results[0].prompt.title).toContain('JavaScript');
     });
 
+    it('should find prompts by tag', () => {
+      searchIndex.buildIndex([
+        ...mockPrompts,
+        {
+          id: '5',
+          title: 'Review checklist',
+          content: 'Check naming and error handling.',
+          category: 'Work',
+          tags: ['code-review', 'team-shared'],
+          createdAt: baseTime,
+          updatedAt: baseTime
+        }
+      ]);
+
+      const results = searchIndex.search('team-shared', { maxResults: 10 });
+
+      expect(results.map(result => result.prompt.id)).toEqual(['5']);
+    });
+
     it('should find prompts by content search', () => {
       const results = searchIndex.search('variables', { maxResults: 10 });
 
@@ -339,6 +358,78 @@ describe('SearchIndex', () => {
     });
   });
 
+  describe('Fuzzy Matching', () => {
+    const buildTestPrompt = (id: string, title: string, content: string): Prompt => ({
+      id,
+      title,
+      content,
+      category: 'General',
+      createdAt: baseTime,
+      updatedAt: baseTime
+    });
+
+    it('should tolerate typos in longer query terms', () => {
+      searchIndex.buildIndex([
+        buildTestPrompt('review', 'Code Review', 'Review this pull request'),
+        buildTestPrompt('other', 'Summary', 'Summarize the meeting notes')
+      ]);
+
+      const results = searchIndex.search('reveiw');
+
+      expect(results.map(result => result.prompt.id)).toEqual(['review']);
+      expect(results[0].titleHighlights).toEqual([{ start: 5, end: 11, text: 'Review' }]);
+    });
+
+    it('should not apply typo tolerance to short terms', () => {
+      searchIndex.buildIndex([buildTestPrompt('1', 'Cat facts', 'Things about cats')]);
+
+      expect(searchIndex.search('cot')).toHaveLength(0);
+    });
+
+    it('should rank exact matches above typo matches', () => {
+      searchIndex.buildIndex([
+        buildTestPrompt('typo', 'Translate', 'Translate the text'),
+        buildTestPrompt('exact', 'Translator', 'Act as a translator')
+      ]);
+
+      const results = searchIndex.search('translator');
+
+      expect(results.map(result => result.prompt.id)).toEqual(['exact', 'typo']);
+    });
+
+    it('should match regardless of diacritics', () => {
+      searchIndex.buildIndex([
+        buildTestPrompt('accented', 'Café menu', 'Write a menu'),
+        buildTestPrompt('plain', 'Resume tips', 'Improve a resume')
+      ]);
+
+      expect(searchIndex.search('cafe').map(result => result.prompt.id)).toEqual(['accented']);
+      expect(searchIndex.search('résumé').map(result => result.prompt.id)).toEqual(['plain']);
+      expect(searchIndex.search('cafe')[0].titleHighlights).toEqual([{ start: 0, end: 4, text: 'Café' }]);
+    });
+
+    it('should highlight only the typed part of prefix matches', () => {
+      searchIndex.buildIndex([buildTestPrompt('1', 'Summarize article', 'Summarize it. Then summarize again.')]);
+
+      const [result] = searchIndex.search('summ');
+
+      expect(result.titleHighlights).toEqual([{ start: 0, end: 4, text: 'Summ' }]);
+      expect(result.contentHighlights).toEqual([{ start: 0, end: 4, text: 'Summ' }, { start: 19, end: 23, text: 'summ' }]);
+    });
+
+    it('should rank a title match above a term repeated in long content', () => {
+      searchIndex.buildIndex([
+        buildTestPrompt('repeated', 'Writing helper', `Email this. ${'Other words here. '.repeat(20)}Then email again, email once more.`),
+        buildTestPrompt('title', 'Email reply', 'Reply politely')
+      ]);
+
+      const results = searchIndex.search('email');
+
+      expect(results[0].prompt.id).toBe('title');
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+  });
+
   describe('Index Maintenance', () => {
     beforeEach(() => {
       searchIndex.buildIndex(mockPrompts);
@@ -407,6 +498,14 @@ describe('SearchIndex', () => {
       expect(searchIndex.needsRebuild(updatedPrompts)).toBe(true);
     });
 
+    it('should detect when rebuild is needed (tags changed with same timestamps)', () => {
+      searchIndex.buildIndex(mockPrompts);
+
+      const retagged = mockPrompts.map(p => (p.id === '1' ? { ...p, tags: ['frontend'] } : p));
+
+      expect(searchIndex.needsRebuild(retagged)).toBe(true);
+    });
+
     it('should not rebuild when index is current', () => {
       searchIndex.buildIndex(mockPrompts);
 
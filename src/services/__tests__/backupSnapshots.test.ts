@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { buildCategory, buildPrompt } from '../../test/builders';
+import { BACKUP_SNAPSHOT_LIMITS, DEFAULT_SETTINGS, type Prompt } from '../../types';
+import { BackupSnapshotManager } from '../backupSnapshots';
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00Z');
+
+// Snapshots persist in IndexedDB across tests; start every test empty
+const clearSnapshots = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('prompt-library-backups', 1);
+  request.onupgradeneeded = () => { request.result.createObjectStore('snapshots', { keyPath: 'id' }); };
+  request.onerror = () => { reject(request.error ?? new Error('open failed')); };
+  request.onsuccess = () => {
+    const db = request.result;
+    const transaction = db.transaction('snapshots', 'readwrite');
+    transaction.objectStore('snapshots').clear();
+    transaction.oncomplete = () => { db.close(); resolve(); };
+  };
+});
+
+const setLibrary = async (prompts: Prompt[], categoryNames = ['Uncategorized']) => {
+  await chrome.storage.local.set({
+    prompts,
+    categories: categoryNames.map(name => buildCategory({ id: name.toLowerCase(), name })),
+    settings: DEFAULT_SETTINGS
+  });
+};
+
+describe('BackupSnapshotManager', () => {
+  let manager: BackupSnapshotManager;
+
+  beforeEach(async () => {
+    // Only Date is faked: IndexedDB callbacks run on real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXED_TIME);
+    await clearSnapshots();
+    manager = BackupSnapshotManager.getInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save a compressed copy of the library and read it back', async () => {
+    const prompts = [buildPrompt({ id: 'a', content: 'Write a haiku. '.repeat(50) }), buildPrompt({ id: 'b' })];
+    await setLibrary(prompts);
+
+    const snapshot = await manager.createSnapshot();
+
+    expect(snapshot).toMatchObject({ reason: 'scheduled', promptCount: 2, categoryCount: 1, createdAt: FIXED_TIME.getTime() });
+    expect(snapshot?.size).toBeLessThan(JSON.stringify(prompts).length);
+    expect(await manager.listSnapshots()).toEqual([snapshot]);
+
+    const data = await manager.getSnapshotData(snapshot?.id ?? '');
+    expect(data.prompts.map(p => p.id)).toEqual(['a', 'b']);
+    expect(data.settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should skip a scheduled snapshot when nothing changed', async () => {
+    await setLibrary([buildPrompt({ id: 'a' })]);
+
+    await manager.createSnapshot();
+    vi.setSystemTime(FIXED_TIME.getTime() + 60_000);
+
+    expect(await manager.createSnapshot()).toBeNull();
+    expect(await manager.listSnapshots()).toHaveLength(1);
+  });
+
+  it('should keep only the newest snapshots', async () => {
+    for (let i = 0; i < BACKUP_SNAPSHOT_LIMITS.MAX_SNAPSHOTS + 2; i++) {
+      vi.setSystemTime(FIXED_TIME.getTime() + i * 60_000);
+      await setLibrary([buildPrompt({ id: `p${String(i)}` })]);
+      await manager.createSnapshot();
+    }
+
+    const snapshots = await manager.listSnapshots();
+    expect(snapshots).toHaveLength(BACKUP_SNAPSHOT_LIMITS.MAX_SNAPSHOTS);
+    expect(snapshots[0].createdAt).toBe(FIXED_TIME.getTime() + (BACKUP_SNAPSHOT_LIMITS.MAX_SNAPSHOTS + 1) * 60_000);
+    expect(snapshots[snapshots.length - 1].createdAt).toBe(FIXED_TIME.getTime() + 2 * 60_000);
+  });
+
+  it('should report what restoring a snapshot would change', async () => {
+    await setLibrary([
+      buildPrompt({ id: 'kept', title: 'Kept' }),
+      buildPrompt({ id: 'edited', title: 'Edited', content: 'Original' }),
+      buildPrompt({ id: 'deleted', title: 'Deleted' })
+    ], ['Uncategorized', 'Old']);
+    const snapshot = await manager.createSnapshot();
+
+    await setLibrary([
+      buildPrompt({ id: 'kept', title: 'Kept' }),
+      buildPrompt({ id: 'edited', title: 'Edited', content: 'Rewritten' }),
+      buildPrompt({ id: 'new', title: 'New' })
+    ], ['Uncategorized', 'New']);
+
+    const diff = await manager.compareWithCurrent(snapshot?.id ?? '');
+
+    expect(diff.added.map(p => p.title)).toEqual(['Deleted']);
+    expect(diff.removed.map(p => p.title)).toEqual(['New']);
+    expect(diff.changed.map(p => p.content)).toEqual(['Original']);
+    expect(diff.categoriesAdded).toEqual(['Old']);
+    expect(diff.categoriesRemoved).toEqual(['New']);
+  });
+
+  it('should restore a snapshot and keep the replaced library as a snapshot', async () => {
+    await setLibrary([buildPrompt({ id: 'old', title: 'Old' })]);
+    const snapshot = await manager.createSnapshot();
+
+    vi.setSystemTime(FIXED_TIME.getTime() + 60_000);
+    await setLibrary([buildPrompt({ id: 'new', title: 'New' })]);
+    await chrome.storage.local.set({ interfaceMode: 'sidepanel' });
+
+    await manager.restoreSnapshot(snapshot?.id ?? '');
+
+    const stored = await chrome.storage.local.get(['prompts', 'interfaceMode']);
+    expect((stored.prompts as Prompt[]).map(p => p.id)).toEqual(['old']);
+    // Data outside prompts, categories and settings is left alone
+    expect(stored.interfaceMode).toBe('sidepanel');
+
+    const snapshots = await manager.listSnapshots();
+    expect(snapshots.map(s => s.reason)).toEqual(['before-restore', 'scheduled']);
+    const replaced = await manager.getSnapshotData(snapshots[0].id);
+    expect(replaced.prompts.map(p => p.id)).toEqual(['new']);
+  });
+
+  it('should reject unknown snapshots', async () => {
+    await expect(manager.getSnapshotData('missing')).rejects.toThrow('no longer exists');
+  });
+});
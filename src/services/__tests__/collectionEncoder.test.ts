@@ -0,0 +1,108 @@
+import LZString from 'lz-string';
+import { describe, it, expect, vi } from 'vitest';
+
+import { buildCategory, buildPrompt } from '../../test/builders';
+import { type Prompt, PROMPT_COLLECTION_LIMITS } from '../../types';
+import {
+  collectionToImportBundle,
+  createCollectionPayload,
+  decodeCollectionPayload,
+  decodeShareCodes,
+  isCollectionCode,
+  toShareCodes
+} from '../collectionEncoder';
+
+// Content that barely compresses, so a few prompts need several code parts
+function noisyText(length: number, seed: number): string {
+  let state = seed;
+  let text = '';
+  while (text.length < length) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    text += state.toString(36);
+  }
+  return text.slice(0, length);
+}
+
+const prompts: Prompt[] = [
+  { ...buildPrompt({ id: 'p1', title: 'Summarize', content: 'Summarize {{text}}', category: 'Writing' }), tags: ['summary'] },
+  buildPrompt({ id: 'p2', title: 'Review', content: 'Review this code', category: 'Coding' })
+];
+const categories = [
+  buildCategory({ id: 'c1', name: 'Writing', color: '#FF0000' }),
+  buildCategory({ id: 'c2', name: 'Coding' })
+];
+
+describe('collectionEncoder', () => {
+  it('should round-trip a collection through a single share code', async () => {
+    const payload = await createCollectionPayload('My prompts', prompts, categories);
+    const codes = toShareCodes(payload);
+
+    expect(codes).toHaveLength(1);
+    expect(isCollectionCode(codes[0])).toBe(true);
+
+    const collection = await decodeShareCodes(codes[0]);
+    expect(collection.name).toBe('My prompts');
+    expect(collection.prompts).toEqual([
+      { title: 'Summarize', content: 'Summarize {{text}}', category: 'Writing', tags: ['summary'] },
+      { title: 'Review', content: 'Review this code', category: 'Coding' }
+    ]);
+    expect(collection.categories).toEqual([{ name: 'Writing', color: '#FF0000' }, { name: 'Coding' }]);
+  });
+
+  it('should split large collections into parts that decode in any order', async () => {
+    const large = Array.from({ length: 8 }, (_, index) =>
+      buildPrompt({ id: `p${String(index)}`, title: `Prompt ${String(index)}`, content: noisyText(15_000, index + 1) })
+    );
+    const codes = toShareCodes(await createCollectionPayload('Large', large, []));
+
+    expect(codes.length).toBeGreaterThan(1);
+
+    const collection = await decodeShareCodes([...codes].reverse().join('\n\n'));
+    expect(collection.prompts.map(prompt => prompt.content)).toEqual(large.map(prompt => prompt.content));
+  });
+
+  it('should report missing parts and codes of different collections', async () => {
+    const large = Array.from({ length: 8 }, (_, index) =>
+      buildPrompt({ id: `p${String(index)}`, content: noisyText(15_000, index + 1) })
+    );
+    const codes = toShareCodes(await createCollectionPayload('Large', large, []));
+    const [other] = toShareCodes(await createCollectionPayload('Other', prompts, categories));
+
+    await expect(decodeShareCodes(codes.slice(1).join(' '))).rejects.toThrow(`Missing part 1 of ${String(codes.length)}`);
+    await expect(decodeShareCodes(`${codes[0]} ${other}`)).rejects.toThrow('different collections');
+  });
+
+  it('should reject an oversized code part before decompressing it', async () => {
+    const decompress = vi.spyOn(LZString, 'decompressFromEncodedURIComponent');
+    const oversized = ['pmc1', 'abcd1234', '1', '1', 'A'.repeat(PROMPT_COLLECTION_LIMITS.CODE_PART_MAX + 1)].join('.');
+
+    await expect(decodeShareCodes(oversized)).rejects.toThrow('Collection too large');
+    expect(decompress).not.toHaveBeenCalled();
+    decompress.mockRestore();
+  });
+
+  it('should reject a payload whose checksum does not match', async () => {
+    const payload = await createCollectionPayload('My prompts', prompts, categories);
+    const tampered = { ...payload, p: [{ ...payload.p[0], b: 'Something else' }, payload.p[1]] };
+
+    await expect(decodeCollectionPayload(tampered)).rejects.toThrow('integrity check failed');
+
+    const code = ['pmc1', payload.c.slice(0, 8), '1', '1', LZString.compressToEncodedURIComponent(JSON.stringify(tampered))].join('.');
+    await expect(decodeShareCodes(code)).rejects.toThrow('integrity check failed');
+  });
+
+  it('should validate the name and the number of prompts', async () => {
+    await expect(createCollectionPayload('  ', prompts, categories)).rejects.toThrow('Collection name is required');
+    await expect(createCollectionPayload('Empty', [], categories)).rejects.toThrow('at least one prompt');
+  });
+
+  it('should map a collection onto an import bundle with category colors', async () => {
+    const collection = await decodeShareCodes(toShareCodes(await createCollectionPayload('My prompts', prompts, categories))[0]);
+
+    const bundle = collectionToImportBundle(collection);
+
+    expect(bundle.prompts.map(prompt => [prompt.title, prompt.category])).toEqual([['Summarize', 'Writing'], ['Review', 'Coding']]);
+    expect(bundle.prompts[0].tags).toEqual(['summary']);
+    expect(bundle.categories.find(category => category.name === 'Writing')?.color).toBe('#FF0000');
+  });
+});
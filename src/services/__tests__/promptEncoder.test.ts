@@ -248,6 +248,38 @@ describe('PromptEncoder', () => {
       const encoded = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
       expect(() => decode(encoded)).toThrow('required');
     });
+
+    it('should carry tags through round-trip encoding/decoding', () => {
+      testEncoderRoundtrip(createTestPrompt({ tags: ['code-review', 'python'] }));
+    });
+
+    it('should omit the tags field when a prompt has no tags', () => {
+      const decoded = decode(encode(createTestPrompt({ tags: [] })));
+      expect(decoded).not.toHaveProperty('tags');
+    });
+
+    it('should decode sharing codes created before tags existed', () => {
+      const payload = { title: 'Old', content: 'Content', category: 'Cat' };
+      const encoded = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+      expect(decode(encoded)).toEqual(payload);
+    });
+
+    it('should sanitize and normalize decoded tags', () => {
+      const payload = {
+        title: 'Title',
+        content: 'Content',
+        category: 'Cat',
+        tags: ['<b>Python</b>', 'python', 42, '  Team   Shared ']
+      };
+      const encoded = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+      expect(decode(encoded).tags).toEqual(['python', 'team shared']);
+    });
+
+    it('should ignore a tags field that is not an array', () => {
+      const payload = { title: 'Title', content: 'Content', category: 'Cat', tags: 'python' };
+      const encoded = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+      expect(decode(encoded)).not.toHaveProperty('tags');
+    });
   });
 
   describe('Security', () => {
@@ -283,4 +283,27 @@ describe('PromptManager - Sorting', () => {
       expect(sorted[1].title).toBe('Zebra Prompt');
     });
   });
+
+  describe('Pinned prompts', () => {
+    it.each<[SortOrder, 'asc' | 'desc']>([
+      ['title', 'asc'],
+      ['title', 'desc'],
+      ['createdAt', 'desc'],
+      ['updatedAt', 'asc']
+    ])('should keep pinned prompts first when sorting by %s %s', (order, direction) => {
+      const prompts = mockPrompts.map(p => (p.id === '3' ? { ...p, pinned: true } : p));
+
+      const sorted = manager.sortPrompts(prompts, order, direction);
+
+      expect(sorted[0].id).toBe('3');
+    });
+
+    it('should apply the sort order within pinned and unpinned groups', () => {
+      const prompts = mockPrompts.map(p => ({ ...p, pinned: p.id !== '2' }));
+
+      const sorted = manager.sortPrompts(prompts, 'title', 'asc');
+
+      expect(sorted.map(p => p.title)).toEqual(['Mango Prompt', 'Zebra Prompt', 'Apple Prompt']);
+    });
+  });
 });
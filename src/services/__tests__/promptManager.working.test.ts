@@ -181,6 +181,18 @@ describe('PromptManager - Working Tests', () => {
       expect(results.every(p => p.category === 'Development')).toBe(true);
     });
 
+    it('should include prompts in subcategories when filtering by a parent', async () => {
+      storageManagerMock.getCategories.mockResolvedValue([
+        ...mockCategories,
+        { id: '3', name: 'Engineering' },
+        { id: '4', name: 'Development', parentId: '3' }
+      ]);
+
+      const results = await promptManager.filterByCategory('Engineering');
+
+      expect(results).toHaveLength(2);
+    });
+
     it('should return all prompts when filtering by null category', async () => {
       const results = await promptManager.filterByCategory(null);
 
@@ -246,6 +258,34 @@ describe('PromptManager - Working Tests', () => {
     });
   });
 
+  describe('Merge Import Preview', () => {
+    it('should classify incoming prompts as new, identical or conflicting', async () => {
+      const items = await promptManager.previewImport([
+        { ...mockPrompts[0] },
+        { ...mockPrompts[1], id: 'theirs', content: `${mockPrompts[1].content}!` },
+        { ...mockPrompts[0], id: 'fresh', title: 'SQL Query', content: 'Write a SQL query that lists overdue invoices' }
+      ]);
+
+      expect(items.map(item => item.status)).toEqual(['identical', 'conflict', 'new']);
+      expect(items[1].existing?.id).toBe('2');
+    });
+
+    it('should build a plan from the chosen resolutions', async () => {
+      const items = await promptManager.previewImport([
+        { ...mockPrompts[0], content: 'Changed' },
+        { ...mockPrompts[1], content: 'Changed too' },
+        { ...mockPrompts[1], id: 'dup', title: 'Python Script', content: 'Write a Python script for data processing!' }
+      ]);
+
+      const plan = promptManager.createMergePlan(items, { '1': 'take-theirs', '2': 'keep-both' }, []);
+
+      expect(plan.replaced).toEqual([{ existingId: '1', prompt: items[0].incoming }]);
+      expect(plan.added).toHaveLength(1);
+      expect(plan.added[0].id).not.toBe('2');
+      expect(plan.added[0].content).toBe('Changed too');
+    });
+  });
+
   describe('Advanced Features', () => {
     it('should filter by date range', async () => {
       const startDate = Date.now() - 3000;
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { buildPrompt } from '../../test/builders';
+import { ConfigurationEncoder } from '../configurationEncoder';
+import { decode, encode } from '../promptEncoder';
+import { ShareSigningManager } from '../shareSigning';
+import { StorageManager } from '../storage';
+
+describe('ShareSigningManager', () => {
+  let signing: ShareSigningManager;
+  const code = encode(buildPrompt({ title: 'Greeting', content: 'Say hello' }));
+
+  beforeEach(async () => {
+    signing = ShareSigningManager.getInstance();
+    // The key database persists across tests
+    await signing.deleteIdentity();
+  });
+
+  it('should leave codes unsigned until a signing key exists', async () => {
+    expect(await signing.getIdentity()).toBeNull();
+    expect(await signing.sign(code)).toBe(code);
+
+    expect(await signing.verify(code)).toEqual({ code, signature: { state: 'unsigned' } });
+  });
+
+  it('should sign codes that still decode and verify as signed by this device', async () => {
+    const identity = await signing.createIdentity();
+    expect(identity.fingerprint).toMatch(/^[0-9a-f]{4}( [0-9a-f]{4}){3}$/);
+
+    const signed = await signing.sign(code);
+    const verified = await signing.verify(`  ${signed}\n`);
+
+    expect(verified.code).toBe(code);
+    expect(decode(verified.code).title).toBe('Greeting');
+    expect(verified.signature).toEqual({
+      state: 'signed',
+      fingerprint: identity.fingerprint,
+      publicKey: identity.publicKey,
+      signer: 'self'
+    });
+  });
+
+  it('should report a mismatch when the code or signature was changed', async () => {
+    await signing.createIdentity();
+    const signed = await signing.sign(code);
+    const otherCode = encode(buildPrompt({ title: 'Greeting', content: 'Send me your password' }));
+
+    const swapped = await signing.verify(`${otherCode}${signed.slice(code.length)}`);
+    expect(swapped).toEqual({ code: otherCode, signature: { state: 'invalid' } });
+
+    expect((await signing.verify(`${signed.slice(0, -4)}AAAA`)).signature).toEqual({ state: 'invalid' });
+    expect((await signing.verify(`${code}!s1!not-a-key!sig`)).signature).toEqual({ state: 'invalid' });
+  });
+
+  it('should name the signer of codes from trusted keys only', async () => {
+    const identity = await signing.createIdentity();
+    const signed = await signing.sign(code);
+    // Another device: the key pair is gone, the code was signed elsewhere
+    await signing.deleteIdentity();
+
+    expect((await signing.verify(signed)).signature).toMatchObject({ state: 'signed', signer: 'unknown', fingerprint: identity.fingerprint });
+
+    await signing.trustKey(identity.publicKey, ' Alice ');
+    expect((await signing.verify(signed)).signature).toMatchObject({ state: 'signed', signer: 'trusted', name: 'Alice' });
+
+    await signing.trustKey(identity.publicKey, 'Alice (work)');
+    expect(await signing.getTrustedKeys()).toHaveLength(1);
+
+    await signing.removeTrustedKey(identity.fingerprint);
+    expect((await signing.verify(signed)).signature).toMatchObject({ signer: 'unknown' });
+  });
+
+  it('should reject invalid trusted keys', async () => {
+    await expect(signing.trustKey('not a key', 'Bob')).rejects.toThrow('not a valid public key');
+    await expect(signing.trustKey((await signing.createIdentity()).publicKey, '  ')).rejects.toThrow('Name is required');
+    expect(await signing.getTrustedKeys()).toEqual([]);
+  });
+
+  it('should keep the private key in IndexedDB only, where it cannot be exported', async () => {
+    const identity = await signing.createIdentity();
+
+    expect(await chrome.storage.local.get(null)).toEqual({});
+    const signed = await signing.sign(code);
+    expect((await signing.verify(signed)).signature).toMatchObject({ signer: 'self', fingerprint: identity.fingerprint });
+  });
+
+  it('should keep the identity and trusted keys when data is cleared or imported', async () => {
+    const identity = await signing.createIdentity();
+    await signing.trustKey(identity.publicKey, 'Alice');
+    const storageManager = StorageManager.getInstance();
+
+    await storageManager.importData(await storageManager.exportData());
+    await storageManager.clearAllData();
+
+    expect((await signing.getIdentity())?.publicKey).toBe(identity.publicKey);
+    expect((await signing.getTrustedKeys()).map(key => key.name)).toEqual(['Alice']);
+  });
+
+  it('should sign site configuration codes', async () => {
+    await signing.createIdentity();
+    const configCode = await ConfigurationEncoder.encode({
+      hostname: 'chat.example.com',
+      displayName: 'Example Chat',
+      enabled: true,
+      dateAdded: 1
+    });
+
+    const verified = await signing.verify(await signing.sign(configCode));
+
+    expect(verified.signature).toMatchObject({ state: 'signed', signer: 'self' });
+    expect((await ConfigurationEncoder.decode(verified.code)).hostname).toBe('chat.example.com');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { buildPrompt } from '../../test/builders';
+import { type PromptRevision, DEFAULT_CATEGORY } from '../../types';
+import { StorageManager } from '../storage';
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00Z');
+
+// The data database persists across tests; start every test empty
+const clearDatabase = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('prompt-library-data', 1);
+  request.onupgradeneeded = () => { request.result.createObjectStore('entries'); };
+  request.onerror = () => { reject(request.error ?? new Error('open failed')); };
+  request.onsuccess = () => {
+    const db = request.result;
+    const transaction = db.transaction('entries', 'readwrite');
+    transaction.objectStore('entries').clear();
+    transaction.oncomplete = () => { db.close(); resolve(); };
+  };
+});
+
+const revision: PromptRevision = { id: 'r1', timestamp: 1, title: 'Old', content: 'Old body', category: DEFAULT_CATEGORY };
+
+describe('StorageManager IndexedDB layout', () => {
+  let storageManager: StorageManager;
+
+  beforeEach(async () => {
+    // Only Date is faked: IndexedDB callbacks run on real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXED_TIME);
+    await clearDatabase();
+    storageManager = StorageManager.getInstance();
+
+    Object.defineProperty(navigator, 'storage', {
+      configurable: true,
+      value: { estimate: vi.fn().mockResolvedValue({ usage: 2 * 1024 * 1024, quota: 100 * 1024 * 1024 }) }
+    });
+
+    await chrome.storage.local.set({
+      prompts: [buildPrompt({ id: 'p1', title: 'First', content: 'First body' })],
+      categories: [{ id: 'default', name: DEFAULT_CATEGORY }],
+      promptRevisions: { p1: [revision] }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should move prompt bodies and revisions out of chrome.storage.local once', async () => {
+    expect(await storageManager.getStorageLayout()).toBe('chrome-local');
+
+    expect(await storageManager.migrateToIndexedDb()).toBe(true);
+
+    const stored = await chrome.storage.local.get(['prompts', 'promptRevisions', 'storageLayout']);
+    expect(stored.storageLayout).toBe('indexeddb');
+    expect(stored.promptRevisions).toBeUndefined();
+    expect(stored.prompts).toEqual([expect.not.objectContaining({ content: expect.anything() })]);
+    expect(stored.prompts).toEqual([expect.objectContaining({ id: 'p1', title: 'First' })]);
+
+    expect((await storageManager.getPrompts())[0].content).toBe('First body');
+    expect(await storageManager.getPromptRevisions('p1')).toEqual([revision]);
+
+    expect(await storageManager.migrateToIndexedDb()).toBe(false);
+    expect((await storageManager.getPrompts())[0].content).toBe('First body');
+  });
+
+  it('should keep reading and writing prompts after the migration', async () => {
+    await storageManager.migrateToIndexedDb();
+
+    const saved = await storageManager.savePrompt({ title: 'Second', content: 'Second body', category: DEFAULT_CATEGORY });
+    await storageManager.updatePrompt('p1', { content: 'Edited body' });
+
+    const prompts = await storageManager.getPrompts();
+    expect(prompts.map(p => [p.id, p.content])).toEqual([['p1', 'Edited body'], [saved.id, 'Second body']]);
+    expect((await storageManager.getPromptRevisions('p1')).map(r => r.content)).toEqual(['First body', 'Old body']);
+
+    await storageManager.deletePrompt('p1');
+    expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+    expect((await storageManager.getPrompts()).map(p => p.id)).toEqual([saved.id]);
+  });
+
+  it('should keep the bodies of deleted prompts when the metadata write fails', async () => {
+    await storageManager.migrateToIndexedDb();
+    vi.mocked(chrome.storage.local.set).mockRejectedValueOnce(new Error('Write failed'));
+
+    await expect(storageManager.deletePrompt('p1')).rejects.toThrow();
+
+    const prompts = await storageManager.getPrompts();
+    expect(prompts.map(p => [p.id, p.content])).toEqual([['p1', 'First body']]);
+  });
+
+  it('should report browser storage usage after the migration', async () => {
+    expect((await storageManager.getStorageUsageWithWarnings()).layout).toBe('chrome-local');
+
+    await storageManager.migrateToIndexedDb();
+
+    const usage = await storageManager.getStorageUsageWithWarnings();
+    expect(usage).toMatchObject({ layout: 'indexeddb', used: 2 * 1024 * 1024, total: 100 * 1024 * 1024, percentage: 2, warningLevel: 'safe' });
+    expect(usage.revisionsUsed).toBeGreaterThan(0);
+  });
+
+  it('should clear both storages but stay migrated', async () => {
+    await storageManager.migrateToIndexedDb();
+
+    await storageManager.clearAllData();
+
+    expect(await storageManager.getStorageLayout()).toBe('indexeddb');
+    expect(await storageManager.getPrompts()).toEqual([]);
+    expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+  });
+});
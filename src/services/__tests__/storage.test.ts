@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import { buildPrompt } from '../../test/builders';
-import { type Prompt, type Category, DEFAULT_CATEGORY } from '../../types';
+import { type Prompt, type Category, type PromptRevision, DEFAULT_CATEGORY, PROMPT_REVISION_LIMITS, PROMPT_VARIABLE_VALUE_LIMITS } from '../../types';
 import { StorageManager } from '../storage';
 
 const FIXED_TIME = new Date('2025-01-01T00:00:00Z');
@@ -133,6 +133,488 @@ describe('StorageManager', () => {
     });
   });
 
+  describe('Prompt Variable Values', () => {
+    it('should return an empty object when no values are remembered', async () => {
+      const values = await storageManager.getPromptVariableValues('missing');
+
+      expect(values).toEqual({});
+    });
+
+    it('should save and load remembered values per prompt', async () => {
+      await storageManager.savePromptVariableValues('p1', { customer: 'Acme' });
+      await storageManager.savePromptVariableValues('p2', { tone: 'Formal' });
+
+      expect(await storageManager.getPromptVariableValues('p1')).toEqual({ customer: 'Acme' });
+      expect(await storageManager.getPromptVariableValues('p2')).toEqual({ tone: 'Formal' });
+    });
+
+    it('should keep at most MAX_PER_PROMPT values per prompt', async () => {
+      const values = Object.fromEntries(
+        Array.from({ length: PROMPT_VARIABLE_VALUE_LIMITS.MAX_PER_PROMPT + 5 }, (_, index) => [`var${String(index)}`, 'value'])
+      );
+
+      await storageManager.savePromptVariableValues('p1', values);
+
+      const saved = await storageManager.getPromptVariableValues('p1');
+      expect(Object.keys(saved)).toHaveLength(PROMPT_VARIABLE_VALUE_LIMITS.MAX_PER_PROMPT);
+      expect(saved.var0).toBe('value');
+    });
+
+    it('should drop remembered values when the prompt is deleted', async () => {
+      const prompt = buildPrompt({ id: 'with-vars', content: 'Hello {{name}}' });
+      await chrome.storage.local.set({ prompts: [prompt] });
+      await storageManager.savePromptVariableValues('with-vars', { name: 'Ada' });
+
+      await storageManager.deletePrompt('with-vars');
+
+      expect(await storageManager.getPromptVariableValues('with-vars')).toEqual({});
+    });
+  });
+
+  describe('Prompt Chains', () => {
+    beforeEach(async () => {
+      await chrome.storage.local.set({
+        prompts: [buildPrompt({ id: 'draft' }), buildPrompt({ id: 'critique' }), buildPrompt({ id: 'refine' })]
+      });
+    });
+
+    it('should save, update and delete chains', async () => {
+      const chain = await storageManager.savePromptChain({ title: '  Draft and refine ', promptIds: ['draft', 'critique'] });
+
+      expect(chain).toMatchObject({ title: 'Draft and refine', promptIds: ['draft', 'critique'], createdAt: FIXED_TIME.getTime() });
+      expect(await storageManager.getPromptChains()).toEqual([chain]);
+
+      const updated = await storageManager.updatePromptChain(chain.id, {
+        title: 'Draft, critique, refine',
+        promptIds: ['draft', 'critique', 'refine']
+      });
+      expect(updated.promptIds).toEqual(['draft', 'critique', 'refine']);
+      expect(await storageManager.getPromptChains()).toEqual([updated]);
+
+      await storageManager.deletePromptChain(chain.id);
+      expect(await storageManager.getPromptChains()).toEqual([]);
+    });
+
+    it('should reject chains without a title, with too few steps or unknown prompts', async () => {
+      await expect(storageManager.savePromptChain({ title: ' ', promptIds: ['draft', 'refine'] })).rejects.toThrow('Chain title is required');
+      await expect(storageManager.savePromptChain({ title: 'Short', promptIds: ['draft'] })).rejects.toThrow('A chain needs 2 to 10 steps');
+      await expect(storageManager.savePromptChain({ title: 'Unknown', promptIds: ['draft', 'missing'] })).rejects.toThrow('Chain steps must be prompts from the library');
+      await expect(storageManager.updatePromptChain('missing', { title: 'Chain', promptIds: ['draft', 'refine'] })).rejects.toThrow('not found');
+
+      expect(await storageManager.getPromptChains()).toEqual([]);
+    });
+  });
+
+  describe('Example Outputs', () => {
+    beforeEach(async () => {
+      await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'summary' })] });
+    });
+
+    it('should keep the newest outputs per prompt and delete them', async () => {
+      for (let i = 0; i < 11; i++) {
+        await storageManager.savePromptExampleOutput('summary', { content: ` Output ${String(i)} `, platform: 'claude' });
+      }
+
+      const outputs = await storageManager.getPromptExampleOutputs('summary');
+      expect(outputs).toHaveLength(10);
+      expect(outputs[0]).toMatchObject({ content: 'Output 10', platform: 'claude', createdAt: FIXED_TIME.getTime() });
+      expect(outputs[9].content).toBe('Output 1');
+
+      await storageManager.deletePromptExampleOutput('summary', outputs[0].id);
+      expect((await storageManager.getPromptExampleOutputs('summary'))[0].content).toBe('Output 9');
+    });
+
+    it('should reject empty outputs and outputs of unknown prompts', async () => {
+      await expect(storageManager.savePromptExampleOutput('summary', { content: '  ', platform: 'claude' })).rejects.toThrow('Example output is empty');
+      await expect(storageManager.savePromptExampleOutput('missing', { content: 'Text', platform: 'claude' })).rejects.toThrow('not found');
+
+      expect(await storageManager.getPromptExampleOutputs('summary')).toEqual([]);
+    });
+
+    it('should drop outputs with their prompt and bring them back on undo', async () => {
+      await storageManager.savePromptExampleOutput('summary', { content: 'A summary', platform: 'chatgpt' });
+      const snapshot = await storageManager.captureUndoSnapshot({ promptIds: ['summary'] });
+
+      await storageManager.deletePrompt('summary');
+      expect(await storageManager.getPromptExampleOutputs('summary')).toEqual([]);
+
+      await storageManager.restoreUndoSnapshot(snapshot);
+      expect(await storageManager.getPromptExampleOutputs('summary')).toMatchObject([{ content: 'A summary', platform: 'chatgpt' }]);
+    });
+  });
+
+  describe('Tags', () => {
+    it('should save normalized tags with a new prompt', async () => {
+      const saved = await storageManager.savePrompt({
+        title: 'Tagged',
+        content: 'Content',
+        category: DEFAULT_CATEGORY,
+        tags: [' Python ', 'python', 'Code Review']
+      });
+
+      expect(saved.tags).toEqual(['python', 'code review']);
+    });
+
+    it('should load prompts saved before tags existed without adding a tags field', async () => {
+      await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'legacy' })] });
+
+      const [prompt] = await storageManager.getPrompts();
+
+      expect(prompt).not.toHaveProperty('tags');
+    });
+
+    it('should import prompts with and without tags', async () => {
+      const importData = {
+        prompts: [
+          buildPrompt({ id: 'old' }),
+          { ...buildPrompt({ id: 'new' }), tags: ['team-shared'] }
+        ],
+        categories: [{ id: '1', name: DEFAULT_CATEGORY }],
+        settings: { defaultCategory: DEFAULT_CATEGORY, sortOrder: 'updatedAt' as const, sortDirection: 'desc' as const, theme: 'system' as const }
+      };
+
+      await storageManager.importData(JSON.stringify(importData));
+      const prompts = await storageManager.getPrompts();
+
+      expect(prompts.find(p => p.id === 'old')).not.toHaveProperty('tags');
+      expect(prompts.find(p => p.id === 'new')?.tags).toEqual(['team-shared']);
+    });
+  });
+
+  describe('Pinned Prompts', () => {
+    it('should pin and unpin a prompt without touching updatedAt or history', async () => {
+      await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'p1', updatedAt: 1000 })] });
+      vi.setSystemTime(new Date('2025-02-01T00:00:00Z'));
+
+      const pinned = await storageManager.setPromptPinned('p1', true);
+      expect(pinned.pinned).toBe(true);
+      expect(pinned.updatedAt).toBe(1000);
+
+      const unpinned = await storageManager.setPromptPinned('p1', false);
+      expect(unpinned.pinned).toBe(false);
+      expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+    });
+
+    it('should reject pinning a missing prompt', async () => {
+      await expect(storageManager.setPromptPinned('missing', true)).rejects.toThrow();
+    });
+
+    it('should keep the pinned flag through export and import', async () => {
+      await chrome.storage.local.set({
+        prompts: [buildPrompt({ id: 'pinned' }), buildPrompt({ id: 'plain' })],
+        settings: { defaultCategory: DEFAULT_CATEGORY, sortOrder: 'updatedAt', sortDirection: 'desc', theme: 'system' }
+      });
+      await storageManager.setPromptPinned('pinned', true);
+
+      const exported = await storageManager.exportData();
+      await storageManager.clearAllData();
+      await storageManager.importData(exported);
+      const prompts = await storageManager.getPrompts();
+
+      expect(prompts.find(p => p.id === 'pinned')?.pinned).toBe(true);
+      expect(prompts.find(p => p.id === 'plain')).not.toHaveProperty('pinned');
+    });
+  });
+
+  describe('Batch Operations', () => {
+    beforeEach(async () => {
+      await chrome.storage.local.set({
+        prompts: [
+          { ...buildPrompt({ id: 'a', updatedAt: 1000 }), tags: ['draft'] },
+          { ...buildPrompt({ id: 'b', updatedAt: 1000 }), tags: ['draft', 'python'] },
+          buildPrompt({ id: 'c', updatedAt: 1000 })
+        ],
+        categories: [{ id: 'default', name: DEFAULT_CATEGORY }, { id: 'work', name: 'Work' }]
+      });
+    });
+
+    it('should move several prompts to a category in one write', async () => {
+      vi.mocked(chrome.storage.local.set).mockClear();
+
+      const moved = await storageManager.movePrompts(['a', 'c'], 'Work');
+      const prompts = await storageManager.getPrompts();
+
+      expect(moved.map(p => p.id)).toEqual(['a', 'c']);
+      expect(prompts.map(p => p.category)).toEqual(['Work', DEFAULT_CATEGORY, 'Work']);
+      expect(prompts.find(p => p.id === 'a')?.updatedAt).toBe(FIXED_TIME.getTime());
+      expect(vi.mocked(chrome.storage.local.set).mock.calls.filter(([items]) => 'prompts' in items)).toHaveLength(1);
+    });
+
+    it('should keep the previous category of moved prompts in their history', async () => {
+      await storageManager.movePrompts(['a', 'c'], 'Work');
+
+      expect(await storageManager.getPromptRevisions('a')).toEqual([
+        expect.objectContaining({ timestamp: 1000, category: DEFAULT_CATEGORY })
+      ]);
+      expect(await storageManager.getPromptRevisions('b')).toEqual([]);
+      expect(await storageManager.getPromptRevisions('c')).toHaveLength(1);
+    });
+
+    it('should add and remove normalized tags on several prompts', async () => {
+      await storageManager.updatePromptsTags(['a', 'b'], { add: [' Review '], remove: ['DRAFT'] });
+      const prompts = await storageManager.getPrompts();
+
+      expect(prompts.find(p => p.id === 'a')?.tags).toEqual(['review']);
+      expect(prompts.find(p => p.id === 'b')?.tags).toEqual(['python', 'review']);
+      expect(prompts.find(p => p.id === 'c')).not.toHaveProperty('tags');
+      expect(await storageManager.getPromptRevisions('a')).toEqual([]);
+    });
+
+    it('should delete several prompts and their remembered values', async () => {
+      await storageManager.savePromptVariableValues('a', { name: 'Ada' });
+
+      await storageManager.deletePrompts(['a', 'b']);
+
+      expect((await storageManager.getPrompts()).map(p => p.id)).toEqual(['c']);
+      expect(await storageManager.getPromptVariableValues('a')).toEqual({});
+    });
+
+    it('should leave every prompt untouched when one id is missing', async () => {
+      await expect(storageManager.movePrompts(['a', 'missing'], 'Work')).rejects.toThrow('missing');
+      await expect(storageManager.deletePrompts(['b', 'missing'])).rejects.toThrow('missing');
+
+      const prompts = await storageManager.getPrompts();
+      expect(prompts.map(p => p.id)).toEqual(['a', 'b', 'c']);
+      expect(prompts.every(p => p.category === DEFAULT_CATEGORY)).toBe(true);
+    });
+  });
+
+  describe('Undo Snapshots', () => {
+    it('should restore deleted prompts in place with usage counts and remembered values', async () => {
+      await chrome.storage.local.set({
+        prompts: [
+          buildPrompt({ id: 'a' }),
+          buildPrompt({ id: 'b', usageCount: 7, lastUsedAt: FIXED_TIME.getTime() + 5000 }),
+          buildPrompt({ id: 'c' })
+        ]
+      });
+      await storageManager.savePromptVariableValues('b', { name: 'Ada' });
+
+      const snapshot = await storageManager.captureUndoSnapshot({ promptIds: ['b'] });
+      await storageManager.deletePrompt('b');
+      await storageManager.restoreUndoSnapshot(snapshot);
+
+      const prompts = await storageManager.getPrompts();
+      expect(prompts.map(p => p.id)).toEqual(['a', 'b', 'c']);
+      expect(prompts[1]).toMatchObject({ usageCount: 7, lastUsedAt: FIXED_TIME.getTime() + 5000 });
+      expect(await storageManager.getPromptVariableValues('b')).toEqual({ name: 'Ada' });
+    });
+
+    it('should restore deleted categories and the category of their prompts', async () => {
+      await chrome.storage.local.set({
+        prompts: [buildPrompt({ id: 'w', category: 'Work' })],
+        categories: [{ id: 'default', name: DEFAULT_CATEGORY }, { id: 'work', name: 'Work' }]
+      });
+
+      const snapshot = await storageManager.captureUndoSnapshot({ promptIds: ['w'], categories: true });
+      await storageManager.deleteCategory('work');
+      await storageManager.restoreUndoSnapshot(snapshot);
+
+      expect((await storageManager.getCategories()).map(c => c.name)).toEqual([DEFAULT_CATEGORY, 'Work']);
+      expect((await storageManager.getPrompts())[0].category).toBe('Work');
+    });
+
+    it('should remove prompts the action added and keep prompts outside the snapshot', async () => {
+      await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'existing', title: 'Before' })] });
+
+      const snapshot = await storageManager.captureUndoSnapshot({ promptIds: ['existing', 'imported'] });
+      expect(snapshot.addedPromptIds).toEqual(['imported']);
+
+      await storageManager.importPrompt(buildPrompt({ id: 'existing', title: 'After' }));
+      await storageManager.importPrompt(buildPrompt({ id: 'imported' }));
+      await storageManager.savePrompt({ title: 'Created later', content: 'Content', category: DEFAULT_CATEGORY });
+      await storageManager.restoreUndoSnapshot(snapshot);
+
+      const prompts = await storageManager.getPrompts();
+      expect(prompts.map(p => p.title)).toEqual(['Before', 'Created later']);
+    });
+  });
+
+  describe('Import Bundle Validation', () => {
+    it('should accept prompts whose categories are part of the bundle', () => {
+      const bundle = { prompts: [buildPrompt({ id: 'a', category: 'Work' })], categories: [{ id: 'w', name: 'Work' }] };
+
+      expect(storageManager.validateImportBundle(bundle)).toBe(bundle);
+    });
+
+    it('should report every invalid prompt with the JSON import rules', () => {
+      const bundle = {
+        prompts: [
+          { ...buildPrompt({ id: 'a' }), title: '' },
+          { ...buildPrompt({ id: 'b' }), content: 'x'.repeat(20001) }
+        ],
+        categories: [{ id: 'd', name: DEFAULT_CATEGORY }]
+      };
+
+      expect(() => storageManager.validateImportBundle(bundle)).toThrow(
+        /prompt\[0\]: Field "title" cannot be empty; prompt\[1\]: Field "content" exceeds/
+      );
+    });
+  });
+
+  describe('Merge Import', () => {
+    it('should merge categories by name and remap parents of new subcategories', async () => {
+      await chrome.storage.local.set({
+        prompts: [],
+        categories: [{ id: 'default', name: DEFAULT_CATEGORY }, { id: 'work', name: 'Work' }]
+      });
+
+      const result = await storageManager.mergeImportData({
+        categories: [
+          { id: 'their-work', name: 'work' },
+          { id: 'their-email', name: 'Email', parentId: 'their-work' }
+        ],
+        added: [buildPrompt({ id: 'new', category: 'work' }), buildPrompt({ id: 'other', category: 'Research' })],
+        replaced: []
+      });
+
+      expect(result).toEqual({ added: 2, replaced: 0, categoriesAdded: 2 });
+      const categories = await storageManager.getCategories();
+      expect(categories.find(c => c.name === 'Email')?.parentId).toBe('work');
+      expect(categories.some(c => c.name === 'Research')).toBe(true);
+      expect((await storageManager.getPrompts()).map(p => p.category)).toEqual(['Work', 'Research']);
+    });
+
+    it('should keep the id and usage of a replaced prompt and record its previous version', async () => {
+      await chrome.storage.local.set({
+        prompts: [buildPrompt({ id: 'mine', title: 'Mine', content: 'Old', usageCount: 4 })]
+      });
+
+      await storageManager.mergeImportData({
+        categories: [],
+        added: [],
+        replaced: [{ existingId: 'mine', prompt: buildPrompt({ id: 'theirs', title: 'Theirs', content: 'New' }) }]
+      });
+
+      const [prompt] = await storageManager.getPrompts();
+      expect(prompt).toMatchObject({ id: 'mine', title: 'Theirs', content: 'New', usageCount: 4 });
+      expect((await storageManager.getPromptRevisions('mine'))[0]).toMatchObject({ title: 'Mine', content: 'Old' });
+    });
+
+    it('should leave the library unchanged when the write fails', async () => {
+      const initialPrompts = [buildPrompt({ id: 'mine' })];
+      const initialCategories = [{ id: 'default', name: DEFAULT_CATEGORY }];
+      await chrome.storage.local.set({ prompts: initialPrompts, categories: initialCategories });
+      vi.mocked(chrome.storage.local.set).mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      await expect(storageManager.mergeImportData({
+        categories: [{ id: 'new', name: 'New' }],
+        added: [buildPrompt({ id: 'mine', category: 'New' })],
+        replaced: []
+      })).rejects.toThrow('Quota exceeded');
+
+      expect(await storageManager.getPrompts()).toEqual(initialPrompts);
+      expect(await storageManager.getCategories()).toEqual(initialCategories);
+    });
+  });
+
+  describe('Version History', () => {
+    const getBytesInUse = () =>
+      vi.mocked(chrome.storage.local.getBytesInUse as (keys?: string | string[] | null) => Promise<number>);
+    const buildRevision = (index: number): PromptRevision => ({
+      id: `rev-${String(index)}`,
+      timestamp: index,
+      title: `Title ${String(index)}`,
+      content: `Content ${String(index)}`,
+      category: DEFAULT_CATEGORY
+    });
+
+    it('should record the previous version when a prompt is updated', async () => {
+      const prompt = buildPrompt({ id: 'p1', title: 'Original', content: 'Old content', updatedAt: 1000 });
+      await chrome.storage.local.set({ prompts: [prompt] });
+
+      await storageManager.updatePrompt('p1', { content: 'New content' });
+
+      const revisions = await storageManager.getPromptRevisions('p1');
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({
+        timestamp: 1000,
+        title: 'Original',
+        content: 'Old content',
+        category: prompt.category
+      });
+    });
+
+    it('should not record a revision when title, content and category are unchanged', async () => {
+      const prompt = buildPrompt({ id: 'p1' });
+      await chrome.storage.local.set({ prompts: [prompt] });
+
+      await storageManager.updatePrompt('p1', { usageCount: 5 });
+
+      expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+    });
+
+    it('should keep revisions newest first and bounded per prompt', async () => {
+      const prompt = buildPrompt({ id: 'p1', content: 'v0' });
+      await chrome.storage.local.set({ prompts: [prompt] });
+
+      for (let i = 1; i <= PROMPT_REVISION_LIMITS.MAX_PER_PROMPT + 2; i++) {
+        await storageManager.updatePrompt('p1', { content: `v${String(i)}` });
+      }
+
+      const revisions = await storageManager.getPromptRevisions('p1');
+      expect(revisions).toHaveLength(PROMPT_REVISION_LIMITS.MAX_PER_PROMPT);
+      expect(revisions[0].content).toBe(`v${String(PROMPT_REVISION_LIMITS.MAX_PER_PROMPT + 1)}`);
+    });
+
+    it('should drop the history when the prompt is deleted', async () => {
+      const prompt = buildPrompt({ id: 'p1', content: 'v0' });
+      await chrome.storage.local.set({ prompts: [prompt] });
+      await storageManager.updatePrompt('p1', { content: 'v1' });
+
+      await storageManager.deletePrompt('p1');
+
+      expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+    });
+
+    it('should trim every history when storage usage is tight', async () => {
+      const prompt = buildPrompt({ id: 'p1', content: 'Current' });
+      await chrome.storage.local.set({
+        prompts: [prompt],
+        promptRevisions: {
+          p1: [1, 2, 3, 4, 5].map(buildRevision),
+          p2: [6, 7, 8, 9, 10].map(buildRevision)
+        }
+      });
+      getBytesInUse().mockResolvedValue(chrome.storage.local.QUOTA_BYTES * 0.9);
+
+      await storageManager.updatePrompt('p1', { content: 'Changed' });
+
+      const max = PROMPT_REVISION_LIMITS.MAX_PER_PROMPT_WHEN_TIGHT;
+      const p1Revisions = await storageManager.getPromptRevisions('p1');
+      expect(p1Revisions).toHaveLength(max);
+      expect(p1Revisions[0].content).toBe('Current');
+      expect(await storageManager.getPromptRevisions('p2')).toHaveLength(max);
+    });
+
+    it('should prune history before refusing a write for lack of space', async () => {
+      const quota = chrome.storage.local.QUOTA_BYTES;
+      await chrome.storage.local.set({
+        prompts: [],
+        promptRevisions: { p1: [1, 2, 3, 4, 5].map(buildRevision) }
+      });
+      getBytesInUse()
+        .mockResolvedValueOnce(quota * 0.99)
+        .mockResolvedValueOnce(quota * 0.99)
+        .mockResolvedValueOnce(quota * 0.5);
+
+      await storageManager.savePrompt({ title: 'New', content: 'Content', category: DEFAULT_CATEGORY });
+
+      expect(await storageManager.getPromptRevisions('p1')).toEqual([]);
+      const result = await chrome.storage.local.get('prompts');
+      expect(result.prompts as Prompt[]).toHaveLength(1);
+    });
+
+    it('should report revision storage in usage warnings', async () => {
+      await chrome.storage.local.set({ promptRevisions: { p1: [buildRevision(1)] } });
+
+      const usage = await storageManager.getStorageUsageWithWarnings();
+
+      expect(chrome.storage.local.getBytesInUse).toHaveBeenCalledWith('promptRevisions');
+      expect(usage.revisionsUsed).toBeGreaterThan(0);
+    });
+  });
+
   describe('Category Operations', () => {
     it('should save a new category', async () => {
       const categoryData = {
@@ -229,6 +711,79 @@ describe('StorageManager', () => {
     });
   });
 
+  describe('Nested Categories', () => {
+    const defaultCategory: Category = { id: 'default', name: DEFAULT_CATEGORY };
+    const eng: Category = { id: 'eng', name: 'Eng' };
+    const backend: Category = { id: 'backend', name: 'Backend', parentId: 'eng' };
+    const reviews: Category = { id: 'reviews', name: 'Reviews', parentId: 'backend' };
+
+    const promptIn = (id: string, category: string): Prompt => ({
+      id,
+      title: `Prompt ${id}`,
+      content: 'Content',
+      category,
+      createdAt: FIXED_TIME.getTime(),
+      updatedAt: FIXED_TIME.getTime()
+    });
+
+    beforeEach(async () => {
+      await chrome.storage.local.set({
+        categories: [defaultCategory, eng, backend, reviews],
+        prompts: [promptIn('p1', 'Eng'), promptIn('p2', 'Backend'), promptIn('p3', 'Reviews')]
+      });
+    });
+
+    it('should reject a parent that does not exist', async () => {
+      await expect(storageManager.saveCategory({ name: 'Orphan', parentId: 'missing' }))
+        .rejects.toThrow('Parent category with id missing not found');
+    });
+
+    it('should move a category under a new parent in front of a sibling', async () => {
+      const writing = await storageManager.saveCategory({ name: 'Writing' });
+
+      const moved = await storageManager.moveCategory(writing.id, 'eng', 'backend');
+
+      expect(moved.parentId).toBe('eng');
+      const categories = await storageManager.getCategories();
+      expect(categories.map(c => c.name)).toEqual([DEFAULT_CATEGORY, 'Eng', 'Writing', 'Backend', 'Reviews']);
+    });
+
+    it('should move a category to the top level', async () => {
+      const moved = await storageManager.moveCategory('reviews', null);
+
+      expect(moved).not.toHaveProperty('parentId');
+      const categories = await storageManager.getCategories();
+      expect(categories[categories.length - 1]).toEqual({ id: 'reviews', name: 'Reviews' });
+    });
+
+    it('should refuse to move a category into its own subtree', async () => {
+      await expect(storageManager.moveCategory('eng', 'reviews'))
+        .rejects.toThrow('A category cannot be moved into itself or one of its subcategories');
+      await expect(storageManager.updateCategory('eng', { parentId: 'eng' }))
+        .rejects.toThrow('A category cannot be moved into itself or one of its subcategories');
+    });
+
+    it('should move children up one level when deleting with the reparent strategy', async () => {
+      await storageManager.deleteCategory('backend', 'reparent');
+
+      const result = await chrome.storage.local.get(['categories', 'prompts']);
+      const categories = result.categories as Category[];
+      const prompts = result.prompts as Prompt[];
+      expect(categories).toEqual([defaultCategory, eng, { id: 'reviews', name: 'Reviews', parentId: 'eng' }]);
+      expect(prompts.map(p => p.category)).toEqual(['Eng', DEFAULT_CATEGORY, 'Reviews']);
+    });
+
+    it('should delete the whole subtree when deleting with the uncategorize strategy', async () => {
+      await storageManager.deleteCategory('eng', 'uncategorize');
+
+      const result = await chrome.storage.local.get(['categories', 'prompts']);
+      const categories = result.categories as Category[];
+      const prompts = result.prompts as Prompt[];
+      expect(categories).toEqual([defaultCategory]);
+      expect(prompts.every(p => p.category === DEFAULT_CATEGORY)).toBe(true);
+    });
+  });
+
   describe('Race Condition Prevention', () => {
     it('should handle concurrent prompt saves without corruption', async () => {
       const promptData1 = {
@@ -514,6 +1069,20 @@ describe('StorageManager', () => {
         expect(categories.map(c => c.name)).toContain('Category A');
         expect(categories.map(c => c.name)).toContain('Category B');
       });
+
+      it('should not lose a category saved while a backup is being restored', async () => {
+        const restore = storageManager.restoreBackupData({
+          prompts: [buildPrompt({ id: 'restored', title: 'Restored prompt' })],
+          categories: [{ id: 'default', name: DEFAULT_CATEGORY }, { id: 'restored', name: 'Restored' }],
+          settings: { defaultCategory: DEFAULT_CATEGORY, sortOrder: 'updatedAt', sortDirection: 'desc', theme: 'system' }
+        });
+        const save = storageManager.saveCategory({ name: 'Saved during restore' });
+
+        await Promise.all([restore, save]);
+
+        const categories = await storageManager.getCategories();
+        expect(categories.map(c => c.name)).toEqual([DEFAULT_CATEGORY, 'Restored', 'Saved during restore']);
+      });
     });
   });
 
@@ -588,10 +1157,10 @@ describe('StorageManager', () => {
         settings: { defaultCategory: DEFAULT_CATEGORY, sortOrder: 'updatedAt' as const, sortDirection: 'desc' as const, theme: 'system' as const }
       };
 
+      await chrome.storage.local.set({ promptVariableValues: { old: { name: 'Ada' } } });
       await storageManager.importData(JSON.stringify(importData));
 
-
-      expect(chrome.storage.local.clear).toHaveBeenCalled();
+      expect(await storageManager.getPromptVariableValues('old')).toEqual({});
 
       expect(chrome.storage.local.set).toHaveBeenCalledWith({ prompts: importData.prompts });
     });
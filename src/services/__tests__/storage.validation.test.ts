@@ -598,6 +598,106 @@ describe("StorageManager - Import Validation", () => {
         'lastUsedAt" cannot be before "createdAt"',
       );
     });
+
+    it("should reject prompt with non-array tags", async () => {
+      const invalidData = JSON.stringify({
+        prompts: [
+          {
+            id: "prompt-1",
+            title: "Test",
+            content: "Content",
+            category: DEFAULT_CATEGORY,
+            createdAt: FIXED_TIME.getTime(),
+            updatedAt: FIXED_TIME.getTime(),
+            tags: "python",
+          },
+        ],
+        categories: [{ id: "cat-1", name: DEFAULT_CATEGORY }],
+        settings: {
+          defaultCategory: DEFAULT_CATEGORY,
+          sortOrder: "updatedAt",
+          sortDirection: "desc",
+          theme: "light",
+        },
+      });
+
+      await expectValidationError(invalidData, 'tags" must be an array');
+    });
+
+    it("should reject prompt with non-string tags", async () => {
+      const invalidData = JSON.stringify({
+        prompts: [
+          {
+            id: "prompt-1",
+            title: "Test",
+            content: "Content",
+            category: DEFAULT_CATEGORY,
+            createdAt: FIXED_TIME.getTime(),
+            updatedAt: FIXED_TIME.getTime(),
+            tags: ["python", 42],
+          },
+        ],
+        categories: [{ id: "cat-1", name: DEFAULT_CATEGORY }],
+        settings: {
+          defaultCategory: DEFAULT_CATEGORY,
+          sortOrder: "updatedAt",
+          sortDirection: "desc",
+          theme: "light",
+        },
+      });
+
+      await expectValidationError(invalidData, 'tags" must only contain strings');
+    });
+
+    it("should reject prompt with a non-boolean pinned flag", async () => {
+      const invalidData = JSON.stringify({
+        prompts: [
+          {
+            id: "prompt-1",
+            title: "Test",
+            content: "Content",
+            category: DEFAULT_CATEGORY,
+            createdAt: FIXED_TIME.getTime(),
+            updatedAt: FIXED_TIME.getTime(),
+            pinned: "yes",
+          },
+        ],
+        categories: [{ id: "cat-1", name: DEFAULT_CATEGORY }],
+        settings: {
+          defaultCategory: DEFAULT_CATEGORY,
+          sortOrder: "updatedAt",
+          sortDirection: "desc",
+          theme: "light",
+        },
+      });
+
+      await expectValidationError(invalidData, 'pinned" must be a boolean');
+    });
+
+    it("should reject prompt with notes over the length limit", async () => {
+      const invalidData = JSON.stringify({
+        prompts: [
+          {
+            id: "prompt-1",
+            title: "Test",
+            content: "Content",
+            category: DEFAULT_CATEGORY,
+            createdAt: FIXED_TIME.getTime(),
+            updatedAt: FIXED_TIME.getTime(),
+            notes: "n".repeat(5001),
+          },
+        ],
+        categories: [{ id: "cat-1", name: DEFAULT_CATEGORY }],
+        settings: {
+          defaultCategory: DEFAULT_CATEGORY,
+          sortOrder: "updatedAt",
+          sortDirection: "desc",
+          theme: "light",
+        },
+      });
+
+      await expectValidationError(invalidData, 'notes" exceeds maximum length');
+    });
   });
 
   describe("Category Validation", () => {
@@ -682,6 +782,24 @@ describe("StorageManager - Import Validation", () => {
 
       await expect(storageManager.importData(validData)).resolves.not.toThrow();
     });
+
+    it("should reject category with a non-string parentId", async () => {
+      const invalidData = JSON.stringify({
+        prompts: [],
+        categories: [
+          { id: "cat-1", name: DEFAULT_CATEGORY },
+          { id: "cat-2", name: "Child", parentId: 1 },
+        ],
+        settings: {
+          defaultCategory: DEFAULT_CATEGORY,
+          sortOrder: "updatedAt",
+          sortDirection: "desc",
+          theme: "light",
+        },
+      });
+
+      await expectValidationError(invalidData, 'parentId" must be a string');
+    });
   });
 
   describe("Settings Validation", () => {
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { buildPrompt } from '../../test/builders';
+import { type Prompt, DEFAULT_CATEGORY, PROMPT_SYNC_ALARM } from '../../types';
+import { StorageManager } from '../storage';
+import { SyncEngine } from '../syncEngine';
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00Z').getTime();
+
+// Both "devices" share chrome.storage.sync; each has its own chrome.storage.local
+const devices: Record<string, Record<string, unknown>> = {};
+let currentDevice = 'a';
+
+const switchDevice = async (name: string) => {
+  devices[currentDevice] = await chrome.storage.local.get(null);
+  await chrome.storage.local.clear();
+  await chrome.storage.local.set(devices[name] ?? {
+    prompts: [],
+    categories: [{ id: 'default', name: DEFAULT_CATEGORY }]
+  });
+  currentDevice = name;
+};
+
+const advance = (ms = 60_000) => {
+  vi.setSystemTime(Date.now() + ms);
+};
+
+const getPrompts = () => StorageManager.getInstance().getPrompts();
+
+describe('SyncEngine', () => {
+  let engine: SyncEngine;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXED_TIME);
+    engine = SyncEngine.getInstance();
+    for (const name of Object.keys(devices)) {
+      delete devices[name];
+    }
+    currentDevice = 'a';
+    await chrome.storage.local.set({
+      prompts: [buildPrompt({ id: 'p1', title: 'Greeting', content: 'Hello' })],
+      categories: [{ id: 'default', name: DEFAULT_CATEGORY }]
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should do nothing until sync is turned on', async () => {
+    expect(await engine.sync()).toMatchObject({ enabled: false, syncedCount: 0 });
+    expect(await chrome.storage.sync.get(null)).toEqual({});
+  });
+
+  it('should copy prompts to another device, creating their categories', async () => {
+    await StorageManager.getInstance().updatePrompt('p1', { category: 'Work', tags: ['email'] });
+    expect(await engine.setEnabled(true)).toMatchObject({ enabled: true, syncedCount: 1, lastSyncAt: FIXED_TIME });
+    expect(chrome.alarms.create).toHaveBeenCalledWith(PROMPT_SYNC_ALARM, expect.objectContaining({ periodInMinutes: 15 }));
+
+    await switchDevice('b');
+    await engine.setEnabled(true);
+
+    const [prompt] = await getPrompts();
+    expect(prompt).toMatchObject({ id: 'p1', title: 'Greeting', content: 'Hello', category: 'Work', tags: ['email'] });
+    expect((await StorageManager.getInstance().getCategories()).map(c => c.name)).toContain('Work');
+  });
+
+  it('should merge edits of different fields and keep the newest edit of the same field', async () => {
+    await engine.setEnabled(true);
+    await switchDevice('b');
+    await engine.setEnabled(true);
+
+    // Offline on both devices: a renames the prompt, b rewrites it
+    await switchDevice('a');
+    advance();
+    await StorageManager.getInstance().updatePrompt('p1', { title: 'Greeting from a' });
+    await switchDevice('b');
+    advance();
+    await StorageManager.getInstance().updatePrompt('p1', { content: 'Hello from b', title: 'Greeting from b' });
+
+    await switchDevice('a');
+    await engine.sync();
+    await switchDevice('b');
+    const status = await engine.sync();
+    await switchDevice('a');
+    await engine.sync();
+
+    for (const device of ['a', 'b']) {
+      await switchDevice(device);
+      expect((await getPrompts())[0]).toMatchObject({ title: 'Greeting from b', content: 'Hello from b' });
+    }
+    expect(status.conflicts).toEqual([
+      { promptId: 'p1', title: 'Greeting from b', fields: ['title'], resolvedAt: expect.any(Number) as number }
+    ]);
+    // The overwritten title stays in the history of the device that lost
+    await switchDevice('a');
+    expect((await StorageManager.getInstance().getPromptRevisions('p1'))[0].title).toBe('Greeting from a');
+  });
+
+  it('should propagate deletes and let a later edit bring a prompt back', async () => {
+    await StorageManager.getInstance().savePrompt({ title: 'Second', content: 'Kept', category: DEFAULT_CATEGORY });
+    await engine.setEnabled(true);
+    await switchDevice('b');
+    await engine.setEnabled(true);
+    expect(await getPrompts()).toHaveLength(2);
+
+    advance();
+    await StorageManager.getInstance().deletePrompt('p1');
+    await engine.sync();
+
+    await switchDevice('a');
+    await engine.sync();
+    expect((await getPrompts()).map(p => p.title)).toEqual(['Second']);
+
+    // A device that missed the delete edits the prompt afterwards
+    const tombstoned = buildPrompt({ id: 'p1', title: 'Greeting', content: 'Hello again' });
+    await switchDevice('c');
+    advance();
+    await chrome.storage.local.set({ prompts: [{ ...tombstoned, updatedAt: Date.now() }] });
+    await engine.setEnabled(true);
+    await switchDevice('a');
+    await engine.sync();
+    expect((await getPrompts()).map(p => p.content)).toContain('Hello again');
+  });
+
+  it('should shard prompts within the sync quotas and report what did not fit', async () => {
+    const { QUOTA_BYTES, QUOTA_BYTES_PER_ITEM } = chrome.storage.sync;
+    const prompts: Prompt[] = Array.from({ length: 30 }, (_, index) =>
+      buildPrompt({ id: `p${String(index)}`, title: `Prompt ${String(index)}`, content: 'x'.repeat(5000), updatedAt: FIXED_TIME - index })
+    );
+    prompts.push(buildPrompt({ id: 'huge', title: 'Huge', content: 'y'.repeat(9000) }));
+    await chrome.storage.local.set({ prompts });
+
+    const status = await engine.setEnabled(true);
+
+    const items = await chrome.storage.sync.get(null);
+    const sizes = Object.entries(items).map(([key, value]) => key.length + JSON.stringify(value).length);
+    expect(Object.keys(items).length).toBeGreaterThan(2);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(QUOTA_BYTES_PER_ITEM);
+    expect(sizes.reduce((sum, size) => sum + size, 0)).toBeLessThanOrEqual(QUOTA_BYTES);
+
+    expect(status.skipped).toContainEqual({ promptId: 'huge', title: 'Huge', reason: 'too-large' });
+    // The oldest prompts are the ones left out
+    expect(status.skipped).toContainEqual({ promptId: 'p29', title: 'Prompt 29', reason: 'quota' });
+    expect(status.syncedCount + status.skipped.length).toBe(31);
+
+    // Nothing is deleted on another device because it did not fit
+    await switchDevice('b');
+    await engine.setEnabled(true);
+    await switchDevice('a');
+    await engine.sync();
+    expect(await getPrompts()).toHaveLength(31);
+  });
+
+  it('should delete every synced prompt from chrome.storage.sync on request', async () => {
+    await engine.setEnabled(true);
+    await chrome.storage.sync.set({ unrelated: true });
+
+    await engine.removeSyncedPrompts();
+
+    expect(await chrome.storage.sync.get(null)).toEqual({ unrelated: true });
+    expect(await engine.getStatus()).toMatchObject({ enabled: true, syncedCount: 0 });
+    expect(await getPrompts()).toHaveLength(1);
+  });
+
+  it('should keep the error in the status when sync fails', async () => {
+    vi.mocked(chrome.storage.sync.set).mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+
+    await expect(engine.setEnabled(true)).rejects.toThrow('QUOTA_BYTES quota exceeded');
+    expect((await engine.getStatus()).lastError).toBe('QUOTA_BYTES quota exceeded');
+  });
+});
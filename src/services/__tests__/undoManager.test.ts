@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { buildPrompt } from '../../test/builders';
+import { type UndoSnapshot, UNDO_LIMITS, UNDO_STORAGE_KEY } from '../../types';
+import { StorageManager } from '../storage';
+import { UndoManager } from '../undoManager';
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00Z');
+
+const emptySnapshot = (): UndoSnapshot => ({ prompts: [], addedPromptIds: [], variableValues: {}, revisions: {} });
+
+describe('UndoManager', () => {
+  let undoManager: UndoManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(FIXED_TIME);
+    undoManager = UndoManager.getInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should mirror the stack to session storage so it survives the view closing', async () => {
+    const entry = await undoManager.push('Prompt deleted', emptySnapshot());
+
+    const stored = await chrome.storage.session.get(UNDO_STORAGE_KEY);
+    expect(stored[UNDO_STORAGE_KEY]).toEqual([entry]);
+    expect(await undoManager.getLatest()).toEqual(entry);
+  });
+
+  it('should pick up entries left in session storage by an earlier view', async () => {
+    const entry = { id: 'earlier', message: 'Category deleted', createdAt: FIXED_TIME.getTime(), snapshot: emptySnapshot() };
+    await chrome.storage.session.set({ [UNDO_STORAGE_KEY]: [entry] });
+
+    expect(await undoManager.getLatest()).toEqual(entry);
+  });
+
+  it('should keep only the most recent entries', async () => {
+    for (let i = 0; i < UNDO_LIMITS.MAX_ENTRIES + 2; i++) {
+      await undoManager.push(`Action ${String(i)}`, emptySnapshot());
+    }
+
+    const stored = await chrome.storage.session.get(UNDO_STORAGE_KEY);
+    expect(stored[UNDO_STORAGE_KEY]).toHaveLength(UNDO_LIMITS.MAX_ENTRIES);
+    expect((await undoManager.getLatest())?.message).toBe(`Action ${String(UNDO_LIMITS.MAX_ENTRIES + 1)}`);
+  });
+
+  it('should forget entries once they expire', async () => {
+    const entry = await undoManager.push('Prompt deleted', emptySnapshot());
+    vi.setSystemTime(FIXED_TIME.getTime() + UNDO_LIMITS.MAX_AGE_MS + 1);
+
+    expect(await undoManager.getLatest()).toBeNull();
+    await expect(undoManager.undo(entry.id)).rejects.toThrow('no longer be undone');
+  });
+
+  it('should restore the snapshot and remove the entry when undoing', async () => {
+    const storageManager = StorageManager.getInstance();
+    await chrome.storage.local.set({ prompts: [buildPrompt({ id: 'p1' })] });
+    const snapshot = await storageManager.captureUndoSnapshot({ promptIds: ['p1'] });
+    await storageManager.deletePrompt('p1');
+
+    const entry = await undoManager.push('Prompt deleted', snapshot);
+    await undoManager.undo(entry.id);
+
+    expect((await storageManager.getPrompts()).map(p => p.id)).toEqual(['p1']);
+    expect(await undoManager.getLatest()).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { buildPrompt } from '../../test/builders';
+import { type Prompt, type PromptRevision, DEFAULT_CATEGORY } from '../../types';
+import { BackupSnapshotManager } from '../backupSnapshots';
+import { StorageManager } from '../storage';
+import { SyncEngine } from '../syncEngine';
+import { VaultManager, isEncryptedText } from '../vault';
+
+const FIXED_TIME = new Date('2025-01-01T00:00:00Z');
+const PASSPHRASE = 'correct horse battery';
+
+const revision: PromptRevision = { id: 'r1', timestamp: 1, title: 'Old', content: 'Old body', category: DEFAULT_CATEGORY };
+
+const getStored = async () => {
+  const stored = await chrome.storage.local.get(['prompts', 'promptRevisions']);
+  return {
+    prompts: stored.prompts as Prompt[],
+    revisions: stored.promptRevisions as Record<string, PromptRevision[]>
+  };
+};
+
+describe('VaultManager', () => {
+  let storageManager: StorageManager;
+  let vault: VaultManager;
+
+  beforeEach(async () => {
+    // Only Date is faked: IndexedDB callbacks run on real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(FIXED_TIME);
+    storageManager = StorageManager.getInstance();
+    vault = VaultManager.getInstance();
+
+    await chrome.storage.local.set({
+      prompts: [buildPrompt({ id: 'p1', title: 'Greeting', content: 'Secret body' })],
+      categories: [{ id: 'default', name: DEFAULT_CATEGORY }],
+      promptRevisions: { p1: [revision] }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should encrypt prompt and revision content at rest and read it back while unlocked', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+
+    const { prompts, revisions } = await getStored();
+    expect(isEncryptedText(prompts[0].content)).toBe(true);
+    expect(prompts[0].title).toBe('Greeting');
+    expect(isEncryptedText(revisions.p1[0].content)).toBe(true);
+    expect(JSON.stringify(await chrome.storage.local.get(null))).not.toContain('Secret body');
+
+    expect(await vault.getStatus()).toEqual({ enabled: true, unlocked: true });
+    expect((await storageManager.getPrompts())[0].content).toBe('Secret body');
+    expect((await storageManager.getPromptRevisions('p1'))[0].content).toBe('Old body');
+
+    await storageManager.updatePrompt('p1', { content: 'New secret' });
+    expect(isEncryptedText((await getStored()).prompts[0].content)).toBe(true);
+    expect((await storageManager.getPrompts())[0].content).toBe('New secret');
+  });
+
+  it('should refuse reads and writes while locked and unlock with the right passphrase only', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+    await vault.lock();
+
+    expect(await vault.getStatus()).toEqual({ enabled: true, unlocked: false });
+    await expect(storageManager.getPrompts()).rejects.toMatchObject({ type: 'VAULT_LOCKED' });
+    await expect(storageManager.savePrompt({ title: 'New', content: 'Body', category: DEFAULT_CATEGORY }))
+      .rejects.toMatchObject({ type: 'VAULT_LOCKED' });
+
+    await expect(vault.unlock('wrong passphrase')).rejects.toThrow('Wrong passphrase');
+    await vault.unlock(PASSPHRASE);
+    expect((await storageManager.getPrompts())[0].content).toBe('Secret body');
+  });
+
+  it('should store content unencrypted again when encryption is turned off', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+    await vault.lock();
+    await vault.unlock(PASSPHRASE);
+    await storageManager.disableEncryption();
+
+    const { prompts, revisions } = await getStored();
+    expect(prompts[0].content).toBe('Secret body');
+    expect(revisions.p1[0].content).toBe('Old body');
+    expect(await vault.getStatus()).toEqual({ enabled: false, unlocked: false });
+    expect(await chrome.storage.session.get(null)).toEqual({});
+  });
+
+  it('should keep the vault on and encrypt imported data', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+    const backup = JSON.parse(await storageManager.exportData()) as { prompts: Prompt[] };
+    backup.prompts[0] = { ...backup.prompts[0], content: 'Imported secret' };
+
+    await storageManager.importData(JSON.stringify(backup));
+
+    expect(await vault.getStatus()).toEqual({ enabled: true, unlocked: true });
+    expect(isEncryptedText((await getStored()).prompts[0].content)).toBe(true);
+    expect(JSON.stringify(await chrome.storage.local.get(null))).not.toContain('Imported secret');
+    expect((await storageManager.getPrompts())[0].content).toBe('Imported secret');
+  });
+
+  it('should refuse imports while locked without clearing anything', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+    const backup = await storageManager.exportData();
+    await vault.lock();
+
+    await expect(storageManager.importData(backup)).rejects.toMatchObject({ type: 'VAULT_LOCKED' });
+
+    await vault.unlock(PASSPHRASE);
+    expect((await storageManager.getPrompts())[0].content).toBe('Secret body');
+  });
+
+  it('should reject a short passphrase without changing anything', async () => {
+    await expect(storageManager.enableEncryption('short')).rejects.toThrow('at least 8 characters');
+
+    expect(await vault.getStatus()).toEqual({ enabled: false, unlocked: false });
+    expect((await getStored()).prompts[0].content).toBe('Secret body');
+  });
+
+  it('should encrypt backup snapshots and skip scheduled ones while locked', async () => {
+    const snapshots = BackupSnapshotManager.getInstance();
+    const before = await snapshots.createSnapshot('before-restore');
+    await storageManager.enableEncryption(PASSPHRASE);
+    await snapshots.setSnapshotsEncrypted(true);
+    const after = await snapshots.createSnapshot('before-restore');
+
+    await vault.lock();
+    expect(await snapshots.createSnapshot()).toBeNull();
+    await expect(snapshots.getSnapshotData(after?.id ?? '')).rejects.toThrow('locked');
+    await expect(snapshots.getSnapshotData(before?.id ?? '')).rejects.toThrow('locked');
+
+    await vault.unlock(PASSPHRASE);
+    expect((await snapshots.getSnapshotData(after?.id ?? '')).prompts[0].content).toBe('Secret body');
+    await snapshots.setSnapshotsEncrypted(false);
+    await storageManager.disableEncryption();
+    expect((await snapshots.getSnapshotData(before?.id ?? '')).prompts[0].content).toBe('Secret body');
+  });
+
+  it('should pause sync across devices while encrypted', async () => {
+    await storageManager.enableEncryption(PASSPHRASE);
+
+    const status = await SyncEngine.getInstance().setEnabled(true);
+
+    expect(status.lastError).toBe('Sync is paused while the prompt library is encrypted');
+    expect(await chrome.storage.sync.get(null)).toEqual({});
+  });
+});
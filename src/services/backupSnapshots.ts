@@ -0,0 +1,308 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  type AppError,
+  type BackupSnapshotDiff,
+  type BackupSnapshotInfo,
+  type BackupSnapshotReason,
+  type ErrorType,
+  type Prompt,
+  type StorageData,
+  BACKUP_SNAPSHOT_LIMITS
+} from '../types';
+import { AsyncMutex } from '../utils/asyncMutex';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import * as Logger from '../utils/logger';
+import { normalizeTags } from '../utils/tags';
+
+import { StorageManager } from './storage';
+import { VaultManager, decryptBytes, encryptBytes } from './vault';
+
+class BackupSnapshotError extends Error implements AppError {
+  public type: ErrorType;
+  public details?: unknown;
+
+  constructor(appError: AppError) {
+    super(appError.message);
+    this.name = 'BackupSnapshotError';
+    this.type = appError.type;
+    this.details = appError.details;
+  }
+}
+
+// Stored record: the listed info plus the gzip-compressed JSON of the data,
+// encrypted with the vault key while the vault is on
+interface SnapshotRecord extends BackupSnapshotInfo {
+  checksum: string;
+  data: Uint8Array;
+  encrypted?: boolean;
+}
+
+const DB_NAME = 'prompt-library-backups';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = transform.writable.getWriter();
+  void writer.write(bytes);
+  void writer.close();
+
+  const chunks: Uint8Array[] = [];
+  const reader = transform.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {break;}
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toInfo(record: SnapshotRecord): BackupSnapshotInfo {
+  const { id, createdAt, reason, promptCount, categoryCount, size } = record;
+  return { id, createdAt, reason, promptCount, categoryCount, size };
+}
+
+function haveSameContent(a: Prompt, b: Prompt): boolean {
+  return a.title === b.title &&
+    a.content === b.content &&
+    a.category === b.category &&
+    normalizeTags(a.tags ?? []).join('\n') === normalizeTags(b.tags ?? []).join('\n');
+}
+
+/**
+ * BackupSnapshotManager - Singleton keeping rotating backups of the library
+ *
+ * Snapshots are gzip-compressed copies of StorageManager.getAllData() stored in
+ * IndexedDB, so they do not count against the chrome.storage.local quota. The
+ * background worker takes one on a schedule; the settings view lists, compares
+ * and restores them.
+ */
+export class BackupSnapshotManager {
+  private static instance: BackupSnapshotManager | undefined;
+
+  private readonly mutex = new AsyncMutex();
+  private db: Promise<IDBDatabase> | undefined;
+
+  private constructor() {}
+
+  static getInstance(): BackupSnapshotManager {
+    if (!BackupSnapshotManager.instance) {
+      BackupSnapshotManager.instance = new BackupSnapshotManager();
+    }
+    return BackupSnapshotManager.instance;
+  }
+
+  /**
+   * Save a snapshot of the current library and drop the oldest beyond MAX_SNAPSHOTS
+   *
+   * Scheduled snapshots are skipped when nothing changed since the latest one,
+   * so an idle library does not rotate out older, different versions.
+   * @returns The new snapshot, or null if it was skipped
+   */
+  createSnapshot(reason: BackupSnapshotReason = 'scheduled'): Promise<BackupSnapshotInfo | null> {
+    return this.mutex.withLock(async () => {
+      try {
+        const vault = await VaultManager.getInstance().getStatus();
+        // The library can't be read while locked; the next scheduled snapshot catches up
+        if (reason === 'scheduled' && vault.enabled && !vault.unlocked) {
+          return null;
+        }
+
+        const data = await StorageManager.getInstance().getAllData();
+        const json = JSON.stringify(data);
+        const checksum = await sha256(json);
+
+        const records = await this.getRecords();
+        if (reason === 'scheduled' && records[0]?.checksum === checksum) {
+          return null;
+        }
+
+        let compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('gzip'));
+        if (vault.enabled) {
+          compressed = await encryptBytes(await VaultManager.getInstance().getKey(), compressed);
+        }
+        const record: SnapshotRecord = {
+          id: uuidv4(),
+          createdAt: Date.now(),
+          reason,
+          promptCount: data.prompts.length,
+          categoryCount: data.categories.length,
+          size: compressed.length,
+          checksum,
+          data: compressed,
+          encrypted: vault.enabled
+        };
+
+        const expired = records.slice(BACKUP_SNAPSHOT_LIMITS.MAX_SNAPSHOTS - 1);
+        const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        store.put(record);
+        for (const old of expired) {
+          store.delete(old.id);
+        }
+        await transactionDone(transaction);
+
+        Logger.info('BackupSnapshotManager: Snapshot saved', {
+          component: 'BackupSnapshotManager',
+          reason,
+          promptCount: record.promptCount,
+          size: record.size
+        });
+        return toInfo(record);
+      } catch (error) {
+        throw this.toSnapshotError(error, 'Failed to save backup snapshot');
+      }
+    });
+  }
+
+  /**
+   * List snapshots, newest first
+   */
+  async listSnapshots(): Promise<BackupSnapshotInfo[]> {
+    try {
+      return (await this.getRecords()).map(toInfo);
+    } catch (error) {
+      throw this.toSnapshotError(error, 'Failed to read backup snapshots');
+    }
+  }
+
+  /**
+   * Get the library data saved in a snapshot
+   * @throws BackupSnapshotError if the snapshot does not exist or cannot be read
+   */
+  async getSnapshotData(id: string): Promise<StorageData> {
+    try {
+      const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readonly');
+      const record = await requestToPromise(transaction.objectStore(STORE_NAME).get(id) as IDBRequest<SnapshotRecord | undefined>);
+      if (!record) {
+        throw new BackupSnapshotError({ type: 'VALIDATION_ERROR', message: 'This backup snapshot no longer exists' });
+      }
+
+      let bytes = new Uint8Array(record.data);
+      if (record.encrypted) {
+        bytes = await decryptBytes(await VaultManager.getInstance().getKey(), bytes);
+      }
+      const json = await pipeBytes(bytes, new DecompressionStream('gzip'));
+      return JSON.parse(new TextDecoder().decode(json)) as StorageData;
+    } catch (error) {
+      throw this.toSnapshotError(error, 'Failed to read backup snapshot');
+    }
+  }
+
+  /**
+   * Compare a snapshot with the current library
+   * @returns What restoring the snapshot would add, remove and change
+   */
+  async compareWithCurrent(id: string): Promise<BackupSnapshotDiff> {
+    const [snapshot, current] = await Promise.all([
+      this.getSnapshotData(id),
+      StorageManager.getInstance().getAllData()
+    ]);
+
+    const currentPrompts = new Map(current.prompts.map(prompt => [prompt.id, prompt]));
+    const snapshotIds = new Set(snapshot.prompts.map(prompt => prompt.id));
+    const currentCategories = new Set(current.categories.map(category => category.name));
+    const snapshotCategories = new Set(snapshot.categories.map(category => category.name));
+
+    return {
+      added: snapshot.prompts.filter(prompt => !currentPrompts.has(prompt.id)),
+      removed: current.prompts.filter(prompt => !snapshotIds.has(prompt.id)),
+      changed: snapshot.prompts.filter(prompt => {
+        const existing = currentPrompts.get(prompt.id);
+        return existing !== undefined && !haveSameContent(existing, prompt);
+      }),
+      categoriesAdded: [...snapshotCategories].filter(name => !currentCategories.has(name)),
+      categoriesRemoved: [...currentCategories].filter(name => !snapshotCategories.has(name))
+    };
+  }
+
+  /**
+   * Replace the library with a snapshot
+   *
+   * The current library is saved as a 'before-restore' snapshot first, so a
+   * restore can itself be reverted from the list.
+   */
+  async restoreSnapshot(id: string): Promise<void> {
+    const data = await this.getSnapshotData(id);
+    await this.createSnapshot('before-restore');
+    await StorageManager.getInstance().restoreBackupData(data);
+
+    Logger.info('BackupSnapshotManager: Snapshot restored', {
+      component: 'BackupSnapshotManager',
+      promptCount: data.prompts.length
+    });
+  }
+
+  /**
+   * Encrypt every snapshot with the vault key, or decrypt them all, when the
+   * vault is turned on or (before) it is turned off
+   * @throws BackupSnapshotError if the vault is locked
+   */
+  setSnapshotsEncrypted(encrypted: boolean): Promise<void> {
+    return this.mutex.withLock(async () => {
+      try {
+        const records = (await this.getRecords()).filter(record => Boolean(record.encrypted) !== encrypted);
+        if (records.length === 0) {
+          return;
+        }
+
+        const key = await VaultManager.getInstance().getKey();
+        const updated = await Promise.all(records.map(async (record) => {
+          const bytes = new Uint8Array(record.data);
+          const data = encrypted ? await encryptBytes(key, bytes) : await decryptBytes(key, bytes);
+          return { ...record, data, size: data.length, encrypted };
+        }));
+
+        const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        for (const record of updated) {
+          store.put(record);
+        }
+        await transactionDone(transaction);
+      } catch (error) {
+        throw this.toSnapshotError(error, encrypted ? 'Failed to encrypt backup snapshots' : 'Failed to decrypt backup snapshots');
+      }
+    });
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      });
+      // Allow a later call to retry if opening failed
+      void this.db.catch(() => { this.db = undefined; });
+    }
+    return this.db;
+  }
+
+  // All records, newest first
+  private async getRecords(): Promise<SnapshotRecord[]> {
+    const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readonly');
+    const records = await requestToPromise(transaction.objectStore(STORE_NAME).getAll() as IDBRequest<SnapshotRecord[]>);
+    return records.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private toSnapshotError(error: unknown, message: string): BackupSnapshotError {
+    if (error instanceof BackupSnapshotError) {
+      return error;
+    }
+    return new BackupSnapshotError({
+      type: 'STORAGE_UNAVAILABLE',
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      details: error
+    });
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * @file CollectionEncoder Service
+ * @module services/collectionEncoder
+ * @description Sharing several prompts at once, as a code or a file
+ *
+ * A collection is a versioned payload (EncodedPromptCollectionPayloadV1) with a
+ * SHA-256 checksum of its content. Files hold the payload as JSON; share codes
+ * hold it LZ-compressed and, when longer than CODE_PART_MAX, split into
+ * numbered parts: `pmc1.<collection id>.<part>.<part count>.<data>`.
+ *
+ * Prompts are sanitized and validated like single shared prompts (see
+ * promptEncoder) on both the encode and decode paths.
+ */
+
+import LZString from 'lz-string';
+
+import { isValidHexColor } from '../constants';
+import {
+  type AppError,
+  type Category,
+  type EncodedPromptCollectionPayloadV1,
+  type ErrorType,
+  type Prompt,
+  type SharedPromptCollection,
+  type SharedPromptData,
+  PROMPT_COLLECTION_LIMITS,
+  PROMPT_SHARING_SIZE_LIMITS
+} from '../types';
+import * as Logger from '../utils/logger';
+import type { ImportBundle } from '../utils/promptFormats';
+
+import { collectCategories, createImportedPrompt } from './importers/base';
+import { sanitizeTags, sanitizeText, validatePromptData } from './promptEncoder';
+
+class CollectionEncoderError extends Error implements AppError {
+  public type: ErrorType;
+  public details?: unknown;
+
+  constructor(appError: AppError) {
+    super(appError.message);
+    this.name = 'CollectionEncoderError';
+    this.type = appError.type;
+    this.details = appError.details;
+  }
+}
+
+type CollectionContent = Omit<EncodedPromptCollectionPayloadV1, 'c'>;
+type EncodedPrompt = EncodedPromptCollectionPayloadV1['p'][number];
+
+const CURRENT_VERSION = '1.0';
+const CODE_PREFIX = 'pmc1';
+const CHECKSUM_LENGTH = 16;
+const CODE_ID_LENGTH = 8;
+// Bound on the decompressed payload (prevents decompression bombs)
+const MAX_PAYLOAD_LENGTH = PROMPT_COLLECTION_LIMITS.MAX_PROMPTS *
+  (PROMPT_SHARING_SIZE_LIMITS.TITLE_MAX + PROMPT_SHARING_SIZE_LIMITS.CONTENT_MAX + PROMPT_SHARING_SIZE_LIMITS.CATEGORY_MAX + 1000);
+
+function fail(type: ErrorType, message: string, details?: unknown): never {
+  throw new CollectionEncoderError({ type, message, details });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checksum over a fixed key order, so it doesn't depend on how the payload was serialized
+ */
+async function computeChecksum(content: CollectionContent): Promise<string> {
+  const canonical = JSON.stringify({
+    v: content.v,
+    n: content.n,
+    p: content.p.map(({ t, b, g, k }) => ({ t, b, g, ...(k && { k }) })),
+    ...(content.k && { k: content.k.map(({ n, c }) => ({ n, ...(c !== undefined && { c }) })) })
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').slice(0, CHECKSUM_LENGTH);
+}
+
+function sanitizePrompt(prompt: { title: string; content: string; category: string; tags?: unknown }): SharedPromptData {
+  const tags = sanitizeTags(prompt.tags);
+  const sanitized: SharedPromptData = {
+    title: sanitizeText(prompt.title),
+    content: sanitizeText(prompt.content),
+    category: sanitizeText(prompt.category),
+    ...(tags && { tags })
+  };
+  validatePromptData(sanitized);
+  return sanitized;
+}
+
+function sanitizeName(name: string): string {
+  const sanitized = sanitizeText(name);
+  if (!sanitized) {
+    fail('VALIDATION_ERROR', 'Collection name is required');
+  }
+  if (sanitized.length > PROMPT_COLLECTION_LIMITS.NAME_MAX) {
+    fail('VALIDATION_ERROR', `Collection name too long (max ${String(PROMPT_COLLECTION_LIMITS.NAME_MAX)} characters)`);
+  }
+  return sanitized;
+}
+
+function checkPromptCount(count: number): void {
+  if (count === 0) {
+    fail('VALIDATION_ERROR', 'A collection needs at least one prompt');
+  }
+  if (count > PROMPT_COLLECTION_LIMITS.MAX_PROMPTS) {
+    fail('VALIDATION_ERROR', `A collection can hold at most ${String(PROMPT_COLLECTION_LIMITS.MAX_PROMPTS)} prompts`);
+  }
+}
+
+/**
+ * Build the payload of a collection: the prompts' title, content, category and
+ * tags, plus the colors of their categories
+ *
+ * @throws {CollectionEncoderError} If the name or a prompt fails validation
+ */
+export async function createCollectionPayload(
+  name: string,
+  prompts: Prompt[],
+  categories: Category[]
+): Promise<EncodedPromptCollectionPayloadV1> {
+  checkPromptCount(prompts.length);
+
+  const encoded = prompts.map((prompt): EncodedPrompt => {
+    const { title, content, category, tags } = sanitizePrompt(prompt);
+    return { t: title, b: content, g: category, ...(tags && { k: tags }) };
+  });
+  const names = new Set(encoded.map(prompt => prompt.g));
+  const colors = categories
+    .filter(category => names.has(category.name) && category.color)
+    .map(category => ({ n: category.name, c: category.color }));
+
+  const content: CollectionContent = {
+    v: CURRENT_VERSION,
+    n: sanitizeName(name),
+    p: encoded,
+    ...(colors.length > 0 && { k: colors })
+  };
+  return { ...content, c: await computeChecksum(content) };
+}
+
+/**
+ * Turn a payload into share codes: one, or numbered parts to paste together
+ *
+ * @throws {CollectionEncoderError} If more than MAX_CODE_PARTS would be needed
+ */
+export function toShareCodes(payload: EncodedPromptCollectionPayloadV1): string[] {
+  const data = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+  const { CODE_PART_MAX, MAX_CODE_PARTS } = PROMPT_COLLECTION_LIMITS;
+  const total = Math.ceil(data.length / CODE_PART_MAX);
+  if (total > MAX_CODE_PARTS) {
+    fail('VALIDATION_ERROR', 'Collection too large to share as codes. Download it as a file instead.', { parts: total, max: MAX_CODE_PARTS });
+  }
+
+  const id = payload.c.slice(0, CODE_ID_LENGTH);
+  return Array.from({ length: total }, (_, index) =>
+    [CODE_PREFIX, id, String(index + 1), String(total), data.slice(index * CODE_PART_MAX, (index + 1) * CODE_PART_MAX)].join('.')
+  );
+}
+
+/**
+ * Whether text starts with a collection share code (rather than a single prompt's)
+ */
+export function isCollectionCode(text: string): boolean {
+  return text.trim().startsWith(`${CODE_PREFIX}.`);
+}
+
+/**
+ * Whether parsed JSON looks like a collection file
+ */
+export function isCollectionPayload(json: unknown): json is EncodedPromptCollectionPayloadV1 {
+  return isRecord(json) &&
+    typeof json.v === 'string' &&
+    typeof json.n === 'string' &&
+    typeof json.c === 'string' &&
+    Array.isArray(json.p);
+}
+
+/**
+ * Read a collection from its share codes, pasted together in any order and
+ * separated by whitespace
+ *
+ * @throws {CollectionEncoderError} If parts are missing, from different collections, or corrupted
+ */
+export async function decodeShareCodes(text: string): Promise<SharedPromptCollection> {
+  const codes = text.split(/\s+/).filter(code => code.length > 0);
+  if (codes.length === 0) {
+    fail('VALIDATION_ERROR', 'Paste the collection code');
+  }
+
+  const parts = new Map<number, string>();
+  let id: string | undefined;
+  let total: number | undefined;
+  for (const code of codes) {
+    const fields = code.split('.');
+    const [prefix, codeId, index, count, data] = fields;
+    if (fields.length !== 5 || prefix !== CODE_PREFIX || !/^\d+$/.test(index) || !/^\d+$/.test(count)) {
+      fail('DATA_CORRUPTION', 'Invalid collection code. Copy each code completely.');
+    }
+    if ((id !== undefined && codeId !== id) || (total !== undefined && Number(count) !== total)) {
+      fail('VALIDATION_ERROR', 'These codes belong to different collections');
+    }
+    // Check encoded sizes BEFORE decompression (prevents decompression bombs)
+    if (data.length > PROMPT_COLLECTION_LIMITS.CODE_PART_MAX) {
+      fail('VALIDATION_ERROR', 'Collection too large', { step: 'size-check', partLength: data.length });
+    }
+    id = codeId;
+    total = Number(count);
+    parts.set(Number(index), data);
+  }
+
+  if (total === undefined || total < 1 || total > PROMPT_COLLECTION_LIMITS.MAX_CODE_PARTS) {
+    fail('DATA_CORRUPTION', 'Invalid collection code. Copy each code completely.');
+  }
+  const missing = Array.from({ length: total }, (_, index) => index + 1).filter(index => !parts.has(index));
+  if (missing.length > 0) {
+    fail('VALIDATION_ERROR', `Missing part ${missing.join(', ')} of ${String(total)}. Paste all parts of the collection code.`, { missing });
+  }
+
+  const data = Array.from({ length: total }, (_, index) => parts.get(index + 1)).join('');
+  if (data.length > PROMPT_COLLECTION_LIMITS.CODE_PART_MAX * PROMPT_COLLECTION_LIMITS.MAX_CODE_PARTS) {
+    fail('VALIDATION_ERROR', 'Collection too large', { step: 'size-check', length: data.length });
+  }
+  const json = LZString.decompressFromEncodedURIComponent(data) as string | null;
+  if (!json) {
+    fail('DATA_CORRUPTION', 'Invalid collection code. Copy each code completely.', { step: 'decompression' });
+  }
+  if (json.length > MAX_PAYLOAD_LENGTH) {
+    fail('VALIDATION_ERROR', 'Collection too large', { step: 'decompression' });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch (error) {
+    fail('DATA_CORRUPTION', 'Invalid collection code. Copy each code completely.', { step: 'json-parse', error });
+  }
+  return await decodeCollectionPayload(payload);
+}
+
+/**
+ * Check and sanitize a collection payload, from a file or share codes
+ *
+ * @throws {CollectionEncoderError} If the version is unknown, the checksum does not match or a prompt is invalid
+ */
+export async function decodeCollectionPayload(json: unknown): Promise<SharedPromptCollection> {
+  if (!isCollectionPayload(json)) {
+    fail('DATA_CORRUPTION', 'Invalid collection format');
+  }
+  if (json.v !== CURRENT_VERSION) {
+    fail('VALIDATION_ERROR', `Unsupported collection version (v${json.v}). Please update the extension.`);
+  }
+  checkPromptCount(json.p.length);
+
+  const promptsValid = json.p.every(entry =>
+    isRecord(entry) && typeof entry.t === 'string' && typeof entry.b === 'string' && typeof entry.g === 'string'
+  );
+  const categoriesValid = json.k === undefined || (Array.isArray(json.k) && json.k.every(entry => isRecord(entry) && typeof entry.n === 'string'));
+  if (!promptsValid || !categoriesValid) {
+    fail('DATA_CORRUPTION', 'Invalid collection format');
+  }
+
+  const { c: checksum, ...content } = json;
+  if (checksum !== await computeChecksum(content)) {
+    Logger.warn('Collection checksum mismatch', { component: 'CollectionEncoder', name: content.n });
+    fail('DATA_CORRUPTION', 'Collection integrity check failed. The code or file may have been modified or damaged.');
+  }
+
+  const prompts = content.p.map(entry => sanitizePrompt({ title: entry.t, content: entry.b, category: entry.g, tags: entry.k }));
+  const colors = new Map((content.k ?? []).map(entry => [sanitizeText(entry.n), entry.c]));
+  const categories = [...new Set(prompts.map(prompt => prompt.category))].map(name => {
+    const color = colors.get(name);
+    return typeof color === 'string' && isValidHexColor(color) ? { name, color } : { name };
+  });
+
+  return { name: sanitizeName(content.n), prompts, categories };
+}
+
+/**
+ * Map a collection onto an import bundle, for the import preview and merge
+ */
+export function collectionToImportBundle(collection: SharedPromptCollection): ImportBundle {
+  const prompts = collection.prompts.map(prompt => createImportedPrompt(prompt));
+  const colors = new Map(collection.categories.map(category => [category.name.toLowerCase(), category.color]));
+  const categories = collectCategories(prompts).map(category => {
+    const color = colors.get(category.name.toLowerCase());
+    return color ? { ...category, color } : category;
+  });
+  return { prompts, categories };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+
+import { DEFAULT_CATEGORY } from '../../../types';
+import { detectPromptImporter } from '../index';
+
+describe('Prompt importers', () => {
+  describe('AIPRM exports', () => {
+    const aiprm = [
+      {
+        ID: '1783',
+        Title: 'Keyword Strategy',
+        Teaser: 'Create a keyword strategy',
+        Prompt: 'Act as an SEO expert for [TARGETLANGUAGE]. [PROMPT]',
+        Topic: 'SEO',
+        Activity: 'Keywords',
+        AuthorName: 'Jane',
+        Votes: 12,
+        CreationTime: '2023-02-01T10:00:00Z',
+        RevisionTime: '2023-03-01T10:00:00Z'
+      },
+      { ID: 2, Title: 'Blog Outline', PromptTemplate: 'Outline a post about [PROMPT]', Topic: 'seo' }
+    ];
+
+    it('maps titles, topics and activities and keeps the other fields in notes', () => {
+      const detected = detectPromptImporter('aiprm.json', JSON.stringify(aiprm));
+      expect(detected?.importer.id).toBe('aiprm');
+
+      const bundle = detected?.importer.parse(detected.input);
+      expect(bundle?.prompts[0]).toMatchObject({
+        id: 'aiprm-1783',
+        title: 'Keyword Strategy',
+        content: 'Act as an SEO expert for [TARGETLANGUAGE]. [PROMPT]',
+        category: 'SEO',
+        tags: ['Keywords'],
+        notes: 'Teaser: Create a keyword strategy\nAuthorName: Jane\nVotes: 12',
+        createdAt: Date.parse('2023-02-01T10:00:00Z'),
+        updatedAt: Date.parse('2023-03-01T10:00:00Z')
+      });
+      expect(bundle?.prompts[1]).toMatchObject({ id: 'aiprm-2', category: 'SEO' });
+      expect(bundle?.categories.map(c => c.name)).toEqual(['SEO']);
+    });
+  });
+
+  describe('ChatGPT custom instructions', () => {
+    it('splits copied text at the two questions', () => {
+      const text = [
+        'What would you like ChatGPT to know about you to provide better responses?',
+        'I am a backend developer working in Go.',
+        '',
+        'How would you like ChatGPT to respond?',
+        'Be concise and show code first.'
+      ].join('\n');
+
+      const detected = detectPromptImporter('instructions.txt', text);
+      expect(detected?.importer.id).toBe('chatgpt-custom-instructions');
+
+      const bundle = detected?.importer.parse(detected.input);
+      expect(bundle?.prompts.map(p => [p.title, p.content])).toEqual([
+        ['Custom instructions: About me', 'I am a backend developer working in Go.'],
+        ['Custom instructions: Response style', 'Be concise and show code first.']
+      ]);
+      expect(bundle?.prompts[0]).toMatchObject({ category: 'Custom Instructions', tags: ['chatgpt', 'custom instructions'] });
+    });
+
+    it('reads the settings object from data exports', () => {
+      const json = { about_user_message: 'I teach math.', about_model_message: '', enabled: true };
+
+      const detected = detectPromptImporter('user.json', JSON.stringify(json));
+      const bundle = detected?.importer.parse(detected.input);
+
+      expect(bundle?.prompts).toHaveLength(1);
+      expect(bundle?.prompts[0]).toMatchObject({ content: 'I teach math.', notes: 'enabled: true' });
+    });
+  });
+
+  describe('generic JSON lists', () => {
+    it('maps name and prompt keys and keeps unknown fields in notes', () => {
+      const json = [
+        { name: 'Summarize', prompt: 'Summarize this text', category: 'Writing', tags: 'short, summary', model: 'gpt-4', temperature: 0.2 },
+        { title: 'Translate', text: 'Translate to French' }
+      ];
+
+      const detected = detectPromptImporter('prompts.json', JSON.stringify(json));
+      expect(detected?.importer.id).toBe('generic-json');
+
+      const bundle = detected?.importer.parse(detected.input);
+      expect(bundle?.prompts[0]).toMatchObject({
+        title: 'Summarize',
+        content: 'Summarize this text',
+        category: 'Writing',
+        tags: ['short', 'summary'],
+        notes: 'model: gpt-4\ntemperature: 0.2'
+      });
+      expect(bundle?.prompts[1]).toMatchObject({ title: 'Translate', category: DEFAULT_CATEGORY });
+      expect(bundle?.prompts[1]).not.toHaveProperty('notes');
+      expect(bundle?.categories.map(c => c.name)).toEqual(['Writing', DEFAULT_CATEGORY]);
+    });
+
+    it('leaves files without a known shape alone', () => {
+      expect(detectPromptImporter('notes.txt', 'Just some text')).toBeUndefined();
+      expect(detectPromptImporter('data.json', JSON.stringify([{ foo: 'bar' }]))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * AIPRM-style prompt exports
+ *
+ * A JSON array (or `{ prompts: [...] }`) of entries with capitalized keys such
+ * as `Title`, `Prompt`/`PromptTemplate`, `Topic` and `Activity`. Topic becomes
+ * the category and Activity a tag; teaser, hints, author and the like end up in notes.
+ */
+
+import { parseTagInput } from '../../utils/tags';
+
+import {
+  collectCategories,
+  createImportedPrompt,
+  findRecordList,
+  formatUnmappedFields,
+  parseDate,
+  pickString,
+  type ImportRecord,
+  type PromptImporter
+} from './base';
+
+const LIST_KEYS = ['prompts', 'Prompts', 'data'];
+const TITLE_KEYS = ['Title'];
+const CONTENT_KEYS = ['PromptTemplate', 'Prompt'];
+const CATEGORY_KEYS = ['Topic', 'Community', 'Category'];
+const ACTIVITY_KEYS = ['Activity'];
+// Mapped fields and identifiers that carry no meaning outside AIPRM
+const MAPPED_KEYS = ['ID', 'Title', 'PromptTemplate', 'Prompt', 'Topic', 'Community', 'Category', 'Activity', 'Tags', 'CreationTime', 'RevisionTime'];
+
+function isAiprmEntry(entry: ImportRecord): boolean {
+  return pickString(entry, TITLE_KEYS)?.key === 'Title' &&
+    CONTENT_KEYS.some(key => typeof entry[key] === 'string');
+}
+
+export const aiprmImporter: PromptImporter = {
+  id: 'aiprm',
+  name: 'AIPRM export',
+
+  detect: ({ json }) => findRecordList(json, LIST_KEYS)?.some(isAiprmEntry) ?? false,
+
+  parse: ({ json }) => {
+    const now = Date.now();
+    const prompts = (findRecordList(json, LIST_KEYS) ?? [])
+      .filter(isAiprmEntry)
+      .map((entry) => {
+        const activity = pickString(entry, ACTIVITY_KEYS)?.value;
+        const tags = [
+          ...(activity ? [activity] : []),
+          ...(typeof entry.Tags === 'string' ? parseTagInput(entry.Tags) : []),
+          ...(Array.isArray(entry.Tags) ? entry.Tags.filter((tag): tag is string => typeof tag === 'string') : [])
+        ];
+
+        return createImportedPrompt({
+          id: entry.ID === undefined || entry.ID === null ? undefined : `aiprm-${String(entry.ID)}`,
+          title: pickString(entry, TITLE_KEYS)?.value ?? '',
+          content: pickString(entry, CONTENT_KEYS)?.value ?? '',
+          category: pickString(entry, CATEGORY_KEYS)?.value,
+          tags,
+          notes: formatUnmappedFields(entry, MAPPED_KEYS),
+          createdAt: parseDate(entry.CreationTime),
+          updatedAt: parseDate(entry.RevisionTime)
+        }, now);
+      });
+
+    return { prompts, categories: collectCategories(prompts) };
+  }
+};
@@ -0,0 +1,156 @@
+/**
+ * Shared contract and helpers for prompt importers
+ *
+ * An importer recognizes the export format of another prompt tool and maps it
+ * onto prompts and categories. Fields that have no place in a prompt are kept
+ * in its `notes` instead of being dropped.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { DEFAULT_CATEGORY, VALIDATION_LIMITS } from '../../constants';
+import type { Category } from '../../types';
+import type { ImportBundle } from '../../utils/promptFormats';
+
+export interface ImporterInput {
+  fileName: string;
+  text: string;
+  /** Parsed file content, or undefined if the file is not JSON */
+  json: unknown;
+}
+
+export interface PromptImporter {
+  id: string;
+  /** Shown in the import preview, e.g. "AIPRM export" */
+  name: string;
+  /** Whether the file looks like this format; must not throw */
+  detect: (input: ImporterInput) => boolean;
+  /** Map the file onto an import bundle; it is validated before anything is imported */
+  parse: (input: ImporterInput) => ImportBundle;
+}
+
+export type ImportRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is ImportRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get the first key of `record` from `keys` (case-insensitive) that holds a non-empty string
+ * @returns The key as spelled in the record, and its trimmed value
+ */
+export function pickString(record: ImportRecord, keys: readonly string[]): { key: string; value: string } | undefined {
+  for (const wanted of keys) {
+    const key = Object.keys(record).find(k => k.toLowerCase() === wanted.toLowerCase());
+    const value = key === undefined ? undefined : record[key];
+    if (key !== undefined && typeof value === 'string' && value.trim() !== '') {
+      return { key, value: value.trim() };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse a date from another tool (ISO string or milliseconds)
+ */
+export function parseDate(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Write the fields of a record that were not mapped as `key: value` lines
+ *
+ * Empty values are left out and the result is cut to the notes length limit.
+ * @returns The notes, or undefined if nothing is left over
+ */
+export function formatUnmappedFields(record: ImportRecord, mappedKeys: Iterable<string>): string | undefined {
+  const mapped = new Set(Array.from(mappedKeys, key => key.toLowerCase()));
+  const lines: string[] = [];
+
+  for (const [key, value] of Object.entries(record)) {
+    if (mapped.has(key.toLowerCase()) || value === null || value === undefined || value === '') {
+      continue;
+    }
+    if (Array.isArray(value) && value.length === 0) {
+      continue;
+    }
+    lines.push(`${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  }
+
+  if (lines.length === 0) {
+    return undefined;
+  }
+  const notes = lines.join('\n');
+  return notes.length > VALIDATION_LIMITS.PROMPT_NOTES_MAX
+    ? `${notes.slice(0, VALIDATION_LIMITS.PROMPT_NOTES_MAX - 1)}…`
+    : notes;
+}
+
+/**
+ * Build a prompt for an import bundle; missing fields get the defaults of a new prompt
+ */
+export function createImportedPrompt(fields: {
+  id?: string;
+  title: string;
+  content: string;
+  category?: string;
+  tags?: string[];
+  notes?: string;
+  createdAt?: number;
+  updatedAt?: number;
+}, now = Date.now()): ImportRecord {
+  const createdAt = fields.createdAt ?? now;
+  return {
+    id: fields.id ?? uuidv4(),
+    title: fields.title.slice(0, VALIDATION_LIMITS.PROMPT_TITLE_MAX),
+    content: fields.content,
+    category: fields.category?.trim() || DEFAULT_CATEGORY,
+    ...(fields.tags && fields.tags.length > 0 && { tags: fields.tags }),
+    ...(fields.notes && { notes: fields.notes }),
+    createdAt,
+    updatedAt: Math.max(fields.updatedAt ?? createdAt, createdAt)
+  };
+}
+
+/**
+ * Create the top-level categories used by a list of imported prompts
+ *
+ * Names differing only in case become one category, and the prompts are
+ * updated to use its spelling (the first one seen).
+ */
+export function collectCategories(prompts: readonly ImportRecord[]): Category[] {
+  const names = new Map<string, string>();
+  for (const prompt of prompts) {
+    const name = prompt.category as string;
+    const spelling = names.get(name.toLowerCase());
+    if (spelling === undefined) {
+      names.set(name.toLowerCase(), name);
+    } else {
+      prompt.category = spelling;
+    }
+  }
+  return Array.from(names.values(), name => ({ id: uuidv4(), name }));
+}
+
+/**
+ * Find the list of entries in a JSON file: the file itself if it is an array,
+ * or the first array of objects found under one of `keys`
+ */
+export function findRecordList(json: unknown, keys: readonly string[]): ImportRecord[] | undefined {
+  const list = Array.isArray(json)
+    ? json
+    : isRecord(json)
+      ? keys.map(key => json[key]).find(Array.isArray)
+      : undefined;
+  if (!list || list.length === 0 || !list.every(isRecord)) {
+    return undefined;
+  }
+  return list;
+}
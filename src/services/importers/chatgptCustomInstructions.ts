@@ -0,0 +1,96 @@
+/**
+ * ChatGPT custom instructions
+ *
+ * Accepts the text copied from the custom instructions dialog (the two
+ * question headings followed by the answers) and the
+ * `{ about_user_message, about_model_message }` object found in ChatGPT data
+ * exports. Each answer becomes one prompt; other JSON fields go to notes.
+ */
+
+import {
+  collectCategories,
+  createImportedPrompt,
+  formatUnmappedFields,
+  isRecord,
+  type ImportRecord,
+  type PromptImporter
+} from './base';
+
+const CATEGORY = 'Custom Instructions';
+const TAGS = ['chatgpt', 'custom instructions'];
+
+const SECTIONS = [
+  {
+    title: 'Custom instructions: About me',
+    jsonKey: 'about_user_message',
+    heading: /^\s*what would you like chatgpt to know about you.*$/im
+  },
+  {
+    title: 'Custom instructions: Response style',
+    jsonKey: 'about_model_message',
+    heading: /^\s*how would you like chatgpt to respond.*$/im
+  }
+] as const;
+
+function findInstructionsRecord(json: unknown): ImportRecord | undefined {
+  if (!isRecord(json)) {
+    return undefined;
+  }
+  if (SECTIONS.some(section => typeof json[section.jsonKey] === 'string')) {
+    return json;
+  }
+  // Data exports nest the object under user_context_message_data
+  const nested = json.user_context_message_data;
+  return isRecord(nested) ? findInstructionsRecord(nested) : undefined;
+}
+
+/**
+ * Split copied text at the two question headings
+ */
+function splitText(text: string): { title: string; content: string }[] {
+  const positions = SECTIONS
+    .map(section => {
+      const match = section.heading.exec(text);
+      return match ? { title: section.title, start: match.index, bodyStart: match.index + match[0].length } : undefined;
+    })
+    .filter((position): position is NonNullable<typeof position> => position !== undefined)
+    .sort((a, b) => a.start - b.start);
+
+  return positions
+    .map((position, index) => ({
+      title: position.title,
+      content: text.slice(position.bodyStart, positions[index + 1]?.start ?? text.length).trim()
+    }))
+    .filter(section => section.content !== '');
+}
+
+export const chatgptCustomInstructionsImporter: PromptImporter = {
+  id: 'chatgpt-custom-instructions',
+  name: 'ChatGPT custom instructions',
+
+  detect: ({ json, text }) =>
+    findInstructionsRecord(json) !== undefined ||
+    (json === undefined && SECTIONS.some(section => section.heading.test(text))),
+
+  parse: ({ json, text }) => {
+    const now = Date.now();
+    const record = findInstructionsRecord(json);
+    const notes = record ? formatUnmappedFields(record, SECTIONS.map(section => section.jsonKey)) : undefined;
+
+    const sections = record
+      ? SECTIONS
+        .map(section => ({ title: section.title, content: String(record[section.jsonKey] ?? '').trim() }))
+        .filter(section => section.content !== '')
+      : splitText(text);
+
+    const prompts = sections.map(section => createImportedPrompt({
+      title: section.title,
+      content: section.content,
+      category: CATEGORY,
+      tags: TAGS,
+      notes
+    }, now));
+
+    return { prompts, categories: collectCategories(prompts) };
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * Generic JSON prompt lists
+ *
+ * Arrays (or `{ prompts: [...] }` objects) of entries with a name and a prompt
+ * text under common key names, such as `{ name, prompt }` or `{ title, text }`.
+ * Everything else in an entry goes to notes.
+ */
+
+import { parseTagInput } from '../../utils/tags';
+
+import {
+  collectCategories,
+  createImportedPrompt,
+  findRecordList,
+  formatUnmappedFields,
+  parseDate,
+  pickString,
+  type ImportRecord,
+  type PromptImporter
+} from './base';
+
+const LIST_KEYS = ['prompts', 'items', 'data', 'templates'];
+const TITLE_KEYS = ['name', 'title', 'act', 'label'];
+const CONTENT_KEYS = ['prompt', 'content', 'text', 'template', 'body'];
+const CATEGORY_KEYS = ['category', 'folder', 'group', 'collection'];
+const TAG_KEYS = ['tags', 'labels', 'keywords'];
+const CREATED_KEYS = ['createdAt', 'created_at', 'created'];
+const UPDATED_KEYS = ['updatedAt', 'updated_at', 'updated', 'modified'];
+
+function readTags(entry: ImportRecord): { key: string; tags: string[] } | undefined {
+  for (const key of Object.keys(entry)) {
+    if (!TAG_KEYS.includes(key.toLowerCase())) {
+      continue;
+    }
+    const value = entry[key];
+    if (Array.isArray(value)) {
+      return { key, tags: value.filter((tag): tag is string => typeof tag === 'string') };
+    }
+    if (typeof value === 'string') {
+      return { key, tags: parseTagInput(value) };
+    }
+  }
+  return undefined;
+}
+
+function readDate(entry: ImportRecord, keys: readonly string[]): { key: string; value: number } | undefined {
+  const key = Object.keys(entry).find(k => keys.includes(k));
+  const value = key === undefined ? undefined : parseDate(entry[key]);
+  return key !== undefined && value !== undefined ? { key, value } : undefined;
+}
+
+function hasNameAndPrompt(entry: ImportRecord): boolean {
+  return pickString(entry, TITLE_KEYS) !== undefined && pickString(entry, CONTENT_KEYS) !== undefined;
+}
+
+export const genericJsonImporter: PromptImporter = {
+  id: 'generic-json',
+  name: 'JSON prompt list',
+
+  detect: ({ json }) => findRecordList(json, LIST_KEYS)?.some(hasNameAndPrompt) ?? false,
+
+  parse: ({ json }) => {
+    const now = Date.now();
+    const prompts = (findRecordList(json, LIST_KEYS) ?? [])
+      .filter(hasNameAndPrompt)
+      .map((entry) => {
+        const title = pickString(entry, TITLE_KEYS);
+        const content = pickString(entry, CONTENT_KEYS);
+        const category = pickString(entry, CATEGORY_KEYS);
+        const tags = readTags(entry);
+        const createdAt = readDate(entry, CREATED_KEYS);
+        const updatedAt = readDate(entry, UPDATED_KEYS);
+        const mappedKeys = [title, content, category, tags, createdAt, updatedAt]
+          .filter(field => field !== undefined)
+          .map(field => field.key);
+
+        return createImportedPrompt({
+          title: title?.value ?? '',
+          content: content?.value ?? '',
+          category: category?.value,
+          tags: tags?.tags,
+          notes: formatUnmappedFields(entry, mappedKeys),
+          createdAt: createdAt?.value,
+          updatedAt: updatedAt?.value
+        }, now);
+      });
+
+    return { prompts, categories: collectCategories(prompts) };
+  }
+};
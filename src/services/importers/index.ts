@@ -0,0 +1,42 @@
+/**
+ * Prompt importer registry
+ *
+ * Importers for other prompt tools' export formats, tried in order; the first
+ * one that recognizes a file parses it. More specific formats come first so
+ * the generic JSON list only handles what nothing else claims. This extension's
+ * own JSON backups, Markdown zips and CSV files are handled by the data
+ * settings directly.
+ */
+
+import { aiprmImporter } from './aiprm';
+import type { ImporterInput, PromptImporter } from './base';
+import { chatgptCustomInstructionsImporter } from './chatgptCustomInstructions';
+import { genericJsonImporter } from './genericJson';
+
+export type { ImporterInput, PromptImporter } from './base';
+
+export const PROMPT_IMPORTERS: readonly PromptImporter[] = Object.freeze([
+  aiprmImporter,
+  chatgptCustomInstructionsImporter,
+  genericJsonImporter
+]);
+
+/**
+ * Find the importer for a file
+ *
+ * @param fileName - Name of the selected file
+ * @param text - File content
+ * @returns The first importer recognizing the file, or undefined
+ */
+export function detectPromptImporter(fileName: string, text: string): { importer: PromptImporter; input: ImporterInput } | undefined {
+  let json: unknown;
+  try {
+    json = JSON.parse(text) as unknown;
+  } catch {
+    json = undefined;
+  }
+
+  const input: ImporterInput = { fileName, text, json };
+  const importer = PROMPT_IMPORTERS.find(candidate => candidate.detect(input));
+  return importer ? { importer, input } : undefined;
+}
@@ -20,7 +20,7 @@ import {
   type ErrorType,
   type AppError
 } from '../types';
-import { Logger, toError } from '../utils';
+import { Logger, normalizeTags, toError } from '../utils';
 
 /**
  * Custom error class for PromptEncoder operations
@@ -54,6 +54,21 @@ function sanitizeText(text: string): string {
   return DOMPurify.sanitize(text.trim(), SANITIZE_CONFIG);
 }
 
+/**
+ * Sanitizes and normalizes an optional tag list
+ * Returns undefined when there are no usable tags so the field stays out of the payload
+ * @internal
+ */
+function sanitizeTags(tags: unknown): string[] | undefined {
+  if (!Array.isArray(tags)) {
+    return undefined;
+  }
+  const sanitized = normalizeTags(
+    tags.filter((tag): tag is string => typeof tag === 'string').map(sanitizeText)
+  );
+  return sanitized.length > 0 ? sanitized : undefined;
+}
+
 /**
  * Validates prompt data against size limits and required fields
  * @internal
@@ -112,7 +127,7 @@ function validatePromptData(data: SharedPromptData): void {
  * Encodes a prompt into a shareable URL-safe string
  *
  * Process:
- * 1. Sanitize fields (remove HTML)
+ * 1. Sanitize fields (remove HTML); empty tag lists are omitted
  * 2. Validate size limits
  * 3. Compress to URL-safe string
  *
@@ -123,10 +138,12 @@ function validatePromptData(data: SharedPromptData): void {
 export function encode(prompt: Prompt): string {
   try {
     // 1. Sanitize all text fields
+    const tags = sanitizeTags(prompt.tags);
     const sanitized: SharedPromptData = {
       title: sanitizeText(prompt.title),
       content: sanitizeText(prompt.content),
       category: sanitizeText(prompt.category),
+      ...(tags && { tags }),
     };
 
     // 2. Validate sanitized data
@@ -262,11 +279,13 @@ export function decode(encoded: string): SharedPromptData {
       });
     }
 
-    // 6. Sanitize (defense-in-depth)
+    // 6. Sanitize (defense-in-depth); tags are optional for codes created before they existed
+    const tags = sanitizeTags('tags' in data ? data.tags : undefined);
     const sanitized: SharedPromptData = {
       title: sanitizeText(String(data.title)),
       content: sanitizeText(String(data.content)),
       category: sanitizeText(String(data.category)),
+      ...(tags && { tags }),
     };
 
     // 7. Validate sanitized data
@@ -291,5 +310,5 @@ export function decode(encoded: string): SharedPromptData {
   }
 }
 
-// Export helper functions for testing
-export { sanitizeText, validatePromptData };
+// Export helper functions for collections (collectionEncoder) and testing
+export { sanitizeText, sanitizeTags, validatePromptData };
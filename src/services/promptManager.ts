@@ -1,5 +1,11 @@
+import { v4 as uuidv4 } from 'uuid';
+
 import {
   type Prompt,
+  type Category,
+  type ImportConflictResolution,
+  type ImportPreviewItem,
+  type MergeImportPlan,
   VALIDATION_LIMITS,
   DEFAULT_CATEGORY,
   type ErrorType,
@@ -8,9 +14,11 @@ import {
   type SortDirection
 } from '../types';
 import type { HighlightedPrompt } from '../types/hooks';
-import { findTextHighlights } from '../utils/textHighlight';
+import { getCategoryNamesInSubtree } from '../utils/categoryTree';
+import { comparePinned } from '../utils/pinnedPrompts';
+import { normalizeTags } from '../utils/tags';
 
-import { getSearchIndex } from './SearchIndex';
+import { type SearchResult, getSearchIndex } from './SearchIndex';
 import { calculateSimilarityOptimized } from './SimilarityAlgorithms';
 import { StorageManager } from './storage';
 
@@ -42,10 +50,10 @@ export class PromptManager {
   }
 
   // Prompt creation and management
-  async createPrompt(title: string, content: string, category: string = DEFAULT_CATEGORY): Promise<Prompt> {
+  async createPrompt(title: string, content: string, category: string = DEFAULT_CATEGORY, tags?: string[]): Promise<Prompt> {
     try {
       // Validate input
-      const validationError = this.validatePromptData({ title, content, category });
+      const validationError = this.validatePromptData({ title, content, category, tags });
       if (validationError) {
         throw validationError;
       }
@@ -62,7 +70,8 @@ export class PromptManager {
       const promptData = {
         title: finalTitle,
         content: content.trim(),
-        category
+        category,
+        ...(tags !== undefined && { tags: normalizeTags(tags) })
       };
 
       return await this.storageManager.savePrompt(promptData);
@@ -71,7 +80,7 @@ export class PromptManager {
     }
   }
 
-  async updatePrompt(id: string, updates: { title?: string; content?: string; category?: string }): Promise<Prompt> {
+  async updatePrompt(id: string, updates: { title?: string; content?: string; category?: string; tags?: string[] }): Promise<Prompt> {
     try {
       // Validate updates
       const validationError = this.validatePromptData(updates);
@@ -88,7 +97,7 @@ export class PromptManager {
       }
 
       // Clean up data - only include fields that were actually provided
-      const cleanUpdates: { title?: string; content?: string; category?: string } = {};
+      const cleanUpdates: { title?: string; content?: string; category?: string; tags?: string[] } = {};
       if (updates.title !== undefined) {
         cleanUpdates.title = updates.title.trim();
       }
@@ -98,6 +107,9 @@ export class PromptManager {
       if (updates.category !== undefined) {
         cleanUpdates.category = updates.category;
       }
+      if (updates.tags !== undefined) {
+        cleanUpdates.tags = normalizeTags(updates.tags);
+      }
 
       return await this.storageManager.updatePrompt(id, cleanUpdates);
     } catch (error) {
@@ -116,23 +128,8 @@ export class PromptManager {
           : prompts;
       }
 
-      // Get all prompts and build/update index
-      const allPrompts = await this.storageManager.getPrompts();
-      const searchIndex = getSearchIndex();
-
-      // Rebuild index if needed (first search or prompts changed)
-      if (searchIndex.needsRebuild(allPrompts)) {
-        searchIndex.buildIndex(allPrompts);
-      }
-
-      // Use indexed search for fast O(t + k) performance
-      const searchResults = searchIndex.search(query, {
-        maxResults: 1000,
-        minRelevance: 0.1,
-        categoryFilter
-      });
-
       // Return prompts ordered by relevance
+      const searchResults = await this.searchIndexed(query, categoryFilter);
       return searchResults.map(result => result.prompt);
     } catch (error) {
       throw this.handleError(error);
@@ -141,30 +138,48 @@ export class PromptManager {
 
   async searchPromptsWithHighlights(query: string): Promise<HighlightedPrompt[]> {
     try {
-      const searchResults = await this.searchPrompts(query);
-
       if (!query.trim()) {
-        return searchResults.map(prompt => ({
+        const prompts = await this.searchPrompts(query);
+        return prompts.map(prompt => ({
           ...prompt,
           titleHighlights: [],
           contentHighlights: []
         }));
       }
 
-      const searchTerm = query.toLowerCase().trim();
-
-      return searchResults.map(prompt => ({
+      // Highlights come from the index, so prefix and typo matches are marked too
+      const searchResults = await this.searchIndexed(query);
+      return searchResults.map(({ prompt, titleHighlights, contentHighlights }) => ({
         ...prompt,
-        titleHighlights: findTextHighlights(prompt.title, searchTerm),
-        contentHighlights: findTextHighlights(prompt.content, searchTerm)
+        titleHighlights,
+        contentHighlights
       }));
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  private async searchIndexed(query: string, categoryFilter?: string): Promise<SearchResult[]> {
+    // Get all prompts and build/update index
+    const allPrompts = await this.storageManager.getPrompts();
+    const searchIndex = getSearchIndex();
+
+    // Rebuild index if needed (first search or prompts changed)
+    if (searchIndex.needsRebuild(allPrompts)) {
+      searchIndex.buildIndex(allPrompts);
+    }
+
+    // Use indexed search, ranked by BM25F relevance
+    return searchIndex.search(query, {
+      maxResults: 1000,
+      minRelevance: 0.1,
+      categoryFilter
+    });
+  }
+
   /**
    * Sorts prompts based on specified order and direction
+   * Pinned prompts always come first; the order applies within each group.
    * @param prompts - Array of prompts to sort
    * @param order - Sort field (title, createdAt, or updatedAt)
    * @param direction - Sort direction (asc or desc)
@@ -179,6 +194,11 @@ export class PromptManager {
     const sorted = [...prompts];
 
     sorted.sort((a, b) => {
+      const pinnedComparison = comparePinned(a, b);
+      if (pinnedComparison !== 0) {
+        return pinnedComparison;
+      }
+
       let comparison = 0;
 
       switch (order) {
@@ -220,7 +240,7 @@ export class PromptManager {
     return sorted;
   }
 
-  // Filtering functionality
+  // Filtering functionality - a parent category also matches prompts in its subcategories
   async filterByCategory(category: string | null): Promise<Prompt[]> {
     try {
       const allPrompts = await this.storageManager.getPrompts();
@@ -229,7 +249,8 @@ export class PromptManager {
         return allPrompts;
       }
 
-      return allPrompts.filter(prompt => prompt.category === category);
+      const categoryNames = getCategoryNamesInSubtree(await this.storageManager.getCategories(), category);
+      return allPrompts.filter(prompt => categoryNames.has(prompt.category));
     } catch (error) {
       throw this.handleError(error);
     }
@@ -282,8 +303,8 @@ export class PromptManager {
   }
 
   // Validation
-  validatePromptData(data: { title?: string; content?: string; category?: string }): PromptManagerError | null {
-    const { title, content, category } = data;
+  validatePromptData(data: { title?: string; content?: string; category?: string; tags?: string[] }): PromptManagerError | null {
+    const { title, content, category, tags } = data;
 
     if (title !== undefined) {
       if (title.length > VALIDATION_LIMITS.PROMPT_TITLE_MAX) {
@@ -319,6 +340,22 @@ export class PromptManager {
       }
     }
 
+    if (tags !== undefined) {
+      if (tags.length > VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX) {
+        return new PromptManagerError({
+          type: 'VALIDATION_ERROR',
+          message: `A prompt cannot have more than ${String(VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX)} tags`
+        });
+      }
+
+      if (tags.some(tag => tag.trim().length > VALIDATION_LIMITS.TAG_MAX_LENGTH)) {
+        return new PromptManagerError({
+          type: 'VALIDATION_ERROR',
+          message: `Tags cannot exceed ${String(VALIDATION_LIMITS.TAG_MAX_LENGTH)} characters`
+        });
+      }
+    }
+
     return null;
   }
 
@@ -548,6 +585,84 @@ export class PromptManager {
     }
   }
 
+  /**
+   * Compare incoming prompts with the library for a merge import
+   *
+   * Prompts match by id first, then by similar title and content (the same test
+   * duplicate detection uses). A match is identical when title, content, category
+   * and tags are all equal.
+   */
+  async previewImport(incoming: Prompt[]): Promise<ImportPreviewItem[]> {
+    try {
+      const existingPrompts = await this.storageManager.getPrompts();
+      const byId = new Map(existingPrompts.map(prompt => [prompt.id, prompt]));
+
+      return incoming.map((prompt): ImportPreviewItem => {
+        const existing = byId.get(prompt.id) ?? existingPrompts.find(other => this.areSimilarPrompts(other, prompt));
+        if (!existing) {
+          return { incoming: prompt, status: 'new' };
+        }
+        return {
+          incoming: prompt,
+          existing,
+          status: this.haveSameContent(existing, prompt) ? 'identical' : 'conflict'
+        };
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Turn an import preview and the choices made for its conflicts into the changes to apply
+   *
+   * @param items - Result of previewImport
+   * @param resolutions - Choice per incoming prompt id; conflicts without one keep the library version
+   * @param categories - Categories from the imported file
+   */
+  createMergePlan(
+    items: ImportPreviewItem[],
+    resolutions: Record<string, ImportConflictResolution | undefined>,
+    categories: Category[]
+  ): MergeImportPlan {
+    const plan: MergeImportPlan = { categories, added: [], replaced: [] };
+    const addedIds = new Set<string>();
+
+    const add = (prompt: Prompt, takenId?: string) => {
+      const id = prompt.id === takenId || addedIds.has(prompt.id) ? uuidv4() : prompt.id;
+      addedIds.add(id);
+      plan.added.push({ ...prompt, id });
+    };
+
+    for (const { incoming, existing, status } of items) {
+      if (status === 'new' || !existing) {
+        add(incoming);
+        continue;
+      }
+      if (status === 'identical') {
+        continue;
+      }
+
+      const resolution = resolutions[incoming.id] ?? 'keep-mine';
+      if (resolution === 'take-theirs') {
+        plan.replaced.push({ existingId: existing.id, prompt: incoming });
+      } else if (resolution === 'keep-both') {
+        add(incoming, existing.id);
+      }
+    }
+
+    return plan;
+  }
+
+  private haveSameContent(a: Prompt, b: Prompt): boolean {
+    const tagsA = normalizeTags(a.tags ?? []).sort().join(',');
+    const tagsB = normalizeTags(b.tags ?? []).sort().join(',');
+    return a.title.trim() === b.title.trim() &&
+      a.content.trim() === b.content.trim() &&
+      a.category === b.category &&
+      tagsA === tagsB;
+  }
+
   // Group prompts by content length for O(n²) optimization
   // Stores index alongside prompt to enable forward-only comparisons
   private groupByLengthBucket(prompts: Prompt[]): Map<number, { prompt: Prompt; index: number }[]> {
@@ -0,0 +1,251 @@
+import {
+  type AppError,
+  type ErrorType,
+  type ShareSignatureStatus,
+  type SigningIdentity,
+  type TrustedSigningKey,
+  type VerifiedShareCode,
+  SHARE_SIGNING_DATABASE,
+  SHARE_SIGNING_KEY_STORAGE_KEY,
+  SHARE_SIGNING_LIMITS,
+  TRUSTED_SIGNING_KEYS_STORAGE_KEY
+} from '../types';
+import * as Logger from '../utils/logger';
+
+import { IndexedDbStorageBackend } from './storageBackend';
+
+class ShareSigningError extends Error implements AppError {
+  public type: ErrorType;
+  public details?: unknown;
+
+  constructor(appError: AppError) {
+    super(appError.message);
+    this.name = 'ShareSigningError';
+    this.type = appError.type;
+    this.details = appError.details;
+  }
+}
+
+// Kept in IndexedDB, which stores the private CryptoKey as is: it is
+// generated non-extractable, so it can sign but never be read out
+interface StoredSigningKey {
+  publicKey: string;
+  privateKey: CryptoKey;
+  createdAt: number;
+}
+
+// A signed code is `<code>!s1!<public key>!<signature>`. '!' is not part of the
+// lz-string alphabet of share codes, so the code before it is left untouched.
+const SIGNATURE_SEPARATOR = '!';
+const SIGNATURE_MARKER = 's1';
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const FINGERPRINT_LENGTH = 16;
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) {
+    throw new ShareSigningError({ type: 'VALIDATION_ERROR', message: 'Invalid key format' });
+  }
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), char => char.charCodeAt(0));
+}
+
+async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.importKey('raw', fromBase64Url(publicKey), KEY_ALGORITHM, true, ['verify']);
+  } catch (error) {
+    throw new ShareSigningError({ type: 'VALIDATION_ERROR', message: 'This is not a valid public key', details: error });
+  }
+}
+
+/**
+ * Short, readable form of a public key: the first 64 bits of its SHA-256
+ * hash as hex, in groups of four ("1a2b 3c4d 5e6f 7a8b")
+ */
+export async function getKeyFingerprint(publicKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', fromBase64Url(publicKey));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').slice(0, FINGERPRINT_LENGTH);
+  return hex.match(/.{4}/g)?.join(' ') ?? hex;
+}
+
+/**
+ * ShareSigningManager - Singleton signing share codes with this device's key
+ * and checking the signatures of pasted codes
+ *
+ * Prompt and site configuration codes are signed with ECDSA (P-256, SHA-256)
+ * over the code itself, so any change to the code breaks the signature. A
+ * signature proves the code comes from the holder of the key; whether that key
+ * belongs to a known person is up to the trusted keys list.
+ */
+export class ShareSigningManager {
+  private static instance: ShareSigningManager | undefined;
+
+  // Separate from the library's storage, so clearing or importing data keeps the identity
+  private readonly keyStore = new IndexedDbStorageBackend(SHARE_SIGNING_DATABASE);
+
+  private constructor() {}
+
+  static getInstance(): ShareSigningManager {
+    if (!ShareSigningManager.instance) {
+      ShareSigningManager.instance = new ShareSigningManager();
+    }
+    return ShareSigningManager.instance;
+  }
+
+  async getIdentity(): Promise<SigningIdentity | null> {
+    const stored = await this.getStoredKey();
+    if (!stored) {
+      return null;
+    }
+    return {
+      publicKey: stored.publicKey,
+      fingerprint: await getKeyFingerprint(stored.publicKey),
+      createdAt: stored.createdAt
+    };
+  }
+
+  /**
+   * Generate this device's signing key; share codes are signed from then on
+   * @throws ShareSigningError if a key already exists
+   */
+  async createIdentity(): Promise<SigningIdentity> {
+    if (await this.getStoredKey()) {
+      throw new ShareSigningError({ type: 'VALIDATION_ERROR', message: 'A signing key already exists' });
+    }
+
+    // The public key of a pair is always exportable
+    const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+    const stored: StoredSigningKey = {
+      publicKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))),
+      privateKey: keyPair.privateKey,
+      createdAt: Date.now()
+    };
+    await this.keyStore.set({ [SHARE_SIGNING_KEY_STORAGE_KEY]: stored });
+    Logger.info('ShareSigningManager: Signing key created', { component: 'ShareSigningManager' });
+
+    return { publicKey: stored.publicKey, fingerprint: await getKeyFingerprint(stored.publicKey), createdAt: stored.createdAt };
+  }
+
+  /**
+   * Delete this device's signing key; codes it signed still verify for people who trust it
+   */
+  async deleteIdentity(): Promise<void> {
+    await this.keyStore.remove([SHARE_SIGNING_KEY_STORAGE_KEY]);
+  }
+
+  /**
+   * Append a signature to a share code, or return it as is without a signing key
+   */
+  async sign(code: string): Promise<string> {
+    const stored = await this.getStoredKey();
+    if (!stored) {
+      return code;
+    }
+
+    const signature = await crypto.subtle.sign(SIGN_ALGORITHM, stored.privateKey, new TextEncoder().encode(code));
+    return [code, SIGNATURE_MARKER, stored.publicKey, toBase64Url(new Uint8Array(signature))].join(SIGNATURE_SEPARATOR);
+  }
+
+  /**
+   * Split a pasted code into the code to decode and the state of its signature.
+   * Never throws for a bad signature: decoding still checks the content itself.
+   */
+  async verify(text: string): Promise<VerifiedShareCode> {
+    const trimmed = text.trim();
+    if (!trimmed.includes(SIGNATURE_SEPARATOR)) {
+      return { code: trimmed, signature: { state: 'unsigned' } };
+    }
+
+    const [code, marker, publicKey, signature, ...rest] = trimmed.split(SIGNATURE_SEPARATOR);
+    if (marker !== SIGNATURE_MARKER || !publicKey || !signature || rest.length > 0) {
+      return { code, signature: { state: 'invalid' } };
+    }
+
+    let valid: boolean;
+    try {
+      const key = await importPublicKey(publicKey);
+      valid = await crypto.subtle.verify(SIGN_ALGORITHM, key, fromBase64Url(signature), new TextEncoder().encode(code));
+    } catch (error) {
+      Logger.warn('Share code signature could not be checked', {
+        component: 'ShareSigningManager',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      valid = false;
+    }
+    if (!valid) {
+      return { code, signature: { state: 'invalid' } };
+    }
+
+    return { code, signature: await this.describeSigner(publicKey) };
+  }
+
+  async getTrustedKeys(): Promise<TrustedSigningKey[]> {
+    const result = await chrome.storage.local.get(TRUSTED_SIGNING_KEYS_STORAGE_KEY);
+    return (result[TRUSTED_SIGNING_KEYS_STORAGE_KEY] as TrustedSigningKey[] | undefined) ?? [];
+  }
+
+  /**
+   * Trust signatures made with a public key, under a name of your choice.
+   * Trusting a key again renames it.
+   * @throws ShareSigningError if the key or name is invalid, or the list is full
+   */
+  async trustKey(publicKey: string, name: string): Promise<TrustedSigningKey> {
+    const trimmedKey = publicKey.trim();
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new ShareSigningError({ type: 'VALIDATION_ERROR', message: 'Name is required' });
+    }
+    if (trimmedName.length > SHARE_SIGNING_LIMITS.KEY_NAME_MAX) {
+      throw new ShareSigningError({
+        type: 'VALIDATION_ERROR',
+        message: `Name too long (max ${String(SHARE_SIGNING_LIMITS.KEY_NAME_MAX)} characters)`
+      });
+    }
+    await importPublicKey(trimmedKey);
+
+    const fingerprint = await getKeyFingerprint(trimmedKey);
+    const trustedKeys = await this.getTrustedKeys();
+    const others = trustedKeys.filter(key => key.fingerprint !== fingerprint);
+    if (others.length >= SHARE_SIGNING_LIMITS.MAX_TRUSTED_KEYS) {
+      throw new ShareSigningError({
+        type: 'VALIDATION_ERROR',
+        message: `You can trust at most ${String(SHARE_SIGNING_LIMITS.MAX_TRUSTED_KEYS)} keys`
+      });
+    }
+
+    const trusted: TrustedSigningKey = { publicKey: trimmedKey, fingerprint, name: trimmedName, addedAt: Date.now() };
+    await chrome.storage.local.set({ [TRUSTED_SIGNING_KEYS_STORAGE_KEY]: [...others, trusted] });
+    return trusted;
+  }
+
+  async removeTrustedKey(fingerprint: string): Promise<void> {
+    const trustedKeys = await this.getTrustedKeys();
+    await chrome.storage.local.set({
+      [TRUSTED_SIGNING_KEYS_STORAGE_KEY]: trustedKeys.filter(key => key.fingerprint !== fingerprint)
+    });
+  }
+
+  private async describeSigner(publicKey: string): Promise<ShareSignatureStatus> {
+    const fingerprint = await getKeyFingerprint(publicKey);
+    const [stored, trustedKeys] = await Promise.all([this.getStoredKey(), this.getTrustedKeys()]);
+    if (stored?.publicKey === publicKey) {
+      return { state: 'signed', fingerprint, publicKey, signer: 'self' };
+    }
+    const trusted = trustedKeys.find(key => key.publicKey === publicKey);
+    return trusted
+      ? { state: 'signed', fingerprint, publicKey, signer: 'trusted', name: trusted.name }
+      : { state: 'signed', fingerprint, publicKey, signer: 'unknown' };
+  }
+
+  private async getStoredKey(): Promise<StoredSigningKey | null> {
+    const result = await this.keyStore.get([SHARE_SIGNING_KEY_STORAGE_KEY]);
+    return (result[SHARE_SIGNING_KEY_STORAGE_KEY] as StoredSigningKey | undefined) ?? null;
+  }
+}
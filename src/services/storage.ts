@@ -3,20 +3,60 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   type Prompt,
   type Category,
+  type CategoryDeleteStrategy,
   type Settings,
   type StorageData,
+  type PromptVariableValues,
+  type PromptRevision,
+  type UndoScope,
+  type UndoSnapshot,
+  type MergeImportPlan,
+  type StorageLayout,
+  type PromptChain,
+  type PromptExampleOutput,
   DEFAULT_SETTINGS,
+  PROMPT_VARIABLE_VALUES_STORAGE_KEY,
+  PROMPT_VARIABLE_VALUE_LIMITS,
+  PROMPT_REVISIONS_STORAGE_KEY,
+  PROMPT_REVISION_LIMITS,
+  PROMPT_CHAINS_STORAGE_KEY,
+  PROMPT_CHAIN_LIMITS,
+  PROMPT_EXAMPLE_OUTPUTS_STORAGE_KEY,
+  PROMPT_EXAMPLE_OUTPUT_LIMITS,
+  STORAGE_LAYOUT_KEY,
+  PROMPT_VAULT_STORAGE_KEY,
+  TRUSTED_SIGNING_KEYS_STORAGE_KEY,
   DEFAULT_CATEGORY,
+  VALIDATION_LIMITS,
   type ErrorType,
   type AppError
 } from '../types';
 import { AsyncMutex } from '../utils/asyncMutex';
+import { getDescendantIds } from '../utils/categoryTree';
 import { ensureStorageAvailable } from '../utils/chromeStorage';
+import * as Logger from '../utils/logger';
 import {
+  QUOTA_THRESHOLDS,
   checkQuotaAvailability,
   estimatePromptSize,
   estimatePromptsArraySize
 } from '../utils/storageQuota';
+import { normalizeTags } from '../utils/tags';
+
+import { ChromeLocalStorageBackend, IndexedDbStorageBackend, type StorageBackend } from './storageBackend';
+import { VaultManager, decryptText, encryptText } from './vault';
+
+// Prompt as stored in chrome.storage.local with the 'indexeddb' layout
+type PromptMetadata = Omit<Prompt, 'content'>;
+
+function splitPromptBodies(prompts: Prompt[]): { metadata: PromptMetadata[]; bodies: Record<string, string> } {
+  const bodies: Record<string, string> = {};
+  const metadata = prompts.map(({ content, ...rest }) => {
+    bodies[rest.id] = content;
+    return rest;
+  });
+  return { metadata, bodies };
+}
 
 class StorageError extends Error implements AppError {
   public type: ErrorType;
@@ -35,9 +75,26 @@ export class StorageManager {
   private readonly STORAGE_KEYS = {
     PROMPTS: 'prompts',
     CATEGORIES: 'categories',
-    SETTINGS: 'settings'
+    SETTINGS: 'settings',
+    VARIABLE_VALUES: PROMPT_VARIABLE_VALUES_STORAGE_KEY,
+    REVISIONS: PROMPT_REVISIONS_STORAGE_KEY,
+    LAYOUT: STORAGE_LAYOUT_KEY,
+    VAULT: PROMPT_VAULT_STORAGE_KEY,
+    CHAINS: PROMPT_CHAINS_STORAGE_KEY,
+    EXAMPLE_OUTPUTS: PROMPT_EXAMPLE_OUTPUTS_STORAGE_KEY,
+    // IndexedDB only: prompt content keyed by prompt id
+    PROMPT_BODIES: 'promptBodies'
   } as const;
 
+  // Trusted signing keys belong to the device, not the library: clearing or
+  // importing data leaves them alone (the signing key has its own database)
+  private readonly DEVICE_KEYS = [TRUSTED_SIGNING_KEYS_STORAGE_KEY];
+
+  // Everything lives in chrome.storage.local until migrateToIndexedDb() moves
+  // prompt bodies and revisions to IndexedDB (see StorageLayout)
+  private readonly localBackend: StorageBackend = new ChromeLocalStorageBackend();
+  private readonly indexedDbBackend: StorageBackend = new IndexedDbStorageBackend('prompt-library-data');
+
   // Hard limits for storage quota enforcement
   private readonly STORAGE_LIMITS = {
     MAX_PROMPTS: 5000,            // Maximum number of prompts
@@ -88,9 +145,9 @@ export class StorageManager {
           });
         }
 
-        // HARD LIMIT: Check total storage before write
+        // HARD LIMIT: Check total storage before write (IndexedDB is only bound by the browser quota)
         const totalSize = estimatePromptsArraySize(existingPrompts) + estimatedSize;
-        if (totalSize > this.STORAGE_LIMITS.MAX_TOTAL_SIZE) {
+        if (totalSize > this.STORAGE_LIMITS.MAX_TOTAL_SIZE && await this.getStorageLayout() === 'chrome-local') {
           throw new StorageError({
             message: 'Storage quota exceeded. Please delete old prompts to free up space.',
             type: 'STORAGE_QUOTA_EXCEEDED',
@@ -108,6 +165,7 @@ export class StorageManager {
 
         const newPrompt: Prompt = {
           ...prompt,
+          ...(prompt.tags !== undefined && { tags: normalizeTags(prompt.tags) }),
           id: uuidv4(),
           createdAt: timestamp,
           updatedAt: timestamp,
@@ -193,6 +251,15 @@ export class StorageManager {
         existingPrompts[promptIndex] = updatedPrompt;
         await this.setStorageData(this.STORAGE_KEYS.PROMPTS, existingPrompts);
 
+        // Keep the previous version in the history when user-visible fields changed
+        if (
+          oldPrompt.title !== updatedPrompt.title ||
+          oldPrompt.content !== updatedPrompt.content ||
+          oldPrompt.category !== updatedPrompt.category
+        ) {
+          await this.recordRevision(oldPrompt);
+        }
+
         return updatedPrompt;
       } catch (error) {
         throw this.handleStorageError(error);
@@ -211,12 +278,113 @@ export class StorageManager {
         }
 
         await this.setStorageData(this.STORAGE_KEYS.PROMPTS, filteredPrompts);
+        await this.removePromptVariableValues([id]);
+        await this.removePromptRevisions([id]);
+        await this.removePromptExampleOutputs([id]);
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  // Batch operations: every id is checked before anything is written and the
+  // prompt list is saved in a single write, so a batch is applied fully or not at all
+
+  /**
+   * Move prompts to another category
+   */
+  movePrompts(ids: string[], category: string): Promise<Prompt[]> {
+    return this.updatePromptsBatch(ids, prompt => ({ ...prompt, category }));
+  }
+
+  /**
+   * Add and/or remove tags on several prompts (tags are normalized like single edits)
+   */
+  updatePromptsTags(ids: string[], changes: { add?: string[]; remove?: string[] }): Promise<Prompt[]> {
+    const added = normalizeTags(changes.add ?? []);
+    const removed = new Set(normalizeTags(changes.remove ?? []));
+
+    return this.updatePromptsBatch(ids, prompt => ({
+      ...prompt,
+      tags: [...(prompt.tags ?? []), ...added].filter(tag => !removed.has(tag))
+    }));
+  }
+
+  /**
+   * Delete several prompts along with their remembered variable values and history
+   */
+  deletePrompts(ids: string[]): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+      try {
+        const existingPrompts = await this.getPrompts();
+        this.assertPromptsExist(existingPrompts, ids);
+
+        const idSet = new Set(ids);
+        await this.setStorageData(this.STORAGE_KEYS.PROMPTS, existingPrompts.filter(p => !idSet.has(p.id)));
+        await this.removePromptVariableValues(ids);
+        await this.removePromptRevisions(ids);
+        await this.removePromptExampleOutputs(ids);
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  private updatePromptsBatch(ids: string[], update: (prompt: Prompt) => Prompt): Promise<Prompt[]> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+      try {
+        const existingPrompts = await this.getPrompts();
+        this.assertPromptsExist(existingPrompts, ids);
+
+        const idSet = new Set(ids);
+        const timestamp = Date.now();
+        const updatedPrompts: Prompt[] = [];
+        const previousVersions: Prompt[] = [];
+        let sizeDelta = 0;
+
+        const nextPrompts = existingPrompts.map(prompt => {
+          if (!idSet.has(prompt.id)) {
+            return prompt;
+          }
+          const updatedPrompt = this.normalizePrompt({ ...update(prompt), updatedAt: timestamp });
+          sizeDelta += estimatePromptSize(updatedPrompt.title, updatedPrompt.content, updatedPrompt.category) -
+            estimatePromptSize(prompt.title, prompt.content, prompt.category);
+          updatedPrompts.push(updatedPrompt);
+          // Same rule as updatePrompt: a move changes the category, a tag edit leaves no revision
+          if (
+            prompt.title !== updatedPrompt.title ||
+            prompt.content !== updatedPrompt.content ||
+            prompt.category !== updatedPrompt.category
+          ) {
+            previousVersions.push(prompt);
+          }
+          return updatedPrompt;
+        });
+
+        if (sizeDelta > 0) {
+          await this.checkQuotaBeforeWrite(sizeDelta);
+        }
+
+        await this.setStorageData(this.STORAGE_KEYS.PROMPTS, nextPrompts);
+
+        for (const previous of previousVersions) {
+          await this.recordRevision(previous);
+        }
+        return updatedPrompts;
       } catch (error) {
         throw this.handleStorageError(error);
       }
     });
   }
 
+  private assertPromptsExist(prompts: Prompt[], ids: string[]): void {
+    const existingIds = new Set(prompts.map(p => p.id));
+    const missingIds = ids.filter(id => !existingIds.has(id));
+    if (missingIds.length > 0) {
+      throw new Error(`Prompts not found: ${missingIds.join(', ')}`);
+    }
+  }
+
   async incrementUsageCount(id: string): Promise<Prompt> {
     return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
       try {
@@ -249,6 +417,35 @@ export class StorageManager {
     });
   }
 
+  /**
+   * Pin or unpin a prompt. Pinning is not an edit, so updatedAt and the
+   * revision history are left untouched.
+   */
+  setPromptPinned(id: string, pinned: boolean): Promise<Prompt> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+      try {
+        const existingPrompts = await this.getPrompts();
+        const promptIndex = existingPrompts.findIndex(p => p.id === id);
+
+        if (promptIndex === -1) {
+          throw new Error(`Prompt with id ${id} not found`);
+        }
+
+        const updatedPrompt: Prompt = {
+          ...existingPrompts[promptIndex],
+          pinned
+        };
+
+        existingPrompts[promptIndex] = updatedPrompt;
+        await this.setStorageData(this.STORAGE_KEYS.PROMPTS, existingPrompts);
+
+        return updatedPrompt;
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
   // Category operations
   async saveCategory(category: Omit<Category, 'id'>): Promise<Category> {
     return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, async () => {
@@ -265,6 +462,10 @@ export class StorageManager {
           throw new Error(`Category with name "${category.name}" already exists`);
         }
 
+        if (category.parentId && !existingCategories.some(c => c.id === category.parentId)) {
+          throw new Error(`Parent category with id ${category.parentId} not found`);
+        }
+
         const updatedCategories = [...existingCategories, newCategory];
         await this.setStorageData(this.STORAGE_KEYS.CATEGORIES, updatedCategories);
 
@@ -323,6 +524,238 @@ export class StorageManager {
     });
   }
 
+  /**
+   * Check prompts and categories read from another file format (Markdown, CSV)
+   * with the same rules as a JSON backup import
+   *
+   * @throws StorageError of type VALIDATION_ERROR listing every problem found
+   */
+  validateImportBundle(data: { prompts: unknown[]; categories: unknown[] }): { prompts: Prompt[]; categories: Category[] } {
+    const errors = this.collectPromptAndCategoryErrors(data.prompts, data.categories);
+    if (errors.length > 0) {
+      const more = errors.length > 3 ? ` and ${String(errors.length - 3)} more` : '';
+      throw new StorageError({
+        type: 'VALIDATION_ERROR',
+        message: `Import validation failed: ${errors.slice(0, 3).join('; ')}${more}`,
+        details: { errors, errorCount: errors.length }
+      });
+    }
+    return data as { prompts: Prompt[]; categories: Category[] };
+  }
+
+  /**
+   * Apply a merge import (see PromptManager.createMergePlan), leaving the rest of the library alone
+   *
+   * Categories are merged by name (case-insensitive): library categories keep their id,
+   * new ones are added with their parent links remapped, and prompts are filed under
+   * the library's spelling of their category name. Categories and prompts are saved in a
+   * single write, so a failed import leaves the library exactly as it was.
+   */
+  mergeImportData(plan: MergeImportPlan): Promise<{ added: number; replaced: number; categoriesAdded: number }> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+        try {
+          const [existingCategories, existingPrompts] = await Promise.all([this.getCategories(), this.getPrompts()]);
+          this.assertPromptsExist(existingPrompts, plan.replaced.map(r => r.existingId));
+
+          if (existingPrompts.length + plan.added.length > this.STORAGE_LIMITS.MAX_PROMPTS) {
+            throw new StorageError({
+              message: `Maximum prompt limit reached (${String(this.STORAGE_LIMITS.MAX_PROMPTS)}). Please delete old prompts.`,
+              type: 'STORAGE_QUOTA_EXCEEDED',
+              details: { count: existingPrompts.length + plan.added.length, max: this.STORAGE_LIMITS.MAX_PROMPTS }
+            });
+          }
+
+          const { categories, resolveCategoryName } = this.mergeCategories(existingCategories, plan.categories);
+          const timestamp = Date.now();
+          const prompts = [...existingPrompts];
+          const usedIds = new Set(prompts.map(p => p.id));
+          const previousVersions: Prompt[] = [];
+          let sizeDelta = 0;
+
+          for (const { existingId, prompt } of plan.replaced) {
+            const index = prompts.findIndex(p => p.id === existingId);
+            const previous = prompts[index];
+            const replacement = this.normalizePrompt({
+              ...previous,
+              title: prompt.title,
+              content: prompt.content,
+              category: resolveCategoryName(prompt.category),
+              // Backups from before tags existed leave the library prompt's tags alone
+              ...(prompt.tags !== undefined && { tags: prompt.tags }),
+              ...(prompt.notes !== undefined && { notes: prompt.notes }),
+              updatedAt: timestamp
+            });
+            sizeDelta += estimatePromptSize(replacement.title, replacement.content, replacement.category) -
+              estimatePromptSize(previous.title, previous.content, previous.category);
+            prompts[index] = replacement;
+            previousVersions.push(previous);
+          }
+
+          for (const prompt of plan.added) {
+            const added = this.normalizePrompt({
+              ...prompt,
+              id: usedIds.has(prompt.id) ? uuidv4() : prompt.id,
+              category: resolveCategoryName(prompt.category),
+              createdAt: prompt.createdAt || timestamp,
+              updatedAt: prompt.updatedAt || timestamp
+            });
+            usedIds.add(added.id);
+            sizeDelta += estimatePromptSize(added.title, added.content, added.category);
+            prompts.push(added);
+          }
+
+          if (sizeDelta > 0) {
+            await this.checkQuotaBeforeWrite(sizeDelta);
+          }
+
+          await ensureStorageAvailable();
+          await this.writeStorageData({
+            [this.STORAGE_KEYS.CATEGORIES]: categories,
+            [this.STORAGE_KEYS.PROMPTS]: prompts
+          });
+
+          // Overwritten prompts keep their previous version in the history
+          for (const previous of previousVersions) {
+            await this.recordRevision(previous);
+          }
+
+          return {
+            added: plan.added.length,
+            replaced: plan.replaced.length,
+            categoriesAdded: categories.length - existingCategories.length
+          };
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Apply prompts merged by the sync engine: upserted prompts replace the library
+   * version by id (keeping local usage counts) or are added, deleted ids are removed.
+   * Categories named by synced prompts are created when missing.
+   */
+  applySyncedPrompts(upserted: Prompt[], deletedIds: string[]): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+        try {
+          const [existingCategories, existingPrompts] = await Promise.all([this.getCategories(), this.getPrompts()]);
+          const deleted = new Set(deletedIds);
+          const { categories, resolveCategoryName } = this.mergeCategories(existingCategories, []);
+          const prompts = existingPrompts.filter(p => !deleted.has(p.id));
+          const previousVersions: Prompt[] = [];
+          let sizeDelta = 0;
+
+          for (const prompt of upserted) {
+            const index = prompts.findIndex(p => p.id === prompt.id);
+            const previous = index === -1 ? undefined : prompts[index];
+            const synced = this.normalizePrompt({
+              ...prompt,
+              category: resolveCategoryName(prompt.category),
+              usageCount: previous?.usageCount ?? prompt.usageCount,
+              lastUsedAt: previous?.lastUsedAt ?? prompt.lastUsedAt
+            });
+            sizeDelta += estimatePromptSize(synced.title, synced.content, synced.category);
+
+            if (previous) {
+              sizeDelta -= estimatePromptSize(previous.title, previous.content, previous.category);
+              prompts[index] = synced;
+              if (previous.title !== synced.title || previous.content !== synced.content || previous.category !== synced.category) {
+                previousVersions.push(previous);
+              }
+            } else {
+              prompts.push(synced);
+            }
+          }
+
+          if (prompts.length > this.STORAGE_LIMITS.MAX_PROMPTS) {
+            throw new StorageError({
+              message: `Maximum prompt limit reached (${String(this.STORAGE_LIMITS.MAX_PROMPTS)}). Please delete old prompts.`,
+              type: 'STORAGE_QUOTA_EXCEEDED',
+              details: { count: prompts.length, max: this.STORAGE_LIMITS.MAX_PROMPTS }
+            });
+          }
+          if (sizeDelta > 0) {
+            await this.checkQuotaBeforeWrite(sizeDelta);
+          }
+
+          await this.writeStorageData({
+            [this.STORAGE_KEYS.CATEGORIES]: categories,
+            [this.STORAGE_KEYS.PROMPTS]: prompts
+          });
+
+          // Versions overwritten by another device stay in the history
+          for (const previous of previousVersions) {
+            await this.recordRevision(previous);
+          }
+          if (deletedIds.length > 0) {
+            await this.removePromptVariableValues(deletedIds);
+            await this.removePromptRevisions(deletedIds);
+            await this.removePromptExampleOutputs(deletedIds);
+          }
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Merge incoming categories into the library by name
+   *
+   * @returns The merged list and a resolver mapping a prompt's category name to the
+   *   merged spelling, adding a top-level category for names that don't exist yet
+   */
+  private mergeCategories(existing: Category[], incoming: Category[]): {
+    categories: Category[];
+    resolveCategoryName: (name: string) => string;
+  } {
+    const categories = [...existing];
+    const byName = new Map(existing.map(c => [c.name.toLowerCase(), c]));
+    const usedIds = new Set(existing.map(c => c.id));
+    const idMap = new Map<string, string>();
+    const added: { category: Category; incomingParentId?: string }[] = [];
+
+    for (const category of incoming) {
+      const match = byName.get(category.name.toLowerCase());
+      if (match) {
+        idMap.set(category.id, match.id);
+        continue;
+      }
+
+      const { parentId: incomingParentId, ...rest } = category;
+      const merged: Category = { ...rest, id: usedIds.has(category.id) ? uuidv4() : category.id };
+      usedIds.add(merged.id);
+      idMap.set(category.id, merged.id);
+      byName.set(merged.name.toLowerCase(), merged);
+      categories.push(merged);
+      added.push({ category: merged, incomingParentId });
+    }
+
+    // Parent links point at incoming ids; categories whose parent is unknown stay at the top level
+    for (const { category, incomingParentId } of added) {
+      const parentId = incomingParentId ? idMap.get(incomingParentId) : undefined;
+      if (parentId && parentId !== category.id) {
+        category.parentId = parentId;
+      }
+    }
+
+    const resolveCategoryName = (name: string): string => {
+      const match = byName.get(name.toLowerCase());
+      if (match) {
+        return match.name;
+      }
+      const category: Category = { id: uuidv4(), name };
+      byName.set(name.toLowerCase(), category);
+      categories.push(category);
+      return name;
+    };
+
+    return { categories, resolveCategoryName };
+  }
+
   async importCategory(category: Category): Promise<Category> {
     return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, async () => {
       try {
@@ -408,6 +841,10 @@ export class StorageManager {
           }
         }
 
+        if (updates.parentId !== undefined) {
+          this.assertValidParent(existingCategories, oldCategory, updates.parentId);
+        }
+
         const updatedCategory: Category = {
           ...oldCategory,
           ...updates
@@ -426,7 +863,7 @@ export class StorageManager {
             );
 
             // Update both categories and prompts atomically with both locks held
-            await chrome.storage.local.set({
+            await this.writeStorageData({
               [this.STORAGE_KEYS.CATEGORIES]: existingCategories,
               [this.STORAGE_KEYS.PROMPTS]: updatedPrompts
             });
@@ -444,51 +881,481 @@ export class StorageManager {
     });
   }
 
-  async deleteCategory(id: string): Promise<void> {
+  /**
+   * Move a category under a new parent and/or to a new position among its siblings
+   *
+   * @param id - Category to move
+   * @param parentId - New parent id, or null to make it a top-level category
+   * @param beforeId - Sibling to place the category in front of; appended after the last sibling when omitted
+   */
+  moveCategory(id: string, parentId: string | null, beforeId?: string): Promise<Category> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, async () => {
+      try {
+        const existingCategories = await this.getCategories();
+        const category = existingCategories.find(c => c.id === id);
+
+        if (!category) {
+          throw new Error(`Category with id ${id} not found`);
+        }
+
+        if (parentId !== null) {
+          this.assertValidParent(existingCategories, category, parentId);
+        }
+
+        const movedCategory: Category = { ...category };
+        if (parentId === null) {
+          delete movedCategory.parentId;
+        } else {
+          movedCategory.parentId = parentId;
+        }
+
+        const remaining = existingCategories.filter(c => c.id !== id);
+        const beforeIndex = beforeId === undefined ? -1 : remaining.findIndex(c => c.id === beforeId);
+        remaining.splice(beforeIndex >= 0 ? beforeIndex : remaining.length, 0, movedCategory);
+
+        await this.setStorageData(this.STORAGE_KEYS.CATEGORIES, remaining);
+        return movedCategory;
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  /**
+   * Delete a category and move its prompts to the default category
+   *
+   * @param id - Category to delete
+   * @param strategy - What to do with its subcategories (see CategoryDeleteStrategy)
+   */
+  async deleteCategory(id: string, strategy: CategoryDeleteStrategy = 'reparent'): Promise<void> {
     // Lock CATEGORIES first (always modified), then PROMPTS if prompts need updating
     await this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, async () => {
       try {
         const existingCategories = await this.getCategories();
         const categoryToDelete = existingCategories.find(c => c.id === id);
 
-        if (!categoryToDelete) {
-          throw new Error(`Category with id ${id} not found`);
-        }
+        if (!categoryToDelete) {
+          throw new Error(`Category with id ${id} not found`);
+        }
+
+        // Prevent deletion of default category
+        if (categoryToDelete.name === DEFAULT_CATEGORY) {
+          throw new Error('Cannot delete the default category');
+        }
+
+        // The default category is never deleted along with a subtree
+        const deletedIds = new Set([
+          id,
+          ...(strategy === 'uncategorize' ? getDescendantIds(existingCategories, id) : [])
+        ]);
+        const deletedNames = new Set(
+          existingCategories
+            .filter(c => deletedIds.has(c.id) && c.name !== DEFAULT_CATEGORY)
+            .map(c => c.name)
+        );
+
+        const filteredCategories = existingCategories
+          .filter(c => !deletedNames.has(c.name))
+          .map(c => {
+            if (!c.parentId || !deletedIds.has(c.parentId)) {
+              return c;
+            }
+            // Children of the deleted category move up one level
+            const { parentId: _parentId, ...rest } = c;
+            return categoryToDelete.parentId && !deletedIds.has(categoryToDelete.parentId)
+              ? { ...rest, parentId: categoryToDelete.parentId }
+              : rest;
+          });
+
+        // Check if any prompts need to be updated
+        // Lock PROMPTS only if we need to modify prompts
+        await this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+          const prompts = await this.getPrompts();
+          const hasPromptsToUpdate = prompts.some(p => deletedNames.has(p.category));
+
+          if (hasPromptsToUpdate) {
+            const updatedPrompts = prompts.map(prompt =>
+              deletedNames.has(prompt.category)
+                ? { ...prompt, category: DEFAULT_CATEGORY, updatedAt: Date.now() }
+                : prompt
+            );
+
+            // Update both categories and prompts atomically with both locks held
+            await this.writeStorageData({
+              [this.STORAGE_KEYS.CATEGORIES]: filteredCategories,
+              [this.STORAGE_KEYS.PROMPTS]: updatedPrompts
+            });
+          } else {
+            // No prompts to update, just delete category
+            await this.setStorageData(this.STORAGE_KEYS.CATEGORIES, filteredCategories);
+          }
+        });
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  /**
+   * Reject parents that do not exist or would turn the category tree into a cycle
+   */
+  private assertValidParent(categories: Category[], category: Category, parentId: string): void {
+    if (!categories.some(c => c.id === parentId)) {
+      throw new Error(`Parent category with id ${parentId} not found`);
+    }
+
+    if (parentId === category.id || getDescendantIds(categories, category.id).includes(parentId)) {
+      throw new Error('A category cannot be moved into itself or one of its subcategories');
+    }
+
+    if (category.name === DEFAULT_CATEGORY) {
+      throw new Error('The default category must stay at the top level');
+    }
+  }
+
+  // Template variable operations
+  async getPromptVariableValues(promptId: string): Promise<PromptVariableValues> {
+    try {
+      const allValues = await this.getStorageData<Record<string, PromptVariableValues>>(this.STORAGE_KEYS.VARIABLE_VALUES);
+      return allValues?.[promptId] ?? {};
+    } catch (error) {
+      throw this.handleStorageError(error);
+    }
+  }
+
+  /**
+   * Remember the values entered for a prompt's template variables; only the
+   * first PROMPT_VARIABLE_VALUE_LIMITS.MAX_PER_PROMPT values are kept
+   */
+  savePromptVariableValues(promptId: string, values: PromptVariableValues): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.VARIABLE_VALUES, async () => {
+      try {
+        const allValues = await this.getStorageData<Record<string, PromptVariableValues>>(this.STORAGE_KEYS.VARIABLE_VALUES) ?? {};
+        allValues[promptId] = Object.fromEntries(
+          Object.entries(values).slice(0, PROMPT_VARIABLE_VALUE_LIMITS.MAX_PER_PROMPT)
+        );
+        await this.setStorageData(this.STORAGE_KEYS.VARIABLE_VALUES, allValues);
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  // Version history operations
+  async getPromptRevisions(promptId: string): Promise<PromptRevision[]> {
+    try {
+      const allRevisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS);
+      return allRevisions?.[promptId] ?? [];
+    } catch (error) {
+      throw this.handleStorageError(error);
+    }
+  }
+
+  // Prompt chain operations
+  async getPromptChains(): Promise<PromptChain[]> {
+    try {
+      return await this.getStorageData<PromptChain[]>(this.STORAGE_KEYS.CHAINS) ?? [];
+    } catch (error) {
+      throw this.handleStorageError(error);
+    }
+  }
+
+  savePromptChain(chain: Pick<PromptChain, 'title' | 'promptIds'>): Promise<PromptChain> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CHAINS, async () => {
+      try {
+        const chains = await this.getPromptChains();
+        if (chains.length >= PROMPT_CHAIN_LIMITS.MAX_CHAINS) {
+          throw new StorageError({
+            type: 'VALIDATION_ERROR',
+            message: `You can save at most ${String(PROMPT_CHAIN_LIMITS.MAX_CHAINS)} prompt chains`
+          });
+        }
+
+        const now = Date.now();
+        const newChain: PromptChain = {
+          id: uuidv4(),
+          ...this.validatePromptChain(chain, await this.getPrompts()),
+          createdAt: now,
+          updatedAt: now
+        };
+        await this.setStorageData(this.STORAGE_KEYS.CHAINS, [...chains, newChain]);
+        return newChain;
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  updatePromptChain(id: string, updates: Pick<PromptChain, 'title' | 'promptIds'>): Promise<PromptChain> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CHAINS, async () => {
+      try {
+        const chains = await this.getPromptChains();
+        const index = chains.findIndex(chain => chain.id === id);
+        if (index === -1) {
+          throw new Error(`Prompt chain with id ${id} not found`);
+        }
+
+        const updatedChain: PromptChain = {
+          ...chains[index],
+          ...this.validatePromptChain(updates, await this.getPrompts()),
+          updatedAt: Date.now()
+        };
+        chains[index] = updatedChain;
+        await this.setStorageData(this.STORAGE_KEYS.CHAINS, chains);
+        return updatedChain;
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  deletePromptChain(id: string): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CHAINS, async () => {
+      try {
+        const chains = await this.getPromptChains();
+        await this.setStorageData(this.STORAGE_KEYS.CHAINS, chains.filter(chain => chain.id !== id));
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  /**
+   * Check a chain's title and steps, returning the trimmed title
+   *
+   * Steps must be existing prompts; deleting a prompt later leaves its step
+   * in the chain, and running the chain stops there.
+   */
+  private validatePromptChain(
+    chain: Pick<PromptChain, 'title' | 'promptIds'>,
+    prompts: Prompt[]
+  ): Pick<PromptChain, 'title' | 'promptIds'> {
+    const title = chain.title.trim();
+    if (!title) {
+      throw new StorageError({ type: 'VALIDATION_ERROR', message: 'Chain title is required' });
+    }
+    if (title.length > PROMPT_CHAIN_LIMITS.TITLE_MAX) {
+      throw new StorageError({
+        type: 'VALIDATION_ERROR',
+        message: `Chain title must be ${String(PROMPT_CHAIN_LIMITS.TITLE_MAX)} characters or less`
+      });
+    }
+    if (chain.promptIds.length < PROMPT_CHAIN_LIMITS.MIN_STEPS || chain.promptIds.length > PROMPT_CHAIN_LIMITS.MAX_STEPS) {
+      throw new StorageError({
+        type: 'VALIDATION_ERROR',
+        message: `A chain needs ${String(PROMPT_CHAIN_LIMITS.MIN_STEPS)} to ${String(PROMPT_CHAIN_LIMITS.MAX_STEPS)} steps`
+      });
+    }
+    const promptIds = new Set(prompts.map(prompt => prompt.id));
+    if (chain.promptIds.some(id => !promptIds.has(id))) {
+      throw new StorageError({ type: 'VALIDATION_ERROR', message: 'Chain steps must be prompts from the library' });
+    }
+    return { title, promptIds: [...chain.promptIds] };
+  }
+
+  // Example output operations
+  async getPromptExampleOutputs(promptId: string): Promise<PromptExampleOutput[]> {
+    try {
+      const allOutputs = await this.getStorageData<Record<string, PromptExampleOutput[]>>(this.STORAGE_KEYS.EXAMPLE_OUTPUTS);
+      return allOutputs?.[promptId] ?? [];
+    } catch (error) {
+      throw this.handleStorageError(error);
+    }
+  }
+
+  /**
+   * Attach an AI response to the prompt that produced it (newest first; the
+   * oldest outputs are dropped beyond MAX_PER_PROMPT)
+   */
+  savePromptExampleOutput(promptId: string, output: Pick<PromptExampleOutput, 'content' | 'platform'>): Promise<PromptExampleOutput> {
+    return this.mutex.withLock(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, async () => {
+      try {
+        const content = output.content.trim();
+        if (!content) {
+          throw new StorageError({ type: 'VALIDATION_ERROR', message: 'Example output is empty' });
+        }
+        if (content.length > PROMPT_EXAMPLE_OUTPUT_LIMITS.CONTENT_MAX) {
+          throw new StorageError({
+            type: 'VALIDATION_ERROR',
+            message: `Example output must be ${String(PROMPT_EXAMPLE_OUTPUT_LIMITS.CONTENT_MAX)} characters or less`
+          });
+        }
+        if (!(await this.getPrompts()).some(prompt => prompt.id === promptId)) {
+          throw new Error(`Prompt with id ${promptId} not found`);
+        }
+
+        await this.checkQuotaBeforeWrite(content.length * 2);
+
+        const newOutput: PromptExampleOutput = {
+          id: uuidv4(),
+          content,
+          platform: output.platform,
+          createdAt: Date.now()
+        };
+        const allOutputs = await this.getStorageData<Record<string, PromptExampleOutput[]>>(this.STORAGE_KEYS.EXAMPLE_OUTPUTS) ?? {};
+        allOutputs[promptId] = [newOutput, ...(allOutputs[promptId] ?? [])].slice(0, PROMPT_EXAMPLE_OUTPUT_LIMITS.MAX_PER_PROMPT);
+        await this.setStorageData(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, allOutputs);
+        return newOutput;
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  deletePromptExampleOutput(promptId: string, outputId: string): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, async () => {
+      try {
+        const allOutputs = await this.getStorageData<Record<string, PromptExampleOutput[]>>(this.STORAGE_KEYS.EXAMPLE_OUTPUTS);
+        const outputs = allOutputs?.[promptId];
+        if (!allOutputs || !outputs) {
+          return;
+        }
+
+        const remaining = outputs.filter(output => output.id !== outputId);
+        if (remaining.length > 0) {
+          allOutputs[promptId] = remaining;
+        } else {
+          delete allOutputs[promptId];
+        }
+        await this.setStorageData(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, allOutputs);
+      } catch (error) {
+        throw this.handleStorageError(error);
+      }
+    });
+  }
+
+  // Undo operations
+
+  /**
+   * Capture the current state of the prompts (and optionally categories) an
+   * action is about to change. Ids that don't exist yet are recorded as added
+   * by the action, so undoing removes them again.
+   */
+  async captureUndoSnapshot(scope: UndoScope): Promise<UndoSnapshot> {
+    try {
+      const [prompts, categories, allValues, allRevisions, allOutputs] = await Promise.all([
+        this.getPrompts(),
+        scope.categories ? this.getCategories() : Promise.resolve(undefined),
+        this.getStorageData<Record<string, PromptVariableValues>>(this.STORAGE_KEYS.VARIABLE_VALUES),
+        this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS),
+        this.getStorageData<Record<string, PromptExampleOutput[]>>(this.STORAGE_KEYS.EXAMPLE_OUTPUTS)
+      ]);
+
+      const exampleOutputs: Record<string, PromptExampleOutput[]> = {};
+      const snapshot: UndoSnapshot = { prompts: [], addedPromptIds: [], variableValues: {}, revisions: {}, exampleOutputs };
+      if (categories) {
+        snapshot.categories = categories;
+      }
 
-        // Prevent deletion of default category
-        if (categoryToDelete.name === DEFAULT_CATEGORY) {
-          throw new Error('Cannot delete the default category');
+      for (const id of new Set(scope.promptIds)) {
+        const index = prompts.findIndex(p => p.id === id);
+        if (index === -1) {
+          snapshot.addedPromptIds.push(id);
+          continue;
         }
+        snapshot.prompts.push({ prompt: prompts[index], index });
+        if (allValues?.[id]) {
+          snapshot.variableValues[id] = allValues[id];
+        }
+        if (allRevisions?.[id]) {
+          snapshot.revisions[id] = allRevisions[id];
+        }
+        if (allOutputs?.[id]) {
+          exampleOutputs[id] = allOutputs[id];
+        }
+      }
 
-        const filteredCategories = existingCategories.filter(c => c.id !== id);
-
-        // Check if any prompts need to be updated
-        // Lock PROMPTS only if we need to modify prompts
-        await this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
-          const prompts = await this.getPrompts();
-          const hasPromptsToUpdate = prompts.some(p => p.category === categoryToDelete.name);
+      return snapshot;
+    } catch (error) {
+      throw this.handleStorageError(error);
+    }
+  }
 
-          if (hasPromptsToUpdate) {
-            const updatedPrompts = prompts.map(prompt =>
-              prompt.category === categoryToDelete.name
-                ? { ...prompt, category: DEFAULT_CATEGORY, updatedAt: Date.now() }
-                : prompt
-            );
+  /**
+   * Put back the state captured by captureUndoSnapshot. Captured prompts are
+   * restored in place (or re-inserted at their old position), prompts added by
+   * the action are removed and the category list is replaced when it was captured.
+   * Prompts outside the snapshot are left untouched.
+   */
+  async restoreUndoSnapshot(snapshot: UndoSnapshot): Promise<void> {
+    const { categories } = snapshot;
+    if (categories) {
+      await this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, async () => {
+        try {
+          await this.setStorageData(this.STORAGE_KEYS.CATEGORIES, categories);
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      });
+    }
 
-            // Update both categories and prompts atomically with both locks held
-            await chrome.storage.local.set({
-              [this.STORAGE_KEYS.CATEGORIES]: filteredCategories,
-              [this.STORAGE_KEYS.PROMPTS]: updatedPrompts
-            });
+    await this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+      try {
+        const addedIds = new Set(snapshot.addedPromptIds);
+        const prompts = (await this.getPrompts()).filter(p => !addedIds.has(p.id));
+        let sizeDelta = 0;
+
+        for (const { prompt, index } of [...snapshot.prompts].sort((a, b) => a.index - b.index)) {
+          const currentIndex = prompts.findIndex(p => p.id === prompt.id);
+          sizeDelta += estimatePromptSize(prompt.title, prompt.content, prompt.category);
+          if (currentIndex === -1) {
+            prompts.splice(Math.min(index, prompts.length), 0, prompt);
           } else {
-            // No prompts to update, just delete category
-            await this.setStorageData(this.STORAGE_KEYS.CATEGORIES, filteredCategories);
+            const current = prompts[currentIndex];
+            sizeDelta -= estimatePromptSize(current.title, current.content, current.category);
+            prompts[currentIndex] = prompt;
           }
-        });
+        }
+
+        if (sizeDelta > 0) {
+          await this.checkQuotaBeforeWrite(sizeDelta);
+        }
+
+        await this.setStorageData(this.STORAGE_KEYS.PROMPTS, prompts);
       } catch (error) {
         throw this.handleStorageError(error);
       }
     });
+
+    const promptIds = [...snapshot.prompts.map(({ prompt }) => prompt.id), ...snapshot.addedPromptIds];
+    await this.restorePromptSideData(this.STORAGE_KEYS.VARIABLE_VALUES, promptIds, snapshot.variableValues);
+    await this.restorePromptSideData(this.STORAGE_KEYS.REVISIONS, promptIds, snapshot.revisions);
+    if (snapshot.exampleOutputs) {
+      await this.restorePromptSideData(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, promptIds, snapshot.exampleOutputs);
+    }
+  }
+
+  /**
+   * Replace prompts, categories and settings with a backup snapshot in one write
+   *
+   * Unlike importData, nothing else is cleared: site settings, usage history
+   * and revision history stay as they are.
+   * @throws StorageError if the data fails import validation or does not fit the quota
+   */
+  restoreBackupData(data: StorageData): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.CATEGORIES, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, async () => {
+        try {
+          if (!this.validateImportedData(data)) {
+            throw new Error('Invalid data format');
+          }
+
+          const sizeDelta = estimatePromptsArraySize(data.prompts) - estimatePromptsArraySize(await this.getPrompts());
+          if (sizeDelta > 0) {
+            await this.checkQuotaBeforeWrite(sizeDelta);
+          }
+
+          await ensureStorageAvailable();
+          await this.writeStorageData({
+            [this.STORAGE_KEYS.PROMPTS]: data.prompts,
+            [this.STORAGE_KEYS.CATEGORIES]: data.categories,
+            [this.STORAGE_KEYS.SETTINGS]: data.settings
+          });
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
   }
 
   // Settings operations
@@ -528,23 +1395,26 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Remove everything stored by the extension, in chrome.storage.local and IndexedDB
+   * (the storage layout, signing identity and trusted keys are kept; the vault is removed)
+   */
   async clearAllData(): Promise<void> {
     try {
-      await chrome.storage.local.clear();
+      await this.clearStoredData([this.STORAGE_KEYS.LAYOUT, ...this.DEVICE_KEYS]);
+      await VaultManager.getInstance().lock();
     } catch (error) {
       throw this.handleStorageError(error);
     }
   }
 
+  /**
+   * Usage of the storage holding prompt bodies: chrome.storage.local, or the
+   * origin quota from navigator.storage.estimate() once they live in IndexedDB
+   */
   async getStorageUsage(): Promise<{ used: number; total: number }> {
     try {
-      const usage = await chrome.storage.local.getBytesInUse();
-      const quota = chrome.storage.local.QUOTA_BYTES;
-
-      return {
-        used: usage,
-        total: quota
-      };
+      return await this.getUsage();
     } catch (error) {
       throw this.handleStorageError(error);
     }
@@ -555,10 +1425,15 @@ export class StorageManager {
     total: number;
     percentage: number;
     warningLevel: 'safe' | 'warning' | 'critical' | 'danger';
+    revisionsUsed: number;
+    layout: StorageLayout;
   }> {
     try {
-      const usage = await chrome.storage.local.getBytesInUse();
-      const quota = chrome.storage.local.QUOTA_BYTES;
+      const layout = await this.getStorageLayout();
+      const { used: usage, total: quota } = await this.getUsage(layout);
+      const revisionsUsed = layout === 'indexeddb'
+        ? new TextEncoder().encode(JSON.stringify(await this.getStorageData(this.STORAGE_KEYS.REVISIONS) ?? {})).length
+        : await chrome.storage.local.getBytesInUse(this.STORAGE_KEYS.REVISIONS);
       const percentage = (usage / quota) * 100;
 
       let warningLevel: 'safe' | 'warning' | 'critical' | 'danger';
@@ -576,7 +1451,9 @@ export class StorageManager {
         used: usage,
         total: quota,
         percentage,
-        warningLevel
+        warningLevel,
+        revisionsUsed,
+        layout
       };
     } catch (error) {
       throw this.handleStorageError(error);
@@ -610,7 +1487,7 @@ export class StorageManager {
       const totalEstimatedSize = estimatedPromptsSize + estimatedCategoriesSize + estimatedSettingsSize;
 
       // Check against total quota since existing data will be cleared
-      const quota = chrome.storage.local.QUOTA_BYTES;
+      const { total: quota } = await this.getUsage();
       if (totalEstimatedSize > quota) {
         throw new StorageError({
           type: 'STORAGE_QUOTA_EXCEEDED',
@@ -623,12 +1500,13 @@ export class StorageManager {
         });
       }
 
-      // Create backup of existing data before clearing
+      // Create backup of existing data before clearing (fails while the vault is locked)
       const backup = await this.getAllData();
 
       try {
-        // Clear existing data and import new data
-        await this.clearAllData();
+        // Clear existing data and import new data; the vault stays on, so the
+        // imported data (or the rolled back backup) is encrypted with its key
+        await this.clearStoredData([this.STORAGE_KEYS.LAYOUT, this.STORAGE_KEYS.VAULT, ...this.DEVICE_KEYS]);
 
         await Promise.all([
           this.setStorageData(this.STORAGE_KEYS.PROMPTS, data.prompts),
@@ -678,16 +1556,396 @@ export class StorageManager {
 
   // Private helper methods
 
+  /**
+   * Where prompt bodies and revisions are stored; 'chrome-local' until migrated
+   */
+  async getStorageLayout(): Promise<StorageLayout> {
+    const result = await this.localBackend.get([this.STORAGE_KEYS.LAYOUT]);
+    return result[this.STORAGE_KEYS.LAYOUT] === 'indexeddb' ? 'indexeddb' : 'chrome-local';
+  }
+
+  /**
+   * One-time move of prompt bodies and revision history from chrome.storage.local
+   * to IndexedDB. Prompt metadata stays in chrome.storage.local, where the
+   * content script and context menus read it.
+   *
+   * IndexedDB is written before the layout marker, so an interrupted migration
+   * leaves the old layout intact and simply runs again.
+   * @returns false if the data was already migrated
+   */
+  migrateToIndexedDb(): Promise<boolean> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+        try {
+          const current = await this.localBackend.get([
+            this.STORAGE_KEYS.PROMPTS,
+            this.STORAGE_KEYS.REVISIONS,
+            this.STORAGE_KEYS.LAYOUT
+          ]);
+          if (current[this.STORAGE_KEYS.LAYOUT] === 'indexeddb') {
+            return false;
+          }
+
+          const prompts = (current[this.STORAGE_KEYS.PROMPTS] ?? []) as Prompt[];
+          const revisions = (current[this.STORAGE_KEYS.REVISIONS] ?? {}) as Record<string, PromptRevision[]>;
+          const { metadata, bodies } = splitPromptBodies(prompts);
+
+          await this.indexedDbBackend.set({
+            [this.STORAGE_KEYS.PROMPT_BODIES]: bodies,
+            [this.STORAGE_KEYS.REVISIONS]: revisions
+          });
+          await this.localBackend.set({
+            [this.STORAGE_KEYS.PROMPTS]: metadata,
+            [this.STORAGE_KEYS.LAYOUT]: 'indexeddb' satisfies StorageLayout
+          });
+          await this.localBackend.remove([this.STORAGE_KEYS.REVISIONS]);
+
+          Logger.info('StorageManager: Moved prompt bodies and revisions to IndexedDB', {
+            component: 'StorageManager',
+            promptCount: prompts.length
+          });
+          return true;
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Turn on the vault: derive a key from the passphrase and encrypt the content
+   * of every prompt and revision with it. Titles, categories and tags stay
+   * readable so the library can be listed while locked.
+   *
+   * The vault is saved before the content is rewritten; content left
+   * unencrypted by an interruption is still read, and encrypted on its next write.
+   * @throws StorageError if the passphrase is too short or the library is already encrypted
+   */
+  enableEncryption(passphrase: string): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+        try {
+          const prompts = await this.getStorageData<Prompt[]>(this.STORAGE_KEYS.PROMPTS) ?? [];
+          const revisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS) ?? {};
+
+          const vault = VaultManager.getInstance();
+          await vault.create(passphrase);
+          await this.writeStorageData({
+            [this.STORAGE_KEYS.PROMPTS]: prompts,
+            [this.STORAGE_KEYS.REVISIONS]: revisions
+          }, await vault.getKey());
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
+  }
+
+  /**
+   * Turn off the vault: store all content unencrypted again, then delete the
+   * vault. Confirm the passphrase with VaultManager.unlock() first.
+   * @throws StorageError if the vault is locked
+   */
+  disableEncryption(): Promise<void> {
+    return this.mutex.withLock(this.STORAGE_KEYS.PROMPTS, () =>
+      this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+        try {
+          const prompts = await this.getStorageData<Prompt[]>(this.STORAGE_KEYS.PROMPTS) ?? [];
+          const revisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS) ?? {};
+
+          await this.writeStorageData({
+            [this.STORAGE_KEYS.PROMPTS]: prompts,
+            [this.STORAGE_KEYS.REVISIONS]: revisions
+          }, null);
+          await VaultManager.getInstance().remove();
+        } catch (error) {
+          throw this.handleStorageError(error);
+        }
+      })
+    );
+  }
+
   private async getStorageData<T>(key: string): Promise<T | null> {
-    await ensureStorageAvailable();
-    const result = await chrome.storage.local.get([key]);
-    const value = result[key] as T;
-    return value !== undefined ? value : null;
+    if (key !== this.STORAGE_KEYS.PROMPTS && key !== this.STORAGE_KEYS.REVISIONS) {
+      const result = await this.localBackend.get([key]);
+      const value = result[key] as T;
+      return value !== undefined ? value : null;
+    }
+
+    const result = await this.localBackend.get([key, this.STORAGE_KEYS.LAYOUT, this.STORAGE_KEYS.VAULT]);
+    let value: unknown;
+    if (result[this.STORAGE_KEYS.LAYOUT] !== 'indexeddb') {
+      value = result[key];
+    } else if (key === this.STORAGE_KEYS.REVISIONS) {
+      value = (await this.indexedDbBackend.get([key]))[key];
+    } else {
+      const metadata = result[key] as PromptMetadata[] | undefined;
+      if (metadata !== undefined) {
+        const stored = await this.indexedDbBackend.get([this.STORAGE_KEYS.PROMPT_BODIES]);
+        const bodies = (stored[this.STORAGE_KEYS.PROMPT_BODIES] ?? {}) as Record<string, string>;
+        value = metadata.map(prompt => ({ ...prompt, content: bodies[prompt.id] ?? '' }));
+      }
+    }
+
+    if (value === undefined) {
+      return null;
+    }
+    if (result[this.STORAGE_KEYS.VAULT] === undefined) {
+      return value as T;
+    }
+    const vaultKey = await VaultManager.getInstance().getKey();
+    return await this.transformContent(key, value, text => decryptText(vaultKey, text)) as T;
+  }
+
+  /**
+   * Empty chrome.storage.local except for `keep`, and IndexedDB entirely
+   */
+  private async clearStoredData(keep: string[]): Promise<void> {
+    const layout = await this.getStorageLayout();
+    await this.localBackend.clear(keep);
+    if (layout === 'indexeddb') {
+      await this.indexedDbBackend.clear();
+    }
   }
 
   private async setStorageData(key: string, data: unknown): Promise<void> {
-    await ensureStorageAvailable();
-    await chrome.storage.local.set({ [key]: data });
+    await this.writeStorageData({ [key]: data });
+  }
+
+  /**
+   * Write several keys, routing prompt bodies and revisions to IndexedDB when migrated.
+   * New and changed bodies are written before the metadata, and bodies of removed
+   * prompts are only pruned after it, so prompt metadata never points at missing bodies.
+   *
+   * Prompt and revision content is encrypted while the vault is on, with
+   * `vaultKey` if given (null writes it unencrypted).
+   */
+  private async writeStorageData(items: Record<string, unknown>, vaultKey?: CryptoKey | null): Promise<void> {
+    if (!(this.STORAGE_KEYS.PROMPTS in items) && !(this.STORAGE_KEYS.REVISIONS in items)) {
+      await this.localBackend.set(items);
+      return;
+    }
+
+    const stored = await this.localBackend.get([this.STORAGE_KEYS.LAYOUT, this.STORAGE_KEYS.VAULT]);
+    const key = vaultKey !== undefined || stored[this.STORAGE_KEYS.VAULT] === undefined
+      ? vaultKey ?? null
+      : await VaultManager.getInstance().getKey();
+    if (key) {
+      const encrypted: Record<string, unknown> = { ...items };
+      for (const name of [this.STORAGE_KEYS.PROMPTS, this.STORAGE_KEYS.REVISIONS]) {
+        if (items[name] !== undefined) {
+          encrypted[name] = await this.transformContent(name, items[name], text => encryptText(key, text));
+        }
+      }
+      items = encrypted;
+    }
+
+    if (stored[this.STORAGE_KEYS.LAYOUT] !== 'indexeddb') {
+      await this.localBackend.set(items);
+      return;
+    }
+
+    const { [this.STORAGE_KEYS.PROMPTS]: prompts, [this.STORAGE_KEYS.REVISIONS]: revisions, ...localItems } = items;
+    const indexedDbItems: Record<string, unknown> = {};
+    let prunedBodies: Record<string, string> | undefined;
+    if (prompts !== undefined) {
+      const { metadata, bodies } = splitPromptBodies(prompts as Prompt[]);
+      const current = await this.indexedDbBackend.get([this.STORAGE_KEYS.PROMPT_BODIES]);
+      const currentBodies = (current[this.STORAGE_KEYS.PROMPT_BODIES] ?? {}) as Record<string, string>;
+      indexedDbItems[this.STORAGE_KEYS.PROMPT_BODIES] = { ...currentBodies, ...bodies };
+      localItems[this.STORAGE_KEYS.PROMPTS] = metadata;
+      if (Object.keys(currentBodies).some(id => !(id in bodies))) {
+        prunedBodies = bodies;
+      }
+    }
+    if (revisions !== undefined) {
+      indexedDbItems[this.STORAGE_KEYS.REVISIONS] = revisions;
+    }
+
+    await this.indexedDbBackend.set(indexedDbItems);
+    if (Object.keys(localItems).length > 0) {
+      await this.localBackend.set(localItems);
+    }
+    if (prunedBodies) {
+      await this.indexedDbBackend.set({ [this.STORAGE_KEYS.PROMPT_BODIES]: prunedBodies });
+    }
+  }
+
+  /**
+   * Copy of a prompt list or revision map with every `content` passed through
+   * `transform` (encryption or decryption); everything else is left readable
+   */
+  private async transformContent(key: string, value: unknown, transform: (text: string) => Promise<string>): Promise<unknown> {
+    const transformAll = <T extends { content: string }>(entries: T[]) =>
+      Promise.all(entries.map(async entry => ({ ...entry, content: await transform(entry.content) })));
+
+    if (key === this.STORAGE_KEYS.PROMPTS) {
+      return transformAll(value as Prompt[]);
+    }
+    const revisions = value as Record<string, PromptRevision[]>;
+    const entries = await Promise.all(
+      Object.entries(revisions).map(async ([promptId, list]) => [promptId, await transformAll(list)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+
+  private async getUsage(layout?: StorageLayout): Promise<{ used: number; total: number }> {
+    const backend = (layout ?? await this.getStorageLayout()) === 'indexeddb' ? this.indexedDbBackend : this.localBackend;
+    return backend.getUsage();
+  }
+
+  /**
+   * Drop remembered variable values for deleted prompts (no write if none exist)
+   */
+  private async removePromptVariableValues(promptIds: string[]): Promise<void> {
+    await this.mutex.withLock(this.STORAGE_KEYS.VARIABLE_VALUES, async () => {
+      const allValues = await this.getStorageData<Record<string, PromptVariableValues>>(this.STORAGE_KEYS.VARIABLE_VALUES);
+      if (!allValues || !promptIds.some(id => id in allValues)) {
+        return;
+      }
+
+      for (const id of promptIds) {
+        delete allValues[id];
+      }
+      await this.setStorageData(this.STORAGE_KEYS.VARIABLE_VALUES, allValues);
+    });
+  }
+
+  /**
+   * Reset per-prompt data (variable values or revisions) of the given prompts
+   * to the captured entries, dropping entries that weren't captured
+   */
+  private restorePromptSideData<T>(key: string, promptIds: string[], captured: Record<string, T>): Promise<void> {
+    return this.mutex.withLock(key, async () => {
+      const allData = await this.getStorageData<Record<string, T>>(key) ?? {};
+      let changed = false;
+
+      for (const id of promptIds) {
+        if (id in captured) {
+          allData[id] = captured[id];
+          changed = true;
+        } else if (id in allData) {
+          delete allData[id];
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        await this.setStorageData(key, allData);
+      }
+    });
+  }
+
+  /**
+   * Add a prompt's previous version to its revision history (newest first).
+   * History is best-effort: failures are logged and never fail the prompt update.
+   * When storage usage reaches the warning threshold, every prompt's history is
+   * trimmed to MAX_PER_PROMPT_WHEN_TIGHT revisions.
+   */
+  private async recordRevision(previous: Prompt): Promise<void> {
+    await this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+      const revision: PromptRevision = {
+        id: uuidv4(),
+        timestamp: previous.updatedAt,
+        title: previous.title,
+        content: previous.content,
+        category: previous.category
+      };
+
+      try {
+        const allRevisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS) ?? {};
+        allRevisions[previous.id] = [revision, ...(allRevisions[previous.id] ?? [])]
+          .slice(0, PROMPT_REVISION_LIMITS.MAX_PER_PROMPT);
+
+        const { used: usage, total: quota } = await this.getUsage();
+        if (usage / quota >= QUOTA_THRESHOLDS.WARNING) {
+          this.trimRevisions(allRevisions, PROMPT_REVISION_LIMITS.MAX_PER_PROMPT_WHEN_TIGHT);
+          Logger.info('StorageManager: Pruned revision history (storage quota is tight)', {
+            component: 'StorageManager',
+            usagePercent: Math.round((usage / quota) * 100)
+          });
+        }
+
+        await this.setStorageData(this.STORAGE_KEYS.REVISIONS, allRevisions);
+      } catch (error) {
+        Logger.warn('StorageManager: Failed to record prompt revision', {
+          component: 'StorageManager',
+          promptId: previous.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+  }
+
+  private trimRevisions(allRevisions: Record<string, PromptRevision[]>, maxPerPrompt: number): boolean {
+    let trimmed = false;
+    for (const [promptId, revisions] of Object.entries(allRevisions)) {
+      if (revisions.length > maxPerPrompt) {
+        allRevisions[promptId] = revisions.slice(0, maxPerPrompt);
+        trimmed = true;
+      }
+    }
+    return trimmed;
+  }
+
+  /**
+   * Trim every prompt's revision history to maxPerPrompt entries (0 removes the history)
+   * @returns true if anything was removed
+   */
+  private pruneRevisions(maxPerPrompt: number): Promise<boolean> {
+    return this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+      const allRevisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS);
+      if (!allRevisions || !this.trimRevisions(allRevisions, maxPerPrompt)) {
+        return false;
+      }
+
+      if (maxPerPrompt === 0) {
+        const backend = await this.getStorageLayout() === 'indexeddb' ? this.indexedDbBackend : this.localBackend;
+        await backend.remove([this.STORAGE_KEYS.REVISIONS]);
+      } else {
+        await this.setStorageData(this.STORAGE_KEYS.REVISIONS, allRevisions);
+      }
+
+      Logger.info('StorageManager: Pruned revision history to free storage', {
+        component: 'StorageManager',
+        maxPerPrompt
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Drop the example outputs saved for deleted prompts (no write if none exist)
+   */
+  private async removePromptExampleOutputs(promptIds: string[]): Promise<void> {
+    await this.mutex.withLock(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, async () => {
+      const allOutputs = await this.getStorageData<Record<string, PromptExampleOutput[]>>(this.STORAGE_KEYS.EXAMPLE_OUTPUTS);
+      if (!allOutputs || !promptIds.some(id => id in allOutputs)) {
+        return;
+      }
+
+      for (const id of promptIds) {
+        delete allOutputs[id];
+      }
+      await this.setStorageData(this.STORAGE_KEYS.EXAMPLE_OUTPUTS, allOutputs);
+    });
+  }
+
+  /**
+   * Drop the revision history of deleted prompts (no write if none exists)
+   */
+  private async removePromptRevisions(promptIds: string[]): Promise<void> {
+    await this.mutex.withLock(this.STORAGE_KEYS.REVISIONS, async () => {
+      const allRevisions = await this.getStorageData<Record<string, PromptRevision[]>>(this.STORAGE_KEYS.REVISIONS);
+      if (!allRevisions || !promptIds.some(id => id in allRevisions)) {
+        return;
+      }
+
+      for (const id of promptIds) {
+        delete allRevisions[id];
+      }
+      await this.setStorageData(this.STORAGE_KEYS.REVISIONS, allRevisions);
+    });
   }
 
   /**
@@ -699,10 +1957,20 @@ export class StorageManager {
    */
   private async checkQuotaBeforeWrite(estimatedSize: number): Promise<void> {
     try {
-      const usage = await chrome.storage.local.getBytesInUse();
-      const quota = chrome.storage.local.QUOTA_BYTES;
+      const initial = await this.getUsage();
+      let usage = initial.used;
+      const quota = initial.total;
 
-      const quotaCheck = checkQuotaAvailability(estimatedSize, usage, quota);
+      let quotaCheck = checkQuotaAvailability(estimatedSize, usage, quota);
+
+      // Revision history is expendable: shrink it, then drop it, before refusing a write
+      for (const maxPerPrompt of [PROMPT_REVISION_LIMITS.MAX_PER_PROMPT_WHEN_TIGHT, 0]) {
+        if (quotaCheck.canWrite || !(await this.pruneRevisions(maxPerPrompt))) {
+          continue;
+        }
+        usage = (await this.getUsage()).used;
+        quotaCheck = checkQuotaAvailability(estimatedSize, usage, quota);
+      }
 
       if (!quotaCheck.canWrite) {
         throw new StorageError({
@@ -751,7 +2019,10 @@ export class StorageManager {
       createdAt,
       updatedAt,
       usageCount,
-      lastUsedAt
+      lastUsedAt,
+      // Prompts saved before tags existed keep no tags field at all
+      ...(prompt.tags !== undefined && { tags: normalizeTags(prompt.tags) }),
+      ...(prompt.pinned !== undefined && { pinned: prompt.pinned === true })
     };
   }
 
@@ -761,6 +2032,11 @@ export class StorageManager {
       return error;
     }
 
+    // Vault errors (locked, wrong passphrase) already carry a message for the user
+    if (error instanceof Error && error.name === 'VaultError') {
+      return new StorageError({ type: (error as Error & AppError).type, message: error.message, details: error });
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     if (errorMessage.includes('QUOTA_EXCEEDED')) {
@@ -836,8 +2112,34 @@ export class StorageManager {
       });
     }
 
+    errors.push(...this.collectPromptAndCategoryErrors(obj.prompts as unknown[], obj.categories as unknown[]));
+
+    // Validate settings
+    const settingsErrors = this.validateSettings(obj.settings);
+    errors.push(...settingsErrors);
+
+    // If any validation errors occurred, throw with all errors
+    if (errors.length > 0) {
+      throw new StorageError({
+        type: 'VALIDATION_ERROR',
+        message: `Import validation failed with ${String(errors.length)} error(s)`,
+        details: { errors, errorCount: errors.length }
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Validates the prompts and categories of an import: each entry, duplicate ids and
+   * names, and that every prompt's category is part of the import
+   * Returns array of error messages (empty if valid)
+   */
+  private collectPromptAndCategoryErrors(prompts: unknown[], categories: unknown[]): string[] {
+    const errors: string[] = [];
+
     // Validate each prompt
-    (obj.prompts as unknown[]).forEach((prompt, index) => {
+    prompts.forEach((prompt, index) => {
       const promptErrors = this.validatePrompt(prompt, index);
       errors.push(...promptErrors);
     });
@@ -845,7 +2147,7 @@ export class StorageManager {
     // Check for duplicate prompt IDs
     const promptIds = new Set<string>();
     const duplicatePromptIds: string[] = [];
-    (obj.prompts as Array<{ id?: unknown }>).forEach((p, _index) => {
+    (prompts as Array<{ id?: unknown }>).forEach((p, _index) => {
       if (typeof p.id === 'string') {
         if (promptIds.has(p.id)) {
           duplicatePromptIds.push(p.id);
@@ -858,7 +2160,7 @@ export class StorageManager {
     }
 
     // Validate each category
-    (obj.categories as unknown[]).forEach((category, index) => {
+    categories.forEach((category, index) => {
       const categoryErrors = this.validateCategory(category, index);
       errors.push(...categoryErrors);
     });
@@ -866,7 +2168,7 @@ export class StorageManager {
     // Check for duplicate category names (case-insensitive)
     const categoryNames = new Map<string, string>();
     const duplicateCategoryNames: string[] = [];
-    (obj.categories as Array<{ name?: unknown }>).forEach((c, _index) => {
+    (categories as Array<{ name?: unknown }>).forEach((c, _index) => {
       if (typeof c.name === 'string') {
         const lowerName = c.name.toLowerCase();
         if (categoryNames.has(lowerName)) {
@@ -881,12 +2183,12 @@ export class StorageManager {
 
     // Validate referential integrity (prompts reference valid categories)
     const validCategoryNames = new Set(
-      (obj.categories as Array<{ name?: unknown }>)
+      (categories as Array<{ name?: unknown }>)
         .filter(c => typeof c.name === 'string')
         .map(c => c.name as string)
     );
     const invalidReferences: Array<{ promptIndex: number; category: string }> = [];
-    (obj.prompts as Array<{ category?: unknown }>).forEach((p, index) => {
+    (prompts as Array<{ category?: unknown }>).forEach((p, index) => {
       if (typeof p.category === 'string' && !validCategoryNames.has(p.category)) {
         invalidReferences.push({ promptIndex: index, category: p.category });
       }
@@ -900,20 +2202,7 @@ export class StorageManager {
       errors.push(`Referential integrity violation: ${String(invalidReferences.length)} prompt(s) reference non-existent categories (${refDetails}${moreCount})`);
     }
 
-    // Validate settings
-    const settingsErrors = this.validateSettings(obj.settings);
-    errors.push(...settingsErrors);
-
-    // If any validation errors occurred, throw with all errors
-    if (errors.length > 0) {
-      throw new StorageError({
-        type: 'VALIDATION_ERROR',
-        message: `Import validation failed with ${String(errors.length)} error(s)`,
-        details: { errors, errorCount: errors.length }
-      });
-    }
-
-    return true;
+    return errors;
   }
 
   /**
@@ -1019,6 +2308,28 @@ export class StorageManager {
       }
     }
 
+    if ('tags' in prompt) {
+      if (!Array.isArray(prompt.tags)) {
+        errors.push(`${prefix}: Field "tags" must be an array if provided`);
+      } else if (!prompt.tags.every(tag => typeof tag === 'string')) {
+        errors.push(`${prefix}: Field "tags" must only contain strings`);
+      } else if (prompt.tags.length > VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX) {
+        errors.push(`${prefix}: Field "tags" exceeds maximum of ${String(VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX)} tags (got ${String(prompt.tags.length)})`);
+      }
+    }
+
+    if ('pinned' in prompt && typeof prompt.pinned !== 'boolean') {
+      errors.push(`${prefix}: Field "pinned" must be a boolean if provided`);
+    }
+
+    if ('notes' in prompt) {
+      if (typeof prompt.notes !== 'string') {
+        errors.push(`${prefix}: Field "notes" must be a string if provided`);
+      } else if (prompt.notes.length > VALIDATION_LIMITS.PROMPT_NOTES_MAX) {
+        errors.push(`${prefix}: Field "notes" exceeds maximum length of ${String(VALIDATION_LIMITS.PROMPT_NOTES_MAX)} characters (got ${String(prompt.notes.length)})`);
+      }
+    }
+
     return errors;
   }
 
@@ -1065,6 +2376,11 @@ export class StorageManager {
       }
     }
 
+    // Optional parent reference
+    if ('parentId' in category && category.parentId !== undefined && typeof category.parentId !== 'string') {
+      errors.push(`${prefix}: Field "parentId" must be a string if provided`);
+    }
+
     return errors;
   }
 
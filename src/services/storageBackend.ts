@@ -0,0 +1,123 @@
+/**
+ * Storage backends for StorageManager
+ *
+ * Both expose the key-value shape of chrome.storage.local, so StorageManager
+ * can keep reading and writing whole records (the prompt list, the revision
+ * map) wherever they live. chrome.storage.local is limited to 5 MB; IndexedDB
+ * shares the much larger origin quota reported by navigator.storage.estimate().
+ */
+
+import { ensureStorageAvailable } from '../utils/chromeStorage';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+
+export interface StorageBackend {
+  get: (keys: string[]) => Promise<Record<string, unknown>>;
+  /** Writes all items at once: either every item is stored or none is */
+  set: (items: Record<string, unknown>) => Promise<void>;
+  remove: (keys: string[]) => Promise<void>;
+  /** Removes every key except those listed in `keep` */
+  clear: (keep?: string[]) => Promise<void>;
+  getUsage: () => Promise<{ used: number; total: number }>;
+}
+
+export class ChromeLocalStorageBackend implements StorageBackend {
+  async get(keys: string[]): Promise<Record<string, unknown>> {
+    await ensureStorageAvailable();
+    return chrome.storage.local.get(keys);
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    await ensureStorageAvailable();
+    await chrome.storage.local.set(items);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await ensureStorageAvailable();
+    await chrome.storage.local.remove(keys);
+  }
+
+  async clear(keep: string[] = []): Promise<void> {
+    await ensureStorageAvailable();
+    if (keep.length === 0) {
+      await chrome.storage.local.clear();
+      return;
+    }
+    const keys = Object.keys(await chrome.storage.local.get(null));
+    await chrome.storage.local.remove(keys.filter(key => !keep.includes(key)));
+  }
+
+  async getUsage(): Promise<{ used: number; total: number }> {
+    await ensureStorageAvailable();
+    return { used: await chrome.storage.local.getBytesInUse(), total: chrome.storage.local.QUOTA_BYTES };
+  }
+}
+
+const STORE_NAME = 'entries';
+
+export class IndexedDbStorageBackend implements StorageBackend {
+  private db: Promise<IDBDatabase> | undefined;
+
+  constructor(private readonly databaseName: string) {}
+
+  async get(keys: string[]): Promise<Record<string, unknown>> {
+    const store = (await this.getDatabase()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const values = await Promise.all(keys.map(key => requestToPromise(store.get(key) as IDBRequest<unknown>)));
+
+    const result: Record<string, unknown> = {};
+    keys.forEach((key, index) => {
+      if (values[index] !== undefined) {
+        result[key] = values[index];
+      }
+    });
+    return result;
+  }
+
+  async set(items: Record<string, unknown>): Promise<void> {
+    const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const [key, value] of Object.entries(items)) {
+      store.put(value, key);
+    }
+    await transactionDone(transaction);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const key of keys) {
+      store.delete(key);
+    }
+    await transactionDone(transaction);
+  }
+
+  async clear(keep: string[] = []): Promise<void> {
+    if (keep.length > 0) {
+      const store = (await this.getDatabase()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const keys = await requestToPromise(store.getAllKeys());
+      await this.remove(keys.map(String).filter(key => !keep.includes(key)));
+      return;
+    }
+    const transaction = (await this.getDatabase()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Usage and quota of the extension's origin (all IndexedDB databases and caches)
+   */
+  async getUsage(): Promise<{ used: number; total: number }> {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { used: usage, total: quota };
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(this.databaseName, 1, (db) => {
+        db.createObjectStore(STORE_NAME);
+      });
+      // Allow a later call to retry if opening failed
+      void this.db.catch(() => { this.db = undefined; });
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,506 @@
+import {
+  type AppError,
+  type ErrorType,
+  type Prompt,
+  type SyncConflict,
+  type SyncedPromptField,
+  type SyncSkippedPrompt,
+  type SyncStatus,
+  PROMPT_SYNC_ALARM,
+  PROMPT_SYNC_LIMITS,
+  PROMPT_SYNC_STATE_KEY
+} from '../types';
+import { AsyncMutex } from '../utils/asyncMutex';
+import * as Logger from '../utils/logger';
+import { normalizeTags } from '../utils/tags';
+
+import { StorageManager } from './storage';
+import { VaultManager } from './vault';
+
+class SyncError extends Error implements AppError {
+  public type: ErrorType;
+  public details?: unknown;
+
+  constructor(appError: AppError) {
+    super(appError.message);
+    this.name = 'SyncError';
+    this.type = appError.type;
+    this.details = appError.details;
+  }
+}
+
+const SYNCED_FIELDS: readonly SyncedPromptField[] = ['title', 'content', 'category', 'tags', 'pinned', 'notes'];
+
+type SyncValues = Required<Pick<Prompt, SyncedPromptField>>;
+type FieldClock = Record<SyncedPromptField, number>;
+type FieldHashes = Record<SyncedPromptField, string>;
+
+// Records stored in chrome.storage.sync: a prompt's synced fields with the time
+// each was last written, or a tombstone for a deleted prompt
+interface LiveRecord {
+  id: string;
+  createdAt: number;
+  values: SyncValues;
+  clock: FieldClock;
+}
+
+interface Tombstone {
+  id: string;
+  deletedAt: number;
+}
+
+type SyncRecord = LiveRecord | Tombstone;
+
+interface SyncManifest {
+  version: number;
+  chunkCount: number;
+  updatedAt: number;
+}
+
+// Kept in chrome.storage.local
+interface SyncState {
+  enabled: boolean;
+  lastSyncAt?: number;
+  lastError?: string;
+  syncedCount: number;
+  conflicts: SyncConflict[];
+  skipped: SyncSkippedPrompt[];
+  // Field clocks and hashes of every prompt as of the last sync, to tell local edits apart
+  base: Record<string, { clock: FieldClock; hashes: FieldHashes }>;
+  // Prompts deleted on this or another device, by id
+  tombstones: Record<string, number>;
+}
+
+const SYNC_FORMAT_VERSION = 1;
+const SYNC_KEY_PREFIX = 'promptSync:';
+const MANIFEST_KEY = `${SYNC_KEY_PREFIX}manifest`;
+const chunkKey = (index: number) => `${SYNC_KEY_PREFIX}${String(index)}`;
+
+// Room kept for the manifest item in the total quota
+const MANIFEST_RESERVE_BYTES = 256;
+
+const DEFAULT_STATE: SyncState = {
+  enabled: false,
+  syncedCount: 0,
+  conflicts: [],
+  skipped: [],
+  base: {},
+  tombstones: {}
+};
+
+const encoder = new TextEncoder();
+const byteLength = (text: string) => encoder.encode(text).length;
+
+// FNV-1a: compact fingerprint of a field value, only compared with itself
+function hashValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function isTombstone(record: SyncRecord): record is Tombstone {
+  return 'deletedAt' in record;
+}
+
+function toValues(prompt: Prompt): SyncValues {
+  return {
+    title: prompt.title,
+    content: prompt.content,
+    category: prompt.category,
+    tags: normalizeTags(prompt.tags ?? []),
+    pinned: prompt.pinned === true,
+    notes: prompt.notes ?? ''
+  };
+}
+
+function hashValues(values: SyncValues): FieldHashes {
+  const hashes = {} as FieldHashes;
+  for (const field of SYNCED_FIELDS) {
+    hashes[field] = hashValue(values[field]);
+  }
+  return hashes;
+}
+
+function lastWrite(record: LiveRecord): number {
+  return Math.max(...SYNCED_FIELDS.map(field => record.clock[field]));
+}
+
+function toPrompt(record: LiveRecord, local?: Prompt): Prompt {
+  const { notes, tags, pinned, ...values } = record.values;
+  const { notes: _notes, tags: _tags, pinned: _pinned, ...rest } = local ?? { usageCount: 0 };
+  return {
+    ...rest,
+    ...values,
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: lastWrite(record),
+    ...(tags.length > 0 && { tags }),
+    ...(pinned && { pinned }),
+    ...(notes && { notes })
+  };
+}
+
+/**
+ * A local prompt as a sync record. Fields unchanged since the last sync keep
+ * their clock; changed fields are stamped with the prompt's updatedAt.
+ */
+function toLocalRecord(prompt: Prompt, base: SyncState['base'][string] | undefined): LiveRecord {
+  const values = toValues(prompt);
+  const hashes = hashValues(values);
+  const clock = {} as FieldClock;
+  for (const field of SYNCED_FIELDS) {
+    clock[field] = base?.hashes[field] === hashes[field]
+      ? base.clock[field]
+      : Math.max(prompt.updatedAt, (base?.clock[field] ?? 0) + 1);
+  }
+  return { id: prompt.id, createdAt: prompt.createdAt, values, clock };
+}
+
+/**
+ * Per-field last-writer-wins merge of a prompt changed on both sides.
+ * Ties are broken by value hash, so every device picks the same winner.
+ * @returns The merged record and the fields both sides changed since the last sync
+ */
+function mergeRecords(local: LiveRecord, remote: LiveRecord, base: SyncState['base'][string] | undefined): {
+  merged: LiveRecord;
+  conflicts: SyncedPromptField[];
+} {
+  const values = { ...local.values };
+  const clock = { ...local.clock };
+  const conflicts: SyncedPromptField[] = [];
+
+  for (const field of SYNCED_FIELDS) {
+    const localHash = hashValue(local.values[field]);
+    const remoteHash = hashValue(remote.values[field]);
+    if (localHash === remoteHash) {
+      clock[field] = Math.max(local.clock[field], remote.clock[field]);
+      continue;
+    }
+
+    const baseClock = base?.clock[field];
+    if (baseClock === undefined || (local.clock[field] > baseClock && remote.clock[field] > baseClock)) {
+      conflicts.push(field);
+    }
+    if (remote.clock[field] > local.clock[field] || (remote.clock[field] === local.clock[field] && remoteHash > localHash)) {
+      (values as Record<SyncedPromptField, unknown>)[field] = remote.values[field];
+      clock[field] = remote.clock[field];
+    }
+  }
+
+  return { merged: { ...local, createdAt: Math.min(local.createdAt, remote.createdAt), values, clock }, conflicts };
+}
+
+/**
+ * SyncEngine - Singleton syncing prompts across devices through chrome.storage.sync (opt-in)
+ *
+ * Prompts are stored as sync records sharded over numbered items, each within
+ * QUOTA_BYTES_PER_ITEM, and all within QUOTA_BYTES; what doesn't fit is reported
+ * as skipped. Concurrent edits are merged field by field (last writer wins) and
+ * deletes travel as tombstones. Usage counts and categories stay per device;
+ * missing categories are created from the synced prompts.
+ */
+export class SyncEngine {
+  private static instance: SyncEngine | undefined;
+
+  private readonly mutex = new AsyncMutex();
+
+  private constructor() {}
+
+  static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine();
+    }
+    return SyncEngine.instance;
+  }
+
+  async getStatus(): Promise<SyncStatus> {
+    const { enabled, lastSyncAt, lastError, syncedCount, conflicts, skipped } = await this.getState();
+    return { enabled, lastSyncAt, lastError, syncedCount, conflicts, skipped };
+  }
+
+  /**
+   * Turn sync on (syncing right away and then periodically) or off.
+   * Turning it off leaves the data in chrome.storage.sync for other devices.
+   */
+  async setEnabled(enabled: boolean): Promise<SyncStatus> {
+    await this.mutex.withLock(async () => {
+      await this.saveState({ ...(await this.getState()), enabled });
+    });
+
+    if (!enabled) {
+      await chrome.alarms.clear(PROMPT_SYNC_ALARM);
+      return this.getStatus();
+    }
+
+    await chrome.alarms.create(PROMPT_SYNC_ALARM, { periodInMinutes: PROMPT_SYNC_LIMITS.INTERVAL_MINUTES });
+    return this.sync();
+  }
+
+  /**
+   * Sync shortly, e.g. after a local change; later calls push the sync back
+   */
+  async scheduleSync(): Promise<void> {
+    if (!(await this.getState()).enabled) {
+      return;
+    }
+    await chrome.alarms.create(PROMPT_SYNC_ALARM, {
+      delayInMinutes: PROMPT_SYNC_LIMITS.DEBOUNCE_MINUTES,
+      periodInMinutes: PROMPT_SYNC_LIMITS.INTERVAL_MINUTES
+    });
+  }
+
+  /**
+   * Merge the local library with chrome.storage.sync and write the result to both
+   * (nothing is written where nothing changed). Does nothing while sync is off
+   * or the library is encrypted.
+   * @throws SyncError if either storage cannot be read or written; the message is kept in the status
+   */
+  sync(): Promise<SyncStatus> {
+    return this.mutex.withLock(async () => {
+      const state = await this.getState();
+      if (!state.enabled) {
+        return this.getStatus();
+      }
+      // Synced records are readable by every device on the account, so
+      // encrypted content is never copied there
+      if (await VaultManager.getInstance().isEnabled()) {
+        await this.saveState({ ...state, lastError: 'Sync is paused while the prompt library is encrypted' });
+        return this.getStatus();
+      }
+
+      try {
+        await this.runSync(state);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.saveState({ ...state, lastError: message });
+        Logger.error('SyncEngine: Sync failed', error instanceof Error ? error : new Error(message), { component: 'SyncEngine' });
+        throw error instanceof SyncError ? error : new SyncError({
+          type: 'STORAGE_UNAVAILABLE',
+          message: `Sync failed: ${message}`,
+          details: error
+        });
+      }
+      return this.getStatus();
+    });
+  }
+
+  /**
+   * Delete every synced prompt from chrome.storage.sync, e.g. once the library is
+   * encrypted. Other devices keep their own copies, and upload them again while
+   * sync stays on there.
+   */
+  removeSyncedPrompts(): Promise<void> {
+    return this.mutex.withLock(async () => {
+      const keys = Object.keys(await chrome.storage.sync.get(null)).filter(key => key.startsWith(SYNC_KEY_PREFIX));
+      if (keys.length > 0) {
+        await chrome.storage.sync.remove(keys);
+      }
+      await this.saveState({ ...(await this.getState()), syncedCount: 0 });
+      Logger.info('SyncEngine: Removed synced prompts', { component: 'SyncEngine', items: keys.length });
+    });
+  }
+
+  private async runSync(state: SyncState): Promise<void> {
+    const now = Date.now();
+    const storageManager = StorageManager.getInstance();
+    const [localPrompts, remote] = await Promise.all([storageManager.getPrompts(), this.readRemote()]);
+
+    const local = new Map(localPrompts.map(prompt => [prompt.id, prompt]));
+    const localTombstones = { ...state.tombstones };
+    // Prompts synced before but gone now were deleted on this device
+    for (const id of Object.keys(state.base)) {
+      if (!local.has(id) && localTombstones[id] === undefined) {
+        localTombstones[id] = now;
+      }
+    }
+
+    const remoteRecords = new Map(remote.records.map(record => [record.id, record]));
+    const ids = new Set([...local.keys(), ...Object.keys(localTombstones), ...remoteRecords.keys()]);
+    const merged: SyncRecord[] = [];
+    const conflicts: SyncConflict[] = [];
+
+    for (const id of ids) {
+      const localPrompt = local.get(id);
+      const remoteRecord = remoteRecords.get(id);
+      const base = state.base[id];
+      let live = localPrompt ? toLocalRecord(localPrompt, base) : undefined;
+      let deletedAt = localTombstones[id];
+
+      if (remoteRecord && isTombstone(remoteRecord)) {
+        deletedAt = Math.max(deletedAt ?? 0, remoteRecord.deletedAt);
+      } else if (remoteRecord) {
+        if (live) {
+          const result = mergeRecords(live, remoteRecord, base);
+          live = result.merged;
+          if (result.conflicts.length > 0) {
+            conflicts.push({ promptId: id, title: live.values.title, fields: result.conflicts, resolvedAt: now });
+          }
+        } else {
+          live = remoteRecord;
+        }
+      }
+
+      // An edit after the delete brings the prompt back
+      if (live && (deletedAt === undefined || lastWrite(live) > deletedAt)) {
+        merged.push(live);
+      } else if (deletedAt !== undefined && deletedAt > now - PROMPT_SYNC_LIMITS.TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+        merged.push({ id, deletedAt });
+      }
+    }
+
+    // Apply to the local library
+    const upserted: Prompt[] = [];
+    const deletedIds: string[] = [];
+    for (const record of merged) {
+      const localPrompt = local.get(record.id);
+      if (isTombstone(record)) {
+        if (localPrompt) {deletedIds.push(record.id);}
+      } else if (!localPrompt || hashValue(toValues(localPrompt)) !== hashValue(record.values)) {
+        upserted.push(toPrompt(record, localPrompt));
+      }
+    }
+    if (upserted.length > 0 || deletedIds.length > 0) {
+      await storageManager.applySyncedPrompts(upserted, deletedIds);
+    }
+
+    // Write chrome.storage.sync
+    const { chunks, skipped } = this.packRecords(merged, local);
+    if (JSON.stringify(chunks) !== JSON.stringify(remote.chunks)) {
+      await this.writeRemote(chunks, remote.chunks.length, now);
+    }
+
+    const nextState: SyncState = {
+      ...state,
+      lastSyncAt: now,
+      lastError: undefined,
+      syncedCount: chunks.flat().filter(record => !isTombstone(record)).length,
+      conflicts: [...conflicts, ...state.conflicts].slice(0, PROMPT_SYNC_LIMITS.MAX_CONFLICTS),
+      skipped,
+      base: {},
+      tombstones: {}
+    };
+    for (const record of merged) {
+      if (isTombstone(record)) {
+        nextState.tombstones[record.id] = record.deletedAt;
+      } else {
+        nextState.base[record.id] = { clock: record.clock, hashes: hashValues(record.values) };
+      }
+    }
+    await this.saveState(nextState);
+
+    Logger.info('SyncEngine: Synced prompts', {
+      component: 'SyncEngine',
+      received: upserted.length,
+      deleted: deletedIds.length,
+      conflicts: conflicts.length,
+      skipped: skipped.length
+    });
+  }
+
+  /**
+   * Shard records over sync items. Tombstones go first, then prompts by last edit,
+   * so when the quota runs out the oldest prompts are the ones left out.
+   */
+  private packRecords(records: SyncRecord[], local: Map<string, Prompt>): {
+    chunks: SyncRecord[][];
+    skipped: SyncSkippedPrompt[];
+  } {
+    const { QUOTA_BYTES, QUOTA_BYTES_PER_ITEM, MAX_ITEMS } = chrome.storage.sync;
+    const ordered = [...records].sort((a, b) => {
+      if (isTombstone(a) || isTombstone(b)) {
+        return Number(isTombstone(b)) - Number(isTombstone(a));
+      }
+      return lastWrite(b) - lastWrite(a);
+    });
+
+    const chunks: SyncRecord[][] = [];
+    const skipped: SyncSkippedPrompt[] = [];
+    // Size of an item is its key plus its JSON value: '[' + records joined by ',' + ']'
+    const emptyChunkSize = (index: number) => chunkKey(index).length + 2;
+    let used = MANIFEST_RESERVE_BYTES;
+    let chunkSize = 0;
+
+    for (const record of ordered) {
+      const recordSize = byteLength(JSON.stringify(record));
+      const skip = (reason: SyncSkippedPrompt['reason']) => {
+        if (!isTombstone(record)) {
+          skipped.push({ promptId: record.id, title: local.get(record.id)?.title ?? record.values.title, reason });
+        }
+      };
+
+      if (emptyChunkSize(chunks.length) + recordSize > QUOTA_BYTES_PER_ITEM) {
+        skip('too-large');
+        continue;
+      }
+
+      const current = chunks.length > 0 ? chunks[chunks.length - 1] : undefined;
+      if (current && chunkSize + 1 + recordSize <= QUOTA_BYTES_PER_ITEM) {
+        if (used + 1 + recordSize > QUOTA_BYTES) {
+          skip('quota');
+          continue;
+        }
+        current.push(record);
+        chunkSize += 1 + recordSize;
+        used += 1 + recordSize;
+        continue;
+      }
+
+      const newChunkSize = emptyChunkSize(chunks.length) + recordSize;
+      // One item is the manifest
+      if (chunks.length + 1 >= MAX_ITEMS || used + newChunkSize > QUOTA_BYTES) {
+        skip('quota');
+        continue;
+      }
+      chunks.push([record]);
+      chunkSize = newChunkSize;
+      used += newChunkSize;
+    }
+
+    return { chunks, skipped };
+  }
+
+  private async readRemote(): Promise<{ records: SyncRecord[]; chunks: SyncRecord[][] }> {
+    const { [MANIFEST_KEY]: manifest } = await chrome.storage.sync.get([MANIFEST_KEY]) as { [MANIFEST_KEY]?: SyncManifest };
+    if (!manifest) {
+      return { records: [], chunks: [] };
+    }
+    if (manifest.version > SYNC_FORMAT_VERSION) {
+      throw new SyncError({
+        type: 'VALIDATION_ERROR',
+        message: 'Synced prompts were saved by a newer version of the extension. Update the extension on this device.'
+      });
+    }
+
+    const keys = Array.from({ length: manifest.chunkCount }, (_, index) => chunkKey(index));
+    const items = await chrome.storage.sync.get(keys);
+    const chunks = keys.map(key => (Array.isArray(items[key]) ? items[key] : []) as SyncRecord[]);
+    return { records: chunks.flat(), chunks };
+  }
+
+  private async writeRemote(chunks: SyncRecord[][], previousChunkCount: number, now: number): Promise<void> {
+    const manifest: SyncManifest = { version: SYNC_FORMAT_VERSION, chunkCount: chunks.length, updatedAt: now };
+    const items: Record<string, unknown> = { [MANIFEST_KEY]: manifest };
+    chunks.forEach((chunk, index) => {
+      items[chunkKey(index)] = chunk;
+    });
+
+    await chrome.storage.sync.set(items);
+    if (previousChunkCount > chunks.length) {
+      const stale = Array.from({ length: previousChunkCount - chunks.length }, (_, offset) => chunkKey(chunks.length + offset));
+      await chrome.storage.sync.remove(stale);
+    }
+  }
+
+  private async getState(): Promise<SyncState> {
+    const result = await chrome.storage.local.get([PROMPT_SYNC_STATE_KEY]);
+    return { ...DEFAULT_STATE, ...(result[PROMPT_SYNC_STATE_KEY] as Partial<SyncState> | undefined) };
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    await chrome.storage.local.set({ [PROMPT_SYNC_STATE_KEY]: state });
+  }
+}
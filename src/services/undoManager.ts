@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  type UndoEntry,
+  type UndoSnapshot,
+  UNDO_LIMITS,
+  UNDO_STORAGE_KEY
+} from '../types';
+import { AsyncMutex } from '../utils/asyncMutex';
+import * as Logger from '../utils/logger';
+
+import { StorageManager } from './storage';
+
+/**
+ * UndoManager - Singleton keeping a short stack of undoable destructive actions
+ *
+ * The stack lives in memory and is mirrored to chrome.storage.session, so an
+ * action can still be undone after the popup or side panel is closed and
+ * reopened (until the browser session ends or the entry expires).
+ */
+export class UndoManager {
+  private static instance: UndoManager | undefined;
+
+  private readonly mutex = new AsyncMutex();
+
+  // In-memory copy of the stack; session storage is the source of truth while it is in sync
+  private entries: UndoEntry[] = [];
+  private persisted = true;
+
+  private constructor() {}
+
+  static getInstance(): UndoManager {
+    if (!UndoManager.instance) {
+      UndoManager.instance = new UndoManager();
+    }
+    return UndoManager.instance;
+  }
+
+  /**
+   * Add an action to the stack; the oldest entries are dropped beyond MAX_ENTRIES
+   * @param message - Description shown with the undo action, e.g. "Prompt deleted"
+   * @param snapshot - State captured before the action ran
+   */
+  push(message: string, snapshot: UndoSnapshot): Promise<UndoEntry> {
+    return this.mutex.withLock(async () => {
+      const entry: UndoEntry = { id: uuidv4(), message, createdAt: Date.now(), snapshot };
+      const entries = [...await this.loadEntries(), entry].slice(-UNDO_LIMITS.MAX_ENTRIES);
+      await this.saveEntries(entries);
+      return entry;
+    });
+  }
+
+  /**
+   * Get the most recent action that can still be undone
+   */
+  getLatest(): Promise<UndoEntry | null> {
+    return this.mutex.withLock(async () => {
+      const entries = await this.loadEntries();
+      return entries.length > 0 ? entries[entries.length - 1] : null;
+    });
+  }
+
+  /**
+   * Restore the state captured for an entry and remove it from the stack
+   * @throws Error if the entry is unknown or has expired
+   */
+  undo(id: string): Promise<UndoEntry> {
+    return this.mutex.withLock(async () => {
+      const entries = await this.loadEntries();
+      const entry = entries.find(e => e.id === id);
+      if (!entry) {
+        throw new Error('This action can no longer be undone');
+      }
+
+      await StorageManager.getInstance().restoreUndoSnapshot(entry.snapshot);
+      await this.saveEntries(entries.filter(e => e.id !== id));
+
+      Logger.info('UndoManager: Action undone', {
+        component: 'UndoManager',
+        message: entry.message
+      });
+      return entry;
+    });
+  }
+
+  private async loadEntries(): Promise<UndoEntry[]> {
+    const session = this.getSessionStorage();
+    if (session && this.persisted) {
+      try {
+        const result = await session.get(UNDO_STORAGE_KEY);
+        const stored = result[UNDO_STORAGE_KEY];
+        this.entries = Array.isArray(stored) ? (stored as UndoEntry[]) : [];
+      } catch (error) {
+        Logger.warn('UndoManager: Failed to load undo stack from session storage', {
+          component: 'UndoManager',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const cutoff = Date.now() - UNDO_LIMITS.MAX_AGE_MS;
+    this.entries = this.entries.filter(entry => entry.createdAt >= cutoff);
+    return this.entries;
+  }
+
+  /**
+   * Keep entries in memory and mirror them to session storage. Persisting is
+   * best-effort: a large snapshot (e.g. from an import) may not fit the session
+   * quota, in which case the in-memory stack is used until the view is closed.
+   */
+  private async saveEntries(entries: UndoEntry[]): Promise<void> {
+    this.entries = entries;
+    const session = this.getSessionStorage();
+    if (!session) {
+      return;
+    }
+
+    try {
+      await session.set({ [UNDO_STORAGE_KEY]: entries });
+      this.persisted = true;
+    } catch (error) {
+      this.persisted = false;
+      Logger.warn('UndoManager: Failed to persist undo stack to session storage', {
+        component: 'UndoManager',
+        entryCount: entries.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // chrome.storage.session is missing outside extension pages and in older browsers
+  private getSessionStorage(): chrome.storage.StorageArea | undefined {
+    return typeof chrome !== 'undefined' ? (chrome.storage as Partial<typeof chrome.storage> | undefined)?.session : undefined;
+  }
+}
@@ -0,0 +1,237 @@
+import {
+  type AppError,
+  type ErrorType,
+  type VaultStatus,
+  PROMPT_VAULT_LIMITS,
+  PROMPT_VAULT_SESSION_KEY,
+  PROMPT_VAULT_STORAGE_KEY
+} from '../types';
+import * as Logger from '../utils/logger';
+
+class VaultError extends Error implements AppError {
+  public type: ErrorType;
+  public details?: unknown;
+
+  constructor(appError: AppError) {
+    super(appError.message);
+    this.name = 'VaultError';
+    this.type = appError.type;
+    this.details = appError.details;
+  }
+}
+
+// Kept in chrome.storage.local; `check` is CHECK_TEXT encrypted with the key,
+// so a passphrase can be verified without storing anything derived from it
+interface VaultConfig {
+  version: number;
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+const VAULT_FORMAT_VERSION = 1;
+const ENCRYPTED_PREFIX = 'vault:v1:';
+const CHECK_TEXT = 'prompt-library-vault';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  // Extractable so the raw key can be kept in chrome.storage.session
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Whether a string was produced by encryptText
+ */
+export function isEncryptedText(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypt text with AES-GCM under a fresh IV ("vault:v1:<iv>:<ciphertext>", base64)
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt text from encryptText; text that isn't encrypted is returned as is
+ * @throws DOMException (OperationError) if the key does not match
+ */
+export async function decryptText(key: CryptoKey, value: string): Promise<string> {
+  if (!isEncryptedText(value)) {
+    return value;
+  }
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Encrypt bytes with AES-GCM; the IV is prepended to the ciphertext
+ */
+export async function encryptBytes(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes));
+  const result = new Uint8Array(IV_BYTES + ciphertext.length);
+  result.set(iv);
+  result.set(ciphertext, IV_BYTES);
+  return result;
+}
+
+export async function decryptBytes(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) }, key, bytes.slice(IV_BYTES));
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * VaultManager - Singleton holding the passphrase key of the encrypted library (opt-in)
+ *
+ * The AES-GCM key is derived from the passphrase with PBKDF2. Only the salt and
+ * an encrypted check value are persisted; the unlocked key lives in
+ * chrome.storage.session, which the extension's pages and background worker
+ * share and content scripts cannot read, and which is cleared when the
+ * browser closes. StorageManager uses the key to encrypt prompt content.
+ */
+export class VaultManager {
+  private static instance: VaultManager | undefined;
+
+  // Imported key of the raw key last read from session storage
+  private cachedKey: { raw: string; key: CryptoKey } | undefined;
+
+  private constructor() {}
+
+  static getInstance(): VaultManager {
+    if (!VaultManager.instance) {
+      VaultManager.instance = new VaultManager();
+    }
+    return VaultManager.instance;
+  }
+
+  async getStatus(): Promise<VaultStatus> {
+    const [config, raw] = await Promise.all([this.getConfig(), this.getSessionKey()]);
+    return { enabled: config !== null, unlocked: config !== null && raw !== null };
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return (await this.getConfig()) !== null;
+  }
+
+  /**
+   * Key of the unlocked vault
+   * @throws VaultError (VAULT_LOCKED) until unlock() is called in this browser session
+   */
+  async getKey(): Promise<CryptoKey> {
+    const raw = await this.getSessionKey();
+    if (raw === null) {
+      throw new VaultError({
+        type: 'VAULT_LOCKED',
+        message: 'The prompt library is locked. Enter your passphrase to unlock it.'
+      });
+    }
+    if (this.cachedKey?.raw !== raw) {
+      const key = await crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt']);
+      this.cachedKey = { raw, key };
+    }
+    return this.cachedKey.key;
+  }
+
+  /**
+   * Set up the vault with a new passphrase and unlock it.
+   * Existing content is not encrypted here; see StorageManager.enableEncryption.
+   * @throws VaultError if the passphrase is too short or a vault already exists
+   */
+  async create(passphrase: string): Promise<void> {
+    if (passphrase.length < PROMPT_VAULT_LIMITS.MIN_PASSPHRASE_LENGTH) {
+      throw new VaultError({
+        type: 'VALIDATION_ERROR',
+        message: `Passphrase must be at least ${String(PROMPT_VAULT_LIMITS.MIN_PASSPHRASE_LENGTH)} characters`
+      });
+    }
+    if (await this.isEnabled()) {
+      throw new VaultError({ type: 'VALIDATION_ERROR', message: 'The prompt library is already encrypted' });
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(passphrase, salt, PROMPT_VAULT_LIMITS.PBKDF2_ITERATIONS);
+    const config: VaultConfig = {
+      version: VAULT_FORMAT_VERSION,
+      salt: toBase64(salt),
+      iterations: PROMPT_VAULT_LIMITS.PBKDF2_ITERATIONS,
+      check: await encryptText(key, CHECK_TEXT)
+    };
+
+    await this.saveSessionKey(key);
+    await chrome.storage.local.set({ [PROMPT_VAULT_STORAGE_KEY]: config });
+    Logger.info('VaultManager: Vault created', { component: 'VaultManager' });
+  }
+
+  /**
+   * Derive the key from the passphrase and keep it for this browser session
+   * @throws VaultError if there is no vault or the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const config = await this.getConfig();
+    if (!config) {
+      throw new VaultError({ type: 'VALIDATION_ERROR', message: 'The prompt library is not encrypted' });
+    }
+
+    const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+      await decryptText(key, config.check);
+    } catch (error) {
+      throw new VaultError({ type: 'VALIDATION_ERROR', message: 'Wrong passphrase', details: error });
+    }
+    await this.saveSessionKey(key);
+  }
+
+  /**
+   * Forget the key; prompts can't be read or saved until the vault is unlocked again
+   */
+  async lock(): Promise<void> {
+    this.cachedKey = undefined;
+    await chrome.storage.session.remove(PROMPT_VAULT_SESSION_KEY);
+  }
+
+  /**
+   * Delete the vault settings and key, once the content is stored unencrypted again
+   */
+  async remove(): Promise<void> {
+    await chrome.storage.local.remove(PROMPT_VAULT_STORAGE_KEY);
+    await this.lock();
+    Logger.info('VaultManager: Vault removed', { component: 'VaultManager' });
+  }
+
+  private async getConfig(): Promise<VaultConfig | null> {
+    const result = await chrome.storage.local.get(PROMPT_VAULT_STORAGE_KEY);
+    return (result[PROMPT_VAULT_STORAGE_KEY] as VaultConfig | undefined) ?? null;
+  }
+
+  private async getSessionKey(): Promise<string | null> {
+    const result = await chrome.storage.session.get(PROMPT_VAULT_SESSION_KEY);
+    return (result[PROMPT_VAULT_SESSION_KEY] as string | undefined) ?? null;
+  }
+
+  private async saveSessionKey(key: CryptoKey): Promise<void> {
+    const raw = toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+    this.cachedKey = { raw, key };
+    await chrome.storage.session.set({ [PROMPT_VAULT_SESSION_KEY]: raw });
+  }
+}
@@ -32,4 +32,5 @@ export function testEncoderRoundtrip(prompt: Prompt): void {
   expect(decoded.title).toBe(prompt.title);
   expect(decoded.content).toBe(prompt.content);
   expect(decoded.category).toBe(prompt.category);
+  expect(decoded.tags ?? []).toEqual(prompt.tags ?? []);
 }
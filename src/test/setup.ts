@@ -1,4 +1,6 @@
 import '@testing-library/jest-dom';
+// happy-dom has no IndexedDB (used for backup snapshots)
+import 'fake-indexeddb/auto';
 import { beforeEach, vi } from 'vitest';
 
 const globalForSetup = globalThis as { chrome?: unknown };
@@ -77,6 +79,10 @@ const storageChangeListeners: StorageChangeListener[] = [];
  * - Full compatibility with existing test infrastructure
  */
 class TestStorage extends InMemoryStorage {
+  constructor(private readonly areaName: 'local' | 'session' | 'sync' = 'local') {
+    super();
+  }
+
   private cloneDeep<T>(value: T): T {
     if (value === undefined || value === null) {
       return value;
@@ -124,7 +130,7 @@ class TestStorage extends InMemoryStorage {
     // Trigger change listeners
     if (Object.keys(changes).length > 0) {
       storageChangeListeners.forEach((listener) => {
-        listener(changes, 'local');
+        listener(changes, this.areaName);
       });
     }
   }
@@ -148,7 +154,7 @@ class TestStorage extends InMemoryStorage {
 
     // Trigger change listeners
     storageChangeListeners.forEach((listener) => {
-      listener(changes, 'local');
+      listener(changes, this.areaName);
     });
   }
 
@@ -169,13 +175,15 @@ class TestStorage extends InMemoryStorage {
     // Trigger change listeners if any keys were removed
     if (Object.keys(changes).length > 0) {
       storageChangeListeners.forEach((listener) => {
-        listener(changes, 'local');
+        listener(changes, this.areaName);
       });
     }
   }
 }
 
 let testStorage: TestStorage = new TestStorage();
+let testSessionStorage: TestStorage = new TestStorage('session');
+let testSyncStorage: TestStorage = new TestStorage('sync');
 
 // Create vi.fn() wrappers around TestStorage methods for test spying/mocking
 const storageLocalGet = vi.fn((keys?: string | string[] | Record<string, unknown> | null) =>
@@ -193,6 +201,24 @@ const storageLocalGetBytesInUse = vi.fn((keys?: string | string[] | null) =>
 const storageLocalRemove = vi.fn((keys: string | string[]) =>
   testStorage.remove(keys)
 );
+const storageSessionGet = vi.fn((keys?: string | string[] | Record<string, unknown> | null) =>
+  testSessionStorage.get(keys ?? null)
+);
+const storageSessionSet = vi.fn((items: Record<string, unknown>) =>
+  testSessionStorage.set(items)
+);
+const storageSessionRemove = vi.fn((keys: string | string[]) =>
+  testSessionStorage.remove(keys)
+);
+const storageSyncGet = vi.fn((keys?: string | string[] | Record<string, unknown> | null) =>
+  testSyncStorage.get(keys ?? null)
+);
+const storageSyncSet = vi.fn((items: Record<string, unknown>) =>
+  testSyncStorage.set(items)
+);
+const storageSyncRemove = vi.fn((keys: string | string[]) =>
+  testSyncStorage.remove(keys)
+);
 
 const baseStorageManager = originalStorageGetInstance();
 const basePromptManager = originalPromptGetInstance();
@@ -277,6 +303,20 @@ const mockChrome = {
       remove: storageLocalRemove,
       QUOTA_BYTES: 5242880
     },
+    session: {
+      get: storageSessionGet,
+      set: storageSessionSet,
+      remove: storageSessionRemove,
+      QUOTA_BYTES: 10485760
+    },
+    sync: {
+      get: storageSyncGet,
+      set: storageSyncSet,
+      remove: storageSyncRemove,
+      QUOTA_BYTES: 102400,
+      QUOTA_BYTES_PER_ITEM: 8192,
+      MAX_ITEMS: 512
+    },
     onChanged: {
       addListener: vi.fn((listener: StorageChangeListener) => {
         storageChangeListeners.push(listener);
@@ -337,6 +377,26 @@ const mockChrome = {
   scripting: {
     executeScript: vi.fn().mockResolvedValue([{ result: true }])
   },
+  commands: {
+    onCommand: {
+      addListener: vi.fn()
+    }
+  },
+  alarms: {
+    get: vi.fn().mockResolvedValue(undefined),
+    create: vi.fn().mockResolvedValue(undefined),
+    clear: vi.fn().mockResolvedValue(true),
+    onAlarm: {
+      addListener: vi.fn()
+    }
+  },
+  contextMenus: {
+    create: vi.fn(),
+    removeAll: vi.fn().mockResolvedValue(undefined),
+    onClicked: {
+      addListener: vi.fn()
+    }
+  },
   action: {
     onClicked: {
       addListener: vi.fn()
@@ -506,6 +566,28 @@ const resetChromeMocks = (): void => {
     testStorage.remove(keys)
   );
 
+  testSessionStorage = new TestStorage('session');
+  storageSessionGet.mockReset().mockImplementation((keys?: string | string[] | Record<string, unknown> | null) =>
+    testSessionStorage.get(keys ?? null)
+  );
+  storageSessionSet.mockReset().mockImplementation((items: Record<string, unknown>) =>
+    testSessionStorage.set(items)
+  );
+  storageSessionRemove.mockReset().mockImplementation((keys: string | string[]) =>
+    testSessionStorage.remove(keys)
+  );
+
+  testSyncStorage = new TestStorage('sync');
+  storageSyncGet.mockReset().mockImplementation((keys?: string | string[] | Record<string, unknown> | null) =>
+    testSyncStorage.get(keys ?? null)
+  );
+  storageSyncSet.mockReset().mockImplementation((items: Record<string, unknown>) =>
+    testSyncStorage.set(items)
+  );
+  storageSyncRemove.mockReset().mockImplementation((keys: string | string[]) =>
+    testSyncStorage.remove(keys)
+  );
+
   mockChrome.runtime.lastError = null;
   (mockChrome.runtime.sendMessage as any).mockResolvedValue(undefined);
   (mockChrome.runtime.getManifest as any).mockReturnValue({ content_scripts: [{ js: ['content.js'] }] });
@@ -41,9 +41,10 @@ describe('Type Definitions', () => {
         'DATA_CORRUPTION',
         'VALIDATION_ERROR',
         'PERMISSION_DENIED',
-        'EXTENSION_CONTEXT_LOST'
+        'EXTENSION_CONTEXT_LOST',
+        'VAULT_LOCKED'
       ];
-      expect(errorTypes).toHaveLength(6);
+      expect(errorTypes).toHaveLength(7);
       errorTypes.forEach(errorType => {
         expect(typeof errorType).toBe('string');
       });
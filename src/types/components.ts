@@ -1,6 +1,6 @@
 import type { UseSearchWithDebounceReturn } from './hooks';
 
-import type { Prompt, Category, SortOrder, SortDirection } from './index';
+import type { Prompt, PromptFormData, Category, SortOrder, SortDirection } from './index';
 
 // Shared toast type for consistent usage across components
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
@@ -12,8 +12,12 @@ export interface PromptCardProps {
   onEdit: (prompt: Prompt) => void;
   onDelete: (id: string) => void;
   onCopy: (content: string) => void;
+  onTogglePin?: (prompt: Prompt) => void;
   showToast: (message: string, type: ToastType) => void;
   isSelected?: boolean;
+  // Bulk selection mode: when set, a checkbox replaces the action buttons.
+  // extendRange is true for shift-clicks, which select everything since the last clicked card
+  onToggleSelect?: (prompt: Prompt, extendRange: boolean) => void;
   searchQuery?: string;
 }
 
@@ -26,14 +30,14 @@ export interface SearchBarProps {
 
 export interface AddPromptFormProps {
   categories: Category[];
-  onSubmit: (data: { title: string; content: string; category: string }) => Promise<void> | void;
+  onSubmit: (data: PromptFormData) => Promise<void> | void;
   onCancel: () => void;
 }
 
 export interface EditPromptFormProps {
   prompt: Prompt;
   categories: Category[];
-  onSubmit: (data: { title: string; content: string; category: string }) => Promise<void> | void;
+  onSubmit: (data: PromptFormData) => Promise<void> | void;
   onCancel: () => void;
 }
 
@@ -46,9 +50,15 @@ export interface LibraryViewProps {
   onEditPrompt: (prompt: Prompt) => void;
   onDeletePrompt: (id: string) => void;
   onCopyPrompt: (content: string) => void;
+  onTogglePin?: (prompt: Prompt) => void;
+  // Batch operations; selection mode is only offered when these are provided
+  onBulkMove?: (ids: string[], category: string) => Promise<void>;
+  onBulkEditTags?: (ids: string[], changes: { add?: string[]; remove?: string[] }) => Promise<void>;
+  onBulkDelete?: (ids: string[]) => Promise<void>;
   showToast: (message: string, type: ToastType) => void;
   onCategoryChange: (category: string | null) => void;
   onManageCategories: () => void;
+  onManageChains?: () => void;
   onSettings: () => void;
   onAnalytics: () => void;
   loading?: boolean;
@@ -87,5 +97,9 @@ export interface FilterSortControlsProps {
   onCategoryChange: (category: string | null) => void;
   onSortChange: (order: SortOrder, direction: SortDirection) => void;
   onManageCategories: () => void;
+  // Tag filter (multi-select); hidden when no prompt has tags
+  availableTags?: string[];
+  selectedTags?: string[];
+  onTagsChange?: (tags: string[]) => void;
   loading?: boolean;
 }
@@ -1,4 +1,4 @@
-import type { Prompt, Category, Settings, AppError, ViewType } from './index';
+import type { Prompt, Category, CategoryDeleteStrategy, Settings, AppError, ViewType } from './index';
 
 // App Context types
 export interface AppContextType {
@@ -28,12 +28,13 @@ export interface AppContextType {
   // Category operations
   createCategory: (category: Omit<Category, 'id'>) => Promise<void>;
   updateCategory: (id: string, updates: Partial<Category>) => Promise<void>;
-  deleteCategory: (id: string) => Promise<void>;
+  deleteCategory: (id: string, strategy?: CategoryDeleteStrategy) => Promise<void>;
+  moveCategory: (id: string, parentId: string | null, beforeId?: string) => Promise<void>;
   
   // Utility operations
   copyToClipboard: (text: string) => Promise<boolean>;
   searchPrompts: (query: string) => Prompt[];
-  filterByCategory: (category: string | null) => Prompt[];
+  filterByCategory: (category: string | null, categories?: Category[]) => Prompt[];
 }
 
 // Theme Context types (for future extension)
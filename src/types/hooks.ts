@@ -1,6 +1,6 @@
 import type { ToastType } from './components';
 
-import type { Prompt, Category, AppError, UsageEvent } from './index';
+import type { Prompt, Category, CategoryDeleteStrategy, AppError, UsageEvent, UndoScope } from './index';
 
 /**
  * Type guard function that validates an unknown value is of type T.
@@ -30,8 +30,12 @@ export interface UsePromptsReturn {
   createPrompt: (prompt: Omit<Prompt, 'id' | 'createdAt' | 'updatedAt' | 'usageCount' | 'lastUsedAt'>) => Promise<void>;
   updatePrompt: (id: string, updates: Partial<Prompt>) => Promise<void>;
   deletePrompt: (id: string) => Promise<void>;
+  setPromptPinned: (id: string, pinned: boolean) => Promise<void>;
+  movePrompts: (ids: string[], category: string) => Promise<void>;
+  updatePromptsTags: (ids: string[], changes: { add?: string[]; remove?: string[] }) => Promise<void>;
+  deletePrompts: (ids: string[]) => Promise<void>;
   searchPrompts: (query: string) => Prompt[];
-  filterByCategory: (category: string | null) => Prompt[];
+  filterByCategory: (category: string | null, categories?: Category[]) => Prompt[];
   refreshPrompts: () => Promise<void>;
 }
 
@@ -41,7 +45,8 @@ export interface UseCategoriesReturn {
   error: AppError | null;
   createCategory: (category: Omit<Category, 'id'>) => Promise<void>;
   updateCategory: (id: string, updates: Partial<Category>) => Promise<void>;
-  deleteCategory: (id: string) => Promise<void>;
+  deleteCategory: (id: string, strategy?: CategoryDeleteStrategy) => Promise<void>;
+  moveCategory: (id: string, parentId: string | null, beforeId?: string) => Promise<void>;
   refreshCategories: () => Promise<void>;
 }
 
@@ -145,6 +150,22 @@ export interface UseToastReturn {
   updateSettings: (settings: Partial<ToastSettings>) => void;
 }
 
+// Undo hook types
+export interface UseUndoOptions {
+  showToast: UseToastReturn['showToast'];
+  /** Reload whatever the view shows after an action was undone */
+  onRestored: () => Promise<void>;
+}
+
+export interface UseUndoReturn {
+  /**
+   * Run a destructive action, then show `message` in a toast with an "Undo" button.
+   * Errors from the action are re-thrown and nothing is recorded.
+   */
+  withUndo: (scope: UndoScope, message: string, action: () => Promise<void>) => Promise<void>;
+  undo: (id: string) => Promise<void>;
+}
+
 // Usage Analytics types
 export interface DailyUsage {
   date: string;  // YYYY-MM-DD format
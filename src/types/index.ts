@@ -7,6 +7,94 @@ export interface Prompt {
   updatedAt: number; // timestamp
   usageCount?: number; // number of times the prompt has been used
   lastUsedAt?: number; // timestamp of the last usage (defaults to createdAt)
+  tags?: string[]; // lowercase labels, independent of category (absent in older data)
+  pinned?: boolean; // listed before unpinned prompts regardless of sort order
+  notes?: string; // free text kept alongside the prompt, e.g. fields an importer could not map
+}
+
+// Template variable types (placeholders like {{customer}} inside Prompt.content)
+export type PromptVariableType = 'text' | 'multiline' | 'choice';
+
+export interface PromptVariable {
+  name: string;              // identifier used inside the {{ }} placeholder
+  type: PromptVariableType;
+  options?: string[];        // only for 'choice' variables
+  defaultValue?: string;
+}
+
+// Values entered for a prompt's variables, keyed by variable name
+export type PromptVariableValues = Record<string, string>;
+
+// A saved earlier version of a prompt (recorded on every update that changes title, content or category)
+export interface PromptRevision {
+  id: string;          // uuid-v4-string
+  timestamp: number;   // when this version was saved (the prompt's updatedAt at that time)
+  title: string;
+  content: string;
+  category: string;
+}
+
+// An AI response saved alongside the prompt that produced it
+export interface PromptExampleOutput {
+  id: string;          // uuid-v4-string
+  content: string;     // max 20000 chars
+  platform: string;    // platform id, or hostname for custom sites
+  createdAt: number;   // timestamp
+}
+
+// State touched by a destructive action (delete, batch move, import), captured
+// before it runs so the action can be undone exactly
+export interface UndoSnapshot {
+  prompts: { prompt: Prompt; index: number }[];            // prior versions and list positions
+  addedPromptIds: string[];                                // ids the action will create, removed on undo
+  categories?: Category[];                                 // full prior category list, if categories change
+  variableValues: Record<string, PromptVariableValues>;    // remembered values of the captured prompts
+  revisions: Record<string, PromptRevision[]>;             // revision history of the captured prompts
+  exampleOutputs?: Record<string, PromptExampleOutput[]>; // saved responses of the captured prompts (absent in older snapshots)
+}
+
+// What an undoable action is about to change
+export interface UndoScope {
+  promptIds: string[];
+  categories?: boolean;
+}
+
+export interface UndoEntry {
+  id: string;          // uuid-v4-string
+  message: string;     // shown in the toast offering the undo, e.g. "Prompt deleted"
+  createdAt: number;   // timestamp
+  snapshot: UndoSnapshot;
+}
+
+// An ordered list of prompts run one after another in a chat, each step sent
+// once the platform has finished responding to the previous one
+export interface PromptChain {
+  id: string;          // uuid-v4-string
+  title: string;       // max 100 chars
+  promptIds: string[]; // steps in order (2 to 10); a prompt may appear more than once
+  createdAt: number;   // timestamp
+  updatedAt: number;   // timestamp
+}
+
+// Merge import: how an incoming prompt relates to the library
+// 'identical' prompts are skipped, 'new' ones are added and 'conflict' ones need a choice
+export type ImportMatchStatus = 'new' | 'identical' | 'conflict';
+
+// Choice for a conflicting prompt: keep the library version, overwrite it with
+// the incoming one, or add the incoming one as a separate prompt
+export type ImportConflictResolution = 'keep-mine' | 'take-theirs' | 'keep-both';
+
+export interface ImportPreviewItem {
+  incoming: Prompt;
+  status: ImportMatchStatus;
+  existing?: Prompt;   // matched library prompt, by id or by similar title and content
+}
+
+// Concrete changes of a merge import, applied by StorageManager in one write
+export interface MergeImportPlan {
+  categories: Category[];                                // incoming categories, merged by name
+  added: Prompt[];                                       // prompts to add (ids unique in the library)
+  replaced: { existingId: string; prompt: Prompt }[];    // library prompts to overwrite
 }
 
 // Usage Analytics types
@@ -22,26 +110,117 @@ export interface UsageEvent {
   categoryId: string | null;
 }
 
+// Automatic backup of prompts, categories and settings, kept in IndexedDB
+// 'before-restore' snapshots capture the library right before another snapshot replaces it
+export type BackupSnapshotReason = 'scheduled' | 'before-restore';
+
+export interface BackupSnapshotInfo {
+  id: string;                    // uuid-v4-string
+  createdAt: number;             // timestamp
+  reason: BackupSnapshotReason;
+  promptCount: number;
+  categoryCount: number;
+  size: number;                  // compressed size in bytes
+}
+
+// What restoring a snapshot would change, compared with the current library
+export interface BackupSnapshotDiff {
+  added: Prompt[];               // in the snapshot only, restored
+  removed: Prompt[];             // in the library only, deleted by the restore
+  changed: Prompt[];             // in both with different content (snapshot version)
+  categoriesAdded: string[];
+  categoriesRemoved: string[];
+}
+
+// Cross-device sync through chrome.storage.sync (opt-in)
+// Fields merged one by one, each with its own last-writer-wins timestamp
+export type SyncedPromptField = 'title' | 'content' | 'category' | 'tags' | 'pinned' | 'notes';
+
+// A prompt edited on two devices since the last sync; the newer edit of each field was kept
+export interface SyncConflict {
+  promptId: string;
+  title: string;
+  fields: SyncedPromptField[];
+  resolvedAt: number;            // timestamp
+}
+
+// A prompt left out of chrome.storage.sync: larger than one sync item, or over the total quota
+export interface SyncSkippedPrompt {
+  promptId: string;
+  title: string;
+  reason: 'too-large' | 'quota';
+}
+
+export interface SyncStatus {
+  enabled: boolean;
+  lastSyncAt?: number;           // timestamp of the last successful sync
+  lastError?: string;            // message of the last failed sync, cleared by a successful one
+  syncedCount: number;           // prompts stored in chrome.storage.sync
+  conflicts: SyncConflict[];     // newest first
+  skipped: SyncSkippedPrompt[];  // as of the last sync
+}
+
 // Re-export constants from centralized location for backward compatibility
 export {
   USAGE_RETENTION_DAYS,
   USAGE_STORAGE_KEY,
+  PROMPT_VARIABLE_VALUES_STORAGE_KEY,
+  PROMPT_VARIABLE_VALUE_LIMITS,
+  PROMPT_REVISIONS_STORAGE_KEY,
+  STORAGE_LAYOUT_KEY,
+  PROMPT_REVISION_LIMITS,
+  UNDO_STORAGE_KEY,
+  UNDO_LIMITS,
+  BACKUP_SNAPSHOT_ALARM,
+  BACKUP_SNAPSHOT_LIMITS,
+  PROMPT_SYNC_STATE_KEY,
+  PROMPT_SYNC_ALARM,
+  PROMPT_SYNC_LIMITS,
+  PROMPT_VAULT_STORAGE_KEY,
+  PROMPT_VAULT_SESSION_KEY,
+  PROMPT_VAULT_LIMITS,
+  SHARE_SIGNING_KEY_STORAGE_KEY,
+  SHARE_SIGNING_DATABASE,
+  TRUSTED_SIGNING_KEYS_STORAGE_KEY,
+  SHARE_SIGNING_LIMITS,
+  DEFAULT_SLASH_COMMAND_TRIGGER,
+  DEFAULT_SLASH_COMMAND_SITES,
+  DEFAULT_INSERTION_MODE,
+  INSERTION_MODE_SEPARATOR,
+  AUTO_SEND_BUTTON_TIMEOUT_MS,
+  AUTO_SEND_POLL_INTERVAL_MS,
+  PROMPT_CHAINS_STORAGE_KEY,
+  PROMPT_CHAIN_LIMITS,
+  PROMPT_CHAIN_RESPONSE_TIMING,
+  PROMPT_EXAMPLE_OUTPUTS_STORAGE_KEY,
+  PROMPT_EXAMPLE_OUTPUT_LIMITS,
   VALIDATION_LIMITS,
   DEFAULT_CATEGORY,
   DEFAULT_SETTINGS,
   PROMPT_SHARING_SIZE_LIMITS,
+  PROMPT_COLLECTION_LIMITS,
 } from '../constants';
 
 export interface Category {
   id: string; // uuid-v4-string
   name: string; // max 50 chars
   color?: string; // hex color code (optional)
+  parentId?: string; // id of the parent category, top level when absent
 }
 
+// What happens to the subcategories of a deleted category:
+// 'reparent' moves them up to the deleted category's parent,
+// 'uncategorize' deletes them too and moves all their prompts to the default category
+export type CategoryDeleteStrategy = 'reparent' | 'uncategorize';
+
 // Sort order types for prompts
 export type SortOrder = 'createdAt' | 'updatedAt' | 'title' | 'usageCount' | 'lastUsedAt';
 export type SortDirection = 'asc' | 'desc';
 
+// How a prompt is put into a chat input: replacing its text, after or before
+// it, or at the caret (replacing any selected text)
+export type InsertionMode = 'replace' | 'append' | 'prepend' | 'cursor';
+
 export interface Settings {
   defaultCategory: string;
   sortOrder: SortOrder;
@@ -50,6 +229,17 @@ export interface Settings {
   interfaceMode?: 'popup' | 'sidepanel';
 }
 
+// Passphrase encryption of prompt content (opt-in); the key is kept for the browser session
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean;
+}
+
+// Where prompt bodies and revision history are stored: inline in chrome.storage.local
+// (before the one-time migration) or in IndexedDB, with only prompt metadata left in
+// chrome.storage.local
+export type StorageLayout = 'chrome-local' | 'indexeddb';
+
 export interface StorageData {
   prompts: Prompt[];
   categories: Category[];
@@ -61,11 +251,13 @@ export interface PromptFormData {
   title: string;
   content: string;
   category: string;
+  tags?: string[];
 }
 
 export interface CategoryFormData {
   name: string;
   color?: string;
+  parentId?: string;
 }
 
 // Custom site interface for site integration
@@ -75,6 +267,7 @@ export interface CustomSite {
   icon?: string;
   enabled: boolean;
   dateAdded: number;
+  submitSelector?: string; // CSS selector of the site's send button, used to send prompts automatically
   positioning?: {
     mode: 'custom';
     // NEW: Robust element fingerprint (preferred)
@@ -163,7 +356,8 @@ export type ErrorType =
   | 'DATA_CORRUPTION'
   | 'VALIDATION_ERROR'
   | 'PERMISSION_DENIED'
-  | 'EXTENSION_CONTEXT_LOST';
+  | 'EXTENSION_CONTEXT_LOST'
+  | 'VAULT_LOCKED';
 
 export interface AppError {
   type: ErrorType;
@@ -177,6 +371,54 @@ export interface SharedPromptData {
   title: string;
   content: string;
   category: string;
+  tags?: string[];
+}
+
+// Several prompts shared together: a category or a hand-picked selection
+export interface SharedPromptCollection {
+  name: string;
+  prompts: SharedPromptData[];
+  categories: Array<{ name: string; color?: string }>;
+}
+
+export interface EncodedPromptCollectionPayloadV1 {
+  v: string;                                      // format version
+  n: string;                                      // collection name
+  p: Array<{ t: string; b: string; g: string; k?: string[] }>; // title, body, category, tags
+  k?: Array<{ n: string; c?: string }>;           // categories with their colors
+  c: string;                                      // checksum of the other fields
+}
+
+// Signing of share codes with this device's ECDSA key; public keys are base64url
+// (raw P-256 points) and fingerprints the start of their SHA-256 hash
+export interface SigningIdentity {
+  publicKey: string;
+  fingerprint: string;
+  createdAt: number;
+}
+
+export interface TrustedSigningKey {
+  publicKey: string;
+  fingerprint: string;
+  name: string;
+  addedAt: number;
+}
+
+// 'invalid' covers codes whose signature does not match their content or is malformed
+export type ShareSignatureStatus =
+  | { state: 'unsigned' }
+  | { state: 'invalid' }
+  | {
+      state: 'signed';
+      fingerprint: string;
+      publicKey: string;
+      signer: 'self' | 'trusted' | 'unknown';
+      name?: string; // name of a trusted key
+    };
+
+export interface VerifiedShareCode {
+  code: string; // the code without its signature, for the decoders
+  signature: ShareSignatureStatus;
 }
 
 
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Category } from '../../types';
+import { flattenCategoryTree, getDescendantIds, getCategoryNamesInSubtree, getCategoryPath } from '../categoryTree';
+
+const categories: Category[] = [
+  { id: 'backend', name: 'Backend', parentId: 'eng' },
+  { id: 'eng', name: 'Eng' },
+  { id: 'reviews', name: 'Reviews', parentId: 'backend' },
+  { id: 'writing', name: 'Writing' },
+  { id: 'frontend', name: 'Frontend', parentId: 'eng' }
+];
+
+describe('flattenCategoryTree', () => {
+  it('lists parents before their children in list order', () => {
+    expect(flattenCategoryTree(categories).map(({ category, depth }) => `${category.id}:${String(depth)}`)).toEqual([
+      'eng:0',
+      'backend:1',
+      'reviews:2',
+      'frontend:1',
+      'writing:0'
+    ]);
+  });
+
+  it('treats categories with a missing or self-referencing parent as top level', () => {
+    const entries = flattenCategoryTree([
+      { id: 'a', name: 'A', parentId: 'gone' },
+      { id: 'b', name: 'B', parentId: 'b' }
+    ]);
+
+    expect(entries.map(entry => entry.depth)).toEqual([0, 0]);
+  });
+
+  it('lists categories caught in a parent cycle exactly once', () => {
+    const entries = flattenCategoryTree([
+      { id: 'a', name: 'A', parentId: 'b' },
+      { id: 'b', name: 'B', parentId: 'a' }
+    ]);
+
+    expect(entries.map(entry => entry.category.id).sort()).toEqual(['a', 'b']);
+  });
+});
+
+describe('getDescendantIds', () => {
+  it('returns children and grandchildren', () => {
+    expect(getDescendantIds(categories, 'eng').sort()).toEqual(['backend', 'frontend', 'reviews']);
+    expect(getDescendantIds(categories, 'writing')).toEqual([]);
+  });
+
+  it('terminates on cyclic data', () => {
+    expect(getDescendantIds([
+      { id: 'a', name: 'A', parentId: 'b' },
+      { id: 'b', name: 'B', parentId: 'a' }
+    ], 'a')).toEqual(['b']);
+  });
+});
+
+describe('getCategoryNamesInSubtree', () => {
+  it('includes the category and all descendant names', () => {
+    expect([...getCategoryNamesInSubtree(categories, 'Backend')]).toEqual(['Backend', 'Reviews']);
+  });
+
+  it('matches only the given name for unknown categories', () => {
+    expect([...getCategoryNamesInSubtree(categories, 'Deleted')]).toEqual(['Deleted']);
+  });
+});
+
+describe('getCategoryPath', () => {
+  it('returns ancestor names down to the category', () => {
+    expect(getCategoryPath(categories, 'Reviews')).toEqual(['Eng', 'Backend', 'Reviews']);
+    expect(getCategoryPath(categories, 'Unknown')).toEqual(['Unknown']);
+  });
+});
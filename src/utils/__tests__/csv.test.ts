@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseCsv, toCsv } from '../csv';
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('title,content\r\n"Hi, there","Say ""hi""\nthen wave"\r\n')).toEqual([
+      ['title', 'content'],
+      ['Hi, there', 'Say "hi"\nthen wave']
+    ]);
+  });
+
+  it('skips blank lines and a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only fields that need it and round-trips through parseCsv', () => {
+    const rows = [['title', 'content'], ['Plain', 'Line one\nLine "two", with comma']];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe('title,content\r\nPlain,"Line one\nLine ""two"", with comma"');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+});
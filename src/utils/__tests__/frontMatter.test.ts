@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseFrontMatter, stringifyFrontMatter } from '../frontMatter';
+
+describe('parseFrontMatter', () => {
+  it('reads scalars, quoted strings and both list styles', () => {
+    const { data, body } = parseFrontMatter([
+      '---',
+      'title: "Review: pull request"',
+      "category: 'Dev''s corner'",
+      'pinned: true',
+      'usage: 3',
+      'tags: [code, "review, quick"]',
+      'aliases:',
+      '  - pr',
+      '  - cr',
+      'note: plain text # a comment',
+      '---',
+      '',
+      'Review this pull request.'
+    ].join('\n'));
+
+    expect(data).toEqual({
+      title: 'Review: pull request',
+      category: "Dev's corner",
+      pinned: true,
+      usage: 3,
+      tags: ['code', 'review, quick'],
+      aliases: ['pr', 'cr'],
+      note: 'plain text'
+    });
+    expect(body).toBe('Review this pull request.');
+  });
+
+  it('treats a document without front-matter as body only', () => {
+    expect(parseFrontMatter('# Heading\n\nText')).toEqual({ data: {}, body: '# Heading\n\nText' });
+    expect(parseFrontMatter('---\nnot closed')).toEqual({ data: {}, body: '---\nnot closed' });
+  });
+});
+
+describe('stringifyFrontMatter', () => {
+  it('quotes values that would change meaning and round-trips', () => {
+    const data = { title: 'Note: 42', id: '123', tags: ['a', '#b'], pinned: true };
+    const text = stringifyFrontMatter({ ...data, category: undefined }, 'Body\n---\nmore');
+
+    expect(text).toContain('title: "Note: 42"');
+    expect(text).not.toContain('category');
+    expect(parseFrontMatter(text)).toEqual({ data, body: 'Body\n---\nmore\n' });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+
+import { applyInsertionMode, getModifierInsertionMode, isInsertionMode } from '../insertionModes';
+
+describe('isInsertionMode', () => {
+  it('accepts known modes only', () => {
+    expect(isInsertionMode('replace')).toBe(true);
+    expect(isInsertionMode('cursor')).toBe(true);
+    expect(isInsertionMode('insert')).toBe(false);
+    expect(isInsertionMode(undefined)).toBe(false);
+  });
+});
+
+describe('getModifierInsertionMode', () => {
+  const keys = { shiftKey: false, altKey: false, ctrlKey: false, metaKey: false };
+
+  it('maps modifier keys to modes', () => {
+    expect(getModifierInsertionMode({ ...keys, shiftKey: true })).toBe('append');
+    expect(getModifierInsertionMode({ ...keys, altKey: true })).toBe('cursor');
+    expect(getModifierInsertionMode({ ...keys, shiftKey: true, altKey: true })).toBe('prepend');
+    expect(getModifierInsertionMode({ ...keys, metaKey: true })).toBe('replace');
+  });
+
+  it('returns null without modifiers', () => {
+    expect(getModifierInsertionMode(keys)).toBeNull();
+  });
+});
+
+describe('applyInsertionMode', () => {
+  it('replaces the current text', () => {
+    expect(applyInsertionMode('Hello', 'World', 'replace')).toEqual({ text: 'World', caret: 5 });
+  });
+
+  it('appends and prepends with a separator', () => {
+    expect(applyInsertionMode('Hello', 'World', 'append')).toEqual({ text: 'Hello\n\nWorld', caret: 12 });
+    expect(applyInsertionMode('Hello', 'World', 'prepend')).toEqual({ text: 'World\n\nHello', caret: 5 });
+  });
+
+  it('leaves out the separator when the current text is blank', () => {
+    expect(applyInsertionMode('  ', 'World', 'append')).toEqual({ text: 'World', caret: 5 });
+    expect(applyInsertionMode('', 'World', 'prepend')).toEqual({ text: 'World', caret: 5 });
+  });
+
+  it('replaces the selection in cursor mode', () => {
+    expect(applyInsertionMode('Hello there', 'World', 'cursor', { start: 6, end: 11 })).toEqual({ text: 'Hello World', caret: 11 });
+    expect(applyInsertionMode('Hello ', 'World', 'cursor', { start: 0, end: 0 })).toEqual({ text: 'WorldHello ', caret: 5 });
+  });
+
+  it('inserts at the end in cursor mode without a selection', () => {
+    expect(applyInsertionMode('Hello ', 'World', 'cursor', null)).toEqual({ text: 'Hello World', caret: 11 });
+  });
+});
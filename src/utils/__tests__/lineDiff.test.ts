@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffLines } from '../lineDiff';
+
+describe('diffLines', () => {
+  it('marks every line unchanged for identical texts', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'unchanged', text: 'b' }
+    ]);
+  });
+
+  it('detects a changed line', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'unchanged', text: 'c' }
+    ]);
+  });
+
+  it('detects added and removed lines', () => {
+    expect(diffLines('one\ntwo\nthree', 'zero\none\nthree\nfour')).toEqual([
+      { type: 'added', text: 'zero' },
+      { type: 'unchanged', text: 'one' },
+      { type: 'removed', text: 'two' },
+      { type: 'unchanged', text: 'three' },
+      { type: 'added', text: 'four' }
+    ]);
+  });
+
+  it('keeps common lines inside a changed block', () => {
+    const diff = diffLines('a\nkeep\nb', 'x\nkeep\ny');
+
+    expect(diff.filter(line => line.type === 'unchanged')).toEqual([{ type: 'unchanged', text: 'keep' }]);
+    expect(diff.filter(line => line.type === 'removed').map(line => line.text)).toEqual(['a', 'b']);
+    expect(diff.filter(line => line.type === 'added').map(line => line.text)).toEqual(['x', 'y']);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffLines('', 'new')).toEqual([
+      { type: 'removed', text: '' },
+      { type: 'added', text: 'new' }
+    ]);
+  });
+
+  it('falls back to remove-then-add for very large changed blocks', () => {
+    const before = Array.from({ length: 2500 }, (_, i) => `old ${String(i)}`).join('\n');
+    const after = Array.from({ length: 2500 }, (_, i) => `new ${String(i)}`).join('\n');
+
+    const diff = diffLines(before, after);
+
+    expect(diff).toHaveLength(5000);
+    expect(diff[0]).toEqual({ type: 'removed', text: 'old 0' });
+    expect(diff[2500]).toEqual({ type: 'added', text: 'new 0' });
+  });
+});
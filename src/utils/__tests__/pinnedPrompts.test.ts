@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+
+import { comparePinned, sortPinnedFirst } from '../pinnedPrompts';
+
+describe('comparePinned', () => {
+  it('orders pinned prompts first', () => {
+    expect(comparePinned({ pinned: true }, {})).toBeLessThan(0);
+    expect(comparePinned({ pinned: false }, { pinned: true })).toBeGreaterThan(0);
+  });
+
+  it('treats prompts with the same pinned state as equal', () => {
+    expect(comparePinned({ pinned: true }, { pinned: true })).toBe(0);
+    expect(comparePinned({}, { pinned: false })).toBe(0);
+  });
+});
+
+describe('sortPinnedFirst', () => {
+  it('moves pinned prompts to the front and keeps the order within each group', () => {
+    const prompts = [
+      { id: 'a' },
+      { id: 'b', pinned: true },
+      { id: 'c', pinned: false },
+      { id: 'd', pinned: true }
+    ];
+
+    expect(sortPinnedFirst(prompts).map(prompt => prompt.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('does not mutate the input', () => {
+    const prompts = [{ id: 'a' }, { id: 'b', pinned: true }];
+
+    sortPinnedFirst(prompts);
+
+    expect(prompts.map(prompt => prompt.id)).toEqual(['a', 'b']);
+  });
+});
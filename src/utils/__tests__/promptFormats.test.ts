@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+
+import { DEFAULT_CATEGORY, type Category, type Prompt } from '../../types';
+import { parseCsv } from '../csv';
+import {
+  createMarkdownFiles,
+  createPromptCsv,
+  guessCsvColumnMapping,
+  parseCsvPrompts,
+  parseMarkdownFiles
+} from '../promptFormats';
+
+const categories: Category[] = [
+  { id: 'work', name: 'Work' },
+  { id: 'email', name: 'Email', parentId: 'work' }
+];
+
+const prompt: Prompt = {
+  id: 'p1',
+  title: 'Follow-up: meeting',
+  content: 'Write a follow-up email.\n\n---\n\nKeep it short.',
+  category: 'Email',
+  tags: ['email', 'work'],
+  pinned: true,
+  createdAt: Date.UTC(2025, 0, 1),
+  updatedAt: Date.UTC(2025, 0, 2)
+};
+
+describe('Markdown prompts', () => {
+  it('writes one file per prompt in nested category folders and reads it back', () => {
+    const files = createMarkdownFiles([prompt, { ...prompt, id: 'p2' }], categories, 'library');
+
+    expect(files.map(file => file.path)).toEqual([
+      'library/Work/Email/Follow-up- meeting.md',
+      'library/Work/Email/Follow-up- meeting (2).md'
+    ]);
+
+    const bundle = parseMarkdownFiles(files);
+    expect(bundle.prompts[0]).toEqual({
+      id: 'p1',
+      title: prompt.title,
+      content: prompt.content,
+      category: 'Email',
+      tags: ['email', 'work'],
+      pinned: true,
+      createdAt: prompt.createdAt,
+      updatedAt: prompt.updatedAt
+    });
+    const [work, email] = bundle.categories;
+    expect(work).toMatchObject({ name: 'Work' });
+    expect(email).toMatchObject({ name: 'Email', parentId: work.id });
+  });
+
+  it('takes title and category from the file path when there is no front-matter', () => {
+    const bundle = parseMarkdownFiles([
+      { path: 'repo-main/Writing/Summarize.md', content: 'Summarize this.\n' },
+      { path: 'repo-main/Ideas.md', content: 'Brainstorm ten ideas.' },
+      { path: 'repo-main/README.txt', content: 'Not a prompt' },
+      { path: 'repo-main/.github/template.md', content: 'Hidden' }
+    ]);
+
+    expect(bundle.prompts.map(p => [p.title, p.category, p.content])).toEqual([
+      ['Summarize', 'Writing', 'Summarize this.'],
+      ['Ideas', DEFAULT_CATEGORY, 'Brainstorm ten ideas.']
+    ]);
+    expect(bundle.categories.map(c => c.name)).toEqual(['Writing', DEFAULT_CATEGORY]);
+  });
+});
+
+describe('CSV prompts', () => {
+  it('exports a header row and reads it back with the guessed mapping', () => {
+    const rows = parseCsv(createPromptCsv([prompt]));
+    const mapping = guessCsvColumnMapping(rows[0]);
+
+    const bundle = parseCsvPrompts(rows, mapping, { hasHeader: true });
+
+    expect(bundle.prompts).toEqual([{ ...prompt }]);
+    expect(bundle.categories.map(c => c.name)).toEqual(['Email']);
+  });
+
+  it('recognizes common header names from other tools', () => {
+    expect(guessCsvColumnMapping(['act', 'prompt', 'Folder', 'Labels'])).toEqual({
+      title: 0,
+      content: 1,
+      category: 2,
+      tags: 3
+    });
+  });
+
+  it('fills in defaults and skips rows without content', () => {
+    const bundle = parseCsvPrompts([['Hello there'], [''], ['  ']], { content: 0 }, { hasHeader: false });
+
+    expect(bundle.prompts).toHaveLength(1);
+    expect(bundle.prompts[0]).toMatchObject({ title: '', content: 'Hello there', category: DEFAULT_CATEGORY });
+    expect(typeof bundle.prompts[0].id).toBe('string');
+  });
+
+  it('merges category names that differ only in case', () => {
+    const bundle = parseCsvPrompts([['A', 'Work'], ['B', 'work']], { content: 0, category: 1 }, { hasHeader: false });
+
+    expect(bundle.categories.map(c => c.name)).toEqual(['Work']);
+    expect(bundle.prompts.map(p => p.category)).toEqual(['Work', 'Work']);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  MAX_VARIABLE_VALUE_LENGTH,
+  fillPromptVariables,
+  getBuiltInVariables,
+  getDateTimeVariableValues,
+  getInitialVariableValues,
+  hasPromptVariables,
+  parsePromptVariables
+} from '../promptVariables';
+
+describe('parsePromptVariables', () => {
+  it('returns an empty list for content without placeholders', () => {
+    expect(parsePromptVariables('Plain prompt with {single} braces')).toEqual([]);
+  });
+
+  it('parses text variables with and without defaults', () => {
+    expect(parsePromptVariables('Hi {{customer}}, write in {{ language = English }}')).toEqual([
+      { name: 'customer', type: 'text' },
+      { name: 'language', type: 'text', defaultValue: 'English' }
+    ]);
+  });
+
+  it('parses multiline variables', () => {
+    expect(parsePromptVariables('Review:\n{{code:multiline}}')).toEqual([
+      { name: 'code', type: 'multiline' }
+    ]);
+  });
+
+  it('parses choice variables and defaults to the first option', () => {
+    expect(parsePromptVariables('{{tone:choice(Formal | Casual|Playful)}}')).toEqual([
+      { name: 'tone', type: 'choice', options: ['Formal', 'Casual', 'Playful'], defaultValue: 'Formal' }
+    ]);
+  });
+
+  it('uses an explicit default for choice variables', () => {
+    const [variable] = parsePromptVariables('{{tone:choice(Formal|Casual)=Casual}}');
+
+    expect(variable.defaultValue).toBe('Casual');
+  });
+
+  it('treats a choice without options as free text', () => {
+    expect(parsePromptVariables('{{tone:choice()}}')).toEqual([{ name: 'tone', type: 'text' }]);
+  });
+
+  it('returns each variable once, keeping the first declaration', () => {
+    const variables = parsePromptVariables('{{name=Ada}} and {{name:multiline}} and {{other}}');
+
+    expect(variables).toEqual([
+      { name: 'name', type: 'text', defaultValue: 'Ada' },
+      { name: 'other', type: 'text' }
+    ]);
+  });
+
+  it('ignores placeholders with invalid names', () => {
+    expect(parsePromptVariables('{{1abc}} {{with space}} {{}}')).toEqual([]);
+  });
+
+  it('leaves out built-in variables', () => {
+    expect(parsePromptVariables('{{date}} {{name}} {{page_url}}')).toEqual([{ name: 'name', type: 'text' }]);
+  });
+});
+
+describe('hasPromptVariables', () => {
+  it('detects placeholders', () => {
+    expect(hasPromptVariables('Hello {{name}}')).toBe(true);
+    expect(hasPromptVariables('Hello world')).toBe(false);
+  });
+
+  it('ignores built-in variables', () => {
+    expect(hasPromptVariables('Summarize {{selection}} from {{page_title}}')).toBe(false);
+  });
+
+  it('returns consistent results on repeated calls', () => {
+    const content = 'Hello {{name}}';
+
+    expect(hasPromptVariables(content)).toBe(true);
+    expect(hasPromptVariables(content)).toBe(true);
+  });
+});
+
+describe('getInitialVariableValues', () => {
+  const variables = parsePromptVariables('{{name}} {{lang=Python}} {{tone:choice(Formal|Casual)}}');
+
+  it('falls back to defaults and empty strings', () => {
+    expect(getInitialVariableValues(variables)).toEqual({
+      name: '',
+      lang: 'Python',
+      tone: 'Formal'
+    });
+  });
+
+  it('prefers remembered values', () => {
+    expect(getInitialVariableValues(variables, { name: 'Ada', lang: 'Go', tone: 'Casual' })).toEqual({
+      name: 'Ada',
+      lang: 'Go',
+      tone: 'Casual'
+    });
+  });
+
+  it('ignores remembered choices that are no longer valid options', () => {
+    expect(getInitialVariableValues(variables, { tone: 'Sarcastic' }).tone).toBe('Formal');
+  });
+});
+
+describe('fillPromptVariables', () => {
+  it('replaces every occurrence of a variable', () => {
+    expect(fillPromptVariables('{{name}} meets {{ name }}', { name: 'Ada' })).toBe('Ada meets Ada');
+  });
+
+  it('uses defaults for missing values and empty strings otherwise', () => {
+    const content = 'Write in {{lang=Python}} for {{audience}} with a {{tone:choice(Formal|Casual)}} tone';
+
+    expect(fillPromptVariables(content, {})).toBe('Write in Python for  with a Formal tone');
+  });
+
+  it('keeps an explicitly empty value', () => {
+    expect(fillPromptVariables('[{{lang=Python}}]', { lang: '' })).toBe('[]');
+  });
+
+  it('leaves non-variable text untouched', () => {
+    const content = 'Use {single} braces and {{ 1invalid }}';
+
+    expect(fillPromptVariables(content, {})).toBe(content);
+  });
+
+  it('truncates values that exceed the maximum length', () => {
+    const filled = fillPromptVariables('{{text}}', { text: 'a'.repeat(MAX_VARIABLE_VALUE_LENGTH + 10) });
+
+    expect(filled).toHaveLength(MAX_VARIABLE_VALUE_LENGTH);
+  });
+
+  it('leaves built-in variables for insert time', () => {
+    expect(fillPromptVariables('{{name}} on {{date}}', { name: 'Ada', date: 'typed' })).toBe('Ada on {{date}}');
+  });
+});
+
+describe('getBuiltInVariables', () => {
+  it('lists built-in variables once with the default of the first occurrence', () => {
+    expect(getBuiltInVariables('{{clipboard=none}} {{name}} {{page_url}} {{clipboard}}')).toEqual([
+      { name: 'clipboard', defaultValue: 'none' },
+      { name: 'page_url' }
+    ]);
+  });
+});
+
+describe('fillPromptVariables with built-in values', () => {
+  it('leaves built-in placeholders in place without built-in values', () => {
+    expect(fillPromptVariables('{{name}}: {{ page_title }}', { name: 'Ada' })).toBe('Ada: {{ page_title }}');
+  });
+
+  it('replaces built-in placeholders with their resolved values', () => {
+    expect(fillPromptVariables('{{name}}: {{ page_title }}', { name: 'Ada' }, { page_title: 'Docs' })).toBe('Ada: Docs');
+  });
+
+  it('falls back to the default, then to an empty string', () => {
+    expect(fillPromptVariables('[{{clipboard=none}}][{{selection}}]', {}, { clipboard: '', selection: '' })).toBe('[none][]');
+  });
+
+  it('never expands placeholders inside resolved values', () => {
+    expect(fillPromptVariables('{{clipboard}} {{page_url}}', {}, { clipboard: '{{page_url}}', page_url: 'https://example.com' }))
+      .toBe('{{page_url}} https://example.com');
+  });
+
+  it('leaves built-in placeholders without a resolved value in place', () => {
+    expect(fillPromptVariables('{{date}} {{clipboard=none}}', {}, getDateTimeVariableValues(new Date(2025, 0, 2))))
+      .toBe(`${new Date(2025, 0, 2).toLocaleDateString()} {{clipboard=none}}`);
+  });
+
+  it('never expands built-in placeholders typed into a user value', () => {
+    expect(fillPromptVariables('Note: {{note}}', { note: 'see {{clipboard}}' }, { clipboard: 'secret' }))
+      .toBe('Note: see {{clipboard}}');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+
+import { findSlashCommandQuery, isValidSlashCommandTrigger } from '../slashCommands';
+
+describe('isValidSlashCommandTrigger', () => {
+  it('accepts single symbol characters', () => {
+    expect(isValidSlashCommandTrigger('/')).toBe(true);
+    expect(isValidSlashCommandTrigger(';')).toBe(true);
+    expect(isValidSlashCommandTrigger('§')).toBe(true);
+  });
+
+  it('rejects letters, digits, whitespace and longer strings', () => {
+    expect(isValidSlashCommandTrigger('a')).toBe(false);
+    expect(isValidSlashCommandTrigger('1')).toBe(false);
+    expect(isValidSlashCommandTrigger(' ')).toBe(false);
+    expect(isValidSlashCommandTrigger('//')).toBe(false);
+    expect(isValidSlashCommandTrigger('')).toBe(false);
+    expect(isValidSlashCommandTrigger(undefined)).toBe(false);
+  });
+});
+
+describe('findSlashCommandQuery', () => {
+  it('finds a trigger at the start of the text', () => {
+    expect(findSlashCommandQuery('/summ', '/')).toEqual({ query: 'summ', length: 5 });
+  });
+
+  it('finds a trigger after whitespace', () => {
+    expect(findSlashCommandQuery('Please /code review', '/')).toEqual({ query: 'code review', length: 12 });
+    expect(findSlashCommandQuery('line one\n/', '/')).toEqual({ query: '', length: 1 });
+  });
+
+  it('ignores triggers inside words', () => {
+    expect(findSlashCommandQuery('and/or', '/')).toBeNull();
+    expect(findSlashCommandQuery('https://example.com', '/')).toBeNull();
+  });
+
+  it('ignores a trigger followed by whitespace', () => {
+    expect(findSlashCommandQuery('a / b', '/')).toBeNull();
+  });
+
+  it('returns null without a trigger or for very long queries', () => {
+    expect(findSlashCommandQuery('no trigger here', '/')).toBeNull();
+    expect(findSlashCommandQuery(`/${'x'.repeat(60)}`, '/')).toBeNull();
+  });
+
+  it('supports other trigger characters', () => {
+    expect(findSlashCommandQuery(';email', ';')).toEqual({ query: 'email', length: 6 });
+    expect(findSlashCommandQuery('/email', ';')).toBeNull();
+  });
+});
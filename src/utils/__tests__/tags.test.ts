@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+
+import { VALIDATION_LIMITS } from '../../constants';
+import { collectTags, normalizeTags, parseTagInput } from '../tags';
+
+describe('normalizeTags', () => {
+  it('trims, lowercases and de-duplicates tags', () => {
+    expect(normalizeTags([' Python ', 'python', 'Code   Review'])).toEqual(['python', 'code review']);
+  });
+
+  it('drops empty and non-string entries', () => {
+    expect(normalizeTags(['', '   ', 42, null, 'ok'])).toEqual(['ok']);
+  });
+
+  it('returns an empty list for non-array input', () => {
+    expect(normalizeTags(undefined)).toEqual([]);
+    expect(normalizeTags('python')).toEqual([]);
+  });
+
+  it('enforces the length and count limits', () => {
+    const long = 'x'.repeat(VALIDATION_LIMITS.TAG_MAX_LENGTH + 5);
+    const many = Array.from({ length: VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX + 3 }, (_, i) => `tag-${String(i)}`);
+
+    expect(normalizeTags([long])[0]).toHaveLength(VALIDATION_LIMITS.TAG_MAX_LENGTH);
+    expect(normalizeTags(many)).toHaveLength(VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX);
+  });
+});
+
+describe('parseTagInput', () => {
+  it('splits comma-separated input', () => {
+    expect(parseTagInput('code-review, Python,,team-shared ')).toEqual(['code-review', 'python', 'team-shared']);
+  });
+
+  it('returns an empty list for blank input', () => {
+    expect(parseTagInput('  ')).toEqual([]);
+  });
+});
+
+describe('collectTags', () => {
+  it('returns the sorted union of all prompt tags', () => {
+    expect(collectTags([{ tags: ['python', 'ai'] }, {}, { tags: ['ai', 'go'] }])).toEqual(['ai', 'go', 'python']);
+  });
+});
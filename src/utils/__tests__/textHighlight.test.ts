@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+
+import { findTermHighlights, findTextHighlights, foldText, tokenizeText } from '../textHighlight';
+
+describe('textHighlight', () => {
+  describe('findTextHighlights', () => {
+    it('should find every case-insensitive occurrence', () => {
+      expect(findTextHighlights('Code review: review code', 'review')).toEqual([
+        { start: 5, end: 11, text: 'review' },
+        { start: 13, end: 19, text: 'review' }
+      ]);
+    });
+  });
+
+  describe('foldText', () => {
+    it('should lowercase and strip diacritics while mapping back to the original text', () => {
+      const { folded, sourceIndex } = foldText('Ça Crée');
+
+      expect(folded).toBe('ca cree');
+      expect(sourceIndex).toHaveLength(folded.length + 1);
+      expect(sourceIndex[folded.length]).toBe(7);
+    });
+
+    it('should map decomposed accents to the letter they belong to', () => {
+      const { folded, sourceIndex } = foldText('cafe\u0301!');
+
+      expect(folded).toBe('cafe!');
+      expect(sourceIndex).toEqual([0, 1, 2, 3, 5, 6]);
+    });
+  });
+
+  describe('tokenizeText', () => {
+    it('should split text into folded words with original positions', () => {
+      expect(tokenizeText('Créer un café!')).toEqual([
+        { term: 'creer', start: 0, end: 5 },
+        { term: 'un', start: 6, end: 8 },
+        { term: 'cafe', start: 9, end: 13 }
+      ]);
+    });
+  });
+
+  describe('findTermHighlights', () => {
+    it('should highlight matched words, or only the typed part of a prefix', () => {
+      expect(findTermHighlights('JavaScript and Café', new Map([['javascript', 4], ['cafe', 4]]))).toEqual([
+        { start: 0, end: 4, text: 'Java' },
+        { start: 15, end: 19, text: 'Café' }
+      ]);
+    });
+
+    it('should return no highlights without terms', () => {
+      expect(findTermHighlights('Anything', new Map())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+
+import { createZip, readZip } from '../zip';
+
+// Written by Python's zipfile with ZIP_DEFLATED: a folder entry and one deflated Markdown file
+const DEFLATED_ZIP_BASE64 =
+  'UEsDBBQAAAAIAMpIU10AAAAAAgAAAAAAAAANAAAAcHJvbXB0cy1tYWluLwMAUEsDBBQAAAAIAMpIU123HsN4UgAAAF0AAAAhAAAAcHJvbXB0cy1tYWluL1dyaXRpbmcvU3VtbWFyaXplLm1kPco9CoAwDAbQPafIAYwH6DUcxaFCaAP9kfYriqe3k+ODJyIEQ1LH28jZN3uV4EN3vN/NYCUs3GNtOEjmpX8xonWGPmArE02Vz5GSgq9qBX2lD1BLAQIUAxQAAAAIAMpIU10AAAAAAgAAAAAAAAANAAAAAAAAAAAAEAD9QQAAAABwcm9tcHRzLW1haW4vUEsBAhQDFAAAAAgAykhTXbcew3hSAAAAXQAAACEAAAAAAAAAAAAAAIABLQAAAHByb21wdHMtbWFpbi9Xcml0aW5nL1N1bW1hcml6ZS5tZFBLBQYAAAAAAgACAIoAAAC+AAAAAAA=';
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('zip', () => {
+  it('reads back the files it writes, including non-ASCII names and content', async () => {
+    const files = [
+      { path: 'library/Work/Standup.md', content: '# Standup\n\nWhat did you do yesterday?' },
+      { path: 'library/Écriture/Résumé.md', content: 'Résume ce texte 📝' }
+    ];
+
+    expect(await readZip(toArrayBuffer(createZip(files)))).toEqual(files);
+  });
+
+  it('inflates deflated entries and skips folder entries', async () => {
+    const bytes = Uint8Array.from(atob(DEFLATED_ZIP_BASE64), char => char.charCodeAt(0));
+
+    const files = await readZip(toArrayBuffer(bytes));
+
+    expect(files).toHaveLength(1);
+    expect(files[0].path).toBe('prompts-main/Writing/Summarize.md');
+    expect(files[0].content).toContain('Summarize this text in three bullet points.');
+  });
+
+  it('rejects data that is not a zip archive', async () => {
+    const bytes = new TextEncoder().encode('{"prompts": []}');
+
+    await expect(readZip(toArrayBuffer(bytes))).rejects.toThrow(/not a zip archive/i);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Category tree utilities
+ *
+ * Categories form a tree through the optional `parentId` field while still
+ * being stored as a flat list; list order defines sibling order. Prompts
+ * reference categories by name, so filtering helpers work with names.
+ *
+ * Stored data is not trusted to be a well-formed tree: a `parentId` that points
+ * at a missing category (or at the category itself) makes it a root, and
+ * categories caught in a parent cycle are still listed exactly once.
+ */
+
+import type { Category } from '../types';
+
+export interface CategoryTreeEntry {
+  category: Category;
+  depth: number;
+}
+
+/**
+ * Group categories by their effective parent id (`null` for roots)
+ */
+function groupByParent(categories: readonly Category[]): Map<string | null, Category[]> {
+  const ids = new Set(categories.map(category => category.id));
+  const children = new Map<string | null, Category[]>();
+
+  for (const category of categories) {
+    const parentId = category.parentId && category.parentId !== category.id && ids.has(category.parentId)
+      ? category.parentId
+      : null;
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(category);
+    children.set(parentId, siblings);
+  }
+
+  return children;
+}
+
+/**
+ * Flatten categories into depth-first tree order
+ *
+ * @param categories - Stored category list
+ * @returns Every category once, parents before their children, with its depth (0 for roots)
+ *
+ * @example
+ * ```typescript
+ * flattenCategoryTree([{ id: 'b', name: 'Backend', parentId: 'e' }, { id: 'e', name: 'Eng' }]);
+ * // [{ category: Eng, depth: 0 }, { category: Backend, depth: 1 }]
+ * ```
+ */
+export function flattenCategoryTree(categories: readonly Category[]): CategoryTreeEntry[] {
+  const children = groupByParent(categories);
+  const visited = new Set<string>();
+  const entries: CategoryTreeEntry[] = [];
+
+  const visit = (category: Category, depth: number) => {
+    if (visited.has(category.id)) {
+      return;
+    }
+    visited.add(category.id);
+    entries.push({ category, depth });
+    for (const child of children.get(category.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const root of children.get(null) ?? []) {
+    visit(root, 0);
+  }
+
+  // Categories in a parent cycle are unreachable from any root
+  for (const category of categories) {
+    visit(category, 0);
+  }
+
+  return entries;
+}
+
+/**
+ * Get the ids of all descendants of a category (children, grandchildren, ...)
+ */
+export function getDescendantIds(categories: readonly Category[], id: string): string[] {
+  const children = groupByParent(categories);
+  const descendants: string[] = [];
+  const pending = [...(children.get(id) ?? [])];
+
+  while (pending.length > 0) {
+    const category = pending.shift() as Category;
+    if (category.id === id || descendants.includes(category.id)) {
+      continue;
+    }
+    descendants.push(category.id);
+    pending.push(...(children.get(category.id) ?? []));
+  }
+
+  return descendants;
+}
+
+/**
+ * Get the names a category filter should match: the category and all its descendants
+ *
+ * Unknown names match only themselves so that filtering by a category that
+ * was removed in the meantime still behaves like a plain name filter.
+ */
+export function getCategoryNamesInSubtree(categories: readonly Category[], name: string): Set<string> {
+  const names = new Set([name]);
+  const category = categories.find(c => c.name === name);
+  if (!category) {
+    return names;
+  }
+
+  const descendantIds = new Set(getDescendantIds(categories, category.id));
+  for (const c of categories) {
+    if (descendantIds.has(c.id)) {
+      names.add(c.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Get the names on the path from the root down to a category
+ *
+ * @returns Ancestor names followed by the category's own name, or just `[name]` if unknown
+ */
+export function getCategoryPath(categories: readonly Category[], name: string): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = categories.find(c => c.name === name);
+
+  if (!current) {
+    return [name];
+  }
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
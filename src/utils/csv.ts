@@ -0,0 +1,77 @@
+/**
+ * CSV reading and writing (RFC 4180)
+ *
+ * Fields containing commas, quotes or line breaks are quoted, with quotes
+ * doubled. Both `\n` and `\r\n` line endings are accepted when parsing.
+ */
+
+/**
+ * Parse CSV text into rows of fields; blank lines are skipped
+ *
+ * @example
+ * ```typescript
+ * parseCsv('title,content\n"Hi, there","Say ""hi"""');
+ * // [['title', 'content'], ['Hi, there', 'Say "hi"']]
+ * ```
+ */
+export function parseCsv(text: string): string[][] {
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize rows of fields to CSV with `\r\n` line endings
+ */
+export function toCsv(rows: readonly (readonly string[])[]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+}
@@ -0,0 +1,103 @@
+/**
+ * Backup file helpers
+ *
+ * Shared by the full export in settings and the "export selected" bulk action
+ * in the library, so both produce files the settings import understands.
+ */
+
+import type { Category, Prompt } from '../types';
+import type {} from '../types/file-system-access-api';
+
+import { getCategoryPath } from './categoryTree';
+import { toError } from './error';
+import * as Logger from './logger';
+
+export interface PromptExportData {
+  version: string;
+  exportDate: string;
+  prompts: Prompt[];
+  categories: Category[];
+}
+
+export function createExportData(prompts: Prompt[], categories: Category[]): PromptExportData {
+  return {
+    version: '1.0',
+    exportDate: new Date().toISOString(),
+    prompts,
+    categories
+  };
+}
+
+/**
+ * Get the categories needed to import a subset of prompts: the categories they
+ * use plus all of their ancestors, so subcategories keep their place in the tree
+ */
+export function getExportCategories(prompts: Prompt[], categories: Category[]): Category[] {
+  const names = new Set(prompts.flatMap(prompt => getCategoryPath(categories, prompt.category)));
+  return categories.filter(category => names.has(category.name));
+}
+
+export interface ExportFileType {
+  description: string;
+  mimeType: string;
+  extension: string;
+}
+
+export const EXPORT_FILE_TYPES = {
+  json: { description: 'JSON file', mimeType: 'application/json', extension: 'json' },
+  zip: { description: 'Zip archive', mimeType: 'application/zip', extension: 'zip' },
+  csv: { description: 'CSV file', mimeType: 'text/csv', extension: 'csv' }
+} satisfies Record<string, ExportFileType>;
+
+/**
+ * Build a dated backup file name, e.g. `prompt-library-backup-2025-01-31.json`
+ */
+export function getExportFilename(prefix: string, extension = 'json'): string {
+  return `${prefix}-${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+/**
+ * Let the user save a JSON file, using the File System Access API when available
+ * and falling back to a download link otherwise. Cancelling the save dialog is not an error.
+ */
+export function saveJsonFile(content: string, filename: string): Promise<void> {
+  return saveFile(content, filename, EXPORT_FILE_TYPES.json);
+}
+
+/**
+ * Let the user save a file of any type; see saveJsonFile
+ */
+export async function saveFile(content: string | Blob, filename: string, type: ExportFileType): Promise<void> {
+  if (window.showSaveFilePicker) {
+    try {
+      const handle = await window.showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: type.description, accept: { [type.mimeType]: [`.${type.extension}`] } }]
+      });
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+      return;
+    } catch (error) {
+      // User cancelled the dialog - not an error
+      if ((error as Error).name === 'AbortError') {
+        return;
+      }
+      Logger.warn('File System Access API failed, falling back to legacy method', {
+        component: 'exportFile',
+        error: toError(error)
+      });
+    }
+  }
+
+  // Fallback to legacy DOM manipulation
+  const blob = content instanceof Blob ? content : new Blob([content], { type: type.mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,165 @@
+/**
+ * YAML front-matter for Markdown files
+ *
+ * Supports the subset used for prompt metadata: `key: value` pairs with
+ * plain, single- or double-quoted strings, numbers, booleans, and lists
+ * written either inline (`[a, b]`) or as `- item` lines. Anything else in
+ * the header is ignored rather than rejected, so files written by other
+ * tools still import.
+ */
+
+export type FrontMatterValue = string | number | boolean | string[];
+
+export interface FrontMatterDocument {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+}
+
+const FENCE = '---';
+const KEY_PATTERN = /^([A-Za-z_][\w-]*):(?:\s+(.*))?$/;
+const LIST_ITEM_PATTERN = /^\s+-\s+(.*)$/;
+
+function parseScalar(raw: string): string | number | boolean {
+  const value = raw.trim();
+
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  // Plain scalars end at a comment
+  return value.replace(/\s+#.*$/, '');
+}
+
+function parseFlowList(raw: string): string[] {
+  const inner = raw.trim().slice(1, -1);
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) {quote = null;}
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.filter(item => item.trim() !== '').map(item => String(parseScalar(item)));
+}
+
+/**
+ * Split a Markdown document into its front-matter fields and body
+ *
+ * A document without a front-matter block is returned as body with no data.
+ */
+export function parseFrontMatter(text: string): FrontMatterDocument {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== FENCE) {
+    return { data: {}, body: text };
+  }
+
+  const closing = lines.findIndex((line, index) => index > 0 && line.trim() === FENCE);
+  if (closing === -1) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of lines.slice(1, closing)) {
+    if (line.trim() === '' || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const listItem = listKey ? LIST_ITEM_PATTERN.exec(line) : null;
+    if (listKey && listItem) {
+      (data[listKey] as string[]).push(String(parseScalar(listItem[1])));
+      continue;
+    }
+    listKey = null;
+
+    const match = KEY_PATTERN.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, key, rawValue = ''] = match;
+    if (rawValue.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (rawValue.trim().startsWith('[') && rawValue.trim().endsWith(']')) {
+      data[key] = parseFlowList(rawValue);
+    } else {
+      data[key] = parseScalar(rawValue);
+    }
+  }
+
+  return {
+    data,
+    body: lines.slice(closing + 1).join('\n').replace(/^\n+/, '')
+  };
+}
+
+function formatScalar(value: string | number | boolean): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  // Quote anything a YAML reader could take for another type or for syntax
+  const needsQuotes = value === '' ||
+    value !== value.trim() ||
+    /[:#[\]{},"'\n\r\t]/.test(value) ||
+    /^[-?!&*|>%@`]/.test(value) ||
+    /^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(value);
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Build a Markdown document with a front-matter block; undefined fields are left out
+ *
+ * @example
+ * ```typescript
+ * stringifyFrontMatter({ title: 'Standup', tags: ['work'] }, 'What did you do yesterday?');
+ * // '---\ntitle: Standup\ntags:\n  - work\n---\n\nWhat did you do yesterday?\n'
+ * ```
+ */
+export function stringifyFrontMatter(data: Record<string, FrontMatterValue | undefined>, body: string): string {
+  const lines = [FENCE];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        lines.push(`${key}: []`);
+      } else {
+        lines.push(`${key}:`, ...value.map(item => `  - ${formatScalar(item)}`));
+      }
+    } else {
+      lines.push(`${key}: ${formatScalar(value)}`);
+    }
+  }
+
+  lines.push(FENCE, '', body);
+  return `${lines.join('\n')}\n`;
+}
@@ -27,4 +27,55 @@ export {
 } from './validation';
 export { cn } from './cn';
 export { formatPlatformName } from './formatPlatformName';
-export { formatRelativeTime } from './formatRelativeTime';
\ No newline at end of file
+export { formatRelativeTime } from './formatRelativeTime';
+export {
+  parsePromptVariables,
+  formatVariableLabel,
+  hasPromptVariables,
+  getInitialVariableValues,
+  fillPromptVariables,
+  getBuiltInVariables,
+  getDateTimeVariableValues
+} from './promptVariables';
+export { diffLines, type LineDiffEntry, type LineDiffType } from './lineDiff';
+export { normalizeTags, parseTagInput, collectTags } from './tags';
+export { isValidSlashCommandTrigger, findSlashCommandQuery } from './slashCommands';
+export {
+  INSERTION_MODES,
+  isInsertionMode,
+  getModifierInsertionMode,
+  withInsertionSeparator,
+  applyInsertionMode
+} from './insertionModes';
+export { comparePinned, sortPinnedFirst } from './pinnedPrompts';
+export {
+  flattenCategoryTree,
+  getDescendantIds,
+  getCategoryNamesInSubtree,
+  getCategoryPath,
+  type CategoryTreeEntry
+} from './categoryTree';
+export {
+  createExportData,
+  getExportCategories,
+  getExportFilename,
+  saveJsonFile,
+  saveFile,
+  EXPORT_FILE_TYPES,
+  type ExportFileType,
+  type PromptExportData
+} from './exportFile';
+export { parseCsv, toCsv } from './csv';
+export { parseFrontMatter, stringifyFrontMatter, type FrontMatterValue, type FrontMatterDocument } from './frontMatter';
+export { createZip, readZip, type ZipTextFile } from './zip';
+export {
+  createMarkdownFiles,
+  parseMarkdownFiles,
+  createPromptCsv,
+  guessCsvColumnMapping,
+  parseCsvPrompts,
+  PROMPT_CSV_FIELDS,
+  type PromptCsvField,
+  type CsvColumnMapping,
+  type ImportBundle
+} from './promptFormats';
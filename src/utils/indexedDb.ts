@@ -0,0 +1,36 @@
+/**
+ * Promise wrappers for the IndexedDB request API
+ *
+ * The extension's pages and background worker share one origin, so databases
+ * opened here are visible to all of them (content scripts run in the page's
+ * origin and cannot reach them).
+ */
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => { resolve(request.result); };
+    request.onerror = () => { reject(request.error ?? new Error('IndexedDB request failed')); };
+  });
+}
+
+/**
+ * Resolve once a transaction has committed; reject if it fails or is aborted
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => { resolve(); };
+    transaction.onerror = () => { reject(transaction.error ?? new Error('IndexedDB transaction failed')); };
+    transaction.onabort = () => { reject(transaction.error ?? new Error('IndexedDB transaction aborted')); };
+  });
+}
+
+/**
+ * Open a database, creating its object stores on first use
+ *
+ * @param upgrade - Creates the object stores; runs when the database is new or `version` increased
+ */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, version);
+  request.onupgradeneeded = () => { upgrade(request.result); };
+  return requestToPromise(request);
+}
@@ -0,0 +1,111 @@
+/**
+ * Insertion mode utilities
+ *
+ * Shared by the settings UI (per-site default mode) and the content script
+ * (placing a prompt relative to the text already in a chat input).
+ */
+
+import { INSERTION_MODE_SEPARATOR } from '../constants';
+import type { InsertionMode } from '../types';
+
+/** All insertion modes, in the order the settings list them */
+export const INSERTION_MODES: readonly InsertionMode[] = ['replace', 'append', 'prepend', 'cursor'];
+
+/**
+ * Check whether a stored value is a known insertion mode
+ */
+export function isInsertionMode(value: unknown): value is InsertionMode {
+  return typeof value === 'string' && (INSERTION_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Insertion mode forced by the modifier keys held while picking a prompt
+ *
+ * Shift appends, Alt inserts at the caret, Shift+Alt prepends and Ctrl/Cmd
+ * replaces, whatever the site's default mode is.
+ *
+ * @param event - Click or key event of the selection
+ * @returns The forced mode, or null to use the site's default
+ */
+export function getModifierInsertionMode(
+  event: Pick<MouseEvent, 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>
+): InsertionMode | null {
+  if (event.shiftKey && event.altKey) {
+    return 'prepend';
+  }
+  if (event.shiftKey) {
+    return 'append';
+  }
+  if (event.altKey) {
+    return 'cursor';
+  }
+  if (event.ctrlKey || event.metaKey) {
+    return 'replace';
+  }
+  return null;
+}
+
+/**
+ * Text to insert at the insertion point: the prompt, with a separator on the
+ * side that touches existing text when appending or prepending
+ *
+ * @param content - Prompt content
+ * @param mode - Insertion mode
+ * @param hasExistingText - Whether the input already contains text
+ */
+export function withInsertionSeparator(content: string, mode: InsertionMode, hasExistingText: boolean): string {
+  if (!hasExistingText) {
+    return content;
+  }
+  if (mode === 'append') {
+    return `${INSERTION_MODE_SEPARATOR}${content}`;
+  }
+  if (mode === 'prepend') {
+    return `${content}${INSERTION_MODE_SEPARATOR}`;
+  }
+  return content;
+}
+
+/**
+ * Combine the current text of an input with a prompt
+ *
+ * @param current - Current text of the input
+ * @param content - Prompt content
+ * @param mode - Insertion mode
+ * @param selection - Selected range (or caret) for 'cursor' mode; without one the prompt is appended without separator
+ * @returns The new text, and where the caret goes (right after the inserted prompt)
+ *
+ * @example
+ * ```typescript
+ * applyInsertionMode('Hello', 'World', 'append');
+ * // Returns: { text: 'Hello\n\nWorld', caret: 12 }
+ * ```
+ */
+export function applyInsertionMode(
+  current: string,
+  content: string,
+  mode: InsertionMode,
+  selection?: { start: number; end: number } | null
+): { text: string; caret: number } {
+  // Appending to or prepending before blank text leaves just the prompt
+  const isBlank = current.trim().length === 0;
+
+  switch (mode) {
+    case 'replace':
+      return { text: content, caret: content.length };
+    case 'append': {
+      const text = isBlank ? content : `${current}${withInsertionSeparator(content, mode, true)}`;
+      return { text, caret: text.length };
+    }
+    case 'prepend':
+      return {
+        text: isBlank ? content : `${withInsertionSeparator(content, mode, true)}${current}`,
+        caret: content.length
+      };
+    case 'cursor': {
+      const start = Math.min(selection?.start ?? current.length, current.length);
+      const end = Math.max(Math.min(selection?.end ?? start, current.length), start);
+      return { text: `${current.slice(0, start)}${content}${current.slice(end)}`, caret: start + content.length };
+    }
+  }
+}
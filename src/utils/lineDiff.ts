@@ -0,0 +1,102 @@
+/**
+ * Line-based diff utility used by the prompt version history view
+ */
+
+export type LineDiffType = 'added' | 'removed' | 'unchanged';
+
+export interface LineDiffEntry {
+  type: LineDiffType;
+  text: string;
+}
+
+/**
+ * Above this many cells the LCS table gets too expensive; the changed block
+ * is then reported as a plain removal followed by an addition.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute a line diff between two texts
+ *
+ * Uses a longest-common-subsequence table over the lines that differ after
+ * trimming the common prefix and suffix.
+ *
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Diff entries in document order
+ *
+ * @example
+ * ```typescript
+ * diffLines('a\nb', 'a\nc');
+ * // [{ type: 'unchanged', text: 'a' }, { type: 'removed', text: 'b' }, { type: 'added', text: 'c' }]
+ * ```
+ */
+export function diffLines(before: string, after: string): LineDiffEntry[] {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: LineDiffEntry[] = oldLines.slice(0, start).map(text => ({ type: 'unchanged', text }));
+  result.push(...diffMiddle(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd)));
+  result.push(...oldLines.slice(oldEnd).map((text): LineDiffEntry => ({ type: 'unchanged', text })));
+
+  return result;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): LineDiffEntry[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  if (rows === 0 || cols === 0 || rows * cols > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text): LineDiffEntry => ({ type: 'removed', text })),
+      ...newLines.map((text): LineDiffEntry => ({ type: 'added', text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: LineDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < rows) {
+    result.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < cols) {
+    result.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return result;
+}
@@ -0,0 +1,34 @@
+/**
+ * Pinned prompt utilities
+ *
+ * Pinned prompts stay at the top of every prompt list (library, content script
+ * selector, quick-insert surfaces), whatever sort order is active.
+ */
+
+/**
+ * Comparator that orders pinned prompts before unpinned ones
+ *
+ * Returns 0 when both prompts share the same pinned state, so it can be
+ * chained in front of any other comparator.
+ */
+export function comparePinned(a: { pinned?: boolean }, b: { pinned?: boolean }): number {
+  return Number(b.pinned === true) - Number(a.pinned === true);
+}
+
+/**
+ * Move pinned prompts to the front, keeping the existing order within each group
+ *
+ * @param prompts - Prompts in their current (sorted or ranked) order
+ * @returns New array with pinned prompts first
+ *
+ * @example
+ * ```typescript
+ * sortPinnedFirst([{ id: 'a' }, { id: 'b', pinned: true }]); // [{ id: 'b', ... }, { id: 'a' }]
+ * ```
+ */
+export function sortPinnedFirst<T extends { pinned?: boolean }>(prompts: readonly T[]): T[] {
+  return [
+    ...prompts.filter(prompt => prompt.pinned === true),
+    ...prompts.filter(prompt => prompt.pinned !== true)
+  ];
+}
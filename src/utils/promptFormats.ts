@@ -0,0 +1,298 @@
+/**
+ * Markdown and CSV prompt formats
+ *
+ * Converts prompts to and from a folder of Markdown files with front-matter
+ * (shipped as a zip) and a CSV table. Parsing only maps fields: the result is
+ * an untrusted import bundle that still has to pass
+ * `StorageManager.validateImportBundle` before it is imported.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { DEFAULT_CATEGORY } from '../constants';
+import type { Category, Prompt } from '../types';
+
+import { getCategoryPath } from './categoryTree';
+import { toCsv } from './csv';
+import { parseFrontMatter, stringifyFrontMatter, type FrontMatterValue } from './frontMatter';
+import { parseTagInput } from './tags';
+import type { ZipTextFile } from './zip';
+
+/** Parsed but not yet validated import data */
+export interface ImportBundle {
+  prompts: Record<string, unknown>[];
+  categories: Category[];
+}
+
+export const PROMPT_CSV_FIELDS = ['id', 'title', 'content', 'category', 'tags', 'pinned', 'createdAt', 'updatedAt'] as const;
+export type PromptCsvField = typeof PROMPT_CSV_FIELDS[number];
+
+/** Column index per prompt field; unmapped fields get defaults */
+export type CsvColumnMapping = Partial<Record<PromptCsvField, number>>;
+
+// Header names other tools and spreadsheets commonly use for each field
+const CSV_HEADER_ALIASES: Record<PromptCsvField, string[]> = {
+  id: ['id', 'uuid'],
+  title: ['title', 'name', 'prompt name', 'act'],
+  content: ['content', 'prompt', 'text', 'body', 'template'],
+  category: ['category', 'folder', 'group', 'collection'],
+  tags: ['tags', 'labels', 'keywords'],
+  pinned: ['pinned', 'favorite', 'favourite', 'starred'],
+  createdAt: ['createdat', 'created', 'created at', 'date created'],
+  updatedAt: ['updatedat', 'updated', 'updated at', 'modified', 'last modified']
+};
+
+const MARKDOWN_FILE_PATTERN = /\.(md|markdown)$/i;
+
+/**
+ * Make a string safe to use as a file or folder name on all platforms
+ */
+function toFileName(value: string): string {
+  return value
+    .replace(/[<>:"/\\|?*]/g, '-')
+    .split('')
+    .filter(char => char.charCodeAt(0) >= 32)
+    .join('')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, 80);
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    const parsed = Number.isFinite(numeric) ? numeric : Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function parseTags(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  if (typeof value === 'string') {
+    return parseTagInput(value);
+  }
+  return undefined;
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return ['true', 'yes', '1', 'x'].includes(value.trim().toLowerCase());
+  }
+  return undefined;
+}
+
+/**
+ * Fill in the fields formats may leave out, the way a newly created prompt would get them
+ */
+function toPromptCandidate(fields: {
+  id?: unknown;
+  title?: unknown;
+  content: string;
+  category?: string;
+  tags?: string[];
+  pinned?: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}, now: number): Record<string, unknown> {
+  const createdAt = fields.createdAt ?? fields.updatedAt ?? now;
+  return {
+    id: typeof fields.id === 'string' && fields.id.trim() !== '' ? fields.id.trim() : uuidv4(),
+    title: fields.title === undefined ? '' : String(fields.title).trim(),
+    content: fields.content,
+    category: fields.category?.trim() || DEFAULT_CATEGORY,
+    ...(fields.tags && { tags: fields.tags }),
+    ...(fields.pinned !== undefined && { pinned: fields.pinned }),
+    createdAt,
+    updatedAt: Math.max(fields.updatedAt ?? createdAt, createdAt)
+  };
+}
+
+/**
+ * Add categories for names the bundle does not list yet (as top-level categories)
+ *
+ * Category names are matched case-insensitively; prompts are updated to use
+ * the spelling of the category they end up in.
+ */
+function addMissingCategories(categories: Category[], prompts: Record<string, unknown>[]): Category[] {
+  const known = new Map(categories.map(category => [category.name.toLowerCase(), category.name]));
+  const result = [...categories];
+  for (const prompt of prompts) {
+    const name = prompt.category as string;
+    const spelling = known.get(name.toLowerCase());
+    if (spelling === undefined) {
+      known.set(name.toLowerCase(), name);
+      result.push({ id: uuidv4(), name });
+    } else {
+      prompt.category = spelling;
+    }
+  }
+  return result;
+}
+
+/**
+ * Export prompts as Markdown files, one folder per category (nested like the category tree)
+ *
+ * Everything is placed in a single root folder, the same layout as a zip of a
+ * Git repository, so both import the same way.
+ *
+ * @example
+ * ```typescript
+ * createMarkdownFiles(prompts, categories, 'prompt-library');
+ * // [{ path: 'prompt-library/Work/Email/Follow-up.md', content: '---\nid: ...\ntitle: Follow-up\n...' }]
+ * ```
+ */
+export function createMarkdownFiles(prompts: readonly Prompt[], categories: readonly Category[], rootFolder: string): ZipTextFile[] {
+  const usedPaths = new Set<string>();
+
+  return prompts.map((prompt) => {
+    const folder = [rootFolder, ...getCategoryPath(categories, prompt.category)].map(name => toFileName(name) || 'Category').join('/');
+    const baseName = toFileName(prompt.title) || 'Prompt';
+    let path = `${folder}/${baseName}.md`;
+    for (let n = 2; usedPaths.has(path.toLowerCase()); n++) {
+      path = `${folder}/${baseName} (${String(n)}).md`;
+    }
+    usedPaths.add(path.toLowerCase());
+
+    const data: Record<string, FrontMatterValue | undefined> = {
+      id: prompt.id,
+      title: prompt.title,
+      category: prompt.category,
+      tags: prompt.tags && prompt.tags.length > 0 ? prompt.tags : undefined,
+      pinned: prompt.pinned ? true : undefined,
+      createdAt: new Date(prompt.createdAt).toISOString(),
+      updatedAt: new Date(prompt.updatedAt).toISOString()
+    };
+
+    return { path, content: stringifyFrontMatter(data, prompt.content) };
+  });
+}
+
+/**
+ * Read prompts from Markdown files, e.g. the contents of an exported zip or a repository
+ *
+ * Front-matter fields win; otherwise the title comes from the file name and the
+ * category from the folder the file is in. Folders become nested categories. A
+ * single folder wrapping everything (as in zips downloaded from Git hosts) is ignored.
+ * Files that are not Markdown, and hidden or macOS metadata folders, are skipped.
+ */
+export function parseMarkdownFiles(files: readonly ZipTextFile[]): ImportBundle {
+  const markdownFiles = files.filter(file =>
+    MARKDOWN_FILE_PATTERN.test(file.path) &&
+    !file.path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX')
+  );
+
+  const folders = markdownFiles.map(file => file.path.split('/').slice(0, -1));
+  const sharedRoot = folders.length > 0 && folders.every(folder => folder.length > 0 && folder[0] === folders[0][0]);
+
+  const categories: Category[] = [];
+  const categoryIds = new Map<string, string>();
+  const addFolderCategories = (path: string[]) => {
+    let parentId: string | undefined;
+    for (const name of path) {
+      const key = name.toLowerCase();
+      let id = categoryIds.get(key);
+      if (!id) {
+        id = uuidv4();
+        categoryIds.set(key, id);
+        categories.push({ id, name, ...(parentId && { parentId }) });
+      }
+      parentId = id;
+    }
+  };
+
+  const now = Date.now();
+  const prompts = markdownFiles.map((file, index) => {
+    const folder = sharedRoot ? folders[index].slice(1) : folders[index];
+    addFolderCategories(folder);
+
+    const { data, body } = parseFrontMatter(file.content);
+    const fileName = file.path.split('/').pop() ?? file.path;
+
+    return toPromptCandidate({
+      id: data.id,
+      title: data.title ?? fileName.replace(MARKDOWN_FILE_PATTERN, ''),
+      content: body.trim(),
+      category: typeof data.category === 'string' ? data.category : folder[folder.length - 1],
+      tags: parseTags(data.tags),
+      pinned: parseBoolean(data.pinned),
+      createdAt: parseTimestamp(data.createdAt),
+      updatedAt: parseTimestamp(data.updatedAt)
+    }, now);
+  });
+
+  return { prompts, categories: addMissingCategories(categories, prompts) };
+}
+
+/**
+ * Export prompts as CSV with a header row (one column per PROMPT_CSV_FIELDS entry)
+ */
+export function createPromptCsv(prompts: readonly Prompt[]): string {
+  const rows = prompts.map(prompt => [
+    prompt.id,
+    prompt.title,
+    prompt.content,
+    prompt.category,
+    (prompt.tags ?? []).join(', '),
+    prompt.pinned ? 'true' : '',
+    new Date(prompt.createdAt).toISOString(),
+    new Date(prompt.updatedAt).toISOString()
+  ]);
+  return toCsv([[...PROMPT_CSV_FIELDS], ...rows]);
+}
+
+/**
+ * Guess which column holds which field from the header row
+ */
+export function guessCsvColumnMapping(header: readonly string[]): CsvColumnMapping {
+  const normalized = header.map(name => name.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const mapping: CsvColumnMapping = {};
+
+  for (const field of PROMPT_CSV_FIELDS) {
+    const index = normalized.findIndex(name => CSV_HEADER_ALIASES[field].includes(name));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Read prompts from CSV rows (see parseCsv) using a column mapping
+ *
+ * Rows with empty content are skipped. Titles are left empty when unmapped so the
+ * caller can generate them from the content.
+ *
+ * @param options.hasHeader - Skip the first row
+ */
+export function parseCsvPrompts(csvRows: readonly string[][], mapping: CsvColumnMapping, options: { hasHeader: boolean }): ImportBundle {
+  const rows = csvRows.slice(options.hasHeader ? 1 : 0);
+  const cell = (row: string[], field: PromptCsvField): string | undefined => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+
+  const now = Date.now();
+  const prompts = rows
+    .filter(row => (cell(row, 'content') ?? '').trim() !== '')
+    .map(row => toPromptCandidate({
+      id: cell(row, 'id'),
+      title: cell(row, 'title'),
+      content: (cell(row, 'content') ?? '').trim(),
+      category: cell(row, 'category'),
+      tags: parseTags(cell(row, 'tags')),
+      pinned: parseBoolean(cell(row, 'pinned')),
+      createdAt: parseTimestamp(cell(row, 'createdAt')),
+      updatedAt: parseTimestamp(cell(row, 'updatedAt'))
+    }, now));
+
+  return { prompts, categories: addMissingCategories([], prompts) };
+}
@@ -0,0 +1,205 @@
+/**
+ * Template variable utilities for prompt content
+ *
+ * Supported placeholder syntax:
+ * - `{{name}}`                     free text
+ * - `{{name=Default}}`             free text with a default value
+ * - `{{name:multiline}}`           multi-line text (optionally `=Default`)
+ * - `{{name:choice(A|B|C)}}`       choice list (default: first option, or `=B`)
+ *
+ * Names may contain letters, digits, `_` and `-`, and must start with a letter or `_`.
+ * The same name may appear several times; the first occurrence defines its type.
+ *
+ * Built-in variables (`{{date}}`, `{{time}}`, `{{clipboard}}`, `{{selection}}`,
+ * `{{page_title}}`, `{{page_url}}`) are not filled in by the user: the content
+ * script resolves them right before insertion. A default (`{{clipboard=none}}`)
+ * is used when a built-in value is unavailable. Copying from the extension UI
+ * fills in only the date and time; the others need a page.
+ */
+
+import type { PromptVariable, PromptVariableType, PromptVariableValues } from '../types';
+
+/** Maximum length accepted for a single variable value */
+export const MAX_VARIABLE_VALUE_LENGTH = 5000;
+
+/** Variables resolved at insert time; no other names are ever looked up */
+export const BUILT_IN_VARIABLE_NAMES = ['date', 'time', 'clipboard', 'selection', 'page_title', 'page_url'] as const;
+
+export type BuiltInVariableName = typeof BUILT_IN_VARIABLE_NAMES[number];
+
+export type BuiltInVariableValues = Partial<Record<BuiltInVariableName, string>>;
+
+export interface BuiltInVariable {
+  name: BuiltInVariableName;
+  defaultValue?: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?::\s*(text|multiline|choice)\s*(?:\(([^)}]*)\))?\s*)?(?:=([^}]*))?\}\}/g;
+
+const createPattern = (): RegExp => new RegExp(VARIABLE_PATTERN.source, 'g');
+
+/**
+ * Check whether a variable name is one of the built-in variables
+ */
+export function isBuiltInVariable(name: string): name is BuiltInVariableName {
+  return (BUILT_IN_VARIABLE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Extract the user-filled variables declared in prompt content, in order of
+ * first appearance (built-in variables are left out)
+ *
+ * @param content - Prompt content to scan
+ * @returns Unique variables (by name) with their type, options and default value
+ *
+ * @example
+ * ```typescript
+ * parsePromptVariables('Hi {{customer}}, use {{lang:choice(Python|Go)}}');
+ * // [{ name: 'customer', type: 'text' }, { name: 'lang', type: 'choice', options: ['Python', 'Go'], defaultValue: 'Python' }]
+ * ```
+ */
+export function parsePromptVariables(content: string): PromptVariable[] {
+  const variables = new Map<string, PromptVariable>();
+
+  for (const match of content.matchAll(createPattern())) {
+    const [, name, rawType, rawOptions, rawDefault] = match;
+    if (variables.has(name) || isBuiltInVariable(name)) {
+      continue;
+    }
+
+    const type: PromptVariableType = (rawType as PromptVariableType | undefined) ?? 'text';
+    const variable: PromptVariable = { name, type };
+
+    if (type === 'choice') {
+      const options = (rawOptions ?? '')
+        .split('|')
+        .map(option => option.trim())
+        .filter(option => option.length > 0);
+
+      // A choice list without options degrades to free text
+      if (options.length === 0) {
+        variable.type = 'text';
+      } else {
+        variable.options = options;
+      }
+    }
+
+    const defaultValue = rawDefault?.trim();
+    if (defaultValue) {
+      variable.defaultValue = defaultValue;
+    } else if (variable.options) {
+      variable.defaultValue = variable.options[0];
+    }
+
+    variables.set(name, variable);
+  }
+
+  return Array.from(variables.values());
+}
+
+/**
+ * Turns a variable name like "target_language" into "Target language"
+ */
+export function formatVariableLabel(name: string): string {
+  const spaced = name.replace(/[_-]+/g, ' ').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+/**
+ * Check whether prompt content contains at least one user-filled template variable
+ */
+export function hasPromptVariables(content: string): boolean {
+  return parsePromptVariables(content).length > 0;
+}
+
+/**
+ * List the built-in variables used in prompt content, in order of first
+ * appearance; the first occurrence defines the default value
+ */
+export function getBuiltInVariables(content: string): BuiltInVariable[] {
+  const variables = new Map<BuiltInVariableName, BuiltInVariable>();
+  for (const [, name, , , rawDefault] of content.matchAll(createPattern())) {
+    if (!isBuiltInVariable(name) || variables.has(name)) {
+      continue;
+    }
+    const defaultValue = rawDefault?.trim();
+    variables.set(name, defaultValue ? { name, defaultValue } : { name });
+  }
+  return Array.from(variables.values());
+}
+
+/**
+ * Compute the initial form values for a set of variables
+ *
+ * Remembered values win over defaults; remembered choice values that are no
+ * longer valid options are ignored.
+ */
+export function getInitialVariableValues(
+  variables: PromptVariable[],
+  remembered: PromptVariableValues = {}
+): PromptVariableValues {
+  const values: PromptVariableValues = {};
+
+  for (const variable of variables) {
+    const previous = remembered[variable.name];
+    const isValidPrevious = typeof previous === 'string' &&
+      (variable.type !== 'choice' || (variable.options ?? []).includes(previous));
+
+    values[variable.name] = isValidPrevious ? previous : (variable.defaultValue ?? '');
+  }
+
+  return values;
+}
+
+/**
+ * Values of the built-in variables that need no page: the current date and time
+ */
+export function getDateTimeVariableValues(now: Date = new Date()): Required<Pick<BuiltInVariableValues, 'date' | 'time'>> {
+  return {
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  };
+}
+
+/**
+ * Replace every variable placeholder with its value
+ *
+ * Placeholders without a provided value fall back to their default value,
+ * and to an empty string when there is none. Built-in variables are filled
+ * from `builtInValues` in the same pass; those missing from it (or all of them,
+ * when it is omitted) are left in place.
+ * Values are inserted as plain text, so a value that itself looks like a
+ * placeholder (e.g. `{{clipboard}}` typed into a field) is never expanded.
+ *
+ * @param content - Prompt content containing placeholders
+ * @param values - Values keyed by variable name
+ * @param builtInValues - Resolved built-in values; an empty value falls back to the placeholder's default
+ * @returns Content with the placeholders substituted
+ */
+export function fillPromptVariables(
+  content: string,
+  values: PromptVariableValues,
+  builtInValues?: BuiltInVariableValues
+): string {
+  const variables = new Map(parsePromptVariables(content).map(variable => [variable.name, variable]));
+
+  return content.replace(createPattern(), (placeholder: string, name: string, ...groups: unknown[]) => {
+    if (isBuiltInVariable(name)) {
+      if (builtInValues?.[name] === undefined) {
+        return placeholder;
+      }
+      const builtInValue = builtInValues[name];
+      if (builtInValue) {
+        return builtInValue.slice(0, MAX_VARIABLE_VALUE_LENGTH);
+      }
+      // Capture groups after the name: type, options, default
+      const defaultValue = groups[2];
+      return typeof defaultValue === 'string' ? defaultValue.trim() : '';
+    }
+    const value = values[name];
+    if (typeof value === 'string') {
+      return value.slice(0, MAX_VARIABLE_VALUE_LENGTH);
+    }
+    return variables.get(name)?.defaultValue ?? '';
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Slash command utilities
+ *
+ * Shared by the settings UI (trigger validation) and the content script
+ * (detecting a trigger such as "/summ" right before the caret).
+ */
+
+// Longest query typed after the trigger that still counts as a slash command
+const MAX_QUERY_LENGTH = 50;
+
+/**
+ * Check whether a character can be used as the slash command trigger
+ *
+ * Letters, digits and whitespace are rejected because they appear in normal text.
+ *
+ * @param trigger - Candidate trigger
+ * @returns True for a single punctuation or symbol character
+ */
+export function isValidSlashCommandTrigger(trigger: unknown): trigger is string {
+  return typeof trigger === 'string' && [...trigger].length === 1 && !/[\p{L}\p{N}\s]/u.test(trigger);
+}
+
+/**
+ * Find an active slash command in the text before the caret
+ *
+ * The trigger must start the text or follow whitespace, and the query may not
+ * start with whitespace or span lines, so "and/or" or "a / b" are ignored.
+ *
+ * @param textBeforeCaret - Text of the input up to the caret
+ * @param trigger - Trigger character (e.g. "/")
+ * @returns The typed query (possibly empty) and the length of trigger plus query, or null
+ *
+ * @example
+ * ```typescript
+ * findSlashCommandQuery('Please /summ', '/'); // { query: 'summ', length: 5 }
+ * findSlashCommandQuery('and/or', '/'); // null
+ * ```
+ */
+export function findSlashCommandQuery(
+  textBeforeCaret: string,
+  trigger: string
+): { query: string; length: number } | null {
+  const triggerIndex = textBeforeCaret.lastIndexOf(trigger);
+  if (triggerIndex === -1) {
+    return null;
+  }
+
+  const before = textBeforeCaret.slice(0, triggerIndex);
+  if (before.length > 0 && !/\s$/.test(before)) {
+    return null;
+  }
+
+  const query = textBeforeCaret.slice(triggerIndex + trigger.length);
+  if (query.length > MAX_QUERY_LENGTH || /^\s/.test(query) || query.includes('\n')) {
+    return null;
+  }
+
+  return { query, length: trigger.length + query.length };
+}
@@ -1,6 +1,7 @@
 /**
  * Storage quota utilities for proactive quota management
- * Chrome storage.local limit: 5MB (5,242,880 bytes)
+ * Chrome storage.local limit: 5MB (5,242,880 bytes); with the IndexedDB layout the
+ * quota comes from navigator.storage.estimate()
  */
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Tag utilities
+ *
+ * Tags are a free-form organization axis next to categories. They are stored
+ * trimmed and lowercase so that "Python" and "python " end up as the same tag.
+ */
+
+import { VALIDATION_LIMITS } from '../constants';
+import type { Prompt } from '../types';
+
+/**
+ * Normalize a list of tags for storage
+ *
+ * Non-string entries are dropped, whitespace is collapsed, tags are lowercased,
+ * truncated to the maximum length and de-duplicated (first occurrence wins).
+ * The result is capped at the per-prompt maximum.
+ *
+ * @param value - Untrusted tag list (e.g. from imported or shared data)
+ * @returns Clean tag list, empty if `value` is not an array
+ *
+ * @example
+ * ```typescript
+ * normalizeTags([' Python ', 'python', 'Code  Review']); // ['python', 'code review']
+ * ```
+ */
+export function normalizeTags(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const tags: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'string') {
+      continue;
+    }
+    const tag = entry.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, VALIDATION_LIMITS.TAG_MAX_LENGTH).trim();
+    if (tag.length > 0 && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+    if (tags.length >= VALIDATION_LIMITS.TAGS_PER_PROMPT_MAX) {
+      break;
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Parse comma-separated tag input from a form field
+ *
+ * @param input - Raw text such as "python, code-review"
+ * @returns Normalized tags
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+/**
+ * Collect every tag used by the given prompts, sorted alphabetically
+ *
+ * @param prompts - Prompts to scan
+ * @returns Unique tags
+ */
+export function collectTags(prompts: Pick<Prompt, 'tags'>[]): string[] {
+  const tags = new Set<string>();
+  for (const prompt of prompts) {
+    prompt.tags?.forEach(tag => tags.add(tag));
+  }
+  return [...tags].sort((a, b) => a.localeCompare(b));
+}
@@ -38,3 +38,93 @@ export function findTextHighlights(text: string, searchTerm: string): TextHighli
 
   return highlights;
 }
+
+/**
+ * A word of a text, lowercased and without diacritics, with its position in the original text
+ */
+export interface TextToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Letters, digits and the marks that belong to them (e.g. Devanagari vowel signs)
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+// Combining accents of Latin, Greek and Cyrillic letters; other marks (e.g. Japanese dakuten) are kept
+const DIACRITICS_PATTERN = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercase text and strip its diacritics ("Café" → "cafe"), so that searches
+ * match with or without accents. sourceIndex maps each character of the result
+ * (and its end) to the index of the original character it came from.
+ */
+export function foldText(text: string): { folded: string; sourceIndex: number[] } {
+  let folded = '';
+  const sourceIndex: number[] = [];
+
+  let index = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const foldedChar = code < 0x80
+      ? char.toLowerCase()
+      : char.normalize('NFD').replace(DIACRITICS_PATTERN, '').normalize('NFC').toLowerCase();
+    for (let i = 0; i < foldedChar.length; i++) {
+      sourceIndex.push(index);
+    }
+    folded += foldedChar;
+    index += char.length;
+  }
+  sourceIndex.push(text.length);
+
+  return { folded, sourceIndex };
+}
+
+/**
+ * Split text into folded words (see foldText), keeping their position in the original text
+ *
+ * @example
+ * ```typescript
+ * tokenizeText('Créer un café');
+ * // Returns: [{ term: 'creer', start: 0, end: 5 }, { term: 'un', ... }, { term: 'cafe', start: 9, end: 13 }]
+ * ```
+ */
+export function tokenizeText(text: string): TextToken[] {
+  const { folded, sourceIndex } = foldText(text);
+  return Array.from(folded.matchAll(WORD_PATTERN), match => ({
+    term: match[0],
+    start: sourceIndex[match.index],
+    end: sourceIndex[match.index + match[0].length]
+  }));
+}
+
+/**
+ * Highlight the words of a text that a search matched
+ *
+ * @param text The text to search within
+ * @param terms Folded words to highlight, each with the number of leading
+ *   characters to mark: the whole word, or only the typed part of a prefix match
+ * @returns Array of TextHighlight objects with start/end positions in the original text
+ *
+ * @example
+ * ```typescript
+ * findTermHighlights('JavaScript Café', new Map([['javascript', 4], ['cafe', 4]]));
+ * // Returns: [{ start: 0, end: 4, text: 'Java' }, { start: 11, end: 15, text: 'Café' }]
+ * ```
+ */
+export function findTermHighlights(text: string, terms: ReadonlyMap<string, number>): TextHighlight[] {
+  if (terms.size === 0) {
+    return [];
+  }
+
+  const { folded, sourceIndex } = foldText(text);
+  const highlights: TextHighlight[] = [];
+  for (const match of folded.matchAll(WORD_PATTERN)) {
+    const length = terms.get(match[0]);
+    if (length === undefined) {continue;}
+
+    const start = sourceIndex[match.index];
+    const end = sourceIndex[match.index + Math.min(length, match[0].length)];
+    highlights.push({ start, end, text: text.substring(start, end) });
+  }
+  return highlights;
+}
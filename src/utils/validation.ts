@@ -121,7 +121,8 @@ export const isCategory: TypeGuard<Category> = (value): value is Category => {
   return (
     typeof obj.id === 'string' &&
     typeof obj.name === 'string' &&
-    (obj.color === undefined || typeof obj.color === 'string')
+    (obj.color === undefined || typeof obj.color === 'string') &&
+    (obj.parentId === undefined || typeof obj.parentId === 'string')
   );
 };
 
@@ -233,6 +234,8 @@ export function isArrayOf<T>(itemGuard: TypeGuard<T>): TypeGuard<T[]> {
  * Validates that a value is a valid prompt for import purposes.
  * Import prompts must have title, content, and category strings.
  * Other fields (id, createdAt, etc.) may be generated during import.
+ * Tags are optional (older exports have none) but must be strings when present.
+ * The pinned flag is optional as well and must be a boolean when present.
  */
 export function isValidImportPrompt(value: unknown): boolean {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
@@ -242,7 +245,10 @@ export function isValidImportPrompt(value: unknown): boolean {
   return (
     typeof p.title === 'string' &&
     typeof p.content === 'string' &&
-    typeof p.category === 'string'
+    typeof p.category === 'string' &&
+    (p.tags === undefined || (Array.isArray(p.tags) && p.tags.every(tag => typeof tag === 'string'))) &&
+    (p.pinned === undefined || typeof p.pinned === 'boolean') &&
+    (p.notes === undefined || typeof p.notes === 'string')
   );
 }
 
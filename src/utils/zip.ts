@@ -0,0 +1,213 @@
+/**
+ * Minimal zip archive support for text files
+ *
+ * Writing stores files uncompressed, which every zip tool can open. Reading
+ * handles stored and deflated entries (what Git hosts, Finder and Explorer
+ * produce), inflating through the browser's DecompressionStream. Encryption,
+ * zip64 and multi-disk archives are not supported.
+ */
+
+export interface ZipTextFile {
+  /** Path inside the archive, using `/` as separator */
+  path: string;
+  content: string;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+// General purpose flag bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a zip archive from text files (UTF-8 encoded, stored without compression)
+ *
+ * @example
+ * ```typescript
+ * const bytes = createZip([{ path: 'Work/standup.md', content: '# Standup' }]);
+ * const blob = new Blob([bytes], { type: 'application/zip' });
+ * ```
+ */
+export function createZip(files: readonly ZipTextFile[], modifiedAt = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, METHOD_STORED, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, METHOD_STORED, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const result = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  void writer.write(data);
+  void writer.close();
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {break;}
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes followed by a comment of up to 64 KB
+  const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= earliest; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      return i;
+    }
+  }
+  throw new Error('Not a zip archive: end of central directory not found');
+}
+
+/**
+ * Read all files from a zip archive as UTF-8 text; directory entries are skipped
+ *
+ * @throws Error if the data is not a zip archive or uses an unsupported compression method
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipTextFile[]> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder('utf-8');
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const files: ZipTextFile[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip archive: invalid central directory');
+    }
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) {
+      continue;
+    }
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip archive: invalid header for ${path}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Uint8Array;
+    if (method === METHOD_STORED) {
+      content = data;
+    } else if (method === METHOD_DEFLATE) {
+      content = await inflateRaw(data);
+    } else {
+      throw new Error(`Unsupported zip compression method ${String(method)} for ${path}`);
+    }
+
+    files.push({ path, content: decoder.decode(content) });
+  }
+
+  return files;
+}